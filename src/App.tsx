@@ -1,22 +1,57 @@
-import React from 'react';
 import { PageReplacement } from './components/PageReplacement';
+import { AddressTranslation } from './components/AddressTranslation';
+import { Multiprogramming } from './components/Multiprogramming';
 import { DiskScheduling } from './components/DiskScheduling';
-import { BookOpen, HardDrive, Info, Github } from 'lucide-react';
+import { CpuScheduling } from './components/CpuScheduling';
+import { Deadlock } from './components/Deadlock';
+import { MemoryAllocation } from './components/MemoryAllocation';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { useI18n } from './i18n/context';
+import { RichText } from './i18n/RichText';
+import {
+  BookOpen,
+  Cpu,
+  HardDrive,
+  Info,
+  Github,
+  Layers,
+  Lock,
+  MemoryStick,
+  Timer,
+} from 'lucide-react';
+
+// Itens das listas de algoritmos, na ordem de exibição
+const PAGE_LIST = ['fifo', 'lru', 'opt', 'clock', 'frequency', 'nru'] as const;
+const DISK_LIST = [
+  'fcfs',
+  'sstf',
+  'scan',
+  'look',
+  'circular',
+  'batch',
+] as const;
+const CPU_LIST = ['fcfs', 'sjf', 'rr', 'priority', 'mlfq'] as const;
+const MEMORY_LIST = [
+  'firstFit',
+  'bestFit',
+  'worstFit',
+  'nextFit',
+  'buddy',
+] as const;
 
 function App() {
+  const { t } = useI18n();
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100">
       {/* Header */}
       <header className="bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-12 mb-12 shadow-lg">
         <div className="container mx-auto px-4 text-center">
-          <h1 className="text-5xl font-bold mb-4">
-            Visualização de Algoritmos de Sistemas Operacionais
-          </h1>
-          <p className="text-xl max-w-2xl mx-auto">
-            Demonstrações interativas dos algoritmos de Substituição de Páginas
-            e Escalonamento de Disco. Explore como esses algoritmos funcionam e
-            impactam o desempenho do sistema.
-          </p>
+          <div className="flex justify-end mb-4">
+            <LanguageSwitcher />
+          </div>
+          <h1 className="text-5xl font-bold mb-4">{t('app.title')}</h1>
+          <p className="text-xl max-w-2xl mx-auto">{t('app.subtitle')}</p>
         </div>
       </header>
 
@@ -27,69 +62,169 @@ function App() {
           <div className="flex items-center gap-4 mb-8">
             <BookOpen size={40} className="text-indigo-600" />
             <h2 className="text-4xl font-bold text-indigo-900">
-              Algoritmos de Substituição de Páginas
+              {t('app.pageHeading')}
             </h2>
           </div>
           <div className="prose max-w-none mb-8">
             <p className="text-indigo-700 text-lg">
-              Os algoritmos de substituição de páginas são fundamentais para o
-              gerenciamento de memória virtual em sistemas operacionais. Quando
-              ocorre um <strong>page fault</strong> e não há frames livres na
-              memória, o sistema operacional precisa escolher qual página será
-              removida para dar lugar à nova página requisitada.
-            </p>
-            <p className="text-indigo-700 text-lg">
-              Nesta simulação, você pode explorar dois algoritmos populares:
+              <RichText
+                text={t('app.pageIntro')}
+                values={{ term: <strong>{t('app.pageTerm')}</strong> }}
+              />
             </p>
+            <p className="text-indigo-700 text-lg">{t('app.explore')}</p>
             <ul className="text-indigo-700 text-lg list-disc pl-6">
-              <li>
-                <strong>FIFO (First In, First Out)</strong>: Substitui a página
-                mais antiga na memória.
-              </li>
-              <li>
-                <strong>LRU (Least Recently Used)</strong>: Substitui a página
-                que não foi utilizada há mais tempo.
-              </li>
+              {PAGE_LIST.map((item) => (
+                <li key={item}>
+                  <strong>{t(`app.pageList.${item}.name`)}</strong>:{' '}
+                  {t(`app.pageList.${item}.text`)}
+                </li>
+              ))}
             </ul>
           </div>
           <PageReplacement />
         </section>
 
+        {/* Address Translation Section */}
+        <section className="mb-16">
+          <div className="flex items-center gap-4 mb-8">
+            <Cpu size={40} className="text-indigo-600" />
+            <h2 className="text-4xl font-bold text-indigo-900">
+              {t('app.translationHeading')}
+            </h2>
+          </div>
+          <div className="prose max-w-none mb-8">
+            <p className="text-indigo-700 text-lg">
+              <RichText
+                text={t('app.translationIntro')}
+                values={{ term: <strong>{t('app.translationTerm')}</strong> }}
+              />
+            </p>
+          </div>
+          <AddressTranslation />
+        </section>
+
+        {/* Multiprogramming Section */}
+        <section className="mb-16">
+          <div className="flex items-center gap-4 mb-8">
+            <Layers size={40} className="text-indigo-600" />
+            <h2 className="text-4xl font-bold text-indigo-900">
+              {t('app.multiHeading')}
+            </h2>
+          </div>
+          <div className="prose max-w-none mb-8">
+            <p className="text-indigo-700 text-lg">
+              <RichText
+                text={t('app.multiIntro')}
+                values={{ term: <strong>{t('app.multiTerm')}</strong> }}
+              />
+            </p>
+          </div>
+          <Multiprogramming />
+        </section>
+
         {/* Disk Scheduling Section */}
         <section className="mb-16">
           <div className="flex items-center gap-4 mb-8">
             <HardDrive size={40} className="text-purple-600" />
             <h2 className="text-4xl font-bold text-purple-900">
-              Algoritmos de Escalonamento de Disco
+              {t('app.diskHeading')}
             </h2>
           </div>
           <div className="prose max-w-none mb-8">
             <p className="text-purple-700 text-lg">
-              Os algoritmos de escalonamento de disco são responsáveis por
-              determinar a ordem em que as requisições de I/O são atendidas. O
-              objetivo é minimizar o tempo de busca (<strong>seek time</strong>)
-              e maximizar a eficiência do disco.
-            </p>
-            <p className="text-purple-700 text-lg">
-              Nesta simulação, você pode explorar três algoritmos populares:
+              <RichText
+                text={t('app.diskIntro')}
+                values={{ term: <strong>{t('app.diskTerm')}</strong> }}
+              />
             </p>
+            <p className="text-purple-700 text-lg">{t('app.explore')}</p>
             <ul className="text-purple-700 text-lg list-disc pl-6">
-              <li>
-                <strong>FCFS (First Come, First Served)</strong>: Atende as
-                requisições na ordem de chegada.
-              </li>
-              <li>
-                <strong>SSTF (Shortest Seek Time First)</strong>: Atende a
-                requisição mais próxima da posição atual do cabeçote.
-              </li>
-              <li>
-                <strong>SCAN (Elevator Algorithm)</strong>: Move o cabeçote em
-                uma direção, atendendo requisições no caminho.
-              </li>
+              {DISK_LIST.map((item) => (
+                <li key={item}>
+                  <strong>{t(`app.diskList.${item}.name`)}</strong>:{' '}
+                  {t(`app.diskList.${item}.text`)}
+                </li>
+              ))}
             </ul>
           </div>
           <DiskScheduling />
         </section>
+
+        {/* CPU Scheduling Section */}
+        <section className="mb-16">
+          <div className="flex items-center gap-4 mb-8">
+            <Timer size={40} className="text-emerald-600" />
+            <h2 className="text-4xl font-bold text-emerald-900">
+              {t('app.cpuHeading')}
+            </h2>
+          </div>
+          <div className="prose max-w-none mb-8">
+            <p className="text-emerald-700 text-lg">
+              <RichText
+                text={t('app.cpuIntro')}
+                values={{ term: <strong>{t('app.cpuTerm')}</strong> }}
+              />
+            </p>
+            <p className="text-emerald-700 text-lg">{t('app.explore')}</p>
+            <ul className="text-emerald-700 text-lg list-disc pl-6">
+              {CPU_LIST.map((item) => (
+                <li key={item}>
+                  <strong>{t(`app.cpuList.${item}.name`)}</strong>:{' '}
+                  {t(`app.cpuList.${item}.text`)}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <CpuScheduling />
+        </section>
+
+        {/* Deadlock Section */}
+        <section className="mb-16">
+          <div className="flex items-center gap-4 mb-8">
+            <Lock size={40} className="text-rose-600" />
+            <h2 className="text-4xl font-bold text-rose-900">
+              {t('app.deadlockHeading')}
+            </h2>
+          </div>
+          <div className="prose max-w-none mb-8">
+            <p className="text-rose-700 text-lg">
+              <RichText
+                text={t('app.deadlockIntro')}
+                values={{ term: <strong>{t('app.deadlockTerm')}</strong> }}
+              />
+            </p>
+          </div>
+          <Deadlock />
+        </section>
+
+        {/* Memory Allocation Section */}
+        <section className="mb-16">
+          <div className="flex items-center gap-4 mb-8">
+            <MemoryStick size={40} className="text-amber-600" />
+            <h2 className="text-4xl font-bold text-amber-900">
+              {t('app.memoryHeading')}
+            </h2>
+          </div>
+          <div className="prose max-w-none mb-8">
+            <p className="text-amber-700 text-lg">
+              <RichText
+                text={t('app.memoryIntro')}
+                values={{ term: <strong>{t('app.memoryTerm')}</strong> }}
+              />
+            </p>
+            <p className="text-amber-700 text-lg">{t('app.explore')}</p>
+            <ul className="text-amber-700 text-lg list-disc pl-6">
+              {MEMORY_LIST.map((item) => (
+                <li key={item}>
+                  <strong>{t(`app.memoryList.${item}.name`)}</strong>:{' '}
+                  {t(`app.memoryList.${item}.text`)}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <MemoryAllocation />
+        </section>
       </main>
 
       {/* Footer */}
@@ -103,23 +238,18 @@ function App() {
               className="flex items-center gap-2 text-white hover:text-indigo-300 transition-colors"
             >
               <Github size={24} />
-              <span>Ver no GitHub</span>
+              <span>{t('app.github')}</span>
             </a>
             <a
               href="https://github.com/ramosnvy"
               className="flex items-center gap-2 text-white hover:text-indigo-300 transition-colors"
             >
               <Info size={24} />
-              <span>Saiba Mais</span>
+              <span>{t('app.learnMore')}</span>
             </a>
           </div>
-          <p className="text-lg">
-            Ferramenta Educacional Interativa para Conceitos de Sistemas
-            Operacionais
-          </p>
-          <p className="text-sm text-gray-400 mt-2">
-            Desenvolvido com ❤️ por Pedro Ramos
-          </p>
+          <p className="text-lg">{t('app.tagline')}</p>
+          <p className="text-sm text-gray-400 mt-2">{t('app.credits')}</p>
         </div>
       </footer>
     </div>
@@ -0,0 +1,17 @@
+/**
+ * Ponto de entrada do simulador de linha de comando:
+ *
+ *   npm run sim -- page --alg LRU --frames 4 --refs "7 0 1 2 0 3"
+ *
+ * Erros de uso vão para a saída de erro; o código de saída é o de `runSim`.
+ */
+
+import { readFileSync } from 'node:fs';
+import { runSim } from './sim';
+
+const { output, exitCode } = runSim(process.argv.slice(2), (path) =>
+  readFileSync(path, 'utf8')
+);
+const stream = exitCode === 2 ? process.stderr : process.stdout;
+stream.write(output.endsWith('\n') ? output : `${output}\n`);
+process.exitCode = exitCode;
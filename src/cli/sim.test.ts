@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { runSim } from './sim';
+
+const PAGE = ['page', '--alg', 'FIFO', '--frames', '2', '--refs', '1 2 1 3'];
+const DISK = [
+  'disk',
+  '--alg',
+  'SSTF',
+  '--size',
+  '200',
+  '--head',
+  '50',
+  '--requests',
+  '98 183 37',
+];
+
+// Nenhum teste lê arquivos de verdade: `files` faz o papel do disco
+const run = (args: string[], files: Record<string, string> = {}) =>
+  runSim(args, (path) => {
+    if (!(path in files)) throw new Error('ENOENT');
+    return files[path];
+  });
+
+describe('runSim', () => {
+  it('imprime a tabela passo a passo e o resumo', () => {
+    const { output, exitCode } = run(PAGE);
+    expect(exitCode).toBe(0);
+    expect(output.split('\n')).toEqual([
+      'Passo  Referência  Frame 0  Frame 1  Fault  Vítima  Faults',
+      '1      1           1                 sim            1',
+      '2      2           1        2        sim            2',
+      '3      1           1        2        não            2',
+      '4      3           3        2        sim    1       3',
+      '',
+      'Page faults: 3 | acertos: 1 (25%) | write-backs: 0',
+    ]);
+  });
+
+  it('gera CSV e JSON no idioma pedido', () => {
+    expect(run([...DISK, '--format', 'csv']).output).toBe(
+      'Passo,De,Para,Requisição,Movimento,Distância,Seek,Seek total\r\n' +
+        '1,50,37,#3 (37),atendimento,13,13,13\r\n' +
+        '2,37,98,#1 (98),atendimento,61,61,74\r\n' +
+        '3,98,183,#2 (183),atendimento,85,85,159\r\n'
+    );
+    const json = JSON.parse(
+      run([...DISK, '--format', 'json', '--lang', 'en']).output
+    );
+    expect(json.header[0]).toBe('Step');
+    expect(json.steps).toHaveLength(3);
+    expect(json.summary.totalSeek).toBe(159);
+  });
+
+  it('aponta o primeiro passo em que o trace enviado difere', () => {
+    const key = run([...PAGE, '--format', 'csv', '--lang', 'en']).output;
+    const wrong = key.replace('4,3,3,2,yes,1,3', '4,3,1,3,yes,2,3');
+    const result = run([...PAGE, '--compare', 'aluno.csv'], {
+      'aluno.csv': wrong,
+    });
+    expect(result).toEqual({
+      output:
+        'Primeira diferença no passo 4, coluna "Frame 0": esperado "3", enviado "1".',
+      exitCode: 1,
+    });
+    expect(
+      run([...PAGE, '--compare', 'gabarito.json'], {
+        'gabarito.json': run([...PAGE, '--format', 'json']).output,
+      }).exitCode
+    ).toBe(0);
+  });
+
+  it('informa passos faltando e cabeçalhos de outro trace', () => {
+    const key = run([...PAGE, '--format', 'csv']).output;
+    const short = key.split('\r\n').slice(0, 3).join('\r\n');
+    expect(
+      run([...PAGE, '--compare', 'a.csv'], { 'a.csv': short }).output
+    ).toBe('a.csv tem 2 passos, mas o gabarito tem 4.');
+    const disk = run([...DISK, '--format', 'csv']).output;
+    expect(
+      run([...PAGE, '--compare', 'b.csv'], { 'b.csv': disk }).exitCode
+    ).toBe(1);
+  });
+
+  it('rejeita opções inválidas com código 2', () => {
+    expect(
+      run(['page', '--alg', 'XYZ', '--frames', '2', '--refs', '1'])
+    ).toEqual({
+      output:
+        '--alg deve ser um de: FIFO, LRU, OPT, CLOCK, ESC, LFU, MFU, NRU.',
+      exitCode: 2,
+    });
+    expect(run([...DISK, '--arrivals', '0 1']).output).toBe(
+      'Informe uma chegada para cada requisição (3).'
+    );
+    expect(run(['disk', '--frames', '2']).output).toBe(
+      'Opção desconhecida: --frames.'
+    );
+    expect(run([...PAGE, '--compare', 'nada.csv']).exitCode).toBe(2);
+  });
+});
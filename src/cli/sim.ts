@@ -0,0 +1,474 @@
+/**
+ * Simulador de linha de comando, para gerar gabaritos e corrigir traces de
+ * alunos sem o navegador. Usa os mesmos motores e as mesmas tabelas passo
+ * a passo (`engines/csv`) da interface:
+ *
+ *   sim page --alg LRU --frames 4 --refs "7 0 1 2 0 3w"
+ *   sim disk --alg SCAN --head 50 --size 200 --requests "98 183 37"
+ *
+ * Com `--compare arquivo`, o trace enviado (CSV exportado pela interface
+ * ou CSV/JSON gerado aqui) é conferido com o gabarito, e a saída aponta o
+ * primeiro passo diferente. O idioma do arquivo é reconhecido pelo
+ * cabeçalho.
+ *
+ * Este módulo não acessa o sistema de arquivos nem o processo: recebe os
+ * argumentos e uma função de leitura, e devolve o texto e o código de saída.
+ */
+
+import {
+  Cell,
+  diskTraceRows,
+  pageTraceRows,
+  parseCsv,
+  toCsv,
+} from '../engines/csv';
+import {
+  DISK_ALGORITHMS,
+  DiskAlgorithm,
+  simulateDiskScheduling,
+  summarizeDiskTrace,
+} from '../engines/diskScheduling';
+import {
+  MAX_ARRIVAL,
+  MAX_DISK_SIZE,
+  MAX_FRAMES,
+  MAX_PAGE_NUMBER,
+  ParseResult,
+  parseIntegerInRange,
+  parseIntegerList,
+  parseReferenceList,
+} from '../engines/input';
+import {
+  PAGE_ALGORITHMS,
+  PageAlgorithm,
+  simulatePageReplacement,
+  summarizePageTrace,
+} from '../engines/pageReplacement';
+import {
+  AT_MOST_ONE_DECIMAL,
+  LOCALES,
+  Locale,
+  Translate,
+  createTranslator,
+  formatNumber,
+} from '../i18n/translate';
+
+/**
+ * Resultado de uma execução. Códigos de saída: 0 (sucesso ou trace
+ * correto), 1 (trace enviado diferente do gabarito) e 2 (erro de uso).
+ */
+export interface CliResult {
+  output: string;
+  exitCode: 0 | 1 | 2;
+}
+
+type Command = 'page' | 'disk';
+
+const FORMATS = ['table', 'csv', 'json'];
+
+// Opções que recebem valor, por comando; as demais são chaves sem valor
+const VALUE_OPTIONS: Record<Command, string[]> = {
+  page: ['--alg', '--frames', '--refs'],
+  disk: [
+    '--alg',
+    '--size',
+    '--head',
+    '--requests',
+    '--direction',
+    '--arrivals',
+    '--batch',
+  ],
+};
+const COMMON_OPTIONS = ['--format', '--lang', '--compare'];
+const FLAGS: Record<Command, string[]> = {
+  page: ['--help'],
+  disk: ['--help', '--no-return'],
+};
+
+type Options = Record<string, string | true>;
+
+/**
+ * Trace calculado, já na forma das tabelas: `rows` monta a tabela no
+ * idioma de `t` (primeira linha: cabeçalho).
+ */
+interface Simulation {
+  rows: (t: Translate) => Cell[][];
+  summary: Record<string, number>;
+  summaryText: string;
+}
+
+const usage = (t: Translate) =>
+  t('cli.usage', {
+    pageAlgorithms: PAGE_ALGORITHMS.join('|'),
+    diskAlgorithms: DISK_ALGORITHMS.join('|'),
+  });
+
+const fail = (output: string): CliResult => ({ output, exitCode: 2 });
+
+const cellText = (cell: Cell) => (cell === null ? '' : String(cell));
+
+// Lê "--opção valor" e "--chave"; só aceita as opções do comando
+function parseOptions(
+  command: Command,
+  args: string[],
+  t: Translate
+): ParseResult<Options> {
+  const options: Options = {};
+  for (let i = 0; i < args.length; i++) {
+    const option = args[i];
+    if (FLAGS[command].includes(option)) {
+      options[option] = true;
+    } else if (
+      [...VALUE_OPTIONS[command], ...COMMON_OPTIONS].includes(option)
+    ) {
+      const value = args[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        return { ok: false, error: t('cli.missingValue', { option }) };
+      }
+      options[option] = value;
+      i++;
+    } else {
+      return { ok: false, error: t('cli.unknownOption', { option }) };
+    }
+  }
+  return { ok: true, value: options };
+}
+
+// Valor de uma opção que deve ser um de `choices`
+function choice<T extends string>(
+  options: Options,
+  option: string,
+  choices: readonly T[],
+  fallback: T | null,
+  t: Translate
+): ParseResult<T> {
+  const value = options[option] ?? fallback;
+  return typeof value === 'string' && choices.includes(value as T)
+    ? { ok: true, value: value as T }
+    : {
+        ok: false,
+        error: t('cli.invalidChoice', { option, options: choices.join(', ') }),
+      };
+}
+
+const text = (options: Options, option: string) => {
+  const value = options[option];
+  return typeof value === 'string' ? value : '';
+};
+
+function simulatePage(
+  options: Options,
+  t: Translate,
+  locale: Locale
+): ParseResult<Simulation> {
+  const algorithm = choice<PageAlgorithm>(
+    options,
+    '--alg',
+    PAGE_ALGORITHMS,
+    null,
+    t
+  );
+  const frames = parseIntegerInRange(
+    text(options, '--frames'),
+    t('input.labels.frames'),
+    1,
+    MAX_FRAMES,
+    t
+  );
+  const references = parseReferenceList(
+    text(options, '--refs'),
+    t('input.labels.references'),
+    0,
+    MAX_PAGE_NUMBER,
+    t
+  );
+  if (!algorithm.ok) return algorithm;
+  if (!frames.ok) return frames;
+  if (!references.ok) return references;
+
+  const trace = simulatePageReplacement(references.value.pages, {
+    algorithm: algorithm.value,
+    frameCount: frames.value,
+    writes: references.value.writes,
+  });
+  const summary = summarizePageTrace(trace);
+  return {
+    ok: true,
+    value: {
+      rows: (tr) => pageTraceRows(trace, tr),
+      summary: { ...summary },
+      summaryText: t('cli.pageSummary', {
+        faults: summary.faults,
+        hits: summary.hits,
+        hitRatio: formatNumber(
+          locale,
+          summary.hitRatio * 100,
+          AT_MOST_ONE_DECIMAL
+        ),
+        writeBacks: summary.writeBacks,
+      }),
+    },
+  };
+}
+
+function simulateDisk(
+  options: Options,
+  t: Translate,
+  locale: Locale
+): ParseResult<Simulation> {
+  const algorithm = choice<DiskAlgorithm>(
+    options,
+    '--alg',
+    DISK_ALGORITHMS,
+    null,
+    t
+  );
+  const direction = choice(options, '--direction', ['up', 'down'], 'up', t);
+  const size = parseIntegerInRange(
+    text(options, '--size'),
+    t('input.labels.diskSize'),
+    2,
+    MAX_DISK_SIZE,
+    t
+  );
+  if (!algorithm.ok) return algorithm;
+  if (!direction.ok) return direction;
+  if (!size.ok) return size;
+  const head = parseIntegerInRange(
+    text(options, '--head'),
+    t('input.labels.initialHead'),
+    0,
+    size.value - 1,
+    t
+  );
+  const requests = parseIntegerList(
+    text(options, '--requests'),
+    t('input.labels.requests'),
+    0,
+    size.value - 1,
+    t
+  );
+  if (!head.ok) return head;
+  if (!requests.ok) return requests;
+  const count = requests.value.length;
+  const arrivals =
+    options['--arrivals'] === undefined
+      ? { ok: true as const, value: requests.value.map(() => 0) }
+      : parseIntegerList(
+          text(options, '--arrivals'),
+          t('input.labels.arrivals'),
+          0,
+          MAX_ARRIVAL,
+          t
+        );
+  if (!arrivals.ok) return arrivals;
+  if (arrivals.value.length !== count) {
+    return { ok: false, error: t('disk.settings.arrivalsLength', { count }) };
+  }
+  const batch =
+    options['--batch'] === undefined
+      ? { ok: true as const, value: Math.min(4, count) }
+      : parseIntegerInRange(
+          text(options, '--batch'),
+          t('input.labels.batchSize'),
+          1,
+          count,
+          t
+        );
+  if (!batch.ok) return batch;
+
+  const trace = simulateDiskScheduling(requests.value, {
+    algorithm: algorithm.value,
+    diskSize: size.value,
+    initialHead: head.value,
+    direction: direction.value,
+    countReturnSweep: !options['--no-return'],
+    batchSize: batch.value,
+    arrivals: arrivals.value,
+  });
+  const { totalSeek, averageSeek, maxWait, averageResponse } =
+    summarizeDiskTrace(trace);
+  return {
+    ok: true,
+    value: {
+      rows: (tr) => diskTraceRows(trace, tr),
+      summary: { totalSeek, averageSeek, maxWait, averageResponse },
+      summaryText: t('cli.diskSummary', {
+        totalSeek,
+        averageSeek: formatNumber(locale, averageSeek, AT_MOST_ONE_DECIMAL),
+        maxWait,
+      }),
+    },
+  };
+}
+
+// Tabela de texto com as colunas alinhadas
+function formatTable(rows: Cell[][]): string {
+  const cells = rows.map((row) => row.map(cellText));
+  const widths = cells[0].map((_, c) =>
+    Math.max(...cells.map((row) => row[c].length))
+  );
+  return cells
+    .map((row) =>
+      row
+        .map((cell, c) => cell.padEnd(widths[c]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+// Lê o trace enviado: JSON gerado com --format json ou CSV
+function readSubmission(content: string): string[][] | null {
+  try {
+    const data = JSON.parse(content);
+    const { header, steps } = data ?? {};
+    if (
+      Array.isArray(header) &&
+      Array.isArray(steps) &&
+      steps.every(Array.isArray)
+    ) {
+      return [header, ...steps].map((row: Cell[]) => row.map(cellText));
+    }
+    return null;
+  } catch {
+    const rows = parseCsv(content);
+    return rows.length > 0 ? rows : null;
+  }
+}
+
+/**
+ * Confere o trace enviado com o gabarito, no idioma do cabeçalho do
+ * arquivo, e aponta o primeiro passo diferente.
+ */
+function compareSubmission(
+  command: Command,
+  simulation: Simulation,
+  file: string,
+  content: string,
+  t: Translate
+): CliResult {
+  const submitted = readSubmission(content);
+  if (!submitted) {
+    return fail(t('cli.invalidSubmission', { file }));
+  }
+  const [header, ...steps] = submitted;
+  const expectedRows = LOCALES.map((locale) =>
+    simulation.rows(createTranslator(locale)).map((row) => row.map(cellText))
+  ).find(([expectedHeader]) => expectedHeader.join() === header.join());
+  if (!expectedRows) {
+    return {
+      output: t('cli.unknownHeader', {
+        file,
+        kind: t(`scenario.kinds.${command}`),
+        header: header.join(', '),
+      }),
+      exitCode: 1,
+    };
+  }
+
+  const [expectedHeader, ...expected] = expectedRows;
+  for (let i = 0; i < Math.min(expected.length, steps.length); i++) {
+    const width = Math.max(expected[i].length, steps[i].length);
+    for (let c = 0; c < width; c++) {
+      const want = expected[i][c] ?? '';
+      const got = steps[i][c] ?? '';
+      if (want !== got) {
+        return {
+          output: t('cli.firstDifference', {
+            step: i + 1,
+            column: expectedHeader[c] ?? c + 1,
+            expected: want,
+            got,
+          }),
+          exitCode: 1,
+        };
+      }
+    }
+  }
+  if (expected.length !== steps.length) {
+    return {
+      output: t('cli.stepCount', {
+        file,
+        got: steps.length,
+        expected: expected.length,
+      }),
+      exitCode: 1,
+    };
+  }
+  return {
+    output: t('cli.match', { file, steps: steps.length }),
+    exitCode: 0,
+  };
+}
+
+/**
+ * Executa o simulador com os argumentos da linha de comando (sem o
+ * executável e o script). `readFile` lê o trace de `--compare`.
+ */
+export function runSim(
+  args: string[],
+  readFile: (path: string) => string
+): CliResult {
+  // O idioma vale também para as mensagens de erro das opções
+  const requested = args[args.indexOf('--lang') + 1] as Locale;
+  const locale = LOCALES.includes(requested) ? requested : 'pt';
+  const t = createTranslator(locale);
+  const [command, ...rest] = args;
+
+  if (command === undefined || command === '--help') {
+    return { output: usage(t), exitCode: command ? 0 : 2 };
+  }
+  if (command !== 'page' && command !== 'disk') {
+    return fail(`${t('cli.unknownCommand', { command })}\n\n${usage(t)}`);
+  }
+  const parsed = parseOptions(command, rest, t);
+  if (!parsed.ok) return fail(parsed.error);
+  const options = parsed.value;
+  if (options['--help']) return { output: usage(t), exitCode: 0 };
+  const format = choice(options, '--format', FORMATS, 'table', t);
+  const language = choice(options, '--lang', LOCALES, 'pt', t);
+  if (!format.ok) return fail(format.error);
+  if (!language.ok) return fail(language.error);
+
+  const simulation =
+    command === 'page'
+      ? simulatePage(options, t, locale)
+      : simulateDisk(options, t, locale);
+  if (!simulation.ok) return fail(simulation.error);
+  const { rows, summary, summaryText } = simulation.value;
+
+  const file = options['--compare'];
+  if (typeof file === 'string') {
+    let content: string;
+    try {
+      content = readFile(file);
+    } catch {
+      return fail(t('cli.unreadable', { file }));
+    }
+    return compareSubmission(command, simulation.value, file, content, t);
+  }
+
+  const table = rows(t);
+  switch (format.value) {
+    case 'csv':
+      return { output: toCsv(table), exitCode: 0 };
+    case 'json':
+      return {
+        output: JSON.stringify(
+          {
+            command,
+            algorithm: options['--alg'],
+            header: table[0],
+            steps: table.slice(1),
+            summary,
+          },
+          null,
+          2
+        ),
+        exitCode: 0,
+      };
+    default:
+      return { output: `${formatTable(table)}\n\n${summaryText}`, exitCode: 0 };
+  }
+}
@@ -0,0 +1,440 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { MessageCircle } from 'lucide-react';
+import { InfoTooltip } from './InfoTooltip';
+import { PlaybackControls } from './PlaybackControls';
+import {
+  AddressTranslationSettings,
+  AddressTranslationValues,
+} from './AddressTranslationSettings';
+import {
+  DEFAULT_ACCESS_TIMES,
+  TranslationStep,
+  formatAddress,
+  pageTableAt,
+  simulateAddressTranslation,
+  summarizeTranslation,
+} from '../engines/addressTranslation';
+import { PAGE_ALGORITHMS, PageAlgorithm } from '../engines/pageReplacement';
+import { describeTranslationStep } from '../engines/narration';
+import { useI18n } from '../i18n/context';
+import { PERCENT } from '../i18n/translate';
+
+// Configuração inicial: endereços de 16 bits e páginas de 4 KiB (16 páginas)
+const DEFAULT_VALUES: AddressTranslationValues = {
+  addresses: [
+    0x1a3f, 0x2b10, 0x1a40, 0x3c00, 0x4d20, 0x2b18, 0x1a50, 0x5e00, 0x3c04,
+    0x1a3f,
+  ],
+  writes: [false, true, false, false, true, false, false, false, false, false],
+  addressBits: 16,
+  pageSize: 4096,
+  tlbSize: 2,
+  tlbPolicy: 'LRU',
+  frameCount: 3,
+  times: DEFAULT_ACCESS_TIMES,
+};
+
+// Representação binária com `bits` dígitos
+const toBinary = (value: number, bits: number) =>
+  value.toString(2).padStart(bits, '0');
+
+// Componente que simula a tradução de endereços virtuais com TLB e tabela de páginas
+export function AddressTranslation() {
+  const { t, formatNumber } = useI18n();
+
+  // Estados do componente
+  const [values, setValues] = useState(DEFAULT_VALUES); // Endereços, MMU e custos de acesso
+  const [algorithm, setAlgorithm] = useState<PageAlgorithm>('FIFO'); // Algoritmo que resolve os page faults
+  const [currentStep, setCurrentStep] = useState(0); // Quantos endereços já foram traduzidos
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [narration, setNarration] = useState('');
+  const [isNarrating, setIsNarrating] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Trace completo calculado pelo motor
+  const trace = useMemo(
+    () =>
+      simulateAddressTranslation(values.addresses, { ...values, algorithm }),
+    [values, algorithm]
+  );
+  const current: TranslationStep | null =
+    currentStep > 0 ? trace.steps[currentStep - 1] : null;
+  const tlb = current ? current.tlb : Array(trace.tlbSize).fill(null);
+  const pageTable = pageTableAt(trace, currentStep);
+  const summary = summarizeTranslation(trace, currentStep);
+  const ns = (time: number) =>
+    t('translation.nanoseconds', {
+      time: formatNumber(time, { maximumFractionDigits: 1 }),
+    });
+
+  // Exibe uma narração com destaque temporário
+  const narrate = (text: string) => {
+    setNarration(text);
+    setIsNarrating(true);
+    setTimeout(() => setIsNarrating(false), 3000);
+  };
+
+  const getNarration = useCallback(
+    (step: TranslationStep) => describeTranslationStep(trace, step, t),
+    [trace, t]
+  );
+
+  // Traduz o próximo endereço
+  const handleNext = useCallback(() => {
+    if (currentStep < trace.steps.length) {
+      narrate(getNarration(trace.steps[currentStep]));
+      setCurrentStep((prev) => prev + 1);
+    } else {
+      setIsPlaying(false);
+      narrate(t('translation.finished'));
+    }
+  }, [currentStep, trace, getNarration, t]);
+
+  const reset = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+    narrate(t('translation.initialNarration'));
+  };
+
+  // Leva a simulação diretamente a um passo (linha do tempo ou lista de endereços)
+  const jumpTo = (step: number) => {
+    setCurrentStep(step);
+    setIsPlaying(false);
+    narrate(
+      step > 0
+        ? getNarration(trace.steps[step - 1])
+        : t('translation.initialNarration')
+    );
+  };
+
+  // Efeito que controla a execução automática da simulação
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    if (isPlaying) {
+      timeout = setTimeout(handleNext, 3500 / speed);
+    }
+    return () => clearTimeout(timeout);
+  }, [isPlaying, handleNext, speed]);
+
+  return (
+    <div className="bg-gradient-to-br from-indigo-500 to-blue-600 min-h-screen p-8">
+      <div className="max-w-6xl mx-auto bg-white/90 backdrop-blur-lg rounded-2xl shadow-2xl p-8">
+        <div className="flex justify-between items-center mb-8">
+          <h2 className="text-3xl font-bold text-indigo-900">
+            {t('translation.title', { algorithm })}
+          </h2>
+          <InfoTooltip
+            title={t('translation.tooltipTitle')}
+            content={t('translation.tooltipContent')}
+          />
+        </div>
+
+        <AddressTranslationSettings
+          {...values}
+          onApply={(newValues) => {
+            setValues(newValues);
+            reset();
+          }}
+        />
+
+        <div className="flex flex-wrap gap-4 mb-8">
+          {PAGE_ALGORITHMS.map((alg) => (
+            <button
+              key={alg}
+              onClick={() => {
+                setAlgorithm(alg);
+                reset();
+              }}
+              className={`px-6 py-3 rounded-xl transition-all transform hover:scale-105 ${
+                algorithm === alg
+                  ? 'bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg'
+                  : 'bg-white text-indigo-700 hover:bg-indigo-50 shadow-md'
+              }`}
+            >
+              <span className="font-semibold">{alg}</span>
+              <div className="text-xs mt-1 font-normal">
+                {t(`pageAlgorithms.${alg}.name`)}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {/* Endereços da sequência: o atual fica destacado */}
+        <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+          <p className="text-lg font-semibold text-indigo-900 mb-2">
+            {t('translation.addresses')}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {trace.steps.map((step) => (
+              <button
+                key={step.step}
+                onClick={() => jumpTo(step.step + 1)}
+                title={t('traceTable.goToStep', { step: step.step + 1 })}
+                className={`px-2 py-1 rounded-md font-mono text-sm transition-all ${
+                  step.step === currentStep - 1
+                    ? 'bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg'
+                    : step.step < currentStep
+                    ? step.pageFault
+                      ? 'bg-red-50 text-red-700'
+                      : step.tlbHit
+                      ? 'bg-green-50 text-green-700'
+                      : 'bg-blue-50 text-blue-700'
+                    : 'bg-white text-indigo-700 border border-indigo-100'
+                }`}
+              >
+                {step.pageStep.isWrite && 'W '}
+                {formatAddress(step.address, trace.addressBits)}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-indigo-700 mt-2">
+            {t('translation.addressesLegend')}
+          </p>
+        </div>
+
+        {/* Divisão do endereço virtual e montagem do endereço físico */}
+        <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+          <p className="text-sm text-indigo-700 mb-4">
+            {t('translation.layout', {
+              pageBits: trace.pageBits,
+              offsetBits: trace.offsetBits,
+            })}
+          </p>
+          {current ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <p className="font-semibold text-indigo-900">
+                  {t('translation.virtualAddress')}{' '}
+                  <span className="font-mono">
+                    {formatAddress(current.address, trace.addressBits)}
+                  </span>
+                </p>
+                <p className="font-mono text-lg break-all mt-2">
+                  <span className="text-indigo-700 bg-indigo-50">
+                    {toBinary(current.page, trace.pageBits)}
+                  </span>
+                  <span className="text-green-700 bg-green-50">
+                    {toBinary(current.offset, trace.offsetBits)}
+                  </span>
+                </p>
+                <p className="text-sm mt-1">
+                  <span className="text-indigo-700">
+                    {t('translation.pageNumber', { page: current.page })}
+                  </span>
+                  {' · '}
+                  <span className="text-green-700">
+                    {t('translation.offset', {
+                      offset: formatAddress(current.offset, trace.offsetBits),
+                    })}
+                  </span>
+                </p>
+              </div>
+              <div>
+                <p className="font-semibold text-indigo-900">
+                  {t('translation.physicalAddress')}{' '}
+                  <span className="font-mono">
+                    {formatAddress(current.physicalAddress, trace.physicalBits)}
+                  </span>
+                </p>
+                <p className="font-mono text-lg break-all mt-2">
+                  <span className="text-blue-700 bg-blue-50">
+                    {toBinary(
+                      current.frame,
+                      trace.physicalBits - trace.offsetBits
+                    )}
+                  </span>
+                  <span className="text-green-700 bg-green-50">
+                    {toBinary(current.offset, trace.offsetBits)}
+                  </span>
+                </p>
+                <p className="text-sm mt-1">
+                  <span className="text-blue-700">
+                    {t('translation.frameNumber', { frame: current.frame })}
+                  </span>
+                  {' · '}
+                  <span
+                    className={`font-semibold ${
+                      current.pageFault
+                        ? 'text-red-600'
+                        : current.tlbHit
+                        ? 'text-green-700'
+                        : 'text-indigo-700'
+                    }`}
+                  >
+                    {t(
+                      current.pageFault
+                        ? 'translation.pageFault'
+                        : current.tlbHit
+                        ? 'translation.tlbHit'
+                        : 'translation.tlbMiss'
+                    )}
+                  </span>
+                </p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-indigo-700">{t('translation.waiting')}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+          {/* TLB */}
+          <div className="bg-white p-6 rounded-xl shadow-md">
+            <h3 className="text-xl font-semibold text-indigo-900 mb-4">
+              {t('translation.tlb', { policy: trace.tlbPolicy })}
+            </h3>
+            <table className="w-full text-left text-indigo-900">
+              <thead>
+                <tr className="border-b border-indigo-100">
+                  <th className="py-1 pr-4">#</th>
+                  <th className="py-1 pr-4">{t('translation.page')}</th>
+                  <th className="py-1 pr-4">{t('translation.frame')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tlb.map((entry, index) => (
+                  <tr
+                    key={index}
+                    className={`border-b border-indigo-50 ${
+                      current?.tlbIndex === index
+                        ? current.tlbHit
+                          ? 'bg-green-50 font-semibold'
+                          : 'bg-blue-50 font-semibold'
+                        : ''
+                    }`}
+                  >
+                    <td className="py-1 pr-4">{index}</td>
+                    {entry ? (
+                      <>
+                        <td className="py-1 pr-4">{entry.page}</td>
+                        <td className="py-1 pr-4">{entry.frame}</td>
+                      </>
+                    ) : (
+                      <td colSpan={2} className="py-1 pr-4 text-indigo-300">
+                        {t('translation.empty')}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Tabela de páginas */}
+          <div className="bg-white p-6 rounded-xl shadow-md">
+            <h3 className="text-xl font-semibold text-indigo-900 mb-4">
+              {t('translation.pageTable')}
+            </h3>
+            <table className="w-full text-left text-indigo-900">
+              <thead>
+                <tr className="border-b border-indigo-100">
+                  <th className="py-1 pr-4">{t('translation.page')}</th>
+                  <th className="py-1 pr-4">{t('translation.frame')}</th>
+                  <th className="py-1 pr-4">V</th>
+                  <th className="py-1 pr-4">D</th>
+                  <th className="py-1 pr-4">R</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pageTable.map((entry) => (
+                  <tr
+                    key={entry.page}
+                    className={`border-b border-indigo-50 ${
+                      current?.page === entry.page
+                        ? current.pageFault
+                          ? 'bg-red-50 font-semibold'
+                          : 'bg-indigo-50 font-semibold'
+                        : ''
+                    } ${entry.valid ? '' : 'text-indigo-300'}`}
+                  >
+                    <td className="py-1 pr-4">{entry.page}</td>
+                    <td className="py-1 pr-4">{entry.frame ?? '—'}</td>
+                    <td className="py-1 pr-4">{Number(entry.valid)}</td>
+                    <td className="py-1 pr-4">{Number(entry.dirty)}</td>
+                    <td className="py-1 pr-4">{Number(entry.referenced)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-indigo-700 mt-2">
+              {t('translation.bitsLegend')}
+            </p>
+          </div>
+        </div>
+
+        <div
+          className={`bg-gradient-to-r from-indigo-100 to-blue-100 p-4 rounded-lg mb-6 transition-all duration-500 transform flex items-start gap-3 ${
+            isNarrating ? 'scale-102 shadow-lg' : ''
+          }`}
+        >
+          <MessageCircle
+            className={`w-6 h-6 text-indigo-600 mt-1 ${
+              isNarrating ? 'animate-bounce' : ''
+            }`}
+          />
+          <p className="text-indigo-700 text-lg flex-1" aria-live="polite">
+            {narration}
+          </p>
+        </div>
+
+        <PlaybackControls
+          currentStep={currentStep}
+          totalSteps={trace.steps.length}
+          isPlaying={isPlaying}
+          speed={speed}
+          theme="indigo"
+          onTogglePlay={() => setIsPlaying(!isPlaying)}
+          onNext={handleNext}
+          onSeek={jumpTo}
+          onReset={reset}
+          onSpeedChange={setSpeed}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+            <p className="text-lg font-semibold text-indigo-900 mb-2">
+              {t('translation.tlbHitRate')}
+            </p>
+            <p className="text-3xl font-bold text-indigo-700">
+              {formatNumber(summary.tlbHitRate, PERCENT)}
+            </p>
+            <p className="text-xs text-indigo-700 mt-1">
+              {t('translation.hitsAndMisses', {
+                hits: summary.tlbHits,
+                misses: summary.tlbMisses,
+              })}
+            </p>
+          </div>
+          <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+            <p className="text-lg font-semibold text-indigo-900 mb-2">
+              {t('common.pageFaults')}
+            </p>
+            <p className="text-3xl font-bold text-indigo-700">
+              {summary.pageFaults}
+            </p>
+          </div>
+          <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+            <p className="text-lg font-semibold text-indigo-900 mb-2">
+              {t('translation.effectiveAccessTime')}
+            </p>
+            <p className="text-3xl font-bold text-indigo-700">
+              {ns(summary.translationAccessTime)}
+            </p>
+            <p className="text-xs text-indigo-700 mt-1">
+              {t('translation.withFaults', {
+                time: ns(summary.effectiveAccessTime),
+              })}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+          <h3 className="text-xl font-semibold text-indigo-900 mb-4">
+            {t('translation.about')}
+          </h3>
+          <p className="text-indigo-700">{t('translation.aboutText')}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import {
+  AccessTimes,
+  TLB_POLICIES,
+  TlbPolicy,
+  formatAddress,
+} from '../engines/addressTranslation';
+import {
+  MAX_ACCESS_TIME,
+  MAX_ADDRESS_BITS,
+  MAX_FRAMES,
+  MAX_TLB_SIZE,
+  MIN_ADDRESS_BITS,
+  parseAddressList,
+  parseIntegerInRange,
+} from '../engines/input';
+import { useI18n } from '../i18n/context';
+
+export interface AddressTranslationValues {
+  addresses: number[];
+  writes: boolean[]; // Acessos de escrita, um por endereço
+  addressBits: number;
+  pageSize: number;
+  tlbSize: number;
+  tlbPolicy: TlbPolicy;
+  frameCount: number;
+  times: AccessTimes;
+}
+
+// Tamanhos de página oferecidos: de 16 bytes a 64 KiB
+const PAGE_SIZES = Array.from({ length: 13 }, (_, i) => 2 ** (i + 4));
+
+// Os endereços aparecem em hexadecimal, com a largura configurada, e as
+// escritas são precedidas de W
+const addressesToText = (
+  addresses: number[],
+  writes: boolean[],
+  bits: number
+) =>
+  addresses
+    .map((a, i) => `${writes[i] ? 'W ' : ''}${formatAddress(a, bits)}`)
+    .join(' ');
+
+interface AddressTranslationSettingsProps extends AddressTranslationValues {
+  onApply: (values: AddressTranslationValues) => void;
+}
+
+/**
+ * Painel de configuração da tradução de endereços.
+ *
+ * Os endereços são validados contra a largura digitada, e o tamanho da
+ * página precisa deixar ao menos um bit para o número da página. Como nos
+ * demais painéis, só aplica os valores quando todos os campos são válidos.
+ */
+export function AddressTranslationSettings({
+  addresses,
+  writes,
+  addressBits,
+  pageSize,
+  tlbSize,
+  tlbPolicy,
+  frameCount,
+  times,
+  onApply,
+}: AddressTranslationSettingsProps) {
+  const { t, formatNumber } = useI18n();
+  const [addressesText, setAddressesText] = useState(
+    addressesToText(addresses, writes, addressBits)
+  );
+  const [bitsText, setBitsText] = useState(String(addressBits));
+  const [draftPageSize, setDraftPageSize] = useState(pageSize);
+  const [tlbText, setTlbText] = useState(String(tlbSize));
+  const [draftPolicy, setDraftPolicy] = useState<TlbPolicy>(tlbPolicy);
+  const [framesText, setFramesText] = useState(String(frameCount));
+  const [tlbTimeText, setTlbTimeText] = useState(String(times.tlb));
+  const [memoryTimeText, setMemoryTimeText] = useState(String(times.memory));
+  const [faultTimeText, setFaultTimeText] = useState(String(times.fault));
+  const [applied, setApplied] = useState<AddressTranslationValues>({
+    addresses,
+    writes,
+    addressBits,
+    pageSize,
+    tlbSize,
+    tlbPolicy,
+    frameCount,
+    times,
+  });
+
+  // Se a configuração mudar por fora do painel, o rascunho acompanha
+  if (
+    applied.addresses !== addresses ||
+    applied.writes !== writes ||
+    applied.addressBits !== addressBits ||
+    applied.pageSize !== pageSize ||
+    applied.tlbSize !== tlbSize ||
+    applied.tlbPolicy !== tlbPolicy ||
+    applied.frameCount !== frameCount ||
+    applied.times !== times
+  ) {
+    setApplied({
+      addresses,
+      writes,
+      addressBits,
+      pageSize,
+      tlbSize,
+      tlbPolicy,
+      frameCount,
+      times,
+    });
+    setAddressesText(addressesToText(addresses, writes, addressBits));
+    setBitsText(String(addressBits));
+    setDraftPageSize(pageSize);
+    setTlbText(String(tlbSize));
+    setDraftPolicy(tlbPolicy);
+    setFramesText(String(frameCount));
+    setTlbTimeText(String(times.tlb));
+    setMemoryTimeText(String(times.memory));
+    setFaultTimeText(String(times.fault));
+  }
+
+  const bits = parseIntegerInRange(
+    bitsText,
+    t('input.labels.addressBits'),
+    MIN_ADDRESS_BITS,
+    MAX_ADDRESS_BITS,
+    t
+  );
+  // Sem uma largura válida, os endereços são validados contra a maior
+  const addressSpace = 2 ** (bits.ok ? bits.value : MAX_ADDRESS_BITS);
+  const addressList = parseAddressList(
+    addressesText,
+    t('input.labels.addresses'),
+    addressSpace,
+    t
+  );
+  const pageSizeFits = draftPageSize < addressSpace;
+  const tlb = parseIntegerInRange(
+    tlbText,
+    t('input.labels.tlbSize'),
+    1,
+    MAX_TLB_SIZE,
+    t
+  );
+  const frames = parseIntegerInRange(
+    framesText,
+    t('input.labels.frames'),
+    1,
+    MAX_FRAMES,
+    t
+  );
+  const timeFields = [
+    ['tlbTime', tlbTimeText, setTlbTimeText],
+    ['memoryTime', memoryTimeText, setMemoryTimeText],
+    ['faultTime', faultTimeText, setFaultTimeText],
+  ] as const;
+  const [tlbTime, memoryTime, faultTime] = timeFields.map(([field, text]) =>
+    parseIntegerInRange(text, t(`input.labels.${field}`), 0, MAX_ACCESS_TIME, t)
+  );
+  const timeError = [tlbTime, memoryTime, faultTime].find((r) => !r.ok);
+
+  const isValid =
+    addressList.ok &&
+    bits.ok &&
+    pageSizeFits &&
+    tlb.ok &&
+    frames.ok &&
+    timeError === undefined;
+
+  const apply = () => {
+    if (
+      addressList.ok &&
+      bits.ok &&
+      pageSizeFits &&
+      tlb.ok &&
+      frames.ok &&
+      tlbTime.ok &&
+      memoryTime.ok &&
+      faultTime.ok
+    ) {
+      onApply({
+        addresses: addressList.value.addresses,
+        writes: addressList.value.writes,
+        addressBits: bits.value,
+        pageSize: draftPageSize,
+        tlbSize: tlb.value,
+        tlbPolicy: draftPolicy,
+        frameCount: frames.value,
+        times: {
+          tlb: tlbTime.value,
+          memory: memoryTime.value,
+          fault: faultTime.value,
+        },
+      });
+    }
+  };
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <h3 className="text-xl font-semibold text-indigo-900 mb-4">
+        {t('common.settings')}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+        <label className="md:col-span-4 flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('translation.settings.addresses')}
+          </span>
+          <input
+            type="text"
+            value={addressesText}
+            onChange={(e) => setAddressesText(e.target.value)}
+            placeholder="0x1A3F W 0x2B10 4660"
+            className="px-3 py-2 rounded-lg border border-indigo-200 font-mono"
+          />
+          {!addressList.ok && (
+            <span className="text-sm text-red-600">{addressList.error}</span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('translation.settings.addressBits', {
+              min: MIN_ADDRESS_BITS,
+              max: MAX_ADDRESS_BITS,
+            })}
+          </span>
+          <input
+            type="number"
+            min={MIN_ADDRESS_BITS}
+            max={MAX_ADDRESS_BITS}
+            value={bitsText}
+            onChange={(e) => setBitsText(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-indigo-200"
+          />
+          {!bits.ok && (
+            <span className="text-sm text-red-600">{bits.error}</span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('translation.settings.pageSize')}
+          </span>
+          <select
+            value={draftPageSize}
+            onChange={(e) => setDraftPageSize(Number(e.target.value))}
+            className="px-3 py-2 rounded-lg border border-indigo-200 bg-white"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {t('translation.bytes', { size: formatNumber(size) })}
+              </option>
+            ))}
+          </select>
+          {!pageSizeFits && (
+            <span className="text-sm text-red-600">
+              {t('translation.settings.pageSizeTooLarge')}
+            </span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('translation.settings.tlbSize', { max: MAX_TLB_SIZE })}
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_TLB_SIZE}
+            value={tlbText}
+            onChange={(e) => setTlbText(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-indigo-200"
+          />
+          {!tlb.ok && <span className="text-sm text-red-600">{tlb.error}</span>}
+        </label>
+        <label className="flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('translation.settings.tlbPolicy')}
+          </span>
+          <select
+            value={draftPolicy}
+            onChange={(e) => setDraftPolicy(e.target.value as TlbPolicy)}
+            className="px-3 py-2 rounded-lg border border-indigo-200 bg-white"
+          >
+            {TLB_POLICIES.map((policy) => (
+              <option key={policy} value={policy}>
+                {t(`translation.policies.${policy}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('page.settings.frames', { max: MAX_FRAMES })}
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_FRAMES}
+            value={framesText}
+            onChange={(e) => setFramesText(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-indigo-200"
+          />
+          {!frames.ok && (
+            <span className="text-sm text-red-600">{frames.error}</span>
+          )}
+        </label>
+        <div className="md:col-span-3 flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('translation.settings.times')}
+          </span>
+          <div className="flex flex-wrap gap-4">
+            {timeFields.map(([field, text, setText]) => (
+              <label key={field} className="flex flex-col gap-1">
+                <span className="text-sm">
+                  {t(`translation.settings.${field}`)}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_ACCESS_TIME}
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  className="w-32 px-3 py-2 rounded-lg border border-indigo-200"
+                />
+              </label>
+            ))}
+          </div>
+          {timeError && !timeError.ok && (
+            <span className="text-sm text-red-600">{timeError.error}</span>
+          )}
+        </div>
+      </div>
+      <button
+        onClick={apply}
+        disabled={!isValid}
+        className="mt-4 flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Check size={20} />
+        {t('common.apply')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Check, MessageCircle, X } from 'lucide-react';
+import { BankerRequest } from './BankerRequest';
+import { BankerSettings } from './BankerSettings';
+import { PlaybackControls } from './PlaybackControls';
+import {
+  BankerState,
+  SafetyStep,
+  checkSafety,
+  formatVector,
+} from '../engines/deadlock';
+import { describeSafetyStep } from '../engines/narration';
+import { useI18n } from '../i18n/context';
+
+// Exemplo clássico: 5 processos e 3 recursos, em estado seguro
+const DEFAULT_STATE: BankerState = {
+  available: [3, 3, 2],
+  max: [
+    [7, 5, 3],
+    [3, 2, 2],
+    [9, 0, 2],
+    [2, 2, 2],
+    [4, 3, 3],
+  ],
+  allocation: [
+    [0, 1, 0],
+    [2, 0, 0],
+    [3, 0, 2],
+    [2, 1, 1],
+    [0, 0, 2],
+  ],
+};
+
+const listProcesses = (pids: number[]) =>
+  pids.map((pid) => `P${pid}`).join(', ');
+
+// Aba do algoritmo do banqueiro: verificação de segurança passo a passo
+export function BankerPanel() {
+  const { t } = useI18n();
+
+  // Estados do componente
+  const [state, setState] = useState(DEFAULT_STATE); // Available, Max e Allocation
+  const [currentStep, setCurrentStep] = useState(0); // Quantas comparações já foram feitas
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [narration, setNarration] = useState('');
+  const [isNarrating, setIsNarrating] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const trace = useMemo(() => checkSafety(state), [state]);
+  const current: SafetyStep | null =
+    currentStep > 0 ? trace.steps[currentStep - 1] : null;
+  const work = current ? current.workAfter : state.available;
+  const finish = current ? current.finish : state.max.map(() => false);
+  const sequence = trace.sequence.slice(
+    0,
+    finish.filter((done) => done).length
+  );
+
+  // Exibe uma narração com destaque temporário
+  const narrate = (text: string) => {
+    setNarration(text);
+    setIsNarrating(true);
+    setTimeout(() => setIsNarrating(false), 3000);
+  };
+
+  // Conclusão da verificação: a sequência segura ou quem não termina
+  const conclusion = useCallback(
+    () =>
+      trace.safe
+        ? t('deadlock.banker.safe', {
+            sequence: listProcesses(trace.sequence),
+          })
+        : t('deadlock.banker.unsafe', {
+            processes: listProcesses(
+              state.max.flatMap((_, pid) =>
+                trace.sequence.includes(pid) ? [] : [pid]
+              )
+            ),
+          }),
+    [trace, state, t]
+  );
+
+  // Executa a próxima comparação
+  const handleNext = useCallback(() => {
+    if (currentStep < trace.steps.length) {
+      const text = describeSafetyStep(trace.steps[currentStep], t);
+      narrate(
+        currentStep + 1 === trace.steps.length
+          ? `${text} ${conclusion()}`
+          : text
+      );
+      setCurrentStep((prev) => prev + 1);
+    } else {
+      setIsPlaying(false);
+      narrate(conclusion());
+    }
+  }, [currentStep, trace, conclusion, t]);
+
+  const reset = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+    narrate(t('deadlock.banker.initialNarration'));
+  };
+
+  // Leva a simulação diretamente a um passo da linha do tempo
+  const jumpTo = (step: number) => {
+    setCurrentStep(step);
+    setIsPlaying(false);
+    narrate(
+      step > 0
+        ? describeSafetyStep(trace.steps[step - 1], t)
+        : t('deadlock.banker.initialNarration')
+    );
+  };
+
+  // Efeito que controla a execução automática da simulação
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    if (isPlaying) {
+      timeout = setTimeout(handleNext, 3000 / speed);
+    }
+    return () => clearTimeout(timeout);
+  }, [isPlaying, handleNext, speed]);
+
+  const changeState = (newState: BankerState) => {
+    setState(newState);
+    reset();
+  };
+
+  return (
+    <>
+      <BankerSettings {...state} onApply={changeState} />
+      <BankerRequest state={state} onGrant={changeState} />
+
+      {/* Matrizes, com o processo comparado no passo atual em destaque */}
+      <div className="bg-white p-6 rounded-xl shadow-md mb-8 overflow-x-auto">
+        <h3 className="text-xl font-semibold text-rose-900 mb-4">
+          {t('deadlock.banker.matrices')}
+        </h3>
+        <table className="w-full text-left text-rose-900">
+          <thead>
+            <tr className="border-b border-rose-100">
+              <th className="py-1 pr-4">{t('deadlock.banker.process')}</th>
+              <th className="py-1 pr-4">{t('deadlock.banker.allocation')}</th>
+              <th className="py-1 pr-4">{t('deadlock.banker.max')}</th>
+              <th className="py-1 pr-4">{t('deadlock.banker.need')}</th>
+              <th className="py-1 pr-4">{t('deadlock.banker.finish')}</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {state.max.map((row, pid) => (
+              <tr
+                key={pid}
+                className={`border-b border-rose-50 transition-colors duration-500 ${
+                  current?.pid === pid
+                    ? current.canFinish
+                      ? 'bg-green-100'
+                      : 'bg-red-100'
+                    : ''
+                }`}
+              >
+                <td className="py-1 pr-4 font-sans font-semibold">P{pid}</td>
+                <td className="py-1 pr-4">{state.allocation[pid].join(' ')}</td>
+                <td className="py-1 pr-4">{row.join(' ')}</td>
+                <td className="py-1 pr-4">{trace.need[pid].join(' ')}</td>
+                <td className="py-1 pr-4">
+                  {finish[pid] ? (
+                    <Check size={20} className="text-green-600" />
+                  ) : (
+                    <X size={20} className="text-rose-300" />
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-rose-700 mt-3">
+          {t('deadlock.banker.matricesLegend')}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <div className="bg-gradient-to-r from-rose-100 to-red-100 p-6 rounded-xl shadow-md">
+          <p className="text-lg font-semibold text-rose-900 mb-2">
+            {t('deadlock.banker.work')}
+          </p>
+          <p className="text-3xl font-bold text-rose-700 font-mono">
+            {formatVector(work)}
+          </p>
+        </div>
+        <div className="bg-gradient-to-r from-rose-100 to-red-100 p-6 rounded-xl shadow-md">
+          <p className="text-lg font-semibold text-rose-900 mb-2">
+            {t('deadlock.banker.sequence')}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {sequence.length === 0 ? (
+              <span className="text-rose-700">
+                {t('deadlock.banker.noSequence')}
+              </span>
+            ) : (
+              sequence.map((pid) => (
+                <span
+                  key={pid}
+                  className="px-3 py-1 rounded-lg bg-white text-rose-800 font-semibold shadow"
+                >
+                  P{pid}
+                </span>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div
+        className={`bg-gradient-to-r from-rose-100 to-red-100 p-4 rounded-lg mb-6 transition-all duration-500 transform flex items-start gap-3 ${
+          isNarrating ? 'scale-102 shadow-lg' : ''
+        }`}
+      >
+        <MessageCircle
+          className={`w-6 h-6 text-rose-600 mt-1 ${
+            isNarrating ? 'animate-bounce' : ''
+          }`}
+        />
+        <p className="text-rose-700 text-lg flex-1" aria-live="polite">
+          {narration}
+        </p>
+      </div>
+
+      <PlaybackControls
+        currentStep={currentStep}
+        totalSteps={trace.steps.length}
+        isPlaying={isPlaying}
+        speed={speed}
+        theme="rose"
+        onTogglePlay={() => setIsPlaying(!isPlaying)}
+        onNext={handleNext}
+        onSeek={jumpTo}
+        onReset={reset}
+        onSpeedChange={setSpeed}
+      />
+
+      <div className="bg-gradient-to-r from-rose-100 to-red-100 p-6 rounded-xl shadow-md">
+        <h3 className="text-xl font-semibold text-rose-900 mb-4">
+          {t('deadlock.banker.about')}
+        </h3>
+        <p className="text-rose-700">{t('deadlock.banker.aboutText')}</p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Check, Scale } from 'lucide-react';
+import {
+  BankerState,
+  RequestEvaluation,
+  evaluateRequest,
+  formatVector,
+  needMatrix,
+} from '../engines/deadlock';
+import { MAX_INSTANCES, parseIntegerList } from '../engines/input';
+import { useI18n } from '../i18n/context';
+
+interface BankerRequestProps {
+  state: BankerState;
+  onGrant: (state: BankerState) => void;
+}
+
+// Pedido avaliado, guardado junto com quem pediu e o quê
+interface Evaluated extends RequestEvaluation {
+  pid: number;
+  request: number[];
+}
+
+const VERDICT_COLORS = {
+  exceedsNeed: 'text-red-700',
+  mustWait: 'text-amber-700',
+  unsafe: 'text-red-700',
+  granted: 'text-green-700',
+};
+
+/**
+ * Avalia um pedido de recursos com o algoritmo do banqueiro. O pedido só
+ * muda o estado do sistema quando é concedido.
+ */
+export function BankerRequest({ state, onGrant }: BankerRequestProps) {
+  const { t } = useI18n();
+  const [pid, setPid] = useState(0);
+  const [requestText, setRequestText] = useState('');
+  const [result, setResult] = useState<Evaluated | null>(null);
+  const [applied, setApplied] = useState(state);
+
+  // Um novo estado invalida a avaliação anterior
+  if (applied !== state) {
+    setApplied(state);
+    setResult(null);
+    setPid((prev) => (prev < state.max.length ? prev : 0));
+  }
+
+  const width = state.available.length;
+  const request = parseIntegerList(
+    requestText,
+    t('input.labels.request'),
+    0,
+    MAX_INSTANCES,
+    t
+  );
+  const lengthOk = !request.ok || request.value.length === width;
+  const isValid = request.ok && lengthOk;
+
+  const evaluate = () => {
+    if (!request.ok || !isValid) return;
+    setResult({
+      ...evaluateRequest(state, pid, request.value),
+      pid,
+      request: request.value,
+    });
+  };
+
+  const verdictText = (evaluated: Evaluated) => {
+    const { verdict, safety } = evaluated;
+    return t(`deadlock.banker.verdicts.${verdict}`, {
+      pid: evaluated.pid,
+      need: formatVector(needMatrix(state)[evaluated.pid]),
+      request: formatVector(evaluated.request),
+      available: formatVector(state.available),
+      sequence: safety ? safety.sequence.map((p) => `P${p}`).join(', ') : '',
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <h3 className="text-xl font-semibold text-rose-900 mb-4">
+        {t('deadlock.banker.request')}
+      </h3>
+      <div className="flex flex-wrap gap-4 items-start">
+        <label className="flex flex-col gap-1 text-rose-900">
+          <span className="font-semibold">
+            {t('deadlock.banker.requestProcess')}
+          </span>
+          <select
+            value={pid}
+            onChange={(e) => setPid(Number(e.target.value))}
+            className="px-3 py-2 rounded-lg border border-rose-200 bg-white"
+          >
+            {state.max.map((_, i) => (
+              <option key={i} value={i}>
+                P{i}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-rose-900">
+          <span className="font-semibold">
+            {t('deadlock.banker.requestVector')}
+          </span>
+          <input
+            type="text"
+            value={requestText}
+            onChange={(e) => setRequestText(e.target.value)}
+            placeholder={Array(width).fill(0).join(' ')}
+            className="px-3 py-2 rounded-lg border border-rose-200 font-mono"
+          />
+          {requestText.trim() !== '' && !request.ok && (
+            <span className="text-sm text-red-600">{request.error}</span>
+          )}
+          {!lengthOk && (
+            <span className="text-sm text-red-600">
+              {t('deadlock.banker.wrongLength', { count: width })}
+            </span>
+          )}
+        </label>
+        <button
+          onClick={evaluate}
+          disabled={!isValid}
+          className="self-end flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-rose-600 to-red-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Scale size={20} />
+          {t('deadlock.banker.evaluate')}
+        </button>
+      </div>
+      {result && (
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+          <p className={`font-semibold ${VERDICT_COLORS[result.verdict]}`}>
+            {verdictText(result)}
+          </p>
+          {result.verdict === 'granted' && result.state && (
+            <button
+              onClick={() => onGrant(result.state!)}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white text-rose-700 hover:bg-rose-50 shadow-md transition-all transform hover:scale-105"
+            >
+              <Check size={20} />
+              {t('deadlock.banker.grant')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
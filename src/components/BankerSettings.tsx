@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import { BankerState } from '../engines/deadlock';
+import {
+  MAX_INSTANCES,
+  MAX_PROCESSES,
+  MAX_RESOURCES,
+  parseIntegerList,
+  parseMatrix,
+} from '../engines/input';
+import { useI18n } from '../i18n/context';
+
+const matrixToText = (matrix: number[][]) =>
+  matrix.map((row) => row.join(' ')).join('\n');
+
+interface BankerSettingsProps extends BankerState {
+  onApply: (state: BankerState) => void;
+}
+
+/**
+ * Painel de configuração do algoritmo do banqueiro: o vetor Available
+ * define quantos recursos existem, e a matriz Max, quantos processos.
+ */
+export function BankerSettings({
+  available,
+  max,
+  allocation,
+  onApply,
+}: BankerSettingsProps) {
+  const { t } = useI18n();
+  const [availableText, setAvailableText] = useState(available.join(' '));
+  const [maxText, setMaxText] = useState(matrixToText(max));
+  const [allocationText, setAllocationText] = useState(
+    matrixToText(allocation)
+  );
+  const [applied, setApplied] = useState<BankerState>({
+    available,
+    max,
+    allocation,
+  });
+
+  // Se a configuração mudar por fora do painel, o rascunho acompanha
+  if (
+    applied.available !== available ||
+    applied.max !== max ||
+    applied.allocation !== allocation
+  ) {
+    setApplied({ available, max, allocation });
+    setAvailableText(available.join(' '));
+    setMaxText(matrixToText(max));
+    setAllocationText(matrixToText(allocation));
+  }
+
+  const availableList = parseIntegerList(
+    availableText,
+    t('input.labels.available'),
+    0,
+    MAX_INSTANCES,
+    t
+  );
+  const width = availableList.ok ? availableList.value.length : 0;
+  const resourcesFit = width <= MAX_RESOURCES;
+  const maxMatrix = parseMatrix(
+    maxText,
+    t('input.labels.max'),
+    width,
+    MAX_INSTANCES,
+    t
+  );
+  const processesFit = !maxMatrix.ok || maxMatrix.value.length <= MAX_PROCESSES;
+  const allocationMatrix = parseMatrix(
+    allocationText,
+    t('input.labels.allocation'),
+    width,
+    MAX_INSTANCES,
+    t
+  );
+  const rowsMatch =
+    !maxMatrix.ok ||
+    !allocationMatrix.ok ||
+    allocationMatrix.value.length === maxMatrix.value.length;
+  // Primeiro processo com mais instâncias alocadas que a demanda máxima
+  const overMax =
+    maxMatrix.ok && allocationMatrix.ok && rowsMatch
+      ? allocationMatrix.value.findIndex((row, pid) =>
+          row.some((value, r) => value > maxMatrix.value[pid][r])
+        )
+      : -1;
+  // Enquanto Available for inválido, as matrizes não têm largura para conferir
+  const matricesChecked = availableList.ok && resourcesFit;
+  const isValid =
+    matricesChecked &&
+    maxMatrix.ok &&
+    processesFit &&
+    allocationMatrix.ok &&
+    rowsMatch &&
+    overMax < 0;
+
+  const apply = () => {
+    if (!availableList.ok || !maxMatrix.ok || !allocationMatrix.ok || !isValid)
+      return;
+    onApply({
+      available: availableList.value,
+      max: maxMatrix.value,
+      allocation: allocationMatrix.value,
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <h3 className="text-xl font-semibold text-rose-900 mb-4">
+        {t('common.settings')}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
+        <label className="md:col-span-2 flex flex-col gap-1 text-rose-900">
+          <span className="font-semibold">
+            {t('deadlock.settings.available', { max: MAX_RESOURCES })}
+          </span>
+          <input
+            type="text"
+            value={availableText}
+            onChange={(e) => setAvailableText(e.target.value)}
+            placeholder="3 3 2"
+            className="px-3 py-2 rounded-lg border border-rose-200 font-mono"
+          />
+          {!availableList.ok && (
+            <span className="text-sm text-red-600">{availableList.error}</span>
+          )}
+          {!resourcesFit && (
+            <span className="text-sm text-red-600">
+              {t('deadlock.settings.tooManyResources', { max: MAX_RESOURCES })}
+            </span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-rose-900">
+          <span className="font-semibold">
+            {t('deadlock.settings.max', { max: MAX_PROCESSES })}
+          </span>
+          <textarea
+            value={maxText}
+            onChange={(e) => setMaxText(e.target.value)}
+            rows={Math.max(3, maxText.split('\n').length)}
+            placeholder={'7 5 3\n3 2 2'}
+            className="px-3 py-2 rounded-lg border border-rose-200 font-mono"
+          />
+          {matricesChecked && !maxMatrix.ok && (
+            <span className="text-sm text-red-600">{maxMatrix.error}</span>
+          )}
+          {!processesFit && (
+            <span className="text-sm text-red-600">
+              {t('deadlock.settings.tooManyProcesses', { max: MAX_PROCESSES })}
+            </span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-rose-900">
+          <span className="font-semibold">
+            {t('deadlock.settings.allocation')}
+          </span>
+          <textarea
+            value={allocationText}
+            onChange={(e) => setAllocationText(e.target.value)}
+            rows={Math.max(3, allocationText.split('\n').length)}
+            placeholder={'0 1 0\n2 0 0'}
+            className="px-3 py-2 rounded-lg border border-rose-200 font-mono"
+          />
+          {matricesChecked && !allocationMatrix.ok && (
+            <span className="text-sm text-red-600">
+              {allocationMatrix.error}
+            </span>
+          )}
+          {!rowsMatch && maxMatrix.ok && (
+            <span className="text-sm text-red-600">
+              {t('deadlock.settings.rowCount', {
+                count: maxMatrix.value.length,
+              })}
+            </span>
+          )}
+          {overMax >= 0 && (
+            <span className="text-sm text-red-600">
+              {t('deadlock.settings.overMax', { pid: overMax })}
+            </span>
+          )}
+        </label>
+      </div>
+      <div className="mt-4 flex flex-wrap gap-4">
+        <button
+          onClick={apply}
+          disabled={!isValid}
+          className="flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-rose-600 to-red-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Check size={20} />
+          {t('common.apply')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useRef } from 'react';
+import { ChartExportButtons } from './ChartExportButtons';
+import { slugify } from '../utils/download';
+
+interface BarChartProps {
+  title: string;
+  data: { label: string; value: number }[];
+  color: string; // Cor de preenchimento das barras (qualquer cor CSS)
+  formatValue?: (value: number) => string;
+  highlightMin?: boolean; // Destaca a(s) barra(s) de menor valor
+}
+
+const ROW_HEIGHT = 28;
+const LABEL_WIDTH = 110;
+const VALUE_WIDTH = 60;
+const WIDTH = 480;
+
+/**
+ * Gráfico de barras horizontais em SVG, usado nas comparações entre algoritmos.
+ */
+export function BarChart({
+  title,
+  data,
+  color,
+  formatValue = String,
+  highlightMin = false,
+}: BarChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const max = Math.max(1, ...data.map((d) => d.value));
+  const min = Math.min(...data.map((d) => d.value));
+  const barArea = WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+  const height = data.length * ROW_HEIGHT;
+
+  return (
+    <figure className="bg-white p-4 rounded-xl shadow-md">
+      <figcaption className="flex items-center justify-between gap-2 font-semibold text-gray-800 mb-2">
+        {title}
+        <ChartExportButtons svgRef={svgRef} fileName={slugify(title)} />
+      </figcaption>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full"
+        role="img"
+        aria-label={title}
+      >
+        {data.map((d, i) => {
+          const y = i * ROW_HEIGHT;
+          const isBest = highlightMin && d.value === min;
+          return (
+            <g key={d.label}>
+              <text
+                x={LABEL_WIDTH - 8}
+                y={y + ROW_HEIGHT / 2}
+                textAnchor="end"
+                dominantBaseline="middle"
+                className="text-xs fill-gray-700"
+              >
+                {d.label}
+              </text>
+              <rect
+                x={LABEL_WIDTH}
+                y={y + 4}
+                width={(d.value / max) * barArea}
+                height={ROW_HEIGHT - 8}
+                rx={4}
+                fill={color}
+                opacity={isBest ? 1 : 0.6}
+              />
+              <text
+                x={LABEL_WIDTH + (d.value / max) * barArea + 6}
+                y={y + ROW_HEIGHT / 2}
+                dominantBaseline="middle"
+                className={`text-xs fill-gray-800 ${isBest ? 'font-bold' : ''}`}
+              >
+                {formatValue(d.value)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </figure>
+  );
+}
@@ -0,0 +1,309 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Search } from 'lucide-react';
+import { LineChart } from './LineChart';
+import {
+  AnomalySearchResult,
+  computeFaultCurves,
+  findAnomalies,
+  searchBeladyAnomaly,
+} from '../engines/belady';
+import { MAX_SEED, parseIntegerInRange } from '../engines/input';
+import { PAGE_ALGORITHMS, PageAlgorithm } from '../engines/pageReplacement';
+import { useI18n } from '../i18n/context';
+import { RichText } from '../i18n/RichText';
+
+// Cor de cada algoritmo no gráfico
+const COLORS: Record<PageAlgorithm, string> = {
+  FIFO: '#dc2626',
+  LRU: '#4f46e5',
+  OPT: '#16a34a',
+  CLOCK: '#d97706',
+  ESC: '#0891b2',
+  LFU: '#9333ea',
+  MFU: '#db2777',
+  NRU: '#64748b',
+};
+
+const MAX_CURVE_FRAMES = 20;
+const SEARCH_ATTEMPTS = 5000; // Sequências testadas por busca
+const SEARCH_CHUNK = 250; // Sequências por etapa; entre as etapas a página responde
+
+interface BeladyExplorerProps {
+  sequence: number[];
+  onUseSequence: (sequence: number[]) => void;
+}
+
+/**
+ * Explorador da anomalia de Belady: curva de page faults por número de
+ * frames para cada algoritmo, com detecção automática dos pontos em que a
+ * curva sobe e busca de sequências que exibem a anomalia no FIFO.
+ */
+export function BeladyExplorer({
+  sequence,
+  onUseSequence,
+}: BeladyExplorerProps) {
+  const { t } = useI18n();
+  const [maxFramesText, setMaxFramesText] = useState('7');
+  const [visible, setVisible] = useState<PageAlgorithm[]>([
+    'FIFO',
+    'LRU',
+    'OPT',
+    'CLOCK',
+  ]);
+  const [lengthText, setLengthText] = useState('16');
+  const [pageCountText, setPageCountText] = useState('5');
+  const [seedText, setSeedText] = useState('1');
+  const [searchResult, setSearchResult] = useState<
+    AnomalySearchResult | null | undefined
+  >(undefined); // `undefined`: nenhuma busca feita; `null`: nada encontrado
+  const [searched, setSearched] = useState<number | null>(null); // Sequências já testadas na busca em andamento
+  const searchTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  // A busca em andamento não sobrevive ao componente
+  useEffect(() => () => clearTimeout(searchTimer.current), []);
+
+  const maxFrames = parseIntegerInRange(
+    maxFramesText,
+    t('input.labels.maxFrames'),
+    1,
+    MAX_CURVE_FRAMES,
+    t
+  );
+  const length = parseIntegerInRange(
+    lengthText,
+    t('input.labels.length'),
+    2,
+    100,
+    t
+  );
+  const pageCount = parseIntegerInRange(
+    pageCountText,
+    t('input.labels.pageCount'),
+    2,
+    20,
+    t
+  );
+  const seed = parseIntegerInRange(
+    seedText,
+    t('input.labels.seed'),
+    0,
+    MAX_SEED,
+    t
+  );
+  const searchError = [length, pageCount, seed, maxFrames].find((r) => !r.ok);
+
+  const frameLimit = maxFrames.ok ? maxFrames.value : 1;
+  const curves = useMemo(
+    () => computeFaultCurves(sequence, frameLimit, visible),
+    [sequence, frameLimit, visible]
+  );
+  const anomalies = findAnomalies(curves);
+
+  // Busca em etapas de SEARCH_CHUNK sequências, para não travar a página;
+  // cada etapa continua da semente em que a anterior parou
+  const search = () => {
+    if (!length.ok || !pageCount.ok || !seed.ok || !maxFrames.ok) return;
+    const options = {
+      length: length.value,
+      pageCount: pageCount.value,
+      maxFrames: maxFrames.value,
+    };
+    const runChunk = (done: number) => {
+      const attempts = Math.min(SEARCH_CHUNK, SEARCH_ATTEMPTS - done);
+      const result = searchBeladyAnomaly({
+        ...options,
+        seed: seed.value + done,
+        attempts,
+      });
+      if (result || done + attempts >= SEARCH_ATTEMPTS) {
+        setSearched(null);
+        setSearchResult(
+          result && { ...result, attempts: done + result.attempts }
+        );
+        return;
+      }
+      setSearched(done + attempts);
+      searchTimer.current = setTimeout(() => runChunk(done + attempts), 0);
+    };
+    clearTimeout(searchTimer.current);
+    setSearchResult(undefined);
+    setSearched(0);
+    searchTimer.current = setTimeout(() => runChunk(0), 0);
+  };
+
+  const toggle = (algorithm: PageAlgorithm) =>
+    setVisible((prev) =>
+      prev.includes(algorithm)
+        ? prev.filter((a) => a !== algorithm)
+        : PAGE_ALGORITHMS.filter((a) => a === algorithm || prev.includes(a))
+    );
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <div className="flex flex-wrap items-end gap-6 mb-4 text-indigo-900">
+          <label className="flex flex-col gap-1">
+            <span className="font-semibold">
+              {t('belady.maxFrames', { max: MAX_CURVE_FRAMES })}
+            </span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_CURVE_FRAMES}
+              value={maxFramesText}
+              onChange={(e) => setMaxFramesText(e.target.value)}
+              className="w-24 px-3 py-2 rounded-lg border border-indigo-200"
+            />
+          </label>
+          <div className="flex flex-wrap gap-3 text-sm">
+            {PAGE_ALGORITHMS.map((algorithm) => (
+              <label key={algorithm} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={visible.includes(algorithm)}
+                  onChange={() => toggle(algorithm)}
+                  className="accent-indigo-600"
+                />
+                {algorithm}
+              </label>
+            ))}
+          </div>
+        </div>
+        {!maxFrames.ok && (
+          <span className="text-sm text-red-600">{maxFrames.error}</span>
+        )}
+        <p className="text-indigo-700">
+          {t('belady.analyzed')}{' '}
+          <span className="font-mono">{sequence.join(' ')}</span>
+        </p>
+      </div>
+
+      <LineChart
+        title={t('belady.chartTitle')}
+        xLabel={t('belady.xLabel')}
+        yLabel={t('belady.yLabel')}
+        xValues={Array.from({ length: frameLimit }, (_, i) => i + 1)}
+        series={curves.map(({ algorithm, faults }) => ({
+          label: algorithm,
+          values: faults,
+          color: COLORS[algorithm],
+        }))}
+        markers={anomalies.map((a) => ({
+          series: a.algorithm,
+          index: a.frames,
+        }))}
+      />
+
+      <div
+        className={`p-4 rounded-lg flex items-start gap-3 ${
+          anomalies.length > 0
+            ? 'bg-red-50 text-red-800'
+            : 'bg-green-50 text-green-800'
+        }`}
+      >
+        <AlertTriangle className="w-6 h-6 mt-1 shrink-0" />
+        {anomalies.length > 0 ? (
+          <ul className="list-disc pl-4">
+            {anomalies.map((a) => (
+              <li key={`${a.algorithm}-${a.frames}`}>
+                <RichText
+                  text={t('belady.anomaly', {
+                    frames: a.frames,
+                    faults: a.faults,
+                    nextFrames: a.frames + 1,
+                    nextFaults: a.nextFaults,
+                  })}
+                  values={{ algorithm: <strong>{a.algorithm}</strong> }}
+                />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p>{t('belady.noAnomaly')}</p>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <h3 className="text-xl font-semibold text-indigo-900 mb-2">
+          {t('belady.searchTitle')}
+        </h3>
+        <p className="text-indigo-700 mb-4">{t('belady.searchDescription')}</p>
+        <div className="flex flex-wrap items-end gap-4 text-indigo-900">
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('common.length')}</span>
+            <input
+              type="number"
+              value={lengthText}
+              onChange={(e) => setLengthText(e.target.value)}
+              className="w-24 px-3 py-2 rounded-lg border border-indigo-200"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('common.distinctPages')}</span>
+            <input
+              type="number"
+              value={pageCountText}
+              onChange={(e) => setPageCountText(e.target.value)}
+              className="w-24 px-3 py-2 rounded-lg border border-indigo-200"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('common.seed')}</span>
+            <input
+              type="number"
+              value={seedText}
+              onChange={(e) => setSeedText(e.target.value)}
+              className="w-28 px-3 py-2 rounded-lg border border-indigo-200"
+            />
+          </label>
+          <button
+            onClick={search}
+            disabled={searchError !== undefined || searched !== null}
+            className="flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Search size={20} />
+            {t('belady.search')}
+          </button>
+        </div>
+        {searchError && !searchError.ok && (
+          <span className="text-sm text-red-600">{searchError.error}</span>
+        )}
+        {searched !== null && (
+          <p className="mt-4 text-indigo-700" aria-live="polite">
+            {t('belady.searching', {
+              count: searched,
+              total: SEARCH_ATTEMPTS,
+            })}
+          </p>
+        )}
+        {searchResult === null && (
+          <p className="mt-4 text-indigo-700">
+            {t('belady.notFound', { attempts: SEARCH_ATTEMPTS })}
+          </p>
+        )}
+        {searchResult && (
+          <div className="mt-4 p-4 rounded-lg bg-indigo-50 text-indigo-900">
+            <p className="font-mono mb-2">
+              {searchResult.references.join(' ')}
+            </p>
+            <p className="mb-3">
+              {t('belady.found', {
+                attempts: searchResult.attempts,
+                frames: searchResult.anomaly.frames,
+                faults: searchResult.anomaly.faults,
+                nextFrames: searchResult.anomaly.frames + 1,
+                nextFaults: searchResult.anomaly.nextFaults,
+              })}
+            </p>
+            <button
+              onClick={() => onUseSequence(searchResult.references)}
+              className="px-4 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg"
+            >
+              {t('belady.useSequence')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { BuddyNode } from '../engines/memoryAllocation';
+
+interface BuddyTreeProps {
+  tree: BuddyNode;
+  colors: Record<string, string>; // Classes de cor de cada nome do roteiro
+  highlight: number | null; // Início do bloco do último comando
+}
+
+// Nós da árvore agrupados por nível, da raiz às folhas mais profundas
+function levels(root: BuddyNode): BuddyNode[][] {
+  const rows: BuddyNode[][] = [];
+  let row = [root];
+  while (row.length > 0) {
+    rows.push(row);
+    row = row.flatMap((node) => node.children ?? []);
+  }
+  return rows;
+}
+
+/**
+ * Árvore do sistema buddy: uma linha por nível, com cada bloco na posição
+ * e na largura que ocupa na memória. Blocos divididos ficam em cinza e dão
+ * lugar aos dois buddies na linha de baixo.
+ */
+export function BuddyTree({ tree, colors, highlight }: BuddyTreeProps) {
+  const position = (address: number) => `${(address / tree.size) * 100}%`;
+
+  return (
+    <div className="flex flex-col gap-1">
+      {levels(tree).map((row) => (
+        <div key={row[0].size} className="relative h-9">
+          {row.map(({ start, size, owner, requested, children }) => (
+            <div
+              key={start}
+              title={`${start}–${start + size} (${size} KB)${
+                owner ? `: ${owner}, ${requested} KB` : ''
+              }`}
+              style={{ left: position(start), width: position(size) }}
+              className={`absolute inset-y-0 flex items-center justify-center text-xs font-semibold rounded-md border-2 border-white overflow-hidden transition-all duration-500 ${
+                children
+                  ? 'bg-gray-200 text-gray-500'
+                  : owner !== null
+                  ? colors[owner]
+                  : 'bg-white text-amber-700 ring-1 ring-inset ring-amber-200'
+              } ${
+                !children && highlight === start ? 'ring-4 ring-amber-300' : ''
+              }`}
+            >
+              <span className="truncate px-1">{owner ?? size}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { RefObject } from 'react';
+import { ImageDown } from 'lucide-react';
+import { downloadPng, downloadSvg } from '../utils/download';
+import { useI18n } from '../i18n/context';
+
+interface ChartExportButtonsProps {
+  svgRef: RefObject<SVGSVGElement>;
+  fileName: string; // Nome do arquivo, sem extensão
+}
+
+/**
+ * Botões discretos para baixar um gráfico como SVG ou PNG. Ficam ocultos
+ * na impressão.
+ */
+export function ChartExportButtons({
+  svgRef,
+  fileName,
+}: ChartExportButtonsProps) {
+  const { t } = useI18n();
+  const buttonClass =
+    'flex items-center gap-1 px-2 py-1 rounded text-xs font-normal text-gray-600 hover:text-gray-900 hover:bg-gray-100';
+
+  return (
+    <div className="flex gap-1 print:hidden">
+      <button
+        onClick={() =>
+          svgRef.current && downloadSvg(svgRef.current, `${fileName}.svg`)
+        }
+        className={buttonClass}
+        title={t('chartExport.svg')}
+      >
+        <ImageDown size={14} />
+        SVG
+      </button>
+      <button
+        onClick={() =>
+          svgRef.current && downloadPng(svgRef.current, `${fileName}.png`)
+        }
+        className={buttonClass}
+        title={t('chartExport.png')}
+      >
+        <ImageDown size={14} />
+        PNG
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { MessageCircle } from 'lucide-react';
+import { InfoTooltip } from './InfoTooltip';
+import { GanttChart } from './GanttChart';
+import { PlaybackControls } from './PlaybackControls';
+import { CpuSettings, CpuValues } from './CpuSettings';
+import {
+  CPU_ALGORITHMS,
+  CpuAlgorithm,
+  CpuTick,
+  ganttSlices,
+  simulateCpuScheduling,
+  summarizeCpuTrace,
+} from '../engines/cpuScheduling';
+import { describeCpuTick } from '../engines/narration';
+import { useI18n } from '../i18n/context';
+import { AT_MOST_ONE_DECIMAL, PERCENT } from '../i18n/translate';
+
+// Cinco processos com chegadas, durações e prioridades diferentes
+const DEFAULT_VALUES: CpuValues = {
+  processes: [
+    { arrival: 0, burst: 8, priority: 3 },
+    { arrival: 1, burst: 4, priority: 1 },
+    { arrival: 2, burst: 9, priority: 4 },
+    { arrival: 3, burst: 5, priority: 2 },
+    { arrival: 6, burst: 2, priority: 1 },
+  ],
+  quantum: 2,
+  mlfqQuanta: [2, 4],
+};
+
+// Classes completas por processo, para que o Tailwind as encontre no código
+const PROCESS_COLORS = [
+  'bg-emerald-500 text-white',
+  'bg-amber-500 text-white',
+  'bg-sky-500 text-white',
+  'bg-rose-500 text-white',
+  'bg-violet-500 text-white',
+  'bg-lime-500 text-white',
+  'bg-orange-500 text-white',
+  'bg-teal-700 text-white',
+];
+
+// Componente principal que simula o escalonamento de processos na CPU
+export function CpuScheduling() {
+  const { t, formatNumber } = useI18n();
+
+  // Estados do componente
+  const [algorithm, setAlgorithm] = useState<CpuAlgorithm>('FCFS'); // Algoritmo selecionado
+  const [values, setValues] = useState(DEFAULT_VALUES); // Processos e quanta
+  const [currentStep, setCurrentStep] = useState(0); // Quantos instantes já foram executados
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [narration, setNarration] = useState('');
+  const [isNarrating, setIsNarrating] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Trace completo calculado pelo motor
+  const trace = useMemo(
+    () => simulateCpuScheduling(values.processes, { algorithm, ...values }),
+    [algorithm, values]
+  );
+  const current: CpuTick | null =
+    currentStep > 0 ? trace.ticks[currentStep - 1] : null;
+  const running = current ? current.running : null;
+  const queueCount = algorithm === 'MLFQ' ? values.mlfqQuanta.length + 1 : 1;
+  const queues = current
+    ? current.queues
+    : Array.from({ length: queueCount }, () => []);
+  const slices = ganttSlices(trace.ticks.slice(0, currentStep));
+  const summary = summarizeCpuTrace(trace, currentStep);
+  const time = (value: number) => formatNumber(value, AT_MOST_ONE_DECIMAL);
+
+  // Exibe uma narração com destaque temporário
+  const narrate = (text: string) => {
+    setNarration(text);
+    setIsNarrating(true);
+    setTimeout(() => setIsNarrating(false), 3000);
+  };
+
+  const getNarration = useCallback(
+    (tick: CpuTick) => describeCpuTick(trace, tick, t),
+    [trace, t]
+  );
+
+  // Executa o próximo instante
+  const handleNext = useCallback(() => {
+    if (currentStep < trace.ticks.length) {
+      narrate(getNarration(trace.ticks[currentStep]));
+      setCurrentStep((prev) => prev + 1);
+    } else {
+      setIsPlaying(false);
+      narrate(t('cpu.finished'));
+    }
+  }, [currentStep, trace, getNarration, t]);
+
+  const reset = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+    narrate(t('cpu.initialNarration'));
+  };
+
+  // Leva a simulação diretamente a um instante da linha do tempo
+  const jumpTo = (step: number) => {
+    setCurrentStep(step);
+    setIsPlaying(false);
+    narrate(
+      step > 0 ? getNarration(trace.ticks[step - 1]) : t('cpu.initialNarration')
+    );
+  };
+
+  // Efeito que controla a execução automática da simulação
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    if (isPlaying) {
+      timeout = setTimeout(handleNext, 2000 / speed);
+    }
+    return () => clearTimeout(timeout);
+  }, [isPlaying, handleNext, speed]);
+
+  return (
+    <div className="bg-gradient-to-br from-emerald-500 to-teal-600 min-h-screen p-8">
+      <div className="max-w-6xl mx-auto bg-white/90 backdrop-blur-lg rounded-2xl shadow-2xl p-8">
+        <div className="flex justify-between items-center mb-8">
+          <h2 className="text-3xl font-bold text-emerald-900">
+            {t('cpu.title', {
+              algorithm: t(`cpuAlgorithms.${algorithm}.short`),
+            })}
+          </h2>
+          <InfoTooltip
+            title={t('cpu.tooltipTitle')}
+            content={t('cpu.tooltipContent')}
+          />
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-4 mb-8">
+          {CPU_ALGORITHMS.map((alg) => (
+            <button
+              key={alg}
+              onClick={() => {
+                setAlgorithm(alg);
+                reset();
+              }}
+              className={`px-6 py-3 rounded-xl transition-all transform hover:scale-105 ${
+                algorithm === alg
+                  ? 'bg-gradient-to-r from-emerald-600 to-teal-600 text-white shadow-lg'
+                  : 'bg-white text-emerald-700 hover:bg-emerald-50 shadow-md'
+              }`}
+            >
+              <span className="font-semibold">
+                {t(`cpuAlgorithms.${alg}.short`)}
+              </span>
+              <div className="text-xs mt-1 font-normal">
+                {t(`cpuAlgorithms.${alg}.name`)}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <CpuSettings
+          {...values}
+          onApply={(newValues) => {
+            setValues(newValues);
+            reset();
+          }}
+        />
+
+        {/* CPU e filas de prontos no instante atual */}
+        <div className="bg-white p-6 rounded-xl shadow-md mb-8 flex flex-wrap gap-8 items-start">
+          <div className="flex flex-col items-center gap-2">
+            <span className="font-semibold text-emerald-900">
+              {t('cpu.cpu')}
+            </span>
+            <div
+              className={`w-20 h-20 flex items-center justify-center rounded-xl text-2xl font-bold transition-all duration-500 ${
+                running !== null
+                  ? PROCESS_COLORS[running]
+                  : 'border-2 border-dashed border-emerald-200 text-emerald-300 text-sm'
+              }`}
+            >
+              {running !== null ? `P${running}` : t('cpu.idle')}
+            </div>
+            <span className="text-xs text-emerald-700">
+              t = {current ? current.time : 0}
+            </span>
+          </div>
+          <div className="flex-1 flex flex-col gap-3">
+            {queues.map((queue, level) => (
+              <div key={level}>
+                <p className="font-semibold text-emerald-900 mb-1">
+                  {algorithm !== 'MLFQ'
+                    ? t('cpu.readyQueue')
+                    : level < values.mlfqQuanta.length
+                    ? t('cpu.level', {
+                        level,
+                        quantum: values.mlfqQuanta[level],
+                      })
+                    : t('cpu.lastLevel', { level })}
+                </p>
+                <div className="flex flex-wrap gap-2 min-h-10">
+                  {queue.length === 0 ? (
+                    <span className="text-sm text-emerald-300">
+                      {t('cpu.empty')}
+                    </span>
+                  ) : (
+                    queue.map((pid) => (
+                      <span
+                        key={pid}
+                        className={`px-3 py-2 rounded-lg font-semibold ${
+                          PROCESS_COLORS[pid]
+                        } ${
+                          current?.arrived.includes(pid)
+                            ? 'ring-2 ring-emerald-300'
+                            : ''
+                        }`}
+                      >
+                        P{pid}
+                      </span>
+                    ))
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+          <h3 className="text-xl font-semibold text-emerald-900 mb-4">
+            {t('cpu.gantt')}
+          </h3>
+          <GanttChart
+            slices={slices}
+            totalTime={trace.ticks.length}
+            colors={PROCESS_COLORS}
+          />
+          <p className="text-xs text-emerald-700 mt-3">
+            {t('cpu.ganttLegend')}
+          </p>
+        </div>
+
+        <div
+          className={`bg-gradient-to-r from-emerald-100 to-teal-100 p-4 rounded-lg mb-6 transition-all duration-500 transform flex items-start gap-3 ${
+            isNarrating ? 'scale-102 shadow-lg' : ''
+          }`}
+        >
+          <MessageCircle
+            className={`w-6 h-6 text-emerald-600 mt-1 ${
+              isNarrating ? 'animate-bounce' : ''
+            }`}
+          />
+          <p className="text-emerald-700 text-lg flex-1" aria-live="polite">
+            {narration}
+          </p>
+        </div>
+
+        <PlaybackControls
+          currentStep={currentStep}
+          totalSteps={trace.ticks.length}
+          isPlaying={isPlaying}
+          speed={speed}
+          theme="emerald"
+          onTogglePlay={() => setIsPlaying(!isPlaying)}
+          onNext={handleNext}
+          onSeek={jumpTo}
+          onReset={reset}
+          onSpeedChange={setSpeed}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+          {(
+            [
+              ['cpu.averageWaiting', summary.averageWaiting],
+              ['cpu.averageTurnaround', summary.averageTurnaround],
+              ['cpu.averageResponse', summary.averageResponse],
+            ] as const
+          ).map(([label, value]) => (
+            <div
+              key={label}
+              className="bg-gradient-to-r from-emerald-100 to-teal-100 p-6 rounded-xl shadow-md"
+            >
+              <p className="text-lg font-semibold text-emerald-900 mb-2">
+                {t(label)}
+              </p>
+              <p className="text-3xl font-bold text-emerald-700">
+                {summary.completed > 0 ? time(value) : '—'}
+              </p>
+              <p className="text-xs text-emerald-700 mt-1">
+                {t('cpu.completed', {
+                  done: summary.completed,
+                  total: values.processes.length,
+                })}
+              </p>
+            </div>
+          ))}
+          <div className="bg-gradient-to-r from-emerald-100 to-teal-100 p-6 rounded-xl shadow-md">
+            <p className="text-lg font-semibold text-emerald-900 mb-2">
+              {t('cpu.utilization')}
+            </p>
+            <p className="text-3xl font-bold text-emerald-700">
+              {formatNumber(summary.utilization, PERCENT)}
+            </p>
+            <p className="text-xs text-emerald-700 mt-1">
+              {t('cpu.switches', { count: summary.contextSwitches })}
+            </p>
+          </div>
+        </div>
+
+        {/* Métricas de cada processo, preenchidas conforme eles terminam */}
+        <div className="bg-white p-6 rounded-xl shadow-md mb-8 overflow-x-auto">
+          <h3 className="text-xl font-semibold text-emerald-900 mb-4">
+            {t('cpu.results')}
+          </h3>
+          <table className="w-full text-left text-emerald-900">
+            <thead>
+              <tr className="border-b border-emerald-100">
+                <th className="py-1 pr-4">{t('cpu.process')}</th>
+                <th className="py-1 pr-4">{t('cpu.arrival')}</th>
+                <th className="py-1 pr-4">{t('cpu.burst')}</th>
+                <th className="py-1 pr-4">{t('cpu.priority')}</th>
+                <th className="py-1 pr-4">{t('cpu.completion')}</th>
+                <th className="py-1 pr-4">{t('cpu.turnaround')}</th>
+                <th className="py-1 pr-4">{t('cpu.waiting')}</th>
+                <th className="py-1 pr-4">{t('cpu.response')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trace.results.map((result) => {
+                const { arrival, burst, priority } =
+                  trace.processes[result.pid];
+                const done = result.completion <= currentStep;
+                const started = arrival + result.response < currentStep;
+                return (
+                  <tr
+                    key={result.pid}
+                    className={`border-b border-emerald-50 ${
+                      running === result.pid ? 'font-semibold' : ''
+                    }`}
+                  >
+                    <td className="py-1 pr-4">
+                      <span
+                        className={`px-2 py-0.5 rounded ${
+                          PROCESS_COLORS[result.pid]
+                        }`}
+                      >
+                        P{result.pid}
+                      </span>
+                    </td>
+                    <td className="py-1 pr-4">{arrival}</td>
+                    <td className="py-1 pr-4">{burst}</td>
+                    <td className="py-1 pr-4">{priority}</td>
+                    <td className="py-1 pr-4">
+                      {done ? result.completion : '—'}
+                    </td>
+                    <td className="py-1 pr-4">
+                      {done ? result.turnaround : '—'}
+                    </td>
+                    <td className="py-1 pr-4">{done ? result.waiting : '—'}</td>
+                    <td className="py-1 pr-4">
+                      {started ? result.response : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+              <tr className="font-semibold">
+                <td className="py-1 pr-4" colSpan={5}>
+                  {t('cpu.average')}
+                </td>
+                {[
+                  summary.averageTurnaround,
+                  summary.averageWaiting,
+                  summary.averageResponse,
+                ].map((value, index) => (
+                  <td key={index} className="py-1 pr-4">
+                    {summary.completed > 0 ? time(value) : '—'}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-emerald-700 mt-3">
+            {t('cpu.resultsLegend')}
+          </p>
+        </div>
+
+        <div className="bg-gradient-to-r from-emerald-100 to-teal-100 p-6 rounded-xl shadow-md">
+          <h3 className="text-xl font-semibold text-emerald-900 mb-4">
+            {t('common.about')}
+          </h3>
+          <p className="text-emerald-700">
+            {t(`cpuAlgorithms.${algorithm}.description`)}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import { CpuProcess } from '../engines/cpuScheduling';
+import {
+  MAX_MLFQ_QUANTA,
+  MAX_PROCESSES,
+  MAX_QUANTUM,
+  parseCpuProcessList,
+  parseIntegerInRange,
+  parseIntegerList,
+} from '../engines/input';
+import { useI18n } from '../i18n/context';
+
+export interface CpuValues {
+  processes: CpuProcess[];
+  quantum: number;
+  mlfqQuanta: number[];
+}
+
+const processesToText = (processes: CpuProcess[]) =>
+  processes
+    .map(({ arrival, burst, priority }) => `${arrival} ${burst} ${priority}`)
+    .join('\n');
+
+interface CpuSettingsProps extends CpuValues {
+  onApply: (values: CpuValues) => void;
+}
+
+/**
+ * Painel de configuração do escalonamento de CPU.
+ *
+ * Cada linha da caixa de texto é um processo ("chegada duração
+ * prioridade"). O quantum vale para o Round Robin, e os quanta, para os
+ * níveis do MLFQ.
+ */
+export function CpuSettings({
+  processes,
+  quantum,
+  mlfqQuanta,
+  onApply,
+}: CpuSettingsProps) {
+  const { t } = useI18n();
+  const [processesText, setProcessesText] = useState(
+    processesToText(processes)
+  );
+  const [quantumText, setQuantumText] = useState(String(quantum));
+  const [quantaText, setQuantaText] = useState(mlfqQuanta.join(' '));
+  const [applied, setApplied] = useState<CpuValues>({
+    processes,
+    quantum,
+    mlfqQuanta,
+  });
+
+  // Se a configuração mudar por fora do painel, o rascunho acompanha
+  if (
+    applied.processes !== processes ||
+    applied.quantum !== quantum ||
+    applied.mlfqQuanta !== mlfqQuanta
+  ) {
+    setApplied({ processes, quantum, mlfqQuanta });
+    setProcessesText(processesToText(processes));
+    setQuantumText(String(quantum));
+    setQuantaText(mlfqQuanta.join(' '));
+  }
+
+  const processList = parseCpuProcessList(processesText, MAX_PROCESSES, t);
+  const rrQuantum = parseIntegerInRange(
+    quantumText,
+    t('input.labels.quantum'),
+    1,
+    MAX_QUANTUM,
+    t
+  );
+  const quanta = parseIntegerList(
+    quantaText,
+    t('input.labels.mlfqQuanta'),
+    1,
+    MAX_QUANTUM,
+    t
+  );
+  const quantaFit = !quanta.ok || quanta.value.length <= MAX_MLFQ_QUANTA;
+  const isValid = processList.ok && rrQuantum.ok && quanta.ok && quantaFit;
+
+  const apply = () => {
+    if (!processList.ok || !rrQuantum.ok || !quanta.ok || !isValid) return;
+    onApply({
+      processes: processList.value,
+      quantum: rrQuantum.value,
+      mlfqQuanta: quanta.value,
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <h3 className="text-xl font-semibold text-emerald-900 mb-4">
+        {t('common.settings')}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
+        <label className="md:col-span-2 flex flex-col gap-1 text-emerald-900">
+          <span className="font-semibold">
+            {t('cpu.settings.processes', { max: MAX_PROCESSES })}
+          </span>
+          <textarea
+            value={processesText}
+            onChange={(e) => setProcessesText(e.target.value)}
+            rows={Math.max(3, processesText.split('\n').length)}
+            placeholder={'0 8 2\n1 4 1'}
+            className="px-3 py-2 rounded-lg border border-emerald-200 font-mono"
+          />
+          <span className="text-xs text-emerald-700">
+            {t('cpu.settings.processesHint')}
+          </span>
+          {!processList.ok && (
+            <span className="text-sm text-red-600">{processList.error}</span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-emerald-900">
+          <span className="font-semibold">{t('cpu.settings.quantum')}</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_QUANTUM}
+            value={quantumText}
+            onChange={(e) => setQuantumText(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-emerald-200"
+          />
+          {!rrQuantum.ok && (
+            <span className="text-sm text-red-600">{rrQuantum.error}</span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-emerald-900">
+          <span className="font-semibold">{t('cpu.settings.mlfqQuanta')}</span>
+          <input
+            type="text"
+            value={quantaText}
+            onChange={(e) => setQuantaText(e.target.value)}
+            placeholder="2 4"
+            className="px-3 py-2 rounded-lg border border-emerald-200"
+          />
+          <span className="text-xs text-emerald-700">
+            {t('cpu.settings.mlfqHint', { max: MAX_MLFQ_QUANTA })}
+          </span>
+          {!quanta.ok && (
+            <span className="text-sm text-red-600">{quanta.error}</span>
+          )}
+          {!quantaFit && (
+            <span className="text-sm text-red-600">
+              {t('cpu.settings.tooManyLevels', { max: MAX_MLFQ_QUANTA })}
+            </span>
+          )}
+        </label>
+      </div>
+      <div className="mt-4 flex flex-wrap gap-4">
+        <button
+          onClick={apply}
+          disabled={!isValid}
+          className="flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-emerald-600 to-teal-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Check size={20} />
+          {t('common.apply')}
+        </button>
+      </div>
+    </div>
+  );
+}
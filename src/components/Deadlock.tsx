@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { InfoTooltip } from './InfoTooltip';
+import { BankerPanel } from './BankerPanel';
+import { GraphPanel } from './GraphPanel';
+import { useI18n } from '../i18n/context';
+
+const MODES = ['banker', 'graph'] as const;
+type Mode = (typeof MODES)[number];
+
+/**
+ * Seção de deadlocks: prevenção com o algoritmo do banqueiro e detecção
+ * com o grafo de alocação de recursos, cada um em sua aba.
+ */
+export function Deadlock() {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<Mode>('banker');
+
+  return (
+    <div className="bg-gradient-to-br from-rose-500 to-red-600 min-h-screen p-8">
+      <div className="max-w-6xl mx-auto bg-white/90 backdrop-blur-lg rounded-2xl shadow-2xl p-8">
+        <div className="flex justify-between items-center mb-8">
+          <h2 className="text-3xl font-bold text-rose-900">
+            {t(`deadlock.titles.${mode}`)}
+          </h2>
+          <InfoTooltip
+            title={t('deadlock.tooltipTitle')}
+            content={t('deadlock.tooltipContent')}
+          />
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-4 mb-8">
+          {MODES.map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-6 py-3 rounded-xl font-semibold transition-all transform hover:scale-105 ${
+                mode === option
+                  ? 'bg-gradient-to-r from-rose-600 to-red-600 text-white shadow-lg'
+                  : 'bg-white text-rose-700 hover:bg-rose-50 shadow-md'
+              }`}
+            >
+              {t(`deadlock.modes.${option}`)}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'banker' ? <BankerPanel /> : <GraphPanel />}
+      </div>
+    </div>
+  );
+}
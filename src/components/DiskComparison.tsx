@@ -0,0 +1,305 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { BarChart } from './BarChart';
+import { PlaybackControls } from './PlaybackControls';
+import { useI18n } from '../i18n/context';
+import { AT_MOST_ONE_DECIMAL, ONE_DECIMAL } from '../i18n/translate';
+import {
+  DISK_ALGORITHMS,
+  Direction,
+  DiskAlgorithm,
+  simulateDiskScheduling,
+  summarizeDiskTrace,
+} from '../engines/diskScheduling';
+import { DiskTimingModel } from '../engines/diskTiming';
+
+interface DiskComparisonProps {
+  requests: number[];
+  arrivals: number[];
+  headSpeed: number;
+  timing: DiskTimingModel | null;
+  sectors: number[];
+  diskSize: number;
+  initialHead: number;
+  direction: Direction;
+  countReturnSweep: boolean;
+  batchSize: number;
+}
+
+/**
+ * Modo de comparação do escalonamento de disco.
+ *
+ * Executa todos os algoritmos sobre a mesma fila e exibe uma tabela de
+ * resultados, gráficos de seek e espera, e a reprodução sincronizada dos
+ * algoritmos escolhidos em faixas paralelas. O componente pai deve trocar a
+ * `key` quando a entrada mudar, para reiniciar a reprodução.
+ */
+export function DiskComparison({
+  requests,
+  arrivals,
+  headSpeed,
+  timing,
+  sectors,
+  diskSize,
+  initialHead,
+  direction,
+  countReturnSweep,
+  batchSize,
+}: DiskComparisonProps) {
+  const { t, formatNumber } = useI18n();
+  const [lanes, setLanes] = useState<DiskAlgorithm[]>([
+    'FCFS',
+    'SSTF',
+    'SCAN',
+    'C-LOOK',
+  ]); // Algoritmos exibidos nas faixas
+  const [currentStep, setCurrentStep] = useState(0); // Movimento compartilhado por todas as faixas
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1); // Multiplicador da velocidade de reprodução
+
+  const traces = useMemo(
+    () =>
+      DISK_ALGORITHMS.map((algorithm) =>
+        simulateDiskScheduling(requests, {
+          algorithm,
+          diskSize,
+          initialHead,
+          direction,
+          countReturnSweep,
+          batchSize,
+          arrivals,
+          headSpeed,
+          timing,
+          sectors,
+        })
+      ),
+    [
+      requests,
+      arrivals,
+      headSpeed,
+      timing,
+      sectors,
+      diskSize,
+      initialHead,
+      direction,
+      countReturnSweep,
+      batchSize,
+    ]
+  );
+  const summaries = traces.map(summarizeDiskTrace);
+  const lowestSeek = Math.min(...summaries.map((s) => s.totalSeek));
+  // As faixas terminam em momentos diferentes; a reprodução vai até a mais longa
+  const longest = Math.max(
+    0,
+    ...lanes.map((a) => traces[DISK_ALGORITHMS.indexOf(a)].steps.length)
+  );
+
+  const handleNext = useCallback(() => {
+    if (currentStep < longest) {
+      setCurrentStep((prev) => prev + 1);
+    } else {
+      setIsPlaying(false);
+    }
+  }, [currentStep, longest]);
+
+  const reset = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+  };
+
+  // Leva todas as faixas a um passo qualquer (linha do tempo, início e fim)
+  const jumpTo = (step: number) => {
+    setCurrentStep(step);
+    setIsPlaying(false);
+  };
+
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    if (isPlaying) {
+      timeout = setTimeout(handleNext, 1000 / speed);
+    }
+    return () => clearTimeout(timeout);
+  }, [isPlaying, handleNext, speed]);
+
+  const toggleLane = (algorithm: DiskAlgorithm) =>
+    setLanes((prev) =>
+      prev.includes(algorithm)
+        ? prev.filter((a) => a !== algorithm)
+        : DISK_ALGORITHMS.filter((a) => a === algorithm || prev.includes(a))
+    );
+
+  return (
+    <div className="space-y-8">
+      {/* Tabela de resultados */}
+      <div className="bg-white p-6 rounded-xl shadow-md overflow-x-auto">
+        <table className="w-full text-left text-purple-900">
+          <thead>
+            <tr className="border-b border-purple-100">
+              <th className="py-2 pr-4">{t('common.algorithm')}</th>
+              <th className="py-2 pr-4">{t('comparison.totalSeek')}</th>
+              <th className="py-2 pr-4">{t('comparison.averageSeek')}</th>
+              <th className="py-2 pr-4">{t('comparison.maxWait')}</th>
+              <th className="py-2 pr-4">{t('comparison.averageResponse')}</th>
+              <th className="py-2 pr-4">{t('comparison.responseVariance')}</th>
+              {timing && (
+                <th className="py-2 pr-4">{t('comparison.totalTime')}</th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {DISK_ALGORITHMS.map((algorithm, i) => (
+              <tr
+                key={algorithm}
+                className={`border-b border-purple-50 ${
+                  summaries[i].totalSeek === lowestSeek
+                    ? 'bg-green-50 font-semibold'
+                    : ''
+                }`}
+              >
+                <td className="py-2 pr-4">{algorithm}</td>
+                <td className="py-2 pr-4">
+                  {formatNumber(summaries[i].totalSeek)}
+                </td>
+                <td className="py-2 pr-4">
+                  {formatNumber(summaries[i].averageSeek, ONE_DECIMAL)}
+                </td>
+                <td className="py-2 pr-4">
+                  {formatNumber(summaries[i].maxWait)}
+                </td>
+                <td className="py-2 pr-4">
+                  {formatNumber(
+                    summaries[i].averageResponse,
+                    AT_MOST_ONE_DECIMAL
+                  )}
+                </td>
+                <td className="py-2 pr-4">
+                  {formatNumber(
+                    summaries[i].responseVariance,
+                    AT_MOST_ONE_DECIMAL
+                  )}
+                </td>
+                {timing && (
+                  <td className="py-2 pr-4">
+                    {formatNumber(
+                      summaries[i].totalSeekTime +
+                        summaries[i].totalLatency +
+                        summaries[i].totalTransfer,
+                      { maximumFractionDigits: 2 }
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-sm text-purple-700 mt-2">
+          {t('comparison.waitNote')}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <BarChart
+          title={t('comparison.seekChart')}
+          data={DISK_ALGORITHMS.map((algorithm, i) => ({
+            label: algorithm,
+            value: summaries[i].totalSeek,
+          }))}
+          color="#9333ea"
+          formatValue={(v) => formatNumber(v)}
+          highlightMin
+        />
+        <BarChart
+          title={t('comparison.waitChart')}
+          data={DISK_ALGORITHMS.map((algorithm, i) => ({
+            label: algorithm,
+            value: summaries[i].maxWait,
+          }))}
+          color="#2563eb"
+          formatValue={(v) => formatNumber(v)}
+          highlightMin
+        />
+      </div>
+
+      {/* Reprodução sincronizada */}
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h3 className="text-xl font-semibold text-purple-900">
+            {t('comparison.diskPlayback', {
+              step: currentStep,
+              total: longest,
+            })}
+          </h3>
+        </div>
+
+        <PlaybackControls
+          currentStep={currentStep}
+          totalSteps={longest}
+          isPlaying={isPlaying}
+          speed={speed}
+          theme="purple"
+          onTogglePlay={() => setIsPlaying(!isPlaying)}
+          onNext={handleNext}
+          onSeek={jumpTo}
+          onReset={reset}
+          onSpeedChange={setSpeed}
+        />
+
+        <div className="flex flex-wrap gap-3 mb-4 text-sm text-purple-900">
+          {DISK_ALGORITHMS.map((algorithm) => (
+            <label key={algorithm} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={lanes.includes(algorithm)}
+                onChange={() => toggleLane(algorithm)}
+                className="accent-purple-600"
+              />
+              {algorithm}
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          {lanes.map((algorithm) => {
+            const trace = traces[DISK_ALGORITHMS.indexOf(algorithm)];
+            const step =
+              currentStep > 0
+                ? trace.steps[Math.min(currentStep, trace.steps.length) - 1]
+                : undefined;
+            const head = step ? step.to : initialHead;
+            const time = step ? step.time : 0;
+            return (
+              <div
+                key={algorithm}
+                className="flex items-center gap-4 p-3 rounded-lg bg-purple-50"
+              >
+                <span className="w-28 font-semibold text-purple-900">
+                  {algorithm}
+                </span>
+                <div className="relative flex-1 h-8 bg-gradient-to-r from-purple-100 to-blue-100 rounded-lg">
+                  {requests.map(
+                    (position, index) =>
+                      arrivals[index] <= time && (
+                        <div
+                          key={index}
+                          className={`absolute w-2 h-4 top-2 rounded ${
+                            step?.served[index] ? 'bg-green-500' : 'bg-red-500'
+                          }`}
+                          style={{ left: `${(position / diskSize) * 100}%` }}
+                        />
+                      )
+                  )}
+                  <div
+                    className="absolute w-3 h-8 bg-gradient-to-r from-purple-600 to-blue-600 rounded transition-all duration-500"
+                    style={{ left: `${(head / diskSize) * 100}%` }}
+                  />
+                </div>
+                <span className="w-28 text-sm text-purple-700">
+                  {t('comparison.seek', { count: step ? step.totalSeek : 0 })}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
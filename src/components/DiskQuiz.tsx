@@ -0,0 +1,257 @@
+import { useMemo, useState } from 'react';
+import { CheckCircle2, RefreshCw, XCircle } from 'lucide-react';
+import { Direction, DiskTrace } from '../engines/diskScheduling';
+import { describeDiskService } from '../engines/narration';
+import {
+  DiskQuestionResult,
+  diskQuestions,
+  gradeDiskAnswer,
+  quizScore,
+} from '../engines/quiz';
+import { useI18n } from '../i18n/context';
+import { RichText } from '../i18n/RichText';
+
+interface DiskQuizProps {
+  trace: DiskTrace;
+  direction: Direction; // Direção inicial do cabeçote
+}
+
+/**
+ * Modo de exercício do escalonamento de disco.
+ *
+ * A simulação para antes de cada atendimento: o aluno escolhe, entre as
+ * requisições pendentes, o próximo cilindro que o cabeçote vai atender.
+ * Ao final, mostra a nota e a revisão de cada pergunta. O componente pai
+ * deve trocar a `key` quando a entrada mudar.
+ */
+export function DiskQuiz({ trace, direction }: DiskQuizProps) {
+  const { t, formatNumber } = useI18n();
+  const [results, setResults] = useState<DiskQuestionResult[]>([]); // Perguntas já respondidas
+  const [answer, setAnswer] = useState<number | null>(null); // Cilindro escolhido
+  const [showFeedback, setShowFeedback] = useState(false); // Exibindo a correção da última resposta?
+
+  const { algorithm, requests, arrivals, initialHead, diskSize } = trace;
+  const questions = useMemo(() => diskQuestions(trace), [trace]);
+  const index = showFeedback ? results.length - 1 : results.length;
+  const finished = !showFeedback && results.length === questions.length;
+  const question = questions[index];
+
+  // Estado do disco antes da pergunta (ou depois, durante a correção)
+  const stateAt = (count: number) => {
+    if (count === 0) {
+      return {
+        head: initialHead,
+        headDirection: direction,
+        served: requests.map(() => false),
+      };
+    }
+    const moves = questions[count - 1].moves;
+    const last = moves[moves.length - 1];
+    return {
+      head: last.to,
+      headDirection: last.direction,
+      served: last.served,
+    };
+  };
+  const { head, headDirection, served } = stateAt(
+    showFeedback ? index + 1 : index
+  );
+  const before = stateAt(index);
+  // Só entram nas opções as requisições que já chegaram no momento da decisão
+  const decidedAt = question ? question.moves[0].start : 0;
+  const pending = Array.from(
+    new Set(
+      requests.filter((_, i) => !before.served[i] && arrivals[i] <= decidedAt)
+    )
+  ).sort((a, b) => a - b);
+  const lastResult = results[results.length - 1];
+
+  const submit = () => {
+    if (answer === null) return;
+    setResults((prev) => [...prev, gradeDiskAnswer(question, answer)]);
+    setShowFeedback(true);
+  };
+
+  const next = () => {
+    setShowFeedback(false);
+    setAnswer(null);
+  };
+
+  const restart = () => {
+    setResults([]);
+    next();
+  };
+
+  const choiceClass = (selected: boolean) =>
+    `px-4 py-2 rounded-lg transition-all font-mono ${
+      selected
+        ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-lg'
+        : 'bg-white text-purple-700 hover:bg-purple-50 shadow-md'
+    }`;
+
+  if (finished) {
+    const score = quizScore(results);
+    return (
+      <div className="space-y-8">
+        <div className="bg-gradient-to-r from-purple-100 to-blue-100 p-6 rounded-xl shadow-md text-center">
+          <p className="text-lg font-semibold text-purple-900 mb-2">
+            {t('quiz.result', { algorithm })}
+          </p>
+          <p className="text-4xl font-bold text-purple-700">
+            {score.correct} / {score.total}
+          </p>
+          <p className="text-purple-700">
+            {t('quiz.percent', {
+              percent: formatNumber(score.percent / 100, { style: 'percent' }),
+            })}
+          </p>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-md overflow-x-auto">
+          <h3 className="text-xl font-semibold text-purple-900 mb-4">
+            {t('quiz.review')}
+          </h3>
+          <table className="w-full text-left text-purple-900">
+            <thead>
+              <tr className="border-b border-purple-100">
+                <th className="py-2 pr-4">{t('quiz.question')}</th>
+                <th className="py-2 pr-4">{t('quiz.headAt')}</th>
+                <th className="py-2 pr-4">{t('quiz.yourAnswer')}</th>
+                <th className="py-2 pr-4">{t('quiz.correctAnswer')}</th>
+                <th className="py-2 pr-4">{t('quiz.outcome')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((result, i) => (
+                <tr key={i} className="border-b border-purple-50 last:border-0">
+                  <td className="py-2 pr-4">{i + 1}</td>
+                  <td className="py-2 pr-4">{stateAt(i).head}</td>
+                  <td className="py-2 pr-4">{result.answer}</td>
+                  <td className="py-2 pr-4">{result.expected}</td>
+                  <td className="py-2 pr-4">
+                    {result.correct ? (
+                      <CheckCircle2 className="text-green-600" size={20} />
+                    ) : (
+                      <XCircle className="text-red-600" size={20} />
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-center">
+          <button onClick={restart} className={choiceClass(true)}>
+            <span className="flex items-center gap-2 font-sans">
+              <RefreshCw size={18} />
+              {t('quiz.restart')}
+            </span>
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Disco com o cabeçote e as requisições pendentes */}
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <p className="text-purple-900 font-semibold mb-3">
+          {t('quiz.progress', {
+            current: index + 1,
+            total: questions.length,
+            correct: quizScore(results).correct,
+          })}
+        </p>
+        <div className="relative h-12 bg-gradient-to-r from-purple-100 to-blue-100 rounded-lg mb-2">
+          <div
+            className="absolute w-6 h-12 bg-gradient-to-r from-purple-600 to-blue-600 transition-all duration-500 rounded-lg shadow-lg"
+            style={{ left: `${(head / diskSize) * 100}%` }}
+          />
+          {requests.map((position, i) => (
+            <div
+              key={i}
+              className={`absolute w-4 h-8 rounded-lg ${
+                served[i]
+                  ? 'bg-gradient-to-r from-green-400 to-green-600'
+                  : 'bg-gradient-to-r from-red-400 to-red-600'
+              }`}
+              style={{
+                left: `${(position / diskSize) * 100}%`,
+                top: '12px',
+                marginLeft: '4px',
+              }}
+            />
+          ))}
+        </div>
+        <p className="text-center text-sm text-purple-700">
+          {t('quiz.headPosition', {
+            head,
+            arrow: headDirection === 'up' ? '→' : '←',
+          })}
+        </p>
+      </div>
+
+      {showFeedback ? (
+        <div
+          className={`p-6 rounded-xl shadow-md ${
+            lastResult.correct
+              ? 'bg-green-50 text-green-900'
+              : 'bg-red-50 text-red-900'
+          }`}
+        >
+          <p className="flex items-center gap-2 text-lg font-semibold mb-2">
+            {lastResult.correct ? <CheckCircle2 /> : <XCircle />}
+            {lastResult.correct
+              ? t('quiz.correct')
+              : t('quiz.incorrect', {
+                  answer: t('quiz.cylinderAnswer', {
+                    cylinder: lastResult.expected,
+                  }),
+                })}
+          </p>
+          <p className="mb-4">
+            {describeDiskService(algorithm, question.moves, requests, t)}
+          </p>
+          <button onClick={next} className={choiceClass(true)}>
+            <span className="font-sans">
+              {t(
+                results.length === questions.length
+                  ? 'quiz.seeResult'
+                  : 'quiz.next'
+              )}
+            </span>
+          </button>
+        </div>
+      ) : (
+        <div className="bg-gradient-to-r from-purple-100 to-blue-100 p-6 rounded-xl shadow-md space-y-4 text-purple-900">
+          <p className="text-lg">
+            <RichText
+              text={t('quiz.diskQuestion')}
+              values={{ algorithm: <strong>{algorithm}</strong> }}
+            />
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {pending.map((cylinder) => (
+              <button
+                key={cylinder}
+                onClick={() => setAnswer(cylinder)}
+                className={choiceClass(answer === cylinder)}
+              >
+                {cylinder}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={submit}
+            disabled={answer === null}
+            className="px-6 py-2 rounded-xl bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('quiz.submit')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { ReportTable, ReportView } from './ReportView';
+import { diskTraceRows } from '../engines/csv';
+import {
+  DISK_ALGORITHMS,
+  Direction,
+  simulateDiskScheduling,
+  summarizeDiskTrace,
+} from '../engines/diskScheduling';
+import { DiskTimingModel } from '../engines/diskTiming';
+import { useI18n } from '../i18n/context';
+import { AT_MOST_ONE_DECIMAL, ONE_DECIMAL } from '../i18n/translate';
+
+interface DiskReportProps {
+  requests: number[];
+  arrivals: number[];
+  headSpeed: number;
+  timing: DiskTimingModel | null;
+  sectors: number[];
+  diskSize: number;
+  initialHead: number;
+  direction: Direction;
+  countReturnSweep: boolean;
+  batchSize: number;
+  onClose: () => void;
+}
+
+/**
+ * Relatório imprimível do escalonamento de disco: entradas, totais de
+ * todos os algoritmos e a ordem de atendimento de cada um, com as
+ * distâncias percorridas.
+ */
+export function DiskReport({ onClose, ...config }: DiskReportProps) {
+  const { t, formatNumber } = useI18n();
+  const { requests, arrivals, timing, diskSize, initialHead, direction } =
+    config;
+  const unit = t(timing ? 'disk.units.ms' : 'disk.units.ticks');
+  const ms = (value: number) =>
+    formatNumber(value, { maximumFractionDigits: 2 });
+  const traces = DISK_ALGORITHMS.map((algorithm) =>
+    simulateDiskScheduling(requests, { ...config, algorithm })
+  );
+
+  return (
+    <ReportView title={t('report.diskTitle')} onClose={onClose}>
+      <section>
+        <h2 className="text-xl font-semibold mb-2">{t('report.inputs')}</h2>
+        <p>
+          <strong>{t('report.requests')}</strong> {requests.join(' ')}
+        </p>
+        <p>
+          <strong>{t('report.arrivals', { unit })}</strong> {arrivals.join(' ')}
+        </p>
+        <p>
+          <strong>{t('report.cylinders')}</strong> 0–{diskSize - 1}
+        </p>
+        <p>
+          <strong>{t('report.initialHead')}</strong> {initialHead} (
+          {t(direction === 'up' ? 'common.up' : 'common.down')})
+        </p>
+        <p>
+          <strong>{t('report.returnSweep')}</strong>{' '}
+          {t(config.countReturnSweep ? 'common.yes' : 'common.no')};{' '}
+          <strong>{t('report.batchSize')}</strong> {config.batchSize}
+        </p>
+        <p>
+          <strong>{t('report.headSpeed')}</strong>{' '}
+          {t('report.cylindersPerTick', { speed: config.headSpeed })}
+        </p>
+        <p>
+          <strong>{t('report.timing')}</strong>{' '}
+          {timing
+            ? t('report.timingValue', {
+                rpm: timing.rpm,
+                settle: formatNumber(timing.settleTime),
+                factor: formatNumber(timing.seekFactor),
+                sectors: timing.sectorsPerTrack,
+              })
+            : t('report.timingOff')}
+        </p>
+      </section>
+
+      <section>
+        <h2 className="text-xl font-semibold mb-2">{t('report.totals')}</h2>
+        <ReportTable
+          rows={[
+            [
+              t('common.algorithm'),
+              t('disk.totalSeek'),
+              t('report.averageSeek'),
+              t('report.maxWait'),
+              t('report.averageResponse'),
+              t('report.responseVariance'),
+              ...(timing ? [t('report.totalTime')] : []),
+            ],
+            ...traces.map((trace) => {
+              const {
+                totalSeek,
+                averageSeek,
+                maxWait,
+                averageResponse,
+                responseVariance,
+                totalSeekTime,
+                totalLatency,
+                totalTransfer,
+              } = summarizeDiskTrace(trace);
+              return [
+                trace.algorithm,
+                formatNumber(totalSeek),
+                formatNumber(averageSeek, ONE_DECIMAL),
+                formatNumber(maxWait),
+                formatNumber(averageResponse, AT_MOST_ONE_DECIMAL),
+                formatNumber(responseVariance, AT_MOST_ONE_DECIMAL),
+                ...(timing
+                  ? [ms(totalSeekTime + totalLatency + totalTransfer)]
+                  : []),
+              ];
+            }),
+          ]}
+        />
+      </section>
+
+      {traces.map((trace) => (
+        <section key={trace.algorithm} className="break-inside-avoid">
+          <h2 className="text-xl font-semibold mb-2">
+            {t('report.diskSection', {
+              algorithm: trace.algorithm,
+              seek: formatNumber(trace.totalSeek),
+            })}
+          </h2>
+          <ReportTable rows={diskTraceRows(trace, t)} />
+        </section>
+      ))}
+    </ReportView>
+  );
+}
@@ -0,0 +1,149 @@
+import {
+  DiskTrace,
+  starvingRequests,
+  summarizeDiskTrace,
+} from '../engines/diskScheduling';
+import { useI18n } from '../i18n/context';
+import { AT_MOST_ONE_DECIMAL } from '../i18n/translate';
+
+interface DiskRequestMetricsProps {
+  trace: DiskTrace;
+  currentStep: number; // Quantos movimentos já foram exibidos (0 = nenhum)
+  unit: string; // Unidade do relógio (ticks ou ms), já traduzida
+  starvationLimit: number; // Espera, na unidade do relógio, a partir da qual há inanição
+  onStarvationLimitChange: (limit: number) => void;
+}
+
+/**
+ * Métricas de tempo de cada requisição: chegada, instante de atendimento,
+ * espera e resposta, com as médias e a variância do trace completo.
+ *
+ * Até o passo exibido, as requisições ainda na fila mostram a espera
+ * acumulada; as que passam do limite são destacadas como em inanição.
+ */
+export function DiskRequestMetrics({
+  trace,
+  currentStep,
+  unit,
+  starvationLimit,
+  onStarvationLimitChange,
+}: DiskRequestMetricsProps) {
+  const { t, formatNumber } = useI18n();
+  const { requests, arrivals, steps } = trace;
+  const summary = summarizeDiskTrace(trace);
+  const current = currentStep > 0 ? steps[currentStep - 1] : null;
+  const now = current ? current.time : 0;
+  const served = current ? current.served : requests.map(() => false);
+  const starving = starvingRequests(trace, served, now, starvationLimit);
+  const servedAt = requests.map(
+    (_, i) => steps.find((s) => s.requestIndex === i)?.time ?? 0
+  );
+  const ticks = (value: number) => formatNumber(value, AT_MOST_ONE_DECIMAL);
+
+  const totals = [
+    ['disk.metrics.averageWaiting', summary.averageWaiting],
+    ['disk.metrics.averageResponse', summary.averageResponse],
+    ['disk.metrics.variance', summary.responseVariance],
+    ['disk.metrics.maxResponse', summary.maxResponse],
+  ] as const;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8 overflow-x-auto">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-semibold text-purple-900">
+          {t('disk.metrics.title')}
+        </h3>
+        <label className="flex items-center gap-2 text-purple-900">
+          <span className="text-sm font-semibold">
+            {t('disk.metrics.starvationLimit', { unit })}
+          </span>
+          <input
+            type="number"
+            min={1}
+            value={starvationLimit}
+            onChange={(e) =>
+              onStarvationLimitChange(
+                Math.max(1, Math.floor(Number(e.target.value)) || 1)
+              )
+            }
+            className="w-24 px-3 py-2 rounded-lg border border-purple-200"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        {totals.map(([key, value]) => (
+          <div
+            key={key}
+            className="bg-gradient-to-r from-purple-100 to-blue-100 p-4 rounded-xl"
+          >
+            <p className="text-sm font-semibold text-purple-900">{t(key)}</p>
+            <p className="text-2xl font-bold text-purple-700">{ticks(value)}</p>
+          </div>
+        ))}
+      </div>
+
+      <table className="w-full text-left text-sm text-purple-900">
+        <thead>
+          <tr className="border-b border-purple-100">
+            <th className="py-2 pr-4">{t('disk.metrics.request')}</th>
+            <th className="py-2 pr-4">{t('disk.metrics.cylinder')}</th>
+            <th className="py-2 pr-4">{t('disk.metrics.arrival')}</th>
+            <th className="py-2 pr-4">{t('disk.metrics.servedAt')}</th>
+            <th className="py-2 pr-4">{t('disk.metrics.waiting')}</th>
+            <th className="py-2 pr-4">{t('disk.metrics.response')}</th>
+            <th className="py-2 pr-4">{t('disk.metrics.status')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {requests.map((cylinder, i) => {
+            const arrived = arrivals[i] <= now;
+            return (
+              <tr
+                key={i}
+                className={`border-b border-purple-50 ${
+                  starving[i]
+                    ? 'bg-orange-50 text-orange-800 font-semibold'
+                    : !arrived
+                    ? 'text-purple-300'
+                    : ''
+                }`}
+              >
+                <td className="py-1 pr-4">#{i + 1}</td>
+                <td className="py-1 pr-4">{cylinder}</td>
+                <td className="py-1 pr-4">{ticks(arrivals[i])}</td>
+                <td className="py-1 pr-4">
+                  {served[i] ? ticks(servedAt[i]) : '—'}
+                </td>
+                <td className="py-1 pr-4">
+                  {served[i]
+                    ? ticks(summary.waitingTimes[i])
+                    : arrived
+                    ? ticks(now - arrivals[i])
+                    : '—'}
+                </td>
+                <td className="py-1 pr-4">
+                  {served[i] ? ticks(summary.responseTimes[i]) : '—'}
+                </td>
+                <td className="py-1 pr-4">
+                  {t(
+                    served[i]
+                      ? 'disk.metrics.served'
+                      : starving[i]
+                      ? 'disk.metrics.starving'
+                      : arrived
+                      ? 'disk.metrics.queued'
+                      : 'disk.metrics.notArrived'
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-sm text-purple-700 mt-2">
+        {t('disk.metrics.note', { unit })}
+      </p>
+    </div>
+  );
+}
@@ -1,15 +1,80 @@
-import React, { useState, useEffect } from 'react';
-import { Play, Pause, RefreshCw } from 'lucide-react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { InfoTooltip } from './InfoTooltip';
+import { PlaybackControls } from './PlaybackControls';
+import { DiskSettings } from './DiskSettings';
+import { DiskComparison } from './DiskComparison';
+import { SeekPathChart } from './SeekPathChart';
+import { ScenarioActions } from './ScenarioActions';
+import { DiskReport } from './DiskReport';
+import { DiskQuiz } from './DiskQuiz';
+import { DiskRequestMetrics } from './DiskRequestMetrics';
+import { DiskTimingSettings } from './DiskTimingSettings';
+import { TraceFileLoader } from './TraceFileLoader';
+import { TraceSummary } from './TraceSummary';
+import {
+  CIRCULAR_ALGORITHMS,
+  DISK_ALGORITHMS,
+  Direction,
+  DiskAlgorithm,
+  simulateDiskScheduling,
+  starvingRequests,
+} from '../engines/diskScheduling';
+import { DEFAULT_DISK_TIMING, DiskTimingModel } from '../engines/diskTiming';
+import { MAX_ARRIVAL } from '../engines/input';
+import type { TraceResult } from '../utils/traceWorker';
+import { useI18n } from '../i18n/context';
+import { AT_MOST_ONE_DECIMAL } from '../i18n/translate';
+import {
+  DiskScenario,
+  mergeHash,
+  scenarioFromHash,
+  scenarioToHashParams,
+} from '../engines/scenario';
 
-/**
- * Interface que representa uma requisição de disco.
- * - `position`: A posição no disco onde a requisição está localizada.
- * - `isServed`: Indica se a requisição já foi atendida.
- */
-interface Request {
-  position: number;
-  isServed: boolean;
+type Mode = 'simulation' | 'quiz' | 'comparison';
+
+const MODES: Mode[] = ['simulation', 'quiz', 'comparison'];
+
+// Cenário inicial quando a URL não traz um
+const DEFAULT_SCENARIO: DiskScenario = {
+  kind: 'disk',
+  algorithm: 'FCFS',
+  diskSize: 200,
+  initialHead: 50,
+  direction: 'up',
+  countReturnSweep: true,
+  batchSize: 4,
+  requests: [98, 183, 37, 122, 14, 124, 65, 67],
+  arrivals: [0, 0, 0, 0, 0, 0, 0, 0],
+  headSpeed: 1,
+  timing: false,
+  ...DEFAULT_DISK_TIMING,
+  sectors: [5, 12, 30, 2, 18, 25, 9, 14],
+  step: 0,
+};
+
+// Espera padrão para a inanição em cada unidade do relógio: em ticks, uma
+// travessia completa do disco padrão; em ms, cerca de uma dúzia de acessos
+// com o modelo de tempo padrão
+const DEFAULT_STARVATION_LIMITS = { ticks: 200, ms: 100 };
+
+// Situações de uma requisição no disco, na ordem da legenda
+const REQUEST_STATES = ['pending', 'starving', 'served'] as const;
+
+// Cor e símbolo de cada situação: o símbolo não depende de distinguir cores
+const REQUEST_STYLES = {
+  pending: 'bg-gradient-to-r from-red-400 to-red-600',
+  starving: 'bg-gradient-to-r from-orange-400 to-orange-600 animate-pulse',
+  served: 'bg-gradient-to-r from-green-400 to-green-600',
+};
+const REQUEST_SYMBOLS = { pending: '•', starving: '!', served: '✓' };
+
+// Lê o cenário do hash da URL; hashes inválidos são ignorados
+function initialScenario(): DiskScenario {
+  const result = scenarioFromHash(window.location.hash, 'disk');
+  return result?.ok && result.value.kind === 'disk'
+    ? result.value
+    : DEFAULT_SCENARIO;
 }
 
 /**
@@ -18,117 +83,261 @@ interface Request {
  * Este componente implementa uma visualização interativa dos algoritmos de escalonamento de disco:
  * - FCFS (First Come, First Served)
  * - SSTF (Shortest Seek Time First)
- * - SCAN (Elevator Algorithm)
+ * - SCAN (Elevator Algorithm) e LOOK
+ * - C-SCAN e C-LOOK (variantes circulares)
+ * - N-step SCAN e FSCAN (variantes em lotes)
+ * - SPTF (menor tempo de posicionamento, com o modelo de tempo)
  *
  * Cada algoritmo tem sua própria estratégia para minimizar o tempo de busca total.
+ * A ordem de atendimento é calculada pelo motor em `engines/diskScheduling`;
+ * o componente apenas percorre o trace resultante. As requisições podem
+ * chegar ao longo do tempo: só aparecem no disco depois de chegar, e as que
+ * esperam além do limite são destacadas como em inanição.
  */
 export function DiskScheduling() {
+  const { t, formatNumber } = useI18n();
+
   // Estados do componente
-  const [requests, setRequests] = useState<Request[]>([
-    { position: 98, isServed: false },
-    { position: 183, isServed: false },
-    { position: 37, isServed: false },
-    { position: 122, isServed: false },
-    { position: 14, isServed: false },
-    { position: 124, isServed: false },
-    { position: 65, isServed: false },
-    { position: 67, isServed: false },
-  ]);
-  const [headPosition, setHeadPosition] = useState(50); // Posição inicial do cabeçote
-  const [algorithm, setAlgorithm] = useState<'FCFS' | 'SSTF' | 'SCAN'>('FCFS'); // Algoritmo selecionado
+  const [initial] = useState(initialScenario); // Cenário aberto pela URL
+  const [requests, setRequests] = useState<number[]>(initial.requests); // Cilindros requisitados, em ordem de chegada
+  const [arrivals, setArrivals] = useState<number[]>(initial.arrivals); // Instante de chegada de cada requisição
+  const [algorithm, setAlgorithm] = useState<DiskAlgorithm>(initial.algorithm); // Algoritmo selecionado
   const [isPlaying, setIsPlaying] = useState(false); // Estado de reprodução (play/pause)
-  const [direction, setDirection] = useState<'up' | 'down'>('up'); // Direção do cabeçote (SCAN)
-  const [totalSeekTime, setTotalSeekTime] = useState(0); // Tempo total de busca
+  const [mode, setMode] = useState<Mode>('simulation'); // Simulação, exercício ou comparação de todos
+  const [currentStep, setCurrentStep] = useState(initial.step); // Quantos movimentos do trace já foram exibidos
+  const [direction, setDirection] = useState<Direction>(initial.direction); // Direção inicial das varreduras
+  const [countReturnSweep, setCountReturnSweep] = useState(
+    initial.countReturnSweep
+  ); // Retorno do C-SCAN/C-LOOK entra no seek?
+  const [batchSize, setBatchSize] = useState(initial.batchSize); // Tamanho dos lotes do N-step SCAN
+  const [speed, setSpeed] = useState(1); // Multiplicador da velocidade de reprodução
+  const [showReport, setShowReport] = useState(false); // Relatório imprimível aberto?
 
-  const diskSize = 200; // Tamanho total do disco
+  const [diskSize, setDiskSize] = useState(initial.diskSize); // Tamanho total do disco
+  const [initialHead, setInitialHead] = useState(initial.initialHead); // Posição inicial do cabeçote
+  const [headSpeed, setHeadSpeed] = useState(initial.headSpeed); // Cilindros percorridos por tick
+  const [timingEnabled, setTimingEnabled] = useState(initial.timing); // Modelo de tempo ligado (relógio em ms)?
+  const [timingModel, setTimingModel] = useState<DiskTimingModel>({
+    rpm: initial.rpm,
+    settleTime: initial.settleTime,
+    seekFactor: initial.seekFactor,
+    sectorsPerTrack: initial.sectorsPerTrack,
+  }); // Rotação, curva de busca e setores por trilha
+  const [sectors, setSectors] = useState<number[]>(initial.sectors); // Setor de cada requisição
+  const [starvationLimits, setStarvationLimits] = useState(
+    DEFAULT_STARVATION_LIMITS
+  ); // Espera a partir da qual uma requisição está em inanição, uma por unidade do relógio
+  const [largeTrace, setLargeTrace] = useState<TraceResult | null>(null); // Trace longo exibido como resumo
+
+  const timing = timingEnabled ? timingModel : null;
+  const clockUnit = timing ? 'ms' : 'ticks';
+  const unit = t(`disk.units.${clockUnit}`);
+  const starvationLimit = starvationLimits[clockUnit];
+
+  // Trace completo calculado pelo motor
+  const trace = useMemo(
+    () =>
+      simulateDiskScheduling(requests, {
+        algorithm,
+        diskSize,
+        initialHead,
+        direction,
+        countReturnSweep,
+        batchSize,
+        arrivals,
+        headSpeed,
+        timing,
+        sectors,
+      }),
+    [
+      requests,
+      algorithm,
+      diskSize,
+      initialHead,
+      direction,
+      countReturnSweep,
+      batchSize,
+      arrivals,
+      headSpeed,
+      timing,
+      sectors,
+    ]
+  );
+  const current = currentStep > 0 ? trace.steps[currentStep - 1] : null;
+  const headPosition = current ? current.to : initialHead;
+  const totalSeekTime = current ? current.totalSeek : 0;
+  const served = current ? current.served : requests.map(() => false);
+  const headDirection = current ? current.direction : direction;
+  const clock = current ? current.time : 0;
+  const starving = starvingRequests(trace, served, clock, starvationLimit);
+  // Último movimento descrito em texto, para o anúncio aos leitores de tela
+  const announcement = current
+    ? current.requestIndex !== null
+      ? t('disk.announce.service', {
+          from: current.from,
+          to: current.to,
+          request: current.requestIndex + 1,
+          total: current.totalSeek,
+        })
+      : t(current.isReturn ? 'disk.announce.return' : 'disk.announce.edge', {
+          from: current.from,
+          to: current.to,
+        })
+    : '';
+  // Parcelas do tempo de acesso acumuladas até o passo exibido
+  const elapsed = trace.steps.slice(0, currentStep).reduce(
+    (sum, step) => ({
+      seek: sum.seek + step.seekTime,
+      latency: sum.latency + step.rotationalLatency,
+      transfer: sum.transfer + step.transferTime,
+    }),
+    { seek: 0, latency: 0, transfer: 0 }
+  );
+  const ms = (value: number) =>
+    formatNumber(value, { maximumFractionDigits: 2 });
+  // Na comparação, as variantes valem para todos os algoritmos
+  const showReturnOption =
+    mode === 'comparison' || CIRCULAR_ALGORITHMS.includes(algorithm);
+  const showBatchOption = mode === 'comparison' || algorithm === 'N-STEP-SCAN';
 
   /**
    * Função para reiniciar a simulação.
-   * - Reseta as requisições para o estado inicial.
-   * - Volta o cabeçote para a posição inicial.
-   * - Zera o tempo total de busca.
+   * - Volta ao início do trace (cabeçote na posição inicial, nada atendido).
    * - Pausa a simulação.
    */
   const reset = () => {
-    setRequests(requests.map((r) => ({ ...r, isServed: false })));
-    setHeadPosition(50);
-    setTotalSeekTime(0);
+    setCurrentStep(0);
     setIsPlaying(false);
-    setDirection('up');
   };
 
   /**
-   * Função para obter a próxima requisição com base no algoritmo selecionado.
-   * - FCFS: Atende as requisições na ordem de chegada.
-   * - SSTF: Atende a requisição mais próxima da posição atual do cabeçote.
-   * - SCAN: Move o cabeçote em uma direção, atendendo requisições no caminho.
+   * Função para levar a simulação a um passo qualquer do trace.
+   * - Usada pela linha do tempo e pelos botões de voltar/ir ao fim.
+   * - Pausa a simulação.
    */
-  const getNextRequest = () => {
-    switch (algorithm) {
-      case 'FCFS': // Atende as requisições na ordem de chegada
-        return requests.find((r) => !r.isServed);
-      case 'SSTF': // Atende a requisição mais próxima da posição atual
-        return requests
-          .filter((r) => !r.isServed)
-          .reduce((closest, current) => {
-            if (!closest) return current;
-            return Math.abs(current.position - headPosition) <
-              Math.abs(closest.position - headPosition)
-              ? current
-              : closest;
-          }, null as Request | null);
-      case 'SCAN': // Move o cabeçote em uma direção, atendendo requisições no caminho
-        const unservedRequests = requests.filter((r) => !r.isServed);
-        if (direction === 'up') {
-          const nextUp = unservedRequests
-            .filter((r) => r.position >= headPosition)
-            .sort((a, b) => a.position - b.position)[0];
-          if (nextUp) return nextUp;
-          setDirection('down');
-          return unservedRequests
-            .filter((r) => r.position < headPosition)
-            .sort((a, b) => b.position - a.position)[0];
-        } else {
-          const nextDown = unservedRequests
-            .filter((r) => r.position <= headPosition)
-            .sort((a, b) => b.position - a.position)[0];
-          if (nextDown) return nextDown;
-          setDirection('up');
-          return unservedRequests
-            .filter((r) => r.position > headPosition)
-            .sort((a, b) => a.position - b.position)[0];
-        }
-    }
+  const jumpTo = (step: number) => {
+    setCurrentStep(step);
+    setIsPlaying(false);
   };
 
   /**
-   * Função para mover o cabeçote para a próxima requisição.
-   * - Calcula o tempo de busca (seek time) até a próxima requisição.
-   * - Atualiza a posição do cabeçote e marca a requisição como atendida.
+   * Função para mover o cabeçote para a próxima requisição do trace.
    * - Se não houver mais requisições, pausa a simulação.
    */
-  const moveHead = () => {
-    const nextRequest = getNextRequest();
-    if (nextRequest) {
-      const seekTime = Math.abs(nextRequest.position - headPosition);
-      setTotalSeekTime((prev) => prev + seekTime);
-      setHeadPosition(nextRequest.position);
-      setRequests(
-        requests.map((r) => (r === nextRequest ? { ...r, isServed: true } : r))
-      );
+  const moveHead = useCallback(() => {
+    if (currentStep < trace.steps.length) {
+      setCurrentStep((prev) => prev + 1);
     } else {
       setIsPlaying(false);
     }
+  }, [currentStep, trace]);
+
+  /**
+   * Função para restaurar um cenário importado de arquivo.
+   * - Aplica toda a configuração e vai ao passo salvo, pausado.
+   */
+  const applyScenario = (scenario: DiskScenario) => {
+    setAlgorithm(scenario.algorithm);
+    setDiskSize(scenario.diskSize);
+    setInitialHead(scenario.initialHead);
+    setDirection(scenario.direction);
+    setCountReturnSweep(scenario.countReturnSweep);
+    setBatchSize(scenario.batchSize);
+    setRequests(scenario.requests);
+    setArrivals(scenario.arrivals);
+    setHeadSpeed(scenario.headSpeed);
+    setTimingEnabled(scenario.timing);
+    setTimingModel({
+      rpm: scenario.rpm,
+      settleTime: scenario.settleTime,
+      seekFactor: scenario.seekFactor,
+      sectorsPerTrack: scenario.sectorsPerTrack,
+    });
+    setSectors(scenario.sectors);
+    setCurrentStep(scenario.step);
+    setIsPlaying(false);
+    setMode('simulation');
+  };
+
+  /**
+   * Função para carregar um trace de arquivo.
+   * - Traces curtos entram no simulador, com as chegadas em ms contadas a
+   *   partir da primeira; o modelo de tempo é ligado para o relógio também
+   *   contar ms.
+   * - Traces longos viram um resumo com o resultado de cada algoritmo.
+   */
+  const loadTrace = (result: TraceResult) => {
+    if (result.kind !== 'disk') return;
+    setMode('simulation');
+    if (result.summaries) {
+      setLargeTrace(result);
+      return;
+    }
+    setLargeTrace(null);
+    setDiskSize(result.diskSize);
+    setRequests(result.cylinders);
+    const first = Math.min(...result.arrivals);
+    setArrivals(
+      result.arrivals.map((arrival) =>
+        Math.min(MAX_ARRIVAL, Math.round(arrival - first))
+      )
+    );
+    setTimingEnabled(true);
+    setSectors(result.cylinders.map(() => 0));
+    setBatchSize((n) => Math.min(n, result.cylinders.length));
+    reset();
   };
 
+  // Cenário em exibição, mantido no hash da URL para ser compartilhado
+  const scenario = useMemo<DiskScenario>(
+    () => ({
+      kind: 'disk',
+      algorithm,
+      diskSize,
+      initialHead,
+      direction,
+      countReturnSweep,
+      batchSize,
+      requests,
+      arrivals,
+      headSpeed,
+      timing: timingEnabled,
+      ...timingModel,
+      sectors,
+      step: currentStep,
+    }),
+    [
+      algorithm,
+      diskSize,
+      initialHead,
+      direction,
+      countReturnSweep,
+      batchSize,
+      requests,
+      arrivals,
+      headSpeed,
+      timingEnabled,
+      timingModel,
+      sectors,
+      currentStep,
+    ]
+  );
+  useEffect(() => {
+    window.history.replaceState(
+      null,
+      '',
+      mergeHash(window.location.hash, scenarioToHashParams(scenario))
+    );
+  }, [scenario]);
+
   // Efeito para controlar a reprodução automática da simulação
   useEffect(() => {
-    let interval: NodeJS.Timeout;
+    let timeout: ReturnType<typeof setTimeout>;
     if (isPlaying) {
-      interval = setInterval(moveHead, 1000);
+      timeout = setTimeout(moveHead, 1000 / speed);
     }
-    return () => clearInterval(interval);
-  }, [isPlaying, headPosition, requests, algorithm, direction]);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, moveHead, speed]);
 
   return (
     <div className="bg-gradient-to-br from-purple-500 to-blue-600 min-h-screen p-8">
@@ -136,129 +345,399 @@ export function DiskScheduling() {
         {/* Cabeçalho */}
         <div className="flex justify-between items-center mb-8">
           <h2 className="text-3xl font-bold text-purple-900">
-            Algoritmo de Escalonamento de Disco: {algorithm}
+            {t(`disk.titles.${mode}`, { algorithm })}
           </h2>
           <InfoTooltip
-            title="O que é Seek Time?"
-            content="Seek Time é o tempo necessário para mover o cabeçote do disco de uma posição para outra. Quanto menor o seek time total, mais eficiente é o algoritmo."
+            title={t('disk.tooltipTitle')}
+            content={t('disk.tooltipContent')}
           />
         </div>
 
-        {/* Seleção de Algoritmo */}
-        <div className="flex gap-4 mb-8">
-          {(['FCFS', 'SSTF', 'SCAN'] as const).map((alg) => (
-            <button
-              key={alg}
-              onClick={() => {
-                setAlgorithm(alg);
-                reset();
-              }}
-              className={`px-6 py-3 rounded-xl transition-all transform hover:scale-105 ${
-                algorithm === alg
-                  ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-lg'
-                  : 'bg-white text-purple-700 hover:bg-purple-50 shadow-md'
-              }`}
-            >
-              <span className="font-semibold">{alg}</span>
-              <div className="text-xs mt-1 font-normal">
-                {alg === 'FCFS'
-                  ? 'First Come, First Served'
-                  : alg === 'SSTF'
-                  ? 'Shortest Seek Time First'
-                  : 'Elevator Algorithm'}
-              </div>
-            </button>
-          ))}
-        </div>
-
-        {/* Visualização do Disco */}
-        <div className="bg-white p-6 rounded-xl shadow-md mb-8">
-          <div className="relative h-12 bg-gradient-to-r from-purple-100 to-blue-100 rounded-lg mb-4">
-            {/* Cabeçote */}
-            <div
-              className="absolute w-6 h-12 bg-gradient-to-r from-purple-600 to-blue-600 transition-all duration-500 rounded-lg shadow-lg"
-              style={{ left: `${(headPosition / diskSize) * 100}%` }}
-            />
-            {/* Requisições */}
-            {requests.map((request, index) => (
-              <div
-                key={index}
-                className={`absolute w-4 h-8 transition-all duration-500 rounded-lg ${
-                  request.isServed
-                    ? 'bg-gradient-to-r from-green-400 to-green-600'
-                    : 'bg-gradient-to-r from-red-400 to-red-600'
-                }`}
-                style={{
-                  left: `${(request.position / diskSize) * 100}%`,
-                  top: '12px',
-                  marginLeft: '4px',
-                  marginRight: '4px',
+        {/* Modo de visualização */}
+        <div className="flex flex-wrap justify-between gap-4 mb-8">
+          <div className="flex gap-2">
+            {MODES.map((m) => (
+              <button
+                key={m}
+                onClick={() => {
+                  setMode(m);
+                  setLargeTrace(null);
+                  reset();
                 }}
-              />
+                className={`px-4 py-2 rounded-lg transition-all ${
+                  mode === m
+                    ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-lg'
+                    : 'bg-white text-purple-700 hover:bg-purple-50 shadow-md'
+                }`}
+              >
+                {t(`disk.modes.${m}`)}
+              </button>
             ))}
           </div>
-          <div className="text-center text-sm text-purple-700">
-            Visualização do Disco (Posição do Cabeçote e Requisições)
-          </div>
+          <ScenarioActions
+            scenario={scenario}
+            theme="purple"
+            onImport={applyScenario}
+            onOpenReport={() => setShowReport(true)}
+          />
         </div>
 
-        {/* Controles de Simulação */}
-        <div className="flex justify-center gap-6 mb-8">
-          <button
-            onClick={() => setIsPlaying(!isPlaying)}
-            className="p-3 rounded-xl bg-gradient-to-r from-purple-600 to-blue-600 text-white hover:from-purple-700 hover:to-blue-700 transition-all transform hover:scale-110 shadow-lg"
-            title={isPlaying ? 'Pausar' : 'Iniciar'}
-          >
-            {isPlaying ? <Pause size={28} /> : <Play size={28} />}
-          </button>
-          <button
-            onClick={moveHead}
-            disabled={!requests.some((r) => !r.isServed)}
-            className="p-3 rounded-xl bg-gradient-to-r from-purple-600 to-blue-600 text-white hover:from-purple-700 hover:to-blue-700 transition-all transform hover:scale-110 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Próximo passo"
-          >
-            <Play size={28} />
-          </button>
-          <button
-            onClick={reset}
-            className="p-3 rounded-xl bg-gradient-to-r from-purple-600 to-blue-600 text-white hover:from-purple-700 hover:to-blue-700 transition-all transform hover:scale-110 shadow-lg"
-            title="Reiniciar"
-          >
-            <RefreshCw size={28} />
-          </button>
-        </div>
+        {showReport && (
+          <DiskReport
+            requests={requests}
+            arrivals={arrivals}
+            headSpeed={headSpeed}
+            timing={timing}
+            sectors={sectors}
+            diskSize={diskSize}
+            initialHead={initialHead}
+            direction={direction}
+            countReturnSweep={countReturnSweep}
+            batchSize={batchSize}
+            onClose={() => setShowReport(false)}
+          />
+        )}
+
+        <DiskSettings
+          requests={requests}
+          arrivals={arrivals}
+          diskSize={diskSize}
+          initialHead={initialHead}
+          direction={direction}
+          headSpeed={headSpeed}
+          timeUnit={unit}
+          onApply={(values) => {
+            setRequests(values.requests);
+            setArrivals(values.arrivals);
+            setDiskSize(values.diskSize);
+            setInitialHead(values.initialHead);
+            setDirection(values.direction);
+            setHeadSpeed(values.headSpeed);
+            setBatchSize((n) => Math.min(n, values.requests.length));
+            // Requisições novas ficam no setor 0 até serem configuradas
+            setSectors((prev) => values.requests.map((_, i) => prev[i] ?? 0));
+            reset();
+          }}
+        />
+
+        <DiskTimingSettings
+          enabled={timingEnabled}
+          model={timingModel}
+          sectors={sectors}
+          requestCount={requests.length}
+          onApply={(values) => {
+            setTimingEnabled(values.enabled);
+            setTimingModel(values.model);
+            setSectors(values.sectors);
+            reset();
+          }}
+        />
+
+        <TraceFileLoader
+          theme="purple"
+          hint={t('traceFile.diskHint', { cylinders: diskSize })}
+          createJob={(file) => ({
+            kind: 'disk',
+            file,
+            config: {
+              diskSize,
+              initialHead,
+              direction,
+              countReturnSweep,
+              batchSize,
+              headSpeed,
+              timing: timingModel, // As chegadas do arquivo estão em ms
+            },
+          })}
+          onLoad={loadTrace}
+        />
 
-        {/* Estatísticas */}
-        <div className="grid grid-cols-2 gap-6 mb-8">
-          <div className="bg-gradient-to-r from-purple-100 to-blue-100 p-6 rounded-xl shadow-md">
-            <p className="text-lg font-semibold text-purple-900 mb-2">
-              Posição do Cabeçote
-            </p>
-            <p className="text-3xl font-bold text-purple-700">{headPosition}</p>
+        {/* Variantes do Algoritmo */}
+        {(showReturnOption || showBatchOption) && (
+          <div className="flex flex-wrap items-center gap-6 mb-8 text-purple-900">
+            {showReturnOption && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={countReturnSweep}
+                  onChange={(e) => {
+                    setCountReturnSweep(e.target.checked);
+                    reset();
+                  }}
+                  className="w-4 h-4 accent-purple-600"
+                />
+                <span>{t('disk.countReturn')}</span>
+              </label>
+            )}
+            {showBatchOption && (
+              <label className="flex items-center gap-2">
+                <span className="font-semibold">{t('disk.batchSize')}</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={requests.length}
+                  value={batchSize}
+                  onChange={(e) => {
+                    setBatchSize(
+                      Math.min(
+                        requests.length,
+                        Math.max(1, Math.floor(Number(e.target.value)) || 1)
+                      )
+                    );
+                    reset();
+                  }}
+                  className="w-20 px-3 py-2 rounded-lg border border-purple-200"
+                />
+              </label>
+            )}
           </div>
-          <div className="bg-gradient-to-r from-purple-100 to-blue-100 p-6 rounded-xl shadow-md">
-            <p className="text-lg font-semibold text-purple-900 mb-2">
-              Tempo Total de Busca
-            </p>
-            <p className="text-3xl font-bold text-purple-700">
-              {totalSeekTime}
-            </p>
+        )}
+
+        {/* Seleção de Algoritmo */}
+        {!largeTrace && (mode === 'simulation' || mode === 'quiz') && (
+          <div className="flex flex-wrap gap-4 mb-8">
+            {DISK_ALGORITHMS.map((alg) => (
+              <button
+                key={alg}
+                onClick={() => {
+                  setAlgorithm(alg);
+                  reset();
+                }}
+                className={`px-6 py-3 rounded-xl transition-all transform hover:scale-105 ${
+                  algorithm === alg
+                    ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-lg'
+                    : 'bg-white text-purple-700 hover:bg-purple-50 shadow-md'
+                }`}
+              >
+                <span className="font-semibold">{alg}</span>
+                <div className="text-xs mt-1 font-normal">
+                  {t(`diskAlgorithms.${alg}.name`)}
+                </div>
+              </button>
+            ))}
           </div>
-        </div>
+        )}
 
-        {/* Descrição do Algoritmo */}
-        <div className="bg-gradient-to-r from-purple-100 to-blue-100 p-6 rounded-xl shadow-md">
-          <h3 className="text-xl font-semibold text-purple-900 mb-4">
-            Sobre o Algoritmo
-          </h3>
-          <p className="text-purple-700">
-            {algorithm === 'FCFS'
-              ? 'FCFS atende as requisições na ordem exata em que chegaram. É simples mas pode resultar em movimentos ineficientes do cabeçote.'
-              : algorithm === 'SSTF'
-              ? 'SSTF sempre escolhe a requisição mais próxima da posição atual do cabeçote. É mais eficiente que FCFS mas pode causar starvation.'
-              : 'SCAN (Algoritmo do Elevador) move o cabeçote em uma direção até o fim do disco, atendendo requisições no caminho, então inverte a direção.'}
-          </p>
-        </div>
+        {largeTrace ? (
+          <TraceSummary
+            result={largeTrace}
+            onClose={() => setLargeTrace(null)}
+          />
+        ) : mode === 'simulation' ? (
+          <>
+            {/* Visualização do Disco */}
+            <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+              <div className="relative h-12 bg-gradient-to-r from-purple-100 to-blue-100 rounded-lg mb-4">
+                {/* Cabeçote */}
+                <div
+                  className="absolute w-6 h-12 bg-gradient-to-r from-purple-600 to-blue-600 transition-all duration-500 rounded-lg shadow-lg"
+                  style={{ left: `${(headPosition / diskSize) * 100}%` }}
+                  role="img"
+                  aria-label={t('disk.headLabel', { cylinder: headPosition })}
+                />
+                {/* Requisições que já chegaram; o símbolo repete a cor */}
+                {requests.map((position, index) => {
+                  if (arrivals[index] > clock) return null;
+                  const state = served[index]
+                    ? 'served'
+                    : starving[index]
+                    ? 'starving'
+                    : 'pending';
+                  return (
+                    <div
+                      key={index}
+                      className={`absolute w-4 h-8 flex items-center justify-center text-xs font-bold text-white transition-all duration-500 rounded-lg ${REQUEST_STYLES[state]}`}
+                      style={{
+                        left: `${(position / diskSize) * 100}%`,
+                        top: '12px',
+                        marginLeft: '4px',
+                        marginRight: '4px',
+                      }}
+                      role="img"
+                      aria-label={t('disk.requestLabel', {
+                        request: index + 1,
+                        cylinder: position,
+                        state: t(`disk.legend.${state}`),
+                      })}
+                    >
+                      {REQUEST_SYMBOLS[state]}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="sr-only" aria-live="polite">
+                {announcement}
+              </p>
+              <div className="text-center text-sm text-purple-700">
+                {t('disk.view')}
+                {current?.isReturn && (
+                  <span className="ml-2 font-semibold">
+                    {t('disk.returnToStart')}
+                    {current.seek === 0 && t('disk.notCounted')}
+                  </span>
+                )}
+                {current &&
+                  current.requestIndex === null &&
+                  !current.isReturn && (
+                    <span className="ml-2 font-semibold">
+                      {t('disk.edgeMove')}
+                    </span>
+                  )}
+                {starving.some(Boolean) && (
+                  <span className="ml-2 font-semibold text-orange-600">
+                    {t('disk.starvingLegend')}
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap justify-center gap-4 mt-2 text-xs text-purple-700">
+                {REQUEST_STATES.map((state) => (
+                  <span key={state} className="flex items-center gap-1">
+                    <span
+                      className={`inline-flex w-4 h-4 items-center justify-center rounded font-bold text-white ${REQUEST_STYLES[state]}`}
+                      aria-hidden="true"
+                    >
+                      {REQUEST_SYMBOLS[state]}
+                    </span>
+                    {t(`disk.legend.${state}`)}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* Controles de Simulação */}
+            <PlaybackControls
+              currentStep={currentStep}
+              totalSteps={trace.steps.length}
+              isPlaying={isPlaying}
+              speed={speed}
+              theme="purple"
+              onTogglePlay={() => setIsPlaying(!isPlaying)}
+              onNext={moveHead}
+              onSeek={jumpTo}
+              onReset={reset}
+              onSpeedChange={setSpeed}
+            />
+
+            {/* Estatísticas */}
+            <div
+              className={`grid grid-cols-2 gap-6 mb-8 ${
+                timing ? 'md:grid-cols-3 lg:grid-cols-5' : 'md:grid-cols-4'
+              }`}
+            >
+              <div className="bg-gradient-to-r from-purple-100 to-blue-100 p-6 rounded-xl shadow-md">
+                <p className="text-lg font-semibold text-purple-900 mb-2">
+                  {t('disk.headPosition')}
+                </p>
+                <p className="text-3xl font-bold text-purple-700">
+                  {headPosition}
+                </p>
+              </div>
+              <div className="bg-gradient-to-r from-purple-100 to-blue-100 p-6 rounded-xl shadow-md">
+                <p className="text-lg font-semibold text-purple-900 mb-2">
+                  {t('disk.direction')}
+                </p>
+                <p className="text-3xl font-bold text-purple-700">
+                  {headDirection === 'up' ? '→' : '←'}
+                </p>
+              </div>
+              <div className="bg-gradient-to-r from-purple-100 to-blue-100 p-6 rounded-xl shadow-md">
+                <p className="text-lg font-semibold text-purple-900 mb-2">
+                  {t('disk.totalSeek')}
+                </p>
+                <p className="text-3xl font-bold text-purple-700">
+                  {totalSeekTime}
+                </p>
+              </div>
+              <div className="bg-gradient-to-r from-purple-100 to-blue-100 p-6 rounded-xl shadow-md">
+                <p className="text-lg font-semibold text-purple-900 mb-2">
+                  {t('disk.clock', { unit })}
+                </p>
+                <p className="text-3xl font-bold text-purple-700">
+                  {formatNumber(clock, AT_MOST_ONE_DECIMAL)}
+                </p>
+              </div>
+              {timing && (
+                <div className="bg-gradient-to-r from-purple-100 to-blue-100 p-6 rounded-xl shadow-md">
+                  <p className="text-lg font-semibold text-purple-900 mb-2">
+                    {t('disk.totalTime')}
+                  </p>
+                  <p className="text-3xl font-bold text-purple-700">
+                    {ms(elapsed.seek + elapsed.latency + elapsed.transfer)}
+                  </p>
+                  <p className="text-xs text-purple-700 mt-1">
+                    {t('disk.timeBreakdown', {
+                      seek: ms(elapsed.seek),
+                      latency: ms(elapsed.latency),
+                      transfer: ms(elapsed.transfer),
+                    })}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <SeekPathChart trace={trace} currentStep={currentStep} />
+
+            <DiskRequestMetrics
+              trace={trace}
+              currentStep={currentStep}
+              unit={unit}
+              starvationLimit={starvationLimit}
+              onStarvationLimitChange={(limit) =>
+                setStarvationLimits((prev) => ({ ...prev, [clockUnit]: limit }))
+              }
+            />
+
+            {/* Descrição do Algoritmo */}
+            <div className="bg-gradient-to-r from-purple-100 to-blue-100 p-6 rounded-xl shadow-md">
+              <h3 className="text-xl font-semibold text-purple-900 mb-4">
+                {t('common.about')}
+              </h3>
+              <p className="text-purple-700">
+                {t(`diskAlgorithms.${algorithm}.description`)}
+              </p>
+            </div>
+          </>
+        ) : mode === 'quiz' ? (
+          <DiskQuiz
+            key={[
+              algorithm,
+              batchSize,
+              diskSize,
+              initialHead,
+              direction,
+              headSpeed,
+              JSON.stringify(timing),
+              ...requests,
+              ...arrivals,
+              ...sectors,
+            ].join(' ')}
+            trace={trace}
+            direction={direction}
+          />
+        ) : (
+          <DiskComparison
+            key={[
+              diskSize,
+              initialHead,
+              direction,
+              headSpeed,
+              JSON.stringify(timing),
+              ...requests,
+              ...arrivals,
+              ...sectors,
+            ].join(' ')}
+            requests={requests}
+            arrivals={arrivals}
+            headSpeed={headSpeed}
+            timing={timing}
+            sectors={sectors}
+            diskSize={diskSize}
+            initialHead={initialHead}
+            direction={direction}
+            countReturnSweep={countReturnSweep}
+            batchSize={batchSize}
+          />
+        )}
       </div>
     </div>
   );
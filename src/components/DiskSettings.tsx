@@ -0,0 +1,412 @@
+import { useState } from 'react';
+import { Check, Dices, Wand2 } from 'lucide-react';
+import { Direction } from '../engines/diskScheduling';
+import {
+  MAX_ARRIVAL,
+  MAX_DISK_SIZE,
+  MAX_HEAD_SPEED,
+  MAX_SEED,
+  ParseResult,
+  parseIntegerInRange,
+  parseIntegerList,
+} from '../engines/input';
+import {
+  DISK_PATTERNS,
+  DiskPattern,
+  generateArrivals,
+  generateDiskRequests,
+} from '../engines/workloads';
+import { useI18n } from '../i18n/context';
+import { Translate } from '../i18n/translate';
+
+export interface DiskSettingsValues {
+  requests: number[];
+  arrivals: number[];
+  diskSize: number;
+  initialHead: number;
+  direction: Direction;
+  headSpeed: number;
+}
+
+// Chegadas todas no instante 0 aparecem como o campo em branco
+const arrivalsToText = (arrivals: number[]) =>
+  arrivals.every((a) => a === 0) ? '' : arrivals.join(', ');
+
+// Em branco, todas chegam no instante 0; senão, uma chegada por requisição
+function parseArrivals(
+  text: string,
+  count: number,
+  t: Translate
+): ParseResult<number[]> {
+  if (text.trim() === '') {
+    return { ok: true, value: Array.from({ length: count }, () => 0) };
+  }
+  const parsed = parseIntegerList(
+    text,
+    t('input.labels.arrivals'),
+    0,
+    MAX_ARRIVAL,
+    t
+  );
+  if (parsed.ok && parsed.value.length !== count) {
+    return { ok: false, error: t('disk.settings.arrivalsLength', { count }) };
+  }
+  return parsed;
+}
+
+interface DiskSettingsProps extends DiskSettingsValues {
+  timeUnit: string; // Unidade das chegadas (ticks ou ms), já traduzida
+  onApply: (values: DiskSettingsValues) => void;
+}
+
+/**
+ * Painel de configuração da simulação de escalonamento de disco.
+ *
+ * A posição do cabeçote e as requisições são validadas contra o número
+ * de cilindros digitado, e só são aplicadas quando todos os campos são válidos.
+ * As chegadas são opcionais: em branco, todas as requisições chegam no
+ * instante 0.
+ */
+export function DiskSettings({
+  requests,
+  arrivals,
+  diskSize,
+  initialHead,
+  direction,
+  headSpeed,
+  timeUnit,
+  onApply,
+}: DiskSettingsProps) {
+  const { t } = useI18n();
+  const [requestsText, setRequestsText] = useState(requests.join(', '));
+  const [arrivalsText, setArrivalsText] = useState(arrivalsToText(arrivals));
+  const [sizeText, setSizeText] = useState(String(diskSize));
+  const [headText, setHeadText] = useState(String(initialHead));
+  const [draftDirection, setDraftDirection] = useState<Direction>(direction);
+  const [speedText, setSpeedText] = useState(String(headSpeed));
+  const [applied, setApplied] = useState({
+    requests,
+    arrivals,
+    diskSize,
+    initialHead,
+    direction,
+    headSpeed,
+  });
+
+  // Se a configuração mudar por fora do painel, o rascunho acompanha
+  if (
+    applied.requests !== requests ||
+    applied.arrivals !== arrivals ||
+    applied.diskSize !== diskSize ||
+    applied.initialHead !== initialHead ||
+    applied.direction !== direction ||
+    applied.headSpeed !== headSpeed
+  ) {
+    setApplied({
+      requests,
+      arrivals,
+      diskSize,
+      initialHead,
+      direction,
+      headSpeed,
+    });
+    setRequestsText(requests.join(', '));
+    setArrivalsText(arrivalsToText(arrivals));
+    setSizeText(String(diskSize));
+    setHeadText(String(initialHead));
+    setDraftDirection(direction);
+    setSpeedText(String(headSpeed));
+  }
+  const [pattern, setPattern] = useState<DiskPattern>('clustered');
+  const [countText, setCountText] = useState('12');
+  const [gapText, setGapText] = useState('0');
+  const [seedText, setSeedText] = useState('1');
+
+  const size = parseIntegerInRange(
+    sizeText,
+    t('input.labels.diskSize'),
+    2,
+    MAX_DISK_SIZE,
+    t
+  );
+  // Sem um tamanho válido, os demais campos são validados contra o máximo
+  const lastCylinder = (size.ok ? size.value : MAX_DISK_SIZE) - 1;
+  const head = parseIntegerInRange(
+    headText,
+    t('input.labels.initialHead'),
+    0,
+    lastCylinder,
+    t
+  );
+  const queue = parseIntegerList(
+    requestsText,
+    t('input.labels.requests'),
+    0,
+    lastCylinder,
+    t
+  );
+  const speed = parseIntegerInRange(
+    speedText,
+    t('input.labels.headSpeed'),
+    1,
+    MAX_HEAD_SPEED,
+    t
+  );
+  const times: ParseResult<number[]> = queue.ok
+    ? parseArrivals(arrivalsText, queue.value.length, t)
+    : { ok: true, value: [] };
+  const isValid = size.ok && head.ok && queue.ok && speed.ok && times.ok;
+
+  const count = parseIntegerInRange(
+    countText,
+    t('input.labels.count'),
+    1,
+    100,
+    t
+  );
+  const seed = parseIntegerInRange(
+    seedText,
+    t('input.labels.seed'),
+    0,
+    MAX_SEED,
+    t
+  );
+  const gap = parseIntegerInRange(
+    gapText,
+    t('input.labels.meanGap'),
+    0,
+    MAX_ARRIVAL,
+    t
+  );
+  const generatorError = [count, gap, seed, size, head, speed].find(
+    (r) => !r.ok
+  );
+
+  // Gera a fila e as chegadas e as aplica imediatamente ao simulador
+  const generate = () => {
+    if (!count.ok || !gap.ok || !seed.ok || !size.ok || !head.ok || !speed.ok)
+      return;
+    const generated = generateDiskRequests({
+      pattern,
+      count: count.value,
+      diskSize: size.value,
+      seed: seed.value,
+    });
+    const generatedArrivals = generateArrivals({
+      count: count.value,
+      meanGap: gap.value,
+      seed: seed.value,
+    });
+    setRequestsText(generated.join(', '));
+    setArrivalsText(arrivalsToText(generatedArrivals));
+    onApply({
+      requests: generated,
+      arrivals: generatedArrivals,
+      diskSize: size.value,
+      initialHead: head.value,
+      direction: draftDirection,
+      headSpeed: speed.value,
+    });
+  };
+
+  const apply = () => {
+    if (size.ok && head.ok && queue.ok && speed.ok && times.ok) {
+      onApply({
+        requests: queue.value,
+        arrivals: times.value,
+        diskSize: size.value,
+        initialHead: head.value,
+        direction: draftDirection,
+        headSpeed: speed.value,
+      });
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <h3 className="text-xl font-semibold text-purple-900 mb-4">
+        {t('common.settings')}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+        <label className="md:col-span-3 flex flex-col gap-1 text-purple-900">
+          <span className="font-semibold">{t('disk.settings.requests')}</span>
+          <input
+            type="text"
+            value={requestsText}
+            onChange={(e) => setRequestsText(e.target.value)}
+            placeholder="98, 183, 37, 122, 14"
+            className="px-3 py-2 rounded-lg border border-purple-200 font-mono"
+          />
+          {!queue.ok && (
+            <span className="text-sm text-red-600">{queue.error}</span>
+          )}
+        </label>
+        <label className="md:col-span-3 flex flex-col gap-1 text-purple-900">
+          <span className="font-semibold">
+            {t('disk.settings.arrivals', { unit: timeUnit })}
+          </span>
+          <input
+            type="text"
+            value={arrivalsText}
+            onChange={(e) => setArrivalsText(e.target.value)}
+            placeholder="0, 0, 10, 25, 40"
+            className="px-3 py-2 rounded-lg border border-purple-200 font-mono"
+          />
+          {times.ok ? (
+            <span className="text-sm text-purple-700">
+              {t('disk.settings.arrivalsHint')}
+            </span>
+          ) : (
+            <span className="text-sm text-red-600">{times.error}</span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-purple-900">
+          <span className="font-semibold">{t('disk.settings.diskSize')}</span>
+          <input
+            type="number"
+            min={2}
+            max={MAX_DISK_SIZE}
+            value={sizeText}
+            onChange={(e) => setSizeText(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-purple-200"
+          />
+          {!size.ok && (
+            <span className="text-sm text-red-600">{size.error}</span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-purple-900">
+          <span className="font-semibold">
+            {t('disk.settings.initialHead')}
+          </span>
+          <input
+            type="number"
+            min={0}
+            max={lastCylinder}
+            value={headText}
+            onChange={(e) => setHeadText(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-purple-200"
+          />
+          {!head.ok && (
+            <span className="text-sm text-red-600">{head.error}</span>
+          )}
+        </label>
+        <div className="flex flex-col gap-1 text-purple-900">
+          <span className="font-semibold">{t('disk.settings.direction')}</span>
+          <div className="flex gap-2">
+            {(['up', 'down'] as const).map((d) => (
+              <button
+                key={d}
+                onClick={() => setDraftDirection(d)}
+                className={`flex-1 px-4 py-2 rounded-lg transition-all ${
+                  draftDirection === d
+                    ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-lg'
+                    : 'bg-white text-purple-700 hover:bg-purple-50 shadow-md'
+                }`}
+              >
+                {t(`disk.settings.${d}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+        <label className="flex flex-col gap-1 text-purple-900">
+          <span className="font-semibold">{t('disk.settings.headSpeed')}</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_HEAD_SPEED}
+            value={speedText}
+            onChange={(e) => setSpeedText(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-purple-200"
+          />
+          {!speed.ok && (
+            <span className="text-sm text-red-600">{speed.error}</span>
+          )}
+        </label>
+      </div>
+      <button
+        onClick={apply}
+        disabled={!isValid}
+        className="mt-4 flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Check size={20} />
+        {t('common.apply')}
+      </button>
+
+      <div className="mt-6 pt-4 border-t border-purple-100">
+        <p className="font-semibold text-purple-900 mb-2">
+          {t('disk.settings.generator')}
+        </p>
+        <div className="flex flex-wrap items-end gap-4 text-purple-900">
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('common.pattern')}</span>
+            <select
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value as DiskPattern)}
+              className="px-3 py-2 rounded-lg border border-purple-200 bg-white"
+            >
+              {DISK_PATTERNS.map((p) => (
+                <option key={p} value={p}>
+                  {t(`disk.settings.patterns.${p}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('disk.settings.count')}</span>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={countText}
+              onChange={(e) => setCountText(e.target.value)}
+              className="w-24 px-3 py-2 rounded-lg border border-purple-200"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('disk.settings.meanGap')}</span>
+            <input
+              type="number"
+              min={0}
+              value={gapText}
+              onChange={(e) => setGapText(e.target.value)}
+              className="w-24 px-3 py-2 rounded-lg border border-purple-200"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('common.seed')}</span>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={0}
+                value={seedText}
+                onChange={(e) => setSeedText(e.target.value)}
+                className="w-28 px-3 py-2 rounded-lg border border-purple-200"
+              />
+              <button
+                onClick={() =>
+                  setSeedText(String(Math.floor(Math.random() * MAX_SEED)))
+                }
+                className="p-2 rounded-lg bg-white text-purple-700 hover:bg-purple-50 shadow-md"
+                title={t('common.randomSeed')}
+                aria-label={t('common.randomSeed')}
+              >
+                <Dices size={20} />
+              </button>
+            </div>
+          </label>
+          <button
+            onClick={generate}
+            disabled={generatorError !== undefined}
+            className="flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Wand2 size={20} />
+            {t('common.generate')}
+          </button>
+        </div>
+        {generatorError && !generatorError.ok && (
+          <span className="text-sm text-red-600">{generatorError.error}</span>
+        )}
+      </div>
+    </div>
+  );
+}
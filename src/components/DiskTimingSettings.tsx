@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { Check, Dices } from 'lucide-react';
+import {
+  DiskTimingModel,
+  rotationPeriod,
+  sectorTime,
+} from '../engines/diskTiming';
+import {
+  MAX_RPM,
+  MAX_SECTORS,
+  MAX_SEEK_PARAMETER,
+  MIN_RPM,
+  ParseResult,
+  parseIntegerInRange,
+  parseIntegerList,
+  parseNumberInRange,
+} from '../engines/input';
+import { createRandom } from '../engines/workloads';
+import { useI18n } from '../i18n/context';
+import { Translate } from '../i18n/translate';
+
+export interface DiskTimingValues {
+  enabled: boolean;
+  model: DiskTimingModel;
+  sectors: number[];
+}
+
+interface DiskTimingSettingsProps extends DiskTimingValues {
+  requestCount: number; // Quantas requisições precisam de um setor
+  onApply: (values: DiskTimingValues) => void;
+}
+
+// Setores todos iguais a 0 aparecem como o campo em branco
+const sectorsToText = (sectors: number[]) =>
+  sectors.every((s) => s === 0) ? '' : sectors.join(', ');
+
+// Em branco, todas ficam no setor 0; senão, um setor por requisição
+function parseSectors(
+  text: string,
+  count: number,
+  sectorsPerTrack: number,
+  t: Translate
+): ParseResult<number[]> {
+  if (text.trim() === '') {
+    return { ok: true, value: Array.from({ length: count }, () => 0) };
+  }
+  const parsed = parseIntegerList(
+    text,
+    t('input.labels.sectors'),
+    0,
+    sectorsPerTrack - 1,
+    t
+  );
+  if (parsed.ok && parsed.value.length !== count) {
+    return { ok: false, error: t('disk.timing.sectorsLength', { count }) };
+  }
+  return parsed;
+}
+
+/**
+ * Painel do modelo de tempo do disco: rotação, curva de busca, setores por
+ * trilha e o setor de cada requisição. Como o painel de configuração, só
+ * aplica os valores quando todos os campos são válidos.
+ */
+export function DiskTimingSettings({
+  enabled,
+  model,
+  sectors,
+  requestCount,
+  onApply,
+}: DiskTimingSettingsProps) {
+  const { t, formatNumber } = useI18n();
+  const [draftEnabled, setDraftEnabled] = useState(enabled);
+  const [rpmText, setRpmText] = useState(String(model.rpm));
+  const [settleText, setSettleText] = useState(String(model.settleTime));
+  const [factorText, setFactorText] = useState(String(model.seekFactor));
+  const [sectorsPerTrackText, setSectorsPerTrackText] = useState(
+    String(model.sectorsPerTrack)
+  );
+  const [sectorsText, setSectorsText] = useState(sectorsToText(sectors));
+  const [applied, setApplied] = useState({ enabled, model, sectors });
+
+  // Se a configuração mudar por fora do painel, o rascunho acompanha
+  if (
+    applied.enabled !== enabled ||
+    applied.model !== model ||
+    applied.sectors !== sectors
+  ) {
+    setApplied({ enabled, model, sectors });
+    setDraftEnabled(enabled);
+    setRpmText(String(model.rpm));
+    setSettleText(String(model.settleTime));
+    setFactorText(String(model.seekFactor));
+    setSectorsPerTrackText(String(model.sectorsPerTrack));
+    setSectorsText(sectorsToText(sectors));
+  }
+
+  const rpm = parseIntegerInRange(
+    rpmText,
+    t('input.labels.rpm'),
+    MIN_RPM,
+    MAX_RPM,
+    t
+  );
+  const settle = parseNumberInRange(
+    settleText,
+    t('input.labels.settleTime'),
+    0,
+    MAX_SEEK_PARAMETER,
+    t
+  );
+  const factor = parseNumberInRange(
+    factorText,
+    t('input.labels.seekFactor'),
+    0,
+    MAX_SEEK_PARAMETER,
+    t
+  );
+  const sectorsPerTrack = parseIntegerInRange(
+    sectorsPerTrackText,
+    t('input.labels.sectorsPerTrack'),
+    1,
+    MAX_SECTORS,
+    t
+  );
+  // Sem um número de setores válido, a lista é validada contra o máximo
+  const sectorList = parseSectors(
+    sectorsText,
+    requestCount,
+    sectorsPerTrack.ok ? sectorsPerTrack.value : MAX_SECTORS,
+    t
+  );
+  const isValid =
+    rpm.ok && settle.ok && factor.ok && sectorsPerTrack.ok && sectorList.ok;
+  const draftModel: DiskTimingModel | null =
+    rpm.ok && settle.ok && factor.ok && sectorsPerTrack.ok
+      ? {
+          rpm: rpm.value,
+          settleTime: settle.value,
+          seekFactor: factor.value,
+          sectorsPerTrack: sectorsPerTrack.value,
+        }
+      : null;
+
+  const randomizeSectors = () => {
+    if (!sectorsPerTrack.ok) return;
+    const random = createRandom(Math.floor(Math.random() * 2 ** 31));
+    setSectorsText(
+      Array.from({ length: requestCount }, () =>
+        Math.floor(random() * sectorsPerTrack.value)
+      ).join(', ')
+    );
+  };
+
+  const apply = () => {
+    if (!draftEnabled) {
+      onApply({ enabled: false, model, sectors });
+    } else if (draftModel && sectorList.ok) {
+      onApply({
+        enabled: draftEnabled,
+        model: draftModel,
+        sectors: sectorList.value,
+      });
+    }
+  };
+
+  const fields = [
+    ['disk.timing.rpm', rpmText, setRpmText, rpm],
+    ['disk.timing.settleTime', settleText, setSettleText, settle],
+    ['disk.timing.seekFactor', factorText, setFactorText, factor],
+    [
+      'disk.timing.sectorsPerTrack',
+      sectorsPerTrackText,
+      setSectorsPerTrackText,
+      sectorsPerTrack,
+    ],
+  ] as const;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <h3 className="text-xl font-semibold text-purple-900 mb-4">
+        {t('disk.timing.title')}
+      </h3>
+      <label className="flex items-center gap-2 mb-2 text-purple-900">
+        <input
+          type="checkbox"
+          checked={draftEnabled}
+          onChange={(e) => setDraftEnabled(e.target.checked)}
+          className="w-4 h-4 accent-purple-600"
+        />
+        <span className="font-semibold">{t('disk.timing.enabled')}</span>
+      </label>
+      <p className="text-sm text-purple-700 mb-4">
+        {t('disk.timing.description')}
+      </p>
+
+      {draftEnabled && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+          {fields.map(([key, text, setText, result]) => (
+            <label key={key} className="flex flex-col gap-1 text-purple-900">
+              <span className="font-semibold">{t(key)}</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="px-3 py-2 rounded-lg border border-purple-200"
+              />
+              {!result.ok && (
+                <span className="text-sm text-red-600">{result.error}</span>
+              )}
+            </label>
+          ))}
+          <label className="md:col-span-4 flex flex-col gap-1 text-purple-900">
+            <span className="font-semibold">{t('disk.timing.sectors')}</span>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={sectorsText}
+                onChange={(e) => setSectorsText(e.target.value)}
+                placeholder="5, 12, 30, 2"
+                className="flex-1 px-3 py-2 rounded-lg border border-purple-200 font-mono"
+              />
+              <button
+                onClick={randomizeSectors}
+                disabled={!sectorsPerTrack.ok}
+                className="p-2 rounded-lg bg-white text-purple-700 hover:bg-purple-50 shadow-md disabled:opacity-50"
+                title={t('disk.timing.randomSectors')}
+                aria-label={t('disk.timing.randomSectors')}
+              >
+                <Dices size={20} />
+              </button>
+            </div>
+            {sectorList.ok ? (
+              <span className="text-sm text-purple-700">
+                {t('disk.timing.sectorsHint')}
+              </span>
+            ) : (
+              <span className="text-sm text-red-600">{sectorList.error}</span>
+            )}
+          </label>
+          {draftModel && (
+            <p className="md:col-span-4 text-sm text-purple-700">
+              {t('disk.timing.rotation', {
+                period: formatNumber(rotationPeriod(draftModel), {
+                  maximumFractionDigits: 2,
+                }),
+                sector: formatNumber(sectorTime(draftModel), {
+                  maximumFractionDigits: 3,
+                }),
+              })}
+            </p>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={apply}
+        disabled={draftEnabled && !isValid}
+        className="mt-4 flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Check size={20} />
+        {t('common.apply')}
+      </button>
+    </div>
+  );
+}
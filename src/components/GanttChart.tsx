@@ -0,0 +1,54 @@
+import { GanttSlice } from '../engines/cpuScheduling';
+import { useI18n } from '../i18n/context';
+
+interface GanttChartProps {
+  slices: GanttSlice[]; // Faixas já executadas
+  totalTime: number; // Duração da simulação completa, que define a escala
+  colors: string[]; // Classes de cor de cada processo
+}
+
+/**
+ * Diagrama de Gantt da CPU: uma faixa por intervalo em que o mesmo processo
+ * ocupou a CPU, com os instantes de troca marcados embaixo. A escala é a da
+ * simulação completa, então o diagrama cresce da esquerda para a direita
+ * durante a reprodução.
+ */
+export function GanttChart({ slices, totalTime, colors }: GanttChartProps) {
+  const { t } = useI18n();
+  const position = (time: number) => `${(time / totalTime) * 100}%`;
+  const marks = [
+    ...new Set([0, ...slices.flatMap(({ start, end }) => [start, end])]),
+  ];
+
+  return (
+    <div>
+      <div className="flex h-14 rounded-lg overflow-hidden border border-emerald-200 bg-gray-50">
+        {slices.map(({ pid, start, end }) => (
+          <div
+            key={start}
+            title={`${
+              pid === null ? t('cpu.idle') : `P${pid}`
+            }: ${start}–${end}`}
+            style={{ width: position(end - start) }}
+            className={`flex items-center justify-center text-sm font-semibold border-r border-white overflow-hidden transition-all duration-500 ${
+              pid === null ? 'bg-gray-200 text-gray-500' : colors[pid]
+            }`}
+          >
+            {pid === null ? '—' : `P${pid}`}
+          </div>
+        ))}
+      </div>
+      <div className="relative h-5 text-xs text-emerald-700">
+        {marks.map((time) => (
+          <span
+            key={time}
+            style={{ left: position(time) }}
+            className="absolute -translate-x-1/2"
+          >
+            {time}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
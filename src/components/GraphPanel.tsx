@@ -0,0 +1,228 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { AlertTriangle, MessageCircle } from 'lucide-react';
+import { GraphExample, GraphSettings } from './GraphSettings';
+import { PlaybackControls } from './PlaybackControls';
+import { ResourceGraphView } from './ResourceGraphView';
+import {
+  GraphNode,
+  ResourceGraph,
+  analyzeResourceGraph,
+  formatVector,
+  freeInstances,
+} from '../engines/deadlock';
+import { describeReductionStep } from '../engines/narration';
+import { useI18n } from '../i18n/context';
+
+// Grafos de exemplo: um deadlock com espera circular e um ciclo que a
+// redução desfaz, porque R0 e R1 têm duas instâncias
+const EXAMPLES: Record<GraphExample, ResourceGraph> = {
+  deadlockDemo: {
+    processCount: 3,
+    instances: [1, 2, 1, 3],
+    requests: [
+      [0, 0],
+      [1, 2],
+      [2, 1],
+    ],
+    assignments: [
+      [0, 1],
+      [1, 0],
+      [1, 1],
+      [2, 2],
+    ],
+  },
+  cycleDemo: {
+    processCount: 4,
+    instances: [2, 2],
+    requests: [
+      [0, 0],
+      [2, 1],
+    ],
+    assignments: [
+      [0, 1],
+      [0, 2],
+      [1, 0],
+      [1, 3],
+    ],
+  },
+};
+
+const nodeLabel = ({ kind, index }: GraphNode) =>
+  `${kind === 'process' ? 'P' : 'R'}${index}`;
+
+// Aba do grafo de alocação: ciclos e redução passo a passo
+export function GraphPanel() {
+  const { t } = useI18n();
+
+  // Estados do componente
+  const [graph, setGraph] = useState(EXAMPLES.deadlockDemo);
+  const [currentStep, setCurrentStep] = useState(0); // Quantas reduções já foram feitas
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [narration, setNarration] = useState('');
+  const [isNarrating, setIsNarrating] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const analysis = useMemo(() => analyzeResourceGraph(graph), [graph]);
+  // Um passo a mais no final para a conclusão da redução
+  const totalSteps = analysis.steps.length + 1;
+  const isFinished = currentStep === totalSteps;
+  const shown = analysis.steps.slice(0, currentStep);
+  const available =
+    shown.length > 0 ? shown[shown.length - 1].available : freeInstances(graph);
+  const reduced = shown.map(({ pid }) => pid);
+
+  // Exibe uma narração com destaque temporário
+  const narrate = (text: string) => {
+    setNarration(text);
+    setIsNarrating(true);
+    setTimeout(() => setIsNarrating(false), 3000);
+  };
+
+  // Conclusão da redução: os processos que sobraram estão em deadlock
+  const conclusion = useCallback(
+    () =>
+      analysis.deadlocked.length === 0
+        ? t('deadlock.graph.noDeadlock')
+        : t('deadlock.graph.deadlock', {
+            processes: analysis.deadlocked.map((pid) => `P${pid}`).join(', '),
+          }),
+    [analysis, t]
+  );
+
+  // Narração de um passo: uma redução ou, no último, a conclusão
+  const describe = useCallback(
+    (step: number) =>
+      step > analysis.steps.length
+        ? conclusion()
+        : describeReductionStep(analysis.steps[step - 1], t),
+    [analysis, conclusion, t]
+  );
+
+  // Executa a próxima redução
+  const handleNext = useCallback(() => {
+    if (currentStep < totalSteps) {
+      narrate(describe(currentStep + 1));
+      setCurrentStep((prev) => prev + 1);
+    } else {
+      setIsPlaying(false);
+      narrate(conclusion());
+    }
+  }, [currentStep, totalSteps, describe, conclusion]);
+
+  const reset = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+    narrate(t('deadlock.graph.initialNarration'));
+  };
+
+  // Leva a simulação diretamente a um passo da linha do tempo
+  const jumpTo = (step: number) => {
+    setCurrentStep(step);
+    setIsPlaying(false);
+    narrate(step > 0 ? describe(step) : t('deadlock.graph.initialNarration'));
+  };
+
+  // Efeito que controla a execução automática da simulação
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    if (isPlaying) {
+      timeout = setTimeout(handleNext, 3000 / speed);
+    }
+    return () => clearTimeout(timeout);
+  }, [isPlaying, handleNext, speed]);
+
+  const changeGraph = (newGraph: ResourceGraph) => {
+    setGraph(newGraph);
+    reset();
+  };
+
+  return (
+    <>
+      <GraphSettings graph={graph} examples={EXAMPLES} onApply={changeGraph} />
+
+      <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+        <div
+          className={`flex items-start gap-3 p-4 rounded-lg mb-4 ${
+            analysis.cycle
+              ? 'bg-red-50 text-red-800'
+              : 'bg-green-50 text-green-800'
+          }`}
+        >
+          <AlertTriangle
+            size={20}
+            className={`mt-1 shrink-0 ${
+              analysis.cycle ? 'text-red-600' : 'text-green-600'
+            }`}
+          />
+          <div>
+            <p className="font-semibold">
+              {analysis.cycle
+                ? t('deadlock.graph.cycle', {
+                    cycle: [...analysis.cycle, analysis.cycle[0]]
+                      .map(nodeLabel)
+                      .join(' → '),
+                  })
+                : t('deadlock.graph.noCycle')}
+            </p>
+            {analysis.cycle && graph.instances.some((count) => count > 1) && (
+              <p className="text-sm mt-1">{t('deadlock.graph.cycleNote')}</p>
+            )}
+          </div>
+        </div>
+        <ResourceGraphView
+          graph={graph}
+          cycle={analysis.cycle}
+          reduced={reduced}
+          deadlocked={isFinished ? analysis.deadlocked : []}
+        />
+        <p className="text-xs text-rose-700 mt-3">
+          {t('deadlock.graph.legend')}
+        </p>
+      </div>
+
+      <div className="bg-gradient-to-r from-rose-100 to-red-100 p-6 rounded-xl shadow-md mb-8">
+        <p className="text-lg font-semibold text-rose-900 mb-2">
+          {t('deadlock.graph.available')}
+        </p>
+        <p className="text-3xl font-bold text-rose-700 font-mono">
+          {formatVector(available)}
+        </p>
+      </div>
+
+      <div
+        className={`bg-gradient-to-r from-rose-100 to-red-100 p-4 rounded-lg mb-6 transition-all duration-500 transform flex items-start gap-3 ${
+          isNarrating ? 'scale-102 shadow-lg' : ''
+        }`}
+      >
+        <MessageCircle
+          className={`w-6 h-6 text-rose-600 mt-1 ${
+            isNarrating ? 'animate-bounce' : ''
+          }`}
+        />
+        <p className="text-rose-700 text-lg flex-1" aria-live="polite">
+          {narration}
+        </p>
+      </div>
+
+      <PlaybackControls
+        currentStep={currentStep}
+        totalSteps={totalSteps}
+        isPlaying={isPlaying}
+        speed={speed}
+        theme="rose"
+        onTogglePlay={() => setIsPlaying(!isPlaying)}
+        onNext={handleNext}
+        onSeek={jumpTo}
+        onReset={reset}
+        onSpeedChange={setSpeed}
+      />
+
+      <div className="bg-gradient-to-r from-rose-100 to-red-100 p-6 rounded-xl shadow-md">
+        <h3 className="text-xl font-semibold text-rose-900 mb-4">
+          {t('deadlock.graph.about')}
+        </h3>
+        <p className="text-rose-700">{t('deadlock.graph.aboutText')}</p>
+      </div>
+    </>
+  );
+}
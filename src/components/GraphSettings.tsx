@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Check, Network } from 'lucide-react';
+import { ResourceGraph } from '../engines/deadlock';
+import {
+  MAX_GRAPH_INSTANCES,
+  MAX_INSTANCES,
+  MAX_PROCESSES,
+  MAX_RESOURCES,
+  parseGraphEdges,
+  parseIntegerInRange,
+  parseIntegerList,
+} from '../engines/input';
+import { useI18n } from '../i18n/context';
+
+export type GraphExample = 'deadlockDemo' | 'cycleDemo';
+
+const edgesToText = ({ requests, assignments }: ResourceGraph) =>
+  [
+    ...requests.map(([pid, rid]) => `P${pid} -> R${rid}`),
+    ...assignments.map(([rid, pid]) => `R${rid} -> P${pid}`),
+  ].join('\n');
+
+interface GraphSettingsProps {
+  graph: ResourceGraph;
+  examples: Record<GraphExample, ResourceGraph>;
+  onApply: (graph: ResourceGraph) => void;
+}
+
+/**
+ * Painel de configuração do grafo de alocação: número de processos,
+ * instâncias de cada recurso e as arestas, uma por linha.
+ */
+export function GraphSettings({
+  graph,
+  examples,
+  onApply,
+}: GraphSettingsProps) {
+  const { t } = useI18n();
+  const [processesText, setProcessesText] = useState(
+    String(graph.processCount)
+  );
+  const [instancesText, setInstancesText] = useState(graph.instances.join(' '));
+  const [edgesText, setEdgesText] = useState(edgesToText(graph));
+  const [applied, setApplied] = useState(graph);
+
+  // Se o grafo mudar por fora do painel, o rascunho acompanha
+  if (applied !== graph) {
+    setApplied(graph);
+    setProcessesText(String(graph.processCount));
+    setInstancesText(graph.instances.join(' '));
+    setEdgesText(edgesToText(graph));
+  }
+
+  const processCount = parseIntegerInRange(
+    processesText,
+    t('input.labels.processCount'),
+    1,
+    MAX_PROCESSES,
+    t
+  );
+  const instances = parseIntegerList(
+    instancesText,
+    t('input.labels.instances'),
+    1,
+    MAX_INSTANCES,
+    t
+  );
+  const resourcesFit = !instances.ok || instances.value.length <= MAX_RESOURCES;
+  // O desenho tem espaço para poucas instâncias por recurso
+  const instancesFit =
+    !instances.ok ||
+    instances.value.every((count) => count <= MAX_GRAPH_INSTANCES);
+  const edges =
+    processCount.ok && instances.ok
+      ? parseGraphEdges(
+          edgesText,
+          processCount.value,
+          instances.value.length,
+          t
+        )
+      : null;
+  // Primeiro recurso com mais atribuições que instâncias
+  const overInstances =
+    edges?.ok && instances.ok
+      ? instances.value.findIndex(
+          (count, rid) =>
+            edges.value.assignments.filter(([r]) => r === rid).length > count
+        )
+      : -1;
+  const isValid =
+    processCount.ok &&
+    instances.ok &&
+    resourcesFit &&
+    instancesFit &&
+    edges !== null &&
+    edges.ok &&
+    overInstances < 0;
+
+  const apply = () => {
+    if (!processCount.ok || !instances.ok || !edges?.ok || !isValid) return;
+    onApply({
+      processCount: processCount.value,
+      instances: instances.value,
+      ...edges.value,
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <h3 className="text-xl font-semibold text-rose-900 mb-4">
+        {t('common.settings')}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
+        <label className="flex flex-col gap-1 text-rose-900">
+          <span className="font-semibold">
+            {t('deadlock.settings.processes', { max: MAX_PROCESSES })}
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_PROCESSES}
+            value={processesText}
+            onChange={(e) => setProcessesText(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-rose-200"
+          />
+          {!processCount.ok && (
+            <span className="text-sm text-red-600">{processCount.error}</span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-rose-900">
+          <span className="font-semibold">
+            {t('deadlock.settings.instances', { max: MAX_RESOURCES })}
+          </span>
+          <input
+            type="text"
+            value={instancesText}
+            onChange={(e) => setInstancesText(e.target.value)}
+            placeholder="1 2 1"
+            className="px-3 py-2 rounded-lg border border-rose-200 font-mono"
+          />
+          {!instances.ok && (
+            <span className="text-sm text-red-600">{instances.error}</span>
+          )}
+          {!resourcesFit && (
+            <span className="text-sm text-red-600">
+              {t('deadlock.settings.tooManyResources', { max: MAX_RESOURCES })}
+            </span>
+          )}
+          {!instancesFit && (
+            <span className="text-sm text-red-600">
+              {t('deadlock.settings.tooManyInstances', {
+                max: MAX_GRAPH_INSTANCES,
+              })}
+            </span>
+          )}
+        </label>
+        <label className="md:col-span-2 flex flex-col gap-1 text-rose-900">
+          <span className="font-semibold">{t('deadlock.settings.edges')}</span>
+          <textarea
+            value={edgesText}
+            onChange={(e) => setEdgesText(e.target.value)}
+            rows={Math.max(4, edgesText.split('\n').length)}
+            placeholder={'P0 -> R1\nR1 -> P1'}
+            className="px-3 py-2 rounded-lg border border-rose-200 font-mono"
+          />
+          {edges && !edges.ok && (
+            <span className="text-sm text-red-600">{edges.error}</span>
+          )}
+          {overInstances >= 0 && (
+            <span className="text-sm text-red-600">
+              {t('deadlock.settings.overInstances', { rid: overInstances })}
+            </span>
+          )}
+        </label>
+      </div>
+      <div className="mt-4 flex flex-wrap gap-4">
+        <button
+          onClick={apply}
+          disabled={!isValid}
+          className="flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-rose-600 to-red-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Check size={20} />
+          {t('common.apply')}
+        </button>
+        {(Object.keys(examples) as GraphExample[]).map((name) => (
+          <button
+            key={name}
+            onClick={() => onApply(examples[name])}
+            className="flex items-center gap-2 px-6 py-2 rounded-xl bg-white text-rose-700 hover:bg-rose-50 shadow-md transition-all transform hover:scale-105"
+          >
+            <Network size={20} />
+            {t(`deadlock.settings.${name}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,47 @@
-import React from 'react';
+import { useId, useState } from 'react';
 
 interface InfoTooltipProps {
   title: string;
   content: string;
 }
 
+/**
+ * Termo com explicação. A explicação abre com o mouse por cima e com o foco
+ * do teclado, alterna com um clique ou toque e fecha com Esc. Tudo passa
+ * pelo mesmo estado, para que `aria-expanded` sempre acompanhe a tela.
+ */
 export function InfoTooltip({ title, content }: InfoTooltipProps) {
+  const id = useId();
+  const [open, setOpen] = useState(false);
+
   return (
-    <div className="group relative inline-block">
-      <div className="cursor-help text-indigo-600 hover:text-indigo-800">
+    <div
+      className="relative inline-block"
+      // O toque também gera eventos de ponteiro; ele fica com o clique
+      onPointerEnter={(e) => e.pointerType === 'mouse' && setOpen(true)}
+      onPointerLeave={(e) => e.pointerType === 'mouse' && setOpen(false)}
+    >
+      <button
+        type="button"
+        className="cursor-help text-indigo-600 hover:text-indigo-800 rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400"
+        aria-expanded={open}
+        aria-describedby={id}
+        // Sem foco no clique: o foco abriria e o clique fecharia logo em seguida
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => setOpen((value) => !value)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => e.key === 'Escape' && setOpen(false)}
+      >
         <span className="border-b-2 border-dotted border-indigo-400">{title}</span>
-      </div>
-      <div className="invisible group-hover:visible absolute z-50 w-64 p-4 mt-2 bg-white rounded-lg shadow-xl border border-indigo-100 text-sm text-gray-700">
+      </button>
+      <div
+        id={id}
+        role="tooltip"
+        className={`${open ? 'visible' : 'invisible'} absolute z-50 w-64 p-4 mt-2 bg-white rounded-lg shadow-xl border border-indigo-100 text-sm text-gray-700`}
+      >
         {content}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+import { Languages } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { LOCALES, Locale } from '../i18n/translate';
+
+// Cada idioma aparece com o próprio nome, independentemente do atual
+const LOCALE_NAMES: Record<Locale, string> = {
+  pt: 'Português',
+  en: 'English',
+  es: 'Español',
+};
+
+/**
+ * Seletor de idioma do cabeçalho.
+ */
+export function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div
+      role="group"
+      aria-label={t('app.language')}
+      className="flex items-center gap-1 rounded-lg bg-white/10 p-1"
+    >
+      <Languages size={18} className="mx-1" aria-hidden />
+      {LOCALES.map((l) => (
+        <button
+          key={l}
+          lang={l}
+          onClick={() => setLocale(l)}
+          aria-pressed={locale === l}
+          title={LOCALE_NAMES[l]}
+          className={`px-2 py-1 rounded text-sm font-semibold uppercase transition-colors ${
+            locale === l
+              ? 'bg-white text-indigo-700'
+              : 'text-white hover:bg-white/20'
+          }`}
+        >
+          {l}
+        </button>
+      ))}
+    </div>
+  );
+}
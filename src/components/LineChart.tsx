@@ -0,0 +1,154 @@
+import { useRef } from 'react';
+import { ChartExportButtons } from './ChartExportButtons';
+import { slugify } from '../utils/download';
+
+interface LineSeries {
+  label: string;
+  values: number[];
+  color: string;
+}
+
+interface LineChartProps {
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  xValues: number[];
+  series: LineSeries[];
+  markers?: { series: string; index: number }[]; // Pontos destacados em vermelho
+}
+
+const WIDTH = 560;
+const HEIGHT = 300;
+const MARGIN = { top: 16, right: 16, bottom: 44, left: 52 };
+
+/**
+ * Gráfico de linhas em SVG com eixos, legenda e pontos destacáveis.
+ */
+export function LineChart({
+  title,
+  xLabel,
+  yLabel,
+  xValues,
+  series,
+  markers = [],
+}: LineChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const maxY = Math.max(1, ...series.flatMap((s) => s.values));
+  const x = (i: number) =>
+    MARGIN.left +
+    (xValues.length > 1 ? (i / (xValues.length - 1)) * plotWidth : 0);
+  const y = (v: number) => MARGIN.top + plotHeight - (v / maxY) * plotHeight;
+  const yTicks = Array.from(
+    new Set([0, 0.25, 0.5, 0.75, 1].map((t) => Math.round(t * maxY)))
+  );
+
+  return (
+    <figure className="bg-white p-4 rounded-xl shadow-md">
+      <figcaption className="flex items-center justify-between gap-2 font-semibold text-gray-800 mb-2">
+        {title}
+        <ChartExportButtons svgRef={svgRef} fileName={slugify(title)} />
+      </figcaption>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full"
+        role="img"
+        aria-label={title}
+      >
+        {/* Grade e eixo Y */}
+        {yTicks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke="#e5e7eb"
+            />
+            <text
+              x={MARGIN.left - 8}
+              y={y(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="text-xs fill-gray-600"
+            >
+              {tick}
+            </text>
+          </g>
+        ))}
+        {/* Eixo X */}
+        {xValues.map((value, i) => (
+          <text
+            key={value}
+            x={x(i)}
+            y={HEIGHT - MARGIN.bottom + 16}
+            textAnchor="middle"
+            className="text-xs fill-gray-600"
+          >
+            {value}
+          </text>
+        ))}
+        <text
+          x={MARGIN.left + plotWidth / 2}
+          y={HEIGHT - 6}
+          textAnchor="middle"
+          className="text-xs fill-gray-800 font-semibold"
+        >
+          {xLabel}
+        </text>
+        <text
+          transform={`translate(14 ${MARGIN.top + plotHeight / 2}) rotate(-90)`}
+          textAnchor="middle"
+          className="text-xs fill-gray-800 font-semibold"
+        >
+          {yLabel}
+        </text>
+
+        {/* Séries */}
+        {series.map((s) => (
+          <g key={s.label}>
+            <polyline
+              points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(' ')}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+            />
+            {s.values.map((v, i) => (
+              <circle key={i} cx={x(i)} cy={y(v)} r={3} fill={s.color} />
+            ))}
+          </g>
+        ))}
+
+        {/* Pontos destacados */}
+        {markers.map(({ series: label, index }) => {
+          const s = series.find((item) => item.label === label);
+          if (!s) return null;
+          return (
+            <circle
+              key={`${label}-${index}`}
+              cx={x(index)}
+              cy={y(s.values[index])}
+              r={7}
+              fill="none"
+              stroke="#dc2626"
+              strokeWidth={2}
+            />
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-700">
+        {series.map((s) => (
+          <span key={s.label} className="flex items-center gap-1">
+            <span
+              className="inline-block w-4 h-1 rounded"
+              style={{ backgroundColor: s.color }}
+            />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </figure>
+  );
+}
@@ -0,0 +1,343 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { MessageCircle } from 'lucide-react';
+import { InfoTooltip } from './InfoTooltip';
+import { BuddyTree } from './BuddyTree';
+import { MemoryBar } from './MemoryBar';
+import { MemoryComparison } from './MemoryComparison';
+import { MemorySettings, MemoryValues } from './MemorySettings';
+import { PlaybackControls } from './PlaybackControls';
+import {
+  ALLOCATION_ALGORITHMS,
+  AllocationAlgorithm,
+  AllocationStep,
+  blocksAt,
+  simulateMemoryAllocation,
+  summarizeMemory,
+} from '../engines/memoryAllocation';
+import { describeAllocationStep } from '../engines/narration';
+import { useI18n } from '../i18n/context';
+import { PERCENT } from '../i18n/translate';
+
+// Roteiro em que as estratégias deixam buracos diferentes: no First Fit,
+// H falha por fragmentação externa, e a compactação abre espaço para J
+const DEFAULT_VALUES: MemoryValues = {
+  memorySize: 1024,
+  minBlock: 32,
+  compactOnFailure: false,
+  requests: [
+    { kind: 'allocate', name: 'A', size: 100 },
+    { kind: 'allocate', name: 'B', size: 200 },
+    { kind: 'allocate', name: 'C', size: 150 },
+    { kind: 'allocate', name: 'D', size: 250 },
+    { kind: 'allocate', name: 'E', size: 100 },
+    { kind: 'allocate', name: 'F', size: 150 },
+    { kind: 'free', name: 'B' },
+    { kind: 'free', name: 'D' },
+    { kind: 'free', name: 'F' },
+    { kind: 'allocate', name: 'G', size: 220 },
+    { kind: 'allocate', name: 'H', size: 240 },
+    { kind: 'allocate', name: 'I', size: 190 },
+    { kind: 'compact' },
+    { kind: 'allocate', name: 'J', size: 200 },
+    { kind: 'free', name: 'C' },
+    { kind: 'free', name: 'G' },
+    { kind: 'allocate', name: 'K', size: 160 },
+    { kind: 'allocate', name: 'L', size: 300 },
+  ],
+};
+
+// Classes completas por nome, para que o Tailwind as encontre no código
+const BLOCK_COLORS = [
+  'bg-amber-500 text-white',
+  'bg-sky-500 text-white',
+  'bg-rose-500 text-white',
+  'bg-emerald-500 text-white',
+  'bg-violet-500 text-white',
+  'bg-lime-600 text-white',
+  'bg-orange-600 text-white',
+  'bg-teal-700 text-white',
+  'bg-pink-500 text-white',
+  'bg-cyan-600 text-white',
+  'bg-indigo-500 text-white',
+  'bg-yellow-600 text-white',
+];
+
+// Componente principal que simula a alocação de memória
+export function MemoryAllocation() {
+  const { t, formatNumber } = useI18n();
+
+  // Estados do componente
+  const [algorithm, setAlgorithm] = useState<AllocationAlgorithm>('FIRST_FIT'); // Estratégia selecionada
+  const [values, setValues] = useState(DEFAULT_VALUES); // Memória e roteiro
+  const [currentStep, setCurrentStep] = useState(0); // Quantos comandos já foram executados
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [narration, setNarration] = useState('');
+  const [isNarrating, setIsNarrating] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Trace completo calculado pelo motor
+  const trace = useMemo(
+    () => simulateMemoryAllocation({ algorithm, ...values }, values.requests),
+    [algorithm, values]
+  );
+  const current: AllocationStep | null =
+    currentStep > 0 ? trace.steps[currentStep - 1] : null;
+  const blocks = blocksAt(trace, currentStep);
+  const summary = summarizeMemory(trace, currentStep);
+  const isBuddy = algorithm === 'BUDDY';
+
+  // Cada nome do roteiro tem uma cor, na ordem em que aparece
+  const colors = useMemo(() => {
+    const names = [
+      ...new Set(
+        values.requests.flatMap((request) =>
+          request.kind === 'allocate' ? [request.name] : []
+        )
+      ),
+    ];
+    return Object.fromEntries(
+      names.map((name, i) => [name, BLOCK_COLORS[i % BLOCK_COLORS.length]])
+    );
+  }, [values.requests]);
+
+  // Exibe uma narração com destaque temporário
+  const narrate = (text: string) => {
+    setNarration(text);
+    setIsNarrating(true);
+    setTimeout(() => setIsNarrating(false), 3000);
+  };
+
+  const getNarration = useCallback(
+    (step: AllocationStep) => describeAllocationStep(algorithm, step, t),
+    [algorithm, t]
+  );
+
+  // Executa o próximo comando do roteiro
+  const handleNext = useCallback(() => {
+    if (currentStep < trace.steps.length) {
+      narrate(getNarration(trace.steps[currentStep]));
+      setCurrentStep((prev) => prev + 1);
+    } else {
+      setIsPlaying(false);
+      narrate(t('memory.finished'));
+    }
+  }, [currentStep, trace, getNarration, t]);
+
+  const reset = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+    narrate(t('memory.initialNarration'));
+  };
+
+  // Leva a simulação diretamente a um comando do roteiro
+  const jumpTo = (step: number) => {
+    setCurrentStep(step);
+    setIsPlaying(false);
+    narrate(
+      step > 0
+        ? getNarration(trace.steps[step - 1])
+        : t('memory.initialNarration')
+    );
+  };
+
+  // Efeito que controla a execução automática da simulação
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    if (isPlaying) {
+      timeout = setTimeout(handleNext, 3000 / speed);
+    }
+    return () => clearTimeout(timeout);
+  }, [isPlaying, handleNext, speed]);
+
+  return (
+    <div className="bg-gradient-to-br from-amber-500 to-orange-600 min-h-screen p-8">
+      <div className="max-w-6xl mx-auto bg-white/90 backdrop-blur-lg rounded-2xl shadow-2xl p-8">
+        <div className="flex justify-between items-center mb-8">
+          <h2 className="text-3xl font-bold text-amber-900">
+            {t('memory.title', {
+              algorithm: t(`memoryAlgorithms.${algorithm}.short`),
+            })}
+          </h2>
+          <InfoTooltip
+            title={t('memory.tooltipTitle')}
+            content={t('memory.tooltipContent')}
+          />
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-4 mb-8">
+          {ALLOCATION_ALGORITHMS.map((alg) => (
+            <button
+              key={alg}
+              onClick={() => {
+                setAlgorithm(alg);
+                reset();
+              }}
+              className={`px-6 py-3 rounded-xl transition-all transform hover:scale-105 ${
+                algorithm === alg
+                  ? 'bg-gradient-to-r from-amber-600 to-orange-600 text-white shadow-lg'
+                  : 'bg-white text-amber-700 hover:bg-amber-50 shadow-md'
+              }`}
+            >
+              <span className="font-semibold">
+                {t(`memoryAlgorithms.${alg}.short`)}
+              </span>
+              <div className="text-xs mt-1 font-normal">
+                {t(`memoryAlgorithms.${alg}.name`)}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <MemorySettings
+          {...values}
+          onApply={(newValues) => {
+            setValues(newValues);
+            reset();
+          }}
+        />
+
+        {/* Memória depois do comando atual */}
+        <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+          <h3 className="text-xl font-semibold text-amber-900 mb-4">
+            {t('memory.view')}
+          </h3>
+          <MemoryBar
+            blocks={blocks}
+            memorySize={values.memorySize}
+            colors={colors}
+            highlight={current?.address ?? null}
+            pointer={algorithm === 'NEXT_FIT' ? current?.nextFit ?? 0 : null}
+          />
+          <p className="text-xs text-amber-700 mt-3">
+            {t('memory.viewLegend')}
+          </p>
+        </div>
+
+        {isBuddy && (
+          <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+            <h3 className="text-xl font-semibold text-amber-900 mb-4">
+              {t('memory.tree')}
+            </h3>
+            <BuddyTree
+              tree={
+                current?.tree ?? {
+                  start: 0,
+                  size: values.memorySize,
+                  owner: null,
+                  requested: 0,
+                  children: null,
+                }
+              }
+              colors={colors}
+              highlight={current?.address ?? null}
+            />
+            <p className="text-xs text-amber-700 mt-3">
+              {t('memory.treeLegend')}
+            </p>
+          </div>
+        )}
+
+        <div
+          className={`bg-gradient-to-r from-amber-100 to-orange-100 p-4 rounded-lg mb-6 transition-all duration-500 transform flex items-start gap-3 ${
+            isNarrating ? 'scale-102 shadow-lg' : ''
+          }`}
+        >
+          <MessageCircle
+            className={`w-6 h-6 text-amber-600 mt-1 ${
+              isNarrating ? 'animate-bounce' : ''
+            }`}
+          />
+          <p className="text-amber-700 text-lg flex-1" aria-live="polite">
+            {narration}
+          </p>
+        </div>
+
+        <PlaybackControls
+          currentStep={currentStep}
+          totalSteps={trace.steps.length}
+          isPlaying={isPlaying}
+          speed={speed}
+          theme="amber"
+          onTogglePlay={() => setIsPlaying(!isPlaying)}
+          onNext={handleNext}
+          onSeek={jumpTo}
+          onReset={reset}
+          onSpeedChange={setSpeed}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+          <div className="bg-gradient-to-r from-amber-100 to-orange-100 p-6 rounded-xl shadow-md">
+            <p className="text-lg font-semibold text-amber-900 mb-2">
+              {t('memory.utilization')}
+            </p>
+            <p className="text-3xl font-bold text-amber-700">
+              {formatNumber(summary.utilization, PERCENT)}
+            </p>
+            {isBuddy && (
+              <p className="text-xs text-amber-700 mt-1">
+                {t('memory.internalFragmentation', {
+                  size: summary.internalFragmentation,
+                })}
+              </p>
+            )}
+          </div>
+          <div className="bg-gradient-to-r from-amber-100 to-orange-100 p-6 rounded-xl shadow-md">
+            <p className="text-lg font-semibold text-amber-900 mb-2">
+              {t('memory.largestHole')}
+            </p>
+            <p className="text-3xl font-bold text-amber-700">
+              {t('memory.kilobytes', { value: summary.largestHole })}
+            </p>
+            <p className="text-xs text-amber-700 mt-1">
+              {t('memory.holes', {
+                count: summary.holes,
+                free: summary.free,
+              })}
+            </p>
+          </div>
+          <div className="bg-gradient-to-r from-amber-100 to-orange-100 p-6 rounded-xl shadow-md">
+            <p className="text-lg font-semibold text-amber-900 mb-2">
+              {t('memory.fragmentation')}
+            </p>
+            <p className="text-3xl font-bold text-amber-700">
+              {formatNumber(summary.externalFragmentation, PERCENT)}
+            </p>
+            <p className="text-xs text-amber-700 mt-1">
+              {t('memory.fragmentationHint')}
+            </p>
+          </div>
+          <div className="bg-gradient-to-r from-amber-100 to-orange-100 p-6 rounded-xl shadow-md">
+            <p className="text-lg font-semibold text-amber-900 mb-2">
+              {t('memory.failures')}
+            </p>
+            <p className="text-3xl font-bold text-amber-700">
+              {summary.failures}
+            </p>
+            {!isBuddy && (
+              <p className="text-xs text-amber-700 mt-1">
+                {t('memory.moved', { moved: summary.moved })}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <MemoryComparison
+          memorySize={values.memorySize}
+          compactOnFailure={values.compactOnFailure}
+          requests={values.requests}
+          algorithm={algorithm}
+        />
+
+        {/* Descrição da Estratégia */}
+        <div className="bg-gradient-to-r from-amber-100 to-orange-100 p-6 rounded-xl shadow-md">
+          <h3 className="text-xl font-semibold text-amber-900 mb-4">
+            {t('common.about')}
+          </h3>
+          <p className="text-amber-700">
+            {t(`memoryAlgorithms.${algorithm}.description`)}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { MemoryBlock } from '../engines/memoryAllocation';
+import { useI18n } from '../i18n/context';
+
+interface MemoryBarProps {
+  blocks: MemoryBlock[];
+  memorySize: number;
+  colors: Record<string, string>; // Classes de cor de cada nome do roteiro
+  highlight: number | null; // Início do bloco do último comando
+  pointer: number | null; // Ponteiro do Next Fit, quando usado
+}
+
+/**
+ * Barra da memória, do endereço 0 ao fim: um trecho por bloco, com largura
+ * proporcional ao tamanho. Nos blocos do buddy, a parte clara no fim é a
+ * fragmentação interna.
+ */
+export function MemoryBar({
+  blocks,
+  memorySize,
+  colors,
+  highlight,
+  pointer,
+}: MemoryBarProps) {
+  const { t } = useI18n();
+  const position = (address: number) => `${(address / memorySize) * 100}%`;
+  const marks = [...blocks.map(({ start }) => start), memorySize];
+
+  return (
+    <div>
+      <div className="flex h-14 rounded-lg overflow-hidden border border-amber-200 bg-gray-50">
+        {blocks.map(({ start, size, owner, requested }) => (
+          <div
+            key={start}
+            title={`${owner ?? '—'}: ${start}–${start + size} (${size} KB)`}
+            style={{ width: position(size) }}
+            className={`relative flex items-center justify-center text-sm font-semibold border-r border-white overflow-hidden transition-all duration-500 ${
+              owner === null ? 'bg-gray-200 text-gray-500' : colors[owner]
+            } ${highlight === start ? 'ring-4 ring-inset ring-amber-300' : ''}`}
+          >
+            {owner !== null && requested < size && (
+              <div
+                className="absolute inset-y-0 right-0 bg-white/40"
+                style={{ width: `${((size - requested) / size) * 100}%` }}
+              />
+            )}
+            <span className="relative truncate px-1">{owner ?? `${size}`}</span>
+          </div>
+        ))}
+      </div>
+      <div className="relative h-5 text-xs text-amber-700">
+        {marks.map((address) => (
+          <span
+            key={address}
+            style={{ left: position(address) }}
+            className="absolute -translate-x-1/2"
+          >
+            {address}
+          </span>
+        ))}
+      </div>
+      {pointer !== null && (
+        <div className="relative h-6 text-xs font-semibold text-orange-600">
+          <span
+            style={{ left: position(pointer) }}
+            className="absolute -translate-x-1/2 whitespace-nowrap transition-all duration-500"
+          >
+            ▲ {t('memory.nextFitPointer')}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
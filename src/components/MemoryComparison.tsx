@@ -0,0 +1,86 @@
+import { useMemo } from 'react';
+import {
+  AllocationAlgorithm,
+  FIT_ALGORITHMS,
+  MemoryRequest,
+  simulateMemoryAllocation,
+  summarizeMemory,
+} from '../engines/memoryAllocation';
+import { useI18n } from '../i18n/context';
+import { PERCENT } from '../i18n/translate';
+
+interface MemoryComparisonProps {
+  memorySize: number;
+  compactOnFailure: boolean;
+  requests: MemoryRequest[];
+  algorithm: AllocationAlgorithm; // Estratégia em destaque na tabela
+}
+
+/**
+ * Tabela com o resultado do roteiro completo em cada estratégia de
+ * partições variáveis.
+ */
+export function MemoryComparison({
+  memorySize,
+  compactOnFailure,
+  requests,
+  algorithm,
+}: MemoryComparisonProps) {
+  const { t, formatNumber } = useI18n();
+  const rows = useMemo(
+    () =>
+      FIT_ALGORITHMS.map((fit) => {
+        const trace = simulateMemoryAllocation(
+          { algorithm: fit, memorySize, compactOnFailure },
+          requests
+        );
+        return { fit, summary: summarizeMemory(trace, trace.steps.length) };
+      }),
+    [memorySize, compactOnFailure, requests]
+  );
+  const kilobytes = (value: number) => t('memory.kilobytes', { value });
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8 overflow-x-auto">
+      <h3 className="text-xl font-semibold text-amber-900 mb-4">
+        {t('memory.comparison')}
+      </h3>
+      <table className="w-full text-left text-amber-900">
+        <thead>
+          <tr className="border-b border-amber-100">
+            <th className="py-1 pr-4">{t('memory.strategy')}</th>
+            <th className="py-1 pr-4">{t('memory.failures')}</th>
+            <th className="py-1 pr-4">{t('memory.largestHole')}</th>
+            <th className="py-1 pr-4">{t('memory.fragmentation')}</th>
+            <th className="py-1 pr-4">{t('memory.utilization')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ fit, summary }) => (
+            <tr
+              key={fit}
+              className={`border-b border-amber-50 ${
+                fit === algorithm ? 'bg-amber-50 font-semibold' : ''
+              }`}
+            >
+              <td className="py-1 pr-4">
+                {t(`memoryAlgorithms.${fit}.short`)}
+              </td>
+              <td className="py-1 pr-4">{summary.failures}</td>
+              <td className="py-1 pr-4">{kilobytes(summary.largestHole)}</td>
+              <td className="py-1 pr-4">
+                {formatNumber(summary.externalFragmentation, PERCENT)}
+              </td>
+              <td className="py-1 pr-4">
+                {formatNumber(summary.utilization, PERCENT)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-amber-700 mt-3">
+        {t('memory.comparisonLegend')}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import { MemoryRequest } from '../engines/memoryAllocation';
+import {
+  MAX_MEMORY_REQUESTS,
+  formatMemoryScript,
+  parseMemoryScript,
+} from '../engines/input';
+import { useI18n } from '../i18n/context';
+
+export interface MemoryValues {
+  memorySize: number;
+  minBlock: number;
+  compactOnFailure: boolean;
+  requests: MemoryRequest[];
+}
+
+// Tamanhos oferecidos: potências de 2, para que o buddy funcione com todos
+const MEMORY_SIZES = [256, 512, 1024, 2048, 4096];
+const MIN_BLOCKS = [8, 16, 32, 64, 128];
+
+interface MemorySettingsProps extends MemoryValues {
+  onApply: (values: MemoryValues) => void;
+}
+
+/**
+ * Painel de configuração da alocação de memória: o tamanho da memória, o
+ * menor bloco do buddy, a compactação automática e o roteiro de comandos.
+ */
+export function MemorySettings({
+  memorySize,
+  minBlock,
+  compactOnFailure,
+  requests,
+  onApply,
+}: MemorySettingsProps) {
+  const { t } = useI18n();
+  const [sizeDraft, setSizeDraft] = useState(memorySize);
+  const [minBlockDraft, setMinBlockDraft] = useState(minBlock);
+  const [compactDraft, setCompactDraft] = useState(compactOnFailure);
+  const [scriptText, setScriptText] = useState(formatMemoryScript(requests));
+  const [applied, setApplied] = useState<MemoryValues>({
+    memorySize,
+    minBlock,
+    compactOnFailure,
+    requests,
+  });
+
+  // Se a configuração mudar por fora do painel, o rascunho acompanha
+  if (
+    applied.memorySize !== memorySize ||
+    applied.minBlock !== minBlock ||
+    applied.compactOnFailure !== compactOnFailure ||
+    applied.requests !== requests
+  ) {
+    setApplied({ memorySize, minBlock, compactOnFailure, requests });
+    setSizeDraft(memorySize);
+    setMinBlockDraft(minBlock);
+    setCompactDraft(compactOnFailure);
+    setScriptText(formatMemoryScript(requests));
+  }
+
+  const script = parseMemoryScript(scriptText, t);
+
+  const apply = () => {
+    if (!script.ok) return;
+    onApply({
+      memorySize: sizeDraft,
+      minBlock: minBlockDraft,
+      compactOnFailure: compactDraft,
+      requests: script.value,
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <h3 className="text-xl font-semibold text-amber-900 mb-4">
+        {t('common.settings')}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
+        <label className="flex flex-col gap-1 text-amber-900">
+          <span className="font-semibold">
+            {t('memory.settings.memorySize')}
+          </span>
+          <select
+            value={sizeDraft}
+            onChange={(e) => setSizeDraft(Number(e.target.value))}
+            className="px-3 py-2 rounded-lg border border-amber-200"
+          >
+            {MEMORY_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-amber-900">
+          <span className="font-semibold">{t('memory.settings.minBlock')}</span>
+          <select
+            value={minBlockDraft}
+            onChange={(e) => setMinBlockDraft(Number(e.target.value))}
+            className="px-3 py-2 rounded-lg border border-amber-200"
+          >
+            {MIN_BLOCKS.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="md:col-span-2 flex items-center gap-2 text-amber-900">
+          <input
+            type="checkbox"
+            checked={compactDraft}
+            onChange={(e) => setCompactDraft(e.target.checked)}
+            className="w-4 h-4 accent-amber-600"
+          />
+          <span>{t('memory.settings.compactOnFailure')}</span>
+        </label>
+        <label className="md:col-span-2 flex flex-col gap-1 text-amber-900">
+          <span className="font-semibold">
+            {t('memory.settings.script', { max: MAX_MEMORY_REQUESTS })}
+          </span>
+          <textarea
+            value={scriptText}
+            onChange={(e) => setScriptText(e.target.value)}
+            rows={Math.max(4, Math.min(12, scriptText.split('\n').length))}
+            placeholder={'A 100\nB 200\nfree A\ncompact'}
+            className="px-3 py-2 rounded-lg border border-amber-200 font-mono"
+          />
+          <span className="text-xs text-amber-700">
+            {t('memory.settings.scriptHint')}
+          </span>
+          {!script.ok && (
+            <span className="text-sm text-red-600">{script.error}</span>
+          )}
+        </label>
+      </div>
+      <div className="mt-4 flex flex-wrap gap-4">
+        <button
+          onClick={apply}
+          disabled={!script.ok}
+          className="flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-amber-600 to-orange-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Check size={20} />
+          {t('common.apply')}
+        </button>
+      </div>
+    </div>
+  );
+}
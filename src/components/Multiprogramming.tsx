@@ -0,0 +1,360 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { MessageCircle } from 'lucide-react';
+import { InfoTooltip } from './InfoTooltip';
+import { LineChart } from './LineChart';
+import { PlaybackControls } from './PlaybackControls';
+import {
+  MultiprogrammingSettings,
+  MultiprogrammingValues,
+} from './MultiprogrammingSettings';
+import {
+  MultiprogrammingStep,
+  multiprogrammingCurve,
+  processSize,
+  simulateMultiprogramming,
+  summarizeMultiprogramming,
+} from '../engines/multiprogramming';
+import { describeMultiprogrammingStep } from '../engines/narration';
+import { useI18n } from '../i18n/context';
+import { PERCENT } from '../i18n/translate';
+
+// Três processos com localidades diferentes disputando 6 frames
+const DEFAULT_VALUES: MultiprogrammingValues = {
+  processes: [
+    [0, 1, 2, 0, 1, 3, 0, 1, 2, 3],
+    [0, 1, 0, 2, 0, 1, 0, 3, 0, 1],
+    [4, 5, 4, 6, 4, 5, 4, 7, 4, 5],
+  ],
+  frameCount: 6,
+  faultTime: 4,
+  allocation: 'equal',
+  scope: 'local',
+  controller: 'none',
+  window: 10,
+  pffLower: 0.1,
+  pffUpper: 0.4,
+};
+
+// Classes completas por processo, para que o Tailwind as encontre no código
+const PROCESS_COLORS = [
+  'bg-indigo-100 text-indigo-900',
+  'bg-amber-100 text-amber-900',
+  'bg-emerald-100 text-emerald-900',
+  'bg-rose-100 text-rose-900',
+  'bg-sky-100 text-sky-900',
+  'bg-violet-100 text-violet-900',
+  'bg-lime-100 text-lime-900',
+  'bg-orange-100 text-orange-900',
+];
+
+// Componente que simula vários processos dividindo a memória física
+export function Multiprogramming() {
+  const { t, formatNumber } = useI18n();
+
+  // Estados do componente
+  const [values, setValues] = useState(DEFAULT_VALUES); // Processos, memória e controle de carga
+  const [currentStep, setCurrentStep] = useState(0); // Quantas referências já foram executadas
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [narration, setNarration] = useState('');
+  const [isNarrating, setIsNarrating] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Trace completo e curva de utilização calculados pelo motor
+  const trace = useMemo(
+    () => simulateMultiprogramming(values.processes, values),
+    [values]
+  );
+  const curve = useMemo(
+    () => multiprogrammingCurve(values.processes, values),
+    [values]
+  );
+  const current: MultiprogrammingStep | null =
+    currentStep > 0 ? trace.steps[currentStep - 1] : null;
+  const frames = current
+    ? current.frames
+    : Array<null>(trace.frameCount).fill(null);
+  const summary = summarizeMultiprogramming(trace, currentStep);
+  const peak = curve.reduce(
+    (best, point, i) =>
+      point.utilization > curve[best].utilization ? i : best,
+    0
+  );
+
+  // Exibe uma narração com destaque temporário
+  const narrate = (text: string) => {
+    setNarration(text);
+    setIsNarrating(true);
+    setTimeout(() => setIsNarrating(false), 3000);
+  };
+
+  const getNarration = useCallback(
+    (step: MultiprogrammingStep) =>
+      describeMultiprogrammingStep(trace, step, t),
+    [trace, t]
+  );
+
+  // Executa a próxima referência
+  const handleNext = useCallback(() => {
+    if (currentStep < trace.steps.length) {
+      narrate(getNarration(trace.steps[currentStep]));
+      setCurrentStep((prev) => prev + 1);
+    } else {
+      setIsPlaying(false);
+      narrate(t('multi.finished'));
+    }
+  }, [currentStep, trace, getNarration, t]);
+
+  const reset = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+    narrate(t('multi.initialNarration'));
+  };
+
+  // Leva a simulação diretamente a um passo da linha do tempo
+  const jumpTo = (step: number) => {
+    setCurrentStep(step);
+    setIsPlaying(false);
+    narrate(
+      step > 0
+        ? getNarration(trace.steps[step - 1])
+        : t('multi.initialNarration')
+    );
+  };
+
+  // Efeito que controla a execução automática da simulação
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    if (isPlaying) {
+      timeout = setTimeout(handleNext, 2500 / speed);
+    }
+    return () => clearTimeout(timeout);
+  }, [isPlaying, handleNext, speed]);
+
+  return (
+    <div className="bg-gradient-to-br from-indigo-500 to-blue-600 min-h-screen p-8">
+      <div className="max-w-6xl mx-auto bg-white/90 backdrop-blur-lg rounded-2xl shadow-2xl p-8">
+        <div className="flex justify-between items-center mb-8">
+          <h2 className="text-3xl font-bold text-indigo-900">
+            {t('multi.title', { count: values.processes.length })}
+          </h2>
+          <InfoTooltip
+            title={t('multi.tooltipTitle')}
+            content={t('multi.tooltipContent')}
+          />
+        </div>
+
+        <MultiprogrammingSettings
+          {...values}
+          onApply={(newValues) => {
+            setValues(newValues);
+            reset();
+          }}
+        />
+
+        {/* Frames da memória, coloridos pelo processo dono */}
+        <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+          <h3 className="text-xl font-semibold text-indigo-900 mb-4">
+            {t('multi.pool')}
+          </h3>
+          <div className="flex flex-wrap gap-3">
+            {frames.map((frame, index) => (
+              <div key={index} className="flex flex-col items-center gap-1">
+                <div
+                  className={`w-16 h-16 flex flex-col items-center justify-center rounded-lg transition-all duration-500 ${
+                    frame
+                      ? `${PROCESS_COLORS[frame.pid]} border-2 ${
+                          current?.frameIndex === index
+                            ? current.isFault
+                              ? 'border-red-500 scale-110'
+                              : 'border-green-500 scale-110'
+                            : 'border-transparent'
+                        }`
+                      : 'border-2 border-dashed border-indigo-200 text-indigo-300'
+                  }`}
+                >
+                  {frame ? (
+                    <>
+                      <span className="text-xs font-semibold">
+                        P{frame.pid}
+                      </span>
+                      <span className="text-xl font-bold">{frame.page}</span>
+                    </>
+                  ) : (
+                    <span className="text-xs">{t('multi.free')}</span>
+                  )}
+                </div>
+                <span className="text-xs text-indigo-700">{index}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-indigo-700 mt-3">
+            {t('multi.poolLegend')}
+          </p>
+        </div>
+
+        {/* Situação de cada processo */}
+        <div className="bg-white p-6 rounded-xl shadow-md mb-8 overflow-x-auto">
+          <h3 className="text-xl font-semibold text-indigo-900 mb-4">
+            {t('multi.processes')}
+          </h3>
+          <table className="w-full text-left text-indigo-900">
+            <thead>
+              <tr className="border-b border-indigo-100">
+                <th className="py-1 pr-4">{t('multi.process')}</th>
+                <th className="py-1 pr-4">{t('multi.size')}</th>
+                <th className="py-1 pr-4">{t('multi.status')}</th>
+                <th className="py-1 pr-4">{t('multi.progress')}</th>
+                <th className="py-1 pr-4">{t('common.pageFaults')}</th>
+                <th className="py-1 pr-4">{t('multi.faultRate')}</th>
+                <th className="py-1 pr-4">{t('multi.frames')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {values.processes.map((references, pid) => {
+                const state = current?.processes[pid];
+                const executed = state ? state.executed : 0;
+                const faults = state ? state.faults : 0;
+                const quota = state
+                  ? state.quota
+                  : trace.scope === 'local'
+                  ? trace.initialQuotas[pid]
+                  : null;
+                return (
+                  <tr
+                    key={pid}
+                    className={`border-b border-indigo-50 ${
+                      current?.pid === pid ? 'font-semibold' : ''
+                    }`}
+                  >
+                    <td className="py-1 pr-4">
+                      <span
+                        className={`px-2 py-0.5 rounded ${PROCESS_COLORS[pid]}`}
+                      >
+                        P{pid}
+                      </span>
+                    </td>
+                    <td className="py-1 pr-4">{processSize(references)}</td>
+                    <td className="py-1 pr-4">
+                      {t(`multi.statuses.${state ? state.status : 'ready'}`)}
+                    </td>
+                    <td className="py-1 pr-4">
+                      {executed} / {references.length}
+                    </td>
+                    <td className="py-1 pr-4">{faults}</td>
+                    <td className="py-1 pr-4">
+                      {formatNumber(
+                        executed === 0 ? 0 : faults / executed,
+                        PERCENT
+                      )}
+                    </td>
+                    <td className="py-1 pr-4">
+                      {state ? state.resident : 0}
+                      {quota !== null && ` / ${quota}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div
+          className={`bg-gradient-to-r from-indigo-100 to-blue-100 p-4 rounded-lg mb-6 transition-all duration-500 transform flex items-start gap-3 ${
+            isNarrating ? 'scale-102 shadow-lg' : ''
+          }`}
+        >
+          <MessageCircle
+            className={`w-6 h-6 text-indigo-600 mt-1 ${
+              isNarrating ? 'animate-bounce' : ''
+            }`}
+          />
+          <p className="text-indigo-700 text-lg flex-1" aria-live="polite">
+            {narration}
+          </p>
+        </div>
+
+        <PlaybackControls
+          currentStep={currentStep}
+          totalSteps={trace.steps.length}
+          isPlaying={isPlaying}
+          speed={speed}
+          theme="indigo"
+          onTogglePlay={() => setIsPlaying(!isPlaying)}
+          onNext={handleNext}
+          onSeek={jumpTo}
+          onReset={reset}
+          onSpeedChange={setSpeed}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+            <p className="text-lg font-semibold text-indigo-900 mb-2">
+              {t('multi.cpuUtilization')}
+            </p>
+            <p className="text-3xl font-bold text-indigo-700">
+              {formatNumber(summary.utilization, PERCENT)}
+            </p>
+            <p className="text-xs text-indigo-700 mt-1">
+              {t('multi.busyTime', {
+                busy: summary.references,
+                time: summary.time,
+              })}
+            </p>
+          </div>
+          <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+            <p className="text-lg font-semibold text-indigo-900 mb-2">
+              {t('common.pageFaults')}
+            </p>
+            <p className="text-3xl font-bold text-indigo-700">
+              {summary.faults}
+            </p>
+            <p className="text-xs text-indigo-700 mt-1">
+              {formatNumber(summary.faultRate, PERCENT)}
+            </p>
+          </div>
+          <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+            <p className="text-lg font-semibold text-indigo-900 mb-2">
+              {t('multi.elapsed')}
+            </p>
+            <p className="text-3xl font-bold text-indigo-700">
+              {t('multi.ticks', { time: summary.time })}
+            </p>
+          </div>
+        </div>
+
+        {/* Curva de thrashing */}
+        <div className="mb-8">
+          <LineChart
+            title={t('multi.curveTitle')}
+            xLabel={t('multi.degree')}
+            yLabel={t('multi.percent')}
+            xValues={curve.map((point) => point.degree)}
+            series={[
+              {
+                label: t('multi.utilizationSeries'),
+                values: curve.map((point) => point.utilization * 100),
+                color: '#4f46e5',
+              },
+              {
+                label: t('multi.faultRateSeries'),
+                values: curve.map((point) => point.faultRate * 100),
+                color: '#dc2626',
+              },
+            ]}
+            markers={[{ series: t('multi.utilizationSeries'), index: peak }]}
+          />
+          <p className="text-sm text-indigo-700 mt-2">
+            {t('multi.curveLegend')}
+          </p>
+        </div>
+
+        <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+          <h3 className="text-xl font-semibold text-indigo-900 mb-4">
+            {t('multi.about')}
+          </h3>
+          <p className="text-indigo-700">{t('multi.aboutText')}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+import { useState } from 'react';
+import { Check, Flame } from 'lucide-react';
+import {
+  FRAME_ALLOCATIONS,
+  FrameAllocation,
+  MEMORY_CONTROLLERS,
+  MemoryController,
+  REPLACEMENT_SCOPES,
+  ReplacementScope,
+} from '../engines/multiprogramming';
+import {
+  MAX_FAULT_TICKS,
+  MAX_POOL_FRAMES,
+  MAX_PROCESSES,
+  MAX_WINDOW,
+  parseIntegerInRange,
+  parseProcessList,
+} from '../engines/input';
+import { generateProcessReferences } from '../engines/workloads';
+import { useI18n } from '../i18n/context';
+
+export interface MultiprogrammingValues {
+  processes: number[][];
+  frameCount: number;
+  faultTime: number;
+  allocation: FrameAllocation;
+  scope: ReplacementScope;
+  controller: MemoryController;
+  window: number;
+  pffLower: number; // Fração de 0 a 1
+  pffUpper: number;
+}
+
+// Cenário que mostra o thrashing: 8 processos com localidade disputando 16 frames
+const THRASHING_DEMO: MultiprogrammingValues = {
+  processes: generateProcessReferences(8, 1),
+  frameCount: 16,
+  faultTime: 5,
+  allocation: 'equal',
+  scope: 'global',
+  controller: 'none',
+  window: 10,
+  pffLower: 0.1,
+  pffUpper: 0.4,
+};
+
+const processesToText = (processes: number[][]) =>
+  processes.map((references) => references.join(' ')).join('\n');
+
+// As taxas do PFF são editadas em porcentagem inteira
+const toPercent = (fraction: number) => String(Math.round(fraction * 100));
+
+interface MultiprogrammingSettingsProps extends MultiprogrammingValues {
+  onApply: (values: MultiprogrammingValues) => void;
+}
+
+/**
+ * Painel de configuração da memória compartilhada por vários processos.
+ *
+ * Cada linha da caixa de texto é um processo. A janela só aparece com um
+ * controle de carga, e as taxas do PFF só com o PFF; com qualquer controle,
+ * o escopo fica travado em local.
+ */
+export function MultiprogrammingSettings({
+  processes,
+  frameCount,
+  faultTime,
+  allocation,
+  scope,
+  controller,
+  window,
+  pffLower,
+  pffUpper,
+  onApply,
+}: MultiprogrammingSettingsProps) {
+  const { t } = useI18n();
+  const [processesText, setProcessesText] = useState(
+    processesToText(processes)
+  );
+  const [framesText, setFramesText] = useState(String(frameCount));
+  const [faultTimeText, setFaultTimeText] = useState(String(faultTime));
+  const [draftAllocation, setDraftAllocation] = useState(allocation);
+  const [draftScope, setDraftScope] = useState(scope);
+  const [draftController, setDraftController] = useState(controller);
+  const [windowText, setWindowText] = useState(String(window));
+  const [lowerText, setLowerText] = useState(toPercent(pffLower));
+  const [upperText, setUpperText] = useState(toPercent(pffUpper));
+  const [applied, setApplied] = useState<MultiprogrammingValues>({
+    processes,
+    frameCount,
+    faultTime,
+    allocation,
+    scope,
+    controller,
+    window,
+    pffLower,
+    pffUpper,
+  });
+
+  // Se a configuração mudar por fora do painel, o rascunho acompanha
+  if (
+    applied.processes !== processes ||
+    applied.frameCount !== frameCount ||
+    applied.faultTime !== faultTime ||
+    applied.allocation !== allocation ||
+    applied.scope !== scope ||
+    applied.controller !== controller ||
+    applied.window !== window ||
+    applied.pffLower !== pffLower ||
+    applied.pffUpper !== pffUpper
+  ) {
+    setApplied({
+      processes,
+      frameCount,
+      faultTime,
+      allocation,
+      scope,
+      controller,
+      window,
+      pffLower,
+      pffUpper,
+    });
+    setProcessesText(processesToText(processes));
+    setFramesText(String(frameCount));
+    setFaultTimeText(String(faultTime));
+    setDraftAllocation(allocation);
+    setDraftScope(scope);
+    setDraftController(controller);
+    setWindowText(String(window));
+    setLowerText(toPercent(pffLower));
+    setUpperText(toPercent(pffUpper));
+  }
+
+  const processList = parseProcessList(processesText, MAX_PROCESSES, t);
+  const frames = parseIntegerInRange(
+    framesText,
+    t('input.labels.frames'),
+    1,
+    MAX_POOL_FRAMES,
+    t
+  );
+  const framesFit =
+    !processList.ok || !frames.ok || frames.value >= processList.value.length;
+  const faultTicks = parseIntegerInRange(
+    faultTimeText,
+    t('input.labels.faultTime'),
+    0,
+    MAX_FAULT_TICKS,
+    t
+  );
+  const windowSize = parseIntegerInRange(
+    windowText,
+    t('input.labels.window'),
+    1,
+    MAX_WINDOW,
+    t
+  );
+  const lower = parseIntegerInRange(
+    lowerText,
+    t('input.labels.pffLower'),
+    0,
+    100,
+    t
+  );
+  const upper = parseIntegerInRange(
+    upperText,
+    t('input.labels.pffUpper'),
+    0,
+    100,
+    t
+  );
+  const boundsOrdered = !lower.ok || !upper.ok || lower.value <= upper.value;
+  // A janela e as taxas só valem para o controle que as usa
+  const needsWindow = draftController !== 'none';
+  const needsBounds = draftController === 'pff';
+  const controllerError = [
+    ...(needsWindow ? [windowSize] : []),
+    ...(needsBounds ? [lower, upper] : []),
+  ].find((r) => !r.ok);
+  const isValid =
+    processList.ok &&
+    frames.ok &&
+    framesFit &&
+    faultTicks.ok &&
+    controllerError === undefined &&
+    (!needsBounds || boundsOrdered);
+
+  const apply = () => {
+    if (!processList.ok || !frames.ok || !faultTicks.ok || !isValid) return;
+    onApply({
+      processes: processList.value,
+      frameCount: frames.value,
+      faultTime: faultTicks.value,
+      allocation: draftAllocation,
+      scope: draftScope,
+      controller: draftController,
+      window: needsWindow && windowSize.ok ? windowSize.value : window,
+      pffLower: needsBounds && lower.ok ? lower.value / 100 : pffLower,
+      pffUpper: needsBounds && upper.ok ? upper.value / 100 : pffUpper,
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <h3 className="text-xl font-semibold text-indigo-900 mb-4">
+        {t('common.settings')}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+        <label className="md:col-span-4 flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('multi.settings.processes', { max: MAX_PROCESSES })}
+          </span>
+          <textarea
+            value={processesText}
+            onChange={(e) => setProcessesText(e.target.value)}
+            rows={Math.max(3, processesText.split('\n').length)}
+            placeholder={'0 1 2 0 1 3\n5 6 5 7 5 6'}
+            className="px-3 py-2 rounded-lg border border-indigo-200 font-mono"
+          />
+          {!processList.ok && (
+            <span className="text-sm text-red-600">{processList.error}</span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('multi.settings.frames', { max: MAX_POOL_FRAMES })}
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_POOL_FRAMES}
+            value={framesText}
+            onChange={(e) => setFramesText(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-indigo-200"
+          />
+          {!frames.ok && (
+            <span className="text-sm text-red-600">{frames.error}</span>
+          )}
+          {!framesFit && (
+            <span className="text-sm text-red-600">
+              {t('multi.settings.tooFewFrames')}
+            </span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">{t('multi.settings.faultTime')}</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_FAULT_TICKS}
+            value={faultTimeText}
+            onChange={(e) => setFaultTimeText(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-indigo-200"
+          />
+          {!faultTicks.ok && (
+            <span className="text-sm text-red-600">{faultTicks.error}</span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('multi.settings.allocation')}
+          </span>
+          <select
+            value={draftAllocation}
+            onChange={(e) =>
+              setDraftAllocation(e.target.value as FrameAllocation)
+            }
+            className="px-3 py-2 rounded-lg border border-indigo-200 bg-white"
+          >
+            {FRAME_ALLOCATIONS.map((option) => (
+              <option key={option} value={option}>
+                {t(`multi.allocations.${option}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">{t('multi.settings.scope')}</span>
+          <select
+            value={draftController === 'none' ? draftScope : 'local'}
+            onChange={(e) => setDraftScope(e.target.value as ReplacementScope)}
+            disabled={draftController !== 'none'}
+            className="px-3 py-2 rounded-lg border border-indigo-200 bg-white disabled:opacity-50"
+          >
+            {REPLACEMENT_SCOPES.map((option) => (
+              <option key={option} value={option}>
+                {t(`multi.scopes.${option}`)}
+              </option>
+            ))}
+          </select>
+          {draftController !== 'none' && (
+            <span className="text-xs text-indigo-700">
+              {t('multi.settings.scopeLocked')}
+            </span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('multi.settings.controller')}
+          </span>
+          <select
+            value={draftController}
+            onChange={(e) =>
+              setDraftController(e.target.value as MemoryController)
+            }
+            className="px-3 py-2 rounded-lg border border-indigo-200 bg-white"
+          >
+            {MEMORY_CONTROLLERS.map((option) => (
+              <option key={option} value={option}>
+                {t(`multi.controllers.${option}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        {needsWindow && (
+          <label className="flex flex-col gap-1 text-indigo-900">
+            <span className="font-semibold">{t('multi.settings.window')}</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_WINDOW}
+              value={windowText}
+              onChange={(e) => setWindowText(e.target.value)}
+              className="px-3 py-2 rounded-lg border border-indigo-200"
+            />
+          </label>
+        )}
+        {needsBounds && (
+          <>
+            <label className="flex flex-col gap-1 text-indigo-900">
+              <span className="font-semibold">
+                {t('multi.settings.pffLower')}
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={lowerText}
+                onChange={(e) => setLowerText(e.target.value)}
+                className="px-3 py-2 rounded-lg border border-indigo-200"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-indigo-900">
+              <span className="font-semibold">
+                {t('multi.settings.pffUpper')}
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={upperText}
+                onChange={(e) => setUpperText(e.target.value)}
+                className="px-3 py-2 rounded-lg border border-indigo-200"
+              />
+            </label>
+          </>
+        )}
+      </div>
+      {controllerError && !controllerError.ok && (
+        <span className="text-sm text-red-600">{controllerError.error}</span>
+      )}
+      {needsBounds && !boundsOrdered && (
+        <span className="text-sm text-red-600">
+          {t('multi.settings.pffOrder')}
+        </span>
+      )}
+      <div className="mt-4 flex flex-wrap gap-4">
+        <button
+          onClick={apply}
+          disabled={!isValid}
+          className="flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Check size={20} />
+          {t('common.apply')}
+        </button>
+        <button
+          onClick={() => onApply(THRASHING_DEMO)}
+          className="flex items-center gap-2 px-6 py-2 rounded-xl bg-white text-indigo-700 hover:bg-indigo-50 shadow-md transition-all transform hover:scale-105"
+        >
+          <Flame size={20} />
+          {t('multi.settings.thrashingDemo')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { BarChart } from './BarChart';
+import { PlaybackControls } from './PlaybackControls';
+import { useI18n } from '../i18n/context';
+import { PERCENT } from '../i18n/translate';
+import {
+  FrameState,
+  PAGE_ALGORITHMS,
+  PageAlgorithm,
+  simulatePageReplacement,
+  summarizePageTrace,
+} from '../engines/pageReplacement';
+
+interface PageComparisonProps {
+  sequence: number[];
+  writes: boolean[];
+  frameCount: number;
+}
+
+/**
+ * Modo de comparação da substituição de páginas.
+ *
+ * Executa todos os algoritmos sobre a mesma sequência e exibe uma tabela de
+ * resultados, um gráfico de page faults e a reprodução sincronizada, passo a
+ * passo, dos algoritmos escolhidos em faixas paralelas. O componente pai
+ * deve trocar a `key` quando a entrada mudar, para reiniciar a reprodução.
+ */
+export function PageComparison({
+  sequence,
+  writes,
+  frameCount,
+}: PageComparisonProps) {
+  const { t, formatNumber } = useI18n();
+  const [lanes, setLanes] = useState<PageAlgorithm[]>(['FIFO', 'LRU', 'OPT']); // Algoritmos exibidos nas faixas
+  const [currentStep, setCurrentStep] = useState(0); // Passo compartilhado por todas as faixas
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1); // Multiplicador da velocidade de reprodução
+
+  const traces = useMemo(
+    () =>
+      PAGE_ALGORITHMS.map((algorithm) =>
+        simulatePageReplacement(sequence, { algorithm, frameCount, writes })
+      ),
+    [sequence, writes, frameCount]
+  );
+  const showWrites = writes.some(Boolean);
+  const summaries = traces.map(summarizePageTrace);
+  const fewestFaults = Math.min(...summaries.map((s) => s.faults));
+
+  const handleNext = useCallback(() => {
+    if (currentStep < sequence.length) {
+      setCurrentStep((prev) => prev + 1);
+    } else {
+      setIsPlaying(false);
+    }
+  }, [currentStep, sequence.length]);
+
+  const reset = () => {
+    setCurrentStep(0);
+    setIsPlaying(false);
+  };
+
+  // Leva todas as faixas a um passo qualquer (linha do tempo, início e fim)
+  const jumpTo = (step: number) => {
+    setCurrentStep(step);
+    setIsPlaying(false);
+  };
+
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    if (isPlaying) {
+      timeout = setTimeout(handleNext, 1500 / speed);
+    }
+    return () => clearTimeout(timeout);
+  }, [isPlaying, handleNext, speed]);
+
+  const toggleLane = (algorithm: PageAlgorithm) =>
+    setLanes((prev) =>
+      prev.includes(algorithm)
+        ? prev.filter((a) => a !== algorithm)
+        : PAGE_ALGORITHMS.filter((a) => a === algorithm || prev.includes(a))
+    );
+
+  return (
+    <div className="space-y-8">
+      {/* Tabela de resultados */}
+      <div className="bg-white p-6 rounded-xl shadow-md overflow-x-auto">
+        <table className="w-full text-left text-indigo-900">
+          <thead>
+            <tr className="border-b border-indigo-100">
+              <th className="py-2 pr-4">{t('common.algorithm')}</th>
+              <th className="py-2 pr-4">{t('common.pageFaults')}</th>
+              <th className="py-2 pr-4">{t('common.hits')}</th>
+              <th className="py-2 pr-4">{t('common.hitRatio')}</th>
+              {showWrites && (
+                <>
+                  <th className="py-2 pr-4">{t('common.writeBacks')}</th>
+                  <th className="py-2 pr-4">{t('common.totalIO')}</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {PAGE_ALGORITHMS.map((algorithm, i) => (
+              <tr
+                key={algorithm}
+                className={`border-b border-indigo-50 ${
+                  summaries[i].faults === fewestFaults
+                    ? 'bg-green-50 font-semibold'
+                    : ''
+                }`}
+              >
+                <td className="py-2 pr-4">{algorithm}</td>
+                <td className="py-2 pr-4">{summaries[i].faults}</td>
+                <td className="py-2 pr-4">{summaries[i].hits}</td>
+                <td className="py-2 pr-4">
+                  {formatNumber(summaries[i].hitRatio, PERCENT)}
+                </td>
+                {showWrites && (
+                  <>
+                    <td className="py-2 pr-4">{summaries[i].writeBacks}</td>
+                    <td className="py-2 pr-4">{summaries[i].totalIO}</td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <BarChart
+          title={t('comparison.faultsChart')}
+          data={PAGE_ALGORITHMS.map((algorithm, i) => ({
+            label: algorithm,
+            value: summaries[i].faults,
+          }))}
+          color="#4f46e5"
+          highlightMin
+        />
+        <BarChart
+          title={t('comparison.hitRatioChart')}
+          data={PAGE_ALGORITHMS.map((algorithm, i) => ({
+            label: algorithm,
+            value: summaries[i].hitRatio * 100,
+          }))}
+          color="#2563eb"
+          formatValue={(v) => formatNumber(v / 100, PERCENT)}
+        />
+      </div>
+
+      {/* Reprodução sincronizada */}
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h3 className="text-xl font-semibold text-indigo-900">
+            {t('comparison.pagePlayback', {
+              step: currentStep,
+              total: sequence.length,
+            })}
+            {currentStep > 0 &&
+              t('comparison.currentPage', { page: sequence[currentStep - 1] })}
+          </h3>
+        </div>
+
+        <PlaybackControls
+          currentStep={currentStep}
+          totalSteps={sequence.length}
+          isPlaying={isPlaying}
+          speed={speed}
+          theme="indigo"
+          onTogglePlay={() => setIsPlaying(!isPlaying)}
+          onNext={handleNext}
+          onSeek={jumpTo}
+          onReset={reset}
+          onSpeedChange={setSpeed}
+        />
+
+        <div className="flex flex-wrap gap-3 mb-4 text-sm text-indigo-900">
+          {PAGE_ALGORITHMS.map((algorithm) => (
+            <label key={algorithm} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={lanes.includes(algorithm)}
+                onChange={() => toggleLane(algorithm)}
+                className="accent-indigo-600"
+              />
+              {algorithm}
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          {lanes.map((algorithm) => {
+            const trace = traces[PAGE_ALGORITHMS.indexOf(algorithm)];
+            const step =
+              currentStep > 0 ? trace.steps[currentStep - 1] : undefined;
+            return (
+              <div
+                key={algorithm}
+                className="flex items-center gap-4 p-3 rounded-lg bg-indigo-50"
+              >
+                <span className="w-16 font-semibold text-indigo-900">
+                  {algorithm}
+                </span>
+                <div className="flex gap-2">
+                  {(step
+                    ? step.frames
+                    : Array<FrameState | null>(frameCount).fill(null)
+                  ).map((frame, index) => (
+                    <div
+                      key={index}
+                      className={`w-10 h-10 flex items-center justify-center rounded-md font-bold ${
+                        frame
+                          ? `border-2 ${
+                              step?.isFault && step.frameIndex === index
+                                ? 'border-green-500 bg-green-50'
+                                : 'border-indigo-400 bg-white'
+                            }`
+                          : 'border-2 border-dashed border-indigo-200'
+                      }`}
+                    >
+                      {frame?.page}
+                    </div>
+                  ))}
+                </div>
+                <span
+                  className={`w-16 text-sm font-semibold ${
+                    step?.isFault ? 'text-red-600' : 'text-green-700'
+                  }`}
+                >
+                  {step && t(step.isFault ? 'common.fault' : 'common.hit')}
+                </span>
+                <span className="text-sm text-indigo-700">
+                  {t('comparison.faults', { count: step ? step.faults : 0 })}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { CheckCircle2, RefreshCw, XCircle } from 'lucide-react';
+import { describePageStep } from '../engines/narration';
+import { FrameState, PageTrace } from '../engines/pageReplacement';
+import {
+  PageAnswer,
+  PageQuestionResult,
+  gradePageAnswer,
+  quizScore,
+} from '../engines/quiz';
+import { useI18n } from '../i18n/context';
+import { RichText } from '../i18n/RichText';
+import { Translate } from '../i18n/translate';
+
+interface PageQuizProps {
+  trace: PageTrace;
+}
+
+const formatAnswer = ({ isFault, victim }: PageAnswer, t: Translate) =>
+  !isFault
+    ? t('quiz.hitAnswer')
+    : victim !== null
+    ? t('quiz.victimAnswer', { victim })
+    : t('quiz.faultAnswer');
+
+/**
+ * Modo de exercício da substituição de páginas.
+ *
+ * A simulação para antes de cada referência: o aluno diz se haverá hit ou
+ * page fault e, com a memória cheia, qual página será substituída. A
+ * resposta é corrigida com o trace do motor e explicada com a mesma
+ * narração da simulação. Ao final, mostra a nota e a revisão de cada
+ * pergunta. O componente pai deve trocar a `key` quando a entrada mudar.
+ */
+export function PageQuiz({ trace }: PageQuizProps) {
+  const { t, formatNumber } = useI18n();
+  const [results, setResults] = useState<PageQuestionResult[]>([]); // Perguntas já respondidas
+  const [isFault, setIsFault] = useState<boolean | null>(null); // Previsão de hit/fault
+  const [victim, setVictim] = useState<number | null>(null); // Previsão da vítima
+  const [showFeedback, setShowFeedback] = useState(false); // Exibindo a correção da última resposta?
+
+  const { algorithm, frameCount, references, steps } = trace;
+  const question = showFeedback ? results.length - 1 : results.length;
+  const finished = !showFeedback && results.length === steps.length;
+  const step = steps[question];
+  const before: (FrameState | null)[] =
+    question > 0
+      ? steps[question - 1].frames
+      : Array<FrameState | null>(frameCount).fill(null);
+  const isFull = before.every((frame) => frame !== null);
+  const frames = showFeedback ? step.frames : before;
+  const canSubmit =
+    isFault === false || (isFault === true && (!isFull || victim !== null));
+  const lastResult = results[results.length - 1];
+
+  const submit = () => {
+    setResults((prev) => [
+      ...prev,
+      gradePageAnswer(step, {
+        isFault: isFault === true,
+        victim: isFault && isFull ? victim : null,
+      }),
+    ]);
+    setShowFeedback(true);
+  };
+
+  const next = () => {
+    setShowFeedback(false);
+    setIsFault(null);
+    setVictim(null);
+  };
+
+  const restart = () => {
+    setResults([]);
+    next();
+  };
+
+  const choiceClass = (selected: boolean) =>
+    `px-4 py-2 rounded-lg transition-all ${
+      selected
+        ? 'bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg'
+        : 'bg-white text-indigo-700 hover:bg-indigo-50 shadow-md'
+    }`;
+
+  if (finished) {
+    const score = quizScore(results);
+    return (
+      <div className="space-y-8">
+        <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md text-center">
+          <p className="text-lg font-semibold text-indigo-900 mb-2">
+            {t('quiz.result', { algorithm })}
+          </p>
+          <p className="text-4xl font-bold text-indigo-700">
+            {score.correct} / {score.total}
+          </p>
+          <p className="text-indigo-700">
+            {t('quiz.percent', {
+              percent: formatNumber(score.percent / 100, { style: 'percent' }),
+            })}
+          </p>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-md overflow-x-auto">
+          <h3 className="text-xl font-semibold text-indigo-900 mb-4">
+            {t('quiz.review')}
+          </h3>
+          <table className="w-full text-left text-indigo-900">
+            <thead>
+              <tr className="border-b border-indigo-100">
+                <th className="py-2 pr-4">{t('quiz.step')}</th>
+                <th className="py-2 pr-4">{t('quiz.reference')}</th>
+                <th className="py-2 pr-4">{t('quiz.yourAnswer')}</th>
+                <th className="py-2 pr-4">{t('quiz.correctAnswer')}</th>
+                <th className="py-2 pr-4">{t('quiz.outcome')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((result) => (
+                <tr
+                  key={result.step}
+                  className="border-b border-indigo-50 last:border-0"
+                >
+                  <td className="py-2 pr-4">{result.step + 1}</td>
+                  <td className="py-2 pr-4 font-mono">
+                    {references[result.step]}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {formatAnswer(result.answer, t)}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {formatAnswer(result.expected, t)}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {result.correct ? (
+                      <CheckCircle2 className="text-green-600" size={20} />
+                    ) : (
+                      <XCircle className="text-red-600" size={20} />
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-center">
+          <button onClick={restart} className={choiceClass(true)}>
+            <span className="flex items-center gap-2">
+              <RefreshCw size={18} />
+              {t('quiz.restart')}
+            </span>
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Sequência, com a referência da pergunta em destaque */}
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <p className="text-indigo-900 font-semibold mb-3">
+          {t('quiz.progress', {
+            current: question + 1,
+            total: steps.length,
+            correct: quizScore(results).correct,
+          })}
+        </p>
+        <div className="flex flex-wrap gap-2 font-mono">
+          {references.map((page, i) => (
+            <span
+              key={i}
+              className={`px-2 py-1 rounded ${
+                i === question
+                  ? 'bg-indigo-600 text-white font-bold'
+                  : i < question
+                  ? 'bg-indigo-50 text-indigo-400'
+                  : 'bg-indigo-50 text-indigo-900'
+              }`}
+            >
+              {page}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Frames antes (ou, na correção, depois) da referência */}
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <div className="flex justify-center gap-4">
+          {frames.map((frame, index) => {
+            const isLoaded =
+              showFeedback && step.isFault && step.frameIndex === index;
+            return (
+              <div
+                key={index}
+                className={`w-20 h-20 flex items-center justify-center border-2 rounded-lg text-2xl font-bold ${
+                  frame
+                    ? isLoaded
+                      ? 'border-indigo-500 bg-green-50'
+                      : 'border-indigo-500 bg-indigo-50'
+                    : 'border-dashed border-indigo-200'
+                }`}
+              >
+                {frame?.page}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {showFeedback ? (
+        <div
+          className={`p-6 rounded-xl shadow-md ${
+            lastResult.correct
+              ? 'bg-green-50 text-green-900'
+              : 'bg-red-50 text-red-900'
+          }`}
+        >
+          <p className="flex items-center gap-2 text-lg font-semibold mb-2">
+            {lastResult.correct ? <CheckCircle2 /> : <XCircle />}
+            {lastResult.correct
+              ? t('quiz.correct')
+              : t('quiz.incorrect', {
+                  answer: formatAnswer(lastResult.expected, t),
+                })}
+          </p>
+          <p className="mb-4">{describePageStep(algorithm, step, t)}</p>
+          <button onClick={next} className={choiceClass(true)}>
+            {t(
+              results.length === steps.length ? 'quiz.seeResult' : 'quiz.next'
+            )}
+          </button>
+        </div>
+      ) : (
+        <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md space-y-4 text-indigo-900">
+          <p className="text-lg">
+            <RichText
+              text={t('quiz.pageQuestion')}
+              values={{ page: <strong>{step.page}</strong> }}
+            />
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIsFault(false)}
+              className={choiceClass(isFault === false)}
+            >
+              {t('common.hit')}
+            </button>
+            <button
+              onClick={() => setIsFault(true)}
+              className={choiceClass(isFault === true)}
+            >
+              {t('quiz.pageFault')}
+            </button>
+          </div>
+          {isFault && isFull && (
+            <>
+              <p className="text-lg">{t('quiz.victimQuestion')}</p>
+              <div className="flex flex-wrap gap-2">
+                {before.map(
+                  (frame, index) =>
+                    frame && (
+                      <button
+                        key={index}
+                        onClick={() => setVictim(frame.page)}
+                        className={choiceClass(victim === frame.page)}
+                      >
+                        {frame.page}
+                      </button>
+                    )
+                )}
+              </div>
+            </>
+          )}
+          <button
+            onClick={submit}
+            disabled={!canSubmit}
+            className="px-6 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('quiz.submit')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,307 +1,510 @@
-import React, { useState, useEffect } from 'react';
-import {
-  ChevronRight,
-  Play,
-  Pause,
-  RefreshCw,
-  MessageCircle,
-} from 'lucide-react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { MessageCircle } from 'lucide-react';
 import { InfoTooltip } from './InfoTooltip';
+import { PlaybackControls } from './PlaybackControls';
+import { PageSettings } from './PageSettings';
+import { PageComparison } from './PageComparison';
+import { BeladyExplorer } from './BeladyExplorer';
+import { PageTraceTable } from './PageTraceTable';
+import { ScenarioActions } from './ScenarioActions';
+import { PageReport } from './PageReport';
+import { PageQuiz } from './PageQuiz';
+import { TraceFileLoader } from './TraceFileLoader';
+import { TraceSummary } from './TraceSummary';
+import {
+  CLOCK_ALGORITHMS,
+  FrameState,
+  PAGE_ALGORITHMS,
+  PageAlgorithm,
+  PageStep,
+  nextUse,
+  simulatePageReplacement,
+} from '../engines/pageReplacement';
+import { describePageStep } from '../engines/narration';
+import { MAX_PAGE_NUMBER, formatReferenceList } from '../engines/input';
+import { TRACE_PAGE_SIZES, renumberPages } from '../engines/traceFiles';
+import type { TraceResult } from '../utils/traceWorker';
+import { useI18n } from '../i18n/context';
+import {
+  PageScenario,
+  mergeHash,
+  scenarioFromHash,
+  scenarioToHashParams,
+} from '../engines/scenario';
+
+type Mode = 'simulation' | 'quiz' | 'comparison' | 'belady';
+
+const MODES: Mode[] = ['simulation', 'quiz', 'comparison', 'belady'];
 
-// Interface que define a estrutura de uma página na memória
-interface Page {
-  id: number; // Identificador da página
-  timestamp: number; // Timestamp do último acesso (usado no LRU)
-  isEntering?: boolean; // Indica se a página está entrando na memória (para animação)
-  isLeaving?: boolean; // Indica se a página está saindo da memória (para animação)
-  prevValue?: number; // Valor anterior da página (usado para animação de substituição)
+// Cenário inicial quando a URL não traz um
+const DEFAULT_SCENARIO: PageScenario = {
+  kind: 'page',
+  algorithm: 'FIFO',
+  frameCount: 3,
+  references: [1, 3, 0, 3, 5, 6, 3],
+  writes: [0, 1, 0, 0, 0, 0, 0],
+  step: 0,
+};
+
+// Lê o cenário do hash da URL; hashes inválidos são ignorados
+function initialScenario(): PageScenario {
+  const result = scenarioFromHash(window.location.hash, 'page');
+  return result?.ok && result.value.kind === 'page'
+    ? result.value
+    : DEFAULT_SCENARIO;
 }
 
 // Componente principal que simula a substituição de páginas
 export function PageReplacement() {
+  const { t } = useI18n();
+
   // Estados do componente
-  const [pages, setPages] = useState<Page[]>([]); // Páginas atualmente na memória
-  const [sequence, setSequence] = useState<number[]>([1, 3, 0, 3, 5, 6, 3]); // Sequência de referências de páginas
-  const [currentStep, setCurrentStep] = useState(0); // Passo atual na sequência
+  const [initial] = useState(initialScenario); // Cenário aberto pela URL
+  const [sequence, setSequence] = useState<number[]>(initial.references); // Sequência de referências de páginas
+  const [writes, setWrites] = useState<boolean[]>(() =>
+    initial.writes.map(Boolean)
+  ); // Quais referências são escritas (ligam o bit M)
+  const [currentStep, setCurrentStep] = useState(initial.step); // Quantos passos do trace já foram exibidos
   const [isPlaying, setIsPlaying] = useState(false); // Indica se a simulação está em execução
-  const [algorithm, setAlgorithm] = useState<'FIFO' | 'LRU'>('FIFO'); // Algoritmo selecionado (FIFO ou LRU)
-  const [pageFaults, setPageFaults] = useState(0); // Contador de page faults
+  const [algorithm, setAlgorithm] = useState<PageAlgorithm>(initial.algorithm); // Algoritmo selecionado
   const [narration, setNarration] = useState(''); // Narração que explica o que está acontecendo
   const [isNarrating, setIsNarrating] = useState(false); // Indica se a narração está ativa
-  const frameSize = 3; // Tamanho máximo da memória (número de páginas que cabem na memória)
+  const [mode, setMode] = useState<Mode>('simulation'); // Simulação, comparação ou explorador de Belady
+  const [frameSize, setFrameSize] = useState(initial.frameCount); // Tamanho máximo da memória (número de páginas que cabem na memória)
+  const [speed, setSpeed] = useState(1); // Multiplicador da velocidade de reprodução
+  const [showReport, setShowReport] = useState(false); // Relatório imprimível aberto?
+  const [tracePageSize, setTracePageSize] = useState(4096); // Tamanho da página ao converter endereços de um trace
+  const [largeTrace, setLargeTrace] = useState<TraceResult | null>(null); // Trace longo exibido como resumo
 
-  // Função que gera a narração com base no passo atual e no estado da simulação
-  const getNarration = (
-    step: number,
-    newPage: number,
-    isPageFault: boolean
-  ) => {
-    if (step === 0) {
-      return `Bem-vindo! Vamos começar a simulação do algoritmo ${algorithm}. 
-              Primeiro, vamos adicionar a página ${newPage} à memória.`;
-    }
+  // Trace completo calculado pelo motor; o componente apenas o exibe
+  const trace = useMemo(
+    () =>
+      simulatePageReplacement(sequence, {
+        algorithm,
+        frameCount: frameSize,
+        writes,
+      }),
+    [sequence, writes, algorithm, frameSize]
+  );
+  const current: PageStep | null =
+    currentStep > 0 ? trace.steps[currentStep - 1] : null;
+  const frames = current
+    ? current.frames
+    : Array<FrameState | null>(frameSize).fill(null);
+  const pageFaults = current ? current.faults : 0;
+  const writeBacks = current ? current.writeBacks : 0;
+  const hand = current
+    ? current.hand
+    : CLOCK_ALGORITHMS.includes(algorithm)
+    ? 0
+    : null;
 
-    if (isPageFault) {
-      if (algorithm === 'FIFO') {
-        return `Detectamos um page fault! 
-                A página ${newPage} precisa ser carregada, mas a memória está cheia.
-                Seguindo o princípio First-In-First-Out, vamos remover a página mais antiga.`;
-      } else {
-        return `Detectamos um page fault! 
-                A página ${newPage} não está na memória.
-                Usando LRU, vamos remover a página que não foi acessada há mais tempo.`;
+  // Exibe uma narração com destaque temporário
+  const narrate = (text: string) => {
+    setNarration(text);
+    setIsNarrating(true);
+    setTimeout(() => setIsNarrating(false), 3000);
+  };
+
+  // Metadados que o algoritmo mantém para cada frame (bits, contadores, tempos)
+  const frameMetadata = (frame: FrameState) => {
+    switch (algorithm) {
+      case 'FIFO':
+        return t('page.metadata.loadedAt', { time: frame.loadedAt });
+      case 'LRU':
+        return t('page.metadata.lastUsedAt', { time: frame.lastUsedAt });
+      case 'OPT': {
+        const next = nextUse(sequence, frame.page, currentStep);
+        return t('page.metadata.nextUse', {
+          time: next === Infinity ? '∞' : next,
+        });
       }
+      case 'CLOCK':
+        return `R=${Number(frame.referenceBit)}`;
+      case 'ESC':
+      case 'NRU':
+        return `R=${Number(frame.referenceBit)} M=${Number(frame.modified)}`;
+      case 'LFU':
+      case 'MFU':
+        return t('page.metadata.frequency', { count: frame.frequency });
     }
-
-    return algorithm === 'LRU'
-      ? `Ótimo! A página ${newPage} já está na memória. 
-         Vamos atualizar seu timestamp para registrar este acesso recente.`
-      : `A página ${newPage} já está na memória. 
-         No FIFO, não precisamos fazer nenhuma atualização adicional.`;
   };
 
-  // Função que avança para o próximo passo na simulação
-  const handleNext = () => {
-    if (currentStep < sequence.length) {
-      const newPage = sequence[currentStep];
-      const isPageFault = !pages.some((p) => p.id === newPage); // Verifica se a página não está na memória
-
-      setNarration(getNarration(currentStep, newPage, isPageFault));
-      setIsNarrating(true);
-
-      setTimeout(() => setIsNarrating(false), 3000);
-
-      if (isPageFault) {
-        setPageFaults((prev) => prev + 1);
-
-        if (pages.length < frameSize) {
-          // Se ainda há espaço na memória, adiciona a nova página
-          setPages((prev) => [
-            ...prev,
-            {
-              id: newPage,
-              timestamp: Date.now(),
-              isEntering: true,
-            },
-          ]);
-        } else {
-          // Se a memória está cheia, substitui uma página
-          if (algorithm === 'FIFO') {
-            const oldPage = pages[0];
-            // Marca a página antiga para sair
-            setPages((prev) =>
-              prev.map((p, i) => (i === 0 ? { ...p, isLeaving: true } : p))
-            );
-            // Aguarda a animação de saída antes de adicionar a nova página
-            setTimeout(() => {
-              setPages((prev) => [
-                ...prev.slice(1).map((p) => ({ ...p, isLeaving: false })),
-                {
-                  id: newPage,
-                  timestamp: Date.now(),
-                  isEntering: true,
-                  prevValue: oldPage.id,
-                },
-              ]);
-            }, 500); // Ajuste o tempo conforme necessário
-          } else if (algorithm === 'LRU') {
-            const leastRecentIndex = pages.reduce(
-              (min, p, i, arr) => (p.timestamp < arr[min].timestamp ? i : min),
-              0
-            );
-            const oldPage = pages[leastRecentIndex];
-            // Marca a página antiga para sair
-            setPages((prev) =>
-              prev.map((p, i) =>
-                i === leastRecentIndex ? { ...p, isLeaving: true } : p
-              )
-            );
-            // Aguarda a animação de saída antes de adicionar a nova página
-            setTimeout(() => {
-              setPages((prev) => {
-                const updatedPages = [...prev];
-                updatedPages[leastRecentIndex] = {
-                  id: newPage,
-                  timestamp: Date.now(),
-                  isEntering: true,
-                  prevValue: oldPage.id,
-                };
-                return updatedPages;
-              });
-            }, 500); // Ajuste o tempo conforme necessário
-          }
-        }
-      } else if (algorithm === 'LRU') {
-        // Atualiza o timestamp da página acessada
-        setPages((prev) =>
-          prev.map((p) =>
-            p.id === newPage ? { ...p, timestamp: Date.now() } : p
-          )
-        );
-      }
+  // Função que gera a narração com base no passo atual da simulação
+  const getNarration = useCallback(
+    (step: PageStep) => describePageStep(algorithm, step, t),
+    [algorithm, t]
+  );
 
+  // Função que avança para o próximo passo na simulação
+  const handleNext = useCallback(() => {
+    if (currentStep < trace.steps.length) {
+      narrate(getNarration(trace.steps[currentStep]));
       setCurrentStep((prev) => prev + 1);
     } else {
-      setNarration(
-        'Simulação concluída! Você pode reiniciar para ver novamente.'
-      );
-      setIsNarrating(true);
-      setTimeout(() => setIsNarrating(false), 3000);
+      setIsPlaying(false);
+      narrate(t('page.finished'));
     }
-  };
+  }, [currentStep, trace, getNarration, t]);
 
   // Função que reinicia a simulação
   const reset = () => {
-    setPages([]);
     setCurrentStep(0);
-    setPageFaults(0);
     setIsPlaying(false);
-    setNarration('Selecione um algoritmo e clique em Play para começar.');
-    setIsNarrating(true);
-    setTimeout(() => setIsNarrating(false), 3000);
+    narrate(t('page.initialNarration'));
+  };
+
+  // Leva a simulação diretamente a um passo (linha do tempo, voltar ou
+  // clique na tabela). Como tudo vem do trace, o estado anterior é restaurado
+  // exatamente, inclusive a narração daquele passo.
+  const jumpTo = (step: number) => {
+    setCurrentStep(step);
+    setIsPlaying(false);
+    narrate(
+      step > 0
+        ? getNarration(trace.steps[step - 1])
+        : t('page.initialNarration')
+    );
   };
 
+  // Restaura um cenário importado de arquivo
+  const applyScenario = (scenario: PageScenario) => {
+    setAlgorithm(scenario.algorithm);
+    setFrameSize(scenario.frameCount);
+    setSequence(scenario.references);
+    setWrites(scenario.writes.map(Boolean));
+    setCurrentStep(scenario.step);
+    setIsPlaying(false);
+    setMode('simulation');
+    narrate(t('page.imported'));
+  };
+
+  // Carrega um trace de arquivo: os curtos entram no simulador, e os longos
+  // viram um resumo. Páginas grandes demais para os campos são renumeradas.
+  const loadTrace = (result: TraceResult) => {
+    if (result.kind !== 'page') return;
+    setMode('simulation');
+    if (result.summaries) {
+      setLargeTrace(result);
+      return;
+    }
+    const fits = result.pages.every((page) => page <= MAX_PAGE_NUMBER);
+    setLargeTrace(null);
+    setSequence(fits ? result.pages : renumberPages(result.pages));
+    setWrites(result.writes);
+    setCurrentStep(0);
+    setIsPlaying(false);
+    narrate(t(fits ? 'page.initialNarration' : 'traceFile.renumbered'));
+  };
+
+  // Cenário em exibição, mantido no hash da URL para ser compartilhado
+  const scenario = useMemo<PageScenario>(
+    () => ({
+      kind: 'page',
+      algorithm,
+      frameCount: frameSize,
+      references: sequence,
+      writes: writes.map(Number),
+      step: currentStep,
+    }),
+    [algorithm, frameSize, sequence, writes, currentStep]
+  );
+  useEffect(() => {
+    window.history.replaceState(
+      null,
+      '',
+      mergeHash(window.location.hash, scenarioToHashParams(scenario))
+    );
+  }, [scenario]);
+
   // Efeito que controla a execução automática da simulação
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isPlaying && currentStep < sequence.length) {
-      interval = setInterval(handleNext, 3500);
+    let timeout: ReturnType<typeof setTimeout>;
+    if (isPlaying) {
+      timeout = setTimeout(handleNext, 3500 / speed);
     }
-    return () => clearInterval(interval);
-  }, [isPlaying, currentStep]);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, handleNext, speed]);
 
   return (
     <div className="bg-gradient-to-br from-indigo-500 to-blue-600 min-h-screen p-8">
       <div className="max-w-6xl mx-auto bg-white/90 backdrop-blur-lg rounded-2xl shadow-2xl p-8">
         <div className="flex justify-between items-center mb-8">
           <h2 className="text-3xl font-bold text-indigo-900">
-            Algoritmo de Substituição de Páginas: {algorithm}
+            {t(`page.titles.${mode}`, { algorithm })}
           </h2>
           <InfoTooltip
-            title="O que são Page Faults?"
-            content="Page Fault ocorre quando uma página requisitada não está presente na memória física (RAM) e precisa ser carregada do disco. Quanto menor o número de page faults, melhor o desempenho do algoritmo."
+            title={t('page.tooltipTitle')}
+            content={t('page.tooltipContent')}
           />
         </div>
 
-        <div className="flex gap-4 mb-8">
-          {(['FIFO', 'LRU'] as const).map((alg) => (
-            <button
-              key={alg}
-              onClick={() => {
-                setAlgorithm(alg);
-                reset();
-              }}
-              className={`px-6 py-3 rounded-xl transition-all transform hover:scale-105 ${
-                algorithm === alg
-                  ? 'bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg'
-                  : 'bg-white text-indigo-700 hover:bg-indigo-50 shadow-md'
-              }`}
-            >
-              <span className="font-semibold">{alg}</span>
-              <div className="text-xs mt-1 font-normal">
-                {alg === 'FIFO' ? 'First In, First Out' : 'Least Recently Used'}
-              </div>
-            </button>
-          ))}
+        {/* Modo de visualização */}
+        <div className="flex flex-wrap justify-between gap-4 mb-8">
+          <div className="flex gap-2">
+            {MODES.map((m) => (
+              <button
+                key={m}
+                onClick={() => {
+                  setMode(m);
+                  setLargeTrace(null);
+                  reset();
+                }}
+                className={`px-4 py-2 rounded-lg transition-all ${
+                  mode === m
+                    ? 'bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg'
+                    : 'bg-white text-indigo-700 hover:bg-indigo-50 shadow-md'
+                }`}
+              >
+                {t(`page.modes.${m}`)}
+              </button>
+            ))}
+          </div>
+          <ScenarioActions
+            scenario={scenario}
+            theme="indigo"
+            onImport={applyScenario}
+            onOpenReport={() => setShowReport(true)}
+          />
         </div>
 
-        <div className="bg-white p-6 rounded-xl shadow-md mb-8">
-          <div className="flex justify-center gap-4 mb-4">
-            {pages.map((page, index) => (
-              <div
-                key={index}
-                className={`relative w-20 h-20 flex items-center justify-center border-2 border-indigo-500 rounded-lg text-2xl font-bold transition-all duration-500 transform
-        ${page.isEntering ? 'scale-110 bg-green-50' : 'bg-indigo-50'}
-        ${page.isLeaving ? 'scale-90 opacity-0' : ''}`}
+        {showReport && (
+          <PageReport
+            sequence={sequence}
+            writes={writes}
+            frameCount={frameSize}
+            onClose={() => setShowReport(false)}
+          />
+        )}
+
+        <PageSettings
+          sequence={sequence}
+          writes={writes}
+          frameCount={frameSize}
+          onApply={(newSequence, newWrites, newFrameSize) => {
+            setSequence(newSequence);
+            setWrites(newWrites);
+            setFrameSize(newFrameSize);
+            reset();
+          }}
+        />
+
+        <TraceFileLoader
+          theme="indigo"
+          hint={t('traceFile.pageHint')}
+          createJob={(file) => ({
+            kind: 'page',
+            file,
+            pageSize: tracePageSize,
+            frameCount: frameSize,
+          })}
+          onLoad={loadTrace}
+        >
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('traceFile.pageSize')}</span>
+            <select
+              value={tracePageSize}
+              onChange={(e) => setTracePageSize(Number(e.target.value))}
+              className="px-3 py-2 rounded-lg border border-indigo-200 bg-white"
+            >
+              {TRACE_PAGE_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {t('traceFile.bytes', { size })}
+                </option>
+              ))}
+            </select>
+          </label>
+        </TraceFileLoader>
+
+        {!largeTrace && (mode === 'simulation' || mode === 'quiz') && (
+          <div className="flex flex-wrap gap-4 mb-8">
+            {PAGE_ALGORITHMS.map((alg) => (
+              <button
+                key={alg}
+                onClick={() => {
+                  setAlgorithm(alg);
+                  reset();
+                }}
+                className={`px-6 py-3 rounded-xl transition-all transform hover:scale-105 ${
+                  algorithm === alg
+                    ? 'bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg'
+                    : 'bg-white text-indigo-700 hover:bg-indigo-50 shadow-md'
+                }`}
               >
-                {page.prevValue && page.isEntering && (
-                  <div className="absolute inset-0 flex items-center justify-center animate-fade-out">
-                    {page.prevValue}
-                  </div>
-                )}
-                <div
-                  className={`absolute inset-0 flex items-center justify-center ${
-                    page.isEntering ? 'animate-fade-in' : ''
-                  }`}
-                >
-                  {page.id}
+                <span className="font-semibold">{alg}</span>
+                <div className="text-xs mt-1 font-normal">
+                  {t(`pageAlgorithms.${alg}.name`)}
                 </div>
-              </div>
+              </button>
             ))}
-            {Array(frameSize - pages.length)
-              .fill(null)
-              .map((_, index) => (
-                <div
-                  key={`empty-${index}`}
-                  className="w-20 h-20 flex items-center justify-center border-2 border-dashed border-indigo-200 rounded-lg"
-                />
-              ))}
           </div>
-        </div>
+        )}
 
-        <div
-          className={`bg-gradient-to-r from-indigo-100 to-blue-100 p-4 rounded-lg mb-6 transition-all duration-500 transform flex items-start gap-3 ${
-            isNarrating ? 'scale-102 shadow-lg' : ''
-          }`}
-        >
-          <MessageCircle
-            className={`w-6 h-6 text-indigo-600 mt-1 ${
-              isNarrating ? 'animate-bounce' : ''
-            }`}
+        {largeTrace ? (
+          <TraceSummary
+            result={largeTrace}
+            onClose={() => setLargeTrace(null)}
           />
-          <p className="text-indigo-700 text-lg flex-1">{narration}</p>
-        </div>
+        ) : mode === 'simulation' ? (
+          <>
+            <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+              <div className="flex justify-center gap-4 mb-4">
+                {frames.map((frame, index) => {
+                  // A página que acabou de entrar é destacada; a vítima some em fade-out
+                  const isEntering =
+                    current !== null &&
+                    current.isFault &&
+                    current.frameIndex === index;
+                  return (
+                    <div
+                      key={index}
+                      className="flex flex-col items-center gap-2"
+                    >
+                      {frame ? (
+                        <div
+                          key={`${frame.page}-${frame.loadedAt}`}
+                          className={`relative w-20 h-20 flex items-center justify-center border-2 border-indigo-500 rounded-lg text-2xl font-bold transition-all duration-500 transform
+          ${isEntering ? 'scale-110 bg-green-50' : 'bg-indigo-50'}`}
+                        >
+                          {isEntering && (
+                            <span className="absolute top-0 left-1 z-10 text-xs font-semibold text-green-700">
+                              {t('page.entering')}
+                            </span>
+                          )}
+                          {frame.modified && (
+                            <span
+                              className="absolute top-0 right-1 z-10 text-xs font-semibold text-red-600"
+                              title={t('page.dirty')}
+                            >
+                              D
+                            </span>
+                          )}
+                          {isEntering && current.victim !== null && (
+                            <div className="absolute inset-0 flex items-center justify-center animate-fade-out">
+                              {current.victim}
+                            </div>
+                          )}
+                          <div
+                            className={`absolute inset-0 flex items-center justify-center ${
+                              isEntering ? 'animate-fade-in' : ''
+                            }`}
+                          >
+                            {frame.page}
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="w-20 h-20 flex items-center justify-center border-2 border-dashed border-indigo-200 rounded-lg" />
+                      )}
+                      <div className="h-5 text-xs text-indigo-700 font-mono">
+                        {frame && frameMetadata(frame)}
+                      </div>
+                      <div className="h-5 text-xs font-semibold text-indigo-900">
+                        {hand === index && t('page.hand')}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
 
-        <div className="flex justify-center gap-6 mb-8">
-          <button
-            onClick={() => setIsPlaying(!isPlaying)}
-            className="p-3 rounded-xl bg-gradient-to-r from-indigo-600 to-blue-600 text-white hover:from-indigo-700 hover:to-blue-700 transition-all transform hover:scale-110 shadow-lg"
-            title={isPlaying ? 'Pausar' : 'Iniciar'}
-          >
-            {isPlaying ? <Pause size={28} /> : <Play size={28} />}
-          </button>
-          <button
-            onClick={handleNext}
-            disabled={currentStep >= sequence.length}
-            className="p-3 rounded-xl bg-gradient-to-r from-indigo-600 to-blue-600 text-white hover:from-indigo-700 hover:to-blue-700 transition-all transform hover:scale-110 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Próximo passo"
-          >
-            <ChevronRight size={28} />
-          </button>
-          <button
-            onClick={reset}
-            className="p-3 rounded-xl bg-gradient-to-r from-indigo-600 to-blue-600 text-white hover:from-indigo-700 hover:to-blue-700 transition-all transform hover:scale-110 shadow-lg"
-            title="Reiniciar"
-          >
-            <RefreshCw size={28} />
-          </button>
-        </div>
+            <div
+              className={`bg-gradient-to-r from-indigo-100 to-blue-100 p-4 rounded-lg mb-6 transition-all duration-500 transform flex items-start gap-3 ${
+                isNarrating ? 'scale-102 shadow-lg' : ''
+              }`}
+            >
+              <MessageCircle
+                className={`w-6 h-6 text-indigo-600 mt-1 ${
+                  isNarrating ? 'animate-bounce' : ''
+                }`}
+              />
+              <p className="text-indigo-700 text-lg flex-1" aria-live="polite">
+                {narration}
+              </p>
+            </div>
 
-        <div className="grid grid-cols-2 gap-6 mb-8">
-          <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
-            <p className="text-lg font-semibold text-indigo-900 mb-2">
-              Sequência de Referências
-            </p>
-            <p className="text-indigo-700">{sequence.join(', ')}</p>
-          </div>
-          <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
-            <p className="text-lg font-semibold text-indigo-900 mb-2">
-              Page Faults
-            </p>
-            <p className="text-3xl font-bold text-indigo-700">{pageFaults}</p>
-          </div>
-        </div>
+            <PlaybackControls
+              currentStep={currentStep}
+              totalSteps={trace.steps.length}
+              isPlaying={isPlaying}
+              speed={speed}
+              theme="indigo"
+              onTogglePlay={() => setIsPlaying(!isPlaying)}
+              onNext={handleNext}
+              onSeek={jumpTo}
+              onReset={reset}
+              onSpeedChange={setSpeed}
+            />
 
-        <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
-          <h3 className="text-xl font-semibold text-indigo-900 mb-4">
-            Sobre o Algoritmo
-          </h3>
-          <p className="text-indigo-700">
-            {algorithm === 'FIFO'
-              ? 'FIFO (First In, First Out) substitui a página mais antiga na memória, independentemente de sua frequência de uso. É simples de implementar, mas pode não ser o mais eficiente.'
-              : 'LRU (Least Recently Used) substitui a página que não foi utilizada há mais tempo. É geralmente mais eficiente que o FIFO, pois considera o histórico de uso das páginas.'}
-          </p>
-        </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+                <p className="text-lg font-semibold text-indigo-900 mb-2">
+                  {t('page.references')}
+                </p>
+                <p className="text-indigo-700">
+                  {formatReferenceList(sequence, writes)}
+                </p>
+              </div>
+              <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+                <p className="text-lg font-semibold text-indigo-900 mb-2">
+                  {t('common.pageFaults')}
+                </p>
+                <p className="text-3xl font-bold text-indigo-700">
+                  {pageFaults}
+                </p>
+              </div>
+              <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+                <p className="text-lg font-semibold text-indigo-900 mb-2">
+                  {t('common.totalIO')}
+                </p>
+                <p className="text-3xl font-bold text-indigo-700">
+                  {pageFaults + writeBacks}
+                </p>
+                <p className="text-xs text-indigo-700 mt-1">
+                  {t('page.ioBreakdown', { faults: pageFaults, writeBacks })}
+                </p>
+              </div>
+            </div>
+
+            <PageTraceTable
+              trace={trace}
+              currentStep={currentStep}
+              onSelectStep={jumpTo}
+            />
+
+            <div className="bg-gradient-to-r from-indigo-100 to-blue-100 p-6 rounded-xl shadow-md">
+              <h3 className="text-xl font-semibold text-indigo-900 mb-4">
+                {t('common.about')}
+              </h3>
+              <p className="text-indigo-700">
+                {t(`pageAlgorithms.${algorithm}.description`)}
+              </p>
+            </div>
+          </>
+        ) : mode === 'quiz' ? (
+          <PageQuiz
+            key={`${algorithm}:${frameSize}:${formatReferenceList(
+              sequence,
+              writes
+            )}`}
+            trace={trace}
+          />
+        ) : mode === 'comparison' ? (
+          <PageComparison
+            key={`${frameSize}:${formatReferenceList(sequence, writes)}`}
+            sequence={sequence}
+            writes={writes}
+            frameCount={frameSize}
+          />
+        ) : (
+          <BeladyExplorer
+            sequence={sequence}
+            onUseSequence={(newSequence) => {
+              setSequence(newSequence);
+              setWrites(newSequence.map(() => false));
+              reset();
+            }}
+          />
+        )}
       </div>
     </div>
   );
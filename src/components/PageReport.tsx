@@ -0,0 +1,89 @@
+import { ReportTable, ReportView } from './ReportView';
+import { pageTraceRows } from '../engines/csv';
+import { formatReferenceList } from '../engines/input';
+import {
+  PAGE_ALGORITHMS,
+  simulatePageReplacement,
+  summarizePageTrace,
+} from '../engines/pageReplacement';
+import { useI18n } from '../i18n/context';
+import { PERCENT } from '../i18n/translate';
+
+interface PageReportProps {
+  sequence: number[];
+  writes: boolean[];
+  frameCount: number;
+  onClose: () => void;
+}
+
+/**
+ * Relatório imprimível da substituição de páginas: entradas, totais de
+ * todos os algoritmos e a tabela passo a passo de cada um.
+ */
+export function PageReport({
+  sequence,
+  writes,
+  frameCount,
+  onClose,
+}: PageReportProps) {
+  const { t, formatNumber } = useI18n();
+  const traces = PAGE_ALGORITHMS.map((algorithm) =>
+    simulatePageReplacement(sequence, { algorithm, frameCount, writes })
+  );
+  const showWrites = writes.some(Boolean);
+
+  return (
+    <ReportView title={t('report.pageTitle')} onClose={onClose}>
+      <section>
+        <h2 className="text-xl font-semibold mb-2">{t('report.inputs')}</h2>
+        <p>
+          <strong>{t('report.references')}</strong>{' '}
+          {formatReferenceList(sequence, writes)}
+        </p>
+        <p>
+          <strong>{t('report.frames')}</strong> {frameCount}
+        </p>
+      </section>
+
+      <section>
+        <h2 className="text-xl font-semibold mb-2">{t('report.totals')}</h2>
+        <ReportTable
+          rows={[
+            [
+              t('common.algorithm'),
+              t('common.pageFaults'),
+              t('common.hits'),
+              t('common.hitRatio'),
+              ...(showWrites
+                ? [t('common.writeBacks'), t('common.totalIO')]
+                : []),
+            ],
+            ...traces.map((trace) => {
+              const { faults, hits, hitRatio, writeBacks, totalIO } =
+                summarizePageTrace(trace);
+              return [
+                trace.algorithm,
+                faults,
+                hits,
+                formatNumber(hitRatio, PERCENT),
+                ...(showWrites ? [writeBacks, totalIO] : []),
+              ];
+            }),
+          ]}
+        />
+      </section>
+
+      {traces.map((trace) => (
+        <section key={trace.algorithm} className="break-inside-avoid">
+          <h2 className="text-xl font-semibold mb-2">
+            {t('report.pageSection', {
+              algorithm: trace.algorithm,
+              faults: trace.totalFaults,
+            })}
+          </h2>
+          <ReportTable rows={pageTraceRows(trace, t)} />
+        </section>
+      ))}
+    </ReportView>
+  );
+}
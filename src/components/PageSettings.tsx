@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { Check, Dices, Wand2 } from 'lucide-react';
+import {
+  MAX_FRAMES,
+  MAX_PAGE_NUMBER,
+  MAX_SEED,
+  formatReferenceList,
+  parseIntegerInRange,
+  parseReferenceList,
+} from '../engines/input';
+import {
+  PAGE_PATTERNS,
+  PagePattern,
+  generatePageReferences,
+} from '../engines/workloads';
+import { useI18n } from '../i18n/context';
+
+interface PageSettingsProps {
+  sequence: number[];
+  writes: boolean[]; // Uma indicação por referência: é uma escrita?
+  frameCount: number;
+  onApply: (sequence: number[], writes: boolean[], frameCount: number) => void;
+}
+
+/**
+ * Painel de configuração da simulação de substituição de páginas.
+ *
+ * Mantém um rascunho dos campos e só repassa os valores ao simulador
+ * quando todos são válidos e o usuário clica em "Aplicar". Referências
+ * com o sufixo "w" são escritas.
+ */
+export function PageSettings({
+  sequence,
+  writes,
+  frameCount,
+  onApply,
+}: PageSettingsProps) {
+  const { t } = useI18n();
+  const [referencesText, setReferencesText] = useState(
+    formatReferenceList(sequence, writes)
+  );
+  const [framesText, setFramesText] = useState(String(frameCount));
+  const [applied, setApplied] = useState({ sequence, writes, frameCount });
+
+  // Se a configuração mudar por fora do painel, o rascunho acompanha
+  if (
+    applied.sequence !== sequence ||
+    applied.writes !== writes ||
+    applied.frameCount !== frameCount
+  ) {
+    setApplied({ sequence, writes, frameCount });
+    setReferencesText(formatReferenceList(sequence, writes));
+    setFramesText(String(frameCount));
+  }
+  const [pattern, setPattern] = useState<PagePattern>('locality');
+  const [lengthText, setLengthText] = useState('20');
+  const [pageCountText, setPageCountText] = useState('8');
+  const [seedText, setSeedText] = useState('1');
+
+  const references = parseReferenceList(
+    referencesText,
+    t('input.labels.references'),
+    0,
+    MAX_PAGE_NUMBER,
+    t
+  );
+  const frames = parseIntegerInRange(
+    framesText,
+    t('input.labels.frames'),
+    1,
+    MAX_FRAMES,
+    t
+  );
+
+  const length = parseIntegerInRange(
+    lengthText,
+    t('input.labels.length'),
+    1,
+    200,
+    t
+  );
+  const pageCount = parseIntegerInRange(
+    pageCountText,
+    t('input.labels.pageCount'),
+    1,
+    MAX_PAGE_NUMBER + 1,
+    t
+  );
+  const seed = parseIntegerInRange(
+    seedText,
+    t('input.labels.seed'),
+    0,
+    MAX_SEED,
+    t
+  );
+  const generatorError = [length, pageCount, seed].find((r) => !r.ok);
+
+  const apply = () => {
+    if (references.ok && frames.ok) {
+      onApply(references.value.pages, references.value.writes, frames.value);
+    }
+  };
+
+  // Gera a sequência e a aplica imediatamente ao simulador
+  const generate = () => {
+    if (!length.ok || !pageCount.ok || !seed.ok) return;
+    const generated = generatePageReferences({
+      pattern,
+      length: length.value,
+      pageCount: pageCount.value,
+      seed: seed.value,
+    });
+    setReferencesText(generated.join(' '));
+    onApply(
+      generated,
+      generated.map(() => false),
+      frames.ok ? frames.value : frameCount
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <h3 className="text-xl font-semibold text-indigo-900 mb-4">
+        {t('common.settings')}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+        <label className="md:col-span-3 flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">{t('page.settings.references')}</span>
+          <input
+            type="text"
+            value={referencesText}
+            onChange={(e) => setReferencesText(e.target.value)}
+            placeholder="7 0w 1 2 0 3w 0 4"
+            className="px-3 py-2 rounded-lg border border-indigo-200 font-mono"
+          />
+          {!references.ok && (
+            <span className="text-sm text-red-600">{references.error}</span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-indigo-900">
+          <span className="font-semibold">
+            {t('page.settings.frames', { max: MAX_FRAMES })}
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_FRAMES}
+            value={framesText}
+            onChange={(e) => setFramesText(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-indigo-200"
+          />
+          {!frames.ok && (
+            <span className="text-sm text-red-600">{frames.error}</span>
+          )}
+        </label>
+      </div>
+      <button
+        onClick={apply}
+        disabled={!references.ok || !frames.ok}
+        className="mt-4 flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Check size={20} />
+        {t('common.apply')}
+      </button>
+
+      <div className="mt-6 pt-4 border-t border-indigo-100">
+        <p className="font-semibold text-indigo-900 mb-2">
+          {t('page.settings.generator')}
+        </p>
+        <div className="flex flex-wrap items-end gap-4 text-indigo-900">
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('common.pattern')}</span>
+            <select
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value as PagePattern)}
+              className="px-3 py-2 rounded-lg border border-indigo-200 bg-white"
+            >
+              {PAGE_PATTERNS.map((p) => (
+                <option key={p} value={p}>
+                  {t(`page.settings.patterns.${p}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('common.length')}</span>
+            <input
+              type="number"
+              min={1}
+              max={200}
+              value={lengthText}
+              onChange={(e) => setLengthText(e.target.value)}
+              className="w-24 px-3 py-2 rounded-lg border border-indigo-200"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('common.distinctPages')}</span>
+            <input
+              type="number"
+              min={1}
+              value={pageCountText}
+              onChange={(e) => setPageCountText(e.target.value)}
+              className="w-24 px-3 py-2 rounded-lg border border-indigo-200"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{t('common.seed')}</span>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={0}
+                value={seedText}
+                onChange={(e) => setSeedText(e.target.value)}
+                className="w-28 px-3 py-2 rounded-lg border border-indigo-200"
+              />
+              <button
+                onClick={() =>
+                  setSeedText(String(Math.floor(Math.random() * MAX_SEED)))
+                }
+                className="p-2 rounded-lg bg-white text-indigo-700 hover:bg-indigo-50 shadow-md"
+                title={t('common.randomSeed')}
+                aria-label={t('common.randomSeed')}
+              >
+                <Dices size={20} />
+              </button>
+            </div>
+          </label>
+          <button
+            onClick={generate}
+            disabled={generatorError !== undefined}
+            className="flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r from-indigo-600 to-blue-600 text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Wand2 size={20} />
+            {t('common.generate')}
+          </button>
+        </div>
+        {generatorError && !generatorError.ok && (
+          <span className="text-sm text-red-600">{generatorError.error}</span>
+        )}
+      </div>
+    </div>
+  );
+}
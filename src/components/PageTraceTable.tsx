@@ -0,0 +1,199 @@
+import { FileSpreadsheet } from 'lucide-react';
+import { pageTraceToCsv } from '../engines/csv';
+import {
+  CLOCK_ALGORITHMS,
+  PageTrace,
+  recencyStack,
+} from '../engines/pageReplacement';
+import { downloadCsv } from '../utils/download';
+import { useI18n } from '../i18n/context';
+
+interface PageTraceTableProps {
+  trace: PageTrace;
+  currentStep: number; // Quantos passos já foram exibidos (0 = nenhum)
+  onSelectStep: (step: number) => void;
+}
+
+/**
+ * Tabela de trace no formato dos exercícios de livro: cada coluna é uma
+ * referência e cada linha um frame. Page faults são marcados com "F" e a
+ * vítima aparece riscada na célula que recebeu a nova página. O LRU ganha
+ * a pilha de recência e os algoritmos de relógio exibem os bits R. Quando
+ * há escritas, uma linha extra marca os write-backs.
+ *
+ * Clicar em uma coluna leva a simulação até aquele passo.
+ */
+export function PageTraceTable({
+  trace,
+  currentStep,
+  onSelectStep,
+}: PageTraceTableProps) {
+  const { t } = useI18n();
+  const { algorithm, frameCount, steps } = trace;
+  const showBits = CLOCK_ALGORITHMS.includes(algorithm);
+  const showStack = algorithm === 'LRU';
+  const showWrites = trace.writes.some(Boolean);
+
+  // Estilo comum a todas as células de uma coluna
+  const columnClass = (index: number) =>
+    `px-2 py-1 text-center cursor-pointer ${
+      index === currentStep - 1
+        ? 'bg-indigo-200'
+        : index >= currentStep
+        ? 'opacity-40 hover:opacity-70'
+        : 'hover:bg-indigo-50'
+    }`;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8 overflow-x-auto">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="text-xl font-semibold text-indigo-900">
+          {t('traceTable.title')}
+        </h3>
+        <button
+          onClick={() =>
+            downloadCsv(
+              pageTraceToCsv(trace, t),
+              `trace-paginas-${algorithm.toLowerCase()}.csv`
+            )
+          }
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-600 hover:text-gray-900 hover:bg-gray-100 print:hidden"
+          title={t('traceTable.download')}
+        >
+          <FileSpreadsheet size={14} />
+          CSV
+        </button>
+      </div>
+      <table className="border-collapse text-indigo-900 font-mono">
+        <thead>
+          <tr>
+            <th className="px-2 py-1 text-left font-sans">
+              {t('traceTable.reference')}
+            </th>
+            {steps.map((step) => (
+              <th
+                key={step.step}
+                onClick={() => onSelectStep(step.step + 1)}
+                className={`${columnClass(
+                  step.step
+                )} border-b-2 border-indigo-300`}
+                title={t('traceTable.goToStep', { step: step.step + 1 })}
+              >
+                {step.page}
+                {step.isWrite && 'w'}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {Array.from({ length: frameCount }, (_, row) => (
+            <tr key={row}>
+              <th className="px-2 py-1 text-left font-sans font-normal">
+                {t('traceTable.frame', { index: row })}
+              </th>
+              {steps.map((step) => {
+                const frame = step.frames[row];
+                const isLoaded = step.isFault && step.frameIndex === row;
+                return (
+                  <td
+                    key={step.step}
+                    onClick={() => onSelectStep(step.step + 1)}
+                    className={`${columnClass(
+                      step.step
+                    )} border border-indigo-100 ${
+                      isLoaded ? 'bg-red-100 font-bold' : ''
+                    }`}
+                  >
+                    {frame && (
+                      <div className="flex flex-col items-center leading-tight">
+                        <span>
+                          {frame.page}
+                          {showBits && (
+                            <sup className="text-[10px] text-indigo-600">
+                              {Number(frame.referenceBit)}
+                            </sup>
+                          )}
+                          {step.hand === row && showBits && (
+                            <span className="text-[10px] text-indigo-600">
+                              ◂
+                            </span>
+                          )}
+                        </span>
+                        {isLoaded && step.victim !== null && (
+                          <span className="text-[10px] line-through text-red-600">
+                            {step.victim}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+          <tr>
+            <th className="px-2 py-1 text-left font-sans font-normal">
+              {t('common.fault')}
+            </th>
+            {steps.map((step) => (
+              <td
+                key={step.step}
+                onClick={() => onSelectStep(step.step + 1)}
+                className={`${columnClass(step.step)} font-bold ${
+                  step.isFault ? 'text-red-600' : 'text-green-700'
+                }`}
+              >
+                {step.isFault ? 'F' : '✓'}
+              </td>
+            ))}
+          </tr>
+          {showWrites && (
+            <tr>
+              <th className="px-2 py-1 text-left font-sans font-normal">
+                {t('traceTable.writeBack')}
+              </th>
+              {steps.map((step) => (
+                <td
+                  key={step.step}
+                  onClick={() => onSelectStep(step.step + 1)}
+                  className={`${columnClass(step.step)} font-bold text-red-600`}
+                >
+                  {step.writeBack && 'W'}
+                </td>
+              ))}
+            </tr>
+          )}
+          {showStack && (
+            <tr>
+              <th className="px-2 py-1 text-left font-sans font-normal align-top">
+                {t('traceTable.lruStack')}
+              </th>
+              {steps.map((step) => (
+                <td
+                  key={step.step}
+                  onClick={() => onSelectStep(step.step + 1)}
+                  className={`${columnClass(step.step)} align-top text-xs`}
+                >
+                  {recencyStack(step.frames).map((page, i) => (
+                    <div key={i}>{page}</div>
+                  ))}
+                </td>
+              ))}
+            </tr>
+          )}
+        </tbody>
+      </table>
+      <p className="text-sm text-indigo-700 mt-3 font-sans">
+        {[
+          t('traceTable.legend'),
+          showBits && t('traceTable.bitsLegend'),
+          showStack && t('traceTable.stackLegend'),
+          showWrites && t('traceTable.writeLegend'),
+          t('traceTable.clickLegend'),
+        ]
+          .filter(Boolean)
+          .join(' ')}
+      </p>
+    </div>
+  );
+}
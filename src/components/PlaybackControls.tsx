@@ -0,0 +1,221 @@
+import { KeyboardEvent, useId } from 'react';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Pause,
+  Play,
+  RefreshCw,
+  SkipBack,
+  SkipForward,
+} from 'lucide-react';
+import { useI18n } from '../i18n/context';
+
+// Multiplicadores de velocidade oferecidos pelo controle deslizante
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 1.5, 2, 4];
+
+// Classes completas por tema, para que o Tailwind as encontre no código
+const THEMES = {
+  indigo: {
+    button:
+      'from-indigo-600 to-blue-600 hover:from-indigo-700 hover:to-blue-700',
+    text: 'text-indigo-900',
+    accent: 'accent-indigo-600',
+  },
+  purple: {
+    button:
+      'from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700',
+    text: 'text-purple-900',
+    accent: 'accent-purple-600',
+  },
+  emerald: {
+    button:
+      'from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700',
+    text: 'text-emerald-900',
+    accent: 'accent-emerald-600',
+  },
+  rose: {
+    button: 'from-rose-600 to-red-600 hover:from-rose-700 hover:to-red-700',
+    text: 'text-rose-900',
+    accent: 'accent-rose-600',
+  },
+  amber: {
+    button:
+      'from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700',
+    text: 'text-amber-900',
+    accent: 'accent-amber-600',
+  },
+};
+
+interface PlaybackControlsProps {
+  currentStep: number; // Quantos passos do trace estão sendo exibidos
+  totalSteps: number;
+  isPlaying: boolean;
+  speed: number; // Um dos valores de PLAYBACK_SPEEDS
+  theme: keyof typeof THEMES;
+  onTogglePlay: () => void;
+  onNext: () => void;
+  onSeek: (step: number) => void;
+  onReset: () => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+/**
+ * Controles de reprodução compartilhados pelos simuladores: início, passo
+ * anterior, play/pause, próximo passo, fim, reinício, linha do tempo
+ * arrastável e velocidade. Como os simuladores exibem um trace pré-calculado,
+ * voltar no tempo é apenas escolher um passo anterior. Com o foco no
+ * bloco, espaço alterna play/pause, as setas andam um passo e Home/End vão
+ * ao início e ao fim.
+ */
+export function PlaybackControls({
+  currentStep,
+  totalSteps,
+  isPlaying,
+  speed,
+  theme,
+  onTogglePlay,
+  onNext,
+  onSeek,
+  onReset,
+  onSpeedChange,
+}: PlaybackControlsProps) {
+  const { t, formatNumber } = useI18n();
+  const { button, text, accent } = THEMES[theme];
+  const shortcutsId = useId();
+  const buttonClass = `p-3 rounded-xl bg-gradient-to-r ${button} text-white transition-all transform hover:scale-110 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed`;
+  const atStart = currentStep <= 0;
+  const atEnd = currentStep >= totalSteps;
+
+  // Atalhos com o foco no bloco de controles. Espaço em um botão e setas nos
+  // controles deslizantes ficam com o comportamento nativo do elemento.
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (e.key === ' ') {
+      if (target.tagName === 'BUTTON') return;
+      onTogglePlay();
+    } else if (target.tagName === 'INPUT') {
+      return;
+    } else if (e.key === 'ArrowLeft' && !atStart) {
+      onSeek(currentStep - 1);
+    } else if (e.key === 'ArrowRight' && !atEnd) {
+      onNext();
+    } else if (e.key === 'Home') {
+      onSeek(0);
+    } else if (e.key === 'End') {
+      onSeek(totalSteps);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div
+      className="mb-8 rounded-xl focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-400"
+      role="group"
+      aria-label={t('playback.label')}
+      aria-describedby={shortcutsId}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+    >
+      <div className="flex justify-center gap-4 mb-4">
+        <button
+          onClick={() => onSeek(0)}
+          disabled={atStart}
+          className={buttonClass}
+          title={t('playback.start')}
+          aria-label={t('playback.start')}
+          aria-keyshortcuts="Home"
+        >
+          <SkipBack size={28} />
+        </button>
+        <button
+          onClick={() => onSeek(currentStep - 1)}
+          disabled={atStart}
+          className={buttonClass}
+          title={t('playback.previous')}
+          aria-label={t('playback.previous')}
+          aria-keyshortcuts="ArrowLeft"
+        >
+          <ChevronLeft size={28} />
+        </button>
+        <button
+          onClick={onTogglePlay}
+          className={buttonClass}
+          title={t(isPlaying ? 'common.pause' : 'common.play')}
+          aria-label={t(isPlaying ? 'common.pause' : 'common.play')}
+          aria-keyshortcuts="Space"
+        >
+          {isPlaying ? <Pause size={28} /> : <Play size={28} />}
+        </button>
+        <button
+          onClick={onNext}
+          disabled={atEnd}
+          className={buttonClass}
+          title={t('common.next')}
+          aria-label={t('common.next')}
+          aria-keyshortcuts="ArrowRight"
+        >
+          <ChevronRight size={28} />
+        </button>
+        <button
+          onClick={() => onSeek(totalSteps)}
+          disabled={atEnd}
+          className={buttonClass}
+          title={t('playback.end')}
+          aria-label={t('playback.end')}
+          aria-keyshortcuts="End"
+        >
+          <SkipForward size={28} />
+        </button>
+        <button
+          onClick={onReset}
+          className={buttonClass}
+          title={t('common.reset')}
+          aria-label={t('common.reset')}
+        >
+          <RefreshCw size={28} />
+        </button>
+      </div>
+
+      <div className={`flex flex-wrap items-center gap-6 ${text}`}>
+        <label className="flex flex-1 items-center gap-3 min-w-[16rem]">
+          <span className="text-sm font-semibold whitespace-nowrap">
+            {t('playback.step', { step: currentStep, total: totalSteps })}
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={totalSteps}
+            value={currentStep}
+            onChange={(e) => onSeek(Number(e.target.value))}
+            className={`flex-1 ${accent}`}
+            aria-label={t('playback.timeline')}
+            aria-valuetext={t('playback.step', {
+              step: currentStep,
+              total: totalSteps,
+            })}
+          />
+        </label>
+        <label className="flex items-center gap-3">
+          <span className="text-sm font-semibold">{t('playback.speed')}</span>
+          <input
+            type="range"
+            min={0}
+            max={PLAYBACK_SPEEDS.length - 1}
+            value={PLAYBACK_SPEEDS.indexOf(speed)}
+            onChange={(e) =>
+              onSpeedChange(PLAYBACK_SPEEDS[Number(e.target.value)])
+            }
+            className={accent}
+            aria-valuetext={`${formatNumber(speed)}×`}
+          />
+          <span className="text-sm font-mono w-12">{formatNumber(speed)}×</span>
+        </label>
+      </div>
+      <p id={shortcutsId} className={`mt-2 text-xs opacity-75 ${text}`}>
+        {t('playback.shortcuts')}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { ReactNode, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Printer, X } from 'lucide-react';
+import { Cell } from '../engines/csv';
+import { useI18n } from '../i18n/context';
+
+interface ReportViewProps {
+  title: string;
+  onClose: () => void;
+  children: ReactNode;
+}
+
+/**
+ * Relatório em tela cheia, pensado para impressão (ou "Salvar como PDF").
+ * Enquanto aberto, a classe `printing-report` no body faz a impressão
+ * ignorar o restante da página.
+ */
+export function ReportView({ title, onClose, children }: ReportViewProps) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    document.body.classList.add('printing-report');
+    return () => document.body.classList.remove('printing-report');
+  }, []);
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 overflow-auto bg-white text-gray-900 print:static print:overflow-visible">
+      <div className="max-w-4xl mx-auto p-8 print:p-0">
+        <div className="flex justify-end gap-2 mb-6 print:hidden">
+          <button
+            onClick={() => window.print()}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-900 text-white shadow-md"
+          >
+            <Printer size={18} />
+            {t('report.print')}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white text-gray-700 shadow-md hover:bg-gray-50"
+          >
+            <X size={18} />
+            {t('report.close')}
+          </button>
+        </div>
+        <h1 className="text-3xl font-bold mb-6">{title}</h1>
+        <div className="space-y-8">{children}</div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+interface ReportTableProps {
+  rows: Cell[][]; // A primeira linha é o cabeçalho
+}
+
+/**
+ * Tabela simples, com bordas, para os dados do relatório.
+ */
+export function ReportTable({ rows }: ReportTableProps) {
+  const [header, ...body] = rows;
+  return (
+    <table className="w-full border-collapse text-sm">
+      <thead>
+        <tr>
+          {header.map((cell, i) => (
+            <th
+              key={i}
+              className="border border-gray-300 bg-gray-100 px-2 py-1 text-left"
+            >
+              {cell}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {body.map((row, i) => (
+          <tr key={i} className="break-inside-avoid">
+            {row.map((cell, j) => (
+              <td key={j} className="border border-gray-300 px-2 py-1">
+                {cell}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
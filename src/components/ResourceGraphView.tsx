@@ -0,0 +1,197 @@
+import { GraphNode, ResourceGraph } from '../engines/deadlock';
+
+interface ResourceGraphViewProps {
+  graph: ResourceGraph;
+  cycle: GraphNode[] | null;
+  reduced: number[]; // Processos já reduzidos, desenhados apagados
+  deadlocked: number[]; // Processos em deadlock, destacados ao final
+}
+
+// Dimensões do desenho, em unidades do viewBox
+const WIDTH = 640;
+const PROCESS_Y = 60;
+const RESOURCE_Y = 230;
+const RADIUS = 24;
+const BOX = { width: 88, height: 44 };
+const DOT_GAP = 18;
+
+const column = (index: number, count: number) =>
+  ((index + 0.5) * WIDTH) / count;
+
+const edgeKey = (from: GraphNode, to: GraphNode) =>
+  `${from.kind[0]}${from.index}-${to.kind[0]}${to.index}`;
+
+/**
+ * Desenho em SVG do grafo de alocação de recursos: processos em cima,
+ * recursos embaixo (um ponto por instância) e setas de pedido e de
+ * atribuição entre eles.
+ */
+export function ResourceGraphView({
+  graph,
+  cycle,
+  reduced,
+  deadlocked,
+}: ResourceGraphViewProps) {
+  const { processCount, instances, requests, assignments } = graph;
+  const processX = (pid: number) => column(pid, processCount);
+  const resourceX = (rid: number) => column(rid, instances.length);
+  const dotX = (rid: number, instance: number) =>
+    resourceX(rid) + (instance - (instances[rid] - 1) / 2) * DOT_GAP;
+
+  // Arestas do ciclo, incluindo a que volta ao primeiro nó
+  const cycleEdges = new Set(
+    (cycle ?? []).map((node, i, nodes) =>
+      edgeKey(node, nodes[(i + 1) % nodes.length])
+    )
+  );
+  // Cada atribuição ocupa a próxima instância do recurso; as instâncias de
+  // processos reduzidos aparecem livres
+  const used = instances.map(() => 0);
+  const assignmentEdges = assignments.map(([rid, pid]) => ({
+    rid,
+    pid,
+    instance: used[rid]++,
+  }));
+
+  const edgeStyle = (from: GraphNode, to: GraphNode, pid: number) => {
+    const inCycle = cycleEdges.has(edgeKey(from, to));
+    return {
+      stroke: inCycle ? '#dc2626' : '#6b7280',
+      strokeWidth: inCycle ? 3 : 2,
+      opacity: reduced.includes(pid) ? 0.15 : 1,
+      markerEnd: `url(#${inCycle ? 'arrow-cycle' : 'arrow'})`,
+    };
+  };
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} 290`} className="w-full max-w-3xl mx-auto">
+      <defs>
+        {[
+          ['arrow', '#6b7280'],
+          ['arrow-cycle', '#dc2626'],
+        ].map(([id, color]) => (
+          <marker
+            key={id}
+            id={id}
+            viewBox="0 0 10 10"
+            refX="10"
+            refY="5"
+            markerWidth="7"
+            markerHeight="7"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+          </marker>
+        ))}
+      </defs>
+
+      {/* Pedidos: do processo até a borda do recurso */}
+      {requests.map(([pid, rid], i) => (
+        <line
+          key={`request-${i}`}
+          x1={processX(pid) - 6}
+          y1={PROCESS_Y + RADIUS}
+          x2={resourceX(rid) - 6}
+          y2={RESOURCE_Y - BOX.height / 2}
+          className="transition-opacity duration-500"
+          {...edgeStyle(
+            { kind: 'process', index: pid },
+            { kind: 'resource', index: rid },
+            pid
+          )}
+        />
+      ))}
+
+      {/* Atribuições: da instância do recurso até o processo */}
+      {assignmentEdges.map(({ rid, pid, instance }, i) => (
+        <line
+          key={`assignment-${i}`}
+          x1={dotX(rid, instance)}
+          y1={RESOURCE_Y - 6}
+          x2={processX(pid) + 6}
+          y2={PROCESS_Y + RADIUS}
+          className="transition-opacity duration-500"
+          {...edgeStyle(
+            { kind: 'resource', index: rid },
+            { kind: 'process', index: pid },
+            pid
+          )}
+        />
+      ))}
+
+      {Array.from({ length: processCount }, (_, pid) => {
+        const isReduced = reduced.includes(pid);
+        const isDeadlocked = deadlocked.includes(pid);
+        return (
+          <g key={pid} className="transition-opacity duration-500">
+            <circle
+              cx={processX(pid)}
+              cy={PROCESS_Y}
+              r={RADIUS}
+              fill={
+                isReduced ? '#e5e7eb' : isDeadlocked ? '#fecaca' : '#ffe4e6'
+              }
+              stroke={
+                isReduced ? '#9ca3af' : isDeadlocked ? '#dc2626' : '#e11d48'
+              }
+              strokeWidth={isDeadlocked ? 3 : 2}
+            />
+            <text
+              x={processX(pid)}
+              y={PROCESS_Y + 5}
+              textAnchor="middle"
+              className="text-sm font-semibold"
+              fill={isReduced ? '#9ca3af' : '#881337'}
+            >
+              P{pid}
+            </text>
+          </g>
+        );
+      })}
+
+      {instances.map((count, rid) => (
+        <g key={rid}>
+          <rect
+            x={resourceX(rid) - BOX.width / 2}
+            y={RESOURCE_Y - BOX.height / 2}
+            width={BOX.width}
+            height={BOX.height}
+            rx={6}
+            fill="#ffffff"
+            stroke="#881337"
+            strokeWidth={2}
+          />
+          {Array.from({ length: count }, (_, instance) => (
+            <circle
+              key={instance}
+              cx={dotX(rid, instance)}
+              cy={RESOURCE_Y}
+              r={5}
+              fill={
+                assignmentEdges.some(
+                  (edge) =>
+                    edge.rid === rid &&
+                    edge.instance === instance &&
+                    !reduced.includes(edge.pid)
+                )
+                  ? '#be123c'
+                  : '#ffffff'
+              }
+              stroke="#be123c"
+              strokeWidth={1.5}
+            />
+          ))}
+          <text
+            x={resourceX(rid)}
+            y={RESOURCE_Y + BOX.height / 2 + 20}
+            textAnchor="middle"
+            className="text-sm font-semibold"
+            fill="#881337"
+          >
+            R{rid}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,122 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { Download, Link, Printer, Upload } from 'lucide-react';
+import {
+  Scenario,
+  parseScenarioFile,
+  serializeScenario,
+} from '../engines/scenario';
+import { downloadFile } from '../utils/download';
+import { useI18n } from '../i18n/context';
+
+// Classes completas por tema, para que o Tailwind as encontre no código
+const THEMES = {
+  indigo: 'text-indigo-700 hover:bg-indigo-50',
+  purple: 'text-purple-700 hover:bg-purple-50',
+};
+
+const FILE_NAMES: Record<Scenario['kind'], string> = {
+  page: 'cenario-paginas.json',
+  disk: 'cenario-disco.json',
+};
+
+interface ScenarioActionsProps<S extends Scenario> {
+  scenario: S; // Cenário em exibição (já refletido no hash da URL)
+  theme: keyof typeof THEMES;
+  onImport: (scenario: S) => void;
+  onOpenReport: () => void;
+}
+
+/**
+ * Botões para compartilhar o cenário atual: copiar o link (o hash da URL
+ * guarda a configuração), exportar em JSON, importar um arquivo exportado
+ * e abrir o relatório imprimível.
+ */
+export function ScenarioActions<S extends Scenario>({
+  scenario,
+  theme,
+  onImport,
+  onOpenReport,
+}: ScenarioActionsProps<S>) {
+  const { t } = useI18n();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean }>();
+  const buttonClass = `flex items-center gap-2 px-4 py-2 rounded-lg bg-white shadow-md transition-all ${THEMES[theme]}`;
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setMessage({ text: t('scenario.linkCopied'), isError: false });
+    } catch {
+      setMessage({ text: t('scenario.copyFailed'), isError: true });
+    }
+  };
+
+  const exportJson = () =>
+    downloadFile(
+      serializeScenario(scenario),
+      FILE_NAMES[scenario.kind],
+      'application/json'
+    );
+
+  const importJson = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Permite importar o mesmo arquivo de novo
+    if (!file) return;
+    const result = parseScenarioFile(await file.text(), t);
+    if (!result.ok) {
+      setMessage({ text: result.error, isError: true });
+    } else if (result.value.kind !== scenario.kind) {
+      setMessage({
+        text: t('scenario.wrongKind', {
+          kind: t(`scenario.kinds.${result.value.kind}`),
+        }),
+        isError: true,
+      });
+    } else {
+      setMessage({ text: t('scenario.imported'), isError: false });
+      onImport(result.value as S);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex flex-wrap gap-2">
+        <button onClick={copyLink} className={buttonClass}>
+          <Link size={18} />
+          {t('scenario.copyLink')}
+        </button>
+        <button onClick={exportJson} className={buttonClass}>
+          <Download size={18} />
+          {t('scenario.exportJson')}
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className={buttonClass}
+        >
+          <Upload size={18} />
+          {t('scenario.importJson')}
+        </button>
+        <button onClick={onOpenReport} className={buttonClass}>
+          <Printer size={18} />
+          {t('scenario.report')}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          onChange={importJson}
+          className="hidden"
+        />
+      </div>
+      {message && (
+        <span
+          className={`text-sm ${
+            message.isError ? 'text-red-600' : 'text-green-700'
+          }`}
+        >
+          {message.text}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useRef } from 'react';
+import { FileSpreadsheet } from 'lucide-react';
+import { ChartExportButtons } from './ChartExportButtons';
+import { diskTraceToCsv } from '../engines/csv';
+import { DiskTrace } from '../engines/diskScheduling';
+import { downloadCsv } from '../utils/download';
+import { useI18n } from '../i18n/context';
+
+interface SeekPathChartProps {
+  trace: DiskTrace;
+  currentStep: number; // Quantos movimentos já foram exibidos (0 = nenhum)
+}
+
+const WIDTH = 640;
+const ROW_HEIGHT = 36;
+const MARGIN = { top: 32, right: 24, bottom: 16, left: 24 };
+
+/**
+ * Gráfico do caminho do cabeçote, no formato dos livros: os cilindros ficam
+ * no eixo X e a ordem de atendimento desce no eixo Y. Cada segmento mostra a
+ * distância percorrida; retornos do C-SCAN/C-LOOK aparecem tracejados.
+ */
+export function SeekPathChart({ trace, currentStep }: SeekPathChartProps) {
+  const { t } = useI18n();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { algorithm, diskSize, initialHead, requests, steps } = trace;
+  const fileName = `caminho-cabecote-${algorithm.toLowerCase()}`;
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const height = MARGIN.top + steps.length * ROW_HEIGHT + MARGIN.bottom;
+  const x = (cylinder: number) =>
+    MARGIN.left + (cylinder / Math.max(1, diskSize - 1)) * plotWidth;
+  const y = (row: number) => MARGIN.top + row * ROW_HEIGHT;
+  const ticks = Array.from(
+    new Set([0, 0.25, 0.5, 0.75, 1].map((t) => Math.round(t * (diskSize - 1))))
+  );
+  const visible = steps.slice(0, currentStep);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-xl font-semibold text-purple-900">
+          {t('seekPath.title')}
+        </h3>
+        <div className="flex gap-1 print:hidden">
+          <button
+            onClick={() =>
+              downloadCsv(
+                diskTraceToCsv(trace, t),
+                `ordem-atendimento-${algorithm.toLowerCase()}.csv`
+              )
+            }
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-600 hover:text-gray-900 hover:bg-gray-100"
+            title={t('seekPath.download')}
+          >
+            <FileSpreadsheet size={14} />
+            CSV
+          </button>
+          <ChartExportButtons svgRef={svgRef} fileName={fileName} />
+        </div>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full"
+        role="img"
+        aria-label={t('seekPath.ariaLabel')}
+      >
+        {/* Eixo de cilindros */}
+        <line
+          x1={MARGIN.left}
+          x2={WIDTH - MARGIN.right}
+          y1={MARGIN.top - 12}
+          y2={MARGIN.top - 12}
+          stroke="#a855f7"
+        />
+        {ticks.map((tick) => (
+          <text
+            key={tick}
+            x={x(tick)}
+            y={MARGIN.top - 18}
+            textAnchor="middle"
+            className="text-[10px] fill-purple-700"
+          >
+            {tick}
+          </text>
+        ))}
+        {/* Linhas-guia nas posições das requisições */}
+        {requests.map((cylinder, i) => (
+          <line
+            key={i}
+            x1={x(cylinder)}
+            x2={x(cylinder)}
+            y1={MARGIN.top - 12}
+            y2={height - MARGIN.bottom}
+            stroke="#f3e8ff"
+          />
+        ))}
+
+        {/* Segmentos já percorridos */}
+        {visible.map((step, i) => {
+          const isNewest = i === visible.length - 1;
+          const midX = (x(step.from) + x(step.to)) / 2;
+          const midY = (y(i) + y(i + 1)) / 2;
+          return (
+            <g key={step.step}>
+              <line
+                x1={x(step.from)}
+                y1={y(i)}
+                x2={x(step.to)}
+                y2={y(i + 1)}
+                stroke={step.isReturn ? '#94a3b8' : '#7c3aed'}
+                strokeWidth={2}
+                strokeDasharray={step.isReturn ? '6 4' : undefined}
+                pathLength={step.isReturn ? undefined : 1}
+                className={isNewest && !step.isReturn ? 'animate-draw' : ''}
+              />
+              <text
+                x={midX + 6}
+                y={midY}
+                dominantBaseline="middle"
+                className="text-[10px] fill-gray-700"
+              >
+                {step.isReturn && step.seek === 0
+                  ? `(${step.distance})`
+                  : step.distance}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Posição inicial e paradas */}
+        <circle cx={x(initialHead)} cy={y(0)} r={4} fill="#2563eb" />
+        <text
+          x={x(initialHead) + 6}
+          y={y(0) - 6}
+          className="text-[10px] fill-blue-700 font-semibold"
+        >
+          {initialHead}
+        </text>
+        {visible.map((step, i) => (
+          <g key={step.step}>
+            <circle
+              cx={x(step.to)}
+              cy={y(i + 1)}
+              r={4}
+              fill={step.requestIndex !== null ? '#7c3aed' : 'white'}
+              stroke="#7c3aed"
+            />
+            <text
+              x={x(step.to) + 6}
+              y={y(i + 1) + 12}
+              className="text-[10px] fill-purple-900"
+            >
+              {step.to}
+            </text>
+          </g>
+        ))}
+      </svg>
+      <p className="text-sm text-purple-700 mt-2">{t('seekPath.legend')}</p>
+    </div>
+  );
+}
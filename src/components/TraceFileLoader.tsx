@@ -0,0 +1,170 @@
+import { ChangeEvent, ReactNode, useEffect, useRef, useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import type {
+  TraceJob,
+  TraceMessage,
+  TraceResult,
+  TraceStage,
+} from '../utils/traceWorker';
+import { useI18n } from '../i18n/context';
+import { PERCENT } from '../i18n/translate';
+
+// Classes completas por tema, para que o Tailwind as encontre no código
+const THEMES = {
+  indigo: {
+    text: 'text-indigo-900',
+    button: 'from-indigo-600 to-blue-600',
+    track: 'bg-indigo-100',
+  },
+  purple: {
+    text: 'text-purple-900',
+    button: 'from-purple-600 to-blue-600',
+    track: 'bg-purple-100',
+  },
+};
+
+interface TraceFileLoaderProps {
+  theme: keyof typeof THEMES;
+  hint: string; // Formatos aceitos, já traduzido
+  createJob: (file: File) => TraceJob;
+  onLoad: (result: TraceResult) => void;
+  children?: ReactNode; // Opções da conversão (ex.: tamanho da página)
+}
+
+/**
+ * Carrega um trace de arquivo. A leitura e, nos traces longos, a execução
+ * dos algoritmos ficam em um Web Worker; enquanto ele trabalha, uma barra
+ * mostra o progresso da etapa, e o usuário pode cancelar.
+ */
+export function TraceFileLoader({
+  theme,
+  hint,
+  createJob,
+  onLoad,
+  children,
+}: TraceFileLoaderProps) {
+  const { t, formatNumber } = useI18n();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const worker = useRef<Worker | null>(null);
+  const [progress, setProgress] = useState<{
+    stage: TraceStage;
+    fraction: number;
+  } | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean }>();
+  const colors = THEMES[theme];
+
+  const stop = () => {
+    worker.current?.terminate();
+    worker.current = null;
+    setProgress(null);
+  };
+
+  // O worker não sobrevive ao componente
+  useEffect(() => () => worker.current?.terminate(), []);
+
+  const load = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Permite carregar o mesmo arquivo de novo
+    if (!file) return;
+    stop();
+    setMessage(undefined);
+    const job = createJob(file);
+    const current = new Worker(
+      new URL('../utils/traceWorker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    current.onmessage = ({ data }: MessageEvent<TraceMessage>) => {
+      if (data.type === 'progress') {
+        setProgress({ stage: data.stage, fraction: data.fraction });
+        return;
+      }
+      stop();
+      if (data.type === 'error') {
+        setMessage({
+          text: t(`traceFile.errors.${data.reason}`),
+          isError: true,
+        });
+        return;
+      }
+      const { stats, fileName } = data.result;
+      setMessage({
+        text: t('traceFile.loaded', {
+          name: fileName,
+          count: stats.references,
+          skipped: stats.skipped,
+        }),
+        isError: false,
+      });
+      onLoad(data.result);
+    };
+    // Falhas que o próprio worker não conseguiu informar
+    current.onerror = () => {
+      stop();
+      setMessage({ text: t('traceFile.errors.failed'), isError: true });
+    };
+    worker.current = current;
+    setProgress({ stage: 'reading', fraction: 0 });
+    current.postMessage(job);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md mb-8">
+      <h3 className={`text-xl font-semibold mb-2 ${colors.text}`}>
+        {t('traceFile.title')}
+      </h3>
+      <p className={`text-sm mb-4 ${colors.text}`}>{hint}</p>
+      <div className={`flex flex-wrap items-end gap-4 ${colors.text}`}>
+        {children}
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={progress !== null}
+          className={`flex items-center gap-2 px-6 py-2 rounded-xl bg-gradient-to-r text-white shadow-lg transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed ${colors.button}`}
+        >
+          <FileText size={20} />
+          {t('traceFile.choose')}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".txt,.out,.log,.csv,.trace,text/plain,text/csv"
+          onChange={load}
+          className="hidden"
+        />
+      </div>
+
+      {progress && (
+        <div className="mt-4 flex items-center gap-4">
+          <div className="flex-1">
+            <div className={`flex justify-between text-sm mb-1 ${colors.text}`}>
+              <span>{t(`traceFile.stages.${progress.stage}`)}</span>
+              <span>{formatNumber(progress.fraction, PERCENT)}</span>
+            </div>
+            <div className={`h-2 rounded-full overflow-hidden ${colors.track}`}>
+              <div
+                className={`h-full bg-gradient-to-r transition-all ${colors.button}`}
+                style={{ width: `${progress.fraction * 100}%` }}
+              />
+            </div>
+          </div>
+          <button
+            onClick={stop}
+            className={`flex items-center gap-1 text-sm ${colors.text}`}
+          >
+            <X size={16} />
+            {t('traceFile.cancel')}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p
+          className={`mt-2 text-sm ${
+            message.isError ? 'text-red-600' : 'text-green-700'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
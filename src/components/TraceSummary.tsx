@@ -0,0 +1,174 @@
+import { ArrowLeft } from 'lucide-react';
+import type { TraceResult } from '../utils/traceWorker';
+import { MAX_TRACE_REFERENCES, TRACE_WINDOW } from '../engines/traceFiles';
+import { useI18n } from '../i18n/context';
+import { AT_MOST_ONE_DECIMAL, PERCENT } from '../i18n/translate';
+
+// Classes completas por tema, para que o Tailwind as encontre no código
+const THEMES = {
+  page: {
+    text: 'text-indigo-900',
+    card: 'from-indigo-100 to-blue-100',
+    value: 'text-indigo-700',
+    border: 'border-indigo-100',
+  },
+  disk: {
+    text: 'text-purple-900',
+    card: 'from-purple-100 to-blue-100',
+    value: 'text-purple-700',
+    border: 'border-purple-100',
+  },
+};
+
+interface TraceSummaryProps {
+  result: TraceResult; // Resultado de um trace longo (com `summaries`)
+  onClose: () => void;
+}
+
+/**
+ * Resumo de um trace longo demais para o simulador passo a passo: os
+ * números do arquivo e uma tabela com o resultado de cada algoritmo, com o
+ * melhor destacado, no lugar dos quadros e das tabelas de passos.
+ */
+export function TraceSummary({ result, onClose }: TraceSummaryProps) {
+  const { t, formatNumber } = useI18n();
+  const colors = THEMES[result.kind];
+  const { stats } = result;
+  const number = (value: number) => formatNumber(value, AT_MOST_ONE_DECIMAL);
+  // Melhor resultado: menos page faults ou menor seek total
+  const best = Math.min(
+    ...(result.kind === 'page'
+      ? (result.summaries ?? []).map((s) => s.faults)
+      : (result.summaries ?? []).map((s) => s.totalSeek))
+  );
+
+  const cards = [
+    { label: t('traceFile.references'), value: stats.references },
+    {
+      label: t(
+        result.kind === 'page'
+          ? 'common.distinctPages'
+          : 'traceFile.distinctCylinders'
+      ),
+      value: stats.distinct,
+    },
+    { label: t('traceFile.writes'), value: stats.writes },
+    { label: t('traceFile.skipped'), value: stats.skipped },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white p-6 rounded-xl shadow-md">
+        <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+          <h3 className={`text-xl font-semibold ${colors.text}`}>
+            {t('traceFile.summaryTitle', { name: result.fileName })}
+          </h3>
+          <button
+            onClick={onClose}
+            className={`flex items-center gap-2 text-sm ${colors.text}`}
+          >
+            <ArrowLeft size={16} />
+            {t('traceFile.close')}
+          </button>
+        </div>
+        <p className={`text-sm mb-4 ${colors.value}`}>
+          {result.kind === 'page'
+            ? t('traceFile.pageSummary', {
+                frames: result.frameCount,
+                size: result.pageSize,
+              })
+            : t('traceFile.diskSummary', {
+                cylinders: result.diskSize,
+                window: TRACE_WINDOW,
+              })}
+          {stats.truncated &&
+            ` ${t('traceFile.truncated', { max: MAX_TRACE_REFERENCES })}`}
+        </p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {cards.map(({ label, value }) => (
+            <div
+              key={label}
+              className={`bg-gradient-to-r p-4 rounded-xl ${colors.card}`}
+            >
+              <p className={`text-sm font-semibold ${colors.text}`}>{label}</p>
+              <p className={`text-2xl font-bold ${colors.value}`}>
+                {formatNumber(value)}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-md overflow-x-auto">
+        {result.kind === 'page' && result.summaries && (
+          <table className={`w-full text-left ${colors.text}`}>
+            <thead>
+              <tr className={`border-b ${colors.border}`}>
+                <th className="py-2 pr-4">{t('common.algorithm')}</th>
+                <th className="py-2 pr-4">{t('common.pageFaults')}</th>
+                <th className="py-2 pr-4">{t('common.hitRatio')}</th>
+                <th className="py-2 pr-4">{t('common.writeBacks')}</th>
+                <th className="py-2 pr-4">{t('common.totalIO')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.summaries.map((summary) => (
+                <tr
+                  key={summary.algorithm}
+                  className={`border-b ${colors.border} ${
+                    summary.faults === best ? 'bg-green-50 font-semibold' : ''
+                  }`}
+                >
+                  <td className="py-2 pr-4">{summary.algorithm}</td>
+                  <td className="py-2 pr-4">{formatNumber(summary.faults)}</td>
+                  <td className="py-2 pr-4">
+                    {formatNumber(summary.hitRatio, PERCENT)}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {formatNumber(summary.writeBacks)}
+                  </td>
+                  <td className="py-2 pr-4">{formatNumber(summary.totalIO)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {result.kind === 'disk' && result.summaries && (
+          <table className={`w-full text-left ${colors.text}`}>
+            <thead>
+              <tr className={`border-b ${colors.border}`}>
+                <th className="py-2 pr-4">{t('common.algorithm')}</th>
+                <th className="py-2 pr-4">{t('comparison.totalSeek')}</th>
+                <th className="py-2 pr-4">{t('comparison.averageSeek')}</th>
+                <th className="py-2 pr-4">{t('comparison.averageResponse')}</th>
+                <th className="py-2 pr-4">{t('traceFile.maxResponse')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.summaries.map((summary) => (
+                <tr
+                  key={summary.algorithm}
+                  className={`border-b ${colors.border} ${
+                    summary.totalSeek === best
+                      ? 'bg-green-50 font-semibold'
+                      : ''
+                  }`}
+                >
+                  <td className="py-2 pr-4">{summary.algorithm}</td>
+                  <td className="py-2 pr-4">
+                    {formatNumber(summary.totalSeek)}
+                  </td>
+                  <td className="py-2 pr-4">{number(summary.averageSeek)}</td>
+                  <td className="py-2 pr-4">
+                    {number(summary.averageResponse)}
+                  </td>
+                  <td className="py-2 pr-4">{number(summary.maxResponse)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
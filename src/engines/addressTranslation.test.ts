@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AddressTranslationConfig,
+  formatAddress,
+  pageTableAt,
+  simulateAddressTranslation,
+  splitAddress,
+  summarizeTranslation,
+} from './addressTranslation';
+
+// Endereços de 16 bits com páginas de 256 bytes: 8 bits de página e 8 de deslocamento
+const CONFIG: AddressTranslationConfig = {
+  addressBits: 16,
+  pageSize: 256,
+  tlbSize: 2,
+  tlbPolicy: 'LRU',
+  algorithm: 'FIFO',
+  frameCount: 2,
+};
+// Páginas 1, 1, 2, 3, 1
+const ADDRESSES = [0x0123, 0x01ff, 0x0204, 0x0305, 0x0110];
+
+const tlbPages = (tlb: ({ page: number } | null)[]) =>
+  tlb.map((e) => (e ? e.page : null));
+
+describe('splitAddress', () => {
+  it('separa número de página e deslocamento', () => {
+    expect(splitAddress(0x1a3f, 1024)).toEqual({ page: 6, offset: 0x23f });
+  });
+
+  it('funciona com endereços de 32 bits', () => {
+    expect(splitAddress(0xffffffff, 4096)).toEqual({
+      page: 0xfffff,
+      offset: 0xfff,
+    });
+  });
+});
+
+describe('simulateAddressTranslation', () => {
+  it('monta o endereço físico a partir do frame escolhido pelo motor de substituição', () => {
+    const trace = simulateAddressTranslation(ADDRESSES, CONFIG);
+    expect(trace.offsetBits).toBe(8);
+    expect(trace.pageBits).toBe(8);
+    expect(trace.physicalBits).toBe(9);
+    expect(trace.steps.map((s) => s.pageFault)).toEqual([
+      true,
+      false,
+      true,
+      true,
+      true,
+    ]);
+    // FIFO: a página 3 substitui a 1 (frame 0) e a 1 volta no lugar da 2 (frame 1)
+    expect(trace.steps[3].physicalAddress).toBe(0x005);
+    expect(trace.steps[4].physicalAddress).toBe(0x110);
+  });
+
+  it('invalida na TLB a página que sai da memória', () => {
+    const { steps } = simulateAddressTranslation(ADDRESSES, CONFIG);
+    expect(steps[1].tlbHit).toBe(true);
+    expect(steps[3].tlbInvalidated).toBe(1);
+    expect(steps[3].tlbVictim).toBeNull();
+    expect(tlbPages(steps[3].tlb)).toEqual([3, 2]);
+    expect(steps[4].tlbInvalidated).toBe(2);
+    expect(tlbPages(steps[4].tlb)).toEqual([3, 1]);
+    expect(steps[4].tlb[1]!.frame).toBe(1);
+  });
+
+  it('substitui entradas da TLB por FIFO ou LRU', () => {
+    const addresses = [0x100, 0x200, 0x100, 0x300, 0x200];
+    const config = { ...CONFIG, frameCount: 4 };
+    const lru = simulateAddressTranslation(addresses, config);
+    const fifo = simulateAddressTranslation(addresses, {
+      ...config,
+      tlbPolicy: 'FIFO',
+    });
+    expect(lru.steps[3].tlbVictim).toBe(2);
+    expect(fifo.steps[3].tlbVictim).toBe(1);
+    expect(summarizeTranslation(lru).tlbHits).toBe(1);
+    expect(summarizeTranslation(fifo).tlbHits).toBe(2);
+  });
+
+  it('rejeita tamanhos de página que não são potência de 2 e endereços fora do espaço', () => {
+    expect(() =>
+      simulateAddressTranslation([0], { ...CONFIG, pageSize: 300 })
+    ).toThrow(RangeError);
+    expect(() => simulateAddressTranslation([0x10000], CONFIG)).toThrow(
+      'fora do espaço de 16 bits'
+    );
+  });
+});
+
+describe('pageTableAt', () => {
+  it('lista as páginas da sequência com frame e bits', () => {
+    const trace = simulateAddressTranslation(ADDRESSES, CONFIG);
+    expect(pageTableAt(trace, 0).every((e) => !e.valid)).toBe(true);
+    expect(pageTableAt(trace, 4)).toEqual([
+      { page: 1, frame: null, valid: false, dirty: false, referenced: false },
+      { page: 2, frame: 1, valid: true, dirty: false, referenced: true },
+      { page: 3, frame: 0, valid: true, dirty: false, referenced: true },
+    ]);
+  });
+
+  it('liga o bit de modificação da página escrita', () => {
+    const trace = simulateAddressTranslation(ADDRESSES, {
+      ...CONFIG,
+      writes: [false, true, false, false, false],
+    });
+    expect(trace.steps[1].pageStep.isWrite).toBe(true);
+    expect(pageTableAt(trace, 2)[0]).toMatchObject({ page: 1, dirty: true });
+    expect(pageTableAt(trace, 3)[1]).toMatchObject({ page: 2, dirty: false });
+    // A página 1 sai no passo 4 e volta limpa no passo 5
+    expect(trace.steps[3].pageStep.writeBack).toBe(true);
+    expect(pageTableAt(trace, 5)[0]).toMatchObject({ page: 1, dirty: false });
+  });
+});
+
+describe('summarizeTranslation', () => {
+  it('calcula a taxa de acerto da TLB e o tempo efetivo de acesso', () => {
+    const trace = simulateAddressTranslation([0x100, 0x100], {
+      ...CONFIG,
+      times: { tlb: 20, memory: 100, fault: 1000 },
+    });
+    const summary = summarizeTranslation(trace);
+    expect(summary.tlbHitRate).toBe(0.5);
+    expect(summary.pageFaults).toBe(1);
+    // (20 + 100 + 1000 + 100) e (20 + 100)
+    expect(summary.effectiveAccessTime).toBe(670);
+    expect(summary.translationAccessTime).toBe(170);
+    expect(summarizeTranslation(trace, 1).tlbHits).toBe(0);
+  });
+});
+
+describe('formatAddress', () => {
+  it('completa com zeros até a largura do endereço', () => {
+    expect(formatAddress(0x1a3, 16)).toBe('0x01A3');
+    expect(formatAddress(5, 9)).toBe('0x005');
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Motor da tradução de endereços virtuais.
+ *
+ * Cada endereço é dividido em número de página e deslocamento; a página é
+ * procurada primeiro na TLB e, na falta, na tabela de páginas. Os page
+ * faults são resolvidos pelo motor de substituição de páginas, com o
+ * algoritmo escolhido, e o endereço físico é montado a partir do frame.
+ *
+ * Como no motor de substituição, o resultado é um trace determinístico:
+ * os "timestamps" da TLB são os índices dos passos.
+ */
+
+import {
+  FrameState,
+  PageAlgorithm,
+  PageStep,
+  PageTrace,
+  simulatePageReplacement,
+} from './pageReplacement';
+
+export type TlbPolicy = 'FIFO' | 'LRU';
+
+export const TLB_POLICIES: readonly TlbPolicy[] = ['FIFO', 'LRU'];
+
+/**
+ * Custos de acesso, em nanossegundos.
+ * - `tlb`: Consulta à TLB (feita em todo acesso).
+ * - `memory`: Um acesso à memória (leitura da tabela de páginas ou do dado).
+ * - `fault`: Tratamento de um page fault (leitura da página no disco).
+ */
+export interface AccessTimes {
+  tlb: number;
+  memory: number;
+  fault: number;
+}
+
+export const DEFAULT_ACCESS_TIMES: AccessTimes = {
+  tlb: 20,
+  memory: 100,
+  fault: 8000000,
+};
+
+/**
+ * Configuração da tradução.
+ * - `addressBits`: Largura do endereço virtual, em bits.
+ * - `pageSize`: Tamanho da página em bytes (potência de 2).
+ * - `tlbSize`: Número de entradas da TLB.
+ * - `tlbPolicy`: Entrada removida quando a TLB está cheia.
+ * - `algorithm` e `frameCount`: Repassados ao motor de substituição.
+ * - `writes`: Indica, para cada endereço, se o acesso é uma escrita (liga o
+ *   bit de modificação da página). Padrão: todos são leituras.
+ */
+export interface AddressTranslationConfig {
+  addressBits: number;
+  pageSize: number;
+  tlbSize: number;
+  tlbPolicy: TlbPolicy;
+  algorithm: PageAlgorithm;
+  frameCount: number;
+  times?: AccessTimes;
+  writes?: boolean[];
+}
+
+/**
+ * Entrada da TLB: o mapeamento página → frame e os passos usados pela
+ * política de substituição.
+ */
+export interface TlbEntry {
+  page: number;
+  frame: number;
+  loadedAt: number;
+  lastUsedAt: number;
+}
+
+/**
+ * Linha da tabela de páginas.
+ * - `frame`: Frame da página, ou `null` se ela não está na memória.
+ * - `valid`: Bit de validade (página presente na memória).
+ * - `dirty`: Bit de modificação (a página precisa ser gravada ao sair).
+ * - `referenced`: Bit de referência mantido pelo algoritmo de substituição.
+ */
+export interface PageTableEntry {
+  page: number;
+  frame: number | null;
+  valid: boolean;
+  dirty: boolean;
+  referenced: boolean;
+}
+
+/**
+ * Resultado da tradução de um endereço.
+ * - `tlb`: Conteúdo da TLB após o passo (`null` para entrada livre).
+ * - `tlbIndex`: Entrada da TLB usada (hit) ou preenchida (miss).
+ * - `tlbVictim`: Página removida da TLB por falta de espaço.
+ * - `tlbInvalidated`: Página que saiu da memória e, por isso, da TLB.
+ * - `pageStep`: Passo correspondente do motor de substituição.
+ * - `accessTime`: Custo total do acesso (ns), com a leitura do dado.
+ */
+export interface TranslationStep {
+  step: number;
+  address: number;
+  page: number;
+  offset: number;
+  tlbHit: boolean;
+  tlb: (TlbEntry | null)[];
+  tlbIndex: number;
+  tlbVictim: number | null;
+  tlbInvalidated: number | null;
+  pageFault: boolean;
+  pageStep: PageStep;
+  frame: number;
+  physicalAddress: number;
+  accessTime: number;
+}
+
+export interface TranslationTrace {
+  addressBits: number;
+  pageSize: number;
+  offsetBits: number;
+  pageBits: number;
+  physicalBits: number; // Largura do endereço físico, em bits
+  tlbSize: number;
+  tlbPolicy: TlbPolicy;
+  times: AccessTimes;
+  addresses: number[];
+  pageTrace: PageTrace;
+  steps: TranslationStep[];
+}
+
+/**
+ * Divide um endereço virtual em número de página e deslocamento.
+ * Usa divisão em vez de operadores de bits, que são limitados a 32 bits
+ * com sinal.
+ */
+export const splitAddress = (address: number, pageSize: number) => ({
+  page: Math.floor(address / pageSize),
+  offset: address % pageSize,
+});
+
+/**
+ * Endereço em hexadecimal, com os dígitos necessários para `bits` bits
+ * (ex.: `formatAddress(0x1a3, 16)` → "0x01A3").
+ */
+export const formatAddress = (value: number, bits: number) =>
+  `0x${value
+    .toString(16)
+    .toUpperCase()
+    .padStart(Math.ceil(bits / 4), '0')}`;
+
+// Índice da entrada que minimiza `key`
+const argMin = (entries: TlbEntry[], key: (entry: TlbEntry) => number) =>
+  entries.reduce((best, e, i, arr) => (key(e) < key(arr[best]) ? i : best), 0);
+
+/**
+ * Traduz a sequência completa de endereços virtuais.
+ *
+ * A TLB é preenchida da esquerda para a direita; quando uma página sai da
+ * memória, sua entrada na TLB é invalidada, para que nenhuma tradução
+ * aponte para um frame que já recebeu outra página.
+ */
+export function simulateAddressTranslation(
+  addresses: number[],
+  {
+    addressBits,
+    pageSize,
+    tlbSize,
+    tlbPolicy,
+    algorithm,
+    frameCount,
+    times = DEFAULT_ACCESS_TIMES,
+    writes,
+  }: AddressTranslationConfig
+): TranslationTrace {
+  if (!Number.isInteger(addressBits) || addressBits < 1 || addressBits > 32) {
+    throw new RangeError(
+      'A largura do endereço deve ser um inteiro entre 1 e 32 bits.'
+    );
+  }
+  const offsetBits = Math.log2(pageSize);
+  if (!Number.isInteger(offsetBits) || offsetBits >= addressBits) {
+    throw new RangeError(
+      'O tamanho da página deve ser uma potência de 2 menor que o espaço de endereçamento.'
+    );
+  }
+  if (!Number.isInteger(tlbSize) || tlbSize < 1) {
+    throw new RangeError('O tamanho da TLB deve ser um inteiro positivo.');
+  }
+  const addressSpace = 2 ** addressBits;
+  addresses.forEach((address) => {
+    if (!Number.isInteger(address) || address < 0 || address >= addressSpace) {
+      throw new RangeError(
+        `O endereço ${address} está fora do espaço de ${addressBits} bits.`
+      );
+    }
+  });
+
+  const pages = addresses.map((a) => splitAddress(a, pageSize).page);
+  const pageTrace = simulatePageReplacement(pages, {
+    algorithm,
+    frameCount,
+    writes,
+  });
+  const tlb: (TlbEntry | null)[] = Array(tlbSize).fill(null);
+
+  const steps = addresses.map((address, step): TranslationStep => {
+    const { page, offset } = splitAddress(address, pageSize);
+    const pageStep = pageTrace.steps[step];
+    const frame = pageStep.frameIndex;
+
+    // A página removida da memória não pode continuar traduzida pela TLB
+    let tlbInvalidated: number | null = null;
+    if (pageStep.victim !== null) {
+      const stale = tlb.findIndex((e) => e?.page === pageStep.victim);
+      if (stale !== -1) {
+        tlb[stale] = null;
+        tlbInvalidated = pageStep.victim;
+      }
+    }
+
+    let tlbIndex = tlb.findIndex((e) => e?.page === page);
+    const tlbHit = tlbIndex !== -1;
+    let tlbVictim: number | null = null;
+    if (tlbHit) {
+      tlb[tlbIndex] = { ...tlb[tlbIndex]!, lastUsedAt: step };
+    } else {
+      tlbIndex = tlb.indexOf(null);
+      if (tlbIndex === -1) {
+        const entries = tlb as TlbEntry[];
+        tlbIndex =
+          tlbPolicy === 'FIFO'
+            ? argMin(entries, (e) => e.loadedAt)
+            : argMin(entries, (e) => e.lastUsedAt);
+        tlbVictim = entries[tlbIndex].page;
+      }
+      tlb[tlbIndex] = { page, frame, loadedAt: step, lastUsedAt: step };
+    }
+
+    // TLB sempre; tabela de páginas no miss; disco no fault; por fim, o dado
+    const accessTime =
+      times.tlb +
+      (tlbHit ? 0 : times.memory) +
+      (pageStep.isFault ? times.fault : 0) +
+      times.memory;
+
+    return {
+      step,
+      address,
+      page,
+      offset,
+      tlbHit,
+      tlb: [...tlb],
+      tlbIndex,
+      tlbVictim,
+      tlbInvalidated,
+      pageFault: pageStep.isFault,
+      pageStep,
+      frame,
+      physicalAddress: frame * pageSize + offset,
+      accessTime,
+    };
+  });
+
+  return {
+    addressBits,
+    pageSize,
+    offsetBits,
+    pageBits: addressBits - offsetBits,
+    physicalBits: offsetBits + Math.ceil(Math.log2(frameCount)),
+    tlbSize,
+    tlbPolicy,
+    times,
+    addresses: [...addresses],
+    pageTrace,
+    steps,
+  };
+}
+
+/**
+ * Tabela de páginas após `stepCount` passos, com uma linha para cada
+ * página que aparece na sequência (em ordem crescente).
+ */
+export function pageTableAt(
+  { steps }: TranslationTrace,
+  stepCount: number
+): PageTableEntry[] {
+  const frames: (FrameState | null)[] =
+    stepCount > 0 ? steps[stepCount - 1].pageStep.frames : [];
+  const pages = [...new Set(steps.map((s) => s.page))].sort((a, b) => a - b);
+  return pages.map((page) => {
+    const frame = frames.findIndex((f) => f?.page === page);
+    const state = frame === -1 ? null : frames[frame]!;
+    return {
+      page,
+      frame: state ? frame : null,
+      valid: state !== null,
+      dirty: state?.modified ?? false,
+      referenced: state?.referenceBit ?? false,
+    };
+  });
+}
+
+export interface TranslationSummary {
+  tlbHits: number;
+  tlbMisses: number;
+  tlbHitRate: number; // Fração de traduções resolvidas pela TLB (0 a 1)
+  pageFaults: number;
+  effectiveAccessTime: number; // Média medida, com os page faults (ns)
+  translationAccessTime: number; // TEA só com TLB e memória, pela taxa medida (ns)
+}
+
+/**
+ * Resume os primeiros `stepCount` passos (por padrão, todos).
+ */
+export function summarizeTranslation(
+  { steps, times }: TranslationTrace,
+  stepCount = steps.length
+): TranslationSummary {
+  const done = steps.slice(0, stepCount);
+  const tlbHits = done.filter((s) => s.tlbHit).length;
+  const tlbHitRate = done.length === 0 ? 0 : tlbHits / done.length;
+  const totalTime = done.reduce((sum, s) => sum + s.accessTime, 0);
+  return {
+    tlbHits,
+    tlbMisses: done.length - tlbHits,
+    tlbHitRate,
+    pageFaults: done.filter((s) => s.pageFault).length,
+    effectiveAccessTime: done.length === 0 ? 0 : totalTime / done.length,
+    translationAccessTime:
+      tlbHitRate * (times.tlb + times.memory) +
+      (1 - tlbHitRate) * (times.tlb + 2 * times.memory),
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeFaultCurves,
+  findAnomalies,
+  searchBeladyAnomaly,
+} from './belady';
+
+const BELADY = [1, 2, 3, 4, 1, 2, 5, 1, 2, 3, 4, 5];
+
+describe('computeFaultCurves', () => {
+  it('calcula os faults para cada número de frames', () => {
+    const [fifo] = computeFaultCurves(BELADY, 5, ['FIFO']);
+    expect(fifo.faults).toEqual([12, 12, 9, 10, 5]);
+  });
+});
+
+describe('findAnomalies', () => {
+  it('detecta a anomalia do FIFO de 3 para 4 frames', () => {
+    const anomalies = findAnomalies(computeFaultCurves(BELADY, 5));
+    expect(anomalies).toContainEqual({
+      algorithm: 'FIFO',
+      frames: 3,
+      faults: 9,
+      nextFaults: 10,
+    });
+  });
+
+  it('não encontra anomalias em algoritmos de pilha', () => {
+    const anomalies = findAnomalies(
+      computeFaultCurves(BELADY, 6, ['LRU', 'OPT'])
+    );
+    expect(anomalies).toEqual([]);
+  });
+});
+
+describe('searchBeladyAnomaly', () => {
+  it('encontra uma sequência que realmente exibe a anomalia', () => {
+    const result = searchBeladyAnomaly({
+      seed: 1,
+      length: 16,
+      pageCount: 5,
+      maxFrames: 5,
+      attempts: 20000,
+    });
+    expect(result).not.toBeNull();
+    const { references, anomaly } = result!;
+    const [fifo] = computeFaultCurves(references, 5, ['FIFO']);
+    expect(fifo.faults[anomaly.frames]).toBeGreaterThan(
+      fifo.faults[anomaly.frames - 1]
+    );
+  });
+
+  it('é reprodutível para a mesma semente', () => {
+    const options = {
+      seed: 7,
+      length: 16,
+      pageCount: 5,
+      maxFrames: 5,
+      attempts: 20000,
+    };
+    expect(searchBeladyAnomaly(options)).toEqual(searchBeladyAnomaly(options));
+  });
+
+  it('pode ser feita em partes, avançando a semente', () => {
+    const options = { length: 16, pageCount: 5, maxFrames: 5 };
+    const whole = searchBeladyAnomaly({ ...options, seed: 1, attempts: 20000 });
+    expect(whole!.attempts).toBeGreaterThan(1);
+    const skipped = whole!.attempts - 1;
+    const rest = searchBeladyAnomaly({
+      ...options,
+      seed: 1 + skipped,
+      attempts: 20000,
+    });
+    expect(rest).toEqual({ ...whole, attempts: 1 });
+  });
+
+  it('termina rápido quando nenhuma sequência exibe a anomalia', () => {
+    const start = performance.now();
+    for (const pageCount of [2, 3, 5]) {
+      expect(
+        searchBeladyAnomaly({
+          seed: 1,
+          length: 100,
+          pageCount,
+          maxFrames: 20,
+          attempts: 5000,
+        })
+      ).toBeNull();
+    }
+    expect(performance.now() - start).toBeLessThan(10000);
+  });
+
+  it('retorna null quando não encontra nada', () => {
+    expect(
+      searchBeladyAnomaly({
+        seed: 1,
+        length: 3,
+        pageCount: 2,
+        maxFrames: 3,
+        attempts: 10,
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Exploração da anomalia de Belady.
+ *
+ * A anomalia ocorre quando aumentar o número de frames aumenta o número de
+ * page faults. Algoritmos de pilha (LRU, OPT) nunca a apresentam; o FIFO
+ * pode apresentá-la.
+ */
+
+import {
+  PAGE_ALGORITHMS,
+  PageAlgorithm,
+  summarizePageReplacement,
+} from './pageReplacement';
+import { generatePageReferences } from './workloads';
+
+/**
+ * Curva de faults de um algoritmo: `faults[k - 1]` é o número de page
+ * faults com `k` frames.
+ */
+export interface FaultCurve {
+  algorithm: PageAlgorithm;
+  faults: number[];
+}
+
+/**
+ * Trecho da curva em que os faults aumentam com mais frames.
+ */
+export interface Anomaly {
+  algorithm: PageAlgorithm;
+  frames: number; // Com `frames` frames...
+  faults: number;
+  nextFaults: number; // ...e com `frames + 1` frames
+}
+
+export interface AnomalySearchOptions {
+  seed: number;
+  length: number;
+  pageCount: number;
+  maxFrames: number;
+  attempts: number;
+}
+
+export interface AnomalySearchResult {
+  references: number[];
+  anomaly: Anomaly;
+  attempts: number; // Sequências testadas até encontrar a anomalia
+}
+
+/**
+ * Calcula os faults de cada algoritmo com 1 a `maxFrames` frames. Com
+ * frames para todas as páginas distintas não há substituição, e os faults
+ * são só as primeiras referências a cada página: esses pontos não precisam
+ * ser simulados.
+ */
+export function computeFaultCurves(
+  references: number[],
+  maxFrames: number,
+  algorithms: readonly PageAlgorithm[] = PAGE_ALGORITHMS
+): FaultCurve[] {
+  const distinct = new Set(references).size;
+  return algorithms.map((algorithm) => ({
+    algorithm,
+    faults: Array.from({ length: maxFrames }, (_, i) =>
+      i + 1 >= distinct
+        ? distinct
+        : summarizePageReplacement(references, {
+            algorithm,
+            frameCount: i + 1,
+          }).faults
+    ),
+  }));
+}
+
+/**
+ * Lista todos os pontos em que uma curva sobe de `k` para `k + 1` frames.
+ */
+export function findAnomalies(curves: FaultCurve[]): Anomaly[] {
+  return curves.flatMap(({ algorithm, faults }) =>
+    faults.slice(0, -1).flatMap((count, i) =>
+      faults[i + 1] > count
+        ? [
+            {
+              algorithm,
+              frames: i + 1,
+              faults: count,
+              nextFaults: faults[i + 1],
+            },
+          ]
+        : []
+    )
+  );
+}
+
+/**
+ * Procura, entre sequências aleatórias geradas a partir de `seed`, uma
+ * que faça o FIFO apresentar a anomalia de Belady. Retorna `null` se
+ * nenhuma for encontrada em `attempts` tentativas.
+ *
+ * A curva de cada sequência só vai até uma página a menos que as páginas
+ * distintas: a partir daí os faults não mudam, e a anomalia não aparece.
+ * A sequência da tentativa `n` usa a semente `seed + n`, então uma busca
+ * longa pode ser feita em partes, avançando a semente.
+ */
+export function searchBeladyAnomaly({
+  seed,
+  length,
+  pageCount,
+  maxFrames,
+  attempts,
+}: AnomalySearchOptions): AnomalySearchResult | null {
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const references = generatePageReferences({
+      pattern: 'uniform',
+      length,
+      pageCount,
+      seed: seed + attempt,
+    });
+    const frames = Math.min(maxFrames, new Set(references).size - 1);
+    if (frames < 2) continue;
+    const [anomaly] = findAnomalies(
+      computeFaultCurves(references, frames, ['FIFO'])
+    );
+    if (anomaly) return { references, anomaly, attempts: attempt + 1 };
+  }
+  return null;
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CpuProcess,
+  CpuTrace,
+  simulateCpuScheduling,
+  summarizeCpuTrace,
+} from './cpuScheduling';
+
+// Exemplo clássico do SRTF (chegada, duração)
+const CLASSIC: CpuProcess[] = [
+  { arrival: 0, burst: 8, priority: 0 },
+  { arrival: 1, burst: 4, priority: 0 },
+  { arrival: 2, burst: 9, priority: 0 },
+  { arrival: 3, burst: 5, priority: 0 },
+];
+
+const gantt = (trace: CpuTrace) =>
+  trace.slices.map(({ pid, start, end }) => [pid, start, end]);
+
+describe('simulateCpuScheduling', () => {
+  it('atende por ordem de chegada no FCFS', () => {
+    const trace = simulateCpuScheduling(CLASSIC, { algorithm: 'FCFS' });
+    expect(gantt(trace)).toEqual([
+      [0, 0, 8],
+      [1, 8, 12],
+      [2, 12, 21],
+      [3, 21, 26],
+    ]);
+    expect(trace.results.map((r) => r.waiting)).toEqual([0, 7, 10, 18]);
+    expect(summarizeCpuTrace(trace).averageWaiting).toBeCloseTo(8.75);
+  });
+
+  it('escolhe o menor job só quando a CPU fica livre no SJF', () => {
+    const trace = simulateCpuScheduling(CLASSIC, { algorithm: 'SJF' });
+    expect(gantt(trace)).toEqual([
+      [0, 0, 8],
+      [1, 8, 12],
+      [3, 12, 17],
+      [2, 17, 26],
+    ]);
+    expect(summarizeCpuTrace(trace).averageWaiting).toBeCloseTo(7.75);
+  });
+
+  it('interrompe o processo quando chega um com menos tempo restante no SRTF', () => {
+    const trace = simulateCpuScheduling(CLASSIC, { algorithm: 'SRTF' });
+    expect(gantt(trace)).toEqual([
+      [0, 0, 1],
+      [1, 1, 5],
+      [3, 5, 10],
+      [0, 10, 17],
+      [2, 17, 26],
+    ]);
+    expect(trace.ticks[1].preempted).toBe(0);
+    const summary = summarizeCpuTrace(trace);
+    expect(summary.averageWaiting).toBeCloseTo(6.5);
+    expect(summary.averageResponse).toBeCloseTo(4.25);
+    expect(summary.contextSwitches).toBe(4);
+  });
+
+  it('resume só os processos que terminaram até o instante pedido', () => {
+    const trace = simulateCpuScheduling(CLASSIC, { algorithm: 'SRTF' });
+    expect(summarizeCpuTrace(trace, 10)).toMatchObject({
+      completed: 2,
+      averageWaiting: 1,
+      averageTurnaround: 5.5,
+      utilization: 1,
+      contextSwitches: 2,
+    });
+    expect(summarizeCpuTrace(trace, 0).completed).toBe(0);
+  });
+
+  it('alterna os processos a cada quantum no Round Robin', () => {
+    const trace = simulateCpuScheduling(
+      [
+        { arrival: 0, burst: 24, priority: 0 },
+        { arrival: 0, burst: 3, priority: 0 },
+        { arrival: 0, burst: 3, priority: 0 },
+      ],
+      { algorithm: 'RR', quantum: 4 }
+    );
+    expect(gantt(trace)).toEqual([
+      [0, 0, 4],
+      [1, 4, 7],
+      [2, 7, 10],
+      [0, 10, 30],
+    ]);
+    expect(trace.ticks[4]).toMatchObject({
+      preempted: 0,
+      quantumExpired: true,
+    });
+    // Sozinho na fila, P0 volta à CPU sem contar como interrupção
+    expect(trace.ticks[14].preempted).toBeNull();
+    expect(summarizeCpuTrace(trace).averageWaiting).toBeCloseTo(17 / 3);
+  });
+
+  it('coloca quem chega antes de quem esgotou o quantum no mesmo instante', () => {
+    const trace = simulateCpuScheduling(
+      [
+        { arrival: 0, burst: 3, priority: 0 },
+        { arrival: 2, burst: 1, priority: 0 },
+      ],
+      { algorithm: 'RR', quantum: 2 }
+    );
+    expect(gantt(trace)).toEqual([
+      [0, 0, 2],
+      [1, 2, 3],
+      [0, 3, 4],
+    ]);
+    expect(trace.ticks[2].queues).toEqual([[0]]);
+  });
+
+  it('atende pela prioridade, com e sem preempção', () => {
+    const processes = [
+      { arrival: 0, burst: 5, priority: 3 },
+      { arrival: 2, burst: 2, priority: 1 },
+      { arrival: 3, burst: 1, priority: 2 },
+    ];
+    expect(
+      gantt(simulateCpuScheduling(processes, { algorithm: 'PRIORITY' }))
+    ).toEqual([
+      [0, 0, 5],
+      [1, 5, 7],
+      [2, 7, 8],
+    ]);
+    expect(
+      gantt(simulateCpuScheduling(processes, { algorithm: 'PRIORITY_P' }))
+    ).toEqual([
+      [0, 0, 2],
+      [1, 2, 4],
+      [2, 4, 5],
+      [0, 5, 8],
+    ]);
+  });
+
+  it('rebaixa no MLFQ quem esgota o quantum e preempta por nível', () => {
+    const single = simulateCpuScheduling(
+      [{ arrival: 0, burst: 10, priority: 0 }],
+      { algorithm: 'MLFQ', mlfqQuanta: [2, 4] }
+    );
+    expect(single.ticks.map((t) => t.level)).toEqual([
+      0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+    ]);
+
+    const trace = simulateCpuScheduling(
+      [
+        { arrival: 0, burst: 6, priority: 0 },
+        { arrival: 3, burst: 2, priority: 0 },
+      ],
+      { algorithm: 'MLFQ', mlfqQuanta: [2, 4] }
+    );
+    expect(gantt(trace)).toEqual([
+      [0, 0, 3],
+      [1, 3, 5],
+      [0, 5, 8],
+    ]);
+    // P0 é interrompido sem esgotar o quantum e continua no nível 1
+    expect(trace.ticks[3]).toMatchObject({
+      preempted: 0,
+      quantumExpired: false,
+      queues: [[], [0], []],
+    });
+    expect(trace.ticks[5].level).toBe(1);
+  });
+
+  it('registra a CPU ociosa enquanto ninguém chegou', () => {
+    const trace = simulateCpuScheduling(
+      [
+        { arrival: 2, burst: 1, priority: 0 },
+        { arrival: 5, burst: 2, priority: 0 },
+      ],
+      { algorithm: 'FCFS' }
+    );
+    expect(gantt(trace)).toEqual([
+      [null, 0, 2],
+      [0, 2, 3],
+      [null, 3, 5],
+      [1, 5, 7],
+    ]);
+    expect(trace.results.map((r) => r.response)).toEqual([0, 0]);
+    expect(summarizeCpuTrace(trace).utilization).toBeCloseTo(3 / 7);
+  });
+
+  it('rejeita entradas inválidas', () => {
+    expect(() => simulateCpuScheduling([], { algorithm: 'FCFS' })).toThrow(
+      RangeError
+    );
+    expect(() =>
+      simulateCpuScheduling([{ arrival: 0, burst: 0, priority: 0 }], {
+        algorithm: 'FCFS',
+      })
+    ).toThrow(RangeError);
+    expect(() =>
+      simulateCpuScheduling(CLASSIC, { algorithm: 'RR', quantum: 0 })
+    ).toThrow(RangeError);
+  });
+});
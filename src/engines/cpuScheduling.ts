@@ -0,0 +1,319 @@
+/**
+ * Motor de simulação de escalonamento de CPU.
+ *
+ * A simulação avança de 1 em 1 unidade de tempo: a cada instante, entram
+ * na fila os processos que chegaram, o algoritmo decide se o processo em
+ * execução continua e, se a CPU estiver livre, escolhe o próximo. O trace
+ * registra cada instante, o que permite animar o diagrama de Gantt e as
+ * filas de prontos.
+ *
+ * Convenções: o menor número é a maior prioridade; empates são resolvidos
+ * pela ordem de chegada e depois pelo número do processo.
+ */
+
+export type CpuAlgorithm =
+  | 'FCFS'
+  | 'SJF'
+  | 'SRTF'
+  | 'RR'
+  | 'PRIORITY'
+  | 'PRIORITY_P'
+  | 'MLFQ';
+
+export const CPU_ALGORITHMS: readonly CpuAlgorithm[] = [
+  'FCFS',
+  'SJF',
+  'SRTF',
+  'RR',
+  'PRIORITY',
+  'PRIORITY_P',
+  'MLFQ',
+];
+
+export interface CpuProcess {
+  arrival: number;
+  burst: number; // Tempo de CPU necessário
+  priority: number; // Menor número = maior prioridade
+}
+
+/**
+ * Configuração da simulação.
+ * - `quantum`: Quantum do Round Robin. Padrão: 2.
+ * - `mlfqQuanta`: Quantum de cada nível do MLFQ, do mais alto para o mais
+ *   baixo; o último nível, abaixo deles, é FCFS. Quem esgota o quantum
+ *   desce um nível. Padrão: [2, 4].
+ */
+export interface CpuSchedulingConfig {
+  algorithm: CpuAlgorithm;
+  quantum?: number;
+  mlfqQuanta?: number[];
+}
+
+/**
+ * Um instante da simulação, de `time` a `time + 1`.
+ * - `running`: Processo na CPU (`null` = CPU ociosa).
+ * - `level`: Nível do MLFQ do processo em execução.
+ * - `queues`: Filas de prontos durante o instante (uma por nível no MLFQ).
+ * - `arrived`: Processos que chegaram no início do instante.
+ * - `preempted`: Processo retirado da CPU no início do instante.
+ * - `quantumExpired`: A retirada foi por fim do quantum.
+ * - `completed`: Processo que termina ao final do instante.
+ */
+export interface CpuTick {
+  time: number;
+  running: number | null;
+  level: number | null;
+  queues: number[][];
+  arrived: number[];
+  preempted: number | null;
+  quantumExpired: boolean;
+  completed: number | null;
+}
+
+// Faixa contínua do diagrama de Gantt
+export interface GanttSlice {
+  pid: number | null;
+  start: number;
+  end: number;
+}
+
+/**
+ * Métricas de um processo.
+ * - `turnaround`: Término − chegada.
+ * - `waiting`: Tempo na fila de prontos (turnaround − duração).
+ * - `response`: Da chegada até a primeira vez na CPU.
+ */
+export interface ProcessResult {
+  pid: number;
+  completion: number;
+  turnaround: number;
+  waiting: number;
+  response: number;
+}
+
+export interface CpuTrace {
+  algorithm: CpuAlgorithm;
+  quantum: number;
+  mlfqQuanta: number[];
+  processes: CpuProcess[];
+  ticks: CpuTick[];
+  slices: GanttSlice[];
+  results: ProcessResult[]; // Na ordem dos processos
+}
+
+// Algoritmos que podem tirar um processo da CPU antes de ele terminar
+const PREEMPTIVE: readonly CpuAlgorithm[] = [
+  'SRTF',
+  'RR',
+  'PRIORITY_P',
+  'MLFQ',
+];
+
+/**
+ * Junta instantes consecutivos do mesmo processo em faixas do Gantt.
+ */
+export function ganttSlices(ticks: CpuTick[]): GanttSlice[] {
+  const slices: GanttSlice[] = [];
+  for (const { time, running } of ticks) {
+    const last = slices[slices.length - 1];
+    if (last && last.pid === running && last.end === time) {
+      last.end = time + 1;
+    } else {
+      slices.push({ pid: running, start: time, end: time + 1 });
+    }
+  }
+  return slices;
+}
+
+/**
+ * Executa a simulação completa do escalonamento.
+ */
+export function simulateCpuScheduling(
+  processes: CpuProcess[],
+  { algorithm, quantum = 2, mlfqQuanta = [2, 4] }: CpuSchedulingConfig
+): CpuTrace {
+  if (processes.length === 0) {
+    throw new RangeError('Informe pelo menos um processo.');
+  }
+  if (
+    processes.some(
+      (p) =>
+        !Number.isInteger(p.arrival) ||
+        p.arrival < 0 ||
+        !Number.isInteger(p.burst) ||
+        p.burst < 1
+    )
+  ) {
+    throw new RangeError(
+      'A chegada deve ser não negativa e a duração, um inteiro positivo.'
+    );
+  }
+  if ([quantum, ...mlfqQuanta].some((q) => !Number.isInteger(q) || q < 1)) {
+    throw new RangeError('O quantum deve ser um inteiro positivo.');
+  }
+
+  const isMlfq = algorithm === 'MLFQ';
+  const preemptive = PREEMPTIVE.includes(algorithm);
+  const remaining = processes.map((p) => p.burst);
+  const firstRun: (number | null)[] = processes.map(() => null);
+  const completion: number[] = processes.map(() => 0);
+  const level = processes.map(() => 0);
+  // Uma fila por nível no MLFQ; os demais algoritmos usam só a primeira
+  const queues: number[][] = Array.from(
+    { length: isMlfq ? mlfqQuanta.length + 1 : 1 },
+    () => []
+  );
+  const ticks: CpuTick[] = [];
+  let running: number | null = null;
+  let used = 0; // Tempo usado do quantum atual
+  let done = 0;
+
+  // Quantum do processo em execução (Infinity quando não há limite)
+  const quantumOf = (pid: number) =>
+    algorithm === 'RR'
+      ? quantum
+      : isMlfq && level[pid] < mlfqQuanta.length
+      ? mlfqQuanta[level[pid]]
+      : Infinity;
+  const byArrival = (a: number, b: number) =>
+    processes[a].arrival - processes[b].arrival || a - b;
+  // Chave de escolha: menor é melhor
+  const key = (pid: number) => {
+    switch (algorithm) {
+      case 'SJF':
+        return processes[pid].burst;
+      case 'SRTF':
+        return remaining[pid];
+      case 'PRIORITY':
+      case 'PRIORITY_P':
+        return processes[pid].priority;
+      default:
+        return 0;
+    }
+  };
+  const best = (queue: number[]) =>
+    queue.reduce((a, b) => {
+      const diff = key(b) - key(a);
+      return diff < 0 || (diff === 0 && byArrival(b, a) < 0) ? b : a;
+    });
+  // Retira da fila o próximo processo a executar
+  const pick = (): number | null => {
+    const queue = queues.find((q) => q.length > 0);
+    if (!queue) return null;
+    const pid = ['FCFS', 'RR', 'MLFQ'].includes(algorithm)
+      ? queue[0]
+      : best(queue);
+    queue.splice(queue.indexOf(pid), 1);
+    return pid;
+  };
+  // Há na fila alguém que deve tomar a CPU do processo em execução?
+  const shouldPreempt = (pid: number) => {
+    if (isMlfq) return queues.slice(0, level[pid]).some((q) => q.length > 0);
+    if (algorithm === 'RR' || queues[0].length === 0) return false;
+    return key(best(queues[0])) < key(pid);
+  };
+
+  for (let time = 0; done < processes.length; time++) {
+    const arrived = processes
+      .map((_, pid) => pid)
+      .filter((pid) => processes[pid].arrival === time);
+    arrived.forEach((pid) => queues[0].push(pid));
+
+    let preempted: number | null = null;
+    let quantumExpired = false;
+    if (running !== null) {
+      if (used >= quantumOf(running)) {
+        // Fim do quantum: volta ao fim da fila (no MLFQ, um nível abaixo)
+        quantumExpired = true;
+        if (isMlfq) level[running]++;
+      }
+      if (quantumExpired || (preemptive && shouldPreempt(running))) {
+        queues[level[running]].push(running);
+        preempted = running;
+        running = null;
+      }
+    }
+    if (running === null) {
+      running = pick();
+      used = 0;
+      if (running !== null && firstRun[running] === null) {
+        firstRun[running] = time;
+      }
+    }
+
+    if (running !== null) {
+      remaining[running]--;
+      used++;
+    }
+    ticks.push({
+      time,
+      running,
+      level: running !== null && isMlfq ? level[running] : null,
+      queues: queues.map((q) => [...q]),
+      arrived,
+      preempted: preempted === running ? null : preempted,
+      quantumExpired: quantumExpired && preempted !== running,
+      completed: null,
+    });
+    if (running !== null && remaining[running] === 0) {
+      completion[running] = time + 1;
+      ticks[ticks.length - 1].completed = running;
+      running = null;
+      done++;
+    }
+  }
+
+  return {
+    algorithm,
+    quantum,
+    mlfqQuanta: [...mlfqQuanta],
+    processes: processes.map((p) => ({ ...p })),
+    ticks,
+    slices: ganttSlices(ticks),
+    results: processes.map((p, pid) => ({
+      pid,
+      completion: completion[pid],
+      turnaround: completion[pid] - p.arrival,
+      waiting: completion[pid] - p.arrival - p.burst,
+      response: firstRun[pid]! - p.arrival,
+    })),
+  };
+}
+
+export interface CpuSummary {
+  completed: number; // Processos que já terminaram
+  averageWaiting: number; // Médias entre os processos que terminaram
+  averageTurnaround: number;
+  averageResponse: number;
+  utilization: number; // Fração do tempo com a CPU ocupada (0 a 1)
+  contextSwitches: number; // Trocas entre processos diferentes na CPU
+}
+
+const average = (values: number[]) =>
+  values.length === 0
+    ? 0
+    : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Resume os primeiros `tickCount` instantes do trace (todos, por padrão).
+ */
+export function summarizeCpuTrace(
+  { ticks, results }: CpuTrace,
+  tickCount = ticks.length
+): CpuSummary {
+  const elapsed = ticks.slice(0, tickCount);
+  const finished = results.filter((r) => r.completion <= tickCount);
+  const busy = ganttSlices(elapsed).filter((s) => s.pid !== null);
+  return {
+    completed: finished.length,
+    averageWaiting: average(finished.map((r) => r.waiting)),
+    averageTurnaround: average(finished.map((r) => r.turnaround)),
+    averageResponse: average(finished.map((r) => r.response)),
+    utilization:
+      elapsed.length === 0
+        ? 0
+        : elapsed.filter((t) => t.running !== null).length / elapsed.length,
+    contextSwitches: busy.filter((s, i) => i > 0 && s.pid !== busy[i - 1].pid)
+      .length,
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { diskTraceToCsv, pageTraceToCsv, parseCsv, toCsv } from './csv';
+import { simulateDiskScheduling } from './diskScheduling';
+import { simulatePageReplacement } from './pageReplacement';
+
+describe('toCsv', () => {
+  it('usa aspas apenas quando necessário', () => {
+    expect(
+      toCsv([
+        ['a', 1, null],
+        ['x,y', 'diz "oi"', 2],
+      ])
+    ).toBe('a,1,\r\n"x,y","diz ""oi""",2\r\n');
+  });
+});
+
+describe('parseCsv', () => {
+  it('lê de volta o que toCsv escreve', () => {
+    const rows = [
+      ['a', '1', ''],
+      ['x,y', 'diz "oi"\nsim', '2'],
+    ];
+    expect(parseCsv(`\uFEFF${toCsv(rows)}\n`)).toEqual(rows);
+    expect(parseCsv('a,b\nc,d')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+});
+
+describe('pageTraceToCsv', () => {
+  it('exporta frames, faults e vítimas por passo', () => {
+    const trace = simulatePageReplacement([1, 2, 1, 3], {
+      algorithm: 'FIFO',
+      frameCount: 2,
+    });
+    expect(pageTraceToCsv(trace).split('\r\n')).toEqual([
+      'Passo,Referência,Frame 0,Frame 1,Fault,Vítima,Faults',
+      '1,1,1,,sim,,1',
+      '2,2,1,2,sim,,2',
+      '3,1,1,2,não,,2',
+      '4,3,3,2,sim,1,3',
+      '',
+    ]);
+  });
+
+  it('inclui a operação e os write-backs quando há escritas', () => {
+    const trace = simulatePageReplacement([1, 2, 3], {
+      algorithm: 'FIFO',
+      frameCount: 2,
+      writes: [true, false, false],
+    });
+    expect(pageTraceToCsv(trace).split('\r\n')[3]).toBe(
+      '3,3,leitura,3,2,sim,1,3,sim,1'
+    );
+  });
+});
+
+describe('diskTraceToCsv', () => {
+  it('exporta a ordem de atendimento com bordas e retornos', () => {
+    const trace = simulateDiskScheduling([150, 20], {
+      algorithm: 'C-SCAN',
+      diskSize: 200,
+      initialHead: 100,
+      direction: 'up',
+    });
+    expect(diskTraceToCsv(trace).split('\r\n')).toEqual([
+      'Passo,De,Para,Requisição,Movimento,Distância,Seek,Seek total',
+      '1,100,150,#1 (150),atendimento,50,50,50',
+      '2,150,199,,borda,49,49,99',
+      '3,199,0,,retorno,199,199,298',
+      '4,0,20,#2 (20),atendimento,20,20,318',
+      '',
+    ]);
+  });
+
+  it('acrescenta setor e tempos em ms com o modelo de tempo', () => {
+    const trace = simulateDiskScheduling([70], {
+      algorithm: 'FCFS',
+      diskSize: 200,
+      initialHead: 50,
+      direction: 'up',
+      timing: { rpm: 6000, settleTime: 1, seekFactor: 0, sectorsPerTrack: 10 },
+      sectors: [2],
+    });
+    expect(diskTraceToCsv(trace).split('\r\n')[1]).toBe(
+      '1,50,70,#1 (70),atendimento,20,20,20,2,1,1,1,3'
+    );
+  });
+});
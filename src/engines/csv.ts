@@ -0,0 +1,183 @@
+/**
+ * Tabelas passo a passo dos traces, exportadas em CSV (para colar em
+ * planilhas, slides e gabaritos) e reaproveitadas no relatório impresso.
+ * Uma linha por passo, com o cabeçalho no idioma de `t`.
+ */
+
+import { DiskTrace } from './diskScheduling';
+import { PageTrace } from './pageReplacement';
+import { Translate, translatePt } from '../i18n/translate';
+
+export type Cell = string | number | null;
+
+// Aspas apenas quando o valor tem separador, aspas ou quebra de linha
+const quote = (cell: Cell) => {
+  const text = cell === null ? '' : String(cell);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Monta um CSV (RFC 4180) a partir de linhas de células.
+ */
+export function toCsv(rows: Cell[][]): string {
+  return rows.map((row) => row.map(quote).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Trace de substituição de páginas: conteúdo de cada frame após a
+ * referência, se houve fault, a vítima e o total acumulado de faults.
+ * Sequências com escritas ganham a operação de cada referência e os
+ * write-backs. A primeira linha é o cabeçalho.
+ */
+export function pageTraceRows(
+  { frameCount, writes, steps }: PageTrace,
+  t: Translate = translatePt
+): Cell[][] {
+  const frameHeaders = Array.from({ length: frameCount }, (_, index) =>
+    t('csv.frame', { index })
+  );
+  const hasWrites = writes.some(Boolean);
+  return [
+    [
+      t('csv.step'),
+      t('csv.reference'),
+      ...(hasWrites ? [t('csv.operation')] : []),
+      ...frameHeaders,
+      t('csv.fault'),
+      t('csv.victim'),
+      t('csv.faults'),
+      ...(hasWrites ? [t('csv.writeBack'), t('csv.writeBacks')] : []),
+    ],
+    ...steps.map((step) => [
+      step.step + 1,
+      step.page,
+      ...(hasWrites ? [t(step.isWrite ? 'csv.write' : 'csv.read')] : []),
+      ...step.frames.map((frame) => (frame ? frame.page : null)),
+      t(step.isFault ? 'common.yes' : 'common.no'),
+      step.victim,
+      step.faults,
+      ...(hasWrites
+        ? [t(step.writeBack ? 'common.yes' : 'common.no'), step.writeBacks]
+        : []),
+    ]),
+  ];
+}
+
+/**
+ * Ordem de atendimento do disco, com a distância de cada movimento.
+ * Deslocamentos até a borda e retornos aparecem como linhas próprias.
+ * Com o modelo de tempo, cada linha ganha o setor e as parcelas do tempo
+ * de acesso em milissegundos. A primeira linha é o cabeçalho.
+ */
+export function diskTraceRows(
+  { requests, steps, timing, sectors }: DiskTrace,
+  t: Translate = translatePt
+): Cell[][] {
+  // Milissegundos com três casas, o suficiente para a transferência
+  const ms = (value: number) => Math.round(value * 1000) / 1000;
+  return [
+    [
+      t('csv.step'),
+      t('csv.from'),
+      t('csv.to'),
+      t('csv.request'),
+      t('csv.movement'),
+      t('csv.distance'),
+      t('csv.seek'),
+      t('csv.totalSeek'),
+      ...(timing
+        ? [
+            t('csv.sector'),
+            t('csv.seekTime'),
+            t('csv.latency'),
+            t('csv.transfer'),
+            t('csv.end'),
+          ]
+        : []),
+    ],
+    ...steps.map((step) => [
+      step.step + 1,
+      step.from,
+      step.to,
+      step.requestIndex === null
+        ? null
+        : `#${step.requestIndex + 1} (${requests[step.requestIndex]})`,
+      t(
+        step.isReturn
+          ? 'csv.returnMove'
+          : step.requestIndex === null
+          ? 'csv.edgeMove'
+          : 'csv.service'
+      ),
+      step.distance,
+      step.seek,
+      step.totalSeek,
+      ...(timing
+        ? [
+            step.requestIndex === null ? null : sectors[step.requestIndex],
+            ms(step.seekTime),
+            ms(step.rotationalLatency),
+            ms(step.transferTime),
+            ms(step.time),
+          ]
+        : []),
+    ]),
+  ];
+}
+
+export function pageTraceToCsv(
+  trace: PageTrace,
+  t: Translate = translatePt
+): string {
+  return toCsv(pageTraceRows(trace, t));
+}
+
+export function diskTraceToCsv(
+  trace: DiskTrace,
+  t: Translate = translatePt
+): string {
+  return toCsv(diskTraceRows(trace, t));
+}
+
+/**
+ * Lê um CSV (RFC 4180) em linhas de células, aceitando o BOM do Excel e
+ * quebras de linha CRLF ou LF. Linhas em branco são ignoradas.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
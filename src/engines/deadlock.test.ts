@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BankerState,
+  ResourceGraph,
+  analyzeResourceGraph,
+  checkSafety,
+  evaluateRequest,
+  findCycle,
+} from './deadlock';
+
+// Exemplo clássico: 5 processos e 3 recursos (A, B, C)
+const STATE: BankerState = {
+  available: [3, 3, 2],
+  max: [
+    [7, 5, 3],
+    [3, 2, 2],
+    [9, 0, 2],
+    [2, 2, 2],
+    [4, 3, 3],
+  ],
+  allocation: [
+    [0, 1, 0],
+    [2, 0, 0],
+    [3, 0, 2],
+    [2, 1, 1],
+    [0, 0, 2],
+  ],
+};
+
+// P0 e P1 disputam R0 e R2, que têm uma instância cada
+const DEADLOCK: ResourceGraph = {
+  processCount: 3,
+  instances: [1, 2, 1, 3],
+  requests: [
+    [0, 0],
+    [1, 2],
+    [2, 1],
+  ],
+  assignments: [
+    [0, 1],
+    [1, 0],
+    [1, 1],
+    [2, 2],
+  ],
+};
+
+describe('checkSafety', () => {
+  it('encontra a sequência segura e registra Work a cada passo', () => {
+    const trace = checkSafety(STATE);
+    expect(trace.need[0]).toEqual([7, 4, 3]);
+    expect(trace.safe).toBe(true);
+    expect(trace.sequence).toEqual([1, 3, 4, 0, 2]);
+    expect(trace.steps.map((s) => [s.pid, s.canFinish])).toEqual([
+      [0, false],
+      [1, true],
+      [2, false],
+      [3, true],
+      [4, true],
+      [0, true],
+      [2, true],
+    ]);
+    expect(trace.steps[1]).toMatchObject({
+      work: [3, 3, 2],
+      workAfter: [5, 3, 2],
+      finish: [false, true, false, false, false],
+    });
+    expect(trace.steps[6].workAfter).toEqual([10, 5, 7]);
+  });
+
+  it('para quando uma passada inteira não termina ninguém', () => {
+    const trace = checkSafety({ ...STATE, available: [0, 0, 0] });
+    expect(trace.safe).toBe(false);
+    expect(trace.sequence).toEqual([]);
+    expect(trace.steps).toHaveLength(5);
+  });
+
+  it('rejeita alocação maior que a demanda máxima', () => {
+    expect(() =>
+      checkSafety({ available: [1], max: [[1]], allocation: [[2]] })
+    ).toThrow(RangeError);
+  });
+});
+
+describe('evaluateRequest', () => {
+  it('concede o pedido que mantém o estado seguro', () => {
+    const result = evaluateRequest(STATE, 1, [1, 0, 2]);
+    expect(result.verdict).toBe('granted');
+    expect(result.state!.available).toEqual([2, 3, 0]);
+    expect(result.state!.allocation[1]).toEqual([3, 0, 2]);
+    expect(result.safety!.sequence).toEqual([1, 3, 4, 0, 2]);
+  });
+
+  it('distingue espera, estado inseguro e pedido acima da necessidade', () => {
+    const { state } = evaluateRequest(STATE, 1, [1, 0, 2]);
+    expect(evaluateRequest(state!, 4, [3, 3, 0]).verdict).toBe('mustWait');
+    expect(evaluateRequest(state!, 0, [0, 2, 0]).verdict).toBe('unsafe');
+    expect(evaluateRequest(STATE, 3, [1, 0, 0]).verdict).toBe('exceedsNeed');
+  });
+});
+
+describe('analyzeResourceGraph', () => {
+  it('detecta o ciclo e os processos em deadlock', () => {
+    const analysis = analyzeResourceGraph(DEADLOCK);
+    expect(analysis.cycle).toEqual([
+      { kind: 'process', index: 0 },
+      { kind: 'resource', index: 0 },
+      { kind: 'process', index: 1 },
+      { kind: 'resource', index: 2 },
+      { kind: 'process', index: 2 },
+      { kind: 'resource', index: 1 },
+    ]);
+    expect(analysis.steps).toEqual([]);
+    expect(analysis.deadlocked).toEqual([0, 1, 2]);
+  });
+
+  it('reduz o grafo quando o ciclo não prende ninguém', () => {
+    // Ciclo P0 → R0 → P2 → R1 → P0, mas P1 e P3 terminam e liberam instâncias
+    const graph: ResourceGraph = {
+      processCount: 4,
+      instances: [2, 2],
+      requests: [
+        [0, 0],
+        [2, 1],
+      ],
+      assignments: [
+        [0, 1],
+        [0, 2],
+        [1, 0],
+        [1, 3],
+      ],
+    };
+    const analysis = analyzeResourceGraph(graph);
+    expect(analysis.cycle).not.toBeNull();
+    expect(analysis.steps.map((s) => [s.pid, s.available])).toEqual([
+      [1, [1, 0]],
+      [3, [1, 1]],
+      [0, [1, 2]],
+      [2, [2, 2]],
+    ]);
+    expect(analysis.deadlocked).toEqual([]);
+  });
+
+  it('não encontra ciclo em um grafo sem espera circular', () => {
+    expect(
+      findCycle({
+        processCount: 2,
+        instances: [1],
+        requests: [[1, 0]],
+        assignments: [[0, 0]],
+      })
+    ).toBeNull();
+  });
+
+  it('rejeita mais atribuições que instâncias', () => {
+    expect(() =>
+      analyzeResourceGraph({
+        processCount: 2,
+        instances: [1],
+        requests: [],
+        assignments: [
+          [0, 0],
+          [0, 1],
+        ],
+      })
+    ).toThrow(RangeError);
+  });
+});
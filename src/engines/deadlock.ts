@@ -0,0 +1,332 @@
+/**
+ * Motor de simulação de deadlocks: o algoritmo do banqueiro (segurança e
+ * avaliação de pedidos) e a análise do grafo de alocação de recursos
+ * (ciclos e redução do grafo).
+ *
+ * Vetores têm uma posição por tipo de recurso; matrizes, uma linha por
+ * processo.
+ */
+
+/**
+ * Estado do sistema no algoritmo do banqueiro.
+ * - `available`: Instâncias livres de cada recurso.
+ * - `max`: Demanda máxima declarada por cada processo.
+ * - `allocation`: Instâncias que cada processo já tem.
+ */
+export interface BankerState {
+  available: number[];
+  max: number[][];
+  allocation: number[][];
+}
+
+/**
+ * Um passo da verificação de segurança: o processo `pid` é comparado com
+ * o vetor Work.
+ * - `work`: Work antes da comparação.
+ * - `canFinish`: Need ≤ Work, ou seja, o processo consegue terminar.
+ * - `workAfter`: Work depois que o processo devolve o que tinha.
+ * - `finish`: Vetor Finish depois do passo.
+ */
+export interface SafetyStep {
+  step: number;
+  pid: number;
+  need: number[];
+  work: number[];
+  canFinish: boolean;
+  workAfter: number[];
+  finish: boolean[];
+}
+
+export interface SafetyTrace {
+  need: number[][];
+  steps: SafetyStep[];
+  safe: boolean;
+  sequence: number[]; // Ordem em que os processos conseguem terminar
+}
+
+/**
+ * Resultado de um pedido de recursos.
+ * - `exceedsNeed`: O pedido passa da necessidade declarada (erro).
+ * - `mustWait`: Não há instâncias livres suficientes agora.
+ * - `unsafe`: Atender levaria a um estado inseguro; o processo espera.
+ * - `granted`: O estado continua seguro e o pedido pode ser atendido.
+ */
+export type RequestVerdict = 'exceedsNeed' | 'mustWait' | 'unsafe' | 'granted';
+
+export interface RequestEvaluation {
+  verdict: RequestVerdict;
+  state: BankerState | null; // Estado após o pedido, se ele foi simulado
+  safety: SafetyTrace | null; // Verificação do estado após o pedido
+}
+
+// Formata um vetor para narrações e tabelas (ex.: "(3, 3, 2)")
+export const formatVector = (vector: number[]) => `(${vector.join(', ')})`;
+
+const fits = (request: number[], limit: number[]) =>
+  request.every((value, r) => value <= limit[r]);
+
+const add = (a: number[], b: number[]) => a.map((value, r) => value + b[r]);
+
+const subtract = (a: number[], b: number[]) =>
+  a.map((value, r) => value - b[r]);
+
+const isCount = (value: number) => Number.isInteger(value) && value >= 0;
+
+/**
+ * Confere as dimensões e os valores do estado, lançando RangeError.
+ */
+export function validateBankerState({
+  available,
+  max,
+  allocation,
+}: BankerState) {
+  const width = available.length;
+  if (width === 0 || max.length === 0) {
+    throw new RangeError('Informe pelo menos um recurso e um processo.');
+  }
+  if (
+    allocation.length !== max.length ||
+    [...max, ...allocation].some((row) => row.length !== width)
+  ) {
+    throw new RangeError('As matrizes devem ter as mesmas dimensões.');
+  }
+  if (![available, ...max, ...allocation].every((row) => row.every(isCount))) {
+    throw new RangeError('Os valores devem ser inteiros não negativos.');
+  }
+  if (allocation.some((row, pid) => !fits(row, max[pid]))) {
+    throw new RangeError('A alocação não pode passar da demanda máxima.');
+  }
+}
+
+/**
+ * Necessidade restante de cada processo (Need = Max − Allocation).
+ */
+export const needMatrix = ({ max, allocation }: BankerState) =>
+  max.map((row, pid) => subtract(row, allocation[pid]));
+
+/**
+ * Executa o algoritmo de segurança. A cada passada, os processos ainda não
+ * terminados são comparados com Work em ordem; a verificação acaba quando
+ * todos terminam ou uma passada inteira não termina ninguém.
+ */
+export function checkSafety(state: BankerState): SafetyTrace {
+  validateBankerState(state);
+  const need = needMatrix(state);
+  const finish = state.max.map(() => false);
+  const steps: SafetyStep[] = [];
+  const sequence: number[] = [];
+  let work = [...state.available];
+  let progress = true;
+
+  while (progress && sequence.length < finish.length) {
+    progress = false;
+    for (let pid = 0; pid < finish.length; pid++) {
+      if (finish[pid]) continue;
+      const canFinish = fits(need[pid], work);
+      const workAfter = canFinish ? add(work, state.allocation[pid]) : work;
+      if (canFinish) {
+        finish[pid] = true;
+        sequence.push(pid);
+        progress = true;
+      }
+      steps.push({
+        step: steps.length,
+        pid,
+        need: need[pid],
+        work,
+        canFinish,
+        workAfter,
+        finish: [...finish],
+      });
+      work = workAfter;
+    }
+  }
+
+  return { need, steps, safe: sequence.length === finish.length, sequence };
+}
+
+/**
+ * Avalia o pedido `request` do processo `pid`: finge atendê-lo e só o
+ * concede se o estado resultante continuar seguro.
+ */
+export function evaluateRequest(
+  state: BankerState,
+  pid: number,
+  request: number[]
+): RequestEvaluation {
+  validateBankerState(state);
+  if (pid < 0 || pid >= state.max.length) {
+    throw new RangeError('Processo inexistente.');
+  }
+  if (request.length !== state.available.length || !request.every(isCount)) {
+    throw new RangeError('O pedido deve ter um valor por recurso.');
+  }
+  if (!fits(request, needMatrix(state)[pid])) {
+    return { verdict: 'exceedsNeed', state: null, safety: null };
+  }
+  if (!fits(request, state.available)) {
+    return { verdict: 'mustWait', state: null, safety: null };
+  }
+  const next: BankerState = {
+    available: subtract(state.available, request),
+    max: state.max,
+    allocation: state.allocation.map((row, i) =>
+      i === pid ? add(row, request) : row
+    ),
+  };
+  const safety = checkSafety(next);
+  return {
+    verdict: safety.safe ? 'granted' : 'unsafe',
+    state: next,
+    safety,
+  };
+}
+
+/**
+ * Grafo de alocação de recursos.
+ * - `instances`: Instâncias de cada recurso.
+ * - `requests`: Arestas de pedido, [processo, recurso].
+ * - `assignments`: Arestas de atribuição, [recurso, processo]; cada uma é
+ *   uma instância em uso.
+ */
+export interface ResourceGraph {
+  processCount: number;
+  instances: number[];
+  requests: [number, number][];
+  assignments: [number, number][];
+}
+
+export interface GraphNode {
+  kind: 'process' | 'resource';
+  index: number;
+}
+
+// Um processo que conseguiu o que pede e liberou o que tinha
+export interface ReductionStep {
+  step: number;
+  pid: number;
+  available: number[]; // Instâncias livres depois da liberação
+}
+
+/**
+ * Resultado da análise do grafo.
+ * - `cycle`: Um ciclo do grafo, se houver (o último nó aponta para o primeiro).
+ * - `steps`: Reduções do grafo, na ordem em que acontecem.
+ * - `deadlocked`: Processos que não puderam ser reduzidos.
+ */
+export interface GraphAnalysis {
+  cycle: GraphNode[] | null;
+  steps: ReductionStep[];
+  deadlocked: number[];
+}
+
+/**
+ * Confere índices e instâncias do grafo, lançando RangeError.
+ */
+export function validateResourceGraph(graph: ResourceGraph) {
+  const { processCount, instances, requests, assignments } = graph;
+  if (processCount < 1 || instances.length === 0) {
+    throw new RangeError('Informe pelo menos um recurso e um processo.');
+  }
+  if (!instances.every((count) => Number.isInteger(count) && count >= 1)) {
+    throw new RangeError('Cada recurso deve ter ao menos uma instância.');
+  }
+  const inRange = (pid: number, rid: number) =>
+    pid >= 0 && pid < processCount && rid >= 0 && rid < instances.length;
+  if (
+    !requests.every(([pid, rid]) => inRange(pid, rid)) ||
+    !assignments.every(([rid, pid]) => inRange(pid, rid))
+  ) {
+    throw new RangeError('Aresta com processo ou recurso inexistente.');
+  }
+  if (freeInstances(graph).some((free) => free < 0)) {
+    throw new RangeError('Um recurso tem mais atribuições que instâncias.');
+  }
+}
+
+/**
+ * Instâncias de cada recurso sem atribuição.
+ */
+export const freeInstances = ({ instances, assignments }: ResourceGraph) =>
+  instances.map(
+    (count, rid) => count - assignments.filter(([r]) => r === rid).length
+  );
+
+// Vizinhos de cada nó: processos apontam para recursos e vice-versa
+const successors = (
+  { requests, assignments }: ResourceGraph,
+  { kind, index }: GraphNode
+): GraphNode[] =>
+  kind === 'process'
+    ? requests
+        .filter(([pid]) => pid === index)
+        .map(([, rid]) => ({ kind: 'resource', index: rid }))
+    : assignments
+        .filter(([rid]) => rid === index)
+        .map(([, pid]) => ({ kind: 'process', index: pid }));
+
+/**
+ * Procura um ciclo com uma busca em profundidade a partir de cada processo.
+ */
+export function findCycle(graph: ResourceGraph): GraphNode[] | null {
+  const key = ({ kind, index }: GraphNode) => `${kind}:${index}`;
+  const visited = new Set<string>();
+  const path: GraphNode[] = [];
+
+  const visit = (node: GraphNode): GraphNode[] | null => {
+    const onPath = path.findIndex((other) => key(other) === key(node));
+    if (onPath >= 0) return path.slice(onPath);
+    if (visited.has(key(node))) return null;
+    visited.add(key(node));
+    path.push(node);
+    for (const next of successors(graph, node)) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    return null;
+  };
+
+  for (let pid = 0; pid < graph.processCount; pid++) {
+    const cycle = visit({ kind: 'process', index: pid });
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Analisa o grafo: procura um ciclo e reduz o grafo, liberando os recursos
+ * de cada processo cujos pedidos podem ser atendidos. Com uma instância por
+ * recurso, ciclo e deadlock são a mesma coisa; com várias, um ciclo pode
+ * existir sem deadlock, e só a redução decide.
+ */
+export function analyzeResourceGraph(graph: ResourceGraph): GraphAnalysis {
+  validateResourceGraph(graph);
+  // Matrizes de pedidos e de instâncias em uso, uma linha por processo
+  const zeros = () => graph.instances.map(() => 0);
+  const requests = Array.from({ length: graph.processCount }, zeros);
+  const held = Array.from({ length: graph.processCount }, zeros);
+  graph.requests.forEach(([pid, rid]) => requests[pid][rid]++);
+  graph.assignments.forEach(([rid, pid]) => held[pid][rid]++);
+  const reduced = requests.map(() => false);
+  const steps: ReductionStep[] = [];
+  let available = freeInstances(graph);
+  let progress = true;
+
+  while (progress) {
+    progress = false;
+    for (let pid = 0; pid < graph.processCount; pid++) {
+      if (reduced[pid] || !fits(requests[pid], available)) continue;
+      reduced[pid] = true;
+      available = add(available, held[pid]);
+      steps.push({ step: steps.length, pid, available });
+      progress = true;
+    }
+  }
+
+  return {
+    cycle: findCycle(graph),
+    steps,
+    deadlocked: reduced.flatMap((done, pid) => (done ? [] : [pid])),
+  };
+}
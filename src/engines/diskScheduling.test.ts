@@ -0,0 +1,344 @@
+import { describe, expect, it } from 'vitest';
+import {
+  simulateDiskScheduling,
+  starvingRequests,
+  summarizeDiskTrace,
+} from './diskScheduling';
+
+// Fila clássica do livro de Silberschatz, com o cabeçote no cilindro 53
+const QUEUE = [98, 183, 37, 122, 14, 124, 65, 67];
+const BASE = { diskSize: 200, initialHead: 53, direction: 'up' } as const;
+
+const order = (requests: number[], steps: { requestIndex: number | null }[]) =>
+  steps
+    .filter((s) => s.requestIndex !== null)
+    .map((s) => requests[s.requestIndex!]);
+
+describe('simulateDiskScheduling', () => {
+  it('FCFS percorre 640 cilindros', () => {
+    const trace = simulateDiskScheduling(QUEUE, { ...BASE, algorithm: 'FCFS' });
+    expect(order(QUEUE, trace.steps)).toEqual(QUEUE);
+    expect(trace.totalSeek).toBe(640);
+  });
+
+  it('SSTF percorre 236 cilindros', () => {
+    const trace = simulateDiskScheduling(QUEUE, { ...BASE, algorithm: 'SSTF' });
+    expect(order(QUEUE, trace.steps)).toEqual([
+      65, 67, 37, 14, 98, 122, 124, 183,
+    ]);
+    expect(trace.totalSeek).toBe(236);
+  });
+
+  it('LOOK atende no sentido atual e inverte na última requisição', () => {
+    const trace = simulateDiskScheduling(QUEUE, { ...BASE, algorithm: 'LOOK' });
+    expect(order(QUEUE, trace.steps)).toEqual([
+      65, 67, 98, 122, 124, 183, 37, 14,
+    ]);
+    expect(trace.steps[5].direction).toBe('up');
+    expect(trace.steps[6].direction).toBe('down');
+    expect(trace.totalSeek).toBe(299);
+  });
+
+  it('SCAN vai até a borda do disco antes de inverter', () => {
+    const trace = simulateDiskScheduling(QUEUE, {
+      ...BASE,
+      algorithm: 'SCAN',
+      direction: 'down',
+    });
+    expect(order(QUEUE, trace.steps)).toEqual([
+      37, 14, 65, 67, 98, 122, 124, 183,
+    ]);
+    expect(trace.steps[2]).toMatchObject({
+      from: 14,
+      to: 0,
+      requestIndex: null,
+      direction: 'up',
+    });
+    expect(trace.totalSeek).toBe(236);
+  });
+
+  it('C-SCAN retorna à borda oposta e pode contar ou não o retorno', () => {
+    const trace = simulateDiskScheduling(QUEUE, {
+      ...BASE,
+      algorithm: 'C-SCAN',
+    });
+    expect(order(QUEUE, trace.steps)).toEqual([
+      65, 67, 98, 122, 124, 183, 14, 37,
+    ]);
+    expect(trace.steps.map((s) => s.to).slice(6, 8)).toEqual([199, 0]);
+    expect(trace.steps[7]).toMatchObject({ isReturn: true, distance: 199 });
+    expect(trace.totalSeek).toBe(382);
+
+    const uncounted = simulateDiskScheduling(QUEUE, {
+      ...BASE,
+      algorithm: 'C-SCAN',
+      countReturnSweep: false,
+    });
+    expect(uncounted.totalSeek).toBe(183);
+  });
+
+  it('C-LOOK salta para a requisição mais distante do outro lado', () => {
+    const trace = simulateDiskScheduling(QUEUE, {
+      ...BASE,
+      algorithm: 'C-LOOK',
+    });
+    expect(order(QUEUE, trace.steps)).toEqual([
+      65, 67, 98, 122, 124, 183, 14, 37,
+    ]);
+    expect(trace.steps[6]).toMatchObject({ from: 183, to: 14, isReturn: true });
+    expect(trace.totalSeek).toBe(322);
+    expect(
+      simulateDiskScheduling(QUEUE, {
+        ...BASE,
+        algorithm: 'C-LOOK',
+        countReturnSweep: false,
+      }).totalSeek
+    ).toBe(153);
+  });
+
+  it('N-step SCAN atende a fila em lotes de N requisições', () => {
+    const trace = simulateDiskScheduling([30, 10, 40, 20], {
+      ...BASE,
+      initialHead: 25,
+      algorithm: 'N-STEP-SCAN',
+      batchSize: 2,
+    });
+    // Lote 1 = {30, 10}: sobe até 30, vai à borda 199 e desce até 10
+    // Lote 2 = {40, 20}: nada abaixo de 10, vai à borda 0 e sobe até 20 e 40
+    expect(order([30, 10, 40, 20], trace.steps)).toEqual([30, 10, 20, 40]);
+    expect(trace.steps.map((s) => s.batch)).toEqual([0, 0, 0, 1, 1, 1]);
+    expect(trace.totalSeek).toBe(5 + 169 + 189 + 10 + 20 + 20);
+  });
+
+  it('FSCAN com todas as requisições no instante 0 equivale ao SCAN', () => {
+    const fscan = simulateDiskScheduling(QUEUE, {
+      ...BASE,
+      algorithm: 'FSCAN',
+    });
+    const scan = simulateDiskScheduling(QUEUE, { ...BASE, algorithm: 'SCAN' });
+    expect(fscan.totalSeek).toBe(scan.totalSeek);
+  });
+
+  it('registra origem, destino e distância de cada passo', () => {
+    const trace = simulateDiskScheduling(QUEUE, { ...BASE, algorithm: 'FCFS' });
+    expect(trace.steps[0]).toMatchObject({
+      from: 53,
+      to: 98,
+      seek: 45,
+      totalSeek: 45,
+    });
+    expect(trace.steps[1]).toMatchObject({
+      from: 98,
+      to: 183,
+      seek: 85,
+      totalSeek: 130,
+    });
+    expect(trace.steps[trace.steps.length - 1].served.every(Boolean)).toBe(
+      true
+    );
+  });
+
+  it('rejeita posições fora do disco', () => {
+    expect(() =>
+      simulateDiskScheduling([250], { ...BASE, algorithm: 'FCFS' })
+    ).toThrow(RangeError);
+  });
+
+  it('resume o trace com seek médio e espera máxima', () => {
+    const summary = summarizeDiskTrace(
+      simulateDiskScheduling(QUEUE, { ...BASE, algorithm: 'FCFS' })
+    );
+    expect(summary.totalSeek).toBe(640);
+    expect(summary.averageSeek).toBe(80);
+    // 98 é atendida primeiro (45 cilindros); 67 é a última (640)
+    expect(summary.waits[0]).toBe(45);
+    expect(summary.maxWait).toBe(640);
+  });
+
+  it('conta o retorno na espera mesmo quando fora do seek', () => {
+    const summary = summarizeDiskTrace(
+      simulateDiskScheduling(QUEUE, {
+        ...BASE,
+        algorithm: 'C-SCAN',
+        countReturnSweep: false,
+      })
+    );
+    expect(summary.totalSeek).toBe(183);
+    expect(summary.maxWait).toBe(382);
+  });
+});
+
+describe('chegadas ao longo do tempo', () => {
+  it('espera parado até a próxima chegada', () => {
+    const trace = simulateDiskScheduling([10, 20], {
+      ...BASE,
+      initialHead: 0,
+      algorithm: 'FCFS',
+      arrivals: [0, 100],
+    });
+    expect(trace.steps.map(({ start, time }) => [start, time])).toEqual([
+      [0, 10],
+      [100, 110],
+    ]);
+  });
+
+  it('move o cabeçote na velocidade configurada', () => {
+    const trace = simulateDiskScheduling(QUEUE, {
+      ...BASE,
+      algorithm: 'FCFS',
+      headSpeed: 4,
+    });
+    expect(trace.steps[0].time).toBe(45 / 4);
+    expect(trace.steps[trace.steps.length - 1].time).toBe(640 / 4);
+  });
+
+  it('FSCAN deixa para o próximo lote quem chega durante a varredura', () => {
+    const config = {
+      ...BASE,
+      initialHead: 50,
+      arrivals: [0, 0, 10],
+    };
+    const requests = [100, 120, 110];
+    const scan = simulateDiskScheduling(requests, {
+      ...config,
+      algorithm: 'SCAN',
+    });
+    const fscan = simulateDiskScheduling(requests, {
+      ...config,
+      algorithm: 'FSCAN',
+    });
+    expect(order(requests, scan.steps)).toEqual([100, 110, 120]);
+    expect(order(requests, fscan.steps)).toEqual([100, 120, 110]);
+    expect(fscan.steps.map((s) => s.batch)).toEqual([0, 0, 1, 1]);
+  });
+
+  it('SSTF adia a requisição distante enquanto chegam outras próximas', () => {
+    const requests = [190, 52, 48, 53, 47, 52, 48];
+    const config = {
+      ...BASE,
+      initialHead: 50,
+      arrivals: [0, 0, 1, 3, 5, 7, 9],
+    };
+    const sstf = simulateDiskScheduling(requests, {
+      ...config,
+      algorithm: 'SSTF',
+    });
+    const scan = simulateDiskScheduling(requests, {
+      ...config,
+      algorithm: 'SCAN',
+    });
+    expect(sstf.steps[sstf.steps.length - 1].requestIndex).toBe(0);
+    expect(summarizeDiskTrace(sstf).responseTimes[0]).toBeGreaterThan(
+      summarizeDiskTrace(scan).responseTimes[0]
+    );
+  });
+
+  it('calcula espera, resposta e variância por requisição', () => {
+    const summary = summarizeDiskTrace(
+      simulateDiskScheduling([60, 40], {
+        ...BASE,
+        initialHead: 50,
+        algorithm: 'FCFS',
+        arrivals: [0, 5],
+      })
+    );
+    // 60 é atendida em t=10; 40 chega em t=5 e o cabeçote sai de 60 em t=10
+    expect(summary.waitingTimes).toEqual([0, 5]);
+    expect(summary.responseTimes).toEqual([10, 25]);
+    expect(summary.averageResponse).toBe(17.5);
+    expect(summary.responseVariance).toBe(56.25);
+  });
+
+  it('aponta as requisições que esperam além do limite', () => {
+    const trace = simulateDiskScheduling([190, 52], {
+      ...BASE,
+      initialHead: 50,
+      algorithm: 'SSTF',
+      arrivals: [0, 0],
+    });
+    const served = [false, true];
+    expect(starvingRequests(trace, served, 30, 20)).toEqual([true, false]);
+    expect(starvingRequests(trace, served, 10, 20)).toEqual([false, false]);
+  });
+
+  it('rejeita chegadas inválidas', () => {
+    expect(() =>
+      simulateDiskScheduling([10, 20], {
+        ...BASE,
+        algorithm: 'FCFS',
+        arrivals: [0],
+      })
+    ).toThrow(RangeError);
+  });
+});
+
+describe('modelo de tempo', () => {
+  // Busca constante de 1 ms; uma volta em 10 ms com 10 setores
+  const timing = {
+    rpm: 6000,
+    settleTime: 1,
+    seekFactor: 0,
+    sectorsPerTrack: 10,
+  };
+
+  it('soma busca, latência rotacional e transferência', () => {
+    const trace = simulateDiskScheduling([70, 55], {
+      ...BASE,
+      initialHead: 50,
+      algorithm: 'FCFS',
+      timing,
+      sectors: [2, 0],
+    });
+    expect(trace.steps[0]).toMatchObject({
+      seekTime: 1,
+      rotationalLatency: 1,
+      transferTime: 1,
+      time: 3,
+    });
+    // Em t=4 o setor 4 está sob o cabeçote: o setor 0 leva 6 ms
+    expect(trace.steps[1]).toMatchObject({ rotationalLatency: 6, time: 11 });
+    const summary = summarizeDiskTrace(trace);
+    expect(summary.totalLatency).toBe(7);
+    expect(summary.totalTransfer).toBe(2);
+  });
+
+  it('SPTF prefere a requisição mais rápida de posicionar', () => {
+    const config = {
+      ...BASE,
+      initialHead: 50,
+      timing,
+      sectors: [0, 2],
+    };
+    const requests = [55, 70];
+    const sstf = simulateDiskScheduling(requests, {
+      ...config,
+      algorithm: 'SSTF',
+    });
+    const sptf = simulateDiskScheduling(requests, {
+      ...config,
+      algorithm: 'SPTF',
+    });
+    expect(order(requests, sstf.steps)).toEqual([55, 70]);
+    expect(order(requests, sptf.steps)).toEqual([70, 55]);
+    expect(sptf.steps[sptf.steps.length - 1].time).toBeLessThan(
+      sstf.steps[sstf.steps.length - 1].time
+    );
+  });
+
+  it('SPTF sem o modelo de tempo equivale ao SSTF', () => {
+    const sptf = simulateDiskScheduling(QUEUE, { ...BASE, algorithm: 'SPTF' });
+    const sstf = simulateDiskScheduling(QUEUE, { ...BASE, algorithm: 'SSTF' });
+    expect(order(QUEUE, sptf.steps)).toEqual(order(QUEUE, sstf.steps));
+  });
+
+  it('rejeita setores fora da trilha', () => {
+    expect(() =>
+      simulateDiskScheduling([70], {
+        ...BASE,
+        algorithm: 'FCFS',
+        timing,
+        sectors: [10],
+      })
+    ).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,575 @@
+/**
+ * Motor de simulação de escalonamento de disco.
+ *
+ * Recebe a fila de requisições (cilindros) e a configuração do disco e
+ * devolve o trace completo: a ordem de atendimento, a posição do cabeçote,
+ * a distância de busca e a direção de movimento em cada passo.
+ *
+ * A simulação corre sobre um relógio em ticks: cada requisição tem um
+ * instante de chegada e o cabeçote percorre `headSpeed` cilindros por tick.
+ * O escalonador decide a cada atendimento, considerando apenas as
+ * requisições que já chegaram.
+ *
+ * Com o modelo de tempo (`timing`), o relógio passa a contar milissegundos:
+ * cada movimento custa a busca da curva do modelo e cada atendimento soma
+ * a latência rotacional até o setor da requisição e a transferência.
+ */
+
+import {
+  DiskTimingModel,
+  assertValidTiming,
+  rotationalLatency,
+  sectorTime,
+  seekTime,
+} from './diskTiming';
+
+export type DiskAlgorithm =
+  | 'FCFS'
+  | 'SSTF'
+  | 'SCAN'
+  | 'C-SCAN'
+  | 'LOOK'
+  | 'C-LOOK'
+  | 'N-STEP-SCAN'
+  | 'FSCAN'
+  | 'SPTF';
+
+export const DISK_ALGORITHMS: readonly DiskAlgorithm[] = [
+  'FCFS',
+  'SSTF',
+  'SCAN',
+  'C-SCAN',
+  'LOOK',
+  'C-LOOK',
+  'N-STEP-SCAN',
+  'FSCAN',
+  'SPTF',
+];
+
+// Algoritmos que varrem o disco em uma direção (usam `direction`)
+export const SWEEP_ALGORITHMS: readonly DiskAlgorithm[] = [
+  'SCAN',
+  'C-SCAN',
+  'LOOK',
+  'C-LOOK',
+  'N-STEP-SCAN',
+  'FSCAN',
+];
+
+// Algoritmos circulares, que voltam ao início sem atender no retorno
+export const CIRCULAR_ALGORITHMS: readonly DiskAlgorithm[] = [
+  'C-SCAN',
+  'C-LOOK',
+];
+
+export type Direction = 'up' | 'down';
+
+/**
+ * Configuração da simulação.
+ * - `countReturnSweep`: Se o retorno do C-SCAN/C-LOOK entra no seek total. Padrão: true.
+ * - `batchSize`: Tamanho dos lotes do N-step SCAN. Padrão: 4.
+ * - `arrivals`: Instante de chegada (em ticks) de cada requisição. Padrão: todas em 0.
+ * - `headSpeed`: Cilindros percorridos pelo cabeçote a cada tick. Padrão: 1.
+ * - `timing`: Modelo de tempo do disco; quando presente, o relógio conta
+ *   milissegundos e `headSpeed` é ignorado. Padrão: nenhum.
+ * - `sectors`: Setor de cada requisição (modelo de tempo). Padrão: todas no setor 0.
+ */
+export interface DiskSchedulingConfig {
+  algorithm: DiskAlgorithm;
+  diskSize: number; // Número de cilindros (0 a diskSize - 1)
+  initialHead: number; // Posição inicial do cabeçote
+  direction: Direction; // Direção inicial (algoritmos de varredura)
+  countReturnSweep?: boolean;
+  batchSize?: number;
+  arrivals?: number[];
+  headSpeed?: number;
+  timing?: DiskTimingModel | null;
+  sectors?: number[];
+}
+
+/**
+ * Um movimento do cabeçote. Na maioria dos passos ele atende uma
+ * requisição, mas o SCAN e o C-SCAN também se movem até a borda do disco
+ * e os algoritmos circulares fazem um retorno ao início.
+ * - `requestIndex`: Índice, na fila original, da requisição atendida (`null` se nenhuma).
+ * - `isReturn`: Indica o salto de retorno do C-SCAN/C-LOOK.
+ * - `from` / `to`: Posição do cabeçote antes e depois do movimento.
+ * - `distance`: Cilindros percorridos no movimento.
+ * - `seek`: Distância contabilizada no seek total (0 em um retorno não contado).
+ * - `direction`: Direção do cabeçote após o passo.
+ * - `batch`: Lote do N-step SCAN/FSCAN ao qual o passo pertence.
+ * - `start` / `time`: Instantes de início e fim do movimento.
+ * - `seekTime` / `rotationalLatency` / `transferTime`: Parcelas da duração
+ *   do movimento; sem o modelo de tempo, só há a busca (`distance / headSpeed`).
+ * - `served`: Quais requisições já foram atendidas após o passo.
+ */
+export interface DiskStep {
+  step: number;
+  requestIndex: number | null;
+  isReturn: boolean;
+  from: number;
+  to: number;
+  distance: number;
+  seek: number;
+  direction: Direction;
+  batch: number;
+  start: number;
+  time: number;
+  seekTime: number;
+  rotationalLatency: number;
+  transferTime: number;
+  totalSeek: number;
+  served: boolean[];
+}
+
+export interface DiskTrace {
+  algorithm: DiskAlgorithm;
+  requests: number[];
+  arrivals: number[];
+  headSpeed: number;
+  timing: DiskTimingModel | null;
+  sectors: number[];
+  initialHead: number;
+  diskSize: number;
+  steps: DiskStep[];
+  totalSeek: number;
+}
+
+interface Move {
+  to: number;
+  requestIndex: number | null;
+  isReturn: boolean;
+}
+
+interface Selection {
+  moves: Move[];
+  direction: Direction;
+}
+
+const opposite = (direction: Direction): Direction =>
+  direction === 'up' ? 'down' : 'up';
+
+const serve = (requests: number[], index: number, isReturn = false): Move => ({
+  to: requests[index],
+  requestIndex: index,
+  isReturn,
+});
+
+// Requisição pendente mais próxima na direção indicada, se houver
+const nearestInDirection = (
+  requests: number[],
+  pending: number[],
+  head: number,
+  direction: Direction
+): number | undefined =>
+  pending
+    .filter((i) =>
+      direction === 'up' ? requests[i] >= head : requests[i] <= head
+    )
+    .sort((a, b) =>
+      direction === 'up' ? requests[a] - requests[b] : requests[b] - requests[a]
+    )[0];
+
+/**
+ * Escolhe os próximos movimentos do cabeçote; o último sempre atende uma
+ * requisição pendente.
+ * - FCFS: A primeira pendente na ordem de chegada.
+ * - SSTF: A pendente mais próxima do cabeçote (empate: a que chegou antes).
+ * - SPTF: A pendente com menor tempo de posicionamento (busca mais latência
+ *   rotacional); sem o modelo de tempo, equivale ao SSTF.
+ * - SCAN: A mais próxima na direção atual; se não houver, vai até a borda
+ *   do disco e inverte a direção.
+ * - LOOK: Como o SCAN, mas inverte na última requisição, sem ir à borda.
+ * - C-SCAN: Vai até a borda, retorna à borda oposta e continua na mesma direção.
+ * - C-LOOK: Retorna diretamente para a requisição mais distante do outro lado.
+ */
+const selectNext = (
+  algorithm: DiskAlgorithm,
+  requests: number[],
+  pending: number[],
+  head: number,
+  direction: Direction,
+  diskSize: number,
+  positioningTime: (index: number) => number
+): Selection => {
+  const edge = (d: Direction) => (d === 'up' ? diskSize - 1 : 0);
+  // Movimento até a borda, omitido se o cabeçote já está nela
+  const toEdge = (d: Direction): Move[] =>
+    head === edge(d)
+      ? []
+      : [{ to: edge(d), requestIndex: null, isReturn: false }];
+
+  switch (algorithm) {
+    case 'FCFS':
+      return { moves: [serve(requests, pending[0])], direction };
+    case 'SPTF':
+      return {
+        moves: [
+          serve(
+            requests,
+            pending.reduce((fastest, i) =>
+              positioningTime(i) < positioningTime(fastest) ? i : fastest
+            )
+          ),
+        ],
+        direction,
+      };
+    case 'SSTF':
+      return {
+        moves: [
+          serve(
+            requests,
+            pending.reduce((closest, i) =>
+              Math.abs(requests[i] - head) < Math.abs(requests[closest] - head)
+                ? i
+                : closest
+            )
+          ),
+        ],
+        direction,
+      };
+  }
+
+  const ahead = nearestInDirection(requests, pending, head, direction);
+  if (ahead !== undefined) {
+    return { moves: [serve(requests, ahead)], direction };
+  }
+
+  const reversed = opposite(direction);
+  switch (algorithm) {
+    case 'LOOK':
+      return {
+        moves: [
+          serve(
+            requests,
+            nearestInDirection(requests, pending, head, reversed)!
+          ),
+        ],
+        direction: reversed,
+      };
+    case 'C-SCAN': {
+      // Após o retorno, a primeira requisição é a mais próxima da borda oposta
+      const wrapped = edge(reversed);
+      const first = nearestInDirection(requests, pending, wrapped, direction)!;
+      const moves = toEdge(direction);
+      if (requests[first] === wrapped) {
+        // Uma requisição na própria borda é atendida no retorno
+        moves.push(serve(requests, first, true));
+      } else {
+        moves.push(
+          { to: wrapped, requestIndex: null, isReturn: true },
+          serve(requests, first)
+        );
+      }
+      return { moves, direction };
+    }
+    case 'C-LOOK':
+      return {
+        moves: [
+          serve(
+            requests,
+            nearestInDirection(requests, pending, edge(reversed), direction)!,
+            true
+          ),
+        ],
+        direction,
+      };
+    default: // SCAN e variantes em lote
+      return {
+        moves: [
+          ...toEdge(direction),
+          serve(
+            requests,
+            nearestInDirection(requests, pending, head, reversed)!
+          ),
+        ],
+        direction: reversed,
+      };
+  }
+};
+
+// Algoritmos que atendem a fila em lotes fechados
+const BATCH_ALGORITHMS: readonly DiskAlgorithm[] = ['N-STEP-SCAN', 'FSCAN'];
+
+/**
+ * Forma o próximo lote a partir das requisições que já chegaram, em ordem
+ * de chegada.
+ * - N-step SCAN: As `batchSize` primeiras.
+ * - FSCAN: Todas; a fila é congelada e quem chega durante a varredura
+ *   espera o lote seguinte.
+ * - Demais algoritmos: Todas, e o lote é refeito a cada decisão, de modo
+ *   que novas requisições entram imediatamente na disputa.
+ */
+const nextBatch = (
+  algorithm: DiskAlgorithm,
+  arrived: number[],
+  batchSize: number
+): number[] =>
+  algorithm === 'N-STEP-SCAN' ? arrived.slice(0, batchSize) : arrived;
+
+/**
+ * Executa a simulação completa de escalonamento de disco.
+ */
+export function simulateDiskScheduling(
+  requests: number[],
+  {
+    algorithm,
+    diskSize,
+    initialHead,
+    direction,
+    countReturnSweep = true,
+    batchSize = 4,
+    arrivals = requests.map(() => 0),
+    headSpeed = 1,
+    timing = null,
+    sectors = requests.map(() => 0),
+  }: DiskSchedulingConfig
+): DiskTrace {
+  const outOfRange = (p: number) =>
+    !Number.isInteger(p) || p < 0 || p >= diskSize;
+  if (!Number.isInteger(diskSize) || diskSize < 1) {
+    throw new RangeError('O tamanho do disco deve ser um inteiro positivo.');
+  }
+  if (outOfRange(initialHead) || requests.some(outOfRange)) {
+    throw new RangeError(
+      `Posições devem ser cilindros inteiros entre 0 e ${diskSize - 1}.`
+    );
+  }
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new RangeError('O tamanho do lote deve ser um inteiro positivo.');
+  }
+  if (
+    arrivals.length !== requests.length ||
+    arrivals.some((a) => !Number.isFinite(a) || a < 0)
+  ) {
+    throw new RangeError(
+      'Cada requisição deve ter um instante de chegada não negativo.'
+    );
+  }
+  if (!Number.isFinite(headSpeed) || headSpeed <= 0) {
+    throw new RangeError('A velocidade do cabeçote deve ser positiva.');
+  }
+  if (timing) {
+    assertValidTiming(timing);
+    if (
+      sectors.length !== requests.length ||
+      sectors.some(
+        (s) => !Number.isInteger(s) || s < 0 || s >= timing.sectorsPerTrack
+      )
+    ) {
+      throw new RangeError(
+        `Cada requisição deve ter um setor entre 0 e ${
+          timing.sectorsPerTrack - 1
+        }.`
+      );
+    }
+  }
+
+  // Parcelas da duração de um movimento iniciado no instante `start`
+  const durations = (
+    distance: number,
+    requestIndex: number | null,
+    start: number
+  ) => {
+    if (!timing) {
+      return {
+        seekTime: distance / headSpeed,
+        rotationalLatency: 0,
+        transferTime: 0,
+      };
+    }
+    const seek = seekTime(timing, distance);
+    return requestIndex === null
+      ? { seekTime: seek, rotationalLatency: 0, transferTime: 0 }
+      : {
+          seekTime: seek,
+          rotationalLatency: rotationalLatency(
+            timing,
+            start + seek,
+            sectors[requestIndex]
+          ),
+          transferTime: sectorTime(timing),
+        };
+  };
+
+  const served: boolean[] = requests.map(() => false);
+  const steps: DiskStep[] = [];
+  // Índices em ordem de chegada (empate: a ordem da fila)
+  const byArrival = requests
+    .map((_, i) => i)
+    .sort((a, b) => arrivals[a] - arrivals[b] || a - b);
+  const batched = BATCH_ALGORITHMS.includes(algorithm);
+  let head = initialHead;
+  let currentDirection = direction;
+  let totalSeek = 0;
+  let time = 0;
+  let batch: number[] = [];
+  let batchIndex = batched ? -1 : 0;
+
+  for (;;) {
+    const waiting = byArrival.filter((i) => !served[i]);
+    if (waiting.length === 0) break;
+    const arrived = waiting.filter((i) => arrivals[i] <= time);
+    if (arrived.length === 0) {
+      // Fila vazia: o cabeçote fica parado até a próxima chegada
+      time = arrivals[waiting[0]];
+      continue;
+    }
+    batch = batch.filter((i) => !served[i]);
+    if (!batched || batch.length === 0) {
+      batch = nextBatch(algorithm, arrived, batchSize);
+      if (batched) batchIndex++;
+    }
+
+    const next = selectNext(
+      algorithm,
+      requests,
+      batch,
+      head,
+      currentDirection,
+      diskSize,
+      (i) => {
+        const { seekTime, rotationalLatency } = durations(
+          Math.abs(requests[i] - head),
+          i,
+          time
+        );
+        return seekTime + rotationalLatency;
+      }
+    );
+    currentDirection = next.direction;
+    next.moves.forEach(({ to, requestIndex, isReturn }) => {
+      const distance = Math.abs(to - head);
+      const seek = isReturn && !countReturnSweep ? 0 : distance;
+      const start = time;
+      const parts = durations(distance, requestIndex, start);
+      time += parts.seekTime + parts.rotationalLatency + parts.transferTime;
+      totalSeek += seek;
+      if (requestIndex !== null) served[requestIndex] = true;
+      steps.push({
+        step: steps.length,
+        requestIndex,
+        isReturn,
+        from: head,
+        to,
+        distance,
+        seek,
+        direction: currentDirection,
+        batch: batchIndex,
+        start,
+        time,
+        ...parts,
+        totalSeek,
+        served: [...served],
+      });
+      head = to;
+    });
+  }
+
+  return {
+    algorithm,
+    requests: [...requests],
+    arrivals: [...arrivals],
+    headSpeed,
+    timing,
+    sectors: [...sectors],
+    initialHead,
+    diskSize,
+    steps,
+    totalSeek,
+  };
+}
+
+/**
+ * Métricas de comparação entre algoritmos.
+ * - `averageSeek`: Seek total dividido pelo número de requisições.
+ * - `waits`: Para cada requisição, quantos cilindros o cabeçote percorreu
+ *   desde o início até atendê-la.
+ * - `maxWait`: Maior espera entre todas as requisições.
+ * - `waitingTimes`: Tempo entre a chegada e o início do movimento que
+ *   atende a requisição.
+ * - `responseTimes`: Tempo entre a chegada e o fim do atendimento (espera
+ *   mais o próprio acesso).
+ * - `responseVariance`: Variância dos tempos de resposta; quanto maior,
+ *   menos justo o algoritmo.
+ * - `totalSeekTime` / `totalLatency` / `totalTransfer`: Soma de cada parcela
+ *   da duração dos movimentos.
+ *
+ * Os tempos estão na unidade do relógio: ticks, ou ms com o modelo de tempo.
+ */
+export interface DiskSummary {
+  totalSeek: number;
+  averageSeek: number;
+  waits: number[];
+  maxWait: number;
+  waitingTimes: number[];
+  responseTimes: number[];
+  averageWaiting: number;
+  averageResponse: number;
+  responseVariance: number;
+  maxResponse: number;
+  totalSeekTime: number;
+  totalLatency: number;
+  totalTransfer: number;
+}
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+const mean = (values: number[]) =>
+  values.length === 0 ? 0 : sum(values) / values.length;
+
+/**
+ * Resume um trace em métricas de comparação entre algoritmos.
+ */
+export function summarizeDiskTrace({
+  requests,
+  arrivals,
+  steps,
+  totalSeek,
+}: DiskTrace): DiskSummary {
+  const waits = requests.map(() => 0);
+  const waitingTimes = requests.map(() => 0);
+  const responseTimes = requests.map(() => 0);
+  let traveled = 0;
+  steps.forEach(({ distance, requestIndex, start, time }) => {
+    traveled += distance;
+    if (requestIndex !== null) {
+      waits[requestIndex] = traveled;
+      waitingTimes[requestIndex] = start - arrivals[requestIndex];
+      responseTimes[requestIndex] = time - arrivals[requestIndex];
+    }
+  });
+  const averageResponse = mean(responseTimes);
+  return {
+    totalSeek,
+    averageSeek: requests.length === 0 ? 0 : totalSeek / requests.length,
+    waits,
+    maxWait: Math.max(0, ...waits),
+    waitingTimes,
+    responseTimes,
+    averageWaiting: mean(waitingTimes),
+    averageResponse,
+    responseVariance: mean(
+      responseTimes.map((r) => (r - averageResponse) ** 2)
+    ),
+    maxResponse: Math.max(0, ...responseTimes),
+    totalSeekTime: sum(steps.map((s) => s.seekTime)),
+    totalLatency: sum(steps.map((s) => s.rotationalLatency)),
+    totalTransfer: sum(steps.map((s) => s.transferTime)),
+  };
+}
+
+/**
+ * Requisições em inanição no instante `time`: já chegaram, ainda não foram
+ * atendidas (`served`) e esperam há mais de `limit` ticks.
+ */
+export function starvingRequests(
+  { arrivals }: DiskTrace,
+  served: boolean[],
+  time: number,
+  limit: number
+): boolean[] {
+  return arrivals.map(
+    (arrival, i) => !served[i] && arrival <= time && time - arrival > limit
+  );
+}
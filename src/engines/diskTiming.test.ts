@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DiskTimingModel,
+  assertValidTiming,
+  rotationPeriod,
+  rotationalLatency,
+  sectorTime,
+  seekTime,
+} from './diskTiming';
+
+// 6000 RPM: uma volta em 10 ms; com 10 setores, 1 ms por setor
+const MODEL: DiskTimingModel = {
+  rpm: 6000,
+  settleTime: 1,
+  seekFactor: 0.3,
+  sectorsPerTrack: 10,
+};
+
+describe('modelo de tempo do disco', () => {
+  it('deriva o período da rotação e a transferência de um setor', () => {
+    expect(rotationPeriod(MODEL)).toBe(10);
+    expect(sectorTime(MODEL)).toBe(1);
+  });
+
+  it('soma acomodação e um termo proporcional à raiz da distância', () => {
+    expect(seekTime(MODEL, 0)).toBe(0);
+    expect(seekTime(MODEL, 100)).toBeCloseTo(4);
+    expect(seekTime(MODEL, 1)).toBeCloseTo(1.3);
+  });
+
+  it('espera o setor pedido passar sob o cabeçote', () => {
+    expect(rotationalLatency(MODEL, 0, 0)).toBe(0);
+    expect(rotationalLatency(MODEL, 0, 3)).toBe(3);
+    // Em t=4,5 o cabeçote está no meio do setor 4: o 3 só volta após 8,5 ms
+    expect(rotationalLatency(MODEL, 4.5, 3)).toBeCloseTo(8.5);
+    expect(rotationalLatency(MODEL, 30, 0)).toBeCloseTo(0);
+  });
+
+  it('rejeita parâmetros inválidos', () => {
+    expect(() => assertValidTiming({ ...MODEL, rpm: 0 })).toThrow(RangeError);
+    expect(() => assertValidTiming({ ...MODEL, sectorsPerTrack: 1.5 })).toThrow(
+      RangeError
+    );
+  });
+});
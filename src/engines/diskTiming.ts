@@ -0,0 +1,103 @@
+/**
+ * Modelo de tempo do disco: transforma movimentos do cabeçote em
+ * milissegundos.
+ *
+ * O tempo de acesso a uma requisição é a soma de três parcelas:
+ * - Busca: `settleTime + seekFactor × √distância` (zero se o cabeçote já
+ *   está no cilindro). A raiz quadrada aproxima a aceleração do braço,
+ *   que torna buscas curtas proporcionalmente mais caras.
+ * - Latência rotacional: espera até o setor pedido passar sob o cabeçote.
+ * - Transferência: a passagem de um setor inteiro sob o cabeçote.
+ *
+ * O prato gira a velocidade constante e, no instante 0, o início do setor 0
+ * está sob o cabeçote.
+ */
+
+/**
+ * Parâmetros do modelo.
+ * - `rpm`: Rotações por minuto do prato.
+ * - `settleTime`: Tempo fixo de acomodação de qualquer busca (ms).
+ * - `seekFactor`: Parcela da busca que cresce com a distância (ms por √cilindro).
+ * - `sectorsPerTrack`: Setores em cada trilha (0 a sectorsPerTrack - 1).
+ */
+export interface DiskTimingModel {
+  rpm: number;
+  settleTime: number;
+  seekFactor: number;
+  sectorsPerTrack: number;
+}
+
+export const DEFAULT_DISK_TIMING: DiskTimingModel = {
+  rpm: 7200,
+  settleTime: 1,
+  seekFactor: 0.3,
+  sectorsPerTrack: 32,
+};
+
+// Tolerância para erros de arredondamento na posição do prato
+const EPSILON = 1e-9;
+
+/**
+ * Confere se os parâmetros do modelo fazem sentido.
+ */
+export function assertValidTiming({
+  rpm,
+  settleTime,
+  seekFactor,
+  sectorsPerTrack,
+}: DiskTimingModel) {
+  if (!Number.isFinite(rpm) || rpm <= 0) {
+    throw new RangeError('A rotação do disco deve ser positiva.');
+  }
+  if (
+    !Number.isFinite(settleTime) ||
+    settleTime < 0 ||
+    !Number.isFinite(seekFactor) ||
+    seekFactor < 0
+  ) {
+    throw new RangeError('Os tempos de busca não podem ser negativos.');
+  }
+  if (!Number.isInteger(sectorsPerTrack) || sectorsPerTrack < 1) {
+    throw new RangeError(
+      'O número de setores por trilha deve ser um inteiro positivo.'
+    );
+  }
+}
+
+/**
+ * Duração de uma volta completa do prato (ms).
+ */
+export const rotationPeriod = ({ rpm }: DiskTimingModel) => 60000 / rpm;
+
+/**
+ * Tempo para um setor passar sob o cabeçote, isto é, a transferência (ms).
+ */
+export const sectorTime = (model: DiskTimingModel) =>
+  rotationPeriod(model) / model.sectorsPerTrack;
+
+/**
+ * Tempo de busca para percorrer `distance` cilindros (ms).
+ */
+export const seekTime = (
+  { settleTime, seekFactor }: DiskTimingModel,
+  distance: number
+) => (distance === 0 ? 0 : settleTime + seekFactor * Math.sqrt(distance));
+
+/**
+ * Espera, a partir do instante `time` (ms), até o início de `sector`
+ * passar sob o cabeçote.
+ */
+export function rotationalLatency(
+  model: DiskTimingModel,
+  time: number,
+  sector: number
+): number {
+  const slot = sectorTime(model);
+  const { sectorsPerTrack } = model;
+  const position = (time / slot) % sectorsPerTrack;
+  const ahead =
+    (((sector - position) % sectorsPerTrack) + sectorsPerTrack) %
+    sectorsPerTrack;
+  // Um setor que está começando agora não exige uma volta inteira
+  return ahead * slot > rotationPeriod(model) - EPSILON ? 0 : ahead * slot;
+}
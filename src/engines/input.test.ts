@@ -0,0 +1,246 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatReferenceList,
+  parseAddressList,
+  parseCpuProcessList,
+  parseGraphEdges,
+  parseIntegerInRange,
+  parseIntegerList,
+  parseMatrix,
+  parseMemoryScript,
+  parseNumberInRange,
+  parseProcessList,
+  parseReferenceList,
+} from './input';
+
+describe('parseIntegerList', () => {
+  it('aceita espaços, vírgulas e ponto e vírgula como separadores', () => {
+    expect(parseIntegerList('7 0 1, 2;0\n3', 'a sequência', 0, 9)).toEqual({
+      ok: true,
+      value: [7, 0, 1, 2, 0, 3],
+    });
+  });
+
+  it('rejeita listas vazias', () => {
+    const result = parseIntegerList('  , ', 'a sequência', 0, 9);
+    expect(result).toEqual({
+      ok: false,
+      error: 'Informe pelo menos um valor para a sequência.',
+    });
+  });
+
+  it('aponta o item inválido', () => {
+    const result = parseIntegerList('1 2 x 4', 'a sequência', 0, 9);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toContain('"x" (item 3)');
+  });
+
+  it('aponta o item fora do intervalo', () => {
+    const result = parseIntegerList('10 250', 'a fila', 0, 199);
+    expect(!result.ok && result.error).toBe(
+      '250 (item 2) está fora do intervalo 0–199.'
+    );
+  });
+});
+
+describe('parseIntegerInRange', () => {
+  it('lê inteiros dentro do intervalo', () => {
+    expect(parseIntegerInRange(' 4 ', 'o número de frames', 1, 10)).toEqual({
+      ok: true,
+      value: 4,
+    });
+  });
+
+  it('gera mensagens para campo vazio, não inteiro e fora do intervalo', () => {
+    const error = (text: string) => {
+      const result = parseIntegerInRange(text, 'o número de frames', 1, 10);
+      return result.ok ? null : result.error;
+    };
+    expect(error('')).toBe('Informe o número de frames.');
+    expect(error('2.5')).toBe('O número de frames deve ser um inteiro.');
+    expect(error('0')).toBe('O número de frames deve estar entre 1 e 10.');
+  });
+});
+
+describe('parseNumberInRange', () => {
+  it('aceita ponto ou vírgula como separador decimal', () => {
+    expect(parseNumberInRange('0,3', 'o fator', 0, 10)).toEqual({
+      ok: true,
+      value: 0.3,
+    });
+    expect(parseNumberInRange('1.5', 'o fator', 0, 10)).toEqual({
+      ok: true,
+      value: 1.5,
+    });
+  });
+
+  it('rejeita textos que não são números', () => {
+    expect(parseNumberInRange('1e3', 'o fator', 0, 10)).toEqual({
+      ok: false,
+      error: 'O fator deve ser um número.',
+    });
+  });
+});
+
+describe('parseAddressList', () => {
+  it('aceita endereços em decimal e em hexadecimal', () => {
+    expect(
+      parseAddressList('0x1A3F, 4660 0xff', 'os endereços', 2 ** 16)
+    ).toEqual({
+      ok: true,
+      value: { addresses: [0x1a3f, 4660, 255], writes: [false, false, false] },
+    });
+  });
+
+  it('marca as escritas indicadas por W antes do endereço', () => {
+    expect(
+      parseAddressList('W 0x1a2b, r 0x10 0x20', 'os endereços', 2 ** 16)
+    ).toEqual({
+      ok: true,
+      value: { addresses: [0x1a2b, 0x10, 0x20], writes: [true, false, false] },
+    });
+    const dangling = parseAddressList('0x10 W', 'os endereços', 256);
+    expect(!dangling.ok && dangling.error).toContain('"W" (item 2)');
+  });
+
+  it('aponta o endereço inválido ou fora do espaço', () => {
+    const invalid = parseAddressList('0x10 0xZZ', 'os endereços', 256);
+    expect(!invalid.ok && invalid.error).toContain('"0xZZ" (item 2)');
+    const outside = parseAddressList('0x10 0x100', 'os endereços', 256);
+    expect(!outside.ok && outside.error).toContain('0xFF');
+  });
+});
+
+describe('parseReferenceList', () => {
+  it('lê as anotações de leitura e escrita', () => {
+    expect(parseReferenceList('3w 1r 3, 2W', 'a sequência', 0, 9)).toEqual({
+      ok: true,
+      value: { pages: [3, 1, 3, 2], writes: [true, false, false, true] },
+    });
+  });
+
+  it('aponta a referência inválida', () => {
+    const result = parseReferenceList('3w 1x', 'a sequência', 0, 9);
+    expect(!result.ok && result.error).toContain('"1x" (item 2)');
+  });
+
+  it('volta ao texto marcando só as escritas', () => {
+    expect(formatReferenceList([3, 1, 3], [true, false, false])).toBe('3w 1 3');
+  });
+});
+
+describe('parseProcessList', () => {
+  it('lê uma sequência por linha e ignora linhas em branco', () => {
+    expect(parseProcessList('0 1 2\n\n  5, 6 \n', 8)).toEqual({
+      ok: true,
+      value: [
+        [0, 1, 2],
+        [5, 6],
+      ],
+    });
+  });
+
+  it('indica o processo da linha inválida', () => {
+    expect(parseProcessList('0 1\n2 x', 8)).toEqual({
+      ok: false,
+      error:
+        'As referências de P1: "x" (item 2) não é um inteiro não negativo.',
+    });
+  });
+
+  it('limita o número de processos', () => {
+    const result = parseProcessList('0\n1\n2', 2);
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe('parseCpuProcessList', () => {
+  it('lê chegada, duração e prioridade opcional de cada linha', () => {
+    expect(parseCpuProcessList('0 8 2\n\n1, 4', 8)).toEqual({
+      ok: true,
+      value: [
+        { arrival: 0, burst: 8, priority: 2 },
+        { arrival: 1, burst: 4, priority: 0 },
+      ],
+    });
+  });
+
+  it('indica o processo e o campo inválido', () => {
+    expect(parseCpuProcessList('0 3\n2 0', 8)).toEqual({
+      ok: false,
+      error: 'P1: A duração deve estar entre 1 e 50.',
+    });
+    expect(parseCpuProcessList('0 3 1 9', 8)).toEqual({
+      ok: false,
+      error: 'P0: informe a chegada, a duração e, se quiser, a prioridade.',
+    });
+  });
+});
+
+describe('parseMatrix', () => {
+  it('lê uma linha por processo com o número certo de colunas', () => {
+    expect(parseMatrix('7 5 3\n\n3, 2, 2', 'Max', 3, 99)).toEqual({
+      ok: true,
+      value: [
+        [7, 5, 3],
+        [3, 2, 2],
+      ],
+    });
+    expect(parseMatrix('7 5 3\n3 2', 'Max', 3, 99)).toEqual({
+      ok: false,
+      error: 'Linha 2: deve ter 3 valores, um por recurso.',
+    });
+  });
+});
+
+describe('parseGraphEdges', () => {
+  it('separa pedidos e atribuições', () => {
+    expect(parseGraphEdges('P0 -> R1\nr1->p2\n', 3, 2)).toEqual({
+      ok: true,
+      value: { requests: [[0, 1]], assignments: [[1, 2]] },
+    });
+  });
+
+  it('rejeita arestas malformadas e nós inexistentes', () => {
+    expect(parseGraphEdges('P0 -> P1', 2, 1)).toEqual({
+      ok: false,
+      error:
+        'Linha 1: "P0 -> P1" não é uma aresta (ex.: P0 -> R1 ou R1 -> P0).',
+    });
+    expect(parseGraphEdges('R0 -> P0\nP0 -> R3', 2, 2)).toEqual({
+      ok: false,
+      error: 'Linha 2: R3 não existe.',
+    });
+  });
+});
+
+describe('parseMemoryScript', () => {
+  it('lê alocações, liberações e compactações', () => {
+    expect(parseMemoryScript('A 100\n\nFREE A\ncompact')).toEqual({
+      ok: true,
+      value: [
+        { kind: 'allocate', name: 'A', size: 100 },
+        { kind: 'free', name: 'A' },
+        { kind: 'compact' },
+      ],
+    });
+  });
+
+  it('acompanha quais nomes estão na memória', () => {
+    expect(parseMemoryScript('A 10\nA 20')).toEqual({
+      ok: false,
+      error: 'Linha 2: A já está alocado.',
+    });
+    expect(parseMemoryScript('A 10\nfree B')).toEqual({
+      ok: false,
+      error: 'Linha 2: B não está alocado.',
+    });
+  });
+
+  it('aponta comandos e tamanhos inválidos', () => {
+    const invalid = parseMemoryScript('A 10\nalloc B 5');
+    expect(!invalid.ok && invalid.error).toContain('Linha 2: "alloc B 5"');
+    const size = parseMemoryScript('A 0');
+    expect(!size.ok && size.error).toContain('Linha 1: O tamanho do pedido');
+  });
+});
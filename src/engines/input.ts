@@ -0,0 +1,517 @@
+/**
+ * Leitura e validação das entradas digitadas nos painéis de configuração.
+ *
+ * As funções não lançam exceções: devolvem o valor lido ou uma mensagem
+ * de erro pronta para ser exibida ao lado do campo, no idioma de `t`. O
+ * rótulo `label` já vem traduzido (ex.: "o número de frames").
+ */
+
+import { CpuProcess } from './cpuScheduling';
+import { MemoryRequest } from './memoryAllocation';
+import { Translate, translatePt } from '../i18n/translate';
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+export const MAX_FRAMES = 10; // Limite de frames exibíveis lado a lado
+export const MAX_PAGE_NUMBER = 9999; // Maior número de página aceito
+export const MAX_DISK_SIZE = 10000; // Limite de cilindros do disco
+export const MAX_SEED = 2 ** 31 - 1; // Maior semente aceita pelos geradores
+export const MAX_ARRIVAL = 100000; // Maior instante de chegada, em ticks
+export const MAX_HEAD_SPEED = 100; // Maior velocidade do cabeçote (cilindros por tick)
+export const MIN_RPM = 1000; // Faixa de rotação aceita no modelo de tempo
+export const MAX_RPM = 20000;
+export const MAX_SEEK_PARAMETER = 100; // Maior acomodação ou fator de busca (ms)
+export const MAX_SECTORS = 1024; // Maior número de setores por trilha
+export const MIN_ADDRESS_BITS = 8; // Faixa de larguras do endereço virtual
+export const MAX_ADDRESS_BITS = 32;
+export const MAX_TLB_SIZE = 16; // Maior número de entradas da TLB
+export const MAX_ACCESS_TIME = 100000000; // Maior custo de acesso aceito (ns)
+export const MAX_PROCESSES = 8; // Processos que dividem a memória
+export const MAX_POOL_FRAMES = 32; // Frames da memória compartilhada
+export const MAX_FAULT_TICKS = 1000; // Maior tempo de page fault, em ticks
+export const MAX_WINDOW = 100; // Maior janela Δ do conjunto de trabalho
+export const MAX_CPU_ARRIVAL = 100; // Maior chegada no escalonamento de CPU
+export const MAX_BURST = 50; // Maior tempo de CPU de um processo
+export const MAX_PRIORITY = 99; // Prioridades vão de 0 (mais alta) a 99
+export const MAX_QUANTUM = 20; // Maior quantum do Round Robin e do MLFQ
+export const MAX_MLFQ_QUANTA = 3; // Níveis com quantum no MLFQ (+1 FCFS)
+export const MAX_RESOURCES = 5; // Tipos de recurso nos deadlocks
+export const MAX_INSTANCES = 99; // Maior valor das matrizes do banqueiro
+export const MAX_GRAPH_INSTANCES = 4; // Instâncias desenhadas por recurso no grafo
+export const MAX_MEMORY_REQUESTS = 30; // Comandos no roteiro de alocação
+export const MAX_REQUEST_SIZE = 4096; // Maior pedido de alocação, em KB
+
+/**
+ * Lê um inteiro dentro de [min, max].
+ */
+export function parseIntegerInRange(
+  text: string,
+  label: string,
+  min: number,
+  max: number,
+  t: Translate = translatePt
+): ParseResult<number> {
+  const trimmed = text.trim();
+  if (trimmed === '') {
+    return { ok: false, error: t('input.required', { label }) };
+  }
+  if (!/^-?\d+$/.test(trimmed)) {
+    return {
+      ok: false,
+      error: t('input.notInteger', { label: capitalize(label) }),
+    };
+  }
+  const value = Number(trimmed);
+  if (value < min || value > max) {
+    return {
+      ok: false,
+      error: t('input.outOfRange', { label: capitalize(label), min, max }),
+    };
+  }
+  return { ok: true, value };
+}
+
+/**
+ * Lê um número decimal dentro de [min, max]. Aceita tanto ponto quanto
+ * vírgula como separador decimal (ex.: "0.3" ou "0,3").
+ */
+export function parseNumberInRange(
+  text: string,
+  label: string,
+  min: number,
+  max: number,
+  t: Translate = translatePt
+): ParseResult<number> {
+  const trimmed = text.trim();
+  if (trimmed === '') {
+    return { ok: false, error: t('input.required', { label }) };
+  }
+  if (!/^-?\d+([.,]\d+)?$/.test(trimmed)) {
+    return {
+      ok: false,
+      error: t('input.notNumber', { label: capitalize(label) }),
+    };
+  }
+  const value = Number(trimmed.replace(',', '.'));
+  if (value < min || value > max) {
+    return {
+      ok: false,
+      error: t('input.outOfRange', { label: capitalize(label), min, max }),
+    };
+  }
+  return { ok: true, value };
+}
+
+/**
+ * Lê uma lista de inteiros separados por espaços e/ou vírgulas
+ * (ex.: "7 0 1 2 0 3" ou "98, 183, 37"), todos dentro de [min, max].
+ */
+export function parseIntegerList(
+  text: string,
+  label: string,
+  min: number,
+  max: number,
+  t: Translate = translatePt
+): ParseResult<number[]> {
+  const tokens = text.split(/[\s,;]+/).filter((t) => t !== '');
+  if (tokens.length === 0) {
+    return { ok: false, error: t('input.emptyList', { label }) };
+  }
+  const values: number[] = [];
+  for (const [i, token] of tokens.entries()) {
+    if (!/^\d+$/.test(token)) {
+      return {
+        ok: false,
+        error: t('input.invalidItem', { token, index: i + 1 }),
+      };
+    }
+    const value = Number(token);
+    if (value < min || value > max) {
+      return {
+        ok: false,
+        error: t('input.itemOutOfRange', { value, index: i + 1, min, max }),
+      };
+    }
+    values.push(value);
+  }
+  return { ok: true, value: values };
+}
+
+export interface ReferenceList {
+  pages: number[];
+  writes: boolean[]; // Uma indicação por página: a referência é uma escrita?
+}
+
+/**
+ * Lê uma sequência de referências de páginas com anotação opcional de
+ * leitura ou escrita (ex.: "3w 1r 3"). Sem sufixo, a referência é uma
+ * leitura.
+ */
+export function parseReferenceList(
+  text: string,
+  label: string,
+  min: number,
+  max: number,
+  t: Translate = translatePt
+): ParseResult<ReferenceList> {
+  const tokens = text.split(/[\s,;]+/).filter((t) => t !== '');
+  if (tokens.length === 0) {
+    return { ok: false, error: t('input.emptyList', { label }) };
+  }
+  const pages: number[] = [];
+  const writes: boolean[] = [];
+  for (const [i, token] of tokens.entries()) {
+    const match = /^(\d+)([rRwW]?)$/.exec(token);
+    if (!match) {
+      return {
+        ok: false,
+        error: t('input.invalidReference', { token, index: i + 1 }),
+      };
+    }
+    const value = Number(match[1]);
+    if (value < min || value > max) {
+      return {
+        ok: false,
+        error: t('input.itemOutOfRange', { value, index: i + 1, min, max }),
+      };
+    }
+    pages.push(value);
+    writes.push(match[2].toLowerCase() === 'w');
+  }
+  return { ok: true, value: { pages, writes } };
+}
+
+/**
+ * Escreve a sequência no formato lido por `parseReferenceList`, marcando
+ * só as escritas (ex.: "3w 1 3").
+ */
+export const formatReferenceList = (pages: number[], writes: boolean[]) =>
+  pages.map((page, i) => (writes[i] ? `${page}w` : String(page))).join(' ');
+
+/**
+ * Lê as sequências de referências de vários processos, uma por linha
+ * (linhas em branco são ignoradas). O processo da i-ésima linha é P(i-1).
+ */
+export function parseProcessList(
+  text: string,
+  max: number,
+  t: Translate = translatePt
+): ParseResult<number[][]> {
+  const lines = text.split('\n').filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    return {
+      ok: false,
+      error: t('input.emptyList', { label: t('input.labels.processes') }),
+    };
+  }
+  if (lines.length > max) {
+    return {
+      ok: false,
+      error: t('input.outOfRange', {
+        label: capitalize(t('input.labels.processCount')),
+        min: 1,
+        max,
+      }),
+    };
+  }
+  const processes: number[][] = [];
+  for (const [pid, line] of lines.entries()) {
+    const label = t('input.labels.process', { pid });
+    const references = parseIntegerList(line, label, 0, MAX_PAGE_NUMBER, t);
+    if (!references.ok) {
+      return { ok: false, error: `${capitalize(label)}: ${references.error}` };
+    }
+    processes.push(references.value);
+  }
+  return { ok: true, value: processes };
+}
+
+/**
+ * Lê os processos do escalonamento de CPU, um por linha, no formato
+ * "chegada duração [prioridade]" (ex.: "0 8 2"). Sem prioridade, vale 0.
+ */
+export function parseCpuProcessList(
+  text: string,
+  max: number,
+  t: Translate = translatePt
+): ParseResult<CpuProcess[]> {
+  const lines = text.split('\n').filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    return {
+      ok: false,
+      error: t('input.emptyList', { label: t('input.labels.processes') }),
+    };
+  }
+  if (lines.length > max) {
+    return {
+      ok: false,
+      error: t('input.outOfRange', {
+        label: capitalize(t('input.labels.processCount')),
+        min: 1,
+        max,
+      }),
+    };
+  }
+  const processes: CpuProcess[] = [];
+  for (const [pid, line] of lines.entries()) {
+    const tokens = line.split(/[\s,;]+/).filter((t) => t !== '');
+    if (tokens.length < 2 || tokens.length > 3) {
+      return { ok: false, error: t('input.invalidCpuProcess', { pid }) };
+    }
+    const fields = [
+      parseIntegerInRange(
+        tokens[0],
+        t('input.labels.arrival'),
+        0,
+        MAX_CPU_ARRIVAL,
+        t
+      ),
+      parseIntegerInRange(tokens[1], t('input.labels.burst'), 1, MAX_BURST, t),
+      parseIntegerInRange(
+        tokens[2] ?? '0',
+        t('input.labels.priority'),
+        0,
+        MAX_PRIORITY,
+        t
+      ),
+    ];
+    const values: number[] = [];
+    for (const field of fields) {
+      if (!field.ok) return { ok: false, error: `P${pid}: ${field.error}` };
+      values.push(field.value);
+    }
+    const [arrival, burst, priority] = values;
+    processes.push({ arrival, burst, priority });
+  }
+  return { ok: true, value: processes };
+}
+
+/**
+ * Lê uma matriz com uma linha por processo e `columns` inteiros em cada
+ * linha, todos entre 0 e `max` (linhas em branco são ignoradas).
+ */
+export function parseMatrix(
+  text: string,
+  label: string,
+  columns: number,
+  max: number,
+  t: Translate = translatePt
+): ParseResult<number[][]> {
+  const lines = text.split('\n').filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    return { ok: false, error: t('input.emptyList', { label }) };
+  }
+  const rows: number[][] = [];
+  for (const [i, line] of lines.entries()) {
+    const prefix = capitalize(t('input.labels.row', { row: i + 1 }));
+    const row = parseIntegerList(line, label, 0, max, t);
+    if (!row.ok) return { ok: false, error: `${prefix}: ${row.error}` };
+    if (row.value.length !== columns) {
+      return {
+        ok: false,
+        error: `${prefix}: ${t('input.wrongRowLength', { count: columns })}`,
+      };
+    }
+    rows.push(row.value);
+  }
+  return { ok: true, value: rows };
+}
+
+export interface GraphEdges {
+  requests: [number, number][]; // [processo, recurso]
+  assignments: [number, number][]; // [recurso, processo]
+}
+
+/**
+ * Lê as arestas de um grafo de alocação, uma por linha: "P0 -> R1" é um
+ * pedido e "R1 -> P0", uma atribuição. Um texto vazio é um grafo sem
+ * arestas.
+ */
+export function parseGraphEdges(
+  text: string,
+  processCount: number,
+  resourceCount: number,
+  t: Translate = translatePt
+): ParseResult<GraphEdges> {
+  const requests: [number, number][] = [];
+  const assignments: [number, number][] = [];
+  const lines = text.split('\n').filter((line) => line.trim() !== '');
+  for (const [i, line] of lines.entries()) {
+    const match = /^\s*([pr])(\d+)\s*->\s*([pr])(\d+)\s*$/i.exec(line);
+    const [from, to] = match
+      ? [match[1].toUpperCase(), match[3].toUpperCase()]
+      : [];
+    if (!match || from === to) {
+      return {
+        ok: false,
+        error: t('input.invalidEdge', { line: i + 1, text: line.trim() }),
+      };
+    }
+    const [pid, rid] =
+      from === 'P'
+        ? [Number(match[2]), Number(match[4])]
+        : [Number(match[4]), Number(match[2])];
+    if (pid >= processCount || rid >= resourceCount) {
+      return {
+        ok: false,
+        error: t('input.unknownNode', {
+          line: i + 1,
+          node: pid >= processCount ? `P${pid}` : `R${rid}`,
+        }),
+      };
+    }
+    if (from === 'P') requests.push([pid, rid]);
+    else assignments.push([rid, pid]);
+  }
+  return { ok: true, value: { requests, assignments } };
+}
+
+/**
+ * Lê o roteiro da alocação de memória, um comando por linha: "A 100" aloca
+ * 100 KB para A, "free A" libera o bloco de A e "compact" compacta a
+ * memória. Só se aloca um nome que não está na memória e só se libera um
+ * nome que está.
+ */
+export function parseMemoryScript(
+  text: string,
+  t: Translate = translatePt
+): ParseResult<MemoryRequest[]> {
+  const lines = text.split('\n').filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    return {
+      ok: false,
+      error: t('input.emptyList', { label: t('input.labels.script') }),
+    };
+  }
+  if (lines.length > MAX_MEMORY_REQUESTS) {
+    return {
+      ok: false,
+      error: t('input.tooManyLines', {
+        label: capitalize(t('input.labels.script')),
+        max: MAX_MEMORY_REQUESTS,
+      }),
+    };
+  }
+  const requests: MemoryRequest[] = [];
+  const active = new Set<string>();
+  for (const [i, line] of lines.entries()) {
+    const prefix = capitalize(t('input.labels.row', { row: i + 1 }));
+    const tokens = line.trim().split(/\s+/);
+    const [first, second] = tokens;
+    const command = first.toLowerCase();
+    const isName = (token?: string) =>
+      token !== undefined && /^[A-Za-z]\w{0,7}$/.test(token);
+    if (tokens.length === 1 && command === 'compact') {
+      requests.push({ kind: 'compact' });
+    } else if (tokens.length === 2 && command === 'free' && isName(second)) {
+      if (!active.delete(second)) {
+        return {
+          ok: false,
+          error: `${prefix}: ${t('input.notAllocated', { name: second })}`,
+        };
+      }
+      requests.push({ kind: 'free', name: second });
+    } else if (tokens.length === 2 && isName(first) && command !== 'free') {
+      const size = parseIntegerInRange(
+        second,
+        t('input.labels.requestSize'),
+        1,
+        MAX_REQUEST_SIZE,
+        t
+      );
+      if (!size.ok) return { ok: false, error: `${prefix}: ${size.error}` };
+      if (active.has(first)) {
+        return {
+          ok: false,
+          error: `${prefix}: ${t('input.alreadyAllocated', { name: first })}`,
+        };
+      }
+      active.add(first);
+      requests.push({ kind: 'allocate', name: first, size: size.value });
+    } else {
+      return {
+        ok: false,
+        error: `${prefix}: ${t('input.invalidMemoryCommand', {
+          text: line.trim(),
+        })}`,
+      };
+    }
+  }
+  return { ok: true, value: requests };
+}
+
+/**
+ * Escreve o roteiro no formato lido por `parseMemoryScript`.
+ */
+export const formatMemoryScript = (requests: MemoryRequest[]) =>
+  requests
+    .map((request) =>
+      request.kind === 'allocate'
+        ? `${request.name} ${request.size}`
+        : request.kind === 'free'
+        ? `free ${request.name}`
+        : 'compact'
+    )
+    .join('\n');
+
+export interface AddressList {
+  addresses: number[];
+  writes: boolean[]; // Uma indicação por endereço: o acesso é uma escrita?
+}
+
+/**
+ * Lê uma lista de endereços separados por espaços e/ou vírgulas, em
+ * decimal ou em hexadecimal com prefixo `0x` (ex.: "0x1A3F 4660"), todos
+ * menores que `limit`. Como nos traces "R/W endereço", um R ou W antes do
+ * endereço indica leitura ou escrita (ex.: "W 0x1A3F"); sem ele, o acesso
+ * é uma leitura.
+ */
+export function parseAddressList(
+  text: string,
+  label: string,
+  limit: number,
+  t: Translate = translatePt
+): ParseResult<AddressList> {
+  const tokens = text.split(/[\s,;]+/).filter((t) => t !== '');
+  if (tokens.length === 0) {
+    return { ok: false, error: t('input.emptyList', { label }) };
+  }
+  const addresses: number[] = [];
+  const writes: boolean[] = [];
+  let operation: { token: string; index: number } | null = null;
+  for (const [i, token] of tokens.entries()) {
+    if (/^[rRwW]$/.test(token) && operation === null) {
+      operation = { token, index: i + 1 };
+      continue;
+    }
+    if (!/^(\d+|0[xX][0-9a-fA-F]+)$/.test(token)) {
+      return {
+        ok: false,
+        error: t('input.invalidAddress', { token, index: i + 1 }),
+      };
+    }
+    const value = Number(token);
+    if (value >= limit) {
+      return {
+        ok: false,
+        error: t('input.addressOutOfRange', {
+          token,
+          index: i + 1,
+          max: `0x${(limit - 1).toString(16).toUpperCase()}`,
+        }),
+      };
+    }
+    addresses.push(value);
+    writes.push(operation?.token.toLowerCase() === 'w');
+    operation = null;
+  }
+  if (operation !== null) {
+    return { ok: false, error: t('input.missingAddress', operation) };
+  }
+  return { ok: true, value: { addresses, writes } };
+}
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
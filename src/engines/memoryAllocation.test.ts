@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FIT_ALGORITHMS,
+  MemoryRequest,
+  simulateMemoryAllocation,
+  summarizeMemory,
+} from './memoryAllocation';
+
+const allocate = (name: string, size: number): MemoryRequest => ({
+  kind: 'allocate',
+  name,
+  size,
+});
+const free = (name: string): MemoryRequest => ({ kind: 'free', name });
+
+// Deixa buracos de 20, 15 e 30 KB, nessa ordem, com o ponteiro em 65
+const HOLES = [
+  allocate('A', 10),
+  allocate('B', 20),
+  allocate('C', 10),
+  allocate('D', 15),
+  allocate('E', 10),
+  free('B'),
+  free('D'),
+  allocate('F', 12),
+];
+
+// Dois buracos de 30 KB separados por B: 60 KB livres, mas nenhum com 50
+const FRAGMENTED = [
+  allocate('A', 30),
+  allocate('B', 40),
+  allocate('C', 30),
+  free('A'),
+  free('C'),
+  allocate('D', 50),
+];
+
+describe('simulateMemoryAllocation (partições variáveis)', () => {
+  it('cada estratégia escolhe o seu buraco', () => {
+    const placed = FIT_ALGORITHMS.map(
+      (algorithm) =>
+        simulateMemoryAllocation({ algorithm, memorySize: 95 }, HOLES).steps[7]
+          .address
+    );
+    expect(placed).toEqual([10, 40, 65, 65]);
+  });
+
+  it('junta buracos vizinhos ao liberar', () => {
+    const { steps } = simulateMemoryAllocation(
+      { algorithm: 'FIRST_FIT', memorySize: 100 },
+      [allocate('A', 30), allocate('B', 30), free('A'), free('B')]
+    );
+    expect(steps[3].blocks).toEqual([
+      { start: 0, size: 100, owner: null, requested: 0 },
+    ]);
+  });
+
+  it('o Next Fit continua do ponteiro e dá a volta na memória', () => {
+    const { steps } = simulateMemoryAllocation(
+      { algorithm: 'NEXT_FIT', memorySize: 100 },
+      [
+        allocate('A', 20),
+        allocate('B', 20),
+        allocate('C', 50),
+        free('A'),
+        allocate('D', 10),
+        allocate('E', 5),
+      ]
+    );
+    // D vai para o fim (90); depois dele não há buraco, e E volta ao início
+    expect(steps.slice(4).map((step) => [step.address, step.nextFit])).toEqual([
+      [90, 100],
+      [0, 5],
+    ]);
+  });
+
+  it('distingue falta de memória de fragmentação externa', () => {
+    const trace = simulateMemoryAllocation(
+      { algorithm: 'FIRST_FIT', memorySize: 100 },
+      [...FRAGMENTED, allocate('E', 70), free('E')]
+    );
+    expect(trace.steps.map((step) => step.failure).slice(5)).toEqual([
+      'fragmented',
+      'noSpace',
+      null,
+    ]);
+    // Liberar um nome cujo pedido falhou não muda a memória
+    expect(trace.steps[7].address).toBeNull();
+    expect(trace.steps[7].blocks).toBe(trace.steps[6].blocks);
+    expect(summarizeMemory(trace, 6)).toMatchObject({
+      free: 60,
+      holes: 2,
+      largestHole: 30,
+      externalFragmentation: 0.5,
+      failures: 1,
+    });
+  });
+
+  it('compacta sob demanda ou quando a fragmentação impede um pedido', () => {
+    const onFailure = simulateMemoryAllocation(
+      { algorithm: 'BEST_FIT', memorySize: 100, compactOnFailure: true },
+      FRAGMENTED
+    );
+    expect(onFailure.steps[5]).toMatchObject({
+      failure: null,
+      address: 40,
+      moved: 40,
+    });
+    const onCommand = simulateMemoryAllocation(
+      { algorithm: 'BEST_FIT', memorySize: 100 },
+      [...FRAGMENTED.slice(0, 5), { kind: 'compact' }]
+    );
+    expect(onCommand.steps[5].blocks).toEqual([
+      { start: 0, size: 40, owner: 'B', requested: 40 },
+      { start: 40, size: 60, owner: null, requested: 0 },
+    ]);
+  });
+
+  it('rejeita liberar um nome que não está na memória', () => {
+    expect(() =>
+      simulateMemoryAllocation({ algorithm: 'FIRST_FIT', memorySize: 100 }, [
+        allocate('A', 10),
+        free('A'),
+        free('A'),
+      ])
+    ).toThrow(RangeError);
+  });
+});
+
+describe('simulateMemoryAllocation (buddy)', () => {
+  const config = {
+    algorithm: 'BUDDY',
+    memorySize: 1024,
+    minBlock: 32,
+  } as const;
+
+  it('divide e funde os blocos em potências de 2', () => {
+    const trace = simulateMemoryAllocation(config, [
+      allocate('A', 100),
+      allocate('B', 240),
+      allocate('C', 64),
+      allocate('D', 256),
+      free('B'),
+      free('A'),
+      free('C'),
+      free('D'),
+    ]);
+    const { steps } = trace;
+    expect(
+      steps.map((step) => [step.address, step.blockSize, step.splits])
+    ).toEqual([
+      [0, 128, 3],
+      [256, 256, 0],
+      [128, 64, 1],
+      [512, 256, 1],
+      [256, 256, 0],
+      [0, 128, 0],
+      [128, 64, 0],
+      [512, 256, 0],
+    ]);
+    expect(steps.map((step) => step.merges)).toEqual([0, 0, 0, 0, 0, 0, 3, 2]);
+    expect(summarizeMemory(trace, 4).internalFragmentation).toBe(44);
+    expect(steps[7].tree).toMatchObject({ size: 1024, children: null });
+  });
+
+  it('falha quando os blocos livres não são buddies', () => {
+    const { steps } = simulateMemoryAllocation(
+      { algorithm: 'BUDDY', memorySize: 256, minBlock: 16 },
+      [
+        allocate('A', 64),
+        allocate('B', 64),
+        allocate('C', 64),
+        free('B'),
+        allocate('D', 100),
+        allocate('E', 300),
+      ]
+    );
+    expect(steps.slice(4).map((step) => step.failure)).toEqual([
+      'fragmented',
+      'noSpace',
+    ]);
+  });
+
+  it('exige memória e bloco mínimo em potências de 2', () => {
+    expect(() =>
+      simulateMemoryAllocation({ ...config, memorySize: 1000 }, [])
+    ).toThrow(RangeError);
+  });
+});
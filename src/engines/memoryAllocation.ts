@@ -0,0 +1,491 @@
+/**
+ * Motor de simulação da alocação de memória: alocação contígua com
+ * partições variáveis (First, Best, Worst e Next Fit) e o sistema buddy.
+ *
+ * Tamanhos e endereços estão em KB. A memória começa livre e é ocupada e
+ * liberada por um roteiro de pedidos.
+ */
+
+export type AllocationAlgorithm =
+  | 'FIRST_FIT'
+  | 'BEST_FIT'
+  | 'WORST_FIT'
+  | 'NEXT_FIT'
+  | 'BUDDY';
+
+export type FitAlgorithm = Exclude<AllocationAlgorithm, 'BUDDY'>;
+
+export const FIT_ALGORITHMS: readonly FitAlgorithm[] = [
+  'FIRST_FIT',
+  'BEST_FIT',
+  'WORST_FIT',
+  'NEXT_FIT',
+];
+
+export const ALLOCATION_ALGORITHMS: readonly AllocationAlgorithm[] = [
+  ...FIT_ALGORITHMS,
+  'BUDDY',
+];
+
+/**
+ * Um comando do roteiro: alocar `size` KB para `name`, liberar o bloco de
+ * `name` ou compactar a memória.
+ */
+export type MemoryRequest =
+  | { kind: 'allocate'; name: string; size: number }
+  | { kind: 'free'; name: string }
+  | { kind: 'compact' };
+
+/**
+ * Um trecho contíguo da memória. Buracos têm `owner` nulo; no buddy,
+ * `requested` pode ser menor que `size` (fragmentação interna).
+ */
+export interface MemoryBlock {
+  start: number;
+  size: number;
+  owner: string | null;
+  requested: number;
+}
+
+// Nó da árvore do buddy: ou é dividido em dois buddies, ou é uma folha
+export interface BuddyNode {
+  start: number;
+  size: number;
+  owner: string | null;
+  requested: number;
+  children: [BuddyNode, BuddyNode] | null;
+}
+
+/**
+ * Motivo de uma falha de alocação.
+ * - `noSpace`: A memória livre, somada, não basta.
+ * - `fragmented`: Há memória livre suficiente, mas nenhum buraco (ou bloco
+ *   do buddy) grande o bastante: fragmentação externa.
+ */
+export type AllocationFailure = 'noSpace' | 'fragmented';
+
+/**
+ * Resultado de um comando do roteiro.
+ * - `blocks`: A memória depois do passo, em ordem de endereço.
+ * - `address`: Início do bloco alocado ou liberado (nulo se o pedido
+ *   falhou ou se o nome a liberar não chegou a ser alocado).
+ * - `blockSize`: Tamanho desse bloco (no buddy, arredondado).
+ * - `moved`: KB copiados pela compactação neste passo.
+ * - `nextFit`: Ponteiro do Next Fit depois do passo.
+ * - `splits`/`merges`: Divisões e fusões de blocos do buddy.
+ * - `tree`: A árvore do buddy depois do passo.
+ */
+export interface AllocationStep {
+  step: number;
+  request: MemoryRequest;
+  blocks: MemoryBlock[];
+  address: number | null;
+  blockSize: number;
+  failure: AllocationFailure | null;
+  moved: number;
+  nextFit: number;
+  splits: number;
+  merges: number;
+  tree: BuddyNode | null;
+}
+
+export interface MemoryConfig {
+  algorithm: AllocationAlgorithm;
+  memorySize: number;
+  minBlock?: number; // Menor bloco do buddy
+  compactOnFailure?: boolean; // Compacta e tenta de novo quando a fragmentação impede um pedido
+}
+
+export interface AllocationTrace {
+  algorithm: AllocationAlgorithm;
+  memorySize: number;
+  steps: AllocationStep[];
+}
+
+const isPowerOfTwo = (value: number) =>
+  Number.isInteger(value) && value >= 1 && (value & (value - 1)) === 0;
+
+const hole = (start: number, size: number): MemoryBlock => ({
+  start,
+  size,
+  owner: null,
+  requested: 0,
+});
+
+const freeTotal = (blocks: MemoryBlock[]) =>
+  blocks.reduce((sum, block) => (block.owner ? sum : sum + block.size), 0);
+
+const failureFor = (blocks: MemoryBlock[], size: number): AllocationFailure =>
+  freeTotal(blocks) >= size ? 'fragmented' : 'noSpace';
+
+/**
+ * Confere a configuração e o roteiro, lançando RangeError: só se aloca um
+ * nome que não está na memória e só se libera um nome que está.
+ */
+export function validateMemoryScript(
+  { algorithm, memorySize, minBlock = 1 }: MemoryConfig,
+  requests: MemoryRequest[]
+) {
+  if (!Number.isInteger(memorySize) || memorySize < 1) {
+    throw new RangeError('O tamanho da memória deve ser um inteiro positivo.');
+  }
+  if (
+    algorithm === 'BUDDY' &&
+    (!isPowerOfTwo(memorySize) ||
+      !isPowerOfTwo(minBlock) ||
+      minBlock > memorySize)
+  ) {
+    throw new RangeError(
+      'No buddy, a memória e o menor bloco devem ser potências de 2.'
+    );
+  }
+  const active = new Set<string>();
+  for (const request of requests) {
+    if (request.kind === 'allocate') {
+      if (!Number.isInteger(request.size) || request.size < 1) {
+        throw new RangeError('O tamanho do pedido deve ser positivo.');
+      }
+      if (active.has(request.name)) {
+        throw new RangeError(`${request.name} já está alocado.`);
+      }
+      active.add(request.name);
+    } else if (request.kind === 'free') {
+      if (!active.delete(request.name)) {
+        throw new RangeError(`${request.name} não está alocado.`);
+      }
+    }
+  }
+}
+
+/**
+ * Escolhe o buraco que recebe um pedido de `size` KB, devolvendo seu índice
+ * em `blocks` (ou -1). Empates ficam com o menor endereço; o Next Fit
+ * começa a busca no primeiro buraco que termina depois do ponteiro e dá a
+ * volta na memória.
+ */
+function chooseHole(
+  algorithm: FitAlgorithm,
+  blocks: MemoryBlock[],
+  size: number,
+  pointer: number
+): number {
+  const candidates = blocks.flatMap((block, i) =>
+    block.owner === null && block.size >= size ? [i] : []
+  );
+  if (candidates.length === 0) return -1;
+  switch (algorithm) {
+    case 'FIRST_FIT':
+      return candidates[0];
+    case 'BEST_FIT':
+      return candidates.reduce((best, i) =>
+        blocks[i].size < blocks[best].size ? i : best
+      );
+    case 'WORST_FIT':
+      return candidates.reduce((worst, i) =>
+        blocks[i].size > blocks[worst].size ? i : worst
+      );
+    case 'NEXT_FIT':
+      return (
+        candidates.find((i) => blocks[i].start + blocks[i].size > pointer) ??
+        candidates[0]
+      );
+  }
+}
+
+// Junta buracos vizinhos em um só
+const mergeHoles = (blocks: MemoryBlock[]) =>
+  blocks.reduce<MemoryBlock[]>((merged, block) => {
+    const last = merged[merged.length - 1];
+    if (last && last.owner === null && block.owner === null) {
+      merged[merged.length - 1] = hole(last.start, last.size + block.size);
+    } else {
+      merged.push(block);
+    }
+    return merged;
+  }, []);
+
+/**
+ * Compacta a memória: os blocos ocupados deslizam para o início, na mesma
+ * ordem, e toda a memória livre vira um único buraco no fim.
+ */
+function compact(blocks: MemoryBlock[], memorySize: number) {
+  let next = 0;
+  let moved = 0;
+  const used = blocks
+    .filter((block) => block.owner !== null)
+    .map((block) => {
+      if (block.start !== next) moved += block.size;
+      const placed = { ...block, start: next };
+      next += block.size;
+      return placed;
+    });
+  return {
+    blocks: next < memorySize ? [...used, hole(next, memorySize - next)] : used,
+    moved,
+  };
+}
+
+function simulateFit(
+  algorithm: FitAlgorithm,
+  memorySize: number,
+  compactOnFailure: boolean,
+  requests: MemoryRequest[]
+): AllocationStep[] {
+  let blocks = [hole(0, memorySize)];
+  let pointer = 0;
+
+  return requests.map((request, step) => {
+    let address: number | null = null;
+    let blockSize = 0;
+    let failure: AllocationFailure | null = null;
+    let moved = 0;
+
+    if (request.kind === 'allocate') {
+      const { name, size } = request;
+      let index = chooseHole(algorithm, blocks, size, pointer);
+      if (index < 0 && compactOnFailure && freeTotal(blocks) >= size) {
+        ({ blocks, moved } = compact(blocks, memorySize));
+        index = chooseHole(algorithm, blocks, size, pointer);
+      }
+      if (index < 0) {
+        failure = failureFor(blocks, size);
+      } else {
+        const target = blocks[index];
+        address = target.start;
+        blockSize = size;
+        pointer = address + size;
+        blocks = [
+          ...blocks.slice(0, index),
+          { start: address, size, owner: name, requested: size },
+          ...(target.size > size
+            ? [hole(address + size, target.size - size)]
+            : []),
+          ...blocks.slice(index + 1),
+        ];
+      }
+    } else if (request.kind === 'free') {
+      // Se o pedido de alocação falhou, não há o que liberar
+      const released = blocks.find((block) => block.owner === request.name);
+      if (released) {
+        address = released.start;
+        blockSize = released.size;
+        blocks = mergeHoles(
+          blocks.map((block) =>
+            block === released ? hole(block.start, block.size) : block
+          )
+        );
+      }
+    } else {
+      ({ blocks, moved } = compact(blocks, memorySize));
+    }
+
+    return {
+      step,
+      request,
+      blocks,
+      address,
+      blockSize,
+      failure,
+      moved,
+      nextFit: pointer,
+      splits: 0,
+      merges: 0,
+      tree: null,
+    };
+  });
+}
+
+const cloneTree = (node: BuddyNode): BuddyNode => ({
+  ...node,
+  children: node.children && [
+    cloneTree(node.children[0]),
+    cloneTree(node.children[1]),
+  ],
+});
+
+// Folhas da árvore em ordem de endereço, que são os blocos da memória
+const leaves = (node: BuddyNode): BuddyNode[] =>
+  node.children
+    ? [...leaves(node.children[0]), ...leaves(node.children[1])]
+    : [node];
+
+const leafBlocks = (root: BuddyNode): MemoryBlock[] =>
+  leaves(root).map(({ start, size, owner, requested }) => ({
+    start,
+    size,
+    owner,
+    requested,
+  }));
+
+/**
+ * Funde recursivamente os pares de buddies livres, contando as fusões.
+ */
+function coalesce(node: BuddyNode): number {
+  if (!node.children) return 0;
+  const [left, right] = node.children;
+  const merges = coalesce(left) + coalesce(right);
+  if (
+    !left.children &&
+    !right.children &&
+    left.owner === null &&
+    right.owner === null
+  ) {
+    node.children = null;
+    return merges + 1;
+  }
+  return merges;
+}
+
+function simulateBuddy(
+  memorySize: number,
+  minBlock: number,
+  requests: MemoryRequest[]
+): AllocationStep[] {
+  const root: BuddyNode = {
+    start: 0,
+    size: memorySize,
+    owner: null,
+    requested: 0,
+    children: null,
+  };
+
+  return requests.map((request, step) => {
+    let address: number | null = null;
+    let blockSize = 0;
+    let failure: AllocationFailure | null = null;
+    let splits = 0;
+    let merges = 0;
+
+    if (request.kind === 'allocate') {
+      const { name, size } = request;
+      // Menor potência de 2 que comporta o pedido, respeitando o mínimo
+      let wanted = minBlock;
+      while (wanted < size) wanted *= 2;
+      // O menor bloco livre que serve; empates ficam com o menor endereço
+      const fit = leaves(root)
+        .filter((leaf) => leaf.owner === null && leaf.size >= wanted)
+        .reduce<BuddyNode | null>(
+          (best, leaf) => (best && best.size <= leaf.size ? best : leaf),
+          null
+        );
+      if (!fit) {
+        failure =
+          wanted > memorySize
+            ? 'noSpace'
+            : failureFor(leafBlocks(root), wanted);
+      } else {
+        let node = fit;
+        while (node.size > wanted) {
+          const half = node.size / 2;
+          node.children = [
+            {
+              start: node.start,
+              size: half,
+              owner: null,
+              requested: 0,
+              children: null,
+            },
+            {
+              start: node.start + half,
+              size: half,
+              owner: null,
+              requested: 0,
+              children: null,
+            },
+          ];
+          node = node.children[0];
+          splits++;
+        }
+        node.owner = name;
+        node.requested = size;
+        address = node.start;
+        blockSize = node.size;
+      }
+    } else if (request.kind === 'free') {
+      const released = leaves(root).find((leaf) => leaf.owner === request.name);
+      if (released) {
+        released.owner = null;
+        released.requested = 0;
+        address = released.start;
+        blockSize = released.size;
+        merges = coalesce(root);
+      }
+    }
+    // A compactação não se aplica ao buddy: os blocos têm endereços fixos
+
+    return {
+      step,
+      request,
+      blocks: leafBlocks(root),
+      address,
+      blockSize,
+      failure,
+      moved: 0,
+      nextFit: 0,
+      splits,
+      merges,
+      tree: cloneTree(root),
+    };
+  });
+}
+
+/**
+ * Executa o roteiro com o algoritmo escolhido.
+ */
+export function simulateMemoryAllocation(
+  config: MemoryConfig,
+  requests: MemoryRequest[]
+): AllocationTrace {
+  validateMemoryScript(config, requests);
+  const {
+    algorithm,
+    memorySize,
+    minBlock = 1,
+    compactOnFailure = false,
+  } = config;
+  return {
+    algorithm,
+    memorySize,
+    steps:
+      algorithm === 'BUDDY'
+        ? simulateBuddy(memorySize, minBlock, requests)
+        : simulateFit(algorithm, memorySize, compactOnFailure, requests),
+  };
+}
+
+/**
+ * Blocos da memória depois de `stepCount` passos (a memória começa livre).
+ */
+export const blocksAt = (trace: AllocationTrace, stepCount: number) =>
+  stepCount > 0
+    ? trace.steps[stepCount - 1].blocks
+    : [hole(0, trace.memorySize)];
+
+/**
+ * Estatísticas da memória depois dos primeiros `stepCount` passos.
+ * - `utilization`: Fração da memória ocupada por blocos.
+ * - `largestHole`: Maior pedido que ainda pode ser atendido sem compactar.
+ * - `externalFragmentation`: Fração da memória livre fora do maior buraco.
+ * - `internalFragmentation`: KB alocados além do que foi pedido (buddy).
+ */
+export function summarizeMemory(trace: AllocationTrace, stepCount: number) {
+  const blocks = blocksAt(trace, stepCount);
+  const steps = trace.steps.slice(0, stepCount);
+  const free = freeTotal(blocks);
+  const holes = blocks.filter((block) => block.owner === null);
+  const largestHole = Math.max(0, ...holes.map((block) => block.size));
+  return {
+    used: trace.memorySize - free,
+    free,
+    holes: holes.length,
+    largestHole,
+    utilization: (trace.memorySize - free) / trace.memorySize,
+    externalFragmentation: free > 0 ? 1 - largestHole / free : 0,
+    internalFragmentation: blocks.reduce(
+      (sum, block) => (block.owner ? sum + block.size - block.requested : sum),
+      0
+    ),
+    failures: steps.filter((step) => step.failure !== null).length,
+    moved: steps.reduce((sum, step) => sum + step.moved, 0),
+  };
+}
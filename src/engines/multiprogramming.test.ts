@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MultiprogrammingStep,
+  allocateFrames,
+  multiprogrammingCurve,
+  simulateMultiprogramming,
+  summarizeMultiprogramming,
+} from './multiprogramming';
+import { generateProcessReferences } from './workloads';
+
+// P0 alterna entre 2 páginas; P1 percorre 3 páginas em laço
+const REFERENCES = [
+  [0, 1, 0, 1, 0, 1],
+  [5, 6, 7, 5, 6, 7],
+];
+
+const stealsFromOthers = (steps: MultiprogrammingStep[]) =>
+  steps.some((s) => s.victim !== null && s.victim.pid !== s.pid);
+
+describe('allocateFrames', () => {
+  it('divide igualmente e entrega as sobras aos primeiros processos', () => {
+    expect(allocateFrames([1, 1, 1], 10, 'equal')).toEqual([4, 3, 3]);
+  });
+
+  it('divide proporcionalmente ao tamanho dos processos', () => {
+    // Exemplo clássico: processos de 10 e 127 páginas com 62 frames
+    expect(allocateFrames([10, 127], 62, 'proportional')).toEqual([5, 57]);
+    expect(allocateFrames([1, 100], 4, 'proportional')).toEqual([1, 3]);
+  });
+
+  it('exige ao menos um frame por processo', () => {
+    expect(() => allocateFrames([1, 1, 1], 2, 'equal')).toThrow(RangeError);
+  });
+});
+
+describe('simulateMultiprogramming', () => {
+  it('bloqueia o processo durante o fault e deixa a CPU ociosa sem prontos', () => {
+    const trace = simulateMultiprogramming(
+      [
+        [0, 0],
+        [1, 1],
+      ],
+      {
+        frameCount: 2,
+        allocation: 'equal',
+        scope: 'local',
+        faultTime: 2,
+      }
+    );
+    // O disco atende P0 de 1 a 3 e P1 de 3 a 5
+    expect(trace.steps.map((s) => s.time)).toEqual([0, 1, 3, 5]);
+    expect(trace.totalTime).toBe(6);
+    expect(summarizeMultiprogramming(trace).utilization).toBeCloseTo(4 / 6);
+    expect(summarizeMultiprogramming(trace, 2)).toMatchObject({
+      references: 2,
+      faults: 2,
+      time: 2,
+    });
+  });
+
+  it('na substituição local, cada processo só troca as próprias páginas', () => {
+    const trace = simulateMultiprogramming(REFERENCES, {
+      frameCount: 3,
+      allocation: 'equal',
+      scope: 'local',
+      faultTime: 0,
+    });
+    expect(trace.initialQuotas).toEqual([2, 1]);
+    expect(stealsFromOthers(trace.steps)).toBe(false);
+    const last = trace.steps[trace.steps.length - 1];
+    // P0 cabe na cota; P1, com um só frame, falha em toda referência
+    expect(last.processes.map((p) => p.faults)).toEqual([2, 6]);
+  });
+
+  it('na substituição global, um processo pode tomar frames de outro', () => {
+    const trace = simulateMultiprogramming(REFERENCES, {
+      frameCount: 3,
+      allocation: 'equal',
+      scope: 'global',
+      faultTime: 0,
+    });
+    expect(stealsFromOthers(trace.steps)).toBe(true);
+    expect(trace.steps[3].victim).toEqual({ pid: 0, page: 0 });
+    expect(trace.steps[0].processes[0].quota).toBeNull();
+  });
+
+  it('o conjunto de trabalho suspende um processo quando a demanda passa da memória', () => {
+    const trace = simulateMultiprogramming(
+      [
+        [0, 1, 2, 0, 1, 2, 0, 1, 2],
+        [3, 4, 5, 3, 4, 5, 3, 4, 5],
+      ],
+      {
+        frameCount: 4,
+        allocation: 'equal',
+        scope: 'global',
+        controller: 'workingSet',
+        window: 3,
+        faultTime: 1,
+      }
+    );
+    expect(trace.scope).toBe('local');
+    const suspendedAt = trace.steps.findIndex((s) => s.suspended.length > 0);
+    expect(trace.steps[suspendedAt].suspended).toEqual([1]);
+    expect(trace.steps[suspendedAt].processes[0].quota).toBe(3);
+    // P1 só volta depois que P0 termina e devolve os frames
+    const resumedAt = trace.steps.findIndex((s) => s.resumed.includes(1));
+    expect(trace.steps[resumedAt - 1].processes[0].status).toBe('finished');
+    expect(trace.steps.length).toBe(18);
+  });
+
+  it('o PFF tira frames de quem quase não falha e dá a quem falha muito', () => {
+    const trace = simulateMultiprogramming(
+      [
+        [9, 9, 9, 9, 9, 9],
+        [0, 1, 2, 3, 4, 0, 1, 2, 3, 4],
+      ],
+      {
+        frameCount: 8,
+        allocation: 'equal',
+        scope: 'local',
+        controller: 'pff',
+        window: 4,
+        pffLower: 0.3,
+        pffUpper: 0.6,
+        faultTime: 0,
+      }
+    );
+    const quotas = trace.steps.map((s) => s.processes.map((p) => p.quota));
+    expect(quotas[0]).toEqual([4, 4]);
+    // Após 4 referências, P0 (1 fault) cede um frame e P1 (4 faults) o recebe
+    expect(quotas[6]).toEqual([3, 4]);
+    expect(quotas[7]).toEqual([3, 5]);
+    expect(trace.steps.every((s) => s.suspended.length === 0)).toBe(true);
+  });
+
+  it('rejeita processos sem referências', () => {
+    expect(() =>
+      simulateMultiprogramming([[0], []], {
+        frameCount: 2,
+        allocation: 'equal',
+        scope: 'local',
+      })
+    ).toThrow(RangeError);
+  });
+});
+
+describe('multiprogrammingCurve', () => {
+  it('mostra a utilização da CPU caindo quando começa o thrashing', () => {
+    const references = generateProcessReferences(8, 1);
+    const curve = multiprogrammingCurve(references, {
+      frameCount: 16,
+      allocation: 'equal',
+      scope: 'global',
+      faultTime: 5,
+    });
+    expect(curve.map((p) => p.degree)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    const utilization = curve.map((p) => p.utilization);
+    const peak = utilization.indexOf(Math.max(...utilization));
+    expect(peak).toBeGreaterThan(0);
+    expect(utilization[7]).toBeLessThan(utilization[peak] * 0.7);
+    expect(curve[7].faultRate).toBeGreaterThan(curve[peak].faultRate);
+  });
+});
@@ -0,0 +1,476 @@
+/**
+ * Motor de simulação de vários processos que compartilham a memória física.
+ *
+ * Cada processo tem sua própria sequência de referências. Os processos se
+ * revezam na CPU em round robin, uma referência por vez (1 tick cada), e um
+ * page fault bloqueia o processo enquanto o disco carrega a página; o disco
+ * atende um fault de cada vez, por ordem de chegada. Assim o mesmo trace
+ * mostra a divisão dos frames e a utilização da CPU, e deixa ver o
+ * thrashing: com processos demais, a CPU fica ociosa esperando o disco.
+ *
+ * A substituição é sempre LRU; o escopo decide entre quais páginas a
+ * vítima é escolhida.
+ */
+
+export type FrameAllocation = 'equal' | 'proportional';
+
+export const FRAME_ALLOCATIONS: readonly FrameAllocation[] = [
+  'equal',
+  'proportional',
+];
+
+export type ReplacementScope = 'global' | 'local';
+
+export const REPLACEMENT_SCOPES: readonly ReplacementScope[] = [
+  'global',
+  'local',
+];
+
+export type MemoryController = 'none' | 'workingSet' | 'pff';
+
+export const MEMORY_CONTROLLERS: readonly MemoryController[] = [
+  'none',
+  'workingSet',
+  'pff',
+];
+
+/**
+ * Configuração da simulação.
+ * - `controller`: Controle de carga. O conjunto de trabalho e o PFF ajustam
+ *   a cota de cada processo e suspendem processos quando falta memória;
+ *   com eles, a substituição é sempre local.
+ * - `sizes`: Tamanho de cada processo, em páginas, usado na alocação
+ *   proporcional. Padrão: maior página referenciada + 1.
+ * - `faultTime`: Ticks que o disco leva para atender um page fault. Padrão: 10.
+ * - `window`: Janela Δ do conjunto de trabalho, e janela em que o PFF mede
+ *   a taxa de faults, em referências do processo. Padrão: 10.
+ * - `pffLower` / `pffUpper`: Limites da taxa de faults do PFF (0 a 1).
+ *   Padrão: 0,1 e 0,4.
+ */
+export interface MultiprogrammingConfig {
+  frameCount: number;
+  allocation: FrameAllocation;
+  scope: ReplacementScope;
+  controller?: MemoryController;
+  sizes?: number[];
+  faultTime?: number;
+  window?: number;
+  pffLower?: number;
+  pffUpper?: number;
+}
+
+// Frame ocupado: processo dono, página e passo do último acesso (LRU)
+export interface PoolFrame {
+  pid: number;
+  page: number;
+  lastUsedAt: number;
+}
+
+export type ProcessStatus = 'ready' | 'blocked' | 'suspended' | 'finished';
+
+/**
+ * Situação de um processo ao final de um passo.
+ * - `executed`: Referências já executadas.
+ * - `resident`: Frames ocupados pelo processo.
+ * - `quota`: Frames a que o processo tem direito (`null` na substituição
+ *   global, em que um processo pode tomar frames dos outros).
+ */
+export interface ProcessState {
+  status: ProcessStatus;
+  executed: number;
+  faults: number;
+  resident: number;
+  quota: number | null;
+}
+
+/**
+ * Resultado de um passo: a execução de uma referência.
+ * - `time`: Tick em que a referência executa.
+ * - `frameIndex`: Frame acessado (hit) ou que recebeu a página (fault).
+ * - `victim`: Página removida para abrir espaço, com o processo dono.
+ * - `released`: Frames devolvidos ao pool pelo controle de carga.
+ * - `resumed`: Processos retomados antes do passo.
+ * - `suspended`: Processos suspensos ao final do passo.
+ */
+export interface MultiprogrammingStep {
+  step: number;
+  time: number;
+  pid: number;
+  page: number;
+  isFault: boolean;
+  frameIndex: number;
+  victim: { pid: number; page: number } | null;
+  frames: (PoolFrame | null)[];
+  processes: ProcessState[];
+  released: number;
+  resumed: number[];
+  suspended: number[];
+}
+
+export interface MultiprogrammingTrace {
+  frameCount: number;
+  allocation: FrameAllocation;
+  scope: ReplacementScope; // Escopo efetivo (local quando há controle de carga)
+  controller: MemoryController;
+  faultTime: number;
+  references: number[][];
+  initialQuotas: number[];
+  steps: MultiprogrammingStep[];
+  busyTime: number; // Ticks com a CPU executando referências
+  totalTime: number; // Tick em que o último processo termina
+}
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+// Tamanho padrão de um processo, em páginas: maior página referenciada + 1
+export const processSize = (references: number[]) =>
+  Math.max(...references) + 1;
+
+/**
+ * Divide os frames entre os processos. Na alocação igual, cada um recebe
+ * m / n frames; na proporcional, s_i / S × m. Todo processo recebe ao menos
+ * um frame, e as sobras vão para as maiores partes fracionárias.
+ */
+export function allocateFrames(
+  sizes: number[],
+  frameCount: number,
+  allocation: FrameAllocation
+): number[] {
+  if (sizes.some((s) => !Number.isInteger(s) || s < 1)) {
+    throw new RangeError('O tamanho de cada processo deve ser positivo.');
+  }
+  if (!Number.isInteger(frameCount) || frameCount < sizes.length) {
+    throw new RangeError('É preciso ao menos um frame por processo.');
+  }
+
+  const total = sum(sizes);
+  const shares = sizes.map((size) =>
+    allocation === 'equal'
+      ? frameCount / sizes.length
+      : (size / total) * frameCount
+  );
+  const quotas = shares.map((share) => Math.max(1, Math.floor(share)));
+  // Garantir um frame por processo pode passar do total: tira dos maiores
+  while (sum(quotas) > frameCount) {
+    quotas[quotas.indexOf(Math.max(...quotas))]--;
+  }
+  const byFraction = shares
+    .map((_, i) => i)
+    .sort((a, b) => shares[b] - quotas[b] - (shares[a] - quotas[a]) || a - b);
+  for (let k = 0; sum(quotas) < frameCount; k++) {
+    quotas[byFraction[k % byFraction.length]]++;
+  }
+  return quotas;
+}
+
+/**
+ * Executa a simulação completa. Um processo que termina devolve seus
+ * frames; com controle de carga, processos suspensos são retomados, do
+ * menor para o maior número, assim que sua cota cabe de novo na memória.
+ */
+export function simulateMultiprogramming(
+  references: number[][],
+  {
+    frameCount,
+    allocation,
+    scope,
+    controller = 'none',
+    sizes = references.map(processSize),
+    faultTime = 10,
+    window = 10,
+    pffLower = 0.1,
+    pffUpper = 0.4,
+  }: MultiprogrammingConfig
+): MultiprogrammingTrace {
+  if (references.length === 0 || references.some((r) => r.length === 0)) {
+    throw new RangeError('Cada processo precisa de ao menos uma referência.');
+  }
+  if (sizes.length !== references.length) {
+    throw new RangeError('Deve haver um tamanho para cada processo.');
+  }
+  if (!Number.isInteger(faultTime) || faultTime < 0) {
+    throw new RangeError('O tempo de fault deve ser um inteiro não negativo.');
+  }
+  if (!Number.isInteger(window) || window < 1) {
+    throw new RangeError('A janela deve ser um inteiro positivo.');
+  }
+  if (!(pffLower >= 0 && pffLower <= pffUpper && pffUpper <= 1)) {
+    throw new RangeError(
+      'Os limites do PFF devem satisfazer 0 ≤ inferior ≤ superior ≤ 1.'
+    );
+  }
+
+  const quotas = allocateFrames(sizes, frameCount, allocation);
+  const initialQuotas = [...quotas];
+  const local = scope === 'local' || controller !== 'none';
+  const frames: (PoolFrame | null)[] = Array(frameCount).fill(null);
+  const processes = references.map(() => ({
+    status: 'ready' as ProcessStatus,
+    executed: 0,
+    faults: 0,
+    readyAt: 0,
+    pages: [] as number[], // Páginas referenciadas, em ordem
+    faultFlags: [] as boolean[], // Quais dessas referências foram faults
+    measuredFrom: 0, // Início da medição do PFF (reinicia a cada ajuste)
+  }));
+  const ready = references.map((_, pid) => pid); // Fila de prontos
+  const steps: MultiprogrammingStep[] = [];
+  let time = 0;
+  let totalTime = 0;
+  let diskFreeAt = 0;
+  let resumed: number[] = [];
+
+  const isActive = (pid: number) =>
+    ['ready', 'blocked'].includes(processes[pid].status);
+  const resident = (pid: number) => frames.filter((f) => f?.pid === pid).length;
+  // Frames ainda não prometidos a nenhum processo ativo
+  const spare = () =>
+    frameCount - sum(quotas.filter((_, pid) => isActive(pid)));
+  // Frame menos recentemente usado entre os que satisfazem `accept`
+  const lruIndex = (accept: (frame: PoolFrame) => boolean) =>
+    frames.reduce<number>((best, f, i) => {
+      if (!f || !accept(f)) return best;
+      return best === -1 || f.lastUsedAt < frames[best]!.lastUsedAt ? i : best;
+    }, -1);
+  const freeFramesOf = (pid: number) =>
+    frames.forEach((f, i) => {
+      if (f?.pid === pid) frames[i] = null;
+    });
+
+  const finish = (pid: number, at: number) => {
+    processes[pid].status = 'finished';
+    quotas[pid] = 0;
+    freeFramesOf(pid);
+    totalTime = Math.max(totalTime, at);
+  };
+
+  // Suspende o processo ativo de maior número (exceto `except`)
+  const suspendOne = (except: number): number | null => {
+    const candidates = processes
+      .map((_, pid) => pid)
+      .filter((pid) => pid !== except && isActive(pid));
+    if (candidates.length === 0) return null;
+    const pid = candidates[candidates.length - 1];
+    processes[pid].status = 'suspended';
+    const queued = ready.indexOf(pid);
+    if (queued !== -1) ready.splice(queued, 1);
+    freeFramesOf(pid);
+    return pid;
+  };
+
+  // Frame que recebe a página de `pid` em um page fault
+  const chooseFrame = (pid: number) => {
+    const free = frames.indexOf(null);
+    if (local) {
+      if (free !== -1 && resident(pid) < quotas[pid]) return free;
+      if (resident(pid) > 0) return lruIndex((f) => f.pid === pid);
+    }
+    return free !== -1 ? free : lruIndex(() => true);
+  };
+
+  while (processes.some((p) => p.status !== 'finished')) {
+    // Faults atendidos até agora devolvem os processos à fila de prontos
+    processes
+      .map((p, pid) => ({ ...p, pid }))
+      .filter((p) => p.status === 'blocked' && p.readyAt <= time)
+      .sort((a, b) => a.readyAt - b.readyAt || a.pid - b.pid)
+      .forEach(({ pid, readyAt }) => {
+        if (processes[pid].executed === references[pid].length) {
+          finish(pid, readyAt);
+        } else {
+          processes[pid].status = 'ready';
+          ready.push(pid);
+        }
+      });
+
+    // Retoma processos suspensos cuja cota voltou a caber na memória
+    for (const [pid, p] of processes.entries()) {
+      if (p.status !== 'suspended') continue;
+      const noneActive = !processes.some((_, other) => isActive(other));
+      if (!noneActive && quotas[pid] > spare()) break;
+      p.status = 'ready';
+      p.measuredFrom = p.faultFlags.length;
+      ready.push(pid);
+      resumed.push(pid);
+    }
+
+    if (ready.length === 0) {
+      // CPU ociosa até o próximo fault ser atendido
+      const blocked = processes.filter((p) => p.status === 'blocked');
+      if (blocked.length > 0) {
+        time = Math.max(time, Math.min(...blocked.map((p) => p.readyAt)));
+      }
+      continue;
+    }
+
+    const pid = ready.shift()!;
+    const process = processes[pid];
+    const page = references[pid][process.executed];
+    const step = steps.length;
+    let frameIndex = frames.findIndex((f) => f?.pid === pid && f.page === page);
+    const isFault = frameIndex === -1;
+    let victim: MultiprogrammingStep['victim'] = null;
+
+    if (isFault) {
+      frameIndex = chooseFrame(pid);
+      const old = frames[frameIndex];
+      if (old) victim = { pid: old.pid, page: old.page };
+      process.faults++;
+      // O disco atende um fault por vez, na ordem em que chegam
+      diskFreeAt = Math.max(time + 1, diskFreeAt) + faultTime;
+      process.readyAt = diskFreeAt;
+      process.status = 'blocked';
+    }
+    frames[frameIndex] = { pid, page, lastUsedAt: step };
+    process.executed++;
+    process.pages.push(page);
+    process.faultFlags.push(isFault);
+    if (!isFault) {
+      if (process.executed === references[pid].length) {
+        finish(pid, time + 1);
+      } else {
+        ready.push(pid);
+      }
+    }
+
+    let released = 0;
+    const suspended: number[] = [];
+    if (process.status !== 'finished' && controller === 'workingSet') {
+      // A cota passa a ser o conjunto de trabalho: páginas fora dele saem
+      const workingSet = new Set(process.pages.slice(-window));
+      quotas[pid] = workingSet.size;
+      frames.forEach((f, i) => {
+        if (f?.pid === pid && !workingSet.has(f.page)) {
+          frames[i] = null;
+          released++;
+        }
+      });
+      // Demanda maior que a memória: suspende processos até caber
+      while (spare() < 0) {
+        const target = suspendOne(pid);
+        if (target === null) break;
+        suspended.push(target);
+      }
+    }
+    const measured = process.faultFlags.slice(process.measuredFrom);
+    if (
+      process.status !== 'finished' &&
+      controller === 'pff' &&
+      measured.length >= window
+    ) {
+      const rate = measured.slice(-window).filter(Boolean).length / window;
+      if (rate > pffUpper) {
+        // Faults demais: ganha um frame, suspendendo outro processo se preciso
+        if (spare() <= 0) {
+          const target = suspendOne(pid);
+          if (target !== null) suspended.push(target);
+        }
+        if (spare() > 0) quotas[pid]++;
+        process.measuredFrom = process.faultFlags.length;
+      } else if (rate < pffLower && quotas[pid] > 1) {
+        // Poucos faults: devolve um frame, removendo a página LRU
+        quotas[pid]--;
+        if (resident(pid) > quotas[pid]) {
+          frames[lruIndex((f) => f.pid === pid)] = null;
+          released++;
+        }
+        process.measuredFrom = process.faultFlags.length;
+      }
+    }
+
+    steps.push({
+      step,
+      time,
+      pid,
+      page,
+      isFault,
+      frameIndex,
+      victim,
+      frames: [...frames],
+      processes: processes.map((p, other) => ({
+        status: p.status,
+        executed: p.executed,
+        faults: p.faults,
+        resident: resident(other),
+        quota: local ? quotas[other] : null,
+      })),
+      released,
+      resumed,
+      suspended,
+    });
+    resumed = [];
+    time++;
+  }
+
+  return {
+    frameCount,
+    allocation,
+    scope: local ? 'local' : 'global',
+    controller,
+    faultTime,
+    references: references.map((r) => [...r]),
+    initialQuotas,
+    steps,
+    busyTime: steps.length,
+    totalTime: Math.max(totalTime, time),
+  };
+}
+
+export interface MultiprogrammingSummary {
+  references: number; // Referências executadas
+  faults: number;
+  faultRate: number; // Fração das referências que causaram page fault (0 a 1)
+  time: number; // Ticks decorridos
+  utilization: number; // Fração do tempo com a CPU ocupada (0 a 1)
+}
+
+/**
+ * Resume os primeiros `stepCount` passos do trace (padrão: todos).
+ */
+export function summarizeMultiprogramming(
+  trace: MultiprogrammingTrace,
+  stepCount = trace.steps.length
+): MultiprogrammingSummary {
+  const steps = trace.steps.slice(0, stepCount);
+  const faults = steps.filter((s) => s.isFault).length;
+  const time =
+    stepCount >= trace.steps.length
+      ? trace.totalTime
+      : steps.length > 0
+      ? steps[steps.length - 1].time + 1
+      : 0;
+  return {
+    references: steps.length,
+    faults,
+    faultRate: steps.length === 0 ? 0 : faults / steps.length,
+    time,
+    utilization: time === 0 ? 0 : steps.length / time,
+  };
+}
+
+export interface MultiprogrammingPoint {
+  degree: number; // Grau de multiprogramação: processos na memória
+  utilization: number;
+  faultRate: number;
+}
+
+/**
+ * Utilização da CPU por grau de multiprogramação: executa os primeiros 1,
+ * 2, ..., n processos com a mesma memória. A curva sobe enquanto há frames
+ * para todos e despenca quando começa o thrashing.
+ */
+export function multiprogrammingCurve(
+  references: number[][],
+  config: MultiprogrammingConfig
+): MultiprogrammingPoint[] {
+  const maxDegree = Math.min(references.length, config.frameCount);
+  return Array.from({ length: maxDegree }, (_, i) => {
+    const degree = i + 1;
+    const trace = simulateMultiprogramming(references.slice(0, degree), {
+      ...config,
+      sizes: config.sizes?.slice(0, degree),
+    });
+    const { utilization, faultRate } = summarizeMultiprogramming(trace);
+    return { degree, utilization, faultRate };
+  });
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { simulateDiskScheduling } from './diskScheduling';
+import { simulateAddressTranslation } from './addressTranslation';
+import {
+  describeAllocationStep,
+  describeDiskService,
+  describeCpuTick,
+  describeMultiprogrammingStep,
+  describePageStep,
+  describeSafetyStep,
+  describeTranslationStep,
+} from './narration';
+import { simulateCpuScheduling } from './cpuScheduling';
+import { checkSafety } from './deadlock';
+import { simulateMemoryAllocation } from './memoryAllocation';
+import { simulateMultiprogramming } from './multiprogramming';
+import { simulatePageReplacement } from './pageReplacement';
+import { diskQuestions } from './quiz';
+
+describe('describePageStep', () => {
+  it('cita a vítima escolhida pelo algoritmo', () => {
+    const { steps } = simulatePageReplacement([1, 2, 3], {
+      algorithm: 'LRU',
+      frameCount: 2,
+    });
+    expect(describePageStep('LRU', steps[2])).toContain(
+      'não foi acessada há mais tempo (1)'
+    );
+  });
+});
+
+describe('describeDiskService', () => {
+  it('explica a ida até a borda antes do atendimento', () => {
+    const trace = simulateDiskScheduling([150, 20], {
+      algorithm: 'SCAN',
+      diskSize: 200,
+      initialHead: 100,
+      direction: 'up',
+    });
+    const [, second] = diskQuestions(trace);
+    const text = describeDiskService('SCAN', second.moves, trace.requests);
+    expect(text).toContain('borda (cilindro 199)');
+    expect(text).toContain('cilindro 20');
+  });
+});
+
+describe('describeTranslationStep', () => {
+  it('explica o TLB miss, o page fault e o endereço físico', () => {
+    const trace = simulateAddressTranslation([0x0123, 0x0204, 0x0305], {
+      addressBits: 16,
+      pageSize: 256,
+      tlbSize: 1,
+      tlbPolicy: 'FIFO',
+      algorithm: 'LRU',
+      frameCount: 2,
+    });
+    const text = describeTranslationStep(trace, trace.steps[2]);
+    expect(text).toContain('página 3 e deslocamento 0x05');
+    expect(text).toContain('o LRU remove a página 1');
+    expect(text).toContain('Endereço físico: 0x005.');
+  });
+});
+
+describe('describeMultiprogrammingStep', () => {
+  it('explica a ociosidade da CPU e a vítima tomada de outro processo', () => {
+    const trace = simulateMultiprogramming(
+      [
+        [0, 0, 1],
+        [5, 5],
+      ],
+      { frameCount: 2, allocation: 'equal', scope: 'global', faultTime: 3 }
+    );
+    expect(describeMultiprogrammingStep(trace, trace.steps[2])).toContain(
+      'ociosa por 2 ticks'
+    );
+    expect(describeMultiprogrammingStep(trace, trace.steps[3])).toContain(
+      'O LRU global remove a página 5 de P1'
+    );
+  });
+});
+
+describe('describeCpuTick', () => {
+  it('explica a preempção do SRTF e o rebaixamento no MLFQ', () => {
+    const processes = [
+      { arrival: 0, burst: 6, priority: 0 },
+      { arrival: 1, burst: 2, priority: 0 },
+    ];
+    const srtf = simulateCpuScheduling(processes, { algorithm: 'SRTF' });
+    expect(describeCpuTick(srtf, srtf.ticks[1])).toBe(
+      'P1 chega à fila de prontos. P0 é interrompido: P1 tem menos tempo restante. P1 assume a CPU: tem o menor tempo restante (2).'
+    );
+    const mlfq = simulateCpuScheduling(processes, {
+      algorithm: 'MLFQ',
+      mlfqQuanta: [1],
+    });
+    expect(describeCpuTick(mlfq, mlfq.ticks[1])).toContain(
+      'P0 esgotou o quantum e desce para o nível 1.'
+    );
+  });
+});
+
+describe('describeSafetyStep', () => {
+  it('compara Need com Work e mostra o Work depois da devolução', () => {
+    const { steps } = checkSafety({
+      available: [1, 1],
+      max: [
+        [3, 1],
+        [1, 1],
+      ],
+      allocation: [
+        [1, 0],
+        [0, 1],
+      ],
+    });
+    expect(describeSafetyStep(steps[0])).toBe(
+      'P0: Need (2, 1) não cabe em Work (1, 1); P0 fica para a próxima passada.'
+    );
+    expect(describeSafetyStep(steps[1])).toBe(
+      'P1: Need (1, 0) ≤ Work (1, 1). P1 pode terminar e devolver o que tem: Work passa a (1, 2).'
+    );
+  });
+});
+
+describe('describeAllocationStep', () => {
+  it('explica a compactação antes da alocação e a divisão no buddy', () => {
+    const script = [
+      { kind: 'allocate', name: 'A', size: 30 },
+      { kind: 'allocate', name: 'B', size: 40 },
+      { kind: 'free', name: 'A' },
+      { kind: 'allocate', name: 'C', size: 50 },
+    ] as const;
+    const fit = simulateMemoryAllocation(
+      { algorithm: 'FIRST_FIT', memorySize: 100, compactOnFailure: true },
+      [...script]
+    );
+    expect(describeAllocationStep('FIRST_FIT', fit.steps[3])).toBe(
+      'Nenhum buraco comporta C, mas há memória livre suficiente: a memória é compactada antes (40 KB copiados). C (50 KB) vai para o endereço 40: é o primeiro buraco em que cabe.'
+    );
+    const buddy = simulateMemoryAllocation(
+      { algorithm: 'BUDDY', memorySize: 128, minBlock: 8 },
+      [...script]
+    );
+    expect(describeAllocationStep('BUDDY', buddy.steps[0])).toBe(
+      'A pede 30 KB e recebe um bloco de 32 KB no endereço 0 (2 KB de fragmentação interna). Para isso, um bloco de 128 KB é dividido 2 vez(es).'
+    );
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * Narrações que explicam cada passo das simulações, usadas na reprodução
+ * e como feedback no modo de exercício.
+ */
+
+import {
+  TranslationStep,
+  TranslationTrace,
+  formatAddress,
+} from './addressTranslation';
+import { CpuTick, CpuTrace } from './cpuScheduling';
+import { ReductionStep, SafetyStep, formatVector } from './deadlock';
+import { DiskAlgorithm, DiskStep } from './diskScheduling';
+import { AllocationAlgorithm, AllocationStep } from './memoryAllocation';
+import {
+  MultiprogrammingStep,
+  MultiprogrammingTrace,
+} from './multiprogramming';
+import { PageAlgorithm, PageStep } from './pageReplacement';
+import { Translate, translatePt } from '../i18n/translate';
+
+/**
+ * Explica o que aconteceu em um passo da substituição de páginas, incluindo
+ * a gravação da vítima modificada e a escrita na página referenciada.
+ */
+export function describePageStep(
+  algorithm: PageAlgorithm,
+  step: PageStep,
+  t: Translate = translatePt
+): string {
+  const { page, victim, isWrite, writeBack } = step;
+  const notes = [
+    writeBack ? t('narration.page.writeBack', { victim: victim! }) : '',
+    isWrite ? t('narration.page.write', { page }) : '',
+  ];
+  return describePageEvent(algorithm, step, t) + notes.join('');
+}
+
+// Explicação principal do passo: fault, substituição ou hit
+function describePageEvent(
+  algorithm: PageAlgorithm,
+  { step, page, isFault, victim, bitsReset }: PageStep,
+  t: Translate
+): string {
+  const clockTick = bitsReset ? t('narration.page.clockTick') : '';
+
+  if (step === 0) {
+    return t('narration.page.start', { algorithm, page });
+  }
+
+  if (isFault && victim === null) {
+    return t('narration.page.freeFrame', { page });
+  }
+
+  if (isFault) {
+    const intro = t('narration.page.memoryFull', { page });
+    const reason = t(`narration.page.victim.${algorithm}`, {
+      victim: victim!,
+    });
+    // Só o NRU tem interrupções de relógio que zeram os bits
+    return `${intro} ${reason}${algorithm === 'NRU' ? clockTick : ''}`;
+  }
+
+  switch (algorithm) {
+    case 'FIFO':
+    case 'LRU':
+    case 'OPT':
+      return t(`narration.page.hit.${algorithm}`, { page });
+    case 'CLOCK':
+    case 'ESC':
+    case 'NRU':
+      return t('narration.page.hit.referenceBit', { page }) + clockTick;
+    case 'LFU':
+    case 'MFU':
+      return t('narration.page.hit.frequency', { page });
+  }
+}
+
+/**
+ * Explica por que o cabeçote atende a próxima requisição. `moves` são os
+ * movimentos desde o último atendimento, terminando no atendimento (antes
+ * dele podem vir deslocamentos até a borda e retornos).
+ */
+export function describeDiskService(
+  algorithm: DiskAlgorithm,
+  moves: DiskStep[],
+  requests: number[],
+  t: Translate = translatePt
+): string {
+  const service = moves[moves.length - 1];
+  const cylinder = requests[service.requestIndex!];
+  const distance = service.distance;
+  const sense = t(service.direction === 'up' ? 'common.up' : 'common.down');
+  const detours = moves
+    .slice(0, -1)
+    .map((move) =>
+      t(
+        move.isReturn ? 'narration.disk.returnMove' : 'narration.disk.edgeMove',
+        { cylinder: move.to }
+      )
+    );
+  // No C-LOOK o próprio retorno leva à requisição atendida
+  if (service.isReturn) {
+    detours.push(t('narration.disk.jump'));
+  }
+  const prefix = detours.length > 0 ? `${detours.join(' ')} ` : '';
+
+  switch (algorithm) {
+    case 'FCFS':
+    case 'SSTF':
+    case 'SPTF':
+      return prefix + t(`narration.disk.${algorithm}`, { cylinder, distance });
+    case 'N-STEP-SCAN':
+    case 'FSCAN':
+      return (
+        prefix +
+        t('narration.disk.batch', {
+          algorithm,
+          batch: service.batch + 1,
+          sense,
+          cylinder,
+          distance,
+        })
+      );
+    default:
+      return (
+        prefix +
+        t('narration.disk.sweep', { algorithm, sense, cylinder, distance })
+      );
+  }
+}
+
+/**
+ * Explica a tradução de um endereço: divisão em página e deslocamento,
+ * consulta à TLB, à tabela de páginas e, se preciso, o page fault.
+ */
+export function describeTranslationStep(
+  {
+    addressBits,
+    offsetBits,
+    physicalBits,
+    tlbPolicy,
+    pageTrace,
+  }: TranslationTrace,
+  {
+    address,
+    page,
+    offset,
+    tlbHit,
+    tlbVictim,
+    tlbInvalidated,
+    pageFault,
+    pageStep,
+    frame,
+    physicalAddress,
+  }: TranslationStep,
+  t: Translate = translatePt
+): string {
+  const parts = [
+    t('narration.translation.split', {
+      address: formatAddress(address, addressBits),
+      page,
+      offset: formatAddress(offset, offsetBits),
+    }),
+  ];
+  if (tlbHit) {
+    parts.push(t('narration.translation.tlbHit', { page, frame }));
+  } else {
+    parts.push(t('narration.translation.tlbMiss', { page }));
+    if (!pageFault) {
+      parts.push(t('narration.translation.tableHit', { frame }));
+    } else if (pageStep.victim === null) {
+      parts.push(t('narration.translation.freeFrame', { page, frame }));
+    } else {
+      parts.push(
+        t('narration.translation.replacement', {
+          algorithm: pageTrace.algorithm,
+          victim: pageStep.victim,
+          page,
+          frame,
+        })
+      );
+    }
+    if (tlbInvalidated !== null) {
+      parts.push(
+        t('narration.translation.tlbInvalidated', { page: tlbInvalidated })
+      );
+    }
+    if (tlbVictim !== null) {
+      parts.push(
+        t('narration.translation.tlbVictim', {
+          policy: tlbPolicy,
+          page: tlbVictim,
+        })
+      );
+    }
+  }
+  parts.push(
+    t('narration.translation.physical', {
+      address: formatAddress(physicalAddress, physicalBits),
+    })
+  );
+  return parts.join(' ');
+}
+
+/**
+ * Explica um passo da simulação com vários processos: a ociosidade da CPU
+ * antes dele, os processos retomados, a referência executada e a reação
+ * do controle de carga.
+ */
+export function describeMultiprogrammingStep(
+  trace: MultiprogrammingTrace,
+  step: MultiprogrammingStep,
+  t: Translate = translatePt
+): string {
+  const { pid, page, isFault, frameIndex: frame, victim } = step;
+  const process = `P${pid}`;
+  const previous = trace.steps[step.step - 1];
+  const idle = step.time - (previous ? previous.time + 1 : 0);
+  const parts = [
+    idle > 0 ? t('narration.multi.idle', { ticks: idle }) : '',
+    ...step.resumed.map((other) =>
+      t('narration.multi.resumed', { process: `P${other}` })
+    ),
+  ];
+  if (!isFault) {
+    parts.push(t('narration.multi.hit', { process, page, frame }));
+  } else if (victim === null) {
+    parts.push(t('narration.multi.freeFrame', { process, page, frame }));
+  } else if (victim.pid === pid) {
+    parts.push(
+      t('narration.multi.ownVictim', {
+        process,
+        page,
+        victim: victim.page,
+        frame,
+      })
+    );
+  } else {
+    parts.push(
+      t('narration.multi.otherVictim', {
+        process,
+        page,
+        victim: victim.page,
+        owner: `P${victim.pid}`,
+        frame,
+      })
+    );
+  }
+  const finished = step.processes[pid].status === 'finished';
+  if (isFault && !finished) {
+    parts.push(t('narration.multi.blocked', { process }));
+  }
+  if (step.released > 0) {
+    parts.push(
+      t('narration.multi.released', { count: step.released, process })
+    );
+  }
+  parts.push(
+    ...step.suspended.map((other) =>
+      t('narration.multi.suspended', { process: `P${other}` })
+    )
+  );
+  if (finished) parts.push(t('narration.multi.finished', { process }));
+  return parts.filter(Boolean).join(' ');
+}
+
+/**
+ * Explica um instante do escalonamento de CPU: chegadas, a retirada do
+ * processo anterior, a escolha de quem assume a CPU e o término.
+ */
+export function describeCpuTick(
+  trace: CpuTrace,
+  tick: CpuTick,
+  t: Translate = translatePt
+): string {
+  const { algorithm, processes, ticks, mlfqQuanta } = trace;
+  const { time, running, level, preempted, completed } = tick;
+  const process = `P${running}`;
+  const parts = tick.arrived.map((pid) =>
+    t('narration.cpu.arrived', { process: `P${pid}` })
+  );
+  if (preempted !== null) {
+    const previous = `P${preempted}`;
+    if (tick.quantumExpired) {
+      parts.push(
+        algorithm === 'MLFQ'
+          ? t('narration.cpu.demoted', {
+              process: previous,
+              level: trace.ticks[time - 1].level! + 1,
+            })
+          : t('narration.cpu.quantumExpired', { process: previous })
+      );
+    } else {
+      // Só o SRTF, a prioridade preemptiva e o MLFQ interrompem antes do quantum
+      const reason =
+        algorithm === 'SRTF'
+          ? 'shorter'
+          : algorithm === 'MLFQ'
+          ? 'higherLevel'
+          : 'higherPriority';
+      parts.push(
+        t(`narration.cpu.preempted.${reason}`, {
+          process: previous,
+          next: process,
+        })
+      );
+    }
+  }
+  if (running === null) {
+    parts.push(t('narration.cpu.idle'));
+  } else if (time > 0 && ticks[time - 1].running === running) {
+    parts.push(t('narration.cpu.continues', { process }));
+  } else {
+    // Tempo que faltava ao processo antes deste instante
+    const remaining =
+      processes[running].burst -
+      ticks.slice(0, time).filter((other) => other.running === running).length;
+    parts.push(
+      algorithm === 'MLFQ' && level! >= mlfqQuanta.length
+        ? t('narration.cpu.dispatch.mlfqLast', { process, level: level! })
+        : t(`narration.cpu.dispatch.${algorithm}`, {
+            process,
+            burst: processes[running].burst,
+            remaining,
+            priority: processes[running].priority,
+            quantum: algorithm === 'MLFQ' ? mlfqQuanta[level!] : trace.quantum,
+            level: level ?? 0,
+          })
+    );
+  }
+  if (completed !== null) {
+    parts.push(t('narration.cpu.completed', { process, time: time + 1 }));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Explica um passo do algoritmo de segurança do banqueiro.
+ */
+export function describeSafetyStep(
+  { pid, need, work, canFinish, workAfter }: SafetyStep,
+  t: Translate = translatePt
+): string {
+  const params = { pid, need: formatVector(need), work: formatVector(work) };
+  return canFinish
+    ? t('narration.deadlock.canFinish', {
+        ...params,
+        after: formatVector(workAfter),
+      })
+    : t('narration.deadlock.mustWait', params);
+}
+
+/**
+ * Explica a redução de um processo no grafo de alocação de recursos.
+ */
+export function describeReductionStep(
+  { pid, available }: ReductionStep,
+  t: Translate = translatePt
+): string {
+  return t('narration.deadlock.reduced', {
+    pid,
+    available: formatVector(available),
+  });
+}
+
+/**
+ * Explica um comando do roteiro de alocação de memória: onde o bloco foi
+ * parar e por quê, as falhas, as compactações e, no buddy, as divisões e
+ * fusões de blocos.
+ */
+export function describeAllocationStep(
+  algorithm: AllocationAlgorithm,
+  step: AllocationStep,
+  t: Translate = translatePt
+): string {
+  const { request, blocks, address, blockSize, failure, moved } = step;
+  const free = blocks.reduce(
+    (sum, block) => (block.owner === null ? sum + block.size : sum),
+    0
+  );
+
+  if (request.kind === 'compact') {
+    return algorithm === 'BUDDY'
+      ? t('narration.memory.buddyCompact')
+      : t('narration.memory.compacted', { moved, free });
+  }
+  if (request.kind === 'free') {
+    if (address === null) {
+      return t('narration.memory.notInMemory', { name: request.name });
+    }
+    const parts = [
+      t('narration.memory.freed', {
+        name: request.name,
+        size: blockSize,
+        address,
+      }),
+    ];
+    if (step.merges > 0) {
+      parts.push(
+        t('narration.memory.merged', {
+          count: step.merges,
+          size: blockSize * 2 ** step.merges,
+        })
+      );
+    }
+    return parts.join(' ');
+  }
+
+  const { name, size } = request;
+  if (failure !== null) {
+    const largest = Math.max(
+      0,
+      ...blocks.map((block) => (block.owner === null ? block.size : 0))
+    );
+    return t(`narration.memory.${failure}`, { name, size, free, largest });
+  }
+  if (algorithm === 'BUDDY') {
+    const parts = [
+      t('narration.memory.buddyPlaced', {
+        name,
+        size,
+        block: blockSize,
+        address: address!,
+        waste: blockSize - size,
+      }),
+    ];
+    if (step.splits > 0) {
+      parts.push(
+        t('narration.memory.split', {
+          from: blockSize * 2 ** step.splits,
+          count: step.splits,
+        })
+      );
+    }
+    return parts.join(' ');
+  }
+  const placed = t('narration.memory.placed', {
+    name,
+    size,
+    address: address!,
+    reason: t(`narration.memory.reasons.${algorithm}`),
+  });
+  return moved > 0
+    ? `${t('narration.memory.compactedFirst', { name, moved })} ${placed}`
+    : placed;
+}
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PAGE_ALGORITHMS,
+  recencyStack,
+  simulatePageReplacement,
+  summarizePageReplacement,
+  summarizePageTrace,
+} from './pageReplacement';
+
+// Sequência clássica do livro de Silberschatz (Operating System Concepts)
+const SILBERSCHATZ = [
+  7, 0, 1, 2, 0, 3, 0, 4, 2, 3, 0, 3, 2, 1, 2, 0, 1, 7, 0, 1,
+];
+// Sequência clássica da anomalia de Belady
+const BELADY = [1, 2, 3, 4, 1, 2, 5, 1, 2, 3, 4, 5];
+
+const pagesOf = (frames: ({ page: number } | null)[]) =>
+  frames.map((f) => (f ? f.page : null));
+
+describe('simulatePageReplacement', () => {
+  it('FIFO produz 15 page faults na sequência do Silberschatz com 3 frames', () => {
+    const trace = simulatePageReplacement(SILBERSCHATZ, {
+      algorithm: 'FIFO',
+      frameCount: 3,
+    });
+    expect(trace.totalFaults).toBe(15);
+    expect(trace.steps).toHaveLength(SILBERSCHATZ.length);
+    expect(pagesOf(trace.steps[3].frames)).toEqual([2, 0, 1]);
+    expect(trace.steps[3].victim).toBe(7);
+  });
+
+  it('LRU produz 12 page faults na sequência do Silberschatz com 3 frames', () => {
+    const trace = simulatePageReplacement(SILBERSCHATZ, {
+      algorithm: 'LRU',
+      frameCount: 3,
+    });
+    expect(trace.totalFaults).toBe(12);
+    // Referência 3 (passo 5): a página 1 é a menos recentemente usada
+    expect(trace.steps[5].victim).toBe(1);
+    expect(pagesOf(trace.steps[5].frames)).toEqual([2, 0, 3]);
+  });
+
+  it('OPT produz 9 page faults na sequência do Silberschatz com 3 frames', () => {
+    const trace = simulatePageReplacement(SILBERSCHATZ, {
+      algorithm: 'OPT',
+      frameCount: 3,
+    });
+    expect(trace.totalFaults).toBe(9);
+    // Referência 2 (passo 3): a página 7 só volta a ser usada no passo 17
+    expect(trace.steps[3].victim).toBe(7);
+  });
+
+  it('Clock dá uma segunda chance às páginas com bit R ligado', () => {
+    const trace = simulatePageReplacement([1, 2, 3, 4, 2, 5], {
+      algorithm: 'CLOCK',
+      frameCount: 3,
+    });
+    expect(trace.steps[3].victim).toBe(1);
+    expect(trace.steps[3].hand).toBe(1);
+    expect(trace.steps[3].frames.map((f) => f!.referenceBit)).toEqual([
+      true,
+      false,
+      false,
+    ]);
+    // A página 2 foi referenciada de novo e escapa; a 3 é removida
+    expect(trace.steps[5].victim).toBe(3);
+    expect(pagesOf(trace.steps[5].frames)).toEqual([4, 2, 5]);
+  });
+
+  it('ESC sem escritas remove a primeira página a partir do ponteiro', () => {
+    const trace = simulatePageReplacement([1, 2, 3, 4], {
+      algorithm: 'ESC',
+      frameCount: 3,
+    });
+    expect(trace.steps[3].victim).toBe(1);
+  });
+
+  it('LFU remove a página menos acessada e MFU a mais acessada', () => {
+    const refs = [1, 1, 2, 3];
+    const victim = (algorithm: 'LFU' | 'MFU') =>
+      simulatePageReplacement(refs, { algorithm, frameCount: 2 }).steps[3]
+        .victim;
+    expect(victim('LFU')).toBe(2);
+    expect(victim('MFU')).toBe(1);
+  });
+
+  it('NRU zera os bits R periodicamente e remove a página da menor classe', () => {
+    const trace = simulatePageReplacement([1, 2, 1, 3], {
+      algorithm: 'NRU',
+      frameCount: 2,
+      nruResetInterval: 2,
+    });
+    expect(trace.steps[1].bitsReset).toBe(true);
+    expect(trace.steps[1].frames.every((f) => !f!.referenceBit)).toBe(true);
+    expect(trace.steps[3].victim).toBe(2);
+  });
+
+  it('FIFO exibe a anomalia de Belady', () => {
+    const faults = (frameCount: number) =>
+      simulatePageReplacement(BELADY, { algorithm: 'FIFO', frameCount })
+        .totalFaults;
+    expect(faults(3)).toBe(9);
+    expect(faults(4)).toBe(10);
+  });
+
+  it('marca hits sem alterar os frames e acumula os faults por passo', () => {
+    const trace = simulatePageReplacement([1, 2, 1], {
+      algorithm: 'FIFO',
+      frameCount: 2,
+    });
+    expect(trace.steps.map((s) => s.isFault)).toEqual([true, true, false]);
+    expect(trace.steps.map((s) => s.faults)).toEqual([1, 2, 2]);
+    expect(trace.steps[2].frameIndex).toBe(0);
+    expect(trace.steps[2].victim).toBeNull();
+  });
+
+  it('é determinístico', () => {
+    const config = { algorithm: 'LRU', frameCount: 4 } as const;
+    expect(simulatePageReplacement(SILBERSCHATZ, config)).toEqual(
+      simulatePageReplacement(SILBERSCHATZ, config)
+    );
+  });
+
+  it('rejeita um número de frames inválido', () => {
+    expect(() =>
+      simulatePageReplacement([1], { algorithm: 'FIFO', frameCount: 0 })
+    ).toThrow(RangeError);
+  });
+
+  it('resume o trace em faults, hits e taxa de acerto', () => {
+    const trace = simulatePageReplacement(SILBERSCHATZ, {
+      algorithm: 'LRU',
+      frameCount: 3,
+    });
+    expect(summarizePageTrace(trace)).toEqual({
+      faults: 12,
+      hits: 8,
+      hitRatio: 0.4,
+      writeBacks: 0,
+      totalIO: 12,
+    });
+  });
+
+  it('chega às mesmas métricas sem guardar os passos', () => {
+    const writes = SILBERSCHATZ.map((_, i) => i % 3 === 0);
+    for (const algorithm of PAGE_ALGORITHMS) {
+      const config = { algorithm, frameCount: 3, writes };
+      const steps: number[] = [];
+      expect(
+        summarizePageReplacement(SILBERSCHATZ, config, (step) =>
+          steps.push(step)
+        )
+      ).toEqual(
+        summarizePageTrace(simulatePageReplacement(SILBERSCHATZ, config))
+      );
+      expect(steps).toHaveLength(SILBERSCHATZ.length);
+    }
+  });
+
+  it('conta write-backs quando a vítima foi escrita', () => {
+    // 1w 2 2w 3 4: a página 1 é escrita ao ser carregada e a 2, depois
+    const trace = simulatePageReplacement([1, 2, 2, 3, 4], {
+      algorithm: 'FIFO',
+      frameCount: 2,
+      writes: [true, false, true, false, false],
+    });
+    expect(trace.steps[2].frames[1]!.modified).toBe(true);
+    expect(trace.steps[3]).toMatchObject({ victim: 1, writeBack: true });
+    expect(trace.steps[4]).toMatchObject({ victim: 2, writeBack: true });
+    expect(trace.totalWriteBacks).toBe(2);
+    expect(summarizePageTrace(trace).totalIO).toBe(6);
+  });
+
+  it('ESC poupa a página modificada que o Clock removeria', () => {
+    const config = { frameCount: 3, writes: [true, false, false, false] };
+    const esc = simulatePageReplacement([1, 2, 3, 4], {
+      ...config,
+      algorithm: 'ESC',
+    });
+    const clock = simulatePageReplacement([1, 2, 3, 4], {
+      ...config,
+      algorithm: 'CLOCK',
+    });
+    expect(esc.steps[3]).toMatchObject({ victim: 2, writeBack: false });
+    expect(clock.steps[3]).toMatchObject({ victim: 1, writeBack: true });
+  });
+
+  it('exige uma indicação de escrita por referência', () => {
+    expect(() =>
+      simulatePageReplacement([1, 2], {
+        algorithm: 'FIFO',
+        frameCount: 1,
+        writes: [true],
+      })
+    ).toThrow(RangeError);
+  });
+
+  it('ordena a pilha de recência da página mais recente para a vítima do LRU', () => {
+    const trace = simulatePageReplacement([7, 0, 1, 2, 0], {
+      algorithm: 'LRU',
+      frameCount: 3,
+    });
+    expect(recencyStack(trace.steps[2].frames)).toEqual([1, 0, 7]);
+    expect(recencyStack(trace.steps[4].frames)).toEqual([0, 2, 1]);
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Motor de simulação de substituição de páginas.
+ *
+ * Este módulo não depende de React: recebe a sequência de referências e a
+ * configuração, e devolve o trace completo e determinístico da execução.
+ * Os "timestamps" são os índices dos passos, e não `Date.now()`, para que a
+ * mesma entrada produza sempre o mesmo resultado.
+ */
+
+export type PageAlgorithm =
+  | 'FIFO'
+  | 'LRU'
+  | 'OPT'
+  | 'CLOCK'
+  | 'ESC'
+  | 'LFU'
+  | 'MFU'
+  | 'NRU';
+
+export const PAGE_ALGORITHMS: readonly PageAlgorithm[] = [
+  'FIFO',
+  'LRU',
+  'OPT',
+  'CLOCK',
+  'ESC',
+  'LFU',
+  'MFU',
+  'NRU',
+];
+
+// Algoritmos que percorrem os frames com um ponteiro circular
+export const CLOCK_ALGORITHMS: readonly PageAlgorithm[] = ['CLOCK', 'ESC'];
+
+/**
+ * Estado de um frame ocupado.
+ * - `page`: Página carregada no frame.
+ * - `loadedAt`: Passo em que a página foi carregada (usado no FIFO e nos desempates).
+ * - `lastUsedAt`: Passo do último acesso à página (usado no LRU).
+ * - `referenceBit`: Bit R, ligado a cada acesso (Clock, ESC e NRU).
+ * - `modified`: Bit M, ligado quando a página é escrita (ESC e NRU).
+ * - `frequency`: Acessos desde que a página foi carregada (LFU e MFU).
+ */
+export interface FrameState {
+  page: number;
+  loadedAt: number;
+  lastUsedAt: number;
+  referenceBit: boolean;
+  modified: boolean;
+  frequency: number;
+}
+
+/**
+ * Configuração da simulação.
+ * - `nruResetInterval`: A cada quantas referências o NRU zera os bits R
+ *   (simula a interrupção de relógio). Padrão: 4.
+ * - `writes`: Indica, para cada referência, se ela é uma escrita. Padrão:
+ *   todas são leituras.
+ */
+export interface PageReplacementConfig {
+  algorithm: PageAlgorithm;
+  frameCount: number;
+  nruResetInterval?: number;
+  writes?: boolean[];
+}
+
+/**
+ * Resultado de um único passo da simulação.
+ * - `frames`: Conteúdo dos frames após o passo (`null` para frame livre).
+ * - `frameIndex`: Frame acessado (hit) ou escrito (fault).
+ * - `isWrite`: A referência é uma escrita (liga o bit M da página).
+ * - `victim`: Página removida no passo, se houve substituição.
+ * - `writeBack`: A vítima estava modificada e precisa ser gravada no disco.
+ * - `faults`: Total acumulado de page faults até este passo.
+ * - `writeBacks`: Total acumulado de write-backs até este passo.
+ * - `hand`: Posição do ponteiro do relógio após o passo (Clock e ESC).
+ * - `bitsReset`: Indica se o NRU zerou os bits R ao final do passo.
+ */
+export interface PageStep {
+  step: number;
+  page: number;
+  isWrite: boolean;
+  frames: (FrameState | null)[];
+  isFault: boolean;
+  frameIndex: number;
+  victim: number | null;
+  writeBack: boolean;
+  faults: number;
+  writeBacks: number;
+  hand: number | null;
+  bitsReset: boolean;
+}
+
+export interface PageTrace {
+  algorithm: PageAlgorithm;
+  frameCount: number;
+  references: number[];
+  writes: boolean[];
+  steps: PageStep[];
+  totalFaults: number;
+  totalWriteBacks: number;
+}
+
+/**
+ * Próximo passo, a partir de `from`, em que `page` é referenciada.
+ * Retorna `Infinity` se a página não for mais usada.
+ */
+export const nextUse = (
+  references: number[],
+  page: number,
+  from: number
+): number => {
+  const index = references.indexOf(page, from);
+  return index === -1 ? Infinity : index;
+};
+
+/**
+ * Próximo uso de cada referência, calculado de trás para frente em uma
+ * passada: `result[i]` é o passo seguinte em que `references[i]` volta a
+ * ser referenciada, ou `Infinity`.
+ */
+const nextUseIndices = (references: number[]): number[] => {
+  const result: number[] = Array(references.length);
+  const seen = new Map<number, number>();
+  for (let i = references.length - 1; i >= 0; i--) {
+    result[i] = seen.get(references[i]) ?? Infinity;
+    seen.set(references[i], i);
+  }
+  return result;
+};
+
+// Índice do frame que minimiza `key`; empates ficam com a página mais antiga
+const argMin = (
+  frames: FrameState[],
+  key: (frame: FrameState) => number
+): number =>
+  frames.reduce((best, f, i, arr) => {
+    const [a, b] = [key(f), key(arr[best])];
+    return a < b || (a === b && f.loadedAt < arr[best].loadedAt) ? i : best;
+  }, 0);
+
+// Classe NRU/ESC de um frame: 2 * R + M (0 é a melhor vítima)
+const frameClass = (frame: FrameState) =>
+  (frame.referenceBit ? 2 : 0) + (frame.modified ? 1 : 0);
+
+/**
+ * Ponteiro do relógio do Second Chance: páginas com R = 1 ganham uma
+ * segunda chance (R é zerado) e o ponteiro avança até achar R = 0.
+ */
+const clockVictim = (frames: FrameState[], hand: number): number => {
+  while (frames[hand].referenceBit) {
+    frames[hand] = { ...frames[hand], referenceBit: false };
+    hand = (hand + 1) % frames.length;
+  }
+  return hand;
+};
+
+/**
+ * Enhanced Second Chance: procura (R=0, M=0) sem alterar bits; se não
+ * achar, procura (R=0, M=1) zerando os bits R pelo caminho; repete.
+ */
+const enhancedClockVictim = (frames: FrameState[], hand: number): number => {
+  for (;;) {
+    for (let i = 0; i < frames.length; i++) {
+      const index = (hand + i) % frames.length;
+      if (frameClass(frames[index]) === 0) return index;
+    }
+    for (let i = 0; i < frames.length; i++) {
+      const index = (hand + i) % frames.length;
+      if (frameClass(frames[index]) === 1) return index;
+      frames[index] = { ...frames[index], referenceBit: false };
+    }
+  }
+};
+
+// Escolhe o frame cuja página será removida, com a memória cheia
+const selectVictim = (
+  algorithm: PageAlgorithm,
+  frames: FrameState[],
+  nextUses: number[],
+  hand: number
+): number => {
+  switch (algorithm) {
+    case 'FIFO': // Página carregada há mais tempo
+      return argMin(frames, (f) => f.loadedAt);
+    case 'LRU': // Página acessada há mais tempo
+      return argMin(frames, (f) => f.lastUsedAt);
+    case 'OPT': // Página cujo próximo uso está mais distante no futuro
+      // Desde o último acesso a página não voltou a ser referenciada, então
+      // o próximo uso depois desse acesso é também o próximo a partir de agora
+      return argMin(frames, (f) => -nextUses[f.lastUsedAt]);
+    case 'CLOCK':
+      return clockVictim(frames, hand);
+    case 'ESC':
+      return enhancedClockVictim(frames, hand);
+    case 'LFU': // Página com menos acessos
+      return argMin(frames, (f) => f.frequency);
+    case 'MFU': // Página com mais acessos
+      return argMin(frames, (f) => -f.frequency);
+    case 'NRU': // Página da menor classe (R, M)
+      return argMin(frames, frameClass);
+  }
+};
+
+// Recebe cada passo e o conteúdo dos frames naquele momento (não copiado)
+type StepVisitor = (
+  step: Omit<PageStep, 'frames'>,
+  frames: readonly (FrameState | null)[]
+) => void;
+
+/**
+ * Executa a substituição de páginas passo a passo, entregando cada passo a
+ * `onStep`, e devolve os totais.
+ *
+ * Frames livres são preenchidos da esquerda para a direita; em uma
+ * substituição, a nova página ocupa o mesmo frame da vítima.
+ */
+function replay(
+  references: number[],
+  {
+    algorithm,
+    frameCount,
+    nruResetInterval = 4,
+    writes = references.map(() => false),
+  }: PageReplacementConfig,
+  onStep: StepVisitor
+): { writes: boolean[]; faults: number; writeBacks: number } {
+  if (!Number.isInteger(frameCount) || frameCount < 1) {
+    throw new RangeError('O número de frames deve ser um inteiro positivo.');
+  }
+  if (writes.length !== references.length) {
+    throw new RangeError(
+      'Deve haver uma indicação de escrita para cada referência.'
+    );
+  }
+
+  const usesClock = CLOCK_ALGORITHMS.includes(algorithm);
+  const frames: (FrameState | null)[] = Array(frameCount).fill(null);
+  const nextUses = algorithm === 'OPT' ? nextUseIndices(references) : [];
+  let faults = 0;
+  let writeBacks = 0;
+  let hand = 0;
+
+  references.forEach((page, step) => {
+    const isWrite = writes[step];
+    const hitIndex = frames.findIndex((f) => f?.page === page);
+    let frameIndex: number;
+    let victim: number | null = null;
+    let writeBack = false;
+
+    if (hitIndex !== -1) {
+      frameIndex = hitIndex;
+      const frame = frames[hitIndex]!;
+      frames[hitIndex] = {
+        ...frame,
+        lastUsedAt: step,
+        referenceBit: true,
+        modified: frame.modified || isWrite,
+        frequency: frame.frequency + 1,
+      };
+    } else {
+      faults++;
+      const freeIndex = frames.indexOf(null);
+      if (freeIndex !== -1) {
+        frameIndex = freeIndex;
+      } else {
+        frameIndex = selectVictim(
+          algorithm,
+          frames as FrameState[],
+          nextUses,
+          hand
+        );
+        victim = frames[frameIndex]!.page;
+        // Uma vítima modificada é gravada no disco antes de sair
+        writeBack = frames[frameIndex]!.modified;
+        if (writeBack) writeBacks++;
+      }
+      frames[frameIndex] = {
+        page,
+        loadedAt: step,
+        lastUsedAt: step,
+        referenceBit: true,
+        modified: isWrite,
+        frequency: 1,
+      };
+      // O ponteiro do relógio avança para depois do frame recém-carregado
+      hand = (frameIndex + 1) % frameCount;
+    }
+
+    // Interrupção de relógio do NRU: zera todos os bits R periodicamente
+    const bitsReset =
+      algorithm === 'NRU' &&
+      nruResetInterval > 0 &&
+      (step + 1) % nruResetInterval === 0;
+    if (bitsReset) {
+      frames.forEach((f, i) => {
+        if (f) frames[i] = { ...f, referenceBit: false };
+      });
+    }
+
+    onStep(
+      {
+        step,
+        page,
+        isWrite,
+        isFault: hitIndex === -1,
+        frameIndex,
+        victim,
+        writeBack,
+        faults,
+        writeBacks,
+        hand: usesClock ? hand : null,
+        bitsReset,
+      },
+      frames
+    );
+  });
+
+  return { writes, faults, writeBacks };
+}
+
+/**
+ * Executa a simulação completa de substituição de páginas, guardando o
+ * conteúdo dos frames em cada passo.
+ */
+export function simulatePageReplacement(
+  references: number[],
+  config: PageReplacementConfig
+): PageTrace {
+  const steps: PageStep[] = [];
+  const { writes, faults, writeBacks } = replay(
+    references,
+    config,
+    (step, frames) => steps.push({ ...step, frames: [...frames] })
+  );
+
+  return {
+    algorithm: config.algorithm,
+    frameCount: config.frameCount,
+    references: [...references],
+    writes: [...writes],
+    steps,
+    totalFaults: faults,
+    totalWriteBacks: writeBacks,
+  };
+}
+
+export interface PageSummary {
+  faults: number;
+  hits: number;
+  hitRatio: number; // Fração de referências atendidas sem page fault (0 a 1)
+  writeBacks: number;
+  totalIO: number; // Operações de disco: leituras (faults) mais write-backs
+}
+
+// Métricas de comparação a partir dos totais da execução
+const summarize = (
+  references: number,
+  faults: number,
+  writeBacks: number
+): PageSummary => {
+  const hits = references - faults;
+  return {
+    faults,
+    hits,
+    hitRatio: references === 0 ? 0 : hits / references,
+    writeBacks,
+    totalIO: faults + writeBacks,
+  };
+};
+
+/**
+ * Resume um trace em métricas de comparação entre algoritmos.
+ */
+export function summarizePageTrace({
+  steps,
+  totalFaults,
+  totalWriteBacks,
+}: PageTrace): PageSummary {
+  return summarize(steps.length, totalFaults, totalWriteBacks);
+}
+
+/**
+ * Calcula só as métricas de comparação, sem guardar os passos: serve aos
+ * traces longos, em que copiar os frames a cada passo custaria muita
+ * memória. `onStep` recebe o índice de cada passo executado.
+ */
+export function summarizePageReplacement(
+  references: number[],
+  config: PageReplacementConfig,
+  onStep?: (step: number) => void
+): PageSummary {
+  const { faults, writeBacks } = replay(references, config, ({ step }) =>
+    onStep?.(step)
+  );
+  return summarize(references.length, faults, writeBacks);
+}
+
+/**
+ * Pilha de recência do LRU: páginas na memória da usada mais recentemente
+ * (topo) para a usada há mais tempo (próxima vítima).
+ */
+export function recencyStack(frames: (FrameState | null)[]): number[] {
+  return frames
+    .filter((f): f is FrameState => f !== null)
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+    .map((f) => f.page);
+}
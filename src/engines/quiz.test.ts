@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { simulateDiskScheduling } from './diskScheduling';
+import { simulatePageReplacement } from './pageReplacement';
+import {
+  diskQuestions,
+  gradeDiskAnswer,
+  gradePageAnswer,
+  quizScore,
+} from './quiz';
+
+describe('gradePageAnswer', () => {
+  const { steps } = simulatePageReplacement([1, 2, 1, 3], {
+    algorithm: 'FIFO',
+    frameCount: 2,
+  });
+
+  it('corrige hit e fault sem vítima enquanto há frames livres', () => {
+    expect(
+      gradePageAnswer(steps[1], { isFault: true, victim: null }).correct
+    ).toBe(true);
+    expect(
+      gradePageAnswer(steps[2], { isFault: true, victim: null }).correct
+    ).toBe(false);
+    expect(
+      gradePageAnswer(steps[2], { isFault: false, victim: null }).correct
+    ).toBe(true);
+  });
+
+  it('exige a vítima certa com a memória cheia', () => {
+    expect(gradePageAnswer(steps[3], { isFault: true, victim: 2 })).toEqual({
+      step: 3,
+      answer: { isFault: true, victim: 2 },
+      expected: { isFault: true, victim: 1 },
+      correct: false,
+    });
+    expect(
+      gradePageAnswer(steps[3], { isFault: true, victim: 1 }).correct
+    ).toBe(true);
+  });
+});
+
+describe('diskQuestions', () => {
+  it('agrupa bordas e retornos com o atendimento seguinte', () => {
+    const trace = simulateDiskScheduling([150, 20], {
+      algorithm: 'C-SCAN',
+      diskSize: 200,
+      initialHead: 100,
+      direction: 'up',
+    });
+    const questions = diskQuestions(trace);
+    expect(questions.map((q) => q.cylinder)).toEqual([150, 20]);
+    expect(questions[1].moves.map((m) => m.to)).toEqual([199, 0, 20]);
+    expect(gradeDiskAnswer(questions[1], 20).correct).toBe(true);
+    expect(gradeDiskAnswer(questions[1], 150)).toEqual({
+      answer: 150,
+      expected: 20,
+      correct: false,
+    });
+  });
+});
+
+describe('quizScore', () => {
+  it('calcula acertos e percentual', () => {
+    expect(
+      quizScore([
+        { correct: true },
+        { correct: false },
+        { correct: true },
+        { correct: true },
+      ])
+    ).toEqual({ correct: 3, total: 4, percent: 75 });
+    expect(quizScore([])).toEqual({ correct: 0, total: 0, percent: 0 });
+  });
+});
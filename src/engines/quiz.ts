@@ -0,0 +1,95 @@
+/**
+ * Correção do modo de exercício.
+ *
+ * O aluno prevê o próximo passo da simulação e a resposta é comparada com
+ * o trace do motor: na substituição de páginas, se a referência gera hit
+ * ou fault e qual página sai; no disco, qual cilindro é atendido a seguir.
+ */
+
+import { DiskStep, DiskTrace } from './diskScheduling';
+import { PageStep } from './pageReplacement';
+
+export interface PageAnswer {
+  isFault: boolean;
+  victim: number | null; // Só é perguntada quando a memória está cheia
+}
+
+export interface PageQuestionResult {
+  step: number;
+  answer: PageAnswer;
+  expected: PageAnswer;
+  correct: boolean;
+}
+
+/**
+ * Corrige a previsão de um passo da substituição de páginas. Com a memória
+ * cheia, um fault só está certo se a vítima também estiver.
+ */
+export function gradePageAnswer(
+  step: PageStep,
+  answer: PageAnswer
+): PageQuestionResult {
+  const expected = { isFault: step.isFault, victim: step.victim };
+  const correct =
+    answer.isFault === expected.isFault &&
+    (expected.victim === null || answer.victim === expected.victim);
+  return { step: step.step, answer, expected, correct };
+}
+
+/**
+ * Pergunta do disco: os movimentos até o próximo atendimento (deslocamentos
+ * até a borda e retornos vêm antes do atendimento, que é o último).
+ */
+export interface DiskQuestion {
+  moves: DiskStep[];
+  cylinder: number; // Cilindro atendido, a resposta esperada
+}
+
+/**
+ * Divide o trace do disco em perguntas, uma por requisição atendida.
+ */
+export function diskQuestions({ requests, steps }: DiskTrace): DiskQuestion[] {
+  const questions: DiskQuestion[] = [];
+  let moves: DiskStep[] = [];
+  for (const step of steps) {
+    moves.push(step);
+    if (step.requestIndex !== null) {
+      questions.push({ moves, cylinder: requests[step.requestIndex] });
+      moves = [];
+    }
+  }
+  return questions;
+}
+
+export interface DiskQuestionResult {
+  answer: number;
+  expected: number;
+  correct: boolean;
+}
+
+/**
+ * Corrige a previsão do próximo cilindro atendido.
+ */
+export function gradeDiskAnswer(
+  question: DiskQuestion,
+  answer: number
+): DiskQuestionResult {
+  return {
+    answer,
+    expected: question.cylinder,
+    correct: answer === question.cylinder,
+  };
+}
+
+/**
+ * Pontuação final: acertos, total de perguntas e percentual.
+ */
+export function quizScore(results: { correct: boolean }[]) {
+  const correct = results.filter((r) => r.correct).length;
+  const total = results.length;
+  return {
+    correct,
+    total,
+    percent: total === 0 ? 0 : (correct / total) * 100,
+  };
+}
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DiskScenario,
+  PageScenario,
+  SCENARIO_VERSION,
+  mergeHash,
+  parseScenarioFile,
+  scenarioFromHash,
+  scenarioToHashParams,
+  serializeScenario,
+  validateScenario,
+} from './scenario';
+
+const PAGE: PageScenario = {
+  kind: 'page',
+  algorithm: 'LRU',
+  frameCount: 3,
+  references: [7, 0, 1, 2, 0, 3],
+  writes: [1, 0, 0, 1, 0, 0],
+  step: 4,
+};
+
+const DISK: DiskScenario = {
+  kind: 'disk',
+  algorithm: 'C-SCAN',
+  diskSize: 200,
+  initialHead: 53,
+  direction: 'up',
+  countReturnSweep: false,
+  batchSize: 4,
+  requests: [98, 183, 37, 122, 14, 124, 65, 67],
+  arrivals: [0, 0, 0, 0, 0, 0, 0, 0],
+  headSpeed: 1,
+  timing: false,
+  rpm: 7200,
+  settleTime: 1,
+  seekFactor: 0.3,
+  sectorsPerTrack: 32,
+  sectors: [0, 0, 0, 0, 0, 0, 0, 0],
+  step: 10,
+};
+
+describe('validateScenario', () => {
+  it('aceita cenários válidos', () => {
+    expect(validateScenario(PAGE)).toEqual({ ok: true, value: PAGE });
+    expect(validateScenario(DISK)).toEqual({ ok: true, value: DISK });
+  });
+
+  it('rejeita tipos e campos inválidos', () => {
+    expect(validateScenario([])).toEqual({
+      ok: false,
+      error: 'O cenário deve ser um objeto JSON.',
+    });
+    expect(validateScenario({ ...PAGE, kind: 'cpu' })).toEqual({
+      ok: false,
+      error: 'O campo "kind" deve ser "page" ou "disk".',
+    });
+    expect(validateScenario({ ...PAGE, algorithm: 'XYZ' })).toMatchObject({
+      ok: false,
+    });
+    expect(validateScenario({ ...PAGE, frameCount: 0 })).toEqual({
+      ok: false,
+      error: 'O campo "frameCount" deve ser um inteiro entre 1 e 10.',
+    });
+    expect(validateScenario({ ...DISK, requests: [10, 250] })).toEqual({
+      ok: false,
+      error: 'O item 2 de "requests" deve ser um inteiro entre 0 e 199.',
+    });
+  });
+
+  it('preenche os campos ausentes em cenários antigos', () => {
+    const {
+      arrivals,
+      headSpeed,
+      timing,
+      rpm,
+      settleTime,
+      seekFactor,
+      sectorsPerTrack,
+      sectors,
+      ...old
+    } = DISK;
+    expect(validateScenario(old)).toEqual({
+      ok: true,
+      value: {
+        ...old,
+        arrivals,
+        headSpeed,
+        timing,
+        rpm,
+        settleTime,
+        seekFactor,
+        sectorsPerTrack,
+        sectors,
+      },
+    });
+    expect(validateScenario({ ...DISK, arrivals: [0, 5] })).toEqual({
+      ok: false,
+      error: 'O campo "arrivals" deve ter 8 itens.',
+    });
+    const { writes, ...oldPage } = PAGE;
+    expect(validateScenario(oldPage)).toEqual({
+      ok: true,
+      value: { ...oldPage, writes: writes.map(() => 0) },
+    });
+  });
+
+  it('limita o passo ao tamanho do trace', () => {
+    expect(validateScenario({ ...PAGE, step: 7 })).toMatchObject({
+      ok: false,
+    });
+    // C-SCAN: 8 atendimentos + borda + retorno
+    expect(validateScenario({ ...DISK, step: 11 })).toMatchObject({
+      ok: false,
+    });
+  });
+});
+
+describe('parseScenarioFile', () => {
+  it('lê de volta o que foi serializado', () => {
+    expect(parseScenarioFile(serializeScenario(PAGE))).toEqual({
+      ok: true,
+      value: PAGE,
+    });
+    expect(JSON.parse(serializeScenario(DISK)).version).toBe(SCENARIO_VERSION);
+  });
+
+  it('rejeita JSON malformado e versões desconhecidas', () => {
+    expect(parseScenarioFile('{ "kind": ')).toEqual({
+      ok: false,
+      error: 'O arquivo não contém um JSON válido.',
+    });
+    expect(parseScenarioFile(JSON.stringify({ ...PAGE, version: 2 }))).toEqual({
+      ok: false,
+      error: 'Versão de cenário não suportada: 2 (esperada: 1).',
+    });
+  });
+});
+
+describe('hash da URL', () => {
+  it('faz a ida e volta dos dois simuladores no mesmo hash', () => {
+    const hash = mergeHash(
+      mergeHash('', scenarioToHashParams(PAGE)),
+      scenarioToHashParams(DISK)
+    );
+    expect(scenarioFromHash(hash, 'page')).toEqual({ ok: true, value: PAGE });
+    expect(scenarioFromHash(hash, 'disk')).toEqual({ ok: true, value: DISK });
+  });
+
+  it('preserva parâmetros decimais do modelo de tempo', () => {
+    const timed = {
+      ...DISK,
+      timing: true,
+      seekFactor: 0.25,
+      sectors: [3, 1, 4, 1, 5, 9, 2, 6],
+      step: 0,
+    };
+    const hash = mergeHash('', scenarioToHashParams(timed));
+    expect(scenarioFromHash(hash, 'disk')).toEqual({ ok: true, value: timed });
+  });
+
+  it('aceita listas com um único item', () => {
+    const hash = mergeHash(
+      '',
+      scenarioToHashParams({ ...PAGE, references: [5], writes: [1], step: 1 })
+    );
+    expect(scenarioFromHash(hash, 'page')).toMatchObject({
+      ok: true,
+      value: { references: [5] },
+    });
+  });
+
+  it('devolve null quando o hash não tem o simulador', () => {
+    expect(scenarioFromHash('', 'page')).toBeNull();
+    expect(
+      scenarioFromHash(mergeHash('', scenarioToHashParams(DISK)), 'page')
+    ).toBeNull();
+  });
+
+  it('valida os valores vindos da URL', () => {
+    expect(scenarioFromHash('#p_frameCount=abc', 'page')).toMatchObject({
+      ok: false,
+    });
+  });
+});
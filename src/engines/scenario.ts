@@ -0,0 +1,370 @@
+/**
+ * Cenários compartilháveis: a configuração completa de um simulador (e o
+ * passo exibido), serializada em JSON versionado ou nos parâmetros do hash
+ * da URL.
+ *
+ * Toda entrada externa passa pelas funções de validação, que devolvem um
+ * `ParseResult` com a primeira inconsistência encontrada.
+ */
+
+import {
+  DISK_ALGORITHMS,
+  DiskAlgorithm,
+  Direction,
+  simulateDiskScheduling,
+} from './diskScheduling';
+import { DEFAULT_DISK_TIMING, DiskTimingModel } from './diskTiming';
+import {
+  MAX_ARRIVAL,
+  MAX_DISK_SIZE,
+  MAX_FRAMES,
+  MAX_HEAD_SPEED,
+  MAX_PAGE_NUMBER,
+  MAX_RPM,
+  MAX_SECTORS,
+  MAX_SEEK_PARAMETER,
+  MIN_RPM,
+  ParseResult,
+} from './input';
+import { PAGE_ALGORITHMS, PageAlgorithm } from './pageReplacement';
+import {
+  MessageKey,
+  MessageParams,
+  Translate,
+  translatePt,
+} from '../i18n/translate';
+
+export const SCENARIO_VERSION = 1;
+
+export interface PageScenario {
+  kind: 'page';
+  algorithm: PageAlgorithm;
+  frameCount: number;
+  references: number[];
+  writes: number[]; // 1 quando a referência é uma escrita, 0 quando é leitura
+  step: number; // Passo exibido (0 = início)
+}
+
+export interface DiskScenario {
+  kind: 'disk';
+  algorithm: DiskAlgorithm;
+  diskSize: number;
+  initialHead: number;
+  direction: Direction;
+  countReturnSweep: boolean;
+  batchSize: number;
+  requests: number[];
+  arrivals: number[]; // Instante de chegada de cada requisição
+  headSpeed: number; // Cilindros por tick
+  timing: boolean; // Modelo de tempo ligado? Os parâmetros ficam salvos mesmo desligado
+  rpm: number;
+  settleTime: number;
+  seekFactor: number;
+  sectorsPerTrack: number;
+  sectors: number[]; // Setor de cada requisição
+  step: number; // Passo exibido (0 = início)
+}
+
+export type Scenario = PageScenario | DiskScenario;
+
+// Erro de validação interno; vira `{ ok: false }` traduzido na borda do módulo
+class ScenarioError extends Error {
+  constructor(readonly key: MessageKey, readonly params: MessageParams) {
+    super(key);
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+function integer(data: Fields, field: string, min: number, max: number) {
+  const value = data[field];
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value > max
+  ) {
+    throw new ScenarioError('scenario.errors.integer', { field, min, max });
+  }
+  return value;
+}
+
+function number(data: Fields, field: string, min: number, max: number) {
+  const value = data[field];
+  if (
+    typeof value !== 'number' ||
+    !Number.isFinite(value) ||
+    value < min ||
+    value > max
+  ) {
+    throw new ScenarioError('scenario.errors.number', { field, min, max });
+  }
+  return value;
+}
+
+function integerList(data: Fields, field: string, min: number, max: number) {
+  const value = data[field];
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ScenarioError('scenario.errors.list', { field });
+  }
+  value.forEach((item, i) => {
+    if (
+      typeof item !== 'number' ||
+      !Number.isInteger(item) ||
+      item < min ||
+      item > max
+    ) {
+      throw new ScenarioError('scenario.errors.listItem', {
+        index: i + 1,
+        field,
+        min,
+        max,
+      });
+    }
+  });
+  return value as number[];
+}
+
+function oneOf<T extends string>(
+  data: Fields,
+  field: string,
+  options: readonly T[]
+) {
+  const value = data[field];
+  if (!options.includes(value as T)) {
+    throw new ScenarioError('scenario.errors.oneOf', {
+      field,
+      options: options.join(', '),
+    });
+  }
+  return value as T;
+}
+
+function boolean(data: Fields, field: string) {
+  const value = data[field];
+  if (typeof value !== 'boolean') {
+    throw new ScenarioError('scenario.errors.boolean', { field });
+  }
+  return value;
+}
+
+// Campo opcional: cenários salvos antes de ele existir usam o padrão
+function optional<T>(
+  data: Fields,
+  field: string,
+  fallback: T,
+  read: (data: Fields, field: string) => T
+) {
+  return data[field] === undefined ? fallback : read(data, field);
+}
+
+// Lista com um item por requisição ou referência; na falta, tudo 0
+function perItem(data: Fields, field: string, items: number[], max: number) {
+  const values = optional(
+    data,
+    field,
+    items.map(() => 0),
+    (d, f) => integerList(d, f, 0, max)
+  );
+  if (values.length !== items.length) {
+    throw new ScenarioError('scenario.errors.length', {
+      field,
+      count: items.length,
+    });
+  }
+  return values;
+}
+
+function readPageScenario(data: Fields): PageScenario {
+  const references = integerList(data, 'references', 0, MAX_PAGE_NUMBER);
+  return {
+    kind: 'page',
+    algorithm: oneOf(data, 'algorithm', PAGE_ALGORITHMS),
+    frameCount: integer(data, 'frameCount', 1, MAX_FRAMES),
+    references,
+    writes: perItem(data, 'writes', references, 1),
+    step: integer(data, 'step', 0, references.length),
+  };
+}
+
+function readDiskTiming(data: Fields): DiskTimingModel {
+  const defaults = DEFAULT_DISK_TIMING;
+  return {
+    rpm: optional(data, 'rpm', defaults.rpm, (d, f) =>
+      integer(d, f, MIN_RPM, MAX_RPM)
+    ),
+    settleTime: optional(data, 'settleTime', defaults.settleTime, (d, f) =>
+      number(d, f, 0, MAX_SEEK_PARAMETER)
+    ),
+    seekFactor: optional(data, 'seekFactor', defaults.seekFactor, (d, f) =>
+      number(d, f, 0, MAX_SEEK_PARAMETER)
+    ),
+    sectorsPerTrack: optional(
+      data,
+      'sectorsPerTrack',
+      defaults.sectorsPerTrack,
+      (d, f) => integer(d, f, 1, MAX_SECTORS)
+    ),
+  };
+}
+
+function readDiskScenario(data: Fields): DiskScenario {
+  const diskSize = integer(data, 'diskSize', 2, MAX_DISK_SIZE);
+  const requests = integerList(data, 'requests', 0, diskSize - 1);
+  const timing = readDiskTiming(data);
+  const scenario: DiskScenario = {
+    kind: 'disk',
+    algorithm: oneOf(data, 'algorithm', DISK_ALGORITHMS),
+    diskSize,
+    initialHead: integer(data, 'initialHead', 0, diskSize - 1),
+    direction: oneOf(data, 'direction', ['up', 'down'] as const),
+    countReturnSweep: boolean(data, 'countReturnSweep'),
+    batchSize: integer(data, 'batchSize', 1, requests.length),
+    requests,
+    arrivals: perItem(data, 'arrivals', requests, MAX_ARRIVAL),
+    headSpeed: optional(data, 'headSpeed', 1, (d, f) =>
+      integer(d, f, 1, MAX_HEAD_SPEED)
+    ),
+    timing: optional(data, 'timing', false, boolean),
+    ...timing,
+    sectors: perItem(data, 'sectors', requests, timing.sectorsPerTrack - 1),
+    step: 0,
+  };
+  // O número de passos depende do algoritmo (bordas e retornos contam)
+  const { steps } = simulateDiskScheduling(requests, {
+    ...scenario,
+    timing: scenario.timing ? timing : null,
+  });
+  return { ...scenario, step: integer(data, 'step', 0, steps.length) };
+}
+
+/**
+ * Valida um cenário já decodificado (de JSON ou da URL). As mensagens de
+ * erro saem no idioma de `t`.
+ */
+export function validateScenario(
+  data: unknown,
+  t: Translate = translatePt
+): ParseResult<Scenario> {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { ok: false, error: t('scenario.errors.notObject') };
+  }
+  const fields = data as Fields;
+  try {
+    switch (fields.kind) {
+      case 'page':
+        return { ok: true, value: readPageScenario(fields) };
+      case 'disk':
+        return { ok: true, value: readDiskScenario(fields) };
+      default:
+        return { ok: false, error: t('scenario.errors.kind') };
+    }
+  } catch (error) {
+    if (error instanceof ScenarioError) {
+      return { ok: false, error: t(error.key, error.params) };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Serializa um cenário no formato de arquivo (JSON com o número da versão).
+ */
+export function serializeScenario(scenario: Scenario): string {
+  return JSON.stringify({ version: SCENARIO_VERSION, ...scenario }, null, 2);
+}
+
+/**
+ * Lê o conteúdo de um arquivo de cenário, conferindo a sintaxe, a versão
+ * do esquema e os campos.
+ */
+export function parseScenarioFile(
+  text: string,
+  t: Translate = translatePt
+): ParseResult<Scenario> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: t('scenario.errors.invalidJson') };
+  }
+  if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+    const { version, ...rest } = data as Fields;
+    if (version !== SCENARIO_VERSION) {
+      return {
+        ok: false,
+        error: t('scenario.errors.version', {
+          version: String(version),
+          expected: SCENARIO_VERSION,
+        }),
+      };
+    }
+    return validateScenario(rest, t);
+  }
+  return validateScenario(data, t);
+}
+
+// Prefixo dos parâmetros de cada simulador no hash, para que convivam
+const HASH_PREFIX = { page: 'p_', disk: 'd_' } as const;
+
+// Campos que viajam no hash como listas separadas por espaço
+const LIST_FIELDS = ['references', 'writes', 'requests', 'arrivals', 'sectors'];
+
+/**
+ * Converte um cenário em parâmetros do hash da URL (ex.: `p_references=7+0+1`).
+ */
+export function scenarioToHashParams(
+  scenario: Scenario
+): Record<string, string> {
+  const { kind, ...fields } = scenario;
+  const prefix = HASH_PREFIX[kind];
+  return Object.fromEntries(
+    Object.entries(fields).map(([field, value]) => [
+      prefix + field,
+      Array.isArray(value) ? value.join(' ') : String(value),
+    ])
+  );
+}
+
+/**
+ * Lê do hash da URL o cenário de um simulador. Devolve `null` quando o
+ * hash não contém parâmetros desse simulador.
+ */
+export function scenarioFromHash(
+  hash: string,
+  kind: Scenario['kind']
+): ParseResult<Scenario> | null {
+  const prefix = HASH_PREFIX[kind];
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const data: Fields = { kind };
+  for (const [key, text] of params) {
+    if (!key.startsWith(prefix)) continue;
+    const field = key.slice(prefix.length);
+    data[field] = LIST_FIELDS.includes(field)
+      ? text
+          .split(/\s+/)
+          .filter((t) => t !== '')
+          .map(Number)
+      : text === 'true' || text === 'false'
+      ? text === 'true'
+      : /^-?\d+(\.\d+)?$/.test(text)
+      ? Number(text)
+      : text;
+  }
+  if (Object.keys(data).length === 1) return null;
+  return validateScenario(data);
+}
+
+/**
+ * Substitui no hash os parâmetros informados, preservando os demais.
+ */
+export function mergeHash(
+  hash: string,
+  values: Record<string, string>
+): string {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  for (const [key, value] of Object.entries(values)) {
+    params.set(key, value);
+  }
+  return `#${params.toString()}`;
+}
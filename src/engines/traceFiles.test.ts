@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  blocksToCylinders,
+  comparePageTrace,
+  parseAddressTrace,
+  parseBlockTrace,
+  renumberPages,
+  summarizeBlockTrace,
+} from './traceFiles';
+import { simulateDiskScheduling } from './diskScheduling';
+
+const LACKEY = `==12345== Lackey, an example Valgrind tool
+I  04012a0,3
+ L 1ffefff8c0,8
+ S 1ffefff8c8,8
+ M 0402ff0,4
+==12345== Counted 1 call to main()`;
+
+const BLKPARSE = `  8,0    1        1     0.000000000  4162  Q  WS 2048 + 8 [jbd2/sda1-8]
+  8,0    1        2     0.000004000  4162  G  WS 2048 + 8 [jbd2/sda1-8]
+  8,0    1        3     0.000010000  4162  D  WS 2048 + 8 [jbd2/sda1-8]
+  8,0    0        4     0.002500000     0  C  WS 2048 + 8 [0]
+  8,0    1        5     0.001000000  4170  D   R 512 + 16 [cat]
+CPU0 (8,0):
+ Reads Queued:           0,        0KiB	 Writes Queued:           1,        4KiB`;
+
+describe('parseAddressTrace', () => {
+  it('lê o formato do Lackey e ignora as mensagens do Valgrind', () => {
+    expect(parseAddressTrace(LACKEY, 4096)).toEqual({
+      pages: [0x401, 0x1ffefff, 0x1ffefff, 0x402],
+      writes: [false, false, true, true],
+      skipped: 2,
+      truncated: false,
+    });
+  });
+
+  it('lê o formato R/W, com ou sem 0x, e endereços de 64 bits', () => {
+    const trace = parseAddressTrace(
+      'R 0x1000\nW 1fff\n# comentário\nr ffffffffffff0000',
+      1024
+    );
+    expect(trace.pages).toEqual([4, 7, 2 ** 54 - 64]);
+    expect(trace.writes).toEqual([false, true, false]);
+    expect(trace.skipped).toBe(1);
+  });
+});
+
+describe('parseBlockTrace', () => {
+  it('usa os eventos D do blkparse em ordem de chegada', () => {
+    const trace = parseBlockTrace(BLKPARSE);
+    expect(trace).toMatchObject({
+      blocks: [2048, 512],
+      writes: [true, false],
+      skipped: 4,
+      truncated: false,
+    });
+    expect(trace.arrivals[1]).toBeCloseTo(0.99);
+  });
+
+  it('lê o CSV "tempo,setor,op" e usa os Q quando não há D', () => {
+    const csv = parseBlockTrace('time,sector,op\n0.5,100,W\n0.25,300,Read');
+    expect(csv.blocks).toEqual([300, 100]);
+    expect(csv.arrivals).toEqual([0, 250]);
+    expect(csv.writes).toEqual([false, true]);
+    const queued = parseBlockTrace(BLKPARSE.replace(/ D /g, ' X '));
+    expect(queued.blocks).toEqual([2048]);
+  });
+
+  it('distribui os setores pelos cilindros', () => {
+    expect(blocksToCylinders([0, 500, 999], 200)).toEqual([0, 100, 199]);
+  });
+});
+
+describe('traces longos', () => {
+  it('renumera as páginas sem mudar o resultado', () => {
+    const pages = [0x7ffd1, 0x401, 0x7ffd1, 0x402];
+    expect(renumberPages(pages)).toEqual([0, 1, 0, 2]);
+    const writes = pages.map(() => false);
+    expect(comparePageTrace({ pages, writes }, 2)).toEqual(
+      comparePageTrace({ pages: renumberPages(pages), writes }, 2)
+    );
+  });
+
+  it('simula em janelas, continuando de onde a anterior parou', () => {
+    const cylinders = Array.from({ length: 450 }, (_, i) => (i * 37) % 200);
+    const arrivals = cylinders.map(() => 0);
+    const config = {
+      algorithm: 'FCFS',
+      diskSize: 200,
+      initialHead: 50,
+      direction: 'up',
+    } as const;
+    // No FCFS, as janelas não mudam a ordem de atendimento
+    const whole = simulateDiskScheduling(cylinders, config);
+    expect(summarizeBlockTrace(cylinders, arrivals, config)).toMatchObject({
+      totalSeek: whole.totalSeek,
+      maxResponse: whole.steps[whole.steps.length - 1].time,
+    });
+  });
+});
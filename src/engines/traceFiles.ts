@@ -0,0 +1,318 @@
+/**
+ * Leitura de traces reais: acessos à memória para a substituição de páginas
+ * e requisições de E/S de bloco para o escalonamento de disco.
+ *
+ * Traces de endereços (um acesso por linha):
+ * - Valgrind Lackey (`--tool=lackey --trace-mem=yes`): "I  04012a0,3",
+ *   " L 1ffefff8c0,8", " S ...", " M ..."; S e M são escritas.
+ * - "R/W endereço": "R 0x7ffd1000" ou "W 7ffd1008".
+ *
+ * Traces de bloco (uma requisição por linha):
+ * - Saída do blkparse: "8,0  1  3  0.000012  512  D  W  2048 + 8 [dd]".
+ *   Valem os eventos D (enviados ao disco); sem eles, os Q (enfileirados).
+ * - CSV "tempo,setor,op": "0.0012,2048,W", com o tempo em segundos. O
+ *   separador também pode ser espaço, e o cabeçalho é opcional.
+ *
+ * Linhas em outro formato (comentários, cabeçalhos, outras ações do
+ * blkparse) são ignoradas e contadas em `skipped`. Traces longos são
+ * lidos até `MAX_TRACE_REFERENCES` acessos.
+ */
+
+import {
+  DISK_ALGORITHMS,
+  DiskAlgorithm,
+  DiskSchedulingConfig,
+  simulateDiskScheduling,
+} from './diskScheduling';
+import {
+  PAGE_ALGORITHMS,
+  PageAlgorithm,
+  PageSummary,
+  summarizePageReplacement,
+} from './pageReplacement';
+
+export const MAX_TRACE_REFERENCES = 500000; // Acessos lidos de um arquivo
+export const MAX_INTERACTIVE_TRACE = 200; // Maior trace aberto passo a passo
+export const TRACE_WINDOW = 200; // Requisições por janela nos traces de bloco
+
+// Tamanhos de página oferecidos para converter endereços (bytes)
+export const TRACE_PAGE_SIZES = [1024, 2048, 4096, 8192, 16384, 65536];
+
+// A cada quantas linhas a leitura informa o progresso
+const PROGRESS_INTERVAL = 10000;
+
+/**
+ * Fração concluída de uma etapa (0 a 1), para a barra de progresso.
+ */
+export type ProgressCallback = (fraction: number) => void;
+
+export interface AddressTrace {
+  pages: number[];
+  writes: boolean[];
+  skipped: number; // Linhas ignoradas
+  truncated: boolean; // O arquivo tinha mais que MAX_TRACE_REFERENCES acessos
+}
+
+/**
+ * Requisições de um trace de bloco, em ordem de chegada.
+ * - `blocks`: Setor lógico (LBA) de cada requisição.
+ * - `arrivals`: Chegada em ms, contada a partir da primeira requisição.
+ */
+export interface BlockTrace {
+  blocks: number[];
+  arrivals: number[];
+  writes: boolean[];
+  skipped: number;
+  truncated: boolean;
+}
+
+const LACKEY_LINE = /^\s*([ILSM])\s+([0-9a-fA-F]+),\d+\s*$/;
+const RW_LINE = /^\s*([RrWw])\s+(?:0[xX])?([0-9a-fA-F]+)\s*$/;
+const BLKPARSE_LINE =
+  /^\s*\d+,\d+\s+\d+\s+\d+\s+(\d+(?:\.\d+)?)\s+\d+\s+([A-Z]+)\s+([A-Z]+)\s+(\d+)\s+\+\s+\d+/;
+const CSV_LINE =
+  /^\s*(\d+(?:\.\d+)?)\s*[,;\s]\s*(\d+)\s*[,;\s]\s*([A-Za-z]+)\s*$/;
+
+// Percorre as linhas do texto, informando o progresso de tempos em tempos
+function forEachLine(
+  text: string,
+  visit: (line: string) => void,
+  onProgress?: ProgressCallback
+) {
+  const lines = text.split(/\r?\n/);
+  lines.forEach((line, i) => {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) {
+      onProgress(i / lines.length);
+    }
+    visit(line);
+  });
+  onProgress?.(1);
+}
+
+/**
+ * Lê um trace de endereços e converte cada acesso na página do seu primeiro
+ * byte (endereço / `pageSize`). Os endereços podem ter 64 bits, por isso a
+ * divisão é feita com BigInt.
+ */
+export function parseAddressTrace(
+  text: string,
+  pageSize: number,
+  onProgress?: ProgressCallback
+): AddressTrace {
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new RangeError('O tamanho da página deve ser um inteiro positivo.');
+  }
+  const divisor = BigInt(pageSize);
+  const pages: number[] = [];
+  const writes: boolean[] = [];
+  let skipped = 0;
+  let truncated = false;
+
+  forEachLine(
+    text,
+    (line) => {
+      if (line.trim() === '' || truncated) return;
+      const match = LACKEY_LINE.exec(line) ?? RW_LINE.exec(line);
+      if (!match) {
+        skipped++;
+        return;
+      }
+      if (pages.length === MAX_TRACE_REFERENCES) {
+        truncated = true;
+        return;
+      }
+      pages.push(Number(BigInt(`0x${match[2]}`) / divisor));
+      writes.push('SMWw'.includes(match[1]));
+    },
+    onProgress
+  );
+
+  return { pages, writes, skipped, truncated };
+}
+
+/**
+ * Lê um trace de bloco no formato do blkparse ou em CSV "tempo,setor,op".
+ * As requisições são ordenadas pela chegada (empate: ordem do arquivo).
+ */
+export function parseBlockTrace(
+  text: string,
+  onProgress?: ProgressCallback
+): BlockTrace {
+  // Requisições por ação: D e Q do blkparse; o CSV entra como D
+  const found: Record<'D' | 'Q', [number, number, boolean][]> = {
+    D: [],
+    Q: [],
+  };
+  let skipped = 0;
+  let truncated = false;
+
+  forEachLine(
+    text,
+    (line) => {
+      if (line.trim() === '' || truncated) return;
+      const blk = BLKPARSE_LINE.exec(line);
+      const csv = blk ? null : CSV_LINE.exec(line);
+      let entry: [number, number, boolean] | null = null;
+      let action: 'D' | 'Q' = 'D';
+      if (blk && (blk[2] === 'D' || blk[2] === 'Q') && /[RW]/.test(blk[3])) {
+        action = blk[2];
+        entry = [Number(blk[1]) * 1000, Number(blk[4]), blk[3].includes('W')];
+      } else if (csv && /^[RrWw]/.test(csv[3])) {
+        entry = [Number(csv[1]) * 1000, Number(csv[2]), /^[Ww]/.test(csv[3])];
+      }
+      if (!entry) {
+        skipped++;
+      } else if (found[action].length === MAX_TRACE_REFERENCES) {
+        truncated = true;
+      } else {
+        found[action].push(entry);
+      }
+    },
+    onProgress
+  );
+
+  const entries = (found.D.length > 0 ? found.D : found.Q)
+    .map((entry, i) => ({ entry, i }))
+    .sort((a, b) => a.entry[0] - b.entry[0] || a.i - b.i)
+    .map(({ entry }) => entry);
+  const start = entries.length > 0 ? entries[0][0] : 0;
+  return {
+    blocks: entries.map(([, block]) => block),
+    arrivals: entries.map(([time]) => time - start),
+    writes: entries.map(([, , write]) => write),
+    skipped,
+    truncated,
+  };
+}
+
+/**
+ * Distribui os setores lógicos pelos cilindros em proporção linear: o
+ * maior setor do trace cai no último cilindro.
+ */
+export function blocksToCylinders(blocks: number[], diskSize: number) {
+  const span = blocks.reduce((max, block) => Math.max(max, block), 0) + 1;
+  return blocks.map((block) =>
+    Math.min(diskSize - 1, Math.floor((block / span) * diskSize))
+  );
+}
+
+/**
+ * Renumera as páginas na ordem do primeiro acesso (0, 1, 2...). O resultado
+ * da substituição não muda, e os números ficam legíveis no simulador.
+ */
+export function renumberPages(pages: number[]) {
+  const ids = new Map<number, number>();
+  return pages.map((page) => {
+    if (!ids.has(page)) ids.set(page, ids.size);
+    return ids.get(page)!;
+  });
+}
+
+export interface PageTraceSummary extends PageSummary {
+  algorithm: PageAlgorithm;
+}
+
+/**
+ * Executa todos os algoritmos de substituição sobre um trace longo e
+ * guarda só as métricas de cada um.
+ */
+export function comparePageTrace(
+  { pages, writes }: Pick<AddressTrace, 'pages' | 'writes'>,
+  frameCount: number,
+  onProgress?: ProgressCallback
+): PageTraceSummary[] {
+  return PAGE_ALGORITHMS.map((algorithm, i) => {
+    const summary = summarizePageReplacement(
+      pages,
+      { algorithm, frameCount, writes },
+      (step) => {
+        if (onProgress && step % PROGRESS_INTERVAL === 0) {
+          onProgress((i + step / pages.length) / PAGE_ALGORITHMS.length);
+        }
+      }
+    );
+    return { algorithm, ...summary };
+  });
+}
+
+export interface DiskTraceSummary {
+  algorithm: DiskAlgorithm;
+  totalSeek: number;
+  averageSeek: number;
+  averageResponse: number;
+  maxResponse: number;
+}
+
+/**
+ * Simula um trace de bloco longo em janelas de `TRACE_WINDOW` requisições
+ * consecutivas. Cada janela começa com o cabeçote, a direção e o relógio
+ * em que a anterior terminou; quem chegou antes disso já está na fila. Os
+ * tempos de resposta são contados a partir da chegada real.
+ */
+export function summarizeBlockTrace(
+  cylinders: number[],
+  arrivals: number[],
+  config: Omit<DiskSchedulingConfig, 'arrivals' | 'sectors'>,
+  onProgress?: ProgressCallback
+): Omit<DiskTraceSummary, 'algorithm'> {
+  let head = config.initialHead;
+  let direction = config.direction;
+  let clock = 0;
+  let totalSeek = 0;
+  let totalResponse = 0;
+  let maxResponse = 0;
+
+  for (let from = 0; from < cylinders.length; from += TRACE_WINDOW) {
+    onProgress?.(from / cylinders.length);
+    const window = cylinders.slice(from, from + TRACE_WINDOW);
+    const windowArrivals = arrivals.slice(from, from + TRACE_WINDOW);
+    const trace = simulateDiskScheduling(window, {
+      ...config,
+      initialHead: head,
+      direction,
+      batchSize: Math.min(config.batchSize ?? 4, window.length),
+      arrivals: windowArrivals.map((arrival) => Math.max(0, arrival - clock)),
+      sectors: window.map(() => 0),
+    });
+    trace.steps.forEach(({ requestIndex, time }) => {
+      if (requestIndex === null) return;
+      const response = clock + time - windowArrivals[requestIndex];
+      totalResponse += response;
+      maxResponse = Math.max(maxResponse, response);
+    });
+    const last = trace.steps[trace.steps.length - 1];
+    head = last.to;
+    direction = last.direction;
+    clock += last.time;
+    totalSeek += trace.totalSeek;
+  }
+
+  const count = Math.max(1, cylinders.length);
+  return {
+    totalSeek,
+    averageSeek: totalSeek / count,
+    averageResponse: totalResponse / count,
+    maxResponse,
+  };
+}
+
+/**
+ * Executa todos os algoritmos de escalonamento sobre um trace de bloco
+ * longo (ver `summarizeBlockTrace`).
+ */
+export function compareBlockTrace(
+  cylinders: number[],
+  arrivals: number[],
+  config: Omit<DiskSchedulingConfig, 'algorithm' | 'arrivals' | 'sectors'>,
+  onProgress?: ProgressCallback
+): DiskTraceSummary[] {
+  return DISK_ALGORITHMS.map((algorithm, i) => ({
+    algorithm,
+    ...summarizeBlockTrace(
+      cylinders,
+      arrivals,
+      { ...config, algorithm },
+      (fraction) => onProgress?.((i + fraction) / DISK_ALGORITHMS.length)
+    ),
+  }));
+}
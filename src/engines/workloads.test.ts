@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DISK_PATTERNS,
+  PAGE_PATTERNS,
+  createRandom,
+  generateArrivals,
+  generateDiskRequests,
+  generatePageReferences,
+  generateProcessReferences,
+} from './workloads';
+
+describe('createRandom', () => {
+  it('é reprodutível e gera valores em [0, 1)', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const values = Array.from({ length: 100 }, () => a());
+    expect(values).toEqual(Array.from({ length: 100 }, () => b()));
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+  });
+});
+
+describe('generatePageReferences', () => {
+  it.each(PAGE_PATTERNS)(
+    '%s respeita tamanho, intervalo e semente',
+    (pattern) => {
+      const options = { pattern, length: 50, pageCount: 8, seed: 7 };
+      const refs = generatePageReferences(options);
+      expect(refs).toHaveLength(50);
+      expect(refs.every((p) => Number.isInteger(p) && p >= 0 && p < 8)).toBe(
+        true
+      );
+      expect(generatePageReferences(options)).toEqual(refs);
+    }
+  );
+
+  it('sementes diferentes geram sequências diferentes', () => {
+    const options = { pattern: 'uniform', length: 30, pageCount: 10 } as const;
+    expect(generatePageReferences({ ...options, seed: 1 })).not.toEqual(
+      generatePageReferences({ ...options, seed: 2 })
+    );
+  });
+
+  it('loop repete as mesmas páginas em ordem', () => {
+    const refs = generatePageReferences({
+      pattern: 'loop',
+      length: 10,
+      pageCount: 4,
+      seed: 3,
+      loopLength: 4,
+    });
+    expect(refs).toEqual([0, 1, 2, 3, 0, 1, 2, 3, 0, 1]);
+  });
+
+  it('zipf concentra as referências nas páginas mais populares', () => {
+    const refs = generatePageReferences({
+      pattern: 'zipf',
+      length: 2000,
+      pageCount: 20,
+      seed: 11,
+    });
+    const counts = new Map<number, number>();
+    refs.forEach((p) => counts.set(p, (counts.get(p) ?? 0) + 1));
+    const top = Math.max(...counts.values());
+    // Com s = 1 e 20 páginas, a mais popular recebe cerca de 28% das referências
+    expect(top / refs.length).toBeGreaterThan(0.2);
+  });
+
+  it('locality mantém poucas páginas distintas em cada fase', () => {
+    const refs = generatePageReferences({
+      pattern: 'locality',
+      length: 80,
+      pageCount: 50,
+      seed: 5,
+      workingSetSize: 3,
+      phaseLength: 8,
+    });
+    const distinctPerPhase = Array.from(
+      { length: 10 },
+      (_, i) => new Set(refs.slice(i * 8, i * 8 + 8)).size
+    );
+    const average =
+      distinctPerPhase.reduce((sum, n) => sum + n, 0) / distinctPerPhase.length;
+    expect(average).toBeLessThan(5);
+  });
+});
+
+describe('generateProcessReferences', () => {
+  it('gera uma sequência por processo, cada uma com sua semente', () => {
+    const processes = generateProcessReferences(3, 7, 20, 6);
+    expect(processes).toHaveLength(3);
+    expect(processes[1]).toEqual(
+      generatePageReferences({
+        pattern: 'locality',
+        length: 20,
+        pageCount: 6,
+        seed: 8,
+        workingSetSize: 3,
+        phaseLength: 25,
+      })
+    );
+    expect(processes[0]).not.toEqual(processes[1]);
+  });
+});
+
+describe('generateDiskRequests', () => {
+  it.each(DISK_PATTERNS)(
+    '%s respeita quantidade, disco e semente',
+    (pattern) => {
+      const options = { pattern, count: 40, diskSize: 200, seed: 9 };
+      const requests = generateDiskRequests(options);
+      expect(requests).toHaveLength(40);
+      expect(
+        requests.every((p) => Number.isInteger(p) && p >= 0 && p < 200)
+      ).toBe(true);
+      expect(generateDiskRequests(options)).toEqual(requests);
+    }
+  );
+
+  it('edge concentra as requisições nas bordas do disco', () => {
+    const requests = generateDiskRequests({
+      pattern: 'edge',
+      count: 1000,
+      diskSize: 1000,
+      seed: 4,
+    });
+    const nearEdge = requests.filter((p) => p < 100 || p >= 900).length;
+    expect(nearEdge / requests.length).toBeGreaterThan(0.7);
+  });
+
+  it('rejeita parâmetros inválidos', () => {
+    expect(() =>
+      generateDiskRequests({
+        pattern: 'uniform',
+        count: 0,
+        diskSize: 10,
+        seed: 1,
+      })
+    ).toThrow(RangeError);
+  });
+});
+
+describe('generateArrivals', () => {
+  it('gera chegadas crescentes a partir do instante 0', () => {
+    const options = { count: 30, meanGap: 10, seed: 3 };
+    const arrivals = generateArrivals(options);
+    expect(arrivals).toHaveLength(30);
+    expect(arrivals[0]).toBe(0);
+    expect(arrivals.every((a, i) => i === 0 || a >= arrivals[i - 1])).toBe(
+      true
+    );
+    expect(generateArrivals(options)).toEqual(arrivals);
+  });
+
+  it('com intervalo 0, todas chegam juntas', () => {
+    expect(generateArrivals({ count: 4, meanGap: 0, seed: 1 })).toEqual([
+      0, 0, 0, 0,
+    ]);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Geradores de cargas de trabalho reprodutíveis.
+ *
+ * Todos os geradores usam um PRNG com semente: a mesma semente e os mesmos
+ * parâmetros produzem sempre a mesma sequência, o que permite repetir um
+ * experimento ou compartilhá-lo com a turma.
+ */
+
+export type PagePattern = 'uniform' | 'locality' | 'loop' | 'zipf';
+
+export const PAGE_PATTERNS: readonly PagePattern[] = [
+  'uniform',
+  'locality',
+  'loop',
+  'zipf',
+];
+
+export type DiskPattern = 'uniform' | 'clustered' | 'edge';
+
+export const DISK_PATTERNS: readonly DiskPattern[] = [
+  'uniform',
+  'clustered',
+  'edge',
+];
+
+/**
+ * Parâmetros do gerador de referências de páginas.
+ * - `pageCount`: Quantidade de páginas distintas (0 a pageCount - 1).
+ * - `workingSetSize` / `phaseLength`: Tamanho do conjunto de trabalho e
+ *   duração de cada fase (padrão `locality`). Padrão: 3 e 8.
+ * - `loopLength`: Páginas percorridas em cada volta (padrão `loop`). Padrão: 4.
+ * - `zipfExponent`: Expoente da distribuição de Zipf. Padrão: 1.
+ */
+export interface PageWorkloadOptions {
+  pattern: PagePattern;
+  length: number;
+  pageCount: number;
+  seed: number;
+  workingSetSize?: number;
+  phaseLength?: number;
+  loopLength?: number;
+  zipfExponent?: number;
+}
+
+export interface DiskWorkloadOptions {
+  pattern: DiskPattern;
+  count: number;
+  diskSize: number;
+  seed: number;
+}
+
+/**
+ * Parâmetros do gerador de chegadas.
+ * - `meanGap`: Intervalo médio entre chegadas consecutivas, em ticks
+ *   (0 = todas no instante 0).
+ */
+export interface ArrivalOptions {
+  count: number;
+  meanGap: number;
+  seed: number;
+}
+
+/**
+ * PRNG mulberry32: rápido, com período de 2^32 e suficiente para fins
+ * didáticos. Retorna uma função que gera números em [0, 1).
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Inteiro uniforme em [0, max)
+const randomInt = (random: () => number, max: number) =>
+  Math.floor(random() * max);
+
+// Escolhe `size` valores distintos de [0, max)
+const sample = (random: () => number, max: number, size: number) => {
+  const pool = Array.from({ length: max }, (_, i) => i);
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, Math.min(size, max));
+};
+
+const assertPositive = (value: number, label: string) => {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new RangeError(`${label} deve ser um inteiro positivo.`);
+  }
+};
+
+/**
+ * Gera uma sequência de referências de páginas.
+ * - uniform: Cada referência é uma página qualquer, com a mesma probabilidade.
+ * - locality: Fases em que 90% das referências caem em um pequeno conjunto
+ *   de trabalho, que muda a cada fase.
+ * - loop: Percorre repetidamente as mesmas páginas em ordem (ex.: 0 1 2 3 0 1 2 3).
+ * - zipf: Poucas páginas muito populares e uma cauda longa de páginas raras.
+ */
+export function generatePageReferences({
+  pattern,
+  length,
+  pageCount,
+  seed,
+  workingSetSize = 3,
+  phaseLength = 8,
+  loopLength = 4,
+  zipfExponent = 1,
+}: PageWorkloadOptions): number[] {
+  assertPositive(length, 'O tamanho da sequência');
+  assertPositive(pageCount, 'O número de páginas');
+
+  const random = createRandom(seed);
+  switch (pattern) {
+    case 'uniform':
+      return Array.from({ length }, () => randomInt(random, pageCount));
+    case 'locality': {
+      const references: number[] = [];
+      let workingSet: number[] = [];
+      for (let i = 0; i < length; i++) {
+        if (i % phaseLength === 0) {
+          workingSet = sample(random, pageCount, workingSetSize);
+        }
+        references.push(
+          random() < 0.9
+            ? workingSet[randomInt(random, workingSet.length)]
+            : randomInt(random, pageCount)
+        );
+      }
+      return references;
+    }
+    case 'loop': {
+      const size = Math.min(loopLength, pageCount);
+      const start = randomInt(random, pageCount - size + 1);
+      return Array.from({ length }, (_, i) => start + (i % size));
+    }
+    case 'zipf': {
+      // A página de posição k no ranking tem peso 1 / k^s
+      const ranking = sample(random, pageCount, pageCount);
+      const weights = ranking.map((_, k) => 1 / Math.pow(k + 1, zipfExponent));
+      const total = weights.reduce((sum, w) => sum + w, 0);
+      return Array.from({ length }, () => {
+        let target = random() * total;
+        const k = weights.findIndex((w) => (target -= w) < 0);
+        return ranking[k === -1 ? ranking.length - 1 : k];
+      });
+    }
+  }
+}
+
+/**
+ * Gera as sequências de `count` processos com localidade, cada um com sua
+ * semente (`seed`, `seed + 1`, ...). Processos assim cabem bem em poucos
+ * frames, mas juntos em excesso disputam a memória: a carga da
+ * demonstração de thrashing.
+ */
+export function generateProcessReferences(
+  count: number,
+  seed: number,
+  length = 50,
+  pageCount = 10
+): number[][] {
+  assertPositive(count, 'O número de processos');
+  return Array.from({ length: count }, (_, i) =>
+    generatePageReferences({
+      pattern: 'locality',
+      length,
+      pageCount,
+      seed: seed + i,
+      workingSetSize: 3,
+      phaseLength: 25,
+    })
+  );
+}
+
+/**
+ * Gera uma fila de requisições de disco.
+ * - uniform: Cilindros distribuídos uniformemente pelo disco.
+ * - clustered: Requisições concentradas em torno de 2 ou 3 regiões.
+ * - edge: 80% das requisições nos 10% iniciais ou finais do disco.
+ */
+export function generateDiskRequests({
+  pattern,
+  count,
+  diskSize,
+  seed,
+}: DiskWorkloadOptions): number[] {
+  assertPositive(count, 'O número de requisições');
+  assertPositive(diskSize, 'O número de cilindros');
+
+  const random = createRandom(seed);
+  const clamp = (p: number) =>
+    Math.min(diskSize - 1, Math.max(0, Math.round(p)));
+
+  switch (pattern) {
+    case 'uniform':
+      return Array.from({ length: count }, () => randomInt(random, diskSize));
+    case 'clustered': {
+      const centers = Array.from({ length: 2 + randomInt(random, 2) }, () =>
+        randomInt(random, diskSize)
+      );
+      const spread = diskSize * 0.05;
+      return Array.from({ length: count }, () => {
+        // Soma de uniformes: aproximação simples de uma normal em torno do centro
+        const offset = (random() + random() + random() - 1.5) * 2 * spread;
+        return clamp(centers[randomInt(random, centers.length)] + offset);
+      });
+    }
+    case 'edge': {
+      const band = Math.max(1, Math.floor(diskSize * 0.1));
+      return Array.from({ length: count }, () => {
+        if (random() >= 0.8) return randomInt(random, diskSize);
+        const offset = randomInt(random, band);
+        return random() < 0.5 ? offset : diskSize - 1 - offset;
+      });
+    }
+  }
+}
+
+/**
+ * Gera instantes de chegada como um processo de Poisson: intervalos
+ * exponenciais de média `meanGap`, arredondados para ticks inteiros. A
+ * primeira requisição chega no instante 0.
+ */
+export function generateArrivals({
+  count,
+  meanGap,
+  seed,
+}: ArrivalOptions): number[] {
+  assertPositive(count, 'O número de requisições');
+  if (!Number.isFinite(meanGap) || meanGap < 0) {
+    throw new RangeError('O intervalo médio não pode ser negativo.');
+  }
+
+  const random = createRandom(seed);
+  let time = 0;
+  return Array.from({ length: count }, (_, i) => {
+    if (i > 0) time += -meanGap * Math.log(1 - random());
+    return Math.round(time);
+  });
+}
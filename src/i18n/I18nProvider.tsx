@@ -0,0 +1,60 @@
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { I18nContext } from './context';
+import {
+  INTL_LOCALES,
+  Locale,
+  createTranslator,
+  detectLocale,
+  formatNumber,
+} from './translate';
+
+// Chave do idioma escolhido no localStorage
+const STORAGE_KEY = 'locale';
+
+// O localStorage pode estar indisponível (modo privado, SSR)
+function savedLocale() {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+interface I18nProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Fornece o idioma à aplicação. A escolha é lembrada no localStorage e
+ * refletida no atributo `lang` e no título do documento.
+ */
+export function I18nProvider({ children }: I18nProviderProps) {
+  const [locale, setLocale] = useState<Locale>(() =>
+    detectLocale(savedLocale(), window.navigator.language)
+  );
+
+  const t = useMemo(() => createTranslator(locale), [locale]);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+      // Sem armazenamento, a escolha vale apenas para esta visita
+    }
+    document.documentElement.lang = INTL_LOCALES[locale];
+    document.title = t('app.title');
+  }, [locale, t]);
+
+  const value = useMemo(
+    () => ({
+      locale,
+      setLocale,
+      t,
+      formatNumber: (value: number, options?: Intl.NumberFormatOptions) =>
+        formatNumber(locale, value, options),
+    }),
+    [locale, t]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,27 @@
+import { Fragment, ReactNode } from 'react';
+
+interface RichTextProps {
+  text: string; // Mensagem já traduzida, com marcadores `{nome}` restantes
+  values: Record<string, ReactNode>;
+}
+
+/**
+ * Exibe uma mensagem traduzida trocando os marcadores restantes por
+ * elementos, para destacar trechos (ex.: em negrito) sem quebrar a frase
+ * em várias chaves do catálogo.
+ */
+export function RichText({ text, values }: RichTextProps) {
+  // Com o grupo de captura, os nomes dos marcadores ficam nos índices ímpares
+  const parts = text.split(/\{(\w+)\}/);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <Fragment key={i}>{values[part] ?? `{${part}}`}</Fragment>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import { Locale, Translate, formatNumber, translatePt } from './translate';
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+// Fora do provedor (ex.: testes), tudo fica em português
+export const I18nContext = createContext<I18n>({
+  locale: 'pt',
+  setLocale: () => undefined,
+  t: translatePt,
+  formatNumber: (value, options) => formatNumber('pt', value, options),
+});
+
+/**
+ * Idioma atual, tradutor e formatador de números.
+ */
+export function useI18n() {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,1262 @@
+import type { Messages } from './translate';
+
+/**
+ * Catálogo em inglês.
+ */
+export const en: Messages = {
+  app: {
+    title: 'Operating Systems Algorithm Visualizer',
+    subtitle:
+      'Interactive demonstrations of Page Replacement and Disk Scheduling algorithms. Explore how these algorithms work and how they affect system performance.',
+    language: 'Language',
+    explore: 'In this simulation you can explore the main algorithms:',
+    pageHeading: 'Page Replacement Algorithms',
+    pageIntro:
+      'Page replacement algorithms are at the heart of virtual memory management in operating systems. When a {term} occurs and there are no free frames in memory, the operating system must choose which page to evict to make room for the requested page.',
+    pageTerm: 'page fault',
+    pageList: {
+      fifo: {
+        name: 'FIFO (First In, First Out)',
+        text: 'Replaces the oldest page in memory.',
+      },
+      lru: {
+        name: 'LRU (Least Recently Used)',
+        text: 'Replaces the page that has gone unused the longest.',
+      },
+      opt: {
+        name: "OPT (Belady's Optimal)",
+        text: 'Replaces the page that will not be used for the longest time.',
+      },
+      clock: {
+        name: 'Clock and Enhanced Second Chance',
+        text: 'Approximate LRU using reference (and modify) bits and a circular hand.',
+      },
+      frequency: {
+        name: 'LFU and MFU',
+        text: 'Choose the victim by how many times each page was accessed.',
+      },
+      nru: {
+        name: 'NRU (Not Recently Used)',
+        text: 'Evicts a page from the lowest class formed by the reference and modify bits.',
+      },
+    },
+    diskHeading: 'Disk Scheduling Algorithms',
+    diskIntro:
+      'Disk scheduling algorithms decide the order in which I/O requests are served. The goal is to minimize the {term} and make the most of the disk.',
+    diskTerm: 'seek time',
+    translationHeading: 'Virtual Address Translation',
+    translationIntro:
+      'The MMU translates every virtual address into a physical address. The page number is looked up first in the {term}, a small cache of recent translations, and only on a miss in the page table. If the page is not in memory, a page fault occurs and is resolved by the same replacement algorithms as in the previous section.',
+    translationTerm: 'TLB',
+    multiHeading: 'Multiple Processes and Thrashing',
+    multiIntro:
+      'In practice, several processes share the same physical memory. The system must decide how many frames each one gets and whether a page fault may take frames from another process. With too many processes in memory, none of them has enough frames, page faults multiply and the CPU spends most of its time waiting for the disk: this is {term}.',
+    multiTerm: 'thrashing',
+    cpuHeading: 'CPU Scheduling',
+    cpuIntro:
+      'When several processes are ready to run, the {term} decides which one uses the CPU and for how long. The choice changes how long each process waits in the queue and how quickly it responds, even though the total work is the same.',
+    cpuTerm: 'scheduler',
+    cpuList: {
+      fcfs: {
+        name: 'FCFS (First Come, First Served)',
+        text: 'Runs the processes in arrival order, each to completion.',
+      },
+      sjf: {
+        name: 'SJF and SRTF',
+        text: 'Pick the shortest process; SRTF preempts the running one when a process with less remaining time arrives.',
+      },
+      rr: {
+        name: 'Round Robin',
+        text: 'Takes turns between the processes, giving each at most one time quantum at a time.',
+      },
+      priority: {
+        name: 'Priority',
+        text: 'Runs the highest-priority process, with or without preemption.',
+      },
+      mlfq: {
+        name: 'MLFQ (Multilevel Feedback Queue)',
+        text: 'Uses several queues and demotes processes that use up their quantum, favoring short and interactive ones.',
+      },
+    },
+    deadlockHeading: 'Deadlocks',
+    deadlockIntro:
+      'A {term} happens when every process in a group waits for a resource held by another process in the same group, and none of them can proceed. The system can avoid it by granting only requests that keep the state safe, or detect it by looking for cycles in the resource-allocation graph.',
+    deadlockTerm: 'deadlock',
+    memoryHeading: 'Memory Allocation',
+    memoryIntro:
+      'Without paging, each process takes a contiguous stretch of memory. As blocks are allocated and freed, free memory breaks up into holes, and a request can fail even though there is enough space in total: this is {term}.',
+    memoryTerm: 'external fragmentation',
+    memoryList: {
+      firstFit: {
+        name: 'First Fit',
+        text: 'Uses the first hole, from the start of memory, that the request fits in.',
+      },
+      bestFit: {
+        name: 'Best Fit',
+        text: 'Uses the smallest hole that holds the request, leaving the smallest leftover.',
+      },
+      worstFit: {
+        name: 'Worst Fit',
+        text: 'Uses the largest hole, so that the leftover is still useful.',
+      },
+      nextFit: {
+        name: 'Next Fit',
+        text: 'Like First Fit, but resumes the search where the last allocation stopped.',
+      },
+      buddy: {
+        name: 'Buddy system',
+        text: 'Splits memory into power-of-2 blocks and joins pairs of free blocks back together.',
+      },
+    },
+    diskList: {
+      fcfs: {
+        name: 'FCFS (First Come, First Served)',
+        text: 'Serves requests in arrival order.',
+      },
+      sstf: {
+        name: 'SSTF (Shortest Seek Time First)',
+        text: 'Serves the request closest to the current head position.',
+      },
+      scan: {
+        name: 'SCAN (Elevator Algorithm)',
+        text: 'Moves the head in one direction, serving requests along the way.',
+      },
+      look: {
+        name: 'LOOK',
+        text: 'Like SCAN, but turns around at the last request instead of going to the edge of the disk.',
+      },
+      circular: {
+        name: 'C-SCAN and C-LOOK',
+        text: 'Serve in a single direction and return to the start at the end of each sweep.',
+      },
+      batch: {
+        name: 'N-step SCAN and FSCAN',
+        text: 'Serve the queue in batches, so new requests cannot hold the head in place.',
+      },
+    },
+    github: 'View on GitHub',
+    learnMore: 'Learn More',
+    tagline: 'Interactive Educational Tool for Operating Systems Concepts',
+    credits: 'Made with ❤️ by Pedro Ramos',
+  },
+
+  common: {
+    algorithm: 'Algorithm',
+    pause: 'Pause',
+    play: 'Play',
+    next: 'Next step',
+    reset: 'Restart',
+    fault: 'Fault',
+    hit: 'Hit',
+    pageFaults: 'Page Faults',
+    hits: 'Hits',
+    hitRatio: 'Hit Ratio',
+    settings: 'Settings',
+    apply: 'Apply and restart',
+    generate: 'Generate and apply',
+    pattern: 'Pattern',
+    length: 'Length',
+    distinctPages: 'Distinct pages',
+    seed: 'Seed',
+    randomSeed: 'Random seed',
+    about: 'About the Algorithm',
+    up: 'moving up',
+    down: 'moving down',
+    yes: 'yes',
+    no: 'no',
+    writeBacks: 'Write-backs',
+    totalIO: 'Total I/O',
+  },
+
+  input: {
+    required: 'Enter {label}.',
+    notInteger: '{label} must be an integer.',
+    outOfRange: '{label} must be between {min} and {max}.',
+    notNumber: '{label} must be a number.',
+    emptyList: 'Enter at least one value in {label}.',
+    invalidItem: '"{token}" (item {index}) is not a non-negative integer.',
+    invalidReference:
+      '"{token}" (item {index}) is not a valid reference (e.g. 3, 3r or 3w).',
+    invalidAddress:
+      '"{token}" (item {index}) is not a decimal or hexadecimal (0x...) address.',
+    missingAddress: '"{token}" (item {index}) must come before an address.',
+    addressOutOfRange:
+      '{token} (item {index}) is outside the address space (maximum {max}).',
+    itemOutOfRange: '{value} (item {index}) is outside the range {min}–{max}.',
+    invalidCpuProcess:
+      'P{pid}: enter the arrival, the burst and, optionally, the priority.',
+    wrongRowLength: 'must have {count} values, one per resource.',
+    invalidEdge:
+      'Line {line}: "{text}" is not an edge (e.g. P0 -> R1 or R1 -> P0).',
+    unknownNode: 'Line {line}: {node} does not exist.',
+    tooManyLines: '{label} can have at most {max} lines.',
+    invalidMemoryCommand:
+      '"{text}" is not a command (e.g. A 100, free A or compact).',
+    alreadyAllocated: '{name} is already allocated.',
+    notAllocated: '{name} is not allocated.',
+    labels: {
+      references: 'the reference string',
+      frames: 'the number of frames',
+      maxFrames: 'the maximum number of frames',
+      length: 'the length',
+      pageCount: 'the number of pages',
+      seed: 'the seed',
+      diskSize: 'the number of cylinders',
+      initialHead: 'the initial head position',
+      requests: 'the request queue',
+      count: 'the count',
+      rpm: 'the rotation speed',
+      settleTime: 'the settle time',
+      seekFactor: 'the seek factor',
+      sectorsPerTrack: 'the number of sectors per track',
+      sectors: 'the sectors',
+      arrivals: 'the arrivals',
+      headSpeed: 'the head speed',
+      meanGap: 'the mean gap',
+      addresses: 'the addresses',
+      addressBits: 'the address width',
+      tlbSize: 'the TLB size',
+      tlbTime: 'the TLB time',
+      memoryTime: 'the memory time',
+      faultTime: 'the page fault time',
+      processes: 'the processes',
+      processCount: 'the number of processes',
+      process: 'the references of P{pid}',
+      window: 'the window',
+      pffLower: 'the PFF minimum rate',
+      pffUpper: 'the PFF maximum rate',
+      arrival: 'the arrival',
+      burst: 'the burst',
+      priority: 'the priority',
+      quantum: 'the quantum',
+      mlfqQuanta: 'the MLFQ quanta',
+      row: 'line {row}',
+      available: 'the Available vector',
+      max: 'the Max matrix',
+      allocation: 'the Allocation matrix',
+      request: 'the request',
+      instances: 'the instances',
+      script: 'the script',
+      requestSize: 'the request size',
+      batchSize: 'the batch size',
+    },
+  },
+
+  page: {
+    modes: {
+      simulation: 'Simulation',
+      quiz: 'Exercise',
+      comparison: 'Compare algorithms',
+      belady: "Belady's Anomaly",
+    },
+    titles: {
+      simulation: 'Page Replacement Algorithm: {algorithm}',
+      quiz: 'Page Replacement Exercise',
+      comparison: 'Page Replacement Algorithm Comparison',
+      belady: "Belady's Anomaly Explorer",
+    },
+    tooltipTitle: 'What are Page Faults?',
+    tooltipContent:
+      'A page fault happens when a requested page is not in physical memory (RAM) and must be loaded from disk. The fewer page faults, the better the algorithm performs.',
+    initialNarration: 'Choose an algorithm and press Play to start.',
+    finished: 'Simulation finished! You can restart it to watch again.',
+    imported: 'Scenario imported.',
+    metadata: {
+      loadedAt: 'loaded t={time}',
+      lastUsedAt: 'used t={time}',
+      nextUse: 'next t={time}',
+      frequency: 'accesses={count}',
+    },
+    hand: '▲ hand',
+    dirty: 'Modified page (dirty)',
+    entering: 'new',
+    ioBreakdown: '{faults} reads + {writeBacks} write-backs',
+    references: 'Reference String',
+    settings: {
+      references: 'Reference string (suffix w = write)',
+      frames: 'Frames (1–{max})',
+      generator: 'Sequence generator',
+      patterns: {
+        uniform: 'Uniform random',
+        locality: 'Locality (phases)',
+        loop: 'Loop',
+        zipf: 'Zipf',
+      },
+    },
+  },
+
+  translation: {
+    title: 'Address Translation with {algorithm}',
+    tooltipTitle: 'What is the TLB?',
+    tooltipContent:
+      'The TLB (Translation Lookaside Buffer) is a small, fast associative memory that keeps the most recent page → frame translations. A TLB hit skips the page table lookup, saving one memory access.',
+    initialNarration:
+      'Configure the addresses and click Play to translate them one by one.',
+    finished:
+      'All addresses have been translated! You can reset to watch again.',
+    settings: {
+      addresses:
+        'Virtual addresses (decimal or hexadecimal with 0x; W before a write)',
+      addressBits: 'Address bits ({min}–{max})',
+      pageSize: 'Page size',
+      pageSizeTooLarge: 'The page must be smaller than the address space.',
+      tlbSize: 'TLB entries (1–{max})',
+      tlbPolicy: 'TLB replacement',
+      times: 'Access costs (ns)',
+      tlbTime: 'TLB',
+      memoryTime: 'Memory',
+      faultTime: 'Page fault',
+    },
+    policies: {
+      FIFO: 'FIFO (oldest entry)',
+      LRU: 'LRU (least recently used)',
+    },
+    bytes: '{size} bytes',
+    addresses: 'Addresses',
+    addressesLegend:
+      'Green: TLB hit; blue: TLB miss resolved by the page table; red: page fault. W marks a write, which sets the D bit of the page. Click an address to jump to it.',
+    layout: 'Virtual address: {pageBits} page bits + {offsetBits} offset bits.',
+    waiting: 'Step the simulation forward to translate the first address.',
+    virtualAddress: 'Virtual address',
+    physicalAddress: 'Physical address',
+    pageNumber: 'page {page}',
+    offset: 'offset {offset}',
+    frameNumber: 'frame {frame}',
+    tlbHit: 'TLB hit',
+    tlbMiss: 'TLB miss',
+    pageFault: 'Page fault',
+    tlb: 'TLB ({policy})',
+    pageTable: 'Page Table',
+    page: 'Page',
+    frame: 'Frame',
+    empty: 'free',
+    bitsLegend:
+      'V: valid (page in memory); D: dirty (modified); R: referenced.',
+    tlbHitRate: 'TLB Hit Rate',
+    hitsAndMisses: '{hits} hits, {misses} misses',
+    effectiveAccessTime: 'Effective Access Time',
+    nanoseconds: '{time} ns',
+    withFaults: 'Measured average, including page faults: {time}',
+    about: 'How Translation Works',
+    aboutText:
+      'The virtual address is split into a page number (most significant bits) and an offset (least significant bits). The offset is copied unchanged into the physical address; only the page number is replaced by the frame number. With a TLB hit rate h, the effective access time without page faults is EAT = h × (TLB + memory) + (1 − h) × (TLB + 2 × memory).',
+  },
+
+  multi: {
+    title: 'Memory Shared by {count} Processes',
+    tooltipTitle: 'What is thrashing?',
+    tooltipContent:
+      'Thrashing happens when processes do not have enough frames for their working sets: they spend more time waiting for the disk to serve page faults than executing. The CPU sits idle and, if the system reacts by admitting even more processes, things get worse.',
+    initialNarration:
+      'Configure the processes and click Play to run them round robin, one reference at a time.',
+    finished: 'All processes have finished! You can reset to watch again.',
+    settings: {
+      processes: 'Processes: one reference string per line (up to {max})',
+      frames: 'Frames in memory ({max} at most)',
+      faultTime: 'Page fault time (ticks)',
+      allocation: 'Frame allocation',
+      scope: 'Replacement',
+      controller: 'Load control',
+      window: 'Window Δ (references)',
+      pffLower: 'PFF: minimum rate (%)',
+      pffUpper: 'PFF: maximum rate (%)',
+      tooFewFrames: 'Each process needs at least one frame.',
+      pffOrder: 'The PFF minimum rate cannot exceed the maximum.',
+      scopeLocked: 'With load control, replacement is always local.',
+      thrashingDemo: 'Thrashing demo',
+    },
+    allocations: {
+      equal: 'Equal (m / n frames)',
+      proportional: 'Proportional to size',
+    },
+    scopes: {
+      global: 'Global (LRU among all frames)',
+      local: "Local (LRU among the process's frames)",
+    },
+    controllers: {
+      none: 'None',
+      workingSet: 'Working set',
+      pff: 'Page-fault frequency (PFF)',
+    },
+    pool: 'Memory Frames',
+    poolLegend:
+      'Each colour is a process; the border highlights the frame used in the current step.',
+    free: 'free',
+    processes: 'Processes',
+    process: 'Process',
+    size: 'Size (pages)',
+    status: 'State',
+    statuses: {
+      ready: 'ready',
+      blocked: 'waiting for disk',
+      suspended: 'suspended',
+      finished: 'finished',
+    },
+    progress: 'References',
+    faultRate: 'Fault rate',
+    frames: 'Frames (held / quota)',
+    cpuUtilization: 'CPU Utilization',
+    busyTime: 'CPU busy for {busy} of {time} ticks',
+    elapsed: 'Elapsed Time',
+    ticks: '{time} ticks',
+    curveTitle: 'CPU Utilization × Degree of Multiprogramming',
+    degree: 'Processes in memory',
+    percent: '%',
+    utilizationSeries: 'CPU utilization (%)',
+    faultRateSeries: 'Page fault rate (%)',
+    curveLegend:
+      'Each point runs the first n processes with the same memory. The red circle marks the peak: from there on, each extra process leaves fewer frames for everyone, page faults rise and the CPU waits for the disk.',
+    about: 'Allocation, Scope and Load Control',
+    aboutText:
+      'With equal allocation, each of the n processes gets m / n frames; with proportional allocation, a process of size s gets s / S × m, where S is the sum of the sizes. With local replacement, a process only replaces its own pages and stays within its quota; with global replacement, the victim is the least recently used page in the whole memory, even if it belongs to another process. Working-set control gives each process frames for the pages used in its last Δ references and suspends processes when the total exceeds memory; PFF measures the page fault rate of each process and gives a frame to those above the maximum or takes one from those below the minimum.',
+  },
+
+  pageAlgorithms: {
+    FIFO: {
+      name: 'First In, First Out',
+      description:
+        'FIFO (First In, First Out) replaces the oldest page in memory, regardless of how often it is used. It is simple to implement but may not be the most efficient.',
+    },
+    LRU: {
+      name: 'Least Recently Used',
+      description:
+        'LRU (Least Recently Used) replaces the page that has gone unused the longest. It usually beats FIFO because it takes the usage history of pages into account.',
+    },
+    OPT: {
+      name: 'Optimal (Belady)',
+      description:
+        "OPT (Belady's optimal algorithm) replaces the page that will not be used for the longest time. It yields the fewest possible page faults but requires knowing future references, so it only serves as a baseline for comparison.",
+    },
+    CLOCK: {
+      name: 'Second Chance / Clock',
+      description:
+        'Clock (Second Chance) arranges the frames in a circle with a hand. Each page has a reference bit R, set on every access. On replacement, pages with R = 1 get a second chance (R is cleared) and the hand advances until it finds a page with R = 0.',
+    },
+    ESC: {
+      name: 'Enhanced Second Chance',
+      description:
+        'Enhanced Second Chance looks at the (R, M) pair of reference and modify bits. The hand first looks for a (0, 0) page; failing that, it looks for (0, 1) while clearing R bits along the way, and repeats. Modified pages are avoided because they must be written to disk before leaving.',
+    },
+    LFU: {
+      name: 'Least Frequently Used',
+      description:
+        'LFU (Least Frequently Used) keeps an access counter per page and replaces the one with the lowest count. Pages used heavily in the past tend to stay, even when they are no longer needed.',
+    },
+    MFU: {
+      name: 'Most Frequently Used',
+      description:
+        'MFU (Most Frequently Used) replaces the page with the highest access count, assuming pages with few accesses were just loaded and will still be used.',
+    },
+    NRU: {
+      name: 'Not Recently Used',
+      description:
+        'NRU (Not Recently Used) classifies pages by their (R, M) bits and evicts a page from the lowest class. Periodically a clock interrupt clears every R bit, separating recently used pages from the rest.',
+    },
+  },
+
+  disk: {
+    modes: {
+      simulation: 'Simulation',
+      quiz: 'Exercise',
+      comparison: 'Compare algorithms',
+    },
+    titles: {
+      simulation: 'Disk Scheduling Algorithm: {algorithm}',
+      quiz: 'Disk Scheduling Exercise',
+      comparison: 'Disk Scheduling Algorithm Comparison',
+    },
+    tooltipTitle: 'What is Seek Time?',
+    tooltipContent:
+      'Seek time is the time it takes to move the disk head from one position to another. The lower the total seek time, the more efficient the algorithm.',
+    countReturn: 'Count the return sweep in the seek time',
+    batchSize: 'N (N-step SCAN):',
+    view: 'Disk View (Head Position and Requests)',
+    returnToStart: '— return to the start',
+    notCounted: ' (not counted)',
+    edgeMove: '— move to the edge of the disk',
+    headPosition: 'Head Position',
+    direction: 'Direction',
+    totalSeek: 'Total Seek Distance (cylinders)',
+    clock: 'Clock ({unit})',
+    units: {
+      ticks: 'ticks',
+      ms: 'ms',
+    },
+    totalTime: 'Access Time (ms)',
+    timeBreakdown: 'seek {seek} + rotation {latency} + transfer {transfer}',
+    timing: {
+      title: 'Disk timing model',
+      enabled: 'Compute the real access time (ms)',
+      description:
+        'Seek = settle + factor × √distance. After seeking, the head waits for the sector to come around (rotational latency) and reads the whole sector (transfer). With the model on, the clock counts milliseconds and SPTF takes rotation into account.',
+      rpm: 'Rotation (RPM)',
+      settleTime: 'Settle (ms)',
+      seekFactor: 'Seek factor (ms/√cylinder)',
+      sectorsPerTrack: 'Sectors per track',
+      sectors: 'Sector of each request',
+      sectorsHint: 'Leave blank to place every request on sector 0.',
+      sectorsLength: 'Enter one sector per request ({count}).',
+      randomSectors: 'Random sectors',
+      rotation:
+        'One revolution takes {period} ms; each sector passes in {sector} ms.',
+    },
+    starvingLegend: 'Orange (!): request waiting beyond the limit',
+    legend: {
+      pending: 'queued',
+      starving: 'starving',
+      served: 'served',
+    },
+    headLabel: 'Head at cylinder {cylinder}',
+    requestLabel: 'Request #{request}, cylinder {cylinder}: {state}',
+    announce: {
+      service:
+        'Head from {from} to {to}, serving request #{request}. Total distance: {total}.',
+      edge: 'Head from {from} to {to}, up to the edge of the disk.',
+      return: 'Head returns from {from} to {to}.',
+    },
+    metrics: {
+      title: 'Per-request metrics',
+      note: 'Times in {unit}. Waiting runs from arrival until the head starts moving toward the request; response also includes the access itself.',
+      starvationLimit: 'Waiting limit ({unit})',
+      request: 'Request',
+      cylinder: 'Cylinder',
+      arrival: 'Arrival',
+      servedAt: 'Served at',
+      waiting: 'Waiting',
+      response: 'Response',
+      status: 'Status',
+      notArrived: 'not arrived yet',
+      queued: 'queued',
+      starving: 'starving',
+      served: 'served',
+      averageWaiting: 'Average waiting',
+      averageResponse: 'Average response',
+      variance: 'Response variance',
+      maxResponse: 'Longest response',
+    },
+    settings: {
+      requests: 'Request queue (cylinders)',
+      diskSize: 'Number of cylinders',
+      initialHead: 'Initial head position',
+      arrivals: 'Arrivals ({unit}, optional)',
+      arrivalsHint: 'Leave blank for every request to arrive at time 0.',
+      arrivalsLength: 'Enter one arrival per request ({count}).',
+      headSpeed: 'Head speed (cylinders/tick)',
+      meanGap: 'Mean gap between arrivals (ticks)',
+      direction: 'Initial direction (sweeps)',
+      up: 'Ascending',
+      down: 'Descending',
+      generator: 'Queue generator',
+      count: 'Requests',
+      patterns: {
+        uniform: 'Uniform',
+        clustered: 'Clustered',
+        edge: 'Near the edges',
+      },
+    },
+  },
+
+  diskAlgorithms: {
+    FCFS: {
+      name: 'First Come, First Served',
+      description:
+        'FCFS serves requests in the exact order they arrived. It is simple but can lead to inefficient head movements.',
+    },
+    SSTF: {
+      name: 'Shortest Seek Time First',
+      description:
+        'SSTF always picks the request closest to the current head position. It is more efficient than FCFS but can cause starvation.',
+    },
+    SCAN: {
+      name: 'Elevator Algorithm',
+      description:
+        'SCAN (the Elevator Algorithm) moves the head in one direction to the end of the disk, serving requests along the way, then reverses direction.',
+    },
+    'C-SCAN': {
+      name: 'Circular SCAN',
+      description:
+        'C-SCAN serves requests in a single direction. On reaching the end of the disk, the head immediately returns to the start without serving anything on the way, which makes waiting times more uniform. The return may or may not count toward the total seek.',
+    },
+    LOOK: {
+      name: 'SCAN without the edge',
+      description:
+        'LOOK works like SCAN, but the head only goes as far as the last request in each direction before reversing, avoiding cylinders with no requests.',
+    },
+    'C-LOOK': {
+      name: 'Circular LOOK',
+      description:
+        'C-LOOK is the circular version of LOOK: after the last request in one direction, the head jumps straight to the farthest request on the other side and keeps going the same way.',
+    },
+    'N-STEP-SCAN': {
+      name: 'SCAN in batches of N',
+      description:
+        'N-step SCAN splits the queue into batches of N requests, in arrival order, and serves each whole batch with SCAN before moving on. New requests cannot cut into the current sweep, so the head cannot get stuck in one region.',
+    },
+    FSCAN: {
+      name: 'SCAN with a frozen queue',
+      description:
+        'FSCAN uses two queues: the current queue is frozen when a sweep starts and served with SCAN, while new requests wait in the second queue. Set arrivals over time to watch new requests wait for the next batch.',
+    },
+    SPTF: {
+      name: 'Shortest Positioning Time First',
+      description:
+        'SPTF (also called SATF) picks the request the head can reach fastest, adding seek time and the rotational latency to its sector. It only matters with the timing model on; without it, rotation is ignored and SPTF behaves like SSTF. Like SSTF, it can cause starvation.',
+    },
+  },
+
+  cpu: {
+    title: 'CPU Scheduling: {algorithm}',
+    tooltipTitle: 'How does the scheduler decide?',
+    tooltipContent:
+      'At every instant, the scheduler looks at the ready queue and decides who uses the CPU. Preemptive algorithms may also take the running process off the CPU to make room for another one. The Gantt chart shows who held the CPU in each time interval.',
+    initialNarration:
+      'Choose an algorithm and click Play to follow the scheduling one time unit at a time.',
+    finished: 'All processes have finished! You can reset to watch it again.',
+    settings: {
+      processes:
+        'Processes: arrival, burst and priority per line (up to {max})',
+      processesHint: 'Priority is optional: the lowest number is the highest.',
+      quantum: 'Round Robin quantum',
+      mlfqQuanta: 'MLFQ quanta, from the highest level to the lowest',
+      mlfqHint:
+        'Up to {max} levels with a quantum; below them there is an FCFS level.',
+      tooManyLevels: 'Enter at most {max} quanta.',
+    },
+    gantt: 'Gantt Chart',
+    ganttLegend:
+      'Each bar is an interval in which the process held the CPU; gray bars are idle CPU time.',
+    idle: 'idle',
+    cpu: 'CPU',
+    readyQueue: 'Ready queue',
+    level: 'Level {level} (quantum {quantum})',
+    lastLevel: 'Level {level} (FCFS)',
+    empty: 'empty',
+    results: 'Per-Process Metrics',
+    process: 'Process',
+    arrival: 'Arrival',
+    burst: 'Burst',
+    priority: 'Priority',
+    completion: 'Completion',
+    turnaround: 'Turnaround',
+    waiting: 'Waiting',
+    response: 'Response',
+    average: 'Average',
+    resultsLegend:
+      'Turnaround = completion − arrival; waiting = turnaround − burst; response = first time on the CPU − arrival.',
+    averageWaiting: 'Average Waiting',
+    averageTurnaround: 'Average Turnaround',
+    averageResponse: 'Average Response',
+    completed: '{done} of {total} processes finished',
+    utilization: 'CPU Utilization',
+    switches: '{count} context switch(es)',
+  },
+
+  cpuAlgorithms: {
+    FCFS: {
+      short: 'FCFS',
+      name: 'First Come, First Served',
+      description:
+        'FCFS runs the processes in arrival order and never interrupts the one on the CPU. It is simple and fair in ordering, but a long process at the front makes every short one wait (the convoy effect).',
+    },
+    SJF: {
+      short: 'SJF',
+      name: 'Shortest Job First',
+      description:
+        'When the CPU becomes free, SJF picks the ready process with the shortest burst. It minimizes the average waiting time among non-preemptive algorithms, but needs the burst in advance and may postpone long processes indefinitely.',
+    },
+    SRTF: {
+      short: 'SRTF',
+      name: 'Shortest Remaining Time First',
+      description:
+        'The preemptive version of SJF: if a process arrives with less remaining time than the running one, it takes the CPU. It gives the lowest possible average waiting time, at the cost of more context switches.',
+    },
+    RR: {
+      short: 'RR',
+      name: 'Round Robin',
+      description:
+        'Round Robin gives each process at most one quantum of CPU at a time; a process that does not finish goes back to the end of the queue. Response time becomes predictable, but a quantum that is too small wastes time on context switches and one that is too large turns into FCFS.',
+    },
+    PRIORITY: {
+      short: 'Priority',
+      name: 'Non-preemptive priority',
+      description:
+        'When the CPU becomes free, it runs the ready process with the highest priority (lowest number) to completion. Low-priority processes may wait indefinitely (starvation), which is usually solved by raising the priority with waiting time (aging).',
+    },
+    PRIORITY_P: {
+      short: 'Priority (P)',
+      name: 'Preemptive priority',
+      description:
+        'Like non-preemptive priority, but a process that arrives with a higher priority immediately takes the CPU from the running one.',
+    },
+    MLFQ: {
+      short: 'MLFQ',
+      name: 'Multilevel Feedback Queue',
+      description:
+        'MLFQ has several priority queues. Every process starts at the top level; a process that uses up its quantum moves down one level, and a level is only served when the ones above it are empty. Short processes finish quickly and long ones sink to the FCFS level, without the burst having to be known.',
+    },
+  },
+
+  deadlock: {
+    modes: {
+      banker: "Banker's algorithm",
+      graph: 'Allocation graph',
+    },
+    titles: {
+      banker: "Banker's Algorithm",
+      graph: 'Resource-Allocation Graph',
+    },
+    tooltipTitle: 'How are deadlocks avoided and detected?',
+    tooltipContent:
+      "A deadlock requires four conditions at the same time: mutual exclusion, hold and wait, no preemption and circular wait. The banker's algorithm avoids deadlock by granting only requests that leave the system in a safe state; the allocation graph lets you detect it after it happens.",
+    settings: {
+      available: 'Available: free instances of each resource (up to {max})',
+      max: 'Max: maximum demand, one line per process (up to {max})',
+      allocation: 'Allocation: instances already held, one line per process',
+      tooManyResources: 'Use at most {max} resources.',
+      tooManyProcesses: 'Use at most {max} processes.',
+      rowCount: 'Allocation must have one line per process in Max ({count}).',
+      overMax: 'P{pid} holds more instances than its maximum demand.',
+      processes: 'Processes (up to {max})',
+      instances: 'Instances of each resource (up to {max} resources)',
+      edges: 'Edges, one per line: P0 -> R1 (request) or R1 -> P0 (assignment)',
+      tooManyInstances: 'Each resource can have at most {max} instances.',
+      overInstances: 'R{rid} has more assignments than instances.',
+      deadlockDemo: 'Deadlock example',
+      cycleDemo: 'Cycle without deadlock',
+    },
+    banker: {
+      initialNarration:
+        "Click Play to run the safety algorithm, comparing each process's need with the Work vector.",
+      safe: 'Safe state! Safe sequence: {sequence}.',
+      unsafe:
+        'Unsafe state: {processes} cannot finish with the available resources.',
+      matrices: 'System State',
+      process: 'Process',
+      allocation: 'Allocation',
+      max: 'Max',
+      need: 'Need',
+      finish: 'Finish',
+      matricesLegend:
+        'Need = Max − Allocation. The highlighted row is the process compared in the current step.',
+      work: 'Work',
+      sequence: 'Safe sequence',
+      noSequence: 'no process has finished yet',
+      request: 'Resource Request',
+      requestProcess: 'Process',
+      requestVector: 'Request (one value per resource)',
+      evaluate: 'Evaluate request',
+      grant: 'Grant request',
+      wrongLength: 'The request must have {count} values, one per resource.',
+      verdicts: {
+        exceedsNeed:
+          "Error: P{pid}'s request exceeds its declared need {need}.",
+        mustWait:
+          'P{pid} must wait: the request {request} is larger than Available {available}.',
+        unsafe:
+          'Request denied: granting it would leave the system in an unsafe state, so P{pid} waits.',
+        granted:
+          'The request can be granted: the state stays safe with the sequence {sequence}.',
+      },
+      about: 'Safe State',
+      aboutText:
+        'A state is safe if there is an order in which every process can finish, even if each one requests everything it declared in Max. The algorithm simulates that order: Work starts equal to Available, and every process with Need ≤ Work finishes and returns what it held (Work = Work + Allocation). An unsafe state is not yet a deadlock, but the system can no longer guarantee that it will be avoided.',
+    },
+    graph: {
+      initialNarration:
+        'Click Play to reduce the graph: at each step, a process whose requests can be satisfied finishes and releases its resources.',
+      noDeadlock: 'Every process was reduced: there is no deadlock.',
+      deadlock: 'No other process can be reduced: {processes} are deadlocked.',
+      cycle: 'Cycle found: {cycle}',
+      noCycle: 'The graph has no cycles, so there is no deadlock.',
+      cycleNote:
+        'With several instances per resource, a cycle does not guarantee deadlock: only graph reduction decides.',
+      available: 'Free instances',
+      legend:
+        'Circles are processes; rectangles are resources, with one dot per instance. An arrow from a process to a resource is a request; from a resource to a process, an assignment. Cycle edges are red, and reduced processes are faded.',
+      about: 'Cycles and Deadlock',
+      aboutText:
+        'If the graph has no cycles, there is no deadlock. If every resource has a single instance, a cycle means deadlock. With several instances, the graph must be reduced: any process whose requests fit in the free instances can finish and release what it holds; the processes left at the end are deadlocked.',
+    },
+  },
+
+  memory: {
+    title: 'Memory Allocation: {algorithm}',
+    tooltipTitle: 'Why does memory fragment?',
+    tooltipContent:
+      'Every release opens a hole between allocated blocks. Over time, free memory is scattered across holes too small for the requests. Compaction fixes this by moving the blocks to the start of memory, but it costs copying all of that content. The buddy system trades external fragmentation for internal fragmentation: every block has a power-of-2 size.',
+    initialNarration:
+      'Pick a strategy and click Play to run the script, one command at a time.',
+    finished: 'The script is over! You can reset to watch it again.',
+    settings: {
+      memorySize: 'Memory size (KB)',
+      minBlock: 'Smallest buddy block (KB)',
+      compactOnFailure:
+        'Compact when fragmentation blocks a request (variable partitions)',
+      script: 'Script: one command per line (up to {max})',
+      scriptHint:
+        '"A 100" allocates 100 KB to A, "free A" frees A\'s block and "compact" compacts memory.',
+    },
+    view: 'Memory',
+    viewLegend:
+      'Each colored band is an allocated block; gray bands are free memory. The block of the last command is highlighted.',
+    nextFitPointer: 'Next Fit pointer',
+    tree: 'Buddy Tree',
+    treeLegend:
+      'Each level splits a block into two buddies of half the size. Colored blocks are allocated, white ones are free and gray ones have been split.',
+    utilization: 'Utilization',
+    largestHole: 'Largest Free Block',
+    holes: '{count} free block(s), {free} KB in total',
+    fragmentation: 'External Fragmentation',
+    fragmentationHint: 'free memory outside the largest free block',
+    internalFragmentation: '{size} KB of internal fragmentation',
+    failures: 'Allocation Failures',
+    moved: '{moved} KB copied by compaction',
+    comparison: 'Strategy Comparison',
+    comparisonLegend:
+      'Result of the whole script with each variable-partition strategy.',
+    strategy: 'Strategy',
+    kilobytes: '{value} KB',
+  },
+
+  memoryAlgorithms: {
+    FIRST_FIT: {
+      short: 'First Fit',
+      name: 'First hole that fits',
+      description:
+        'First Fit scans memory from the start and uses the first hole the request fits in. It is fast, but tends to pile up small holes near the start of memory.',
+    },
+    BEST_FIT: {
+      short: 'Best Fit',
+      name: 'Tightest hole',
+      description:
+        'Best Fit looks for the smallest hole that holds the request, to waste as little as possible. In exchange, it leaves tiny leftovers that will hardly serve another request.',
+    },
+    WORST_FIT: {
+      short: 'Worst Fit',
+      name: 'Largest hole',
+      description:
+        'Worst Fit always uses the largest hole, betting that the leftover will still be big enough for another request. In practice, it quickly uses up the large holes that bigger requests would need.',
+    },
+    NEXT_FIT: {
+      short: 'Next Fit',
+      name: 'Next hole that fits',
+      description:
+        'Next Fit works like First Fit, but starts the search where the last allocation ended and wraps around memory. It spreads allocations out instead of concentrating them at the start.',
+    },
+    BUDDY: {
+      short: 'Buddy',
+      name: 'Buddy system',
+      description:
+        'In the buddy system, every block has a power-of-2 size. A request is rounded up and gets a block obtained by halving a larger free block as many times as needed. On release, the block joins its buddy if the buddy is also free. Splits and merges are fast, but rounding causes internal fragmentation.',
+    },
+  },
+
+  narration: {
+    memory: {
+      placed: '{name} ({size} KB) goes to address {address}: {reason}.',
+      reasons: {
+        FIRST_FIT: 'it is the first hole it fits in',
+        BEST_FIT: 'it is the smallest hole it fits in',
+        WORST_FIT: 'it is the largest hole',
+        NEXT_FIT: 'it is the first hole it fits in after the pointer',
+      },
+      compactedFirst:
+        'No hole can hold {name}, but there is enough free memory: memory is compacted first ({moved} KB copied).',
+      fragmented:
+        '{name} ({size} KB) cannot be allocated: {free} KB are free, but the largest free block has {largest} KB (external fragmentation).',
+      noSpace:
+        '{name} ({size} KB) cannot be allocated: only {free} KB are free.',
+      freed: '{name} frees {size} KB at address {address}.',
+      notInMemory:
+        '{name} is not in memory because its request failed: there is nothing to free.',
+      compacted:
+        'Memory is compacted: {moved} KB are copied, and free memory becomes a single hole of {free} KB.',
+      buddyPlaced:
+        '{name} asks for {size} KB and gets a {block} KB block at address {address} ({waste} KB of internal fragmentation).',
+      split: 'To do so, a {from} KB block is split {count} time(s).',
+      merged:
+        'The block joins its free buddy {count} time(s) and forms a free block of {size} KB.',
+      buddyCompact:
+        'The buddy system does not compact memory: each block has a fixed address in the tree.',
+    },
+    deadlock: {
+      canFinish:
+        'P{pid}: Need {need} ≤ Work {work}. P{pid} can finish and return what it holds: Work becomes {after}.',
+      mustWait:
+        'P{pid}: Need {need} does not fit in Work {work}; P{pid} is left for the next pass.',
+      reduced:
+        "P{pid}'s requests can be satisfied: it finishes and releases its resources. Free instances: {available}.",
+    },
+    cpu: {
+      arrived: '{process} arrives in the ready queue.',
+      quantumExpired:
+        '{process} used up its quantum and goes back to the end of the ready queue.',
+      demoted: '{process} used up its quantum and moves down to level {level}.',
+      preempted: {
+        shorter: '{process} is preempted: {next} has less remaining time.',
+        higherPriority: '{process} is preempted: {next} has a higher priority.',
+        higherLevel: '{process} is preempted: {next} is on a higher level.',
+      },
+      idle: 'The CPU is idle: no process is ready.',
+      continues: '{process} keeps running.',
+      dispatch: {
+        FCFS: '{process} takes the CPU: it is first in the queue.',
+        SJF: '{process} takes the CPU: it has the shortest burst ({burst}) among the ready processes.',
+        SRTF: '{process} takes the CPU: it has the least remaining time ({remaining}).',
+        RR: '{process} takes the CPU for up to {quantum} time unit(s).',
+        PRIORITY:
+          '{process} takes the CPU: it has the highest priority ({priority}) among the ready processes.',
+        PRIORITY_P:
+          '{process} takes the CPU: it has the highest priority ({priority}) among the ready processes.',
+        MLFQ: '{process} takes the CPU on level {level}, with quantum {quantum}.',
+        mlfqLast:
+          '{process} takes the CPU on level {level}, which is FCFS and has no quantum.',
+      },
+      completed: '{process} finishes at time {time}.',
+    },
+    multi: {
+      idle: 'The CPU was idle for {ticks} ticks waiting for the disk.',
+      resumed: '{process} is resumed: its quota fits in memory again.',
+      hit: '{process} references page {page}: hit in frame {frame}.',
+      freeFrame:
+        '{process} references page {page}: page fault! The page is loaded into free frame {frame}.',
+      ownVictim:
+        '{process} references page {page}: page fault! With no free frame for {process}, LRU removes its page {victim}, and page {page} takes frame {frame}.',
+      otherVictim:
+        '{process} references page {page}: page fault! Global LRU removes page {victim} of {owner}, and page {page} takes frame {frame}.',
+      blocked: '{process} is blocked until the disk loads the page.',
+      released:
+        'Load control returns {count} frame(s) of {process} to the pool.',
+      suspended:
+        'Demand exceeded memory: {process} is suspended and frees its frames.',
+      finished: '{process} has finished and frees its frames.',
+    },
+    translation: {
+      split: 'Address {address} is split into page {page} and offset {offset}.',
+      tlbHit:
+        'TLB hit: the TLB already maps page {page} to frame {frame}, so the page table is not consulted.',
+      tlbMiss:
+        'TLB miss: page {page} is not in the TLB, so the page table is consulted.',
+      tableHit:
+        'The entry is valid: the page is in frame {frame}, and the translation is copied into the TLB.',
+      freeFrame:
+        'Page fault! Page {page} is not in memory and is loaded into free frame {frame}.',
+      replacement:
+        'Page fault! Memory is full: {algorithm} evicts page {victim}, and page {page} takes frame {frame}.',
+      tlbInvalidated:
+        'The TLB entry for page {page} is invalidated because the page left memory.',
+      tlbVictim:
+        'The TLB is full: following the {policy} policy, the entry for page {page} is replaced.',
+      physical: 'Physical address: {address}.',
+    },
+    page: {
+      start:
+        "Welcome! Let's start the {algorithm} simulation. First, we add page {page} to memory.",
+      freeFrame:
+        'Page fault! Page {page} is not in memory, but there is still a free frame to load it into.',
+      memoryFull:
+        'Page fault detected! Page {page} must be loaded, but memory is full.',
+      clockTick: ' Clock interrupt: every R bit has been cleared.',
+      writeBack:
+        ' Page {victim} was modified (dirty) and is written to disk before leaving (write-back).',
+      write: ' Since this is a write, the M (dirty) bit of page {page} is set.',
+      victim: {
+        FIFO: 'Following the First-In-First-Out principle, we evict the oldest page ({victim}).',
+        LRU: 'With LRU, we evict the page that has gone unaccessed the longest ({victim}).',
+        OPT: 'The optimal algorithm looks into the future: page {victim} is the one that will not be used for the longest time.',
+        CLOCK:
+          'The hand sweeps the frames giving pages with R = 1 a second chance (clearing the bit). Page {victim} had R = 0 and is evicted.',
+        ESC: 'The hand looks for the lowest (R, M) class, preferring pages that are neither referenced nor modified. Page {victim} is evicted.',
+        LFU: 'With LFU, we evict the page with the lowest access counter ({victim}).',
+        MFU: 'With MFU, we evict the page with the highest access counter ({victim}).',
+        NRU: 'With NRU, we evict a page from the lowest (R, M) class: page {victim}.',
+      },
+      hit: {
+        FIFO: 'Page {page} is already in memory. FIFO needs no further bookkeeping.',
+        LRU: 'Great! Page {page} is already in memory. We update its timestamp to record this recent access.',
+        OPT: 'Page {page} is already in memory. OPT keeps no history: only future references matter.',
+        referenceBit:
+          'Page {page} is already in memory. We set its reference bit R.',
+        frequency:
+          'Page {page} is already in memory. We increment its access counter.',
+      },
+    },
+    disk: {
+      returnMove:
+        'The head returns to cylinder {cylinder} without serving anything on the way.',
+      edgeMove:
+        'The head travels to the edge (cylinder {cylinder}) and reverses direction.',
+      jump: 'With no requests ahead, the head jumps to the farthest request at the other end.',
+      FCFS: 'FCFS serves in arrival order: next in the queue is cylinder {cylinder} ({distance} cylinders).',
+      SSTF: 'SSTF picks the pending request closest to the head: cylinder {cylinder}, {distance} cylinders away.',
+      SPTF: 'SPTF picks the request the head reaches fastest, adding seek and rotational latency: cylinder {cylinder} ({distance} cylinders).',
+      batch:
+        '{algorithm} sweeps the current batch (batch {batch}) {sense} and serves cylinder {cylinder} ({distance} cylinders).',
+      sweep:
+        '{algorithm} keeps {sense} and serves the next request on its path: cylinder {cylinder} ({distance} cylinders).',
+    },
+  },
+
+  playback: {
+    start: 'Go to the start',
+    previous: 'Previous step',
+    end: 'Go to the end',
+    step: 'Step {step} of {total}',
+    timeline: 'Timeline',
+    speed: 'Speed',
+    label: 'Playback controls',
+    shortcuts:
+      'Shortcuts with focus on the controls: space plays or pauses, ← and → step back or forward, Home and End go to the start and the end.',
+  },
+
+  traceTable: {
+    title: 'Execution Table',
+    download: 'Download the trace (CSV)',
+    reference: 'Reference',
+    goToStep: 'Go to step {step}',
+    frame: 'Frame {index}',
+    lruStack: 'LRU stack',
+    legend:
+      'Red cells: page loaded on a fault (the victim is shown struck through).',
+    bitsLegend: 'The superscript number is the R bit; ◂ marks the hand.',
+    stackLegend:
+      'The LRU stack lists pages from the most recent (top) down to the next victim.',
+    clickLegend: 'Click a column to jump to that step.',
+    writeBack: 'Write-back',
+    writeLegend:
+      'The w suffix marks writes; W means the modified victim was written to disk.',
+  },
+
+  seekPath: {
+    title: 'Head Path',
+    download: 'Download the service order with distances (CSV)',
+    ariaLabel: 'Head path: cylinder by service order',
+    legend:
+      'The numbers on the segments are the distances travelled. Hollow circles are moves to the edge; dashed lines are returns (in parentheses when they do not count toward the seek).',
+  },
+
+  comparison: {
+    faultsChart: 'Page Faults by algorithm',
+    hitRatioChart: 'Hit ratio by algorithm',
+    pagePlayback: 'Side-by-side playback — step {step} of {total}',
+    currentPage: ' (page {page})',
+    faults: 'Faults: {count}',
+    totalSeek: 'Total Seek',
+    averageSeek: 'Average Seek',
+    maxWait: 'Longest Wait',
+    averageResponse: 'Average Response',
+    responseVariance: 'Response Variance',
+    totalTime: 'Access Time (ms)',
+    waitNote:
+      'The wait of a request is the distance the head travels until it is served, including returns not counted in the seek.',
+    seekChart: 'Total seek by algorithm (cylinders)',
+    waitChart: 'Longest wait by algorithm (cylinders)',
+    diskPlayback: 'Side-by-side playback — move {step} of {total}',
+    seek: 'Seek: {count}',
+  },
+
+  belady: {
+    maxFrames: 'Maximum frames (up to {max})',
+    analyzed: 'Sequence analysed:',
+    chartTitle: 'Page faults × number of frames',
+    xLabel: 'Number of frames',
+    yLabel: 'Page faults',
+    anomaly:
+      "Belady's anomaly in {algorithm}: with {frames} frames there are {faults} faults, but with {nextFrames} frames there are {nextFaults}.",
+    noAnomaly:
+      'No anomaly: for the algorithms shown, more frames never increase the page faults for this sequence.',
+    searchTitle: 'Find an anomaly',
+    searchDescription:
+      'Tries random sequences (starting from the seed) until it finds one where FIFO has more faults with more frames.',
+    search: 'Search',
+    searching: 'Testing sequences… {count} of {total}',
+    notFound:
+      'No anomaly found in {attempts} attempts. Try another seed or a longer sequence.',
+    found:
+      'Found after {attempts} attempt(s): FIFO with {frames} frames has {faults} faults and with {nextFrames} frames has {nextFaults}.',
+    useSequence: 'Use this sequence',
+  },
+
+  scenario: {
+    copyLink: 'Copy link',
+    exportJson: 'Export JSON',
+    importJson: 'Import JSON',
+    report: 'Report',
+    linkCopied: 'Link copied!',
+    copyFailed: "Couldn't copy; copy the address from the browser bar instead.",
+    wrongKind: 'The file contains a {kind} scenario.',
+    imported: 'Scenario imported.',
+    kinds: {
+      page: 'page replacement',
+      disk: 'disk scheduling',
+    },
+    errors: {
+      notObject: 'The scenario must be a JSON object.',
+      kind: 'The "kind" field must be "page" or "disk".',
+      integer:
+        'The "{field}" field must be an integer between {min} and {max}.',
+      number: 'The "{field}" field must be a number between {min} and {max}.',
+      list: 'The "{field}" field must be a non-empty list of integers.',
+      listItem:
+        'Item {index} of "{field}" must be an integer between {min} and {max}.',
+      oneOf: 'The "{field}" field must be one of: {options}.',
+      length: 'The "{field}" field must have {count} items.',
+      boolean: 'The "{field}" field must be true or false.',
+      invalidJson: 'The file does not contain valid JSON.',
+      version:
+        'Unsupported scenario version: {version} (expected: {expected}).',
+    },
+  },
+
+  traceFile: {
+    title: 'Load trace from file',
+    pageHint:
+      'Accepts Valgrind Lackey output (--trace-mem=yes) or "R address" / "W address" lines in hexadecimal. Each access becomes the page of its address.',
+    diskHint:
+      'Accepts blkparse output or a "time,sector,op" CSV (time in seconds). Sectors are spread across the disk\'s {cylinders} cylinders, and arrivals count in ms: loading a trace turns the disk timing model on.',
+    pageSize: 'Page size',
+    bytes: '{size} bytes',
+    choose: 'Choose file',
+    cancel: 'Cancel',
+    stages: {
+      reading: 'Reading the file...',
+      parsing: 'Parsing the lines...',
+      simulating: 'Running the algorithms...',
+    },
+    loaded: '{name}: {count} accesses read, {skipped} lines skipped.',
+    renumbered:
+      'Trace loaded. Pages were renumbered in order of first access to fit the simulator.',
+    errors: {
+      empty: 'No recognized accesses in the file.',
+      unreadable: "Couldn't read the file.",
+      failed:
+        'Processing the trace failed (the file may be too large for the available memory).',
+    },
+    summaryTitle: 'Summary of trace {name}',
+    pageSummary:
+      'The trace is too long to view step by step. The table shows the result of each algorithm with {frames} frames and {size}-byte pages.',
+    diskSummary:
+      'The trace is too long to view step by step. The table shows the result of each algorithm on a {cylinders}-cylinder disk, simulated in windows of {window} requests with the timing model (times in ms).',
+    truncated: 'Only the first {max} accesses were read.',
+    references: 'Accesses',
+    distinctCylinders: 'Distinct cylinders',
+    writes: 'Writes',
+    skipped: 'Skipped lines',
+    maxResponse: 'Longest Response',
+    close: 'Back to the simulator',
+  },
+
+  chartExport: {
+    svg: 'Download as SVG',
+    png: 'Download as PNG',
+  },
+
+  report: {
+    print: 'Print',
+    close: 'Close',
+    inputs: 'Inputs',
+    totals: 'Totals',
+    pageTitle: 'Report — Page Replacement',
+    references: 'Reference string:',
+    frames: 'Frames:',
+    pageSection: '{algorithm} — {faults} page faults',
+    diskTitle: 'Report — Disk Scheduling',
+    requests: 'Request queue:',
+    cylinders: 'Cylinders:',
+    initialHead: 'Initial head:',
+    returnSweep: 'C-SCAN/C-LOOK return counted in seek:',
+    batchSize: 'N-step SCAN batch:',
+    averageSeek: 'Average Seek',
+    maxWait: 'Longest Wait',
+    arrivals: 'Arrivals ({unit}):',
+    headSpeed: 'Head speed:',
+    cylindersPerTick: '{speed} cylinders/tick',
+    averageResponse: 'Average Response',
+    responseVariance: 'Response Variance',
+    timing: 'Timing model:',
+    timingValue:
+      '{rpm} RPM; seek {settle} + {factor} × √d ms; {sectors} sectors per track',
+    timingOff: 'off (clock in ticks)',
+    totalTime: 'Access Time (ms)',
+    diskSection: '{algorithm} — {seek} cylinders',
+  },
+
+  quiz: {
+    result: 'Result ({algorithm})',
+    percent: '{percent} correct',
+    review: 'Review',
+    step: 'Step',
+    reference: 'Reference',
+    question: 'Question',
+    headAt: 'Head at',
+    yourAnswer: 'Your answer',
+    correctAnswer: 'Correct answer',
+    outcome: 'Result',
+    restart: 'Retry exercise',
+    progress: 'Question {current} of {total} — correct so far: {correct}',
+    correct: 'Correct!',
+    incorrect: 'Incorrect. Answer: {answer}.',
+    seeResult: 'See result',
+    next: 'Next',
+    submit: 'Answer',
+    hitAnswer: 'hit',
+    faultAnswer: 'fault',
+    victimAnswer: 'fault, evicts {victim}',
+    pageQuestion: 'The reference to page {page} will cause:',
+    pageFault: 'Page fault',
+    victimQuestion: 'Which page will be replaced?',
+    cylinderAnswer: 'cylinder {cylinder}',
+    diskQuestion: 'Which cylinder will {algorithm} serve next?',
+    headPosition: 'Head at cylinder {head}, {arrow}',
+  },
+
+  csv: {
+    step: 'Step',
+    reference: 'Reference',
+    frame: 'Frame {index}',
+    fault: 'Fault',
+    victim: 'Victim',
+    faults: 'Faults',
+    operation: 'Operation',
+    read: 'read',
+    write: 'write',
+    writeBack: 'Write-back',
+    writeBacks: 'Write-backs',
+    from: 'From',
+    to: 'To',
+    request: 'Request',
+    movement: 'Movement',
+    distance: 'Distance',
+    seek: 'Seek',
+    totalSeek: 'Total seek',
+    returnMove: 'return',
+    edgeMove: 'edge',
+    service: 'service',
+    sector: 'Sector',
+    seekTime: 'Seek (ms)',
+    latency: 'Latency (ms)',
+    transfer: 'Transfer (ms)',
+    end: 'End (ms)',
+  },
+
+  cli: {
+    usage:
+      'Usage: npm run sim -- <page|disk> [options]\n\n  page --alg <{pageAlgorithms}> --frames N --refs "7 0 1 2w ..."\n  disk --alg <{diskAlgorithms}> --size N --head N --requests "98 183 ..."\n       [--direction up|down] [--arrivals "0 0 5 ..."] [--batch N] [--no-return]\n\nCommon options:\n  --format table|csv|json  Format of the step-by-step table (default: table)\n  --lang pt|en|es          Output language (default: pt)\n  --compare <file>         Checks a submitted trace (CSV or JSON) against the answer key',
+    unknownCommand: 'Unknown command: "{command}".',
+    unknownOption: 'Unknown option: {option}.',
+    missingValue: 'The {option} option needs a value.',
+    invalidChoice: '{option} must be one of: {options}.',
+    unreadable: "Couldn't read the file {file}.",
+    pageSummary:
+      'Page faults: {faults} | hits: {hits} ({hitRatio}%) | write-backs: {writeBacks}',
+    diskSummary:
+      'Total seek: {totalSeek} | average seek: {averageSeek} | longest wait: {maxWait}',
+    invalidSubmission: '{file} is neither a trace CSV nor a trace JSON.',
+    unknownHeader:
+      "The header of {file} isn't that of a {kind} trace: {header}",
+    firstDifference:
+      'First difference at step {step}, column "{column}": expected "{expected}", submitted "{got}".',
+    stepCount: '{file} has {got} steps, but the answer key has {expected}.',
+    match: '{file} matches the answer key ({steps} steps).',
+  },
+};
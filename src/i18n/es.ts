@@ -0,0 +1,1280 @@
+import type { Messages } from './translate';
+
+/**
+ * Catálogo em espanhol.
+ */
+export const es: Messages = {
+  app: {
+    title: 'Visualización de Algoritmos de Sistemas Operativos',
+    subtitle:
+      'Demostraciones interactivas de los algoritmos de Reemplazo de Páginas y Planificación de Disco. Explora cómo funcionan estos algoritmos y cómo afectan al rendimiento del sistema.',
+    language: 'Idioma',
+    explore: 'En esta simulación puedes explorar los principales algoritmos:',
+    pageHeading: 'Algoritmos de Reemplazo de Páginas',
+    pageIntro:
+      'Los algoritmos de reemplazo de páginas son fundamentales para la gestión de la memoria virtual en los sistemas operativos. Cuando ocurre un {term} y no hay marcos libres en memoria, el sistema operativo debe elegir qué página desalojar para dejar sitio a la nueva página solicitada.',
+    pageTerm: 'fallo de página',
+    pageList: {
+      fifo: {
+        name: 'FIFO (First In, First Out)',
+        text: 'Reemplaza la página más antigua en memoria.',
+      },
+      lru: {
+        name: 'LRU (Least Recently Used)',
+        text: 'Reemplaza la página que lleva más tiempo sin usarse.',
+      },
+      opt: {
+        name: 'OPT (Óptimo de Belady)',
+        text: 'Reemplaza la página que más tardará en volver a usarse.',
+      },
+      clock: {
+        name: 'Clock y Enhanced Second Chance',
+        text: 'Aproximan el LRU con bits de referencia (y de modificación) y una manecilla circular.',
+      },
+      frequency: {
+        name: 'LFU y MFU',
+        text: 'Eligen la víctima según el número de accesos de cada página.',
+      },
+      nru: {
+        name: 'NRU (Not Recently Used)',
+        text: 'Desaloja una página de la clase más baja formada por los bits de referencia y modificación.',
+      },
+    },
+    diskHeading: 'Algoritmos de Planificación de Disco',
+    diskIntro:
+      'Los algoritmos de planificación de disco determinan el orden en que se atienden las solicitudes de E/S. El objetivo es minimizar el tiempo de búsqueda ({term}) y maximizar la eficiencia del disco.',
+    diskTerm: 'seek time',
+    translationHeading: 'Traducción de Direcciones Virtuales',
+    translationIntro:
+      'La MMU traduce cada dirección virtual en una dirección física. El número de página se busca primero en la {term}, una pequeña caché de traducciones recientes, y solo si falla en la tabla de páginas. Si la página no está en memoria, ocurre un fallo de página, que resuelven los mismos algoritmos de reemplazo de la sección anterior.',
+    translationTerm: 'TLB',
+    multiHeading: 'Varios Procesos y Thrashing',
+    multiIntro:
+      'En la práctica, varios procesos comparten la misma memoria física. El sistema debe decidir cuántos marcos recibe cada uno y si un fallo de página puede tomar marcos de otro proceso. Con demasiados procesos en memoria, ninguno tiene marcos suficientes, los fallos de página se multiplican y la CPU pasa la mayor parte del tiempo esperando al disco: es el {term}.',
+    multiTerm: 'thrashing',
+    cpuHeading: 'Planificación de CPU',
+    cpuIntro:
+      'Cuando varios procesos están listos para ejecutarse, el {term} decide cuál de ellos usa la CPU y durante cuánto tiempo. La elección cambia cuánto espera cada proceso en la cola y cuánto tarda en responder, aunque el trabajo total sea el mismo.',
+    cpuTerm: 'planificador',
+    cpuList: {
+      fcfs: {
+        name: 'FCFS (First Come, First Served)',
+        text: 'Ejecuta los procesos en orden de llegada, hasta el final.',
+      },
+      sjf: {
+        name: 'SJF y SRTF',
+        text: 'Eligen el proceso más corto; el SRTF interrumpe al que está en ejecución si llega uno con menos tiempo restante.',
+      },
+      rr: {
+        name: 'Round Robin',
+        text: 'Turna los procesos, dando a cada uno como máximo un quantum de tiempo por vez.',
+      },
+      priority: {
+        name: 'Prioridad',
+        text: 'Ejecuta el proceso de mayor prioridad, con o sin expropiación.',
+      },
+      mlfq: {
+        name: 'MLFQ (Multilevel Feedback Queue)',
+        text: 'Usa varias colas y baja de nivel a quien agota el quantum, favoreciendo a los procesos cortos e interactivos.',
+      },
+    },
+    deadlockHeading: 'Interbloqueos',
+    deadlockIntro:
+      'Un {term} ocurre cuando cada proceso de un grupo espera un recurso que tiene otro proceso del mismo grupo, y ninguno puede continuar. El sistema puede evitarlo, concediendo solo las solicitudes que mantienen el estado seguro, o detectarlo, buscando ciclos en el grafo de asignación de recursos.',
+    deadlockTerm: 'interbloqueo (deadlock)',
+    memoryHeading: 'Asignación de Memoria',
+    memoryIntro:
+      'Sin paginación, cada proceso ocupa un tramo contiguo de la memoria. A medida que los bloques se asignan y se liberan, la memoria libre se divide en huecos, y una solicitud puede fallar aunque haya espacio suficiente en total: es la {term}.',
+    memoryTerm: 'fragmentación externa',
+    memoryList: {
+      firstFit: {
+        name: 'First Fit',
+        text: 'Usa el primer hueco, desde el inicio de la memoria, en el que cabe la solicitud.',
+      },
+      bestFit: {
+        name: 'Best Fit',
+        text: 'Usa el hueco más pequeño que admite la solicitud, dejando el menor sobrante posible.',
+      },
+      worstFit: {
+        name: 'Worst Fit',
+        text: 'Usa el hueco más grande, para que el sobrante siga siendo útil.',
+      },
+      nextFit: {
+        name: 'Next Fit',
+        text: 'Como First Fit, pero continúa la búsqueda donde se detuvo la última asignación.',
+      },
+      buddy: {
+        name: 'Sistema buddy',
+        text: 'Divide la memoria en bloques de potencias de 2 y vuelve a unir los pares de bloques libres.',
+      },
+    },
+    diskList: {
+      fcfs: {
+        name: 'FCFS (First Come, First Served)',
+        text: 'Atiende las solicitudes en orden de llegada.',
+      },
+      sstf: {
+        name: 'SSTF (Shortest Seek Time First)',
+        text: 'Atiende la solicitud más cercana a la posición actual del cabezal.',
+      },
+      scan: {
+        name: 'SCAN (Algoritmo del Ascensor)',
+        text: 'Mueve el cabezal en una dirección, atendiendo las solicitudes del camino.',
+      },
+      look: {
+        name: 'LOOK',
+        text: 'Como SCAN, pero invierte en la última solicitud en lugar de ir hasta el borde del disco.',
+      },
+      circular: {
+        name: 'C-SCAN y C-LOOK',
+        text: 'Atienden en una sola dirección y vuelven al inicio al final de cada barrido.',
+      },
+      batch: {
+        name: 'N-step SCAN y FSCAN',
+        text: 'Atienden la cola por lotes, impidiendo que las nuevas solicitudes retengan el cabezal.',
+      },
+    },
+    github: 'Ver en GitHub',
+    learnMore: 'Más información',
+    tagline:
+      'Herramienta Educativa Interactiva para Conceptos de Sistemas Operativos',
+    credits: 'Desarrollado con ❤️ por Pedro Ramos',
+  },
+
+  common: {
+    algorithm: 'Algoritmo',
+    pause: 'Pausar',
+    play: 'Iniciar',
+    next: 'Paso siguiente',
+    reset: 'Reiniciar',
+    fault: 'Fallo',
+    hit: 'Acierto',
+    pageFaults: 'Fallos de Página',
+    hits: 'Aciertos',
+    hitRatio: 'Tasa de Aciertos',
+    settings: 'Configuración',
+    apply: 'Aplicar y reiniciar',
+    generate: 'Generar y aplicar',
+    pattern: 'Patrón',
+    length: 'Longitud',
+    distinctPages: 'Páginas distintas',
+    seed: 'Semilla',
+    randomSeed: 'Semilla aleatoria',
+    about: 'Sobre el Algoritmo',
+    up: 'subiendo',
+    down: 'bajando',
+    yes: 'sí',
+    no: 'no',
+    writeBacks: 'Write-backs',
+    totalIO: 'Total de E/S',
+  },
+
+  input: {
+    required: 'Indica {label}.',
+    notInteger: '{label} debe ser un entero.',
+    outOfRange: '{label} debe estar entre {min} y {max}.',
+    notNumber: '{label} debe ser un número.',
+    emptyList: 'Indica al menos un valor en {label}.',
+    invalidItem: '"{token}" (elemento {index}) no es un entero no negativo.',
+    invalidReference:
+      '"{token}" (elemento {index}) no es una referencia válida (p. ej.: 3, 3r o 3w).',
+    invalidAddress:
+      '"{token}" (elemento {index}) no es una dirección decimal o hexadecimal (0x...).',
+    missingAddress:
+      '"{token}" (elemento {index}) debe ir antes de una dirección.',
+    addressOutOfRange:
+      '{token} (elemento {index}) está fuera del espacio de direcciones (máximo {max}).',
+    itemOutOfRange:
+      '{value} (elemento {index}) está fuera del intervalo {min}–{max}.',
+    invalidCpuProcess:
+      'P{pid}: indica la llegada, la duración y, si quieres, la prioridad.',
+    wrongRowLength: 'debe tener {count} valores, uno por recurso.',
+    invalidEdge:
+      'Línea {line}: "{text}" no es una arista (p. ej.: P0 -> R1 o R1 -> P0).',
+    unknownNode: 'Línea {line}: {node} no existe.',
+    tooManyLines: '{label} puede tener como máximo {max} líneas.',
+    invalidMemoryCommand:
+      '"{text}" no es un comando (p. ej.: A 100, free A o compact).',
+    alreadyAllocated: '{name} ya está asignado.',
+    notAllocated: '{name} no está asignado.',
+    labels: {
+      references: 'la cadena de referencias',
+      frames: 'el número de marcos',
+      maxFrames: 'el número máximo de marcos',
+      length: 'la longitud',
+      pageCount: 'el número de páginas',
+      seed: 'la semilla',
+      diskSize: 'el número de cilindros',
+      initialHead: 'la posición inicial del cabezal',
+      requests: 'la cola de solicitudes',
+      count: 'la cantidad',
+      rpm: 'la rotación',
+      settleTime: 'el tiempo de asentamiento',
+      seekFactor: 'el factor de búsqueda',
+      sectorsPerTrack: 'el número de sectores por pista',
+      sectors: 'los sectores',
+      arrivals: 'las llegadas',
+      headSpeed: 'la velocidad del cabezal',
+      meanGap: 'el intervalo medio',
+      addresses: 'las direcciones',
+      addressBits: 'el ancho de la dirección',
+      tlbSize: 'el tamaño de la TLB',
+      tlbTime: 'el tiempo de la TLB',
+      memoryTime: 'el tiempo de memoria',
+      faultTime: 'el tiempo de fallo de página',
+      processes: 'los procesos',
+      processCount: 'el número de procesos',
+      process: 'las referencias de P{pid}',
+      window: 'la ventana',
+      pffLower: 'la tasa mínima del PFF',
+      pffUpper: 'la tasa máxima del PFF',
+      arrival: 'la llegada',
+      burst: 'la duración',
+      priority: 'la prioridad',
+      quantum: 'el quantum',
+      mlfqQuanta: 'los quanta del MLFQ',
+      row: 'línea {row}',
+      available: 'el vector Available',
+      max: 'la matriz Max',
+      allocation: 'la matriz Allocation',
+      request: 'la solicitud',
+      instances: 'las instancias',
+      script: 'el guion',
+      requestSize: 'el tamaño de la solicitud',
+      batchSize: 'el tamaño del lote',
+    },
+  },
+
+  page: {
+    modes: {
+      simulation: 'Simulación',
+      quiz: 'Ejercicio',
+      comparison: 'Comparar algoritmos',
+      belady: 'Anomalía de Belady',
+    },
+    titles: {
+      simulation: 'Algoritmo de Reemplazo de Páginas: {algorithm}',
+      quiz: 'Ejercicio de Reemplazo de Páginas',
+      comparison: 'Comparación de Algoritmos de Reemplazo de Páginas',
+      belady: 'Explorador de la Anomalía de Belady',
+    },
+    tooltipTitle: '¿Qué son los fallos de página?',
+    tooltipContent:
+      'Un fallo de página ocurre cuando una página solicitada no está en la memoria física (RAM) y debe cargarse desde el disco. Cuantos menos fallos de página, mejor el rendimiento del algoritmo.',
+    initialNarration: 'Selecciona un algoritmo y pulsa Play para empezar.',
+    finished: '¡Simulación terminada! Puedes reiniciarla para verla de nuevo.',
+    imported: 'Escenario importado.',
+    metadata: {
+      loadedAt: 'entró t={time}',
+      lastUsedAt: 'uso t={time}',
+      nextUse: 'próx. t={time}',
+      frequency: 'accesos={count}',
+    },
+    hand: '▲ manecilla',
+    dirty: 'Página modificada (dirty)',
+    entering: 'nueva',
+    ioBreakdown: '{faults} lecturas + {writeBacks} write-backs',
+    references: 'Cadena de Referencias',
+    settings: {
+      references: 'Secuencia de referencias (sufijo w = escritura)',
+      frames: 'Marcos (1–{max})',
+      generator: 'Generador de secuencias',
+      patterns: {
+        uniform: 'Aleatoria uniforme',
+        locality: 'Localidad (fases)',
+        loop: 'Bucle',
+        zipf: 'Zipf',
+      },
+    },
+  },
+
+  translation: {
+    title: 'Traducción de Direcciones con {algorithm}',
+    tooltipTitle: '¿Qué es la TLB?',
+    tooltipContent:
+      'La TLB (Translation Lookaside Buffer) es una memoria asociativa pequeña y rápida que guarda las traducciones página → marco más recientes. Un acierto en la TLB evita consultar la tabla de páginas y ahorra un acceso a memoria.',
+    initialNarration:
+      'Configure las direcciones y haga clic en Play para traducirlas una a una.',
+    finished:
+      '¡Todas las direcciones fueron traducidas! Puede reiniciar para verlo de nuevo.',
+    settings: {
+      addresses:
+        'Direcciones virtuales (decimal o hexadecimal con 0x; W antes de una escritura)',
+      addressBits: 'Bits de la dirección ({min}–{max})',
+      pageSize: 'Tamaño de página',
+      pageSizeTooLarge:
+        'La página debe ser menor que el espacio de direcciones.',
+      tlbSize: 'Entradas de la TLB (1–{max})',
+      tlbPolicy: 'Reemplazo en la TLB',
+      times: 'Costos de acceso (ns)',
+      tlbTime: 'TLB',
+      memoryTime: 'Memoria',
+      faultTime: 'Fallo de página',
+    },
+    policies: {
+      FIFO: 'FIFO (entrada más antigua)',
+      LRU: 'LRU (usada hace más tiempo)',
+    },
+    bytes: '{size} bytes',
+    addresses: 'Direcciones',
+    addressesLegend:
+      'Verde: acierto en la TLB; azul: fallo de TLB resuelto por la tabla de páginas; rojo: fallo de página. W marca una escritura, que activa el bit D de la página. Haga clic en una dirección para ir a ella.',
+    layout:
+      'Dirección virtual: {pageBits} bits de página + {offsetBits} bits de desplazamiento.',
+    waiting: 'Avance la simulación para traducir la primera dirección.',
+    virtualAddress: 'Dirección virtual',
+    physicalAddress: 'Dirección física',
+    pageNumber: 'página {page}',
+    offset: 'desplazamiento {offset}',
+    frameNumber: 'marco {frame}',
+    tlbHit: 'TLB hit',
+    tlbMiss: 'TLB miss',
+    pageFault: 'Fallo de página',
+    tlb: 'TLB ({policy})',
+    pageTable: 'Tabla de Páginas',
+    page: 'Página',
+    frame: 'Marco',
+    empty: 'libre',
+    bitsLegend:
+      'V: válida (página en memoria); D: modificada (dirty); R: referenciada.',
+    tlbHitRate: 'Tasa de Aciertos de la TLB',
+    hitsAndMisses: '{hits} aciertos, {misses} fallos',
+    effectiveAccessTime: 'Tiempo Efectivo de Acceso',
+    nanoseconds: '{time} ns',
+    withFaults: 'Promedio medido, con los fallos de página: {time}',
+    about: 'Cómo Funciona la Traducción',
+    aboutText:
+      'La dirección virtual se divide en número de página (bits más significativos) y desplazamiento (bits menos significativos). El desplazamiento pasa sin cambios a la dirección física; solo el número de página se sustituye por el número de marco. Con una tasa de aciertos h en la TLB, el tiempo efectivo de acceso sin fallos de página es TEA = h × (TLB + memoria) + (1 − h) × (TLB + 2 × memoria).',
+  },
+
+  multi: {
+    title: 'Memoria Compartida por {count} Procesos',
+    tooltipTitle: '¿Qué es el thrashing?',
+    tooltipContent:
+      'El thrashing ocurre cuando los procesos no tienen marcos suficientes para sus conjuntos de trabajo: pasan más tiempo esperando que el disco atienda fallos de página que ejecutando. La CPU queda ociosa y, si el sistema reacciona admitiendo aún más procesos, la situación empeora.',
+    initialNarration:
+      'Configure los procesos y haga clic en Play para ejecutarlos en round robin, una referencia a la vez.',
+    finished:
+      '¡Todos los procesos terminaron! Puede reiniciar para verlo de nuevo.',
+    settings: {
+      processes:
+        'Procesos: una secuencia de referencias por línea (hasta {max})',
+      frames: 'Marcos en memoria ({max} como máximo)',
+      faultTime: 'Tiempo de fallo de página (ticks)',
+      allocation: 'Asignación de marcos',
+      scope: 'Reemplazo',
+      controller: 'Control de carga',
+      window: 'Ventana Δ (referencias)',
+      pffLower: 'PFF: tasa mínima (%)',
+      pffUpper: 'PFF: tasa máxima (%)',
+      tooFewFrames: 'Cada proceso necesita al menos un marco.',
+      pffOrder: 'La tasa mínima del PFF no puede superar la máxima.',
+      scopeLocked: 'Con control de carga, el reemplazo es siempre local.',
+      thrashingDemo: 'Demostración de thrashing',
+    },
+    allocations: {
+      equal: 'Igual (m / n marcos)',
+      proportional: 'Proporcional al tamaño',
+    },
+    scopes: {
+      global: 'Global (LRU entre todos los marcos)',
+      local: 'Local (LRU entre los marcos del proceso)',
+    },
+    controllers: {
+      none: 'Ninguno',
+      workingSet: 'Conjunto de trabajo',
+      pff: 'Frecuencia de fallos de página (PFF)',
+    },
+    pool: 'Marcos de la Memoria',
+    poolLegend:
+      'Cada color es un proceso; el borde destaca el marco usado en el paso actual.',
+    free: 'libre',
+    processes: 'Procesos',
+    process: 'Proceso',
+    size: 'Tamaño (páginas)',
+    status: 'Estado',
+    statuses: {
+      ready: 'listo',
+      blocked: 'esperando al disco',
+      suspended: 'suspendido',
+      finished: 'terminado',
+    },
+    progress: 'Referencias',
+    faultRate: 'Tasa de fallos',
+    frames: 'Marcos (ocupados / cuota)',
+    cpuUtilization: 'Utilización de la CPU',
+    busyTime: 'CPU ocupada {busy} de {time} ticks',
+    elapsed: 'Tiempo Transcurrido',
+    ticks: '{time} ticks',
+    curveTitle: 'Utilización de la CPU × Grado de Multiprogramación',
+    degree: 'Procesos en memoria',
+    percent: '%',
+    utilizationSeries: 'Utilización de la CPU (%)',
+    faultRateSeries: 'Tasa de fallos de página (%)',
+    curveLegend:
+      'Cada punto ejecuta los primeros n procesos con la misma memoria. El círculo rojo marca el pico: a partir de ahí, cada proceso adicional deja menos marcos para todos, los fallos de página aumentan y la CPU espera al disco.',
+    about: 'Asignación, Alcance y Control de Carga',
+    aboutText:
+      'En la asignación igual, cada uno de los n procesos recibe m / n marcos; en la proporcional, el proceso de tamaño s recibe s / S × m, donde S es la suma de los tamaños. Con reemplazo local, un proceso solo reemplaza sus propias páginas y se mantiene dentro de su cuota; con reemplazo global, la víctima es la página usada hace más tiempo en toda la memoria, aunque sea de otro proceso. El control por conjunto de trabajo da a cada proceso marcos para las páginas usadas en sus últimas Δ referencias y suspende procesos cuando la suma supera la memoria; el PFF mide la tasa de fallos de página de cada proceso y da un marco a quien supera el máximo o se lo quita a quien queda por debajo del mínimo.',
+  },
+
+  pageAlgorithms: {
+    FIFO: {
+      name: 'First In, First Out',
+      description:
+        'FIFO (First In, First Out) reemplaza la página más antigua en memoria, sin importar con qué frecuencia se usa. Es sencillo de implementar, pero puede no ser el más eficiente.',
+    },
+    LRU: {
+      name: 'Least Recently Used',
+      description:
+        'LRU (Least Recently Used) reemplaza la página que lleva más tiempo sin usarse. Suele ser más eficiente que FIFO porque tiene en cuenta el historial de uso de las páginas.',
+    },
+    OPT: {
+      name: 'Óptimo (Belady)',
+      description:
+        'OPT (algoritmo óptimo de Belady) reemplaza la página que más tardará en volver a usarse. Produce el menor número posible de fallos de página, pero exige conocer las referencias futuras, por lo que solo sirve como referencia de comparación.',
+    },
+    CLOCK: {
+      name: 'Second Chance / Clock',
+      description:
+        'Clock (Second Chance) organiza los marcos en un círculo con una manecilla. Cada página tiene un bit de referencia R que se activa en cada acceso. Al reemplazar, las páginas con R = 1 reciben una segunda oportunidad (R se pone a cero) y la manecilla avanza hasta encontrar una página con R = 0.',
+    },
+    ESC: {
+      name: 'Enhanced Second Chance',
+      description:
+        'Enhanced Second Chance considera el par (R, M) de bits de referencia y modificación. La manecilla busca primero una página (0, 0); si no la encuentra, busca (0, 1) poniendo a cero los bits R por el camino, y repite. Las páginas modificadas se evitan porque deben escribirse en disco antes de salir.',
+    },
+    LFU: {
+      name: 'Least Frequently Used',
+      description:
+        'LFU (Least Frequently Used) mantiene un contador de accesos por página y reemplaza la de menor recuento. Las páginas muy usadas en el pasado tienden a quedarse, aunque ya no se necesiten.',
+    },
+    MFU: {
+      name: 'Most Frequently Used',
+      description:
+        'MFU (Most Frequently Used) reemplaza la página con más accesos, suponiendo que las páginas con pocos accesos acaban de cargarse y todavía se usarán.',
+    },
+    NRU: {
+      name: 'Not Recently Used',
+      description:
+        'NRU (Not Recently Used) clasifica las páginas por sus bits (R, M) y desaloja una página de la clase más baja. Periódicamente, una interrupción de reloj pone a cero todos los bits R, separando las páginas usadas recientemente de las demás.',
+    },
+  },
+
+  disk: {
+    modes: {
+      simulation: 'Simulación',
+      quiz: 'Ejercicio',
+      comparison: 'Comparar algoritmos',
+    },
+    titles: {
+      simulation: 'Algoritmo de Planificación de Disco: {algorithm}',
+      quiz: 'Ejercicio de Planificación de Disco',
+      comparison: 'Comparación de Algoritmos de Planificación de Disco',
+    },
+    tooltipTitle: '¿Qué es el Seek Time?',
+    tooltipContent:
+      'El seek time es el tiempo necesario para mover el cabezal del disco de una posición a otra. Cuanto menor sea el seek time total, más eficiente es el algoritmo.',
+    countReturn: 'Contar el retorno en el tiempo de búsqueda',
+    batchSize: 'N (N-step SCAN):',
+    view: 'Vista del Disco (Posición del Cabezal y Solicitudes)',
+    returnToStart: '— retorno al inicio',
+    notCounted: ' (no contabilizado)',
+    edgeMove: '— desplazamiento hasta el borde del disco',
+    headPosition: 'Posición del Cabezal',
+    direction: 'Dirección',
+    totalSeek: 'Distancia Total de Búsqueda (cilindros)',
+    clock: 'Reloj ({unit})',
+    units: {
+      ticks: 'ticks',
+      ms: 'ms',
+    },
+    totalTime: 'Tiempo de Acceso (ms)',
+    timeBreakdown:
+      'búsqueda {seek} + rotación {latency} + transferencia {transfer}',
+    timing: {
+      title: 'Modelo de tiempo del disco',
+      enabled: 'Calcular el tiempo real de acceso (ms)',
+      description:
+        'Búsqueda = asentamiento + factor × √distancia. Tras la búsqueda, el cabezal espera a que el sector pase por debajo (latencia rotacional) y lee el sector completo (transferencia). Con el modelo activo, el reloj cuenta milisegundos y SPTF tiene en cuenta la rotación.',
+      rpm: 'Rotación (RPM)',
+      settleTime: 'Asentamiento (ms)',
+      seekFactor: 'Factor de búsqueda (ms/√cilindro)',
+      sectorsPerTrack: 'Sectores por pista',
+      sectors: 'Sector de cada solicitud',
+      sectorsHint: 'En blanco, todas quedan en el sector 0.',
+      sectorsLength: 'Indica un sector por solicitud ({count}).',
+      randomSectors: 'Sortear sectores',
+      rotation:
+        'Una vuelta tarda {period} ms; cada sector pasa en {sector} ms.',
+    },
+    starvingLegend: 'Naranja (!): solicitud que espera más allá del límite',
+    legend: {
+      pending: 'en cola',
+      starving: 'en inanición',
+      served: 'atendida',
+    },
+    headLabel: 'Cabezal en el cilindro {cylinder}',
+    requestLabel: 'Solicitud #{request}, cilindro {cylinder}: {state}',
+    announce: {
+      service:
+        'Cabezal de {from} a {to}, atendiendo la solicitud #{request}. Distancia total: {total}.',
+      edge: 'Cabezal de {from} a {to}, hasta el borde del disco.',
+      return: 'El cabezal regresa de {from} a {to}.',
+    },
+    metrics: {
+      title: 'Métricas por solicitud',
+      note: 'Tiempos en {unit}. La espera va desde la llegada hasta que el cabezal parte hacia la solicitud; la respuesta incluye además el propio acceso.',
+      starvationLimit: 'Límite de espera ({unit})',
+      request: 'Solicitud',
+      cylinder: 'Cilindro',
+      arrival: 'Llegada',
+      servedAt: 'Atendida en',
+      waiting: 'Espera',
+      response: 'Respuesta',
+      status: 'Estado',
+      notArrived: 'aún no ha llegado',
+      queued: 'en cola',
+      starving: 'en inanición',
+      served: 'atendida',
+      averageWaiting: 'Espera media',
+      averageResponse: 'Respuesta media',
+      variance: 'Varianza de la respuesta',
+      maxResponse: 'Mayor respuesta',
+    },
+    settings: {
+      requests: 'Cola de solicitudes (cilindros)',
+      diskSize: 'Número de cilindros',
+      initialHead: 'Posición inicial del cabezal',
+      arrivals: 'Llegadas ({unit}, opcional)',
+      arrivalsHint: 'En blanco, todas llegan en el instante 0.',
+      arrivalsLength: 'Indica una llegada por solicitud ({count}).',
+      headSpeed: 'Velocidad del cabezal (cilindros/tick)',
+      meanGap: 'Intervalo medio entre llegadas (ticks)',
+      direction: 'Dirección inicial (barridos)',
+      up: 'Creciente',
+      down: 'Decreciente',
+      generator: 'Generador de colas',
+      count: 'Solicitudes',
+      patterns: {
+        uniform: 'Uniforme',
+        clustered: 'Agrupada',
+        edge: 'Concentrada en los bordes',
+      },
+    },
+  },
+
+  diskAlgorithms: {
+    FCFS: {
+      name: 'First Come, First Served',
+      description:
+        'FCFS atiende las solicitudes en el orden exacto en que llegaron. Es sencillo, pero puede producir movimientos ineficientes del cabezal.',
+    },
+    SSTF: {
+      name: 'Shortest Seek Time First',
+      description:
+        'SSTF elige siempre la solicitud más cercana a la posición actual del cabezal. Es más eficiente que FCFS, pero puede causar inanición (starvation).',
+    },
+    SCAN: {
+      name: 'Algoritmo del Ascensor',
+      description:
+        'SCAN (Algoritmo del Ascensor) mueve el cabezal en una dirección hasta el final del disco, atendiendo las solicitudes del camino, y luego invierte la dirección.',
+    },
+    'C-SCAN': {
+      name: 'SCAN Circular',
+      description:
+        'C-SCAN atiende solicitudes en una sola dirección. Al llegar al final del disco, el cabezal vuelve de inmediato al inicio sin atender nada por el camino, lo que hace más uniforme el tiempo de espera. El retorno puede contabilizarse o no en el seek total.',
+    },
+    LOOK: {
+      name: 'SCAN sin ir al borde',
+      description:
+        'LOOK funciona como SCAN, pero el cabezal solo llega hasta la última solicitud en cada dirección antes de invertir, evitando recorrer cilindros sin solicitudes.',
+    },
+    'C-LOOK': {
+      name: 'LOOK Circular',
+      description:
+        'C-LOOK es la versión circular de LOOK: tras la última solicitud en una dirección, el cabezal salta directamente a la solicitud más lejana del otro lado y sigue en el mismo sentido.',
+    },
+    'N-STEP-SCAN': {
+      name: 'SCAN en lotes de N',
+      description:
+        'N-step SCAN divide la cola en lotes de N solicitudes, en orden de llegada, y atiende cada lote completo con SCAN antes de pasar al siguiente. Las solicitudes nuevas no pueden "colarse" en el barrido actual, lo que evita que el cabezal quede atrapado en una región.',
+    },
+    FSCAN: {
+      name: 'SCAN con cola congelada',
+      description:
+        'FSCAN usa dos colas: la cola actual se congela al inicio del barrido y se atiende con SCAN, mientras las nuevas solicitudes esperan en la segunda cola. Define llegadas a lo largo del tiempo para ver cómo las solicitudes nuevas esperan al siguiente lote.',
+    },
+    SPTF: {
+      name: 'Shortest Positioning Time First',
+      description:
+        'SPTF (también llamado SATF) elige la solicitud que el cabezal alcanza antes, sumando la búsqueda y la latencia rotacional hasta su sector. Solo marca la diferencia con el modelo de tiempo activo; sin él, se ignora la rotación y SPTF equivale a SSTF. Como SSTF, puede causar inanición.',
+    },
+  },
+
+  cpu: {
+    title: 'Planificación de CPU: {algorithm}',
+    tooltipTitle: '¿Cómo decide el planificador?',
+    tooltipContent:
+      'En cada instante, el planificador mira la cola de listos y decide quién usa la CPU. En los algoritmos expropiativos, también puede sacar al proceso en ejecución para dar lugar a otro. El diagrama de Gantt muestra quién ocupó la CPU en cada intervalo de tiempo.',
+    initialNarration:
+      'Elige un algoritmo y haz clic en Play para seguir la planificación, una unidad de tiempo por vez.',
+    finished:
+      '¡Todos los procesos terminaron! Puedes reiniciar para verlo de nuevo.',
+    settings: {
+      processes:
+        'Procesos: llegada, duración y prioridad por línea (hasta {max})',
+      processesHint: 'Prioridad opcional: el número menor es la más alta.',
+      quantum: 'Quantum del Round Robin',
+      mlfqQuanta: 'Quanta del MLFQ, del nivel más alto al más bajo',
+      mlfqHint:
+        'Hasta {max} niveles con quantum; debajo de ellos hay un nivel FCFS.',
+      tooManyLevels: 'Indica como máximo {max} quanta.',
+    },
+    gantt: 'Diagrama de Gantt',
+    ganttLegend:
+      'Cada franja es un intervalo en que el proceso ocupó la CPU; las franjas grises son la CPU ociosa.',
+    idle: 'ociosa',
+    cpu: 'CPU',
+    readyQueue: 'Cola de listos',
+    level: 'Nivel {level} (quantum {quantum})',
+    lastLevel: 'Nivel {level} (FCFS)',
+    empty: 'vacía',
+    results: 'Métricas por Proceso',
+    process: 'Proceso',
+    arrival: 'Llegada',
+    burst: 'Duración',
+    priority: 'Prioridad',
+    completion: 'Fin',
+    turnaround: 'Retorno',
+    waiting: 'Espera',
+    response: 'Respuesta',
+    average: 'Media',
+    resultsLegend:
+      'Retorno = fin − llegada; espera = retorno − duración; respuesta = primera vez en la CPU − llegada.',
+    averageWaiting: 'Espera Media',
+    averageTurnaround: 'Retorno Medio',
+    averageResponse: 'Respuesta Media',
+    completed: '{done} de {total} procesos terminados',
+    utilization: 'Utilización de la CPU',
+    switches: '{count} cambio(s) de contexto',
+  },
+
+  cpuAlgorithms: {
+    FCFS: {
+      short: 'FCFS',
+      name: 'First Come, First Served',
+      description:
+        'El FCFS ejecuta los procesos en orden de llegada y nunca interrumpe al que está en la CPU. Es simple y justo en el orden, pero un proceso largo al principio hace esperar a todos los cortos (efecto convoy).',
+    },
+    SJF: {
+      short: 'SJF',
+      name: 'Shortest Job First',
+      description:
+        'Cuando la CPU queda libre, el SJF elige el proceso listo de menor duración. Minimiza la espera media entre los no expropiativos, pero exige conocer la duración de antemano y puede postergar indefinidamente a los procesos largos.',
+    },
+    SRTF: {
+      short: 'SRTF',
+      name: 'Shortest Remaining Time First',
+      description:
+        'Versión expropiativa del SJF: si llega un proceso con menos tiempo restante que el que se está ejecutando, toma la CPU. Da la menor espera media posible, a costa de más cambios de contexto.',
+    },
+    RR: {
+      short: 'RR',
+      name: 'Round Robin',
+      description:
+        'El Round Robin da a cada proceso como máximo un quantum de CPU por vez; quien no termina vuelve al final de la cola. El tiempo de respuesta se vuelve predecible, pero un quantum demasiado pequeño gasta mucho tiempo en cambios de contexto y uno demasiado grande se convierte en FCFS.',
+    },
+    PRIORITY: {
+      short: 'Prioridad',
+      name: 'Prioridad no expropiativa',
+      description:
+        'Cuando la CPU queda libre, ejecuta hasta el final el proceso listo de mayor prioridad (número menor). Los procesos de baja prioridad pueden esperar indefinidamente (inanición), lo que suele resolverse aumentando la prioridad con el tiempo de espera (envejecimiento).',
+    },
+    PRIORITY_P: {
+      short: 'Prioridad (E)',
+      name: 'Prioridad expropiativa',
+      description:
+        'Como la prioridad no expropiativa, pero un proceso que llega con mayor prioridad saca de inmediato de la CPU al que se está ejecutando.',
+    },
+    MLFQ: {
+      short: 'MLFQ',
+      name: 'Multilevel Feedback Queue',
+      description:
+        'El MLFQ tiene varias colas de prioridad. Todo proceso empieza en el nivel más alto; quien agota el quantum baja un nivel, y un nivel solo se atiende cuando los de arriba están vacíos. Así, los procesos cortos terminan pronto y los largos bajan al nivel FCFS, sin necesidad de conocer la duración.',
+    },
+  },
+
+  deadlock: {
+    modes: {
+      banker: 'Algoritmo del banquero',
+      graph: 'Grafo de asignación',
+    },
+    titles: {
+      banker: 'Algoritmo del Banquero',
+      graph: 'Grafo de Asignación de Recursos',
+    },
+    tooltipTitle: '¿Cómo se evitan y detectan los interbloqueos?',
+    tooltipContent:
+      'Un interbloqueo exige cuatro condiciones a la vez: exclusión mutua, retención y espera, ausencia de expropiación y espera circular. El algoritmo del banquero lo evita concediendo solo las solicitudes que dejan el sistema en un estado seguro; el grafo de asignación permite detectarlo después de que ocurre.',
+    settings: {
+      available: 'Available: instancias libres de cada recurso (hasta {max})',
+      max: 'Max: demanda máxima, una línea por proceso (hasta {max})',
+      allocation: 'Allocation: instancias ya asignadas, una línea por proceso',
+      tooManyResources: 'Usa como máximo {max} recursos.',
+      tooManyProcesses: 'Usa como máximo {max} procesos.',
+      rowCount: 'Allocation debe tener una línea por proceso de Max ({count}).',
+      overMax: 'P{pid} tiene más instancias asignadas que su demanda máxima.',
+      processes: 'Procesos (hasta {max})',
+      instances: 'Instancias de cada recurso (hasta {max} recursos)',
+      edges:
+        'Aristas, una por línea: P0 -> R1 (solicitud) o R1 -> P0 (asignación)',
+      tooManyInstances:
+        'Cada recurso puede tener como máximo {max} instancias.',
+      overInstances: 'R{rid} tiene más asignaciones que instancias.',
+      deadlockDemo: 'Ejemplo con interbloqueo',
+      cycleDemo: 'Ciclo sin interbloqueo',
+    },
+    banker: {
+      initialNarration:
+        'Haz clic en Play para ejecutar el algoritmo de seguridad, comparando la necesidad de cada proceso con el vector Work.',
+      safe: '¡Estado seguro! Secuencia segura: {sequence}.',
+      unsafe:
+        'Estado inseguro: {processes} no pueden terminar con los recursos disponibles.',
+      matrices: 'Estado del Sistema',
+      process: 'Proceso',
+      allocation: 'Allocation',
+      max: 'Max',
+      need: 'Need',
+      finish: 'Finish',
+      matricesLegend:
+        'Need = Max − Allocation. La fila destacada es el proceso comparado en el paso actual.',
+      work: 'Work',
+      sequence: 'Secuencia segura',
+      noSequence: 'ningún proceso ha terminado todavía',
+      request: 'Solicitud de Recursos',
+      requestProcess: 'Proceso',
+      requestVector: 'Solicitud (un valor por recurso)',
+      evaluate: 'Evaluar solicitud',
+      grant: 'Conceder solicitud',
+      wrongLength: 'La solicitud debe tener {count} valores, uno por recurso.',
+      verdicts: {
+        exceedsNeed:
+          'Error: la solicitud de P{pid} supera su necesidad declarada {need}.',
+        mustWait:
+          'P{pid} debe esperar: la solicitud {request} es mayor que Available {available}.',
+        unsafe:
+          'Solicitud denegada: atenderla dejaría el sistema en un estado inseguro, así que P{pid} espera.',
+        granted:
+          'La solicitud se puede atender: el estado sigue siendo seguro con la secuencia {sequence}.',
+      },
+      about: 'Estado Seguro',
+      aboutText:
+        'Un estado es seguro si existe un orden en que todos los procesos pueden terminar, aunque cada uno pida todo lo que declaró en Max. El algoritmo simula ese orden: Work empieza igual a Available, y cada proceso con Need ≤ Work termina y devuelve lo que tenía (Work = Work + Allocation). Un estado inseguro todavía no es un interbloqueo, pero el sistema ya no puede garantizar que se evitará.',
+    },
+    graph: {
+      initialNarration:
+        'Haz clic en Play para reducir el grafo: en cada paso, un proceso cuyas solicitudes pueden atenderse termina y libera sus recursos.',
+      noDeadlock: 'Todos los procesos se redujeron: no hay interbloqueo.',
+      deadlock:
+        'Ningún otro proceso puede reducirse: {processes} están en interbloqueo.',
+      cycle: 'Ciclo encontrado: {cycle}',
+      noCycle: 'El grafo no tiene ciclos, así que no hay interbloqueo.',
+      cycleNote:
+        'Con varias instancias por recurso, un ciclo no garantiza un interbloqueo: solo la reducción del grafo lo decide.',
+      available: 'Instancias libres',
+      legend:
+        'Los círculos son procesos; los rectángulos son recursos, con un punto por instancia. Flecha del proceso al recurso: solicitud; del recurso al proceso: asignación. Las aristas del ciclo quedan en rojo y los procesos reducidos, atenuados.',
+      about: 'Ciclos e Interbloqueo',
+      aboutText:
+        'Si el grafo no tiene ciclos, no hay interbloqueo. Si cada recurso tiene una única instancia, un ciclo significa interbloqueo. Con varias instancias, hay que reducir el grafo: cualquier proceso cuyas solicitudes caben en las instancias libres puede terminar y liberar lo que tiene; los procesos que quedan al final están en interbloqueo.',
+    },
+  },
+
+  memory: {
+    title: 'Asignación de Memoria: {algorithm}',
+    tooltipTitle: '¿Por qué se fragmenta la memoria?',
+    tooltipContent:
+      'Cada liberación abre un hueco entre bloques ocupados. Con el tiempo, la memoria libre queda repartida en huecos demasiado pequeños para las solicitudes. La compactación lo resuelve moviendo los bloques al inicio de la memoria, pero cuesta copiar todo ese contenido. El sistema buddy cambia fragmentación externa por fragmentación interna: todo bloque tiene tamaño de potencia de 2.',
+    initialNarration:
+      'Elija una estrategia y haga clic en Play para ejecutar el guion, un comando a la vez.',
+    finished: '¡El guion terminó! Puede reiniciar para verlo de nuevo.',
+    settings: {
+      memorySize: 'Tamaño de la memoria (KB)',
+      minBlock: 'Bloque mínimo del buddy (KB)',
+      compactOnFailure:
+        'Compactar cuando la fragmentación impida una solicitud (particiones variables)',
+      script: 'Guion: un comando por línea (hasta {max})',
+      scriptHint:
+        '"A 100" asigna 100 KB a A, "free A" libera el bloque de A y "compact" compacta la memoria.',
+    },
+    view: 'Memoria',
+    viewLegend:
+      'Cada franja de color es un bloque asignado; las franjas grises son memoria libre. El bloque del último comando aparece resaltado.',
+    nextFitPointer: 'Puntero del Next Fit',
+    tree: 'Árbol del Buddy',
+    treeLegend:
+      'Cada nivel divide un bloque en dos buddies de la mitad del tamaño. Los bloques de color están asignados, los blancos están libres y los grises fueron divididos.',
+    utilization: 'Utilización',
+    largestHole: 'Mayor Bloque Libre',
+    holes: '{count} bloque(s) libre(s), {free} KB en total',
+    fragmentation: 'Fragmentación Externa',
+    fragmentationHint: 'memoria libre fuera del mayor bloque libre',
+    internalFragmentation: '{size} KB de fragmentación interna',
+    failures: 'Fallos de Asignación',
+    moved: '{moved} KB copiados en compactaciones',
+    comparison: 'Comparación entre las Estrategias',
+    comparisonLegend:
+      'Resultado del guion completo con cada estrategia de particiones variables.',
+    strategy: 'Estrategia',
+    kilobytes: '{value} KB',
+  },
+
+  memoryAlgorithms: {
+    FIRST_FIT: {
+      short: 'First Fit',
+      name: 'Primer hueco que cabe',
+      description:
+        'First Fit recorre la memoria desde el inicio y usa el primer hueco en el que cabe la solicitud. Es rápido, pero tiende a acumular huecos pequeños cerca del inicio de la memoria.',
+    },
+    BEST_FIT: {
+      short: 'Best Fit',
+      name: 'El hueco más ajustado',
+      description:
+        'Best Fit busca el hueco más pequeño que admite la solicitud, para desperdiciar lo mínimo. A cambio, deja sobrantes diminutos que difícilmente servirán para otra solicitud.',
+    },
+    WORST_FIT: {
+      short: 'Worst Fit',
+      name: 'El hueco más grande',
+      description:
+        'Worst Fit usa siempre el hueco más grande, apostando a que el sobrante aún será lo bastante grande para otra solicitud. En la práctica, agota pronto los huecos grandes que necesitarían las solicitudes mayores.',
+    },
+    NEXT_FIT: {
+      short: 'Next Fit',
+      name: 'Siguiente hueco que cabe',
+      description:
+        'Next Fit funciona como First Fit, pero empieza la búsqueda donde terminó la última asignación y da la vuelta a la memoria. Reparte las asignaciones en lugar de concentrarlas al inicio.',
+    },
+    BUDDY: {
+      short: 'Buddy',
+      name: 'Sistema de bloques compañeros',
+      description:
+        'En el sistema buddy, todo bloque tiene tamaño de potencia de 2. Una solicitud se redondea hacia arriba y recibe un bloque obtenido dividiendo por la mitad, tantas veces como haga falta, un bloque libre mayor. Al liberarse, el bloque se une a su buddy si este también está libre. Las divisiones y fusiones son rápidas, pero el redondeo causa fragmentación interna.',
+    },
+  },
+
+  narration: {
+    memory: {
+      placed: '{name} ({size} KB) va a la dirección {address}: {reason}.',
+      reasons: {
+        FIRST_FIT: 'es el primer hueco en el que cabe',
+        BEST_FIT: 'es el hueco más pequeño en el que cabe',
+        WORST_FIT: 'es el hueco más grande',
+        NEXT_FIT: 'es el primer hueco en el que cabe a partir del puntero',
+      },
+      compactedFirst:
+        'Ningún hueco admite {name}, pero hay memoria libre suficiente: primero se compacta la memoria ({moved} KB copiados).',
+      fragmented:
+        '{name} ({size} KB) no se puede asignar: hay {free} KB libres, pero el mayor bloque libre tiene {largest} KB (fragmentación externa).',
+      noSpace:
+        '{name} ({size} KB) no se puede asignar: solo hay {free} KB libres.',
+      freed: '{name} libera {size} KB en la dirección {address}.',
+      notInMemory:
+        '{name} no está en la memoria porque su solicitud falló: no hay nada que liberar.',
+      compacted:
+        'Se compacta la memoria: se copian {moved} KB, y la memoria libre se convierte en un único hueco de {free} KB.',
+      buddyPlaced:
+        '{name} pide {size} KB y recibe un bloque de {block} KB en la dirección {address} ({waste} KB de fragmentación interna).',
+      split: 'Para ello, un bloque de {from} KB se divide {count} vez/veces.',
+      merged:
+        'El bloque se une a su buddy libre {count} vez/veces y forma un bloque libre de {size} KB.',
+      buddyCompact:
+        'El sistema buddy no compacta la memoria: cada bloque tiene una dirección fija en el árbol.',
+    },
+    deadlock: {
+      canFinish:
+        'P{pid}: Need {need} ≤ Work {work}. P{pid} puede terminar y devolver lo que tiene: Work pasa a {after}.',
+      mustWait:
+        'P{pid}: Need {need} no cabe en Work {work}; P{pid} queda para la próxima pasada.',
+      reduced:
+        'Las solicitudes de P{pid} pueden atenderse: termina y libera sus recursos. Instancias libres: {available}.',
+    },
+    cpu: {
+      arrived: '{process} llega a la cola de listos.',
+      quantumExpired:
+        '{process} agotó el quantum y vuelve al final de la cola de listos.',
+      demoted: '{process} agotó el quantum y baja al nivel {level}.',
+      preempted: {
+        shorter:
+          '{process} es interrumpido: {next} tiene menos tiempo restante.',
+        higherPriority:
+          '{process} es interrumpido: {next} tiene mayor prioridad.',
+        higherLevel:
+          '{process} es interrumpido: {next} está en un nivel más alto.',
+      },
+      idle: 'La CPU queda ociosa: no hay procesos listos.',
+      continues: '{process} sigue ejecutándose.',
+      dispatch: {
+        FCFS: '{process} toma la CPU: es el primero de la cola.',
+        SJF: '{process} toma la CPU: tiene la menor duración ({burst}) entre los listos.',
+        SRTF: '{process} toma la CPU: tiene el menor tiempo restante ({remaining}).',
+        RR: '{process} toma la CPU por hasta {quantum} unidad(es) de tiempo.',
+        PRIORITY:
+          '{process} toma la CPU: tiene la mayor prioridad ({priority}) entre los listos.',
+        PRIORITY_P:
+          '{process} toma la CPU: tiene la mayor prioridad ({priority}) entre los listos.',
+        MLFQ: '{process} toma la CPU en el nivel {level}, con quantum {quantum}.',
+        mlfqLast:
+          '{process} toma la CPU en el nivel {level}, que es FCFS y no tiene quantum.',
+      },
+      completed: '{process} termina en el instante {time}.',
+    },
+    multi: {
+      idle: 'La CPU estuvo ociosa {ticks} ticks esperando al disco.',
+      resumed: '{process} se reanuda: su cuota vuelve a caber en memoria.',
+      hit: '{process} referencia la página {page}: acierto en el marco {frame}.',
+      freeFrame:
+        '{process} referencia la página {page}: ¡fallo de página! La página se carga en el marco libre {frame}.',
+      ownVictim:
+        '{process} referencia la página {page}: ¡fallo de página! Sin marco libre para {process}, el LRU quita su página {victim}, y la página {page} ocupa el marco {frame}.',
+      otherVictim:
+        '{process} referencia la página {page}: ¡fallo de página! El LRU global quita la página {victim} de {owner}, y la página {page} ocupa el marco {frame}.',
+      blocked: '{process} queda bloqueado hasta que el disco cargue la página.',
+      released:
+        'El control de carga devuelve al pool {count} marco(s) de {process}.',
+      suspended:
+        'La demanda superó la memoria: {process} se suspende y libera sus marcos.',
+      finished: '{process} terminó y libera sus marcos.',
+    },
+    translation: {
+      split:
+        'La dirección {address} se divide en página {page} y desplazamiento {offset}.',
+      tlbHit:
+        'Acierto en la TLB: la TLB ya traduce la página {page} al marco {frame}, sin consultar la tabla de páginas.',
+      tlbMiss:
+        'Fallo de TLB: la página {page} no está en la TLB, así que se consulta la tabla de páginas.',
+      tableHit:
+        'La entrada es válida: la página está en el marco {frame}, y la traducción se copia a la TLB.',
+      freeFrame:
+        '¡Fallo de página! La página {page} no está en memoria y se carga en el marco libre {frame}.',
+      replacement:
+        '¡Fallo de página! La memoria está llena: {algorithm} expulsa la página {victim}, y la página {page} ocupa el marco {frame}.',
+      tlbInvalidated:
+        'La entrada de la página {page} en la TLB se invalida, porque la página salió de la memoria.',
+      tlbVictim:
+        'La TLB está llena: según la política {policy}, se reemplaza la entrada de la página {page}.',
+      physical: 'Dirección física: {address}.',
+    },
+    page: {
+      start:
+        '¡Bienvenido! Empecemos la simulación del algoritmo {algorithm}. Primero, añadimos la página {page} a la memoria.',
+      freeFrame:
+        '¡Fallo de página! La página {page} no está en memoria, pero todavía hay un marco libre para cargarla.',
+      memoryFull:
+        '¡Fallo de página detectado! La página {page} debe cargarse, pero la memoria está llena.',
+      clockTick:
+        ' Interrupción de reloj: todos los bits R se han puesto a cero.',
+      writeBack:
+        ' La página {victim} estaba modificada (dirty) y se graba en el disco antes de salir (write-back).',
+      write:
+        ' Como es una escritura, se activa el bit M (dirty) de la página {page}.',
+      victim: {
+        FIFO: 'Siguiendo el principio First-In-First-Out, desalojamos la página más antigua ({victim}).',
+        LRU: 'Con LRU, desalojamos la página que lleva más tiempo sin accederse ({victim}).',
+        OPT: 'El algoritmo óptimo mira al futuro: la página {victim} es la que más tardará en volver a usarse.',
+        CLOCK:
+          'La manecilla recorre los marcos dando una segunda oportunidad a las páginas con R = 1 (poniendo el bit a cero). La página {victim} tenía R = 0 y se desaloja.',
+        ESC: 'La manecilla busca la clase (R, M) más baja, prefiriendo páginas no referenciadas y no modificadas. Se desaloja la página {victim}.',
+        LFU: 'Con LFU, desalojamos la página con el menor contador de accesos ({victim}).',
+        MFU: 'Con MFU, desalojamos la página con el mayor contador de accesos ({victim}).',
+        NRU: 'Con NRU, desalojamos una página de la clase (R, M) más baja: la página {victim}.',
+      },
+      hit: {
+        FIFO: 'La página {page} ya está en memoria. En FIFO no hace falta ninguna actualización adicional.',
+        LRU: '¡Muy bien! La página {page} ya está en memoria. Actualizamos su marca de tiempo para registrar este acceso reciente.',
+        OPT: 'La página {page} ya está en memoria. OPT no guarda historial: solo importan las referencias futuras.',
+        referenceBit:
+          'La página {page} ya está en memoria. Activamos su bit de referencia R.',
+        frequency:
+          'La página {page} ya está en memoria. Incrementamos su contador de accesos.',
+      },
+    },
+    disk: {
+      returnMove:
+        'El cabezal vuelve al cilindro {cylinder} sin atender nada por el camino.',
+      edgeMove:
+        'El cabezal va hasta el borde (cilindro {cylinder}) e invierte el sentido.',
+      jump: 'Sin solicitudes por delante, el cabezal salta a la solicitud más lejana del otro extremo.',
+      FCFS: 'FCFS atiende por orden de llegada: la siguiente de la cola es el cilindro {cylinder} ({distance} cilindros).',
+      SSTF: 'SSTF elige la solicitud pendiente más cercana al cabezal: el cilindro {cylinder}, a {distance} cilindros.',
+      SPTF: 'SPTF elige la solicitud que el cabezal alcanza antes, sumando búsqueda y latencia rotacional: el cilindro {cylinder} ({distance} cilindros).',
+      batch:
+        '{algorithm} barre el lote actual (lote {batch}) {sense} y atiende el cilindro {cylinder} ({distance} cilindros).',
+      sweep:
+        '{algorithm} sigue {sense} y atiende la siguiente solicitud del camino: el cilindro {cylinder} ({distance} cilindros).',
+    },
+  },
+
+  playback: {
+    start: 'Ir al inicio',
+    previous: 'Paso anterior',
+    end: 'Ir al final',
+    step: 'Paso {step} de {total}',
+    timeline: 'Línea de tiempo',
+    speed: 'Velocidad',
+    label: 'Controles de reproducción',
+    shortcuts:
+      'Atajos con el foco en los controles: espacio inicia o pausa, ← y → retroceden o avanzan un paso, Inicio y Fin van al comienzo y al final.',
+  },
+
+  traceTable: {
+    title: 'Tabla de Ejecución',
+    download: 'Descargar la traza (CSV)',
+    reference: 'Referencia',
+    goToStep: 'Ir al paso {step}',
+    frame: 'Marco {index}',
+    lruStack: 'Pila LRU',
+    legend:
+      'Celdas rojas: página cargada en el fallo (la víctima aparece tachada).',
+    bitsLegend: 'El número en superíndice es el bit R; ◂ marca la manecilla.',
+    stackLegend:
+      'La pila LRU lista las páginas de la más reciente (arriba) a la próxima víctima.',
+    clickLegend: 'Haz clic en una columna para ir a ese paso.',
+    writeBack: 'Write-back',
+    writeLegend:
+      'El sufijo w marca las escrituras; W indica que la víctima modificada se grabó en el disco.',
+  },
+
+  seekPath: {
+    title: 'Recorrido del Cabezal',
+    download: 'Descargar el orden de atención con las distancias (CSV)',
+    ariaLabel: 'Recorrido del cabezal: cilindro por orden de atención',
+    legend:
+      'Los números de los segmentos son las distancias recorridas. Los círculos vacíos son desplazamientos hasta el borde; las líneas discontinuas son retornos (entre paréntesis cuando no cuentan en el seek).',
+  },
+
+  comparison: {
+    faultsChart: 'Fallos de página por algoritmo',
+    hitRatioChart: 'Tasa de aciertos por algoritmo',
+    pagePlayback: 'Reproducción en paralelo — paso {step} de {total}',
+    currentPage: ' (página {page})',
+    faults: 'Fallos: {count}',
+    totalSeek: 'Seek Total',
+    averageSeek: 'Seek Medio',
+    maxWait: 'Espera Máxima',
+    averageResponse: 'Respuesta Media',
+    responseVariance: 'Varianza de la Respuesta',
+    totalTime: 'Tiempo de Acceso (ms)',
+    waitNote:
+      'La espera de una solicitud es la distancia que recorre el cabezal hasta atenderla, incluidos los retornos no contabilizados en el seek.',
+    seekChart: 'Seek total por algoritmo (cilindros)',
+    waitChart: 'Espera máxima por algoritmo (cilindros)',
+    diskPlayback: 'Reproducción en paralelo — movimiento {step} de {total}',
+    seek: 'Seek: {count}',
+  },
+
+  belady: {
+    maxFrames: 'Máximo de marcos (hasta {max})',
+    analyzed: 'Secuencia analizada:',
+    chartTitle: 'Fallos de página × número de marcos',
+    xLabel: 'Número de marcos',
+    yLabel: 'Fallos de página',
+    anomaly:
+      'Anomalía de Belady en {algorithm}: con {frames} marcos hay {faults} fallos, pero con {nextFrames} marcos hay {nextFaults}.',
+    noAnomaly:
+      'Ninguna anomalía: para los algoritmos mostrados, más marcos nunca aumentan los fallos de página en esta secuencia.',
+    searchTitle: 'Encontrar una anomalía',
+    searchDescription:
+      'Prueba secuencias aleatorias (a partir de la semilla) hasta encontrar una en la que FIFO tenga más fallos con más marcos.',
+    search: 'Buscar',
+    searching: 'Probando secuencias… {count} de {total}',
+    notFound:
+      'No se encontró ninguna anomalía en {attempts} intentos. Prueba otra semilla o una secuencia más larga.',
+    found:
+      'Encontrada tras {attempts} intento(s): FIFO con {frames} marcos produce {faults} fallos y con {nextFrames} marcos produce {nextFaults}.',
+    useSequence: 'Usar esta secuencia',
+  },
+
+  scenario: {
+    copyLink: 'Copiar enlace',
+    exportJson: 'Exportar JSON',
+    importJson: 'Importar JSON',
+    report: 'Informe',
+    linkCopied: '¡Enlace copiado!',
+    copyFailed:
+      'No se pudo copiar; copia la dirección de la barra del navegador.',
+    wrongKind: 'El archivo contiene un escenario de {kind}.',
+    imported: 'Escenario importado.',
+    kinds: {
+      page: 'reemplazo de páginas',
+      disk: 'planificación de disco',
+    },
+    errors: {
+      notObject: 'El escenario debe ser un objeto JSON.',
+      kind: 'El campo "kind" debe ser "page" o "disk".',
+      integer: 'El campo "{field}" debe ser un entero entre {min} y {max}.',
+      number: 'El campo "{field}" debe ser un número entre {min} y {max}.',
+      list: 'El campo "{field}" debe ser una lista no vacía de enteros.',
+      listItem:
+        'El elemento {index} de "{field}" debe ser un entero entre {min} y {max}.',
+      oneOf: 'El campo "{field}" debe ser uno de estos valores: {options}.',
+      length: 'El campo "{field}" debe tener {count} elementos.',
+      boolean: 'El campo "{field}" debe ser true o false.',
+      invalidJson: 'El archivo no contiene un JSON válido.',
+      version:
+        'Versión de escenario no soportada: {version} (esperada: {expected}).',
+    },
+  },
+
+  traceFile: {
+    title: 'Cargar traza desde archivo',
+    pageHint:
+      'Acepta la salida de Valgrind Lackey (--trace-mem=yes) o líneas "R dirección" / "W dirección" en hexadecimal. Cada acceso se convierte en la página de su dirección.',
+    diskHint:
+      'Acepta la salida de blkparse o un CSV "tiempo,sector,op" (tiempo en segundos). Los sectores se reparten entre los {cylinders} cilindros del disco, y las llegadas cuentan en ms: al cargarla se activa el modelo de tiempo del disco.',
+    pageSize: 'Tamaño de página',
+    bytes: '{size} bytes',
+    choose: 'Elegir archivo',
+    cancel: 'Cancelar',
+    stages: {
+      reading: 'Leyendo el archivo...',
+      parsing: 'Interpretando las líneas...',
+      simulating: 'Ejecutando los algoritmos...',
+    },
+    loaded: '{name}: {count} accesos leídos, {skipped} líneas ignoradas.',
+    renumbered:
+      'Traza cargada. Las páginas se renumeraron en orden de primer acceso para caber en el simulador.',
+    errors: {
+      empty: 'No se reconoció ningún acceso en el archivo.',
+      unreadable: 'No se pudo leer el archivo.',
+      failed:
+        'El procesamiento de la traza falló (el archivo puede ser demasiado grande para la memoria disponible).',
+    },
+    summaryTitle: 'Resumen de la traza {name}',
+    pageSummary:
+      'La traza es demasiado larga para verla paso a paso. La tabla muestra el resultado de cada algoritmo con {frames} marcos y páginas de {size} bytes.',
+    diskSummary:
+      'La traza es demasiado larga para verla paso a paso. La tabla muestra el resultado de cada algoritmo en un disco de {cylinders} cilindros, simulado en ventanas de {window} solicitudes con el modelo de tiempo (tiempos en ms).',
+    truncated: 'Solo se leyeron los primeros {max} accesos.',
+    references: 'Accesos',
+    distinctCylinders: 'Cilindros distintos',
+    writes: 'Escrituras',
+    skipped: 'Líneas ignoradas',
+    maxResponse: 'Respuesta Máxima',
+    close: 'Volver al simulador',
+  },
+
+  chartExport: {
+    svg: 'Descargar como SVG',
+    png: 'Descargar como PNG',
+  },
+
+  report: {
+    print: 'Imprimir',
+    close: 'Cerrar',
+    inputs: 'Entradas',
+    totals: 'Totales',
+    pageTitle: 'Informe — Reemplazo de Páginas',
+    references: 'Cadena de referencias:',
+    frames: 'Marcos:',
+    pageSection: '{algorithm} — {faults} fallos de página',
+    diskTitle: 'Informe — Planificación de Disco',
+    requests: 'Cola de solicitudes:',
+    cylinders: 'Cilindros:',
+    initialHead: 'Cabezal inicial:',
+    returnSweep: 'Retorno de C-SCAN/C-LOOK en el seek:',
+    batchSize: 'lote de N-step SCAN:',
+    averageSeek: 'Seek Medio',
+    maxWait: 'Mayor Espera',
+    arrivals: 'Llegadas ({unit}):',
+    headSpeed: 'Velocidad del cabezal:',
+    cylindersPerTick: '{speed} cilindros/tick',
+    averageResponse: 'Respuesta Media',
+    responseVariance: 'Varianza de la Respuesta',
+    timing: 'Modelo de tiempo:',
+    timingValue:
+      '{rpm} RPM; búsqueda {settle} + {factor} × √d ms; {sectors} sectores por pista',
+    timingOff: 'desactivado (reloj en ticks)',
+    totalTime: 'Tiempo de Acceso (ms)',
+    diskSection: '{algorithm} — {seek} cilindros',
+  },
+
+  quiz: {
+    result: 'Resultado ({algorithm})',
+    percent: '{percent} de aciertos',
+    review: 'Revisión',
+    step: 'Paso',
+    reference: 'Referencia',
+    question: 'Pregunta',
+    headAt: 'Cabezal en',
+    yourAnswer: 'Tu respuesta',
+    correctAnswer: 'Respuesta correcta',
+    outcome: 'Resultado',
+    restart: 'Repetir ejercicio',
+    progress: 'Pregunta {current} de {total} — aciertos hasta ahora: {correct}',
+    correct: '¡Correcto!',
+    incorrect: 'Incorrecto. Respuesta: {answer}.',
+    seeResult: 'Ver resultado',
+    next: 'Siguiente',
+    submit: 'Responder',
+    hitAnswer: 'acierto',
+    faultAnswer: 'fallo',
+    victimAnswer: 'fallo, sale {victim}',
+    pageQuestion: 'La referencia a la página {page} producirá:',
+    pageFault: 'Fallo de página',
+    victimQuestion: '¿Qué página se reemplazará?',
+    cylinderAnswer: 'cilindro {cylinder}',
+    diskQuestion: '¿Qué cilindro atenderá {algorithm} a continuación?',
+    headPosition: 'Cabezal en el cilindro {head}, {arrow}',
+  },
+
+  csv: {
+    step: 'Paso',
+    reference: 'Referencia',
+    frame: 'Marco {index}',
+    fault: 'Fallo',
+    victim: 'Víctima',
+    faults: 'Fallos',
+    operation: 'Operación',
+    read: 'lectura',
+    write: 'escritura',
+    writeBack: 'Write-back',
+    writeBacks: 'Write-backs',
+    from: 'Desde',
+    to: 'Hasta',
+    request: 'Solicitud',
+    movement: 'Movimiento',
+    distance: 'Distancia',
+    seek: 'Seek',
+    totalSeek: 'Seek total',
+    returnMove: 'retorno',
+    edgeMove: 'borde',
+    service: 'atención',
+    sector: 'Sector',
+    seekTime: 'Búsqueda (ms)',
+    latency: 'Latencia (ms)',
+    transfer: 'Transferencia (ms)',
+    end: 'Fin (ms)',
+  },
+
+  cli: {
+    usage:
+      'Uso: npm run sim -- <page|disk> [opciones]\n\n  page --alg <{pageAlgorithms}> --frames N --refs "7 0 1 2w ..."\n  disk --alg <{diskAlgorithms}> --size N --head N --requests "98 183 ..."\n       [--direction up|down] [--arrivals "0 0 5 ..."] [--batch N] [--no-return]\n\nOpciones comunes:\n  --format table|csv|json  Formato de la tabla paso a paso (por defecto: table)\n  --lang pt|en|es          Idioma de la salida (por defecto: pt)\n  --compare <archivo>      Compara una traza entregada (CSV o JSON) con la solución',
+    unknownCommand: 'Comando desconocido: "{command}".',
+    unknownOption: 'Opción desconocida: {option}.',
+    missingValue: 'La opción {option} necesita un valor.',
+    invalidChoice: '{option} debe ser uno de: {options}.',
+    unreadable: 'No se pudo leer el archivo {file}.',
+    pageSummary:
+      'Fallos de página: {faults} | aciertos: {hits} ({hitRatio}%) | write-backs: {writeBacks}',
+    diskSummary:
+      'Seek total: {totalSeek} | seek medio: {averageSeek} | mayor espera: {maxWait}',
+    invalidSubmission: '{file} no es un CSV ni un JSON de traza.',
+    unknownHeader:
+      'El encabezado de {file} no es el de una traza de {kind}: {header}',
+    firstDifference:
+      'Primera diferencia en el paso {step}, columna "{column}": se esperaba "{expected}", se entregó "{got}".',
+    stepCount: '{file} tiene {got} pasos, pero la solución tiene {expected}.',
+    match: '{file} coincide con la solución ({steps} pasos).',
+  },
+};
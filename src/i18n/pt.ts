@@ -0,0 +1,1274 @@
+/**
+ * Catálogo em português, a referência para os demais idiomas.
+ *
+ * Marcadores `{nome}` são preenchidos na tradução; os que ficam sem valor
+ * são substituídos por elementos (ex.: negrito) com `RichText`.
+ */
+export const pt = {
+  app: {
+    title: 'Visualização de Algoritmos de Sistemas Operacionais',
+    subtitle:
+      'Demonstrações interativas dos algoritmos de Substituição de Páginas e Escalonamento de Disco. Explore como esses algoritmos funcionam e impactam o desempenho do sistema.',
+    language: 'Idioma',
+    explore: 'Nesta simulação, você pode explorar os principais algoritmos:',
+    pageHeading: 'Algoritmos de Substituição de Páginas',
+    pageIntro:
+      'Os algoritmos de substituição de páginas são fundamentais para o gerenciamento de memória virtual em sistemas operacionais. Quando ocorre um {term} e não há frames livres na memória, o sistema operacional precisa escolher qual página será removida para dar lugar à nova página requisitada.',
+    pageTerm: 'page fault',
+    pageList: {
+      fifo: {
+        name: 'FIFO (First In, First Out)',
+        text: 'Substitui a página mais antiga na memória.',
+      },
+      lru: {
+        name: 'LRU (Least Recently Used)',
+        text: 'Substitui a página que não foi utilizada há mais tempo.',
+      },
+      opt: {
+        name: 'OPT (Ótimo de Belady)',
+        text: 'Substitui a página que demorará mais para ser usada novamente.',
+      },
+      clock: {
+        name: 'Clock e Enhanced Second Chance',
+        text: 'Aproximam o LRU usando bits de referência (e de modificação) e um ponteiro circular.',
+      },
+      frequency: {
+        name: 'LFU e MFU',
+        text: 'Escolhem a vítima pelo número de acessos de cada página.',
+      },
+      nru: {
+        name: 'NRU (Not Recently Used)',
+        text: 'Remove uma página da menor classe formada pelos bits de referência e modificação.',
+      },
+    },
+    diskHeading: 'Algoritmos de Escalonamento de Disco',
+    diskIntro:
+      'Os algoritmos de escalonamento de disco são responsáveis por determinar a ordem em que as requisições de I/O são atendidas. O objetivo é minimizar o tempo de busca ({term}) e maximizar a eficiência do disco.',
+    diskTerm: 'seek time',
+    translationHeading: 'Tradução de Endereços Virtuais',
+    translationIntro:
+      'A MMU traduz cada endereço virtual em um endereço físico. O número da página é procurado primeiro na {term}, um pequeno cache de traduções recentes, e só na falta dele na tabela de páginas. Se a página não estiver na memória, ocorre um page fault, resolvido pelos mesmos algoritmos de substituição da seção anterior.',
+    translationTerm: 'TLB',
+    multiHeading: 'Vários Processos e Thrashing',
+    multiIntro:
+      'Na prática, vários processos dividem a mesma memória física. O sistema precisa decidir quantos frames cada um recebe e se um page fault pode tomar frames de outro processo. Com processos demais na memória, nenhum deles tem frames suficientes, os page faults se multiplicam e a CPU passa a maior parte do tempo esperando o disco: é o {term}.',
+    multiTerm: 'thrashing',
+    cpuHeading: 'Escalonamento de CPU',
+    cpuIntro:
+      'Quando vários processos estão prontos para executar, o {term} decide qual deles usa a CPU e por quanto tempo. A escolha muda quanto cada processo espera na fila e quanto demora para responder, mesmo que o trabalho total seja o mesmo.',
+    cpuTerm: 'escalonador',
+    cpuList: {
+      fcfs: {
+        name: 'FCFS (First Come, First Served)',
+        text: 'Executa os processos na ordem de chegada, até o fim.',
+      },
+      sjf: {
+        name: 'SJF e SRTF',
+        text: 'Escolhem o processo mais curto; o SRTF interrompe quem está executando se chegar um com menos tempo restante.',
+      },
+      rr: {
+        name: 'Round Robin',
+        text: 'Reveza os processos, dando a cada um no máximo um quantum de tempo por vez.',
+      },
+      priority: {
+        name: 'Prioridade',
+        text: 'Executa o processo de maior prioridade, com ou sem preempção.',
+      },
+      mlfq: {
+        name: 'MLFQ (Multilevel Feedback Queue)',
+        text: 'Usa várias filas e rebaixa quem esgota o quantum, favorecendo os processos curtos e interativos.',
+      },
+    },
+    deadlockHeading: 'Deadlocks',
+    deadlockIntro:
+      'Um {term} acontece quando cada processo de um grupo espera por um recurso que está com outro processo do mesmo grupo, e nenhum deles consegue continuar. O sistema pode evitá-lo, concedendo só os pedidos que mantêm o estado seguro, ou detectá-lo, procurando ciclos no grafo de alocação de recursos.',
+    deadlockTerm: 'deadlock',
+    memoryHeading: 'Alocação de Memória',
+    memoryIntro:
+      'Sem paginação, cada processo ocupa um trecho contíguo da memória. Conforme os blocos são alocados e liberados, a memória livre se divide em buracos, e um pedido pode falhar mesmo havendo espaço suficiente no total: é a {term}.',
+    memoryTerm: 'fragmentação externa',
+    memoryList: {
+      firstFit: {
+        name: 'First Fit',
+        text: 'Usa o primeiro buraco, a partir do início da memória, em que o pedido cabe.',
+      },
+      bestFit: {
+        name: 'Best Fit',
+        text: 'Usa o menor buraco que comporta o pedido, deixando a menor sobra possível.',
+      },
+      worstFit: {
+        name: 'Worst Fit',
+        text: 'Usa o maior buraco, para que a sobra ainda seja útil.',
+      },
+      nextFit: {
+        name: 'Next Fit',
+        text: 'Como o First Fit, mas continua a busca de onde a última alocação parou.',
+      },
+      buddy: {
+        name: 'Sistema buddy',
+        text: 'Divide a memória em blocos de potências de 2 e junta de novo os pares de blocos livres.',
+      },
+    },
+    diskList: {
+      fcfs: {
+        name: 'FCFS (First Come, First Served)',
+        text: 'Atende as requisições na ordem de chegada.',
+      },
+      sstf: {
+        name: 'SSTF (Shortest Seek Time First)',
+        text: 'Atende a requisição mais próxima da posição atual do cabeçote.',
+      },
+      scan: {
+        name: 'SCAN (Elevator Algorithm)',
+        text: 'Move o cabeçote em uma direção, atendendo requisições no caminho.',
+      },
+      look: {
+        name: 'LOOK',
+        text: 'Como o SCAN, mas inverte na última requisição em vez de ir até a borda do disco.',
+      },
+      circular: {
+        name: 'C-SCAN e C-LOOK',
+        text: 'Atendem em apenas uma direção e retornam ao início ao final de cada varredura.',
+      },
+      batch: {
+        name: 'N-step SCAN e FSCAN',
+        text: 'Atendem a fila em lotes, impedindo que novas requisições prendam o cabeçote.',
+      },
+    },
+    github: 'Ver no GitHub',
+    learnMore: 'Saiba Mais',
+    tagline:
+      'Ferramenta Educacional Interativa para Conceitos de Sistemas Operacionais',
+    credits: 'Desenvolvido com ❤️ por Pedro Ramos',
+  },
+
+  common: {
+    algorithm: 'Algoritmo',
+    pause: 'Pausar',
+    play: 'Iniciar',
+    next: 'Próximo passo',
+    reset: 'Reiniciar',
+    fault: 'Fault',
+    hit: 'Hit',
+    pageFaults: 'Page Faults',
+    hits: 'Hits',
+    hitRatio: 'Taxa de Acerto',
+    settings: 'Configuração',
+    apply: 'Aplicar e reiniciar',
+    generate: 'Gerar e aplicar',
+    pattern: 'Padrão',
+    length: 'Tamanho',
+    distinctPages: 'Páginas distintas',
+    seed: 'Semente',
+    randomSeed: 'Sortear semente',
+    about: 'Sobre o Algoritmo',
+    up: 'subindo',
+    down: 'descendo',
+    yes: 'sim',
+    no: 'não',
+    writeBacks: 'Write-backs',
+    totalIO: 'Total de I/O',
+  },
+
+  input: {
+    required: 'Informe {label}.',
+    notInteger: '{label} deve ser um inteiro.',
+    outOfRange: '{label} deve estar entre {min} e {max}.',
+    notNumber: '{label} deve ser um número.',
+    emptyList: 'Informe pelo menos um valor para {label}.',
+    invalidItem: '"{token}" (item {index}) não é um inteiro não negativo.',
+    invalidReference:
+      '"{token}" (item {index}) não é uma referência válida (ex.: 3, 3r ou 3w).',
+    invalidAddress:
+      '"{token}" (item {index}) não é um endereço em decimal ou em hexadecimal (0x...).',
+    missingAddress: '"{token}" (item {index}) deve vir antes de um endereço.',
+    addressOutOfRange:
+      '{token} (item {index}) está fora do espaço de endereçamento (máximo {max}).',
+    itemOutOfRange:
+      '{value} (item {index}) está fora do intervalo {min}–{max}.',
+    invalidCpuProcess:
+      'P{pid}: informe a chegada, a duração e, se quiser, a prioridade.',
+    wrongRowLength: 'deve ter {count} valores, um por recurso.',
+    invalidEdge:
+      'Linha {line}: "{text}" não é uma aresta (ex.: P0 -> R1 ou R1 -> P0).',
+    unknownNode: 'Linha {line}: {node} não existe.',
+    tooManyLines: '{label} pode ter no máximo {max} linhas.',
+    invalidMemoryCommand:
+      '"{text}" não é um comando (ex.: A 100, free A ou compact).',
+    alreadyAllocated: '{name} já está alocado.',
+    notAllocated: '{name} não está alocado.',
+    labels: {
+      references: 'a sequência de referências',
+      frames: 'o número de frames',
+      maxFrames: 'o número máximo de frames',
+      length: 'o tamanho',
+      pageCount: 'o número de páginas',
+      seed: 'a semente',
+      diskSize: 'o número de cilindros',
+      initialHead: 'a posição inicial do cabeçote',
+      requests: 'a fila de requisições',
+      count: 'a quantidade',
+      rpm: 'a rotação',
+      settleTime: 'o tempo de acomodação',
+      seekFactor: 'o fator de busca',
+      sectorsPerTrack: 'o número de setores por trilha',
+      sectors: 'os setores',
+      arrivals: 'as chegadas',
+      headSpeed: 'a velocidade do cabeçote',
+      meanGap: 'o intervalo médio',
+      addresses: 'os endereços',
+      addressBits: 'a largura do endereço',
+      tlbSize: 'o tamanho da TLB',
+      tlbTime: 'o tempo da TLB',
+      memoryTime: 'o tempo de memória',
+      faultTime: 'o tempo de page fault',
+      processes: 'os processos',
+      processCount: 'o número de processos',
+      process: 'as referências de P{pid}',
+      window: 'a janela',
+      pffLower: 'a taxa mínima do PFF',
+      pffUpper: 'a taxa máxima do PFF',
+      arrival: 'a chegada',
+      burst: 'a duração',
+      priority: 'a prioridade',
+      quantum: 'o quantum',
+      mlfqQuanta: 'os quanta do MLFQ',
+      row: 'linha {row}',
+      available: 'o vetor Available',
+      max: 'a matriz Max',
+      allocation: 'a matriz Allocation',
+      request: 'o pedido',
+      instances: 'as instâncias',
+      script: 'o roteiro',
+      requestSize: 'o tamanho do pedido',
+      batchSize: 'o tamanho do lote',
+    },
+  },
+
+  page: {
+    modes: {
+      simulation: 'Simulação',
+      quiz: 'Exercício',
+      comparison: 'Comparar algoritmos',
+      belady: 'Anomalia de Belady',
+    },
+    titles: {
+      simulation: 'Algoritmo de Substituição de Páginas: {algorithm}',
+      quiz: 'Exercício de Substituição de Páginas',
+      comparison: 'Comparação de Algoritmos de Substituição de Páginas',
+      belady: 'Explorador da Anomalia de Belady',
+    },
+    tooltipTitle: 'O que são Page Faults?',
+    tooltipContent:
+      'Page Fault ocorre quando uma página requisitada não está presente na memória física (RAM) e precisa ser carregada do disco. Quanto menor o número de page faults, melhor o desempenho do algoritmo.',
+    initialNarration: 'Selecione um algoritmo e clique em Play para começar.',
+    finished: 'Simulação concluída! Você pode reiniciar para ver novamente.',
+    imported: 'Cenário importado.',
+    metadata: {
+      loadedAt: 'entrou t={time}',
+      lastUsedAt: 'uso t={time}',
+      nextUse: 'próx. t={time}',
+      frequency: 'acessos={count}',
+    },
+    hand: '▲ ponteiro',
+    dirty: 'Página modificada (dirty)',
+    entering: 'nova',
+    ioBreakdown: '{faults} leituras + {writeBacks} write-backs',
+    references: 'Sequência de Referências',
+    settings: {
+      references: 'Sequência de referências (sufixo w = escrita)',
+      frames: 'Frames (1–{max})',
+      generator: 'Gerador de sequências',
+      patterns: {
+        uniform: 'Aleatória uniforme',
+        locality: 'Localidade (fases)',
+        loop: 'Laço',
+        zipf: 'Zipf',
+      },
+    },
+  },
+
+  translation: {
+    title: 'Tradução de Endereços com {algorithm}',
+    tooltipTitle: 'O que é a TLB?',
+    tooltipContent:
+      'A TLB (Translation Lookaside Buffer) é uma memória associativa pequena e rápida que guarda as traduções página → frame mais recentes. Um TLB hit evita consultar a tabela de páginas, o que economiza um acesso à memória.',
+    initialNarration:
+      'Configure os endereços e clique em Play para traduzi-los um a um.',
+    finished:
+      'Todos os endereços foram traduzidos! Você pode reiniciar para ver novamente.',
+    settings: {
+      addresses:
+        'Endereços virtuais (decimal ou hexadecimal com 0x; W antes de uma escrita)',
+      addressBits: 'Bits do endereço ({min}–{max})',
+      pageSize: 'Tamanho da página',
+      pageSizeTooLarge:
+        'A página deve ser menor que o espaço de endereçamento.',
+      tlbSize: 'Entradas da TLB (1–{max})',
+      tlbPolicy: 'Substituição na TLB',
+      times: 'Custos de acesso (ns)',
+      tlbTime: 'TLB',
+      memoryTime: 'Memória',
+      faultTime: 'Page fault',
+    },
+    policies: {
+      FIFO: 'FIFO (entrada mais antiga)',
+      LRU: 'LRU (usada há mais tempo)',
+    },
+    bytes: '{size} bytes',
+    addresses: 'Endereços',
+    addressesLegend:
+      'Verde: TLB hit; azul: TLB miss resolvido pela tabela de páginas; vermelho: page fault. W marca uma escrita, que liga o bit D da página. Clique em um endereço para ir até ele.',
+    layout:
+      'Endereço virtual: {pageBits} bits de página + {offsetBits} bits de deslocamento.',
+    waiting: 'Avance a simulação para traduzir o primeiro endereço.',
+    virtualAddress: 'Endereço virtual',
+    physicalAddress: 'Endereço físico',
+    pageNumber: 'página {page}',
+    offset: 'deslocamento {offset}',
+    frameNumber: 'frame {frame}',
+    tlbHit: 'TLB hit',
+    tlbMiss: 'TLB miss',
+    pageFault: 'Page fault',
+    tlb: 'TLB ({policy})',
+    pageTable: 'Tabela de Páginas',
+    page: 'Página',
+    frame: 'Frame',
+    empty: 'livre',
+    bitsLegend:
+      'V: válida (página na memória); D: modificada (dirty); R: referenciada.',
+    tlbHitRate: 'Taxa de Acerto da TLB',
+    hitsAndMisses: '{hits} hits, {misses} misses',
+    effectiveAccessTime: 'Tempo Efetivo de Acesso',
+    nanoseconds: '{time} ns',
+    withFaults: 'Média medida, com os page faults: {time}',
+    about: 'Como a Tradução Funciona',
+    aboutText:
+      'O endereço virtual é dividido em número de página (bits mais significativos) e deslocamento (bits menos significativos). O deslocamento passa sem mudança para o endereço físico; só o número da página é trocado pelo número do frame. Com taxa de acerto h na TLB, o tempo efetivo de acesso sem page faults é TEA = h × (TLB + memória) + (1 − h) × (TLB + 2 × memória).',
+  },
+
+  multi: {
+    title: 'Memória Compartilhada por {count} Processos',
+    tooltipTitle: 'O que é thrashing?',
+    tooltipContent:
+      'Thrashing acontece quando os processos não têm frames suficientes para seus conjuntos de trabalho: eles passam mais tempo esperando o disco atender page faults do que executando. A CPU fica ociosa e, se o sistema reagir admitindo ainda mais processos, a situação piora.',
+    initialNarration:
+      'Configure os processos e clique em Play para executá-los em round robin, uma referência por vez.',
+    finished:
+      'Todos os processos terminaram! Você pode reiniciar para ver novamente.',
+    settings: {
+      processes:
+        'Processos: uma sequência de referências por linha (até {max})',
+      frames: 'Frames na memória ({max} no máximo)',
+      faultTime: 'Tempo de page fault (ticks)',
+      allocation: 'Alocação de frames',
+      scope: 'Substituição',
+      controller: 'Controle de carga',
+      window: 'Janela Δ (referências)',
+      pffLower: 'PFF: taxa mínima (%)',
+      pffUpper: 'PFF: taxa máxima (%)',
+      tooFewFrames: 'É preciso ao menos um frame por processo.',
+      pffOrder: 'A taxa mínima do PFF não pode passar da máxima.',
+      scopeLocked: 'Com controle de carga, a substituição é sempre local.',
+      thrashingDemo: 'Demonstração de thrashing',
+    },
+    allocations: {
+      equal: 'Igual (m / n frames)',
+      proportional: 'Proporcional ao tamanho',
+    },
+    scopes: {
+      global: 'Global (LRU entre todos os frames)',
+      local: 'Local (LRU entre os frames do processo)',
+    },
+    controllers: {
+      none: 'Nenhum',
+      workingSet: 'Conjunto de trabalho',
+      pff: 'Frequência de page faults (PFF)',
+    },
+    pool: 'Frames da Memória',
+    poolLegend:
+      'Cada cor é um processo; a borda destaca o frame usado no passo atual.',
+    free: 'livre',
+    processes: 'Processos',
+    process: 'Processo',
+    size: 'Tamanho (páginas)',
+    status: 'Estado',
+    statuses: {
+      ready: 'pronto',
+      blocked: 'esperando o disco',
+      suspended: 'suspenso',
+      finished: 'terminado',
+    },
+    progress: 'Referências',
+    faultRate: 'Taxa de faults',
+    frames: 'Frames (ocupados / cota)',
+    cpuUtilization: 'Utilização da CPU',
+    busyTime: '{busy} de {time} ticks com a CPU ocupada',
+    elapsed: 'Tempo Decorrido',
+    ticks: '{time} ticks',
+    curveTitle: 'Utilização da CPU × Grau de Multiprogramação',
+    degree: 'Processos na memória',
+    percent: '%',
+    utilizationSeries: 'Utilização da CPU (%)',
+    faultRateSeries: 'Taxa de page faults (%)',
+    curveLegend:
+      'Cada ponto executa os primeiros n processos com a mesma memória. O círculo vermelho marca o pico: daí em diante, cada processo a mais deixa menos frames para todos, os page faults aumentam e a CPU fica esperando o disco.',
+    about: 'Alocação, Escopo e Controle de Carga',
+    aboutText:
+      'Na alocação igual, cada um dos n processos recebe m / n frames; na proporcional, o processo de tamanho s recebe s / S × m, em que S é a soma dos tamanhos. Na substituição local, um processo só troca as próprias páginas e fica dentro da sua cota; na global, a vítima é a página usada há mais tempo em toda a memória, mesmo que seja de outro processo. O controle pelo conjunto de trabalho dá a cada processo os frames das páginas usadas nas últimas Δ referências e suspende processos quando a soma passa da memória; o PFF mede a taxa de page faults de cada processo e dá um frame a quem passa do limite máximo ou tira de quem fica abaixo do mínimo.',
+  },
+
+  pageAlgorithms: {
+    FIFO: {
+      name: 'First In, First Out',
+      description:
+        'FIFO (First In, First Out) substitui a página mais antiga na memória, independentemente de sua frequência de uso. É simples de implementar, mas pode não ser o mais eficiente.',
+    },
+    LRU: {
+      name: 'Least Recently Used',
+      description:
+        'LRU (Least Recently Used) substitui a página que não foi utilizada há mais tempo. É geralmente mais eficiente que o FIFO, pois considera o histórico de uso das páginas.',
+    },
+    OPT: {
+      name: 'Ótimo (Belady)',
+      description:
+        'OPT (algoritmo ótimo de Belady) substitui a página que demorará mais para ser usada novamente. Produz o menor número possível de page faults, mas exige conhecer as referências futuras, por isso serve apenas como referência de comparação.',
+    },
+    CLOCK: {
+      name: 'Second Chance / Clock',
+      description:
+        'Clock (Second Chance) organiza os frames em um círculo com um ponteiro. Cada página tem um bit de referência R, ligado a cada acesso. Na substituição, páginas com R = 1 recebem uma segunda chance (R é zerado) e o ponteiro avança até encontrar uma página com R = 0.',
+    },
+    ESC: {
+      name: 'Enhanced Second Chance',
+      description:
+        'Enhanced Second Chance considera o par (R, M) de bits de referência e modificação. O ponteiro procura primeiro uma página (0, 0); se não encontrar, procura (0, 1) zerando os bits R pelo caminho, e repete. Páginas modificadas são evitadas porque precisam ser gravadas no disco antes de sair.',
+    },
+    LFU: {
+      name: 'Least Frequently Used',
+      description:
+        'LFU (Least Frequently Used) mantém um contador de acessos por página e substitui a de menor contagem. Páginas muito usadas no passado tendem a permanecer, mesmo que não sejam mais necessárias.',
+    },
+    MFU: {
+      name: 'Most Frequently Used',
+      description:
+        'MFU (Most Frequently Used) substitui a página de maior contagem de acessos, supondo que páginas com poucos acessos acabaram de ser carregadas e ainda serão usadas.',
+    },
+    NRU: {
+      name: 'Not Recently Used',
+      description:
+        'NRU (Not Recently Used) classifica as páginas pelos bits (R, M) e remove uma página da menor classe. Periodicamente, uma interrupção de relógio zera todos os bits R, separando as páginas usadas recentemente das demais.',
+    },
+  },
+
+  disk: {
+    modes: {
+      simulation: 'Simulação',
+      quiz: 'Exercício',
+      comparison: 'Comparar algoritmos',
+    },
+    titles: {
+      simulation: 'Algoritmo de Escalonamento de Disco: {algorithm}',
+      quiz: 'Exercício de Escalonamento de Disco',
+      comparison: 'Comparação de Algoritmos de Escalonamento de Disco',
+    },
+    tooltipTitle: 'O que é Seek Time?',
+    tooltipContent:
+      'Seek Time é o tempo necessário para mover o cabeçote do disco de uma posição para outra. Quanto menor o seek time total, mais eficiente é o algoritmo.',
+    countReturn: 'Contar o retorno no tempo de busca',
+    batchSize: 'N (N-step SCAN):',
+    view: 'Visualização do Disco (Posição do Cabeçote e Requisições)',
+    returnToStart: '— retorno ao início',
+    notCounted: ' (não contabilizado)',
+    edgeMove: '— deslocamento até a borda do disco',
+    headPosition: 'Posição do Cabeçote',
+    direction: 'Direção',
+    totalSeek: 'Distância Total de Busca (cilindros)',
+    clock: 'Relógio ({unit})',
+    units: {
+      ticks: 'ticks',
+      ms: 'ms',
+    },
+    totalTime: 'Tempo de Acesso (ms)',
+    timeBreakdown:
+      'busca {seek} + rotação {latency} + transferência {transfer}',
+    timing: {
+      title: 'Modelo de tempo do disco',
+      enabled: 'Calcular o tempo real de acesso (ms)',
+      description:
+        'Busca = acomodação + fator × √distância. Depois da busca, o cabeçote espera o setor passar por baixo (latência rotacional) e lê o setor inteiro (transferência). Com o modelo ligado, o relógio conta milissegundos e o SPTF passa a considerar a rotação.',
+      rpm: 'Rotação (RPM)',
+      settleTime: 'Acomodação (ms)',
+      seekFactor: 'Fator de busca (ms/√cilindro)',
+      sectorsPerTrack: 'Setores por trilha',
+      sectors: 'Setor de cada requisição',
+      sectorsHint: 'Em branco, todas ficam no setor 0.',
+      sectorsLength: 'Informe um setor para cada requisição ({count}).',
+      randomSectors: 'Sortear setores',
+      rotation: 'Uma volta leva {period} ms; cada setor passa em {sector} ms.',
+    },
+    starvingLegend: 'Laranja (!): requisição esperando além do limite',
+    legend: {
+      pending: 'na fila',
+      starving: 'em inanição',
+      served: 'atendida',
+    },
+    headLabel: 'Cabeçote no cilindro {cylinder}',
+    requestLabel: 'Requisição #{request}, cilindro {cylinder}: {state}',
+    announce: {
+      service:
+        'Cabeçote de {from} para {to}, atendendo a requisição #{request}. Distância total: {total}.',
+      edge: 'Cabeçote de {from} para {to}, até a borda do disco.',
+      return: 'Cabeçote retorna de {from} para {to}.',
+    },
+    metrics: {
+      title: 'Métricas por requisição',
+      note: 'Tempos em {unit}. A espera vai da chegada até o cabeçote partir rumo à requisição; a resposta inclui o próprio acesso.',
+      starvationLimit: 'Limite de espera ({unit})',
+      request: 'Requisição',
+      cylinder: 'Cilindro',
+      arrival: 'Chegada',
+      servedAt: 'Atendida em',
+      waiting: 'Espera',
+      response: 'Resposta',
+      status: 'Situação',
+      notArrived: 'ainda não chegou',
+      queued: 'na fila',
+      starving: 'em inanição',
+      served: 'atendida',
+      averageWaiting: 'Espera média',
+      averageResponse: 'Resposta média',
+      variance: 'Variância da resposta',
+      maxResponse: 'Maior resposta',
+    },
+    settings: {
+      requests: 'Fila de requisições (cilindros)',
+      diskSize: 'Número de cilindros',
+      initialHead: 'Posição inicial do cabeçote',
+      arrivals: 'Chegadas ({unit}, opcional)',
+      arrivalsHint: 'Em branco, todas chegam no instante 0.',
+      arrivalsLength: 'Informe uma chegada para cada requisição ({count}).',
+      headSpeed: 'Velocidade do cabeçote (cilindros/tick)',
+      meanGap: 'Intervalo médio entre chegadas (ticks)',
+      direction: 'Direção inicial (varreduras)',
+      up: 'Crescente',
+      down: 'Decrescente',
+      generator: 'Gerador de filas',
+      count: 'Requisições',
+      patterns: {
+        uniform: 'Uniforme',
+        clustered: 'Agrupada',
+        edge: 'Concentrada nas bordas',
+      },
+    },
+  },
+
+  diskAlgorithms: {
+    FCFS: {
+      name: 'First Come, First Served',
+      description:
+        'FCFS atende as requisições na ordem exata em que chegaram. É simples mas pode resultar em movimentos ineficientes do cabeçote.',
+    },
+    SSTF: {
+      name: 'Shortest Seek Time First',
+      description:
+        'SSTF sempre escolhe a requisição mais próxima da posição atual do cabeçote. É mais eficiente que FCFS mas pode causar starvation.',
+    },
+    SCAN: {
+      name: 'Elevator Algorithm',
+      description:
+        'SCAN (Algoritmo do Elevador) move o cabeçote em uma direção até o fim do disco, atendendo requisições no caminho, então inverte a direção.',
+    },
+    'C-SCAN': {
+      name: 'Circular SCAN',
+      description:
+        'C-SCAN atende requisições em apenas uma direção. Ao chegar ao fim do disco, o cabeçote retorna imediatamente ao início sem atender nada no caminho, o que torna o tempo de espera mais uniforme. O retorno pode ou não ser contabilizado no seek total.',
+    },
+    LOOK: {
+      name: 'SCAN sem ir à borda',
+      description:
+        'LOOK funciona como o SCAN, mas o cabeçote só vai até a última requisição em cada direção antes de inverter, evitando percorrer cilindros sem requisições.',
+    },
+    'C-LOOK': {
+      name: 'Circular LOOK',
+      description:
+        'C-LOOK é a versão circular do LOOK: após a última requisição em uma direção, o cabeçote salta diretamente para a requisição mais distante do outro lado e continua no mesmo sentido.',
+    },
+    'N-STEP-SCAN': {
+      name: 'SCAN em lotes de N',
+      description:
+        'N-step SCAN divide a fila em lotes de N requisições, em ordem de chegada, e atende cada lote completo com SCAN antes de passar ao próximo. Requisições novas não podem "furar" a varredura atual, evitando que o cabeçote fique preso em uma região.',
+    },
+    FSCAN: {
+      name: 'SCAN com fila congelada',
+      description:
+        'FSCAN usa duas filas: a fila atual é congelada no início da varredura e atendida com SCAN, enquanto novas requisições aguardam na segunda fila. Defina chegadas ao longo do tempo para ver as requisições novas esperando o próximo lote.',
+    },
+    SPTF: {
+      name: 'Shortest Positioning Time First',
+      description:
+        'SPTF (também chamado SATF) escolhe a requisição que o cabeçote alcança mais rápido, somando a busca e a latência rotacional até o setor. Só faz diferença com o modelo de tempo ligado; sem ele, a rotação é ignorada e o SPTF equivale ao SSTF. Assim como o SSTF, pode causar starvation.',
+    },
+  },
+
+  cpu: {
+    title: 'Escalonamento de CPU: {algorithm}',
+    tooltipTitle: 'Como o escalonador decide?',
+    tooltipContent:
+      'A cada instante, o escalonador olha a fila de prontos e decide quem usa a CPU. Nos algoritmos preemptivos, ele também pode tirar o processo em execução para dar lugar a outro. O diagrama de Gantt mostra quem ocupou a CPU em cada intervalo de tempo.',
+    initialNarration:
+      'Escolha um algoritmo e clique em Play para acompanhar o escalonamento, uma unidade de tempo por vez.',
+    finished:
+      'Todos os processos terminaram! Você pode reiniciar para ver novamente.',
+    settings: {
+      processes:
+        'Processos: chegada, duração e prioridade por linha (até {max})',
+      processesHint: 'Prioridade opcional: o menor número é a mais alta.',
+      quantum: 'Quantum do Round Robin',
+      mlfqQuanta: 'Quanta do MLFQ, do nível mais alto ao mais baixo',
+      mlfqHint: 'Até {max} níveis com quantum; abaixo deles há um nível FCFS.',
+      tooManyLevels: 'Informe no máximo {max} quanta.',
+    },
+    gantt: 'Diagrama de Gantt',
+    ganttLegend:
+      'Cada faixa é um intervalo em que o processo ocupou a CPU; as faixas cinza são a CPU ociosa.',
+    idle: 'ociosa',
+    cpu: 'CPU',
+    readyQueue: 'Fila de prontos',
+    level: 'Nível {level} (quantum {quantum})',
+    lastLevel: 'Nível {level} (FCFS)',
+    empty: 'vazia',
+    results: 'Métricas por Processo',
+    process: 'Processo',
+    arrival: 'Chegada',
+    burst: 'Duração',
+    priority: 'Prioridade',
+    completion: 'Término',
+    turnaround: 'Turnaround',
+    waiting: 'Espera',
+    response: 'Resposta',
+    average: 'Média',
+    resultsLegend:
+      'Turnaround = término − chegada; espera = turnaround − duração; resposta = primeira vez na CPU − chegada.',
+    averageWaiting: 'Espera Média',
+    averageTurnaround: 'Turnaround Médio',
+    averageResponse: 'Resposta Média',
+    completed: '{done} de {total} processos concluídos',
+    utilization: 'Utilização da CPU',
+    switches: '{count} troca(s) de contexto',
+  },
+
+  cpuAlgorithms: {
+    FCFS: {
+      short: 'FCFS',
+      name: 'First Come, First Served',
+      description:
+        'O FCFS executa os processos na ordem de chegada e nunca interrompe quem está na CPU. É simples e justo na ordem, mas um processo longo no início faz todos os curtos esperarem (efeito comboio).',
+    },
+    SJF: {
+      short: 'SJF',
+      name: 'Shortest Job First',
+      description:
+        'Quando a CPU fica livre, o SJF escolhe o processo pronto de menor duração. Minimiza a espera média entre os não preemptivos, mas exige conhecer a duração com antecedência e pode adiar indefinidamente os processos longos.',
+    },
+    SRTF: {
+      short: 'SRTF',
+      name: 'Shortest Remaining Time First',
+      description:
+        'Versão preemptiva do SJF: se chegar um processo com menos tempo restante do que o que está executando, ele assume a CPU. Dá a menor espera média possível, ao custo de mais trocas de contexto.',
+    },
+    RR: {
+      short: 'RR',
+      name: 'Round Robin',
+      description:
+        'O Round Robin dá a cada processo no máximo um quantum de CPU por vez; quem não termina volta ao fim da fila. O tempo de resposta fica previsível, mas um quantum pequeno demais gasta muito tempo em trocas de contexto e um grande demais vira FCFS.',
+    },
+    PRIORITY: {
+      short: 'Prioridade',
+      name: 'Prioridade não preemptiva',
+      description:
+        'Quando a CPU fica livre, executa o processo pronto de maior prioridade (menor número) até o fim. Processos de baixa prioridade podem esperar indefinidamente (starvation), o que costuma ser resolvido aumentando a prioridade com o tempo de espera (aging).',
+    },
+    PRIORITY_P: {
+      short: 'Prioridade (P)',
+      name: 'Prioridade preemptiva',
+      description:
+        'Como a prioridade não preemptiva, mas um processo que chega com prioridade maior tira imediatamente da CPU o que está executando.',
+    },
+    MLFQ: {
+      short: 'MLFQ',
+      name: 'Multilevel Feedback Queue',
+      description:
+        'O MLFQ tem várias filas de prioridade. Todo processo começa no nível mais alto; quem esgota o quantum desce um nível, e um nível só é atendido quando os de cima estão vazios. Assim, processos curtos terminam logo e os longos descem para o nível FCFS, sem que a duração precise ser conhecida.',
+    },
+  },
+
+  deadlock: {
+    modes: {
+      banker: 'Algoritmo do banqueiro',
+      graph: 'Grafo de alocação',
+    },
+    titles: {
+      banker: 'Algoritmo do Banqueiro',
+      graph: 'Grafo de Alocação de Recursos',
+    },
+    tooltipTitle: 'Como evitar e detectar deadlocks?',
+    tooltipContent:
+      'Um deadlock exige quatro condições ao mesmo tempo: exclusão mútua, posse e espera, ausência de preempção e espera circular. O algoritmo do banqueiro evita o deadlock concedendo só os pedidos que deixam o sistema em um estado seguro; o grafo de alocação permite detectá-lo depois que ele acontece.',
+    settings: {
+      available: 'Available: instâncias livres de cada recurso (até {max})',
+      max: 'Max: demanda máxima, uma linha por processo (até {max})',
+      allocation: 'Allocation: instâncias já alocadas, uma linha por processo',
+      tooManyResources: 'Use no máximo {max} recursos.',
+      tooManyProcesses: 'Use no máximo {max} processos.',
+      rowCount: 'Allocation deve ter uma linha por processo de Max ({count}).',
+      overMax: 'P{pid} tem mais instâncias alocadas que sua demanda máxima.',
+      processes: 'Processos (até {max})',
+      instances: 'Instâncias de cada recurso (até {max} recursos)',
+      edges:
+        'Arestas, uma por linha: P0 -> R1 (pedido) ou R1 -> P0 (atribuição)',
+      tooManyInstances: 'Cada recurso pode ter no máximo {max} instâncias.',
+      overInstances: 'R{rid} tem mais atribuições que instâncias.',
+      deadlockDemo: 'Exemplo com deadlock',
+      cycleDemo: 'Ciclo sem deadlock',
+    },
+    banker: {
+      initialNarration:
+        'Clique em Play para executar o algoritmo de segurança, comparando a necessidade de cada processo com o vetor Work.',
+      safe: 'Estado seguro! Sequência segura: {sequence}.',
+      unsafe:
+        'Estado inseguro: {processes} não conseguem terminar com os recursos disponíveis.',
+      matrices: 'Estado do Sistema',
+      process: 'Processo',
+      allocation: 'Allocation',
+      max: 'Max',
+      need: 'Need',
+      finish: 'Finish',
+      matricesLegend:
+        'Need = Max − Allocation. A linha destacada é o processo comparado no passo atual.',
+      work: 'Work',
+      sequence: 'Sequência segura',
+      noSequence: 'nenhum processo terminou ainda',
+      request: 'Pedido de Recursos',
+      requestProcess: 'Processo',
+      requestVector: 'Pedido (um valor por recurso)',
+      evaluate: 'Avaliar pedido',
+      grant: 'Conceder pedido',
+      wrongLength: 'O pedido deve ter {count} valores, um por recurso.',
+      verdicts: {
+        exceedsNeed:
+          'Erro: o pedido de P{pid} passa da necessidade declarada {need}.',
+        mustWait:
+          'P{pid} precisa esperar: o pedido {request} é maior que Available {available}.',
+        unsafe:
+          'Pedido negado: atendê-lo deixaria o sistema em um estado inseguro, então P{pid} espera.',
+        granted:
+          'O pedido pode ser atendido: o estado continua seguro com a sequência {sequence}.',
+      },
+      about: 'Estado Seguro',
+      aboutText:
+        'Um estado é seguro se existe uma ordem em que todos os processos conseguem terminar, mesmo que cada um peça tudo o que declarou em Max. O algoritmo simula essa ordem: Work começa igual a Available, e cada processo com Need ≤ Work termina e devolve o que tinha (Work = Work + Allocation). Um estado inseguro ainda não é um deadlock, mas o sistema não consegue mais garantir que ele será evitado.',
+    },
+    graph: {
+      initialNarration:
+        'Clique em Play para reduzir o grafo: a cada passo, um processo cujos pedidos podem ser atendidos termina e libera seus recursos.',
+      noDeadlock: 'Todos os processos foram reduzidos: não há deadlock.',
+      deadlock:
+        'Nenhum outro processo pode ser reduzido: {processes} estão em deadlock.',
+      cycle: 'Ciclo encontrado: {cycle}',
+      noCycle: 'O grafo não tem ciclos, então não há deadlock.',
+      cycleNote:
+        'Com várias instâncias por recurso, um ciclo não garante deadlock: só a redução do grafo decide.',
+      available: 'Instâncias livres',
+      legend:
+        'Círculos são processos; retângulos são recursos, com um ponto por instância. Seta do processo para o recurso: pedido; do recurso para o processo: atribuição. As arestas do ciclo ficam em vermelho, e os processos reduzidos ficam apagados.',
+      about: 'Ciclos e Deadlock',
+      aboutText:
+        'Se o grafo não tem ciclos, não há deadlock. Se cada recurso tem uma única instância, um ciclo significa deadlock. Com várias instâncias, é preciso reduzir o grafo: qualquer processo cujos pedidos cabem nas instâncias livres pode terminar e liberar o que tem; os processos que sobram no final estão em deadlock.',
+    },
+  },
+
+  memory: {
+    title: 'Alocação de Memória: {algorithm}',
+    tooltipTitle: 'Por que a memória se fragmenta?',
+    tooltipContent:
+      'Cada liberação abre um buraco entre blocos ocupados. Com o tempo, a memória livre fica espalhada em buracos pequenos demais para os pedidos. A compactação resolve movendo os blocos para o início da memória, mas custa copiar todo esse conteúdo. O sistema buddy troca a fragmentação externa por fragmentação interna: todo bloco tem tamanho de potência de 2.',
+    initialNarration:
+      'Escolha uma estratégia e clique em Play para executar o roteiro, um comando por vez.',
+    finished: 'O roteiro terminou! Você pode reiniciar para ver novamente.',
+    settings: {
+      memorySize: 'Tamanho da memória (KB)',
+      minBlock: 'Menor bloco do buddy (KB)',
+      compactOnFailure:
+        'Compactar quando a fragmentação impedir um pedido (partições variáveis)',
+      script: 'Roteiro: um comando por linha (até {max})',
+      scriptHint:
+        '"A 100" aloca 100 KB para A, "free A" libera o bloco de A e "compact" compacta a memória.',
+    },
+    view: 'Memória',
+    viewLegend:
+      'Cada faixa colorida é um bloco alocado; as faixas cinza são memória livre. O bloco do último comando fica em destaque.',
+    nextFitPointer: 'Ponteiro do Next Fit',
+    tree: 'Árvore do Buddy',
+    treeLegend:
+      'Cada nível divide um bloco em dois buddies de metade do tamanho. Os blocos coloridos estão alocados, os brancos estão livres e os cinza foram divididos.',
+    utilization: 'Utilização',
+    largestHole: 'Maior Bloco Livre',
+    holes: '{count} bloco(s) livre(s), {free} KB no total',
+    fragmentation: 'Fragmentação Externa',
+    fragmentationHint: 'memória livre fora do maior bloco livre',
+    internalFragmentation: '{size} KB de fragmentação interna',
+    failures: 'Falhas de Alocação',
+    moved: '{moved} KB copiados em compactações',
+    comparison: 'Comparação entre as Estratégias',
+    comparisonLegend:
+      'Resultado do roteiro completo com cada estratégia de partições variáveis.',
+    strategy: 'Estratégia',
+    kilobytes: '{value} KB',
+  },
+
+  memoryAlgorithms: {
+    FIRST_FIT: {
+      short: 'First Fit',
+      name: 'Primeiro que cabe',
+      description:
+        'O First Fit percorre a memória desde o início e usa o primeiro buraco em que o pedido cabe. É rápido, mas tende a acumular buracos pequenos perto do início da memória.',
+    },
+    BEST_FIT: {
+      short: 'Best Fit',
+      name: 'O que melhor cabe',
+      description:
+        'O Best Fit procura o menor buraco que comporta o pedido, para desperdiçar o mínimo. Em compensação, deixa sobras minúsculas que dificilmente servirão para outro pedido.',
+    },
+    WORST_FIT: {
+      short: 'Worst Fit',
+      name: 'O que pior cabe',
+      description:
+        'O Worst Fit usa sempre o maior buraco, apostando que a sobra ainda será grande o bastante para outro pedido. Na prática, consome depressa os buracos grandes de que os pedidos maiores precisariam.',
+    },
+    NEXT_FIT: {
+      short: 'Next Fit',
+      name: 'Próximo que cabe',
+      description:
+        'O Next Fit funciona como o First Fit, mas começa a busca de onde a última alocação terminou e dá a volta na memória. Espalha as alocações, em vez de concentrá-las no início.',
+    },
+    BUDDY: {
+      short: 'Buddy',
+      name: 'Sistema de blocos parceiros',
+      description:
+        'No sistema buddy, todo bloco tem tamanho de potência de 2. Um pedido é arredondado para cima e recebe um bloco obtido dividindo ao meio, quantas vezes for preciso, um bloco livre maior. Ao liberar, o bloco se junta ao seu buddy se ele também estiver livre. As divisões e fusões são rápidas, mas o arredondamento causa fragmentação interna.',
+    },
+  },
+
+  narration: {
+    memory: {
+      placed: '{name} ({size} KB) vai para o endereço {address}: {reason}.',
+      reasons: {
+        FIRST_FIT: 'é o primeiro buraco em que cabe',
+        BEST_FIT: 'é o menor buraco em que cabe',
+        WORST_FIT: 'é o maior buraco',
+        NEXT_FIT: 'é o primeiro buraco em que cabe a partir do ponteiro',
+      },
+      compactedFirst:
+        'Nenhum buraco comporta {name}, mas há memória livre suficiente: a memória é compactada antes ({moved} KB copiados).',
+      fragmented:
+        '{name} ({size} KB) não pode ser alocado: há {free} KB livres, mas o maior bloco livre tem {largest} KB (fragmentação externa).',
+      noSpace:
+        '{name} ({size} KB) não pode ser alocado: só há {free} KB livres.',
+      freed: '{name} libera {size} KB no endereço {address}.',
+      notInMemory:
+        '{name} não está na memória, porque seu pedido falhou: não há o que liberar.',
+      compacted:
+        'A memória é compactada: {moved} KB são copiados, e a memória livre vira um único buraco de {free} KB.',
+      buddyPlaced:
+        '{name} pede {size} KB e recebe um bloco de {block} KB no endereço {address} ({waste} KB de fragmentação interna).',
+      split: 'Para isso, um bloco de {from} KB é dividido {count} vez(es).',
+      merged:
+        'O bloco se junta ao seu buddy livre {count} vez(es) e forma um bloco livre de {size} KB.',
+      buddyCompact:
+        'O sistema buddy não compacta a memória: cada bloco tem um endereço fixo na árvore.',
+    },
+    deadlock: {
+      canFinish:
+        'P{pid}: Need {need} ≤ Work {work}. P{pid} pode terminar e devolver o que tem: Work passa a {after}.',
+      mustWait:
+        'P{pid}: Need {need} não cabe em Work {work}; P{pid} fica para a próxima passada.',
+      reduced:
+        'Os pedidos de P{pid} podem ser atendidos: ele termina e libera seus recursos. Instâncias livres: {available}.',
+    },
+    cpu: {
+      arrived: '{process} chega à fila de prontos.',
+      quantumExpired:
+        '{process} esgotou o quantum e volta ao fim da fila de prontos.',
+      demoted: '{process} esgotou o quantum e desce para o nível {level}.',
+      preempted: {
+        shorter: '{process} é interrompido: {next} tem menos tempo restante.',
+        higherPriority:
+          '{process} é interrompido: {next} tem prioridade maior.',
+        higherLevel:
+          '{process} é interrompido: {next} está em um nível mais alto.',
+      },
+      idle: 'A CPU fica ociosa: não há processo pronto.',
+      continues: '{process} continua executando.',
+      dispatch: {
+        FCFS: '{process} assume a CPU: é o primeiro da fila.',
+        SJF: '{process} assume a CPU: tem a menor duração ({burst}) entre os prontos.',
+        SRTF: '{process} assume a CPU: tem o menor tempo restante ({remaining}).',
+        RR: '{process} assume a CPU por até {quantum} unidade(s) de tempo.',
+        PRIORITY:
+          '{process} assume a CPU: tem a maior prioridade ({priority}) entre os prontos.',
+        PRIORITY_P:
+          '{process} assume a CPU: tem a maior prioridade ({priority}) entre os prontos.',
+        MLFQ: '{process} assume a CPU no nível {level}, com quantum {quantum}.',
+        mlfqLast:
+          '{process} assume a CPU no nível {level}, que é FCFS e não tem quantum.',
+      },
+      completed: '{process} termina no instante {time}.',
+    },
+    multi: {
+      idle: 'A CPU ficou ociosa por {ticks} ticks esperando o disco.',
+      resumed: '{process} é retomado: sua cota voltou a caber na memória.',
+      hit: '{process} referencia a página {page}: hit no frame {frame}.',
+      freeFrame:
+        '{process} referencia a página {page}: page fault! A página é carregada no frame livre {frame}.',
+      ownVictim:
+        '{process} referencia a página {page}: page fault! Sem frame livre para {process}, o LRU remove a sua página {victim}, e a página {page} ocupa o frame {frame}.',
+      otherVictim:
+        '{process} referencia a página {page}: page fault! O LRU global remove a página {victim} de {owner}, e a página {page} ocupa o frame {frame}.',
+      blocked: '{process} fica bloqueado até o disco carregar a página.',
+      released:
+        'O controle de carga devolve ao pool {count} frame(s) de {process}.',
+      suspended:
+        'A demanda passou da memória: {process} é suspenso e libera seus frames.',
+      finished: '{process} terminou e libera seus frames.',
+    },
+    translation: {
+      split:
+        'O endereço {address} é dividido em página {page} e deslocamento {offset}.',
+      tlbHit:
+        'TLB hit: a TLB já traduz a página {page} para o frame {frame}, sem consultar a tabela de páginas.',
+      tlbMiss:
+        'TLB miss: a página {page} não está na TLB, então a tabela de páginas é consultada.',
+      tableHit:
+        'A entrada é válida: a página está no frame {frame}, e a tradução é copiada para a TLB.',
+      freeFrame:
+        'Page fault! A página {page} não está na memória e é carregada no frame livre {frame}.',
+      replacement:
+        'Page fault! A memória está cheia: o {algorithm} remove a página {victim}, e a página {page} ocupa o frame {frame}.',
+      tlbInvalidated:
+        'A entrada da página {page} na TLB é invalidada, pois ela saiu da memória.',
+      tlbVictim:
+        'A TLB está cheia: pela política {policy}, a entrada da página {page} é substituída.',
+      physical: 'Endereço físico: {address}.',
+    },
+    page: {
+      start:
+        'Bem-vindo! Vamos começar a simulação do algoritmo {algorithm}. Primeiro, vamos adicionar a página {page} à memória.',
+      freeFrame:
+        'Page fault! A página {page} não está na memória, mas ainda há um frame livre para carregá-la.',
+      memoryFull:
+        'Detectamos um page fault! A página {page} precisa ser carregada, mas a memória está cheia.',
+      clockTick: ' Interrupção de relógio: todos os bits R foram zerados.',
+      writeBack:
+        ' A página {victim} estava modificada (dirty) e é gravada no disco antes de sair (write-back).',
+      write: ' Como é uma escrita, o bit M (dirty) da página {page} é ligado.',
+      victim: {
+        FIFO: 'Seguindo o princípio First-In-First-Out, vamos remover a página mais antiga ({victim}).',
+        LRU: 'Usando LRU, vamos remover a página que não foi acessada há mais tempo ({victim}).',
+        OPT: 'O algoritmo ótimo olha para o futuro: a página {victim} é a que demorará mais para ser usada novamente.',
+        CLOCK:
+          'O ponteiro percorre os frames dando uma segunda chance às páginas com R = 1 (zerando o bit). A página {victim} tinha R = 0 e será removida.',
+        ESC: 'O ponteiro procura a menor classe (R, M), preferindo páginas não referenciadas e não modificadas. A página {victim} será removida.',
+        LFU: 'Usando LFU, vamos remover a página com o menor contador de acessos ({victim}).',
+        MFU: 'Usando MFU, vamos remover a página com o maior contador de acessos ({victim}).',
+        NRU: 'Usando NRU, vamos remover uma página da menor classe (R, M): a página {victim}.',
+      },
+      hit: {
+        FIFO: 'A página {page} já está na memória. No FIFO, não precisamos fazer nenhuma atualização adicional.',
+        LRU: 'Ótimo! A página {page} já está na memória. Vamos atualizar seu timestamp para registrar este acesso recente.',
+        OPT: 'A página {page} já está na memória. O OPT não guarda histórico: só as referências futuras importam.',
+        referenceBit:
+          'A página {page} já está na memória. Vamos ligar seu bit de referência R.',
+        frequency:
+          'A página {page} já está na memória. Vamos incrementar seu contador de acessos.',
+      },
+    },
+    disk: {
+      returnMove:
+        'O cabeçote retorna ao cilindro {cylinder} sem atender ninguém no caminho.',
+      edgeMove:
+        'O cabeçote vai até a borda (cilindro {cylinder}) e inverte o sentido.',
+      jump: 'Sem requisições à frente, o cabeçote salta para a requisição mais distante no outro extremo.',
+      FCFS: 'O FCFS atende na ordem de chegada: a próxima da fila é o cilindro {cylinder} ({distance} cilindros).',
+      SSTF: 'O SSTF escolhe a requisição pendente mais próxima do cabeçote: o cilindro {cylinder}, a {distance} cilindros.',
+      SPTF: 'O SPTF escolhe a requisição que o cabeçote alcança mais rápido, somando busca e latência rotacional: o cilindro {cylinder} ({distance} cilindros).',
+      batch:
+        'O {algorithm} varre o lote atual (lote {batch}) {sense} e atende o cilindro {cylinder} ({distance} cilindros).',
+      sweep:
+        'O {algorithm} segue {sense} e atende a próxima requisição no caminho: o cilindro {cylinder} ({distance} cilindros).',
+    },
+  },
+
+  playback: {
+    start: 'Ir para o início',
+    previous: 'Passo anterior',
+    end: 'Ir para o fim',
+    step: 'Passo {step} de {total}',
+    timeline: 'Linha do tempo',
+    speed: 'Velocidade',
+    label: 'Controles de reprodução',
+    shortcuts:
+      'Atalhos com o foco nos controles: espaço inicia ou pausa, ← e → voltam ou avançam um passo, Home e End vão ao início e ao fim.',
+  },
+
+  traceTable: {
+    title: 'Tabela de Execução',
+    download: 'Baixar o trace (CSV)',
+    reference: 'Referência',
+    goToStep: 'Ir para o passo {step}',
+    frame: 'Frame {index}',
+    lruStack: 'Pilha LRU',
+    legend:
+      'Células vermelhas: página carregada no fault (a vítima aparece riscada).',
+    bitsLegend: 'O número sobrescrito é o bit R; ◂ marca o ponteiro.',
+    stackLegend:
+      'A pilha LRU lista as páginas da mais recente (topo) para a próxima vítima.',
+    clickLegend: 'Clique em uma coluna para ir até aquele passo.',
+    writeBack: 'Write-back',
+    writeLegend:
+      'O sufixo w marca as escritas; W indica que a vítima modificada foi gravada no disco.',
+  },
+
+  seekPath: {
+    title: 'Caminho do Cabeçote',
+    download: 'Baixar a ordem de atendimento com as distâncias (CSV)',
+    ariaLabel: 'Caminho do cabeçote: cilindro por ordem de atendimento',
+    legend:
+      'Os números nos segmentos são as distâncias percorridas. Círculos vazios são deslocamentos até a borda; linhas tracejadas são retornos (entre parênteses quando não contam no seek).',
+  },
+
+  comparison: {
+    faultsChart: 'Page Faults por algoritmo',
+    hitRatioChart: 'Taxa de acerto por algoritmo',
+    pagePlayback: 'Reprodução em paralelo — passo {step} de {total}',
+    currentPage: ' (página {page})',
+    faults: 'Faults: {count}',
+    totalSeek: 'Seek Total',
+    averageSeek: 'Seek Médio',
+    maxWait: 'Espera Máxima',
+    averageResponse: 'Resposta Média',
+    responseVariance: 'Variância da Resposta',
+    totalTime: 'Tempo de Acesso (ms)',
+    waitNote:
+      'A espera de uma requisição é a distância percorrida pelo cabeçote até atendê-la, incluindo retornos não contabilizados no seek.',
+    seekChart: 'Seek total por algoritmo (cilindros)',
+    waitChart: 'Espera máxima por algoritmo (cilindros)',
+    diskPlayback: 'Reprodução em paralelo — movimento {step} de {total}',
+    seek: 'Seek: {count}',
+  },
+
+  belady: {
+    maxFrames: 'Máximo de frames (até {max})',
+    analyzed: 'Sequência analisada:',
+    chartTitle: 'Page faults × número de frames',
+    xLabel: 'Número de frames',
+    yLabel: 'Page faults',
+    anomaly:
+      'Anomalia de Belady no {algorithm}: com {frames} frames ocorrem {faults} faults, mas com {nextFrames} frames ocorrem {nextFaults}.',
+    noAnomaly:
+      'Nenhuma anomalia: para os algoritmos exibidos, mais frames nunca aumentam os page faults nesta sequência.',
+    searchTitle: 'Encontrar uma anomalia',
+    searchDescription:
+      'Testa sequências aleatórias (a partir da semente) até encontrar uma em que o FIFO tenha mais faults com mais frames.',
+    search: 'Buscar',
+    searching: 'Testando sequências… {count} de {total}',
+    notFound:
+      'Nenhuma anomalia encontrada em {attempts} tentativas. Tente outra semente ou uma sequência mais longa.',
+    found:
+      'Encontrada após {attempts} tentativa(s): FIFO com {frames} frames gera {faults} faults e com {nextFrames} frames gera {nextFaults}.',
+    useSequence: 'Usar esta sequência',
+  },
+
+  scenario: {
+    copyLink: 'Copiar link',
+    exportJson: 'Exportar JSON',
+    importJson: 'Importar JSON',
+    report: 'Relatório',
+    linkCopied: 'Link copiado!',
+    copyFailed:
+      'Não foi possível copiar; copie o endereço da barra do navegador.',
+    wrongKind: 'O arquivo contém um cenário de {kind}.',
+    imported: 'Cenário importado.',
+    kinds: {
+      page: 'substituição de páginas',
+      disk: 'escalonamento de disco',
+    },
+    errors: {
+      notObject: 'O cenário deve ser um objeto JSON.',
+      kind: 'O campo "kind" deve ser "page" ou "disk".',
+      integer: 'O campo "{field}" deve ser um inteiro entre {min} e {max}.',
+      number: 'O campo "{field}" deve ser um número entre {min} e {max}.',
+      list: 'O campo "{field}" deve ser uma lista não vazia de inteiros.',
+      listItem:
+        'O item {index} de "{field}" deve ser um inteiro entre {min} e {max}.',
+      oneOf: 'O campo "{field}" deve ser um destes valores: {options}.',
+      length: 'O campo "{field}" deve ter {count} itens.',
+      boolean: 'O campo "{field}" deve ser true ou false.',
+      invalidJson: 'O arquivo não contém um JSON válido.',
+      version:
+        'Versão de cenário não suportada: {version} (esperada: {expected}).',
+    },
+  },
+
+  traceFile: {
+    title: 'Carregar trace de arquivo',
+    pageHint:
+      'Aceita a saída do Valgrind Lackey (--trace-mem=yes) ou linhas "R endereço" / "W endereço" em hexadecimal. Cada acesso vira a página do seu endereço.',
+    diskHint:
+      'Aceita a saída do blkparse ou um CSV "tempo,setor,op" (tempo em segundos). Os setores são distribuídos pelos {cylinders} cilindros do disco, e as chegadas contam em ms: o modelo de tempo do disco é ligado ao carregar.',
+    pageSize: 'Tamanho da página',
+    bytes: '{size} bytes',
+    choose: 'Escolher arquivo',
+    cancel: 'Cancelar',
+    stages: {
+      reading: 'Lendo o arquivo...',
+      parsing: 'Interpretando as linhas...',
+      simulating: 'Executando os algoritmos...',
+    },
+    loaded: '{name}: {count} acessos lidos, {skipped} linhas ignoradas.',
+    renumbered:
+      'Trace carregado. As páginas foram renumeradas na ordem do primeiro acesso para caberem no simulador.',
+    errors: {
+      empty: 'Nenhum acesso reconhecido no arquivo.',
+      unreadable: 'Não foi possível ler o arquivo.',
+      failed:
+        'O processamento do trace falhou (o arquivo pode ser grande demais para a memória disponível).',
+    },
+    summaryTitle: 'Resumo do trace {name}',
+    pageSummary:
+      'O trace é longo demais para ser visto passo a passo. A tabela mostra o resultado de cada algoritmo com {frames} frames e páginas de {size} bytes.',
+    diskSummary:
+      'O trace é longo demais para ser visto passo a passo. A tabela mostra o resultado de cada algoritmo em um disco de {cylinders} cilindros, simulado em janelas de {window} requisições com o modelo de tempo (tempos em ms).',
+    truncated: 'Só os primeiros {max} acessos foram lidos.',
+    references: 'Acessos',
+    distinctCylinders: 'Cilindros distintos',
+    writes: 'Escritas',
+    skipped: 'Linhas ignoradas',
+    maxResponse: 'Resposta Máxima',
+    close: 'Voltar ao simulador',
+  },
+
+  chartExport: {
+    svg: 'Baixar como SVG',
+    png: 'Baixar como PNG',
+  },
+
+  report: {
+    print: 'Imprimir',
+    close: 'Fechar',
+    inputs: 'Entradas',
+    totals: 'Totais',
+    pageTitle: 'Relatório — Substituição de Páginas',
+    references: 'Sequência de referências:',
+    frames: 'Frames:',
+    pageSection: '{algorithm} — {faults} page faults',
+    diskTitle: 'Relatório — Escalonamento de Disco',
+    requests: 'Fila de requisições:',
+    cylinders: 'Cilindros:',
+    initialHead: 'Cabeçote inicial:',
+    returnSweep: 'Retorno do C-SCAN/C-LOOK no seek:',
+    batchSize: 'lote do N-step SCAN:',
+    averageSeek: 'Seek Médio',
+    maxWait: 'Maior Espera',
+    arrivals: 'Chegadas ({unit}):',
+    headSpeed: 'Velocidade do cabeçote:',
+    cylindersPerTick: '{speed} cilindros/tick',
+    averageResponse: 'Resposta Média',
+    responseVariance: 'Variância da Resposta',
+    timing: 'Modelo de tempo:',
+    timingValue:
+      '{rpm} RPM; busca {settle} + {factor} × √d ms; {sectors} setores por trilha',
+    timingOff: 'desligado (relógio em ticks)',
+    totalTime: 'Tempo de Acesso (ms)',
+    diskSection: '{algorithm} — {seek} cilindros',
+  },
+
+  quiz: {
+    result: 'Resultado ({algorithm})',
+    percent: '{percent} de acerto',
+    review: 'Revisão',
+    step: 'Passo',
+    reference: 'Referência',
+    question: 'Pergunta',
+    headAt: 'Cabeçote em',
+    yourAnswer: 'Sua resposta',
+    correctAnswer: 'Resposta correta',
+    outcome: 'Resultado',
+    restart: 'Refazer exercício',
+    progress: 'Pergunta {current} de {total} — acertos até agora: {correct}',
+    correct: 'Correto!',
+    incorrect: 'Incorreto. Resposta: {answer}.',
+    seeResult: 'Ver resultado',
+    next: 'Próxima',
+    submit: 'Responder',
+    hitAnswer: 'hit',
+    faultAnswer: 'fault',
+    victimAnswer: 'fault, sai {victim}',
+    pageQuestion: 'A referência à página {page} vai gerar:',
+    pageFault: 'Page fault',
+    victimQuestion: 'Qual página será substituída?',
+    cylinderAnswer: 'cilindro {cylinder}',
+    diskQuestion: 'Qual cilindro o {algorithm} vai atender a seguir?',
+    headPosition: 'Cabeçote no cilindro {head}, {arrow}',
+  },
+
+  csv: {
+    step: 'Passo',
+    reference: 'Referência',
+    frame: 'Frame {index}',
+    fault: 'Fault',
+    victim: 'Vítima',
+    faults: 'Faults',
+    operation: 'Operação',
+    read: 'leitura',
+    write: 'escrita',
+    writeBack: 'Write-back',
+    writeBacks: 'Write-backs',
+    from: 'De',
+    to: 'Para',
+    request: 'Requisição',
+    movement: 'Movimento',
+    distance: 'Distância',
+    seek: 'Seek',
+    totalSeek: 'Seek total',
+    returnMove: 'retorno',
+    edgeMove: 'borda',
+    service: 'atendimento',
+    sector: 'Setor',
+    seekTime: 'Busca (ms)',
+    latency: 'Latência (ms)',
+    transfer: 'Transferência (ms)',
+    end: 'Fim (ms)',
+  },
+
+  cli: {
+    usage:
+      'Uso: npm run sim -- <page|disk> [opções]\n\n  page --alg <{pageAlgorithms}> --frames N --refs "7 0 1 2w ..."\n  disk --alg <{diskAlgorithms}> --size N --head N --requests "98 183 ..."\n       [--direction up|down] [--arrivals "0 0 5 ..."] [--batch N] [--no-return]\n\nOpções comuns:\n  --format table|csv|json  Formato da tabela passo a passo (padrão: table)\n  --lang pt|en|es          Idioma da saída (padrão: pt)\n  --compare <arquivo>      Confere um trace enviado (CSV ou JSON) com o gabarito',
+    unknownCommand: 'Comando desconhecido: "{command}".',
+    unknownOption: 'Opção desconhecida: {option}.',
+    missingValue: 'A opção {option} precisa de um valor.',
+    invalidChoice: '{option} deve ser um de: {options}.',
+    unreadable: 'Não foi possível ler o arquivo {file}.',
+    pageSummary:
+      'Page faults: {faults} | acertos: {hits} ({hitRatio}%) | write-backs: {writeBacks}',
+    diskSummary:
+      'Seek total: {totalSeek} | seek médio: {averageSeek} | maior espera: {maxWait}',
+    invalidSubmission: '{file} não é um CSV nem um JSON de trace.',
+    unknownHeader:
+      'O cabeçalho de {file} não é o de um trace de {kind}: {header}',
+    firstDifference:
+      'Primeira diferença no passo {step}, coluna "{column}": esperado "{expected}", enviado "{got}".',
+    stepCount: '{file} tem {got} passos, mas o gabarito tem {expected}.',
+    match: '{file} confere com o gabarito ({steps} passos).',
+  },
+};
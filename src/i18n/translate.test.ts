@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { parseIntegerInRange } from '../engines/input';
+import {
+  CATALOGS,
+  LOCALES,
+  PERCENT,
+  createTranslator,
+  detectLocale,
+  formatNumber,
+} from './translate';
+
+// Lista "caminho -> mensagem" de todas as folhas de um catálogo
+function flatten(node: object, prefix = ''): [string, string][] {
+  return Object.entries(node).flatMap(([key, value]) =>
+    typeof value === 'string'
+      ? [[prefix + key, value] as [string, string]]
+      : flatten(value, `${prefix}${key}.`)
+  );
+}
+
+const markers = (message: string) =>
+  (message.match(/\{\w+\}/g) ?? []).sort().join(' ');
+
+describe('catálogos', () => {
+  const reference = new Map(flatten(CATALOGS.pt));
+
+  it.each(LOCALES)('%s usa os mesmos marcadores do português', (locale) => {
+    for (const [key, message] of flatten(CATALOGS[locale])) {
+      expect(markers(message), key).toBe(markers(reference.get(key)!));
+    }
+  });
+
+  it.each(LOCALES)('%s não tem mensagens vazias', (locale) => {
+    for (const [key, message] of flatten(CATALOGS[locale])) {
+      expect(message.trim(), key).not.toBe('');
+    }
+  });
+});
+
+describe('createTranslator', () => {
+  it('preenche os marcadores', () => {
+    const t = createTranslator('en');
+    expect(t('playback.step', { step: 2, total: 7 })).toBe('Step 2 of 7');
+  });
+
+  it('mantém marcadores sem valor', () => {
+    const t = createTranslator('pt');
+    expect(t('quiz.pageQuestion')).toBe(
+      'A referência à página {page} vai gerar:'
+    );
+  });
+
+  it('traduz as mensagens dos motores', () => {
+    const t = createTranslator('es');
+    const result = parseIntegerInRange('0', t('input.labels.frames'), 1, 10, t);
+    expect(!result.ok && result.error).toBe(
+      'El número de marcos debe estar entre 1 y 10.'
+    );
+  });
+});
+
+describe('formatNumber', () => {
+  it('usa o separador decimal do idioma', () => {
+    expect(formatNumber('pt', 0.625, PERCENT)).toBe('62,5%');
+    expect(formatNumber('en', 0.625, PERCENT)).toBe('62.5%');
+  });
+});
+
+describe('detectLocale', () => {
+  it('prefere o idioma salvo', () => {
+    expect(detectLocale('es', 'en-US')).toBe('es');
+  });
+
+  it('usa o idioma do navegador quando não há escolha salva', () => {
+    expect(detectLocale(null, 'en-GB')).toBe('en');
+  });
+
+  it('volta ao português para idiomas sem catálogo', () => {
+    expect(detectLocale('xx', 'fr-FR')).toBe('pt');
+  });
+});
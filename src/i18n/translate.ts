@@ -0,0 +1,96 @@
+/**
+ * Núcleo da internacionalização: catálogos tipados, interpolação e
+ * formatação de números sensível ao idioma.
+ *
+ * O catálogo em português é a referência: os demais idiomas precisam ter
+ * exatamente as mesmas chaves (o TypeScript confere). As mensagens usam
+ * marcadores `{nome}`, preenchidos por `createTranslator`.
+ */
+
+import { en } from './en';
+import { es } from './es';
+import { pt } from './pt';
+
+export type Locale = 'pt' | 'en' | 'es';
+
+export const LOCALES: readonly Locale[] = ['pt', 'en', 'es'];
+
+// Tags BCP 47 usadas na formatação de números
+export const INTL_LOCALES: Record<Locale, string> = {
+  pt: 'pt-BR',
+  en: 'en-US',
+  es: 'es-ES',
+};
+
+// Mesma forma do catálogo em português, com textos livres nas folhas
+type Shape<T> = { [K in keyof T]: T[K] extends string ? string : Shape<T[K]> };
+export type Messages = Shape<typeof pt>;
+
+// Caminhos com ponto até cada mensagem (ex.: "playback.next")
+type Paths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string
+    ? `${Prefix}${K}`
+    : Paths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+export type MessageKey = Paths<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const CATALOGS: Record<Locale, Messages> = { pt, en, es };
+
+/**
+ * Busca uma mensagem pelo caminho e preenche os marcadores `{nome}`.
+ * Marcadores sem valor ficam como estão, para o erro ser visível.
+ */
+export function createTranslator(locale: Locale): Translate {
+  return (key, params = {}) => {
+    const message = key
+      .split('.')
+      .reduce<unknown>(
+        (node, part) => (node as Record<string, unknown>)[part],
+        CATALOGS[locale]
+      );
+    if (typeof message !== 'string') return key;
+    return message.replace(/\{(\w+)\}/g, (marker, name: string) =>
+      name in params ? String(params[name]) : marker
+    );
+  };
+}
+
+// Tradutor padrão dos motores, que continuam em português sem contexto
+export const translatePt = createTranslator('pt');
+
+// Formatos usados nas tabelas e gráficos de resultados
+export const ONE_DECIMAL: Intl.NumberFormatOptions = {
+  minimumFractionDigits: 1,
+  maximumFractionDigits: 1,
+};
+// Tempos em ticks: inteiros sem casas decimais, frações com uma casa
+export const AT_MOST_ONE_DECIMAL: Intl.NumberFormatOptions = {
+  maximumFractionDigits: 1,
+};
+export const PERCENT: Intl.NumberFormatOptions = {
+  style: 'percent',
+  ...ONE_DECIMAL,
+};
+
+/**
+ * Formata um número no padrão do idioma (separador decimal e de milhar).
+ */
+export function formatNumber(
+  locale: Locale,
+  value: number,
+  options?: Intl.NumberFormatOptions
+) {
+  return new Intl.NumberFormat(INTL_LOCALES[locale], options).format(value);
+}
+
+/**
+ * Idioma inicial: o salvo pelo usuário ou, na falta dele, o do navegador.
+ */
+export function detectLocale(saved: string | null, browser: string): Locale {
+  if (LOCALES.includes(saved as Locale)) return saved as Locale;
+  const language = browser.slice(0, 2).toLowerCase();
+  return LOCALES.includes(language as Locale) ? (language as Locale) : 'pt';
+}
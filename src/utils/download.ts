@@ -0,0 +1,120 @@
+/**
+ * Downloads gerados no navegador: arquivos de texto (CSV, JSON) e gráficos
+ * SVG, exportados como SVG ou convertidos para PNG.
+ */
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Propriedades que vêm das classes do Tailwind e precisam ir inline no SVG
+const INLINE_STYLES = [
+  'fill',
+  'stroke',
+  'stroke-width',
+  'stroke-dasharray',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+];
+
+/**
+ * Baixa um conteúdo como arquivo.
+ */
+export function downloadFile(
+  content: string | Blob,
+  fileName: string,
+  type: string
+) {
+  const blob =
+    typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Alguns navegadores só leem o blob depois do clique; revogar na hora
+  // pode cancelar o download
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Baixa um CSV. O BOM faz o Excel reconhecer os acentos em UTF-8.
+ */
+export function downloadCsv(csv: string, fileName: string) {
+  downloadFile('\uFEFF' + csv, fileName, 'text/csv;charset=utf-8');
+}
+
+/**
+ * Gera um nome de arquivo a partir de um título ("Page faults × frames"
+ * vira "page-faults-frames").
+ */
+export function slugify(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Serializa um SVG da página como arquivo independente: copia os estilos
+ * calculados de cada elemento (as classes do Tailwind não vão junto),
+ * define o tamanho a partir do viewBox e adiciona um fundo branco.
+ */
+function serializeSvg(svg: SVGSVGElement) {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const originals = svg.querySelectorAll('*');
+  clone.querySelectorAll('*').forEach((element, i) => {
+    const computed = window.getComputedStyle(originals[i]);
+    const style = INLINE_STYLES.map(
+      (property) => `${property}:${computed.getPropertyValue(property)}`
+    ).join(';');
+    element.setAttribute('style', style);
+    element.removeAttribute('class');
+  });
+  const { width, height } = svg.viewBox.baseVal;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.removeAttribute('class');
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', 'white');
+  clone.insertBefore(background, clone.firstChild);
+  return {
+    markup: new XMLSerializer().serializeToString(clone),
+    width,
+    height,
+  };
+}
+
+/**
+ * Baixa um gráfico como SVG.
+ */
+export function downloadSvg(svg: SVGSVGElement, fileName: string) {
+  downloadFile(serializeSvg(svg).markup, fileName, 'image/svg+xml');
+}
+
+/**
+ * Baixa um gráfico como PNG, desenhando o SVG em um canvas com a escala
+ * informada (2× por padrão, para ficar nítido em slides).
+ */
+export function downloadPng(svg: SVGSVGElement, fileName: string, scale = 2) {
+  const { markup, width, height } = serializeSvg(svg);
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+    canvas.toBlob((blob) => {
+      if (blob) downloadFile(blob, fileName, 'image/png');
+    });
+  };
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+}
@@ -0,0 +1,154 @@
+/**
+ * Web Worker que lê um arquivo de trace fora da thread da página. Traces
+ * curtos voltam inteiros, para o simulador passo a passo; nos longos, o
+ * worker também executa todos os algoritmos e devolve só as métricas,
+ * informando o progresso de cada etapa.
+ */
+
+import { DiskSchedulingConfig } from '../engines/diskScheduling';
+import {
+  DiskTraceSummary,
+  MAX_INTERACTIVE_TRACE,
+  PageTraceSummary,
+  blocksToCylinders,
+  compareBlockTrace,
+  comparePageTrace,
+  parseAddressTrace,
+  parseBlockTrace,
+} from '../engines/traceFiles';
+
+export type TraceJob =
+  | { kind: 'page'; file: File; pageSize: number; frameCount: number }
+  | {
+      kind: 'disk';
+      file: File;
+      config: Omit<DiskSchedulingConfig, 'algorithm' | 'arrivals' | 'sectors'>;
+    };
+
+export type TraceStage = 'reading' | 'parsing' | 'simulating';
+
+/**
+ * Números do trace lido.
+ * - `distinct`: Páginas ou cilindros diferentes acessados.
+ * - `skipped`: Linhas em outro formato, ignoradas.
+ * - `truncated`: O arquivo passou de MAX_TRACE_REFERENCES acessos.
+ */
+export interface TraceStats {
+  references: number;
+  writes: number;
+  distinct: number;
+  skipped: number;
+  truncated: boolean;
+}
+
+/**
+ * Resultado da leitura. `summaries` só vem nos traces longos, e então as
+ * listas de acessos vêm vazias.
+ */
+export type TraceResult =
+  | {
+      kind: 'page';
+      fileName: string;
+      pageSize: number;
+      frameCount: number;
+      stats: TraceStats;
+      pages: number[];
+      writes: boolean[];
+      summaries: PageTraceSummary[] | null;
+    }
+  | {
+      kind: 'disk';
+      fileName: string;
+      diskSize: number;
+      stats: TraceStats;
+      cylinders: number[];
+      arrivals: number[];
+      summaries: DiskTraceSummary[] | null;
+    };
+
+export type TraceMessage =
+  | { type: 'progress'; stage: TraceStage; fraction: number }
+  | { type: 'done'; result: TraceResult }
+  | { type: 'error'; reason: 'empty' | 'unreadable' | 'failed' };
+
+const post = (message: TraceMessage) => self.postMessage(message);
+
+const progress = (stage: TraceStage) => (fraction: number) =>
+  post({ type: 'progress', stage, fraction });
+
+const countStats = (
+  values: number[],
+  writes: boolean[],
+  skipped: number,
+  truncated: boolean
+): TraceStats => ({
+  references: values.length,
+  writes: writes.filter(Boolean).length,
+  distinct: new Set(values).size,
+  skipped,
+  truncated,
+});
+
+function run(job: TraceJob, text: string): TraceResult | null {
+  if (job.kind === 'page') {
+    const trace = parseAddressTrace(text, job.pageSize, progress('parsing'));
+    const { pages, writes, skipped, truncated } = trace;
+    if (pages.length === 0) return null;
+    const large = pages.length > MAX_INTERACTIVE_TRACE;
+    return {
+      kind: 'page',
+      fileName: job.file.name,
+      pageSize: job.pageSize,
+      frameCount: job.frameCount,
+      stats: countStats(pages, writes, skipped, truncated),
+      pages: large ? [] : pages,
+      writes: large ? [] : writes,
+      summaries: large
+        ? comparePageTrace(trace, job.frameCount, progress('simulating'))
+        : null,
+    };
+  }
+
+  const trace = parseBlockTrace(text, progress('parsing'));
+  const { blocks, arrivals, writes, skipped, truncated } = trace;
+  if (blocks.length === 0) return null;
+  const cylinders = blocksToCylinders(blocks, job.config.diskSize);
+  const large = blocks.length > MAX_INTERACTIVE_TRACE;
+  return {
+    kind: 'disk',
+    fileName: job.file.name,
+    diskSize: job.config.diskSize,
+    stats: countStats(cylinders, writes, skipped, truncated),
+    cylinders: large ? [] : cylinders,
+    arrivals: large ? [] : arrivals,
+    summaries: large
+      ? compareBlockTrace(
+          cylinders,
+          arrivals,
+          job.config,
+          progress('simulating')
+        )
+      : null,
+  };
+}
+
+self.onmessage = async ({ data: job }: MessageEvent<TraceJob>) => {
+  progress('reading')(0);
+  let text: string;
+  try {
+    text = await job.file.text();
+  } catch {
+    post({ type: 'error', reason: 'unreadable' });
+    return;
+  }
+  // Erros na leitura do conteúdo ou nas simulações (inclusive falta de
+  // memória) também voltam para a página, em vez de deixá-la esperando
+  let result: TraceResult | null;
+  try {
+    result = run(job, text);
+  } catch {
+    post({ type: 'error', reason: 'failed' });
+    return;
+  }
+  post(result ? { type: 'done', result } : { type: 'error', reason: 'empty' });
+};